@@ -0,0 +1,45 @@
+-- Migration: Add discussion posts and votes for the Discussion block
+-- Posts belong to a single discussion block (block_id) inside an assignment.
+-- Replies point at their parent post; moderation status gates visibility to peers.
+
+CREATE TABLE IF NOT EXISTS discussion_posts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    block_id TEXT NOT NULL, -- The TipTap discussion block ID within the assignment
+    parent_id UUID REFERENCES discussion_posts(id) ON DELETE CASCADE, -- NULL for top-level posts
+
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    is_anonymous BOOLEAN NOT NULL DEFAULT FALSE, -- Hidden from peers, always visible to staff
+
+    status TEXT NOT NULL DEFAULT 'approved' CHECK (status IN ('pending', 'approved', 'rejected')),
+    moderated_by_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    moderated_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_discussion_posts_assignment_block ON discussion_posts(assignment_id, block_id);
+CREATE INDEX idx_discussion_posts_parent ON discussion_posts(parent_id);
+CREATE INDEX idx_discussion_posts_author ON discussion_posts(author_id);
+CREATE INDEX idx_discussion_posts_pending ON discussion_posts(assignment_id, block_id) WHERE status = 'pending';
+
+CREATE TRIGGER update_discussion_posts_updated_at BEFORE UPDATE ON discussion_posts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One upvote per user per post
+CREATE TABLE IF NOT EXISTS discussion_post_votes (
+    post_id UUID NOT NULL REFERENCES discussion_posts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (post_id, user_id)
+);
+
+CREATE INDEX idx_discussion_post_votes_user ON discussion_post_votes(user_id);
+
+COMMENT ON TABLE discussion_posts IS 'Posts and replies for assignment Discussion blocks';
+COMMENT ON COLUMN discussion_posts.status IS 'pending until a moderator approves when the block requires moderation';
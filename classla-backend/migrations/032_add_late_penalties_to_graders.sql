@@ -0,0 +1,12 @@
+-- Late penalties applied from an assignment's late policy (settings.latePolicy)
+-- The penalty is a percentage of the raw scores; score_modifier is not penalised
+
+ALTER TABLE graders
+ADD COLUMN late_penalty_percent NUMERIC NOT NULL DEFAULT 0
+  CHECK (late_penalty_percent >= 0 AND late_penalty_percent <= 100),
+ADD COLUMN late_minutes INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN late_penalty_overridden BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN graders.late_penalty_percent IS 'Percent of raw_assignment_score + raw_rubric_score deducted for lateness.';
+COMMENT ON COLUMN graders.late_minutes IS 'How late the graded submission was, in minutes past the student''s due date.';
+COMMENT ON COLUMN graders.late_penalty_overridden IS 'True when staff set the penalty by hand (e.g. an accommodation); autograding and resubmission leave it alone.';
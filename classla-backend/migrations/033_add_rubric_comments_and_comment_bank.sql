@@ -0,0 +1,34 @@
+-- Per-item rubric comments and a course-scoped bank of reusable grading comments
+-- rubrics.comments is parallel to rubrics.values: one comment string per rubric item
+
+ALTER TABLE rubrics
+ADD COLUMN comments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN rubrics.comments IS 'Comment for each rubric item (same order as values; empty string for none). Shown to the student once the grade is returned.';
+
+CREATE TABLE IF NOT EXISTS rubric_comment_bank (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    points NUMERIC NOT NULL DEFAULT 0, -- Added to the item score when applied (negative for a deduction)
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_rubric_comment_bank_course ON rubric_comment_bank(course_id, usage_count DESC);
+
+CREATE TRIGGER update_rubric_comment_bank_updated_at BEFORE UPDATE ON rubric_comment_bank
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Atomic usage counter so concurrent graders don't lose increments
+CREATE OR REPLACE FUNCTION increment_comment_bank_usage(comment_id UUID)
+RETURNS rubric_comment_bank AS $$
+    UPDATE rubric_comment_bank
+    SET usage_count = usage_count + 1
+    WHERE id = comment_id
+    RETURNING *;
+$$ LANGUAGE sql;
+
+COMMENT ON TABLE rubric_comment_bank IS 'Reusable grading comments shared by a course''s instructors and TAs';
@@ -0,0 +1,31 @@
+-- Line- and range-anchored grader comments on files of a submission's IDE blocks
+-- file_revision is a SHA-256 of the file content the comment was written against,
+-- so comments can be flagged when the file has changed since
+
+CREATE TABLE IF NOT EXISTS code_annotations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    block_id TEXT NOT NULL, -- The TipTap IDE block ID within the assignment
+    file_path TEXT NOT NULL,
+    file_revision TEXT NOT NULL,
+
+    start_line INTEGER NOT NULL CHECK (start_line >= 1),
+    start_column INTEGER CHECK (start_column >= 1), -- NULL anchors whole lines
+    end_line INTEGER NOT NULL,
+    end_column INTEGER CHECK (end_column >= 1),
+    CHECK (end_line >= start_line),
+
+    body TEXT NOT NULL,
+    author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_code_annotations_submission ON code_annotations(submission_id, block_id);
+
+CREATE TRIGGER update_code_annotations_updated_at BEFORE UPDATE ON code_annotations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE code_annotations IS 'Grader comments anchored to lines of IDE files; visible to the student once the grade is returned';
@@ -0,0 +1,48 @@
+-- Grade release workflow: student regrade requests and an audit trail of score changes
+-- Scheduled releases are stored in assignments.settings.gradeReleaseAt (no schema change)
+
+CREATE TABLE IF NOT EXISTS regrade_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    -- What the request disputes: one assignment block or one rubric item
+    block_id TEXT,
+    rubric_item_index INTEGER CHECK (rubric_item_index >= 0),
+    CHECK ((block_id IS NULL) <> (rubric_item_index IS NULL)),
+
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'rejected')),
+    response TEXT,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_regrade_requests_course_status ON regrade_requests(course_id, status, created_at);
+CREATE INDEX idx_regrade_requests_submission ON regrade_requests(submission_id);
+
+CREATE TRIGGER update_regrade_requests_updated_at BEFORE UPDATE ON regrade_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE regrade_requests IS 'Student disputes of a block or rubric item score, resolved by course staff';
+
+CREATE TABLE IF NOT EXISTS grader_score_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    grader_id UUID NOT NULL REFERENCES graders(id) ON DELETE CASCADE,
+    field TEXT NOT NULL, -- Grader column that changed, e.g. score_modifier
+    old_value JSONB,
+    new_value JSONB,
+    source TEXT NOT NULL, -- manual, autograder, import or regrade
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for automatic changes
+    regrade_request_id UUID REFERENCES regrade_requests(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_grader_score_history_grader ON grader_score_history(grader_id, created_at);
+
+COMMENT ON TABLE grader_score_history IS 'Audit trail of changes to the score fields of a grader';
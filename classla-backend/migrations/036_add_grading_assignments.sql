@@ -0,0 +1,28 @@
+-- Distribution of an assignment's grading work across course staff
+-- A row gives one staff member either one student's submission (even or
+-- by-section distribution) or one block for every student (by-question)
+
+CREATE TABLE IF NOT EXISTS grading_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    assignee_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+    student_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    block_id TEXT, -- The TipTap block ID within the assignment
+    CHECK ((student_id IS NULL) <> (block_id IS NULL)),
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_grading_assignments_student
+    ON grading_assignments(assignment_id, student_id) WHERE student_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_grading_assignments_block
+    ON grading_assignments(assignment_id, block_id) WHERE block_id IS NOT NULL;
+CREATE INDEX idx_grading_assignments_assignee ON grading_assignments(assignee_id, assignment_id);
+
+CREATE TRIGGER update_grading_assignments_updated_at BEFORE UPDATE ON grading_assignments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE grading_assignments IS 'Which staff member grades which student or block of an assignment';
@@ -0,0 +1,29 @@
+-- Code similarity reports for an IDE block of an assignment
+-- A report fingerprints every student's submitted files (ignoring the
+-- block's template code) and stores the most similar pairs. Prior terms'
+-- submissions come from assignments cloned with the same block.
+
+CREATE TABLE IF NOT EXISTS similarity_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    block_id TEXT NOT NULL, -- The TipTap IDE block ID within the assignment
+    include_prior_terms BOOLEAN NOT NULL DEFAULT FALSE,
+
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    submission_count INTEGER NOT NULL DEFAULT 0,
+    pairs JSONB NOT NULL DEFAULT '[]'::jsonb, -- Ranked pairs, most similar first
+    error TEXT,
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_similarity_reports_block ON similarity_reports(assignment_id, block_id, created_at DESC);
+
+CREATE TRIGGER update_similarity_reports_updated_at BEFORE UPDATE ON similarity_reports
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE similarity_reports IS 'Code similarity (plagiarism) checks across IDE block submissions';
@@ -0,0 +1,14 @@
+-- IDE container resource profiles
+-- Instructors pick a profile per IDE block (settings.resource_profile in the
+-- assignment content). Organization admins cap what courses created from
+-- their templates may use, under settings.ideResourceCaps.
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Courses cloned from an organization template belong to that organization
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_courses_organization_id ON courses(organization_id);
+
+COMMENT ON COLUMN organizations.settings IS 'Organization-wide settings, including IDE resource caps (ideResourceCaps)';
+COMMENT ON COLUMN courses.organization_id IS 'Organization whose template the course was created from, if any';
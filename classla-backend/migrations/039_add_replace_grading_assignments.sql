@@ -0,0 +1,24 @@
+-- Atomic replacement of an assignment's grading distribution
+-- Deleting the old rows and inserting the new ones in one function call runs
+-- them in one transaction, so a failed insert leaves the old distribution in
+-- place instead of none at all.
+
+CREATE OR REPLACE FUNCTION replace_grading_assignments(
+    p_assignment_id UUID,
+    p_course_id UUID,
+    p_rows JSONB
+)
+RETURNS SETOF grading_assignments AS $$
+BEGIN
+    DELETE FROM grading_assignments WHERE assignment_id = p_assignment_id;
+
+    RETURN QUERY
+    INSERT INTO grading_assignments (assignment_id, course_id, assignee_id, student_id, block_id)
+    SELECT p_assignment_id, p_course_id, r.assignee_id, r.student_id, r.block_id
+    FROM jsonb_to_recordset(COALESCE(p_rows, '[]'::jsonb))
+        AS r(assignee_id UUID, student_id UUID, block_id TEXT)
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION replace_grading_assignments(UUID, UUID, JSONB) IS 'Replace an assignment''s grading distribution in one transaction';
@@ -227,6 +227,138 @@ router.get(
   })
 );
 
+/**
+ * GET /api/admin/ide/queue/forecast
+ * Get the pre-warm forecast: target vs actual pool size and upcoming demand
+ */
+router.get(
+  "/queue/forecast",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const ideApiBaseUrl = getIDEApiBaseUrl(req);
+
+    try {
+      logger.info(`[Admin IDE] Fetching queue forecast from ${ideApiBaseUrl}/dashboard/queue/forecast`);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 15000);
+
+      const response = await fetch(`${ideApiBaseUrl}/dashboard/queue/forecast`, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${IDE_API_KEY}`,
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        logger.error(`[Admin IDE] Queue forecast request failed: ${response.status}`, { errorText });
+        return res.status(response.status).json({
+          error: {
+            code: "IDE_SERVICE_ERROR",
+            message: "Failed to fetch queue forecast",
+            details: errorText,
+          },
+        });
+      }
+
+      const data = await response.json();
+      return res.json(data);
+    } catch (error: any) {
+      logger.error("[Admin IDE] Failed to fetch queue forecast:", error);
+
+      if (error.name === "AbortError") {
+        return res.status(504).json({
+          error: {
+            code: "REQUEST_TIMEOUT",
+            message: "Request to IDE orchestration service timed out",
+          },
+        });
+      }
+
+      return res.status(503).json({
+        error: {
+          code: "SERVICE_UNAVAILABLE",
+          message: "IDE orchestration service is unavailable",
+          details: error.message,
+        },
+      });
+    }
+  })
+);
+
+/**
+ * GET /api/admin/ide/network-policy/audit
+ * Get the audit log of network policies applied to IDE containers
+ */
+router.get(
+  "/network-policy/audit",
+  authenticateToken,
+  requireAdmin,
+  asyncHandler(async (req: Request, res: Response) => {
+    const ideApiBaseUrl = getIDEApiBaseUrl(req);
+    const limit = typeof req.query.limit === "string" ? req.query.limit : "100";
+
+    try {
+      logger.info(`[Admin IDE] Fetching network policy audit from ${ideApiBaseUrl}/dashboard/network-policy/audit`);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 15000);
+
+      const response = await fetch(
+        `${ideApiBaseUrl}/dashboard/network-policy/audit?limit=${encodeURIComponent(limit)}`,
+        {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${IDE_API_KEY}`,
+          },
+          signal: controller.signal,
+        }
+      );
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        logger.error(`[Admin IDE] Network policy audit request failed: ${response.status}`, { errorText });
+        return res.status(response.status).json({
+          error: {
+            code: "IDE_SERVICE_ERROR",
+            message: "Failed to fetch network policy audit",
+            details: errorText,
+          },
+        });
+      }
+
+      const data = await response.json();
+      return res.json(data);
+    } catch (error: any) {
+      logger.error("[Admin IDE] Failed to fetch network policy audit:", error);
+
+      if (error.name === "AbortError") {
+        return res.status(504).json({
+          error: {
+            code: "REQUEST_TIMEOUT",
+            message: "Request to IDE orchestration service timed out",
+          },
+        });
+      }
+
+      return res.status(503).json({
+        error: {
+          code: "SERVICE_UNAVAILABLE",
+          message: "IDE orchestration service is unavailable",
+          details: error.message,
+        },
+      });
+    }
+  })
+);
+
 /**
  * DELETE /api/admin/ide/containers/:id
  * Kill/stop a specific container
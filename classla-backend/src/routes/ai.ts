@@ -3,7 +3,12 @@ import { supabase } from "../middleware/auth";
 import { authenticateToken } from "../middleware/auth";
 import { getCoursePermissions, getUserCourseRole } from "../middleware/authorization";
 import { UserRole } from "../types/enums";
-import { generateContent, generateModelSolution, generateUnitTests } from "../services/ai";
+import {
+  generateContent,
+  generateModelSolution,
+  generateUnitTests,
+  suggestGrade,
+} from "../services/ai";
 import { logger } from "../utils/logger";
 
 const router = Router();
@@ -473,5 +478,133 @@ router.post(
   }
 );
 
-export default router;
 
+
+/**
+ * POST /api/ai/suggest-grade
+ * Suggest a score for a manually graded short answer or the manual tests of
+ * an IDE block. Returns the suggestion only; nothing is saved to the grader.
+ * Requires: Authentication, grading permission for the course
+ */
+router.post(
+  "/ai/suggest-grade",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { submissionId, blockId } = req.body;
+      const { id: userId, isAdmin } = req.user!;
+
+      if (!submissionId || typeof submissionId !== "string") {
+        res.status(400).json({
+          error: {
+            code: "INVALID_SUBMISSION_ID",
+            message: "Submission ID is required",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      if (!blockId || typeof blockId !== "string") {
+        res.status(400).json({
+          error: {
+            code: "INVALID_BLOCK_ID",
+            message: "Block ID is required",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const { data: submission, error: submissionError } = await supabase
+        .from("submissions")
+        .select("course_id")
+        .eq("id", submissionId)
+        .single();
+
+      if (submissionError || !submission) {
+        res.status(404).json({
+          error: {
+            code: "SUBMISSION_NOT_FOUND",
+            message: "Submission not found",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const permissions = await getCoursePermissions(
+        userId,
+        submission.course_id,
+        isAdmin
+      );
+
+      if (!permissions.canGrade && !permissions.canManage) {
+        res.status(403).json({
+          error: {
+            code: "PERMISSION_DENIED",
+            message: "You must be able to grade this course to get grading suggestions",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const suggestion = await suggestGrade({
+        submissionId,
+        blockId,
+        userId,
+        courseId: submission.course_id,
+      });
+
+      res.json(suggestion);
+    } catch (error: any) {
+      logger.error("Failed to suggest grade", {
+        error: error.message,
+        stack: error.stack,
+        submissionId: req.body.submissionId,
+        blockId: req.body.blockId,
+        userId: req.user?.id,
+      });
+
+      let status = 500;
+      let errorCode = "AI_GENERATION_FAILED";
+      let errorMessage = "Failed to suggest a grade. Please try again.";
+
+      if (error.message?.includes("Access denied")) {
+        errorCode = "BEDROCK_ACCESS_DENIED";
+        errorMessage = "AI service access denied. Please contact support.";
+      } else if (error.message?.includes("timeout")) {
+        errorCode = "AI_TIMEOUT";
+        errorMessage = "AI request timed out. Please try again.";
+      } else if (error.message?.includes("not found")) {
+        status = 404;
+        errorCode = "NOT_FOUND";
+        errorMessage = error.message;
+      } else if (
+        error.message?.includes("rubric") ||
+        error.message?.includes("autograded") ||
+        error.message?.includes("no manually graded tests")
+      ) {
+        status = 400;
+        errorCode = "NOT_SUGGESTIBLE";
+        errorMessage = error.message;
+      }
+
+      res.status(status).json({
+        error: {
+          code: errorCode,
+          message: errorMessage,
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
+
+export default router;
@@ -14,6 +14,14 @@ import { UserRole } from "../types/enums";
 import { Assignment } from "../types/entities";
 import { getIO } from "../services/websocket";
 import { emitTreeUpdate, emitAssignmentSettingsUpdate } from "../services/courseTreeSocket";
+import { validateLatePolicy } from "../services/latePolicy";
+import { validateAttemptSettings } from "../services/attemptPolicy";
+import {
+  isGradingFinalized,
+  validateBlindGradingSettings,
+} from "../services/blindGrading";
+import { validateNetworkPolicy } from "../services/ideNetworkPolicy";
+import { fetchAllPages, fetchInBatches } from "../utils/supabasePaginate";
 
 const router = Router();
 
@@ -210,9 +218,20 @@ const filterAssignmentContentForStudent = (content: string): string => {
               if (!ideData.autograder.allowStudentCheckAnswer) {
                 // Remove autograder data entirely if students can't check answers
                 delete ideData.autograder;
-              } else {
-                // Keep autograder tests visible to students if they can check answers
-                // The autograder tests are stored in ideData.autograder.tests and should remain visible
+              } else if (Array.isArray(ideData.autograder.tests)) {
+                // Keep autograder tests visible to students if they can check answers,
+                // except the input, expected output and code of hidden tests
+                ideData.autograder.tests = ideData.autograder.tests.map((test: any) =>
+                  test?.hidden
+                    ? {
+                        id: test.id,
+                        name: test.name,
+                        type: test.type,
+                        points: test.points,
+                        hidden: true,
+                      }
+                    : test
+                );
               }
             }
             // Keep template tab visible (students need the starter code)
@@ -938,6 +957,82 @@ router.put(
         }
       }
 
+      if (settings?.latePolicy !== undefined && settings.latePolicy !== null) {
+        const latePolicyError = validateLatePolicy(settings.latePolicy);
+        if (latePolicyError) {
+          res.status(400).json({
+            error: {
+              code: "INVALID_LATE_POLICY",
+              message: latePolicyError,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+      }
+
+      if (settings && typeof settings === "object") {
+        const attemptSettingsError = validateAttemptSettings(settings);
+        if (attemptSettingsError) {
+          res.status(400).json({
+            error: {
+              code: "INVALID_ATTEMPT_SETTINGS",
+              message: attemptSettingsError,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+      }
+
+      if (settings && typeof settings === "object") {
+        const networkPolicyError = validateNetworkPolicy(settings.networkPolicy);
+        if (networkPolicyError) {
+          res.status(400).json({
+            error: {
+              code: "INVALID_NETWORK_POLICY",
+              message: networkPolicyError,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+      }
+
+      if (settings && typeof settings === "object") {
+        const blindGradingError = validateBlindGradingSettings(settings);
+        if (blindGradingError) {
+          res.status(400).json({
+            error: {
+              code: "INVALID_BLIND_GRADING_SETTINGS",
+              message: blindGradingError,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+
+        // Identities are only revealed through POST /assignment/:id/blind-grading/reveal
+        const revealedAt = existingAssignment.settings?.blindGradingRevealedAt;
+        if (revealedAt) {
+          settings.blindGradingRevealedAt = revealedAt;
+        } else {
+          delete settings.blindGradingRevealedAt;
+        }
+
+        // Scheduled releases are managed through /assignment/:id/grades/release
+        const gradeReleaseAt = existingAssignment.settings?.gradeReleaseAt;
+        if (gradeReleaseAt) {
+          settings.gradeReleaseAt = gradeReleaseAt;
+        } else {
+          delete settings.gradeReleaseAt;
+        }
+      }
+
       // Prepare update data
       const updateData: Partial<Assignment> = {};
 
@@ -996,6 +1091,123 @@ router.put(
   }
 );
 
+/**
+ * POST /assignment/:id/blind-grading/reveal
+ * Reveal student identities on a blind-graded assignment (instructors only).
+ * Only allowed once every submitted attempt has been reviewed.
+ */
+router.post(
+  "/assignment/:id/blind-grading/reveal",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+
+      const { data: assignment, error: assignmentError } = await supabase
+        .from("assignments")
+        .select("id, course_id, settings")
+        .eq("id", id)
+        .is("deleted_at", null)
+        .single();
+
+      if (assignmentError || !assignment) {
+        res.status(404).json({
+          error: {
+            code: "ASSIGNMENT_NOT_FOUND",
+            message: "Assignment not found",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const userRole = await getUserCourseRole(userId, assignment.course_id);
+      if (!isAdmin && userRole !== UserRole.INSTRUCTOR) {
+        res.status(403).json({
+          error: {
+            code: "INSUFFICIENT_PERMISSIONS",
+            message: "Only instructors can reveal student identities",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      if (!assignment.settings?.blindGrading) {
+        res.status(400).json({
+          error: {
+            code: "BLIND_GRADING_DISABLED",
+            message: "Blind grading is not enabled for this assignment",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const submissions = await fetchAllPages(() =>
+        supabase.from("submissions").select("id, status").eq("assignment_id", id)
+      );
+      const graders = await fetchInBatches(
+        submissions.map((s) => s.id),
+        (batch) =>
+          supabase.from("graders").select("submission_id, reviewed_at").in("submission_id", batch)
+      );
+
+      if (!isGradingFinalized(submissions, graders)) {
+        res.status(409).json({
+          error: {
+            code: "GRADING_NOT_FINALIZED",
+            message: "All submissions must be reviewed before identities can be revealed",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const settings = {
+        ...assignment.settings,
+        blindGradingRevealedAt:
+          assignment.settings.blindGradingRevealedAt || new Date().toISOString(),
+      };
+
+      const { data: updatedAssignment, error: updateError } = await supabase
+        .from("assignments")
+        .update({ settings })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      res.json(updatedAssignment);
+
+      try {
+        emitAssignmentSettingsUpdate(getIO(), assignment.course_id, {
+          assignmentId: id,
+          settings: updatedAssignment.settings,
+        });
+      } catch {}
+    } catch (error) {
+      console.error("Error revealing blind grading identities:", error);
+      res.status(500).json({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to reveal student identities",
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
+
 /**
  * DELETE /assignment/:id
  * Delete assignment with proper authorization
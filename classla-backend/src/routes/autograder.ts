@@ -10,6 +10,15 @@ import { Submission, Grader, BlockScore } from "../types/entities";
 import { AutogradeResponse } from "../types/api";
 import { getIO } from "../services/websocket";
 import { emitSubmissionUpdate } from "../services/courseTreeSocket";
+import { evaluateSubmissionLatePenalty } from "../services/latePolicy";
+import {
+  extractGradableBlocks,
+  extractIDEBlocks,
+  gradeBlock,
+  GradableBlock,
+} from "../services/grading";
+import { getManualBlockPoints, mergeOverriddenBlockScores } from "../services/blockScoring";
+import { recordScoreChanges } from "./graders";
 
 const router = Router();
 
@@ -98,15 +107,39 @@ async function ideWaitForReady(
   );
 }
 
+// Matches the container's defaults: per-test time limit and compile allowance
+const DEFAULT_TEST_TIME_LIMIT_SECONDS = 30;
+const TEST_COMPILE_ALLOWANCE_SECONDS = 30;
+const MIN_RUN_TESTS_TIMEOUT_MS = 120000;
+
+/**
+ * How long to wait for /run-tests: each test's own time limit plus time to
+ * compile it, never less than the old 2-minute block timeout.
+ */
+function getRunTestsTimeoutMs(tests: any[]): number {
+  const seconds = tests.reduce((total, test) => {
+    const limit =
+      typeof test.timeLimitSeconds === "number" && test.timeLimitSeconds > 0
+        ? test.timeLimitSeconds
+        : DEFAULT_TEST_TIME_LIMIT_SECONDS;
+    return total + limit + TEST_COMPILE_ALLOWANCE_SECONDS;
+  }, 0);
+  return Math.max(seconds * 1000, MIN_RUN_TESTS_TIMEOUT_MS);
+}
+
 async function ideRunTests(
   webServerUrl: string,
-  tests: any[]
+  block: IDEBlockWithTests
 ): Promise<{ results: any[]; totalPoints: number; pointsEarned: number }> {
   const res = await fetch(`${webServerUrl}/run-tests`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ tests }),
-    signal: AbortSignal.timeout(120000), // 2 min per block
+    body: JSON.stringify({
+      tests: block.executableTests,
+      language: block.language,
+      runFile: block.runFile,
+    }),
+    signal: AbortSignal.timeout(getRunTestsTimeoutMs(block.executableTests)),
   });
   if (!res.ok) {
     throw new Error(`run-tests returned ${res.status}`);
@@ -136,6 +169,8 @@ async function ideStopContainer(containerId: string): Promise<void> {
 interface IDEBlockWithTests {
   id: string;
   executableTests: any[]; // test objects filtered to non-manualGrading
+  language?: string;
+  runFile?: string;
 }
 
 function extractIDEBlocksWithTests(assignmentContent: string): IDEBlockWithTests[] {
@@ -149,7 +184,12 @@ function extractIDEBlocksWithTests(assignmentContent: string): IDEBlockWithTests
         const tests: any[] = d.autograder?.tests ?? [];
         const executableTests = tests.filter((t) => t.type !== "manualGrading");
         if (d.id && executableTests.length > 0) {
-          blocks.push({ id: d.id, executableTests });
+          blocks.push({
+            id: d.id,
+            executableTests,
+            language: d.settings?.language,
+            runFile: d.settings?.default_run_file,
+          });
         }
       }
       if (node.content) node.content.forEach(traverse);
@@ -162,81 +202,6 @@ function extractIDEBlocksWithTests(assignmentContent: string): IDEBlockWithTests
   }
 }
 
-/**
- * MCQ Block interface - represents a multiple choice question block
- */
-interface MCQBlock {
-  id: string;
-  question: string;
-  options: Array<{
-    id: string;
-    text: string;
-    isCorrect: boolean;
-  }>;
-  allowMultiple: boolean;
-  points: number;
-  explanation?: string;
-}
-
-/**
- * IDE Block info - represents an IDE block with autograder tests
- */
-interface IDEBlockInfo {
-  id: string;
-  executablePoints: number; // sum of inputOutput + unitTest test points
-  manualPoints: number; // sum of manualGrading test points
-  hasExecutableTests: boolean;
-}
-
-/**
- * Extract IDE blocks with autograder tests from assignment content
- * Recursively traverses TipTap document structure to find all IDE blocks that have tests
- */
-function extractIDEBlocks(assignmentContent: string): IDEBlockInfo[] {
-  try {
-    const content = JSON.parse(assignmentContent);
-    const ideBlocks: IDEBlockInfo[] = [];
-
-    function traverse(node: any) {
-      if (node.type === "ideBlock" && node.attrs?.ideData) {
-        const ideData = node.attrs.ideData;
-        const tests = ideData.autograder?.tests;
-
-        if (ideData.id && Array.isArray(tests) && tests.length > 0) {
-          let executablePoints = 0;
-          let manualPoints = 0;
-
-          for (const test of tests) {
-            const pts = typeof test.points === "number" ? test.points : 0;
-            if (test.type === "manualGrading") {
-              manualPoints += pts;
-            } else {
-              executablePoints += pts;
-            }
-          }
-
-          ideBlocks.push({
-            id: ideData.id,
-            executablePoints,
-            manualPoints,
-            hasExecutableTests: executablePoints > 0,
-          });
-        }
-      }
-
-      if (node.content && Array.isArray(node.content)) {
-        node.content.forEach(traverse);
-      }
-    }
-
-    traverse(content);
-    return ideBlocks;
-  } catch (error) {
-    console.error("Failed to parse assignment content for IDE blocks:", error);
-    return [];
-  }
-}
-
 /**
  * Fetch the best IDE test run (highest points_earned) per block for a student
  * Uses idx_ide_test_runs_assignment_block_student index
@@ -286,94 +251,19 @@ async function fetchBestIDETestRuns(
 }
 
 /**
- * Extract MCQ blocks from assignment content
- * Recursively traverses TipTap document structure to find all MCQ blocks
- * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 1.8, 10.1, 10.2, 10.3, 10.4, 10.5, 10.6, 10.7, 10.8
+ * Extract blocks with a registered server-side grader (MCQ, fill-in-the-blank,
+ * Parsons, drag-drop matching, clickable area, keyword/regex short answer)
+ * from assignment content
  */
-function extractMCQBlocks(assignmentContent: string): MCQBlock[] {
+function extractAutogradedBlocks(assignmentContent: string): GradableBlock[] {
   try {
-    const content = JSON.parse(assignmentContent);
-    const mcqBlocks: MCQBlock[] = [];
-
-    // Recursively traverse the TipTap document structure
-    function traverse(node: any) {
-      if (node.type === "mcqBlock" && node.attrs?.mcqData) {
-        const mcqData = node.attrs.mcqData;
-
-        // Validate MCQ data structure
-        if (
-          mcqData.id &&
-          Array.isArray(mcqData.options) &&
-          typeof mcqData.points === "number"
-        ) {
-          mcqBlocks.push(mcqData);
-        } else {
-          console.warn(
-            `Invalid MCQ block data for block ${mcqData.id || "unknown"}`
-          );
-        }
-      }
-
-      // Recursively process child nodes
-      if (node.content && Array.isArray(node.content)) {
-        node.content.forEach(traverse);
-      }
-    }
-
-    traverse(content);
-    return mcqBlocks;
+    return extractGradableBlocks(assignmentContent);
   } catch (error) {
     console.error("Failed to parse assignment content:", error);
     return [];
   }
 }
 
-/**
- * Calculate score for a single MCQ block
- * Awards full points for exact match, zero for incorrect/partial answers
- * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 1.8
- */
-function calculateBlockScore(
-  block: MCQBlock,
-  studentAnswer: string[] | undefined
-): number {
-  // No answer provided
-  if (!studentAnswer || !Array.isArray(studentAnswer)) {
-    return 0;
-  }
-
-  // Get correct answer IDs
-  const correctAnswerIds = block.options
-    .filter((option) => option.isCorrect)
-    .map((option) => option.id);
-
-  // No correct answers defined
-  if (correctAnswerIds.length === 0) {
-    return 0;
-  }
-
-  // Sort arrays for comparison
-  const sortedStudentAnswer = [...studentAnswer].sort();
-  const sortedCorrectAnswers = [...correctAnswerIds].sort();
-
-  // Check if arrays are equal (all correct answers selected, no incorrect ones)
-  const isCorrect =
-    sortedStudentAnswer.length === sortedCorrectAnswers.length &&
-    sortedStudentAnswer.every(
-      (answer, index) => answer === sortedCorrectAnswers[index]
-    );
-
-  return isCorrect ? block.points : 0;
-}
-
-/**
- * Calculate total possible points from MCQ blocks
- * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 1.7, 1.8
- */
-function calculateTotalPoints(mcqBlocks: MCQBlock[]): number {
-  return mcqBlocks.reduce((total, block) => total + block.points, 0);
-}
-
 /**
  * Core autograding function
  * Fetches submission and assignment, calculates scores, creates/updates grader
@@ -405,23 +295,20 @@ export async function autogradeSubmission(submissionId: string): Promise<{
     throw new Error("Assignment not found");
   }
 
-  // 3. Parse assignment content to extract MCQ blocks
-  const mcqBlocks = extractMCQBlocks(assignment.content);
+  // 3. Parse assignment content to extract autogradable blocks
+  const gradableBlocks = extractAutogradedBlocks(assignment.content);
 
   // 4. Calculate scores for each block
   const blockScores: Record<string, BlockScore> = {};
-  let totalRawScore = 0;
 
-  for (const block of mcqBlocks) {
-    const studentAnswer = submission.values[block.id];
-    const score = calculateBlockScore(block, studentAnswer);
+  for (const block of gradableBlocks) {
+    const result = gradeBlock(block, submission.values?.[block.id]);
 
     blockScores[block.id] = {
-      awarded: score,
-      possible: block.points,
+      awarded: result.pointsEarned,
+      possible: result.pointsPossible,
+      ...(result.needsReview ? { needsReview: true } : {}),
     };
-
-    totalRawScore += score;
   }
 
   // 4b. Calculate scores for IDE blocks
@@ -444,10 +331,33 @@ export async function autogradeSubmission(submissionId: string): Promise<{
       awarded,
       possible: block.executablePoints + block.manualPoints,
     };
+  }
 
-    totalRawScore += awarded;
+  // 4c. Apply the assignment's late policy, unless staff overrode the penalty
+  const { data: existingGrader } = await supabase
+    .from("graders")
+    .select(
+      "late_penalty_overridden, raw_assignment_score, raw_rubric_score, score_modifier, late_penalty_percent, block_scores"
+    )
+    .eq("submission_id", submissionId)
+    .maybeSingle();
+  let latePenalty: Partial<Grader> = {};
+  if (!existingGrader?.late_penalty_overridden) {
+    const lateResult = evaluateSubmissionLatePenalty(assignment, submission);
+    latePenalty = {
+      late_penalty_percent: lateResult.penaltyPercent,
+      late_minutes: lateResult.minutesLate,
+    };
   }
 
+  // 4d. Keep block scores a grader set by hand
+  const manualBlockPoints = getManualBlockPoints(assignment.content);
+  const merged = mergeOverriddenBlockScores(
+    blockScores,
+    existingGrader?.block_scores,
+    manualBlockPoints
+  );
+
   // 5. Create or update grader object using upsert to handle race conditions
   // The unique constraint on submission_id ensures only one grader per submission
   const { data: grader, error: upsertError } = await supabase
@@ -455,12 +365,13 @@ export async function autogradeSubmission(submissionId: string): Promise<{
     .upsert(
       {
         submission_id: submissionId,
-        raw_assignment_score: totalRawScore,
+        raw_assignment_score: merged.rawScore,
         raw_rubric_score: 0,
         score_modifier: "",
         feedback: "",
-        block_scores: blockScores,
+        block_scores: merged.blockScores,
         reviewed_at: null,
+        ...latePenalty,
       },
       {
         onConflict: "submission_id",
@@ -475,6 +386,11 @@ export async function autogradeSubmission(submissionId: string): Promise<{
     throw new Error("Failed to create or update grader");
   }
 
+  // Re-grading an existing grader can change its scores; record what moved
+  if (existingGrader) {
+    await recordScoreChanges(existingGrader, grader, grader.id, "autograder", null);
+  }
+
   // 6. Update submission status to graded, but ONLY if the submission has been submitted
   // Do NOT change status of "in-progress" submissions - the student hasn't submitted yet
   // This prevents the instructor grading panel from locking students out of their work
@@ -498,7 +414,13 @@ export async function autogradeSubmission(submissionId: string): Promise<{
 
   return {
     grader,
-    totalPossiblePoints: calculateTotalPoints(mcqBlocks) + ideTotalPoints,
+    totalPossiblePoints:
+      gradableBlocks.reduce(
+        (sum, block) => sum + block.grader.getPoints(block.data),
+        0
+      ) +
+      ideTotalPoints +
+      Object.values(manualBlockPoints).reduce((sum, points) => sum + points, 0),
   };
 }
 
@@ -564,7 +486,7 @@ const canAutogradeSubmission = async (
 
 /**
  * POST /api/autograder/grade/:submissionId
- * Autograde a submission by calculating scores for MCQ blocks
+ * Autograde a submission by calculating scores for all autogradable blocks
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.6, 3.7, 3.8, 11.1, 11.2, 11.3, 11.4, 11.5, 11.6, 11.7, 11.8
  */
 router.post(
@@ -837,7 +759,7 @@ export async function runIDETestsAndGrade(submissionId: string): Promise<{ grade
       }
 
       console.log(`[run-and-grade] Running tests for block ${block.id}`);
-      const testResult = await ideRunTests(container.webServerUrl, block.executableTests);
+      const testResult = await ideRunTests(container.webServerUrl, block);
 
       const testsPassedCount = testResult.results.filter((r: any) => r.passed).length;
       const { error: insertError } = await supabase.from("ide_test_runs").insert({
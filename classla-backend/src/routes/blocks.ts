@@ -2,127 +2,35 @@ import { Router, Request, Response } from "express";
 import { supabase } from "../middleware/auth";
 import { authenticateToken } from "../middleware/auth";
 import { getCoursePermissions } from "../middleware/authorization";
+import {
+  extractGradableBlocks,
+  gradeBlock,
+  GradableBlock,
+  BlockGradeResult,
+} from "../services/grading";
 
 const router = Router();
 
 /**
- * MCQ Block Data Interface
+ * Extract autogradable blocks from assignment content
  */
-interface MCQOption {
-  id: string;
-  text: string;
-  isCorrect: boolean;
-}
-
-interface MCQBlockData {
-  id: string;
-  question: string;
-  options: MCQOption[];
-  allowMultiple: boolean;
-  points: number;
-  explanation?: string;
-  allowCheckAnswer?: boolean;
-}
-
-/**
- * Autograding result interface
- */
-interface AutogradeResult {
-  blockId: string;
-  isCorrect: boolean;
-  pointsEarned: number;
-  pointsPossible: number;
-  feedback?: string;
-}
-
-/**
- * Extract MCQ blocks from assignment content
- */
-const extractMCQBlocks = (content: string): Map<string, MCQBlockData> => {
-  const blocks = new Map<string, MCQBlockData>();
-
+const extractBlocks = (content: string): GradableBlock[] => {
   try {
-    const parsedContent = JSON.parse(content);
-
-    // Recursively find MCQ blocks in the JSON structure
-    const findMCQBlocks = (node: any): void => {
-      if (node && typeof node === "object") {
-        if (node.type === "mcqBlock" && node.attrs?.mcqData) {
-          const mcqData = node.attrs.mcqData as MCQBlockData;
-          if (mcqData.id) {
-            blocks.set(mcqData.id, mcqData);
-          }
-        }
-
-        if (node.content && Array.isArray(node.content)) {
-          for (const child of node.content) {
-            findMCQBlocks(child);
-          }
-        }
-      }
-    };
-
-    findMCQBlocks(parsedContent);
+    return extractGradableBlocks(content);
   } catch (error) {
     console.error(
-      "Failed to parse assignment content for MCQ extraction:",
+      "Failed to parse assignment content for block extraction:",
       error
     );
+    return [];
   }
-
-  return blocks;
-};
-
-/**
- * Grade a single MCQ block
- */
-const gradeMCQBlock = (
-  blockData: MCQBlockData,
-  studentAnswer: string[]
-): AutogradeResult => {
-  // Get correct option IDs
-  const correctOptionIds = blockData.options
-    .filter((opt) => opt.isCorrect)
-    .map((opt) => opt.id)
-    .sort();
-
-  // Sort student answer for comparison
-  const sortedStudentAnswer = [...studentAnswer].sort();
-
-  // Check if answers match
-  const isCorrect =
-    correctOptionIds.length === sortedStudentAnswer.length &&
-    correctOptionIds.every((id, index) => id === sortedStudentAnswer[index]);
-
-  const pointsEarned = isCorrect ? blockData.points : 0;
-
-  // Generate feedback
-  let feedback = "";
-  if (isCorrect) {
-    feedback = "Correct!";
-    if (blockData.explanation) {
-      feedback += ` ${blockData.explanation}`;
-    }
-  } else {
-    feedback = "Incorrect.";
-    if (blockData.explanation) {
-      feedback += ` ${blockData.explanation}`;
-    }
-  }
-
-  return {
-    blockId: blockData.id,
-    isCorrect,
-    pointsEarned,
-    pointsPossible: blockData.points,
-    feedback,
-  };
 };
 
 /**
  * POST /blocks/autograde/:assignmentId
  * Autograde interactive blocks in a submission
- * Requirements: Autograding for MCQ blocks
+ * Requirements: Autograding for MCQ, fill-in-the-blank, Parsons, drag-drop
+ * matching and clickable area blocks
  */
 router.post(
   "/blocks/autograde/:assignmentId",
@@ -184,10 +92,10 @@ router.post(
         return;
       }
 
-      // Extract MCQ blocks from assignment content
-      const mcqBlocks = extractMCQBlocks(assignment.content);
+      // Extract autogradable blocks from assignment content
+      const gradableBlocks = extractBlocks(assignment.content);
 
-      if (mcqBlocks.size === 0) {
+      if (gradableBlocks.length === 0) {
         res.json({
           results: [],
           totalPointsEarned: 0,
@@ -197,30 +105,16 @@ router.post(
         return;
       }
 
-      // Grade each submitted block
-      const results: AutogradeResult[] = [];
+      // Grade each block (unanswered blocks score zero)
+      const results: BlockGradeResult[] = [];
       let totalPointsEarned = 0;
       let totalPointsPossible = 0;
 
-      for (const [blockId, blockData] of mcqBlocks.entries()) {
-        const studentAnswer = submissionValues[blockId];
-
-        if (studentAnswer && Array.isArray(studentAnswer)) {
-          const result = gradeMCQBlock(blockData, studentAnswer);
-          results.push(result);
-          totalPointsEarned += result.pointsEarned;
-          totalPointsPossible += result.pointsPossible;
-        } else {
-          // Block not answered
-          results.push({
-            blockId,
-            isCorrect: false,
-            pointsEarned: 0,
-            pointsPossible: blockData.points,
-            feedback: "Not answered",
-          });
-          totalPointsPossible += blockData.points;
-        }
+      for (const block of gradableBlocks) {
+        const result = gradeBlock(block, submissionValues[block.id]);
+        results.push(result);
+        totalPointsEarned += result.pointsEarned;
+        totalPointsPossible += result.pointsPossible;
       }
 
       res.json({
@@ -297,12 +191,15 @@ router.get(
         return;
       }
 
-      // Extract MCQ blocks
-      const mcqBlocks = extractMCQBlocks(assignment.content);
+      // Extract autogradable blocks
+      const gradableBlocks = extractBlocks(assignment.content);
 
       res.json({
-        blocks: Array.from(mcqBlocks.values()),
-        count: mcqBlocks.size,
+        blocks: gradableBlocks.map((block) => ({
+          ...block.data,
+          type: block.type,
+        })),
+        count: gradableBlocks.length,
       });
     } catch (error) {
       console.error("Error extracting blocks:", error);
@@ -383,11 +280,12 @@ router.post(
         return;
       }
 
-      // Extract MCQ blocks from assignment content
-      const mcqBlocks = extractMCQBlocks(assignment.content);
-      const blockData = mcqBlocks.get(blockId);
+      // Find the MCQ block in assignment content
+      const block = extractBlocks(assignment.content).find(
+        (b) => b.id === blockId && b.type === "mcqBlock"
+      );
 
-      if (!blockData) {
+      if (!block) {
         res.status(404).json({
           error: {
             code: "BLOCK_NOT_FOUND",
@@ -400,7 +298,7 @@ router.post(
       }
 
       // Grade the answer
-      const result = gradeMCQBlock(blockData, selectedOptions);
+      const result = block.grader.grade(block.data, selectedOptions);
 
       res.json({
         isCorrect: result.isCorrect,
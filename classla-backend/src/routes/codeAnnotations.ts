@@ -0,0 +1,287 @@
+import { Router, Request, Response } from "express";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getCoursePermissions } from "../middleware/authorization";
+import {
+  areAnnotationsReleased,
+  validateCodeAnnotation,
+} from "../services/codeAnnotations";
+import { logger } from "../utils/logger";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+const ANNOTATION_FIELDS = [
+  "file_path",
+  "file_revision",
+  "start_line",
+  "start_column",
+  "end_line",
+  "end_column",
+  "body",
+] as const;
+
+/**
+ * Helper: load a submission and the caller's grading permissions for it.
+ * Sends a 404 and returns null when the submission doesn't exist.
+ */
+async function loadSubmissionAccess(
+  req: Request,
+  res: Response,
+  submissionId: string
+): Promise<{ submission: any; canGrade: boolean } | null> {
+  const { id: userId, isAdmin } = req.user!;
+
+  const { data: submission, error } = await supabase
+    .from("submissions")
+    .select("id, student_id, course_id")
+    .eq("id", submissionId)
+    .single();
+
+  if (error || !submission) {
+    res.status(404).json(errorBody(req, "SUBMISSION_NOT_FOUND", "Submission not found"));
+    return null;
+  }
+
+  const permissions = await getCoursePermissions(userId, submission.course_id, isAdmin);
+  return { submission, canGrade: permissions.canGrade || permissions.canManage };
+}
+
+/**
+ * Helper: load an annotation the caller may change (graders only).
+ * Sends the error response and returns null otherwise.
+ */
+async function loadEditableAnnotation(req: Request, res: Response): Promise<any | null> {
+  const { data: annotation, error } = await supabase
+    .from("code_annotations")
+    .select("*")
+    .eq("id", req.params.id)
+    .single();
+
+  if (error || !annotation) {
+    res.status(404).json(errorBody(req, "ANNOTATION_NOT_FOUND", "Annotation not found"));
+    return null;
+  }
+
+  const access = await loadSubmissionAccess(req, res, annotation.submission_id);
+  if (!access) return null;
+  if (!access.canGrade) {
+    res
+      .status(403)
+      .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Not authorized to edit annotations"));
+    return null;
+  }
+
+  return annotation;
+}
+
+/**
+ * GET /submission/:submissionId/annotations
+ * List code annotations on a submission (optionally ?block_id= for one IDE
+ * block). Students get their own annotations once the grade is returned,
+ * and an empty list before that.
+ */
+router.get(
+  "/submission/:submissionId/annotations",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { submissionId } = req.params;
+      const { block_id } = req.query;
+      const { id: userId } = req.user!;
+
+      const access = await loadSubmissionAccess(req, res, submissionId);
+      if (!access) return;
+
+      const isOwner = access.submission.student_id === userId;
+      if (!access.canGrade && !isOwner) {
+        res
+          .status(403)
+          .json(
+            errorBody(
+              req,
+              "ACCESS_DENIED",
+              "Can only access annotations for own submissions or need grading permissions"
+            )
+          );
+        return;
+      }
+
+      if (!access.canGrade) {
+        const { data: grader } = await supabase
+          .from("graders")
+          .select("reviewed_at")
+          .eq("submission_id", submissionId)
+          .maybeSingle();
+        if (!areAnnotationsReleased(grader)) {
+          res.json({ annotations: [], released: false });
+          return;
+        }
+      }
+
+      let query = supabase
+        .from("code_annotations")
+        .select("*, author:users(first_name, last_name)")
+        .eq("submission_id", submissionId)
+        .order("file_path")
+        .order("start_line");
+      if (typeof block_id === "string") {
+        query = query.eq("block_id", block_id);
+      }
+
+      const { data: annotations, error } = await query;
+      if (error) {
+        throw error;
+      }
+
+      res.json({ annotations: annotations || [], released: true });
+    } catch (error: any) {
+      logger.error("Error listing code annotations", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to list annotations"));
+    }
+  }
+);
+
+/**
+ * POST /submission/:submissionId/annotations
+ * Add a comment to a line range of a file in one of the submission's IDE blocks
+ */
+router.post(
+  "/submission/:submissionId/annotations",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { submissionId } = req.params;
+      const { id: userId } = req.user!;
+
+      const validationError = validateCodeAnnotation(req.body);
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_ANNOTATION", validationError));
+        return;
+      }
+
+      const access = await loadSubmissionAccess(req, res, submissionId);
+      if (!access) return;
+      if (!access.canGrade) {
+        res
+          .status(403)
+          .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Not authorized to annotate submissions"));
+        return;
+      }
+
+      const fields: Record<string, any> = {};
+      for (const field of ANNOTATION_FIELDS) {
+        if (req.body[field] !== undefined) fields[field] = req.body[field];
+      }
+
+      const { data: annotation, error } = await supabase
+        .from("code_annotations")
+        .insert({
+          ...fields,
+          body: req.body.body.trim(),
+          submission_id: submissionId,
+          course_id: access.submission.course_id,
+          block_id: req.body.block_id,
+          author_id: userId,
+        })
+        .select("*, author:users(first_name, last_name)")
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      res.status(201).json(annotation);
+    } catch (error: any) {
+      logger.error("Error creating code annotation", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to create annotation"));
+    }
+  }
+);
+
+/**
+ * PUT /annotations/:id
+ * Edit an annotation's text or range
+ */
+router.put(
+  "/annotations/:id",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validationError = validateCodeAnnotation(req.body, true);
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_ANNOTATION", validationError));
+        return;
+      }
+
+      const existing = await loadEditableAnnotation(req, res);
+      if (!existing) return;
+
+      const updates: Record<string, any> = {};
+      for (const field of ANNOTATION_FIELDS) {
+        if (req.body[field] !== undefined) updates[field] = req.body[field];
+      }
+      if (typeof updates.body === "string") updates.body = updates.body.trim();
+
+      // A partial range update must still describe a valid range
+      const rangeError = validateCodeAnnotation({ ...existing, ...updates });
+      if (rangeError) {
+        res.status(400).json(errorBody(req, "INVALID_ANNOTATION", rangeError));
+        return;
+      }
+
+      const { data: annotation, error } = await supabase
+        .from("code_annotations")
+        .update(updates)
+        .eq("id", existing.id)
+        .select("*, author:users(first_name, last_name)")
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      res.json(annotation);
+    } catch (error: any) {
+      logger.error("Error updating code annotation", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to update annotation"));
+    }
+  }
+);
+
+/**
+ * DELETE /annotations/:id
+ */
+router.delete(
+  "/annotations/:id",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const existing = await loadEditableAnnotation(req, res);
+      if (!existing) return;
+
+      const { error } = await supabase
+        .from("code_annotations")
+        .delete()
+        .eq("id", existing.id);
+
+      if (error) {
+        throw error;
+      }
+
+      res.status(204).send();
+    } catch (error: any) {
+      logger.error("Error deleting code annotation", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to delete annotation"));
+    }
+  }
+);
+
+export default router;
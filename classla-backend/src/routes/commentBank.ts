@@ -0,0 +1,244 @@
+import { Router, Request, Response } from "express";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getCoursePermissions } from "../middleware/authorization";
+import { validateBankComment } from "../services/commentBank";
+import { logger } from "../utils/logger";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+/**
+ * Helper: whether the user may use a course's comment bank (graders only)
+ */
+async function canUseCommentBank(
+  userId: string,
+  courseId: string,
+  isAdmin: boolean
+): Promise<boolean> {
+  const permissions = await getCoursePermissions(userId, courseId, isAdmin);
+  return permissions.canGrade || permissions.canManage;
+}
+
+/**
+ * Helper: load a bank comment and check the user may change it.
+ * Sends the error response and returns null when they can't.
+ */
+async function loadBankComment(req: Request, res: Response): Promise<any | null> {
+  const { id } = req.params;
+  const { id: userId, isAdmin } = req.user!;
+
+  const { data: comment, error } = await supabase
+    .from("rubric_comment_bank")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error || !comment) {
+    res.status(404).json(errorBody(req, "COMMENT_NOT_FOUND", "Comment not found"));
+    return null;
+  }
+
+  if (!(await canUseCommentBank(userId, comment.course_id, isAdmin ?? false))) {
+    res
+      .status(403)
+      .json(
+        errorBody(req, "INSUFFICIENT_PERMISSIONS", "Grading access required for the comment bank")
+      );
+    return null;
+  }
+
+  return comment;
+}
+
+/**
+ * GET /course/:courseId/comment-bank
+ * List the course's saved grading comments, most used first
+ */
+router.get(
+  "/course/:courseId/comment-bank",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { courseId } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+
+      if (!(await canUseCommentBank(userId, courseId, isAdmin ?? false))) {
+        res
+          .status(403)
+          .json(
+            errorBody(req, "INSUFFICIENT_PERMISSIONS", "Grading access required for the comment bank")
+          );
+        return;
+      }
+
+      const { data: comments, error } = await supabase
+        .from("rubric_comment_bank")
+        .select("*")
+        .eq("course_id", courseId)
+        .order("usage_count", { ascending: false })
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      res.json({ comments: comments || [] });
+    } catch (error: any) {
+      logger.error("Error listing comment bank", { error: error.message });
+      res.status(500).json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to list comments"));
+    }
+  }
+);
+
+/**
+ * POST /course/:courseId/comment-bank
+ * Save a reusable grading comment
+ */
+router.post(
+  "/course/:courseId/comment-bank",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { courseId } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+      const { text, points } = req.body;
+
+      if (!(await canUseCommentBank(userId, courseId, isAdmin ?? false))) {
+        res
+          .status(403)
+          .json(
+            errorBody(req, "INSUFFICIENT_PERMISSIONS", "Grading access required for the comment bank")
+          );
+        return;
+      }
+
+      const validationError = validateBankComment({ text, points });
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_COMMENT", validationError));
+        return;
+      }
+
+      const { data: comment, error } = await supabase
+        .from("rubric_comment_bank")
+        .insert({
+          course_id: courseId,
+          text: text.trim(),
+          points: points ?? 0,
+          created_by: userId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      res.status(201).json(comment);
+    } catch (error: any) {
+      logger.error("Error creating bank comment", { error: error.message });
+      res.status(500).json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to save comment"));
+    }
+  }
+);
+
+/**
+ * PUT /comment-bank/:id
+ * Edit a saved comment's text or points
+ */
+router.put(
+  "/comment-bank/:id",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { text, points } = req.body;
+
+      const validationError = validateBankComment({ text, points }, true);
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_COMMENT", validationError));
+        return;
+      }
+
+      const existing = await loadBankComment(req, res);
+      if (!existing) return;
+
+      const updates: Record<string, any> = {};
+      if (text !== undefined) updates.text = text.trim();
+      if (points !== undefined) updates.points = points;
+
+      const { data: comment, error } = await supabase
+        .from("rubric_comment_bank")
+        .update(updates)
+        .eq("id", existing.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      res.json(comment);
+    } catch (error: any) {
+      logger.error("Error updating bank comment", { error: error.message });
+      res.status(500).json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to update comment"));
+    }
+  }
+);
+
+/**
+ * DELETE /comment-bank/:id
+ * Remove a saved comment. Comments already applied to rubrics are kept.
+ */
+router.delete(
+  "/comment-bank/:id",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const existing = await loadBankComment(req, res);
+      if (!existing) return;
+
+      const { error } = await supabase
+        .from("rubric_comment_bank")
+        .delete()
+        .eq("id", existing.id);
+
+      if (error) {
+        throw error;
+      }
+
+      res.status(204).send();
+    } catch (error: any) {
+      logger.error("Error deleting bank comment", { error: error.message });
+      res.status(500).json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to delete comment"));
+    }
+  }
+);
+
+/**
+ * POST /comment-bank/:id/use
+ * Record that a grader applied a saved comment (bumps its usage count)
+ */
+router.post(
+  "/comment-bank/:id/use",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const existing = await loadBankComment(req, res);
+      if (!existing) return;
+
+      const { data: comment, error } = await supabase
+        .rpc("increment_comment_bank_usage", { comment_id: existing.id })
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      res.json(comment);
+    } catch (error: any) {
+      logger.error("Error recording bank comment use", { error: error.message });
+      res.status(500).json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to record comment use"));
+    }
+  }
+);
+
+export default router;
@@ -578,6 +578,7 @@ router.post(
           summary_content: template.summary_content || null,
           slug: slug,
           created_by_id: userId,
+          organization_id: template.organization_id,
         })
         .select()
         .single();
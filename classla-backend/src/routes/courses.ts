@@ -9,10 +9,33 @@ import {
   validateTAPermissions,
   blockManagedStudents,
 } from "../middleware/authorization";
-import { UserRole } from "../types/enums";
+import { SubmissionStatus, UserRole } from "../types/enums";
 import { Course } from "../types/entities";
 import { GradebookData, StudentGradesData } from "../types/api";
-import { fetchAllPages } from "../utils/supabasePaginate";
+import {
+  AssignmentScore,
+  calculateAssignmentPoints,
+  calculateGradeSummary,
+  getGraderScore,
+  getGradingScheme,
+  validateGradingScheme,
+} from "../services/gradeCalculation";
+import { loadGradebookData } from "../services/gradebook";
+import { getScoredAttempts } from "../services/attemptPolicy";
+import { hasRubricComments } from "../services/commentBank";
+import {
+  GradeImportError,
+  NO_SECTION,
+  buildGradebookSheet,
+  parseCsv,
+  planGradeImport,
+  toCsv,
+  writeXlsx,
+} from "../services/gradebookTransfer";
+import { validateMeetingTimes } from "../services/ideDemand";
+import { getIO } from "../services/websocket";
+import { emitGraderReviewUpdate } from "../services/courseTreeSocket";
+import { insertGrader, recordScoreChanges } from "./graders";
 
 /**
  * Generate a unique 6-character alphanumeric join code
@@ -49,6 +72,28 @@ async function generateUniqueJoinCode(): Promise<string> {
   throw new Error("Unable to generate unique join code after maximum attempts");
 }
 
+/**
+ * Gradebook access requires canGrade or canManage; TAs also need the
+ * canViewGrades permission. Returns an error message, or null if allowed.
+ */
+async function getGradebookAccessError(
+  userId: string,
+  courseId: string,
+  isAdmin?: boolean
+): Promise<string | null> {
+  const permissions = await getCoursePermissions(userId, courseId, isAdmin);
+
+  const userRole = await getUserCourseRole(userId, courseId);
+  if (userRole === UserRole.TEACHING_ASSISTANT) {
+    const canViewGrades = await hasTAPermission(userId, courseId, "canViewGrades");
+    return canViewGrades ? null : "Not authorized to view grades in this course";
+  }
+  if (!permissions.canGrade && !permissions.canManage) {
+    return "Not authorized to access gradebook for this course";
+  }
+  return null;
+}
+
 const router = Router();
 
 /**
@@ -567,6 +612,36 @@ router.put(
             }
           }
         }
+
+        if (settings.grading !== undefined) {
+          const gradingError = validateGradingScheme(settings.grading);
+          if (gradingError) {
+            res.status(400).json({
+              error: {
+                code: "INVALID_GRADING_SCHEME",
+                message: gradingError,
+                timestamp: new Date().toISOString(),
+                path: req.path,
+              },
+            });
+            return;
+          }
+        }
+
+        if (settings.meetingTimes !== undefined) {
+          const meetingTimesError = validateMeetingTimes(settings.meetingTimes);
+          if (meetingTimesError) {
+            res.status(400).json({
+              error: {
+                code: "INVALID_MEETING_TIMES",
+                message: meetingTimesError,
+                timestamp: new Date().toISOString(),
+                path: req.path,
+              },
+            });
+            return;
+          }
+        }
       }
 
       // Prepare update data
@@ -1180,29 +1255,70 @@ router.get(
       const { id: courseId } = req.params;
       const { id: userId, isAdmin } = req.user!;
 
-      // Check course permissions - require canGrade or canManage
-      const permissions = await getCoursePermissions(userId, courseId, isAdmin);
+      const accessError = await getGradebookAccessError(userId, courseId, isAdmin);
+      if (accessError) {
+        res.status(403).json({
+          error: {
+            code: "INSUFFICIENT_PERMISSIONS",
+            message: accessError,
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
 
-      // For TAs, also check canViewGrades permission
-      const userRole = await getUserCourseRole(userId, courseId);
-      if (userRole === UserRole.TEACHING_ASSISTANT) {
-        const canViewGrades = await hasTAPermission(userId, courseId, "canViewGrades");
-        if (!canViewGrades) {
-          res.status(403).json({
-            error: {
-              code: "INSUFFICIENT_PERMISSIONS",
-              message: "Not authorized to view grades in this course",
-              timestamp: new Date().toISOString(),
-              path: req.path,
-            },
-          });
-          return;
-        }
-      } else if (!permissions.canGrade && !permissions.canManage) {
+      res.json(await loadGradebookData(courseId));
+    } catch (error) {
+      console.error("Error retrieving gradebook data:", error);
+      res.status(500).json({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to retrieve gradebook data",
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
+
+/**
+ * GET /course/:id/gradebook/export
+ * Download the gradebook as CSV or XLSX, optionally for one section
+ * (`?section=<id>` or `?section=no-section`)
+ */
+router.get(
+  "/course/:id/gradebook/export",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id: courseId } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+      const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+      const section =
+        typeof req.query.section === "string" && req.query.section
+          ? req.query.section
+          : null;
+
+      if (req.query.format && req.query.format !== "csv" && req.query.format !== "xlsx") {
+        res.status(400).json({
+          error: {
+            code: "INVALID_FORMAT",
+            message: "format must be 'csv' or 'xlsx'",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const accessError = await getGradebookAccessError(userId, courseId, isAdmin);
+      if (accessError) {
         res.status(403).json({
           error: {
             code: "INSUFFICIENT_PERMISSIONS",
-            message: "Not authorized to access gradebook for this course",
+            message: accessError,
             timestamp: new Date().toISOString(),
             path: req.path,
           },
@@ -1210,123 +1326,265 @@ router.get(
         return;
       }
 
-      // Fetch all students enrolled in the course with section information
-      // Uses pagination to avoid PostgREST's 1000-row silent cap
-      const enrollments = await fetchAllPages(() =>
-        supabase
-          .from("course_enrollments")
-          .select(
-            `
-            user_id,
-            section_id,
-            users!course_enrollments_user_id_fkey(id, first_name, last_name, email),
-            sections(id, name, slug)
-          `
-          )
-          .eq("course_id", courseId)
-          .eq("role", UserRole.STUDENT)
-      );
+      const { data: course } = await supabase
+        .from("courses")
+        .select("name, slug")
+        .eq("id", courseId)
+        .single();
 
-      // Fetch all non-deleted assignments for the course
-      const { data: assignments, error: assignmentsError } = await supabase
-        .from("assignments")
-        .select("*")
-        .eq("course_id", courseId)
-        .is("deleted_at", null)
-        .order("order_index");
+      const gradebook = await loadGradebookData(courseId);
+      const rows = buildGradebookSheet(gradebook, section);
+
+      const sectionName =
+        section === NO_SECTION
+          ? "no-section"
+          : section
+          ? gradebook.students.find((s) => s.sectionId === section)?.sectionSlug ||
+            section
+          : null;
+      const baseName = [course?.slug || course?.name || "course", "grades", sectionName]
+        .filter(Boolean)
+        .join("-")
+        .replace(/[^A-Za-z0-9_-]+/g, "_");
+
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${baseName}.${format}"`
+      );
 
-      if (assignmentsError) {
-        throw assignmentsError;
+      if (format === "csv") {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        // BOM so Excel opens UTF-8 names correctly
+        res.send("\uFEFF" + toCsv(rows));
+        return;
       }
 
-      // Fetch all submissions for the course
-      // Uses pagination to avoid PostgREST's 1000-row silent cap
-      const submissions = await fetchAllPages(() =>
-        supabase
-          .from("submissions")
-          .select("*")
-          .eq("course_id", courseId)
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
       );
+      await writeXlsx(rows, course?.name || "Grades", res);
+    } catch (error) {
+      console.error("Error exporting gradebook:", error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      res.status(500).json({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to export gradebook",
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
 
-      // Fetch all graders for those submissions via direct query (avoids nested join issues)
-      // Batch in chunks of 100 to avoid URL length limits on large courses
-      const submissionIds = submissions.map((s: any) => s.id);
-      const BATCH_SIZE = 100;
-      const allGraders: any[] = [];
-      for (let i = 0; i < submissionIds.length; i += BATCH_SIZE) {
-        const batch = submissionIds.slice(i, i + BATCH_SIZE);
-        const { data: batchData, error: batchError } = await supabase
-          .from("graders")
-          .select("*")
-          .in("submission_id", batch);
-        if (batchError) throw batchError;
-        if (batchData) allGraders.push(...batchData);
+/**
+ * POST /course/:id/gradebook/import
+ * Import scores for one assignment from CSV. Rows are matched to students by
+ * email or username. With `dryRun` (the default) nothing is written and the
+ * planned changes are returned for review.
+ */
+router.post(
+  "/course/:id/gradebook/import",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id: courseId } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+      const { assignmentId, csv, scoreColumn } = req.body;
+      const dryRun = req.body.dryRun !== false;
+
+      if (typeof assignmentId !== "string" || typeof csv !== "string" || !csv.trim()) {
+        res.status(400).json({
+          error: {
+            code: "MISSING_REQUIRED_FIELDS",
+            message: "assignmentId and csv are required",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
       }
 
-      // Fetch rubric schemas for all assignments so the frontend can calculate total points
-      const assignmentIds = (assignments || []).map((a: any) => a.id);
-      let rubricSchemas: any[] = [];
-      if (assignmentIds.length > 0) {
-        const { data: rubricData, error: rubricError } = await supabase
-          .from("rubric_schemas")
-          .select("*")
-          .in("assignment_id", assignmentIds);
-        if (rubricError) throw rubricError;
-        rubricSchemas = rubricData || [];
+      const accessError = await getGradebookAccessError(userId, courseId, isAdmin);
+      const permissions = await getCoursePermissions(userId, courseId, isAdmin);
+      if (accessError || !permissions.canGrade) {
+        res.status(403).json({
+          error: {
+            code: "INSUFFICIENT_PERMISSIONS",
+            message: accessError || "Not authorized to import grades for this course",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
       }
 
-      // Build a map of assignment_id -> rubric_schema
-      const rubricSchemaMap = new Map<string, any>();
-      for (const rs of rubricSchemas) {
-        rubricSchemaMap.set(rs.assignment_id, rs);
+      const gradebook = await loadGradebookData(courseId);
+      const assignment = gradebook.assignments.find((a) => a.id === assignmentId);
+      if (!assignment) {
+        res.status(404).json({
+          error: {
+            code: "ASSIGNMENT_NOT_FOUND",
+            message: "Assignment not found in this course",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
       }
 
-      // Attach rubric_schema to each assignment
-      const assignmentsWithRubric = (assignments || []).map((a: any) => ({
-        ...a,
-        rubric_schema: rubricSchemaMap.get(a.id) || null,
-      }));
-
-      // Format students data
-      const students = enrollments.map((enrollment: any) => ({
-        userId: enrollment.users?.id,
-        firstName: enrollment.users?.first_name,
-        lastName: enrollment.users?.last_name,
-        email: enrollment.users?.email,
-        sectionId: enrollment.section_id,
-        sectionName: enrollment.sections?.name || null,
-        sectionSlug: enrollment.sections?.slug || null,
-      }));
+      const gradersBySubmission = new Map(
+        gradebook.graders.map((grader) => [grader.submission_id, grader])
+      );
+      // The attempt that counts under the assignment's scoring policy is the
+      // one shown as the current score and the one an imported score goes on
+      const scoredAttempts = getScoredAttempts(
+        gradebook.submissions.filter((s) => s.assignment_id === assignmentId),
+        [assignment],
+        (submission) => {
+          const grader = gradersBySubmission.get(submission.id);
+          return grader ? getGraderScore(grader) : null;
+        }
+      );
+      const currentScores = new Map<string, number | null>();
+      for (const student of gradebook.students) {
+        const attempt = scoredAttempts.get(`${student.userId}_${assignmentId}`);
+        currentScores.set(student.userId, attempt ? attempt.score : null);
+      }
 
-      // Format submissions data
-      const formattedSubmissions = submissions.map((submission: any) => ({
-        id: submission.id,
-        assignment_id: submission.assignment_id,
-        timestamp: submission.timestamp,
-        values: submission.values,
-        course_id: submission.course_id,
-        student_id: submission.student_id,
-        grader_id: submission.grader_id,
-        grade: submission.grade,
-        status: submission.status,
-        created_at: submission.created_at,
-        updated_at: submission.updated_at,
-      }));
-
-      const graders = allGraders;
+      let plan;
+      try {
+        plan = planGradeImport(
+          parseCsv(csv),
+          {
+            assignmentName: assignment.name,
+            scoreColumn: typeof scoreColumn === "string" && scoreColumn ? scoreColumn : undefined,
+          },
+          gradebook.students,
+          currentScores
+        );
+      } catch (error) {
+        if (error instanceof GradeImportError) {
+          res.status(400).json({
+            error: {
+              code: error.code,
+              message: error.message,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+        throw error;
+      }
 
-      res.json({
-        students,
-        assignments: assignmentsWithRubric,
-        submissions: formattedSubmissions,
-        graders: graders || [],
-      });
+      if (dryRun) {
+        res.json({ dryRun: true, ...plan });
+        return;
+      }
+
+      // Imported scores are written as the score modifier on top of any
+      // autograded/rubric points, the same way "Change Grade" works, and
+      // marked reviewed so students see them
+      const reviewedAt = new Date().toISOString();
+      const failed: { rowNumber: number; message: string }[] = [];
+      let applied = 0;
+
+      for (const change of plan.changes) {
+        if (change.status !== "update" || !change.studentId || change.newScore === null) {
+          continue;
+        }
+
+        try {
+          let submission: any = scoredAttempts.get(`${change.studentId}_${assignmentId}`)?.submission;
+          if (!submission) {
+            const { data: newSubmission, error: submissionError } = await supabase
+              .from("submissions")
+              .insert({
+                assignment_id: assignmentId,
+                student_id: change.studentId,
+                course_id: courseId,
+                status: SubmissionStatus.GRADED,
+                values: {},
+                timestamp: new Date(),
+              })
+              .select()
+              .single();
+            if (submissionError) throw submissionError;
+            submission = newSubmission;
+          }
+
+          const grader = gradersBySubmission.get(submission.id);
+          if (grader) {
+            const unmodified = getGraderScore({ ...grader, score_modifier: "0" });
+            const scoreModifier = String(Math.round((change.newScore - unmodified) * 100) / 100);
+            const { error: updateError } = await supabase
+              .from("graders")
+              .update({
+                score_modifier: scoreModifier,
+                reviewed_at: reviewedAt,
+              })
+              .eq("id", grader.id);
+            if (updateError) throw updateError;
+            await recordScoreChanges(
+              grader,
+              { score_modifier: scoreModifier },
+              grader.id,
+              "import",
+              userId
+            );
+          } else {
+            const { data: newGrader, error: insertError } = await insertGrader(
+              submission,
+              {
+                raw_assignment_score: 0,
+                raw_rubric_score: 0,
+                score_modifier: String(change.newScore),
+                feedback: "",
+                reviewed_at: reviewedAt as any,
+              },
+              assignment
+            );
+            if (insertError) throw insertError;
+            await recordScoreChanges(
+              null,
+              { score_modifier: newGrader.score_modifier },
+              newGrader.id,
+              "import",
+              userId
+            );
+          }
+
+          applied++;
+          try {
+            emitGraderReviewUpdate(getIO(), courseId, {
+              assignmentId,
+              studentId: change.studentId,
+              submissionId: submission.id,
+              reviewed: true,
+            });
+          } catch {}
+        } catch (error) {
+          console.error(`Error importing grade for row ${change.rowNumber}:`, error);
+          failed.push({
+            rowNumber: change.rowNumber,
+            message: error instanceof Error ? error.message : "Failed to save grade",
+          });
+        }
+      }
+
+      res.json({ dryRun: false, ...plan, applied, failed });
     } catch (error) {
-      console.error("Error retrieving gradebook data:", error);
+      console.error("Error importing grades:", error);
       res.status(500).json({
         error: {
           code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to retrieve gradebook data",
+          message: "Failed to import grades",
           timestamp: new Date().toISOString(),
           path: req.path,
         },
@@ -1506,6 +1764,49 @@ router.get(
         }
       });
 
+      // Rubric item comments and code annotations are part of the feedback,
+      // so they are only attached once the grade has been returned
+      const returnedSubmissionIds = visibleGraders
+        .filter((grader: any) => grader.reviewed_at)
+        .map((grader: any) => grader.submission_id);
+      if (returnedSubmissionIds.length > 0) {
+        const { data: rubrics, error: rubricsError } = await supabase
+          .from("rubrics")
+          .select("submission_id, comments")
+          .in("submission_id", returnedSubmissionIds);
+        if (rubricsError) throw rubricsError;
+
+        const commentsBySubmission = new Map<string, string[]>(
+          (rubrics || [])
+            .filter((rubric: any) => hasRubricComments(rubric.comments))
+            .map((rubric: any) => [rubric.submission_id, rubric.comments])
+        );
+        visibleGraders.forEach((grader: any) => {
+          const comments = commentsBySubmission.get(grader.submission_id);
+          if (comments) grader.rubric_comments = comments;
+        });
+
+        // Code annotations on IDE files are released with the grade too
+        const { data: annotations, error: annotationsError } = await supabase
+          .from("code_annotations")
+          .select("submission_id, block_id, file_path, start_line, end_line, body")
+          .in("submission_id", returnedSubmissionIds)
+          .order("file_path")
+          .order("start_line");
+        if (annotationsError) throw annotationsError;
+
+        const annotationsBySubmission = new Map<string, any[]>();
+        for (const annotation of annotations || []) {
+          const list = annotationsBySubmission.get(annotation.submission_id) || [];
+          list.push(annotation);
+          annotationsBySubmission.set(annotation.submission_id, list);
+        }
+        visibleGraders.forEach((grader: any) => {
+          const list = annotationsBySubmission.get(grader.submission_id);
+          if (list) grader.code_annotations = list;
+        });
+      }
+
       // Format submissions data
       // Include all submissions (even without visible graders) so students can see submission status
       const formattedSubmissions = (submissions || []).map(
@@ -1584,10 +1885,52 @@ router.get(
         };
       });
 
+      // Running and final grades from visible scores only. Points come from
+      // the original content, since reviewed assignments may be stripped above.
+      const { data: courseRow } = await supabase
+        .from("courses")
+        .select("settings")
+        .eq("id", courseId)
+        .single();
+      const courseScheme = getGradingScheme(courseRow?.settings);
+      const gradingScheme = {
+        ...courseScheme,
+        assignmentCategories: Object.fromEntries(
+          Object.entries(courseScheme.assignmentCategories).filter(([assignmentId]) =>
+            assignmentMap.has(assignmentId)
+          )
+        ),
+      };
+
+      const visibleGradersBySubmission = new Map<string, any>(
+        visibleGraders.map((grader: any) => [grader.submission_id, grader])
+      );
+      const scoredAttempts = getScoredAttempts(
+        formattedSubmissions,
+        publishedAssignments,
+        (submission: any) => {
+          const grader = visibleGradersBySubmission.get(submission.id);
+          return grader ? getGraderScore(grader) : null;
+        }
+      );
+      const scores: AssignmentScore[] = publishedAssignments.map((assignment: any) => {
+        const attempt = scoredAttempts.get(`${userId}_${assignment.id}`);
+        return {
+          assignmentId: assignment.id,
+          earned: attempt ? attempt.score : null,
+          possible: calculateAssignmentPoints(
+            assignment.content,
+            studentRubricMap.get(assignment.id)
+          ),
+        };
+      });
+
       res.json({
         assignments: assignmentsWithRubric,
         submissions: formattedSubmissions,
         graders: visibleGraders,
+        gradingScheme,
+        gradeSummary: calculateGradeSummary(gradingScheme, scores),
       });
     } catch (error) {
       console.error("Error retrieving student grades:", error);
@@ -0,0 +1,548 @@
+import { Router, Request, Response } from "express";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getUserCourseRole } from "../middleware/authorization";
+import { UserRole } from "../types/enums";
+import { getIO } from "../services/websocket";
+import { emitDiscussionUpdate } from "../services/courseTreeSocket";
+import {
+  DiscussionSettings,
+  DiscussionViewer,
+  MAX_POST_LENGTH,
+  canViewPost,
+  getDiscussionSettings,
+  initialPostStatus,
+  isDiscussionClosed,
+  serializePost,
+  validateNewPost,
+} from "../services/discussion";
+import { logger } from "../utils/logger";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+const POST_SELECT =
+  "id, assignment_id, block_id, parent_id, author_id, content, is_anonymous, status, created_at, updated_at, author:users!discussion_posts_author_id_fkey(first_name, last_name, email)";
+
+interface DiscussionContext {
+  assignment: any;
+  settings: DiscussionSettings;
+  viewer: DiscussionViewer;
+  canParticipate: boolean; // Audit enrollments can read but not post or vote
+}
+
+/**
+ * Helper: load the assignment and discussion block for a request and resolve
+ * the caller's role. Sends an error response and returns null on failure.
+ */
+async function loadDiscussionContext(
+  req: Request,
+  res: Response
+): Promise<DiscussionContext | null> {
+  const { assignmentId, blockId } = req.params;
+  const { id: userId, isAdmin } = req.user!;
+
+  const { data: assignment, error } = await supabase
+    .from("assignments")
+    .select("id, course_id, content, publish_times")
+    .eq("id", assignmentId)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !assignment) {
+    res.status(404).json(errorBody(req, "ASSIGNMENT_NOT_FOUND", "Assignment not found"));
+    return null;
+  }
+
+  const role = isAdmin
+    ? UserRole.ADMIN
+    : await getUserCourseRole(userId, assignment.course_id);
+
+  if (!role) {
+    res
+      .status(403)
+      .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Not authorized to access this discussion"));
+    return null;
+  }
+
+  const isStaff =
+    role === UserRole.ADMIN ||
+    role === UserRole.INSTRUCTOR ||
+    role === UserRole.TEACHING_ASSISTANT;
+
+  if (!isStaff) {
+    const publishTime = (assignment.publish_times || {})[userId];
+    if (!publishTime || new Date(publishTime) > new Date()) {
+      res.status(404).json(errorBody(req, "ASSIGNMENT_NOT_FOUND", "Assignment not found"));
+      return null;
+    }
+  }
+
+  const settings = getDiscussionSettings(assignment.content, blockId);
+  if (!settings) {
+    res
+      .status(404)
+      .json(errorBody(req, "DISCUSSION_NOT_FOUND", "Discussion block not found in assignment"));
+    return null;
+  }
+
+  return {
+    assignment,
+    settings,
+    viewer: { userId, isStaff },
+    canParticipate: role !== UserRole.AUDIT,
+  };
+}
+
+/**
+ * Helper: fetch a single live post belonging to this discussion block
+ */
+async function getPost(
+  assignmentId: string,
+  blockId: string,
+  postId: string
+): Promise<any | null> {
+  const { data, error } = await supabase
+    .from("discussion_posts")
+    .select(POST_SELECT)
+    .eq("id", postId)
+    .eq("assignment_id", assignmentId)
+    .eq("block_id", blockId)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !data) return null;
+  return data;
+}
+
+/**
+ * GET /assignment/:assignmentId/discussions/:blockId/posts
+ * List posts and replies visible to the caller. Staff may pass
+ * ?status=pending to get the moderation queue.
+ */
+router.get(
+  "/assignment/:assignmentId/discussions/:blockId/posts",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ctx = await loadDiscussionContext(req, res);
+      if (!ctx) return;
+
+      const { assignmentId, blockId } = req.params;
+      const { status } = req.query;
+
+      if (status !== undefined && !ctx.viewer.isStaff) {
+        res
+          .status(403)
+          .json(
+            errorBody(
+              req,
+              "INSUFFICIENT_PERMISSIONS",
+              "Only course staff can filter posts by status"
+            )
+          );
+        return;
+      }
+
+      let query = supabase
+        .from("discussion_posts")
+        .select(POST_SELECT)
+        .eq("assignment_id", assignmentId)
+        .eq("block_id", blockId)
+        .is("deleted_at", null)
+        .order("created_at", { ascending: true });
+
+      if (typeof status === "string") {
+        query = query.eq("status", status);
+      }
+
+      const { data: rows, error } = await query;
+      if (error) throw error;
+
+      const visible = (rows || []).filter((post: any) =>
+        canViewPost(post, ctx.viewer)
+      );
+
+      // Vote tallies for the visible posts
+      const voteCounts = new Map<string, number>();
+      const votedByViewer = new Set<string>();
+      if (ctx.settings.enableVoting && visible.length > 0) {
+        const { data: votes, error: votesError } = await supabase
+          .from("discussion_post_votes")
+          .select("post_id, user_id")
+          .in(
+            "post_id",
+            visible.map((post: any) => post.id)
+          );
+        if (votesError) throw votesError;
+
+        for (const vote of votes || []) {
+          voteCounts.set(vote.post_id, (voteCounts.get(vote.post_id) || 0) + 1);
+          if (vote.user_id === ctx.viewer.userId) {
+            votedByViewer.add(vote.post_id);
+          }
+        }
+      }
+
+      const ownTopLevelPosts = (rows || []).filter(
+        (post: any) =>
+          post.author_id === ctx.viewer.userId &&
+          !post.parent_id &&
+          post.status !== "rejected"
+      ).length;
+
+      res.json({
+        posts: visible.map((post: any) =>
+          serializePost(post, ctx.viewer, {
+            count: voteCounts.get(post.id) || 0,
+            hasVoted: votedByViewer.has(post.id),
+          })
+        ),
+        viewer: {
+          canModerate: ctx.viewer.isStaff,
+          canPost: ctx.canParticipate,
+          postsRemaining:
+            ctx.viewer.isStaff || ctx.settings.maxPostsPerStudent === undefined
+              ? null
+              : Math.max(0, ctx.settings.maxPostsPerStudent - ownTopLevelPosts),
+        },
+        isClosed: isDiscussionClosed(ctx.settings),
+      });
+    } catch (error) {
+      logger.error("Error listing discussion posts", {
+        error: error instanceof Error ? error.message : "Unknown",
+      });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to list discussion posts"));
+    }
+  }
+);
+
+/**
+ * POST /assignment/:assignmentId/discussions/:blockId/posts
+ * Create a post, or a reply when parentId is given
+ */
+router.post(
+  "/assignment/:assignmentId/discussions/:blockId/posts",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { content, parentId, isAnonymous } = req.body;
+
+      if (typeof content !== "string" || content.trim().length === 0) {
+        res.status(400).json(errorBody(req, "INVALID_REQUEST", "content is required"));
+        return;
+      }
+
+      if (content.length > MAX_POST_LENGTH) {
+        res
+          .status(400)
+          .json(
+            errorBody(
+              req,
+              "CONTENT_TOO_LONG",
+              `Posts must be ${MAX_POST_LENGTH} characters or fewer`
+            )
+          );
+        return;
+      }
+
+      const ctx = await loadDiscussionContext(req, res);
+      if (!ctx) return;
+
+      const { assignmentId, blockId } = req.params;
+
+      if (!ctx.canParticipate) {
+        res
+          .status(403)
+          .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Auditors cannot post in discussions"));
+        return;
+      }
+
+      // Replies attach to a visible top-level post in the same block
+      if (parentId) {
+        const parent = await getPost(assignmentId, blockId, parentId);
+        if (!parent || !canViewPost(parent, ctx.viewer)) {
+          res.status(404).json(errorBody(req, "POST_NOT_FOUND", "Parent post not found"));
+          return;
+        }
+        if (parent.parent_id) {
+          res
+            .status(400)
+            .json(errorBody(req, "INVALID_REQUEST", "Replies can only be made to top-level posts"));
+          return;
+        }
+      }
+
+      let topLevelPostCount = 0;
+      if (!parentId && ctx.settings.maxPostsPerStudent !== undefined) {
+        const { count, error: countError } = await supabase
+          .from("discussion_posts")
+          .select("id", { count: "exact", head: true })
+          .eq("assignment_id", assignmentId)
+          .eq("block_id", blockId)
+          .eq("author_id", ctx.viewer.userId)
+          .is("parent_id", null)
+          .is("deleted_at", null)
+          .neq("status", "rejected");
+        if (countError) throw countError;
+        topLevelPostCount = count || 0;
+      }
+
+      const validationError = validateNewPost(ctx.settings, ctx.viewer, {
+        isReply: !!parentId,
+        isAnonymous: !!isAnonymous,
+        topLevelPostCount,
+      });
+      if (validationError) {
+        const status =
+          validationError.code === "DISCUSSION_CLOSED" ||
+          validationError.code === "POST_LIMIT_REACHED"
+            ? 403
+            : 400;
+        res.status(status).json(errorBody(req, validationError.code, validationError.message));
+        return;
+      }
+
+      const { data: post, error } = await supabase
+        .from("discussion_posts")
+        .insert({
+          assignment_id: assignmentId,
+          course_id: ctx.assignment.course_id,
+          block_id: blockId,
+          parent_id: parentId || null,
+          author_id: ctx.viewer.userId,
+          content: content.trim(),
+          is_anonymous: !!isAnonymous,
+          status: initialPostStatus(ctx.settings, ctx.viewer),
+        })
+        .select(POST_SELECT)
+        .single();
+
+      if (error || !post) throw error;
+
+      try {
+        emitDiscussionUpdate(getIO(), {
+          assignmentId,
+          blockId,
+          postId: post.id,
+          event: "created",
+        });
+      } catch {}
+
+      res.status(201).json(serializePost(post, ctx.viewer));
+    } catch (error) {
+      logger.error("Error creating discussion post", {
+        error: error instanceof Error ? error.message : "Unknown",
+      });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to create discussion post"));
+    }
+  }
+);
+
+/**
+ * PUT /assignment/:assignmentId/discussions/:blockId/posts/:postId/moderation
+ * Approve or reject a post (course staff only)
+ */
+router.put(
+  "/assignment/:assignmentId/discussions/:blockId/posts/:postId/moderation",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status } = req.body;
+      if (status !== "approved" && status !== "rejected") {
+        res
+          .status(400)
+          .json(errorBody(req, "INVALID_REQUEST", "status must be 'approved' or 'rejected'"));
+        return;
+      }
+
+      const ctx = await loadDiscussionContext(req, res);
+      if (!ctx) return;
+
+      if (!ctx.viewer.isStaff) {
+        res
+          .status(403)
+          .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Only course staff can moderate posts"));
+        return;
+      }
+
+      const { assignmentId, blockId, postId } = req.params;
+      const existing = await getPost(assignmentId, blockId, postId);
+      if (!existing) {
+        res.status(404).json(errorBody(req, "POST_NOT_FOUND", "Post not found"));
+        return;
+      }
+
+      const { data: post, error } = await supabase
+        .from("discussion_posts")
+        .update({
+          status,
+          moderated_by_id: ctx.viewer.userId,
+          moderated_at: new Date().toISOString(),
+        })
+        .eq("id", postId)
+        .select(POST_SELECT)
+        .single();
+
+      if (error || !post) throw error;
+
+      try {
+        emitDiscussionUpdate(getIO(), {
+          assignmentId,
+          blockId,
+          postId,
+          event: "moderated",
+        });
+      } catch {}
+
+      res.json(serializePost(post, ctx.viewer));
+    } catch (error) {
+      logger.error("Error moderating discussion post", {
+        error: error instanceof Error ? error.message : "Unknown",
+      });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to moderate discussion post"));
+    }
+  }
+);
+
+/**
+ * POST /assignment/:assignmentId/discussions/:blockId/posts/:postId/vote
+ * Toggle the caller's upvote on a post
+ */
+router.post(
+  "/assignment/:assignmentId/discussions/:blockId/posts/:postId/vote",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ctx = await loadDiscussionContext(req, res);
+      if (!ctx) return;
+
+      const { assignmentId, blockId, postId } = req.params;
+
+      if (!ctx.settings.enableVoting) {
+        res
+          .status(400)
+          .json(errorBody(req, "VOTING_DISABLED", "Voting is disabled for this discussion"));
+        return;
+      }
+
+      if (!ctx.canParticipate) {
+        res
+          .status(403)
+          .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Auditors cannot vote in discussions"));
+        return;
+      }
+
+      const post = await getPost(assignmentId, blockId, postId);
+      if (!post || post.status !== "approved") {
+        res.status(404).json(errorBody(req, "POST_NOT_FOUND", "Post not found"));
+        return;
+      }
+
+      const { data: existingVote } = await supabase
+        .from("discussion_post_votes")
+        .select("post_id")
+        .eq("post_id", postId)
+        .eq("user_id", ctx.viewer.userId)
+        .maybeSingle();
+
+      if (existingVote) {
+        const { error } = await supabase
+          .from("discussion_post_votes")
+          .delete()
+          .eq("post_id", postId)
+          .eq("user_id", ctx.viewer.userId);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("discussion_post_votes")
+          .insert({ post_id: postId, user_id: ctx.viewer.userId });
+        if (error) throw error;
+      }
+
+      const { count, error: countError } = await supabase
+        .from("discussion_post_votes")
+        .select("post_id", { count: "exact", head: true })
+        .eq("post_id", postId);
+      if (countError) throw countError;
+
+      try {
+        emitDiscussionUpdate(getIO(), {
+          assignmentId,
+          blockId,
+          postId,
+          event: "voted",
+        });
+      } catch {}
+
+      res.json({ vote_count: count || 0, has_voted: !existingVote });
+    } catch (error) {
+      logger.error("Error voting on discussion post", {
+        error: error instanceof Error ? error.message : "Unknown",
+      });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to vote on discussion post"));
+    }
+  }
+);
+
+/**
+ * DELETE /assignment/:assignmentId/discussions/:blockId/posts/:postId
+ * Soft-delete a post (its author or course staff)
+ */
+router.delete(
+  "/assignment/:assignmentId/discussions/:blockId/posts/:postId",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ctx = await loadDiscussionContext(req, res);
+      if (!ctx) return;
+
+      const { assignmentId, blockId, postId } = req.params;
+      const post = await getPost(assignmentId, blockId, postId);
+      if (!post || !canViewPost(post, ctx.viewer)) {
+        res.status(404).json(errorBody(req, "POST_NOT_FOUND", "Post not found"));
+        return;
+      }
+
+      if (post.author_id !== ctx.viewer.userId && !ctx.viewer.isStaff) {
+        res
+          .status(403)
+          .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "You can only delete your own posts"));
+        return;
+      }
+
+      const { error } = await supabase
+        .from("discussion_posts")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", postId);
+      if (error) throw error;
+
+      try {
+        emitDiscussionUpdate(getIO(), {
+          assignmentId,
+          blockId,
+          postId,
+          event: "deleted",
+        });
+      } catch {}
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error("Error deleting discussion post", {
+        error: error instanceof Error ? error.message : "Unknown",
+      });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to delete discussion post"));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,235 @@
+import { Router, Request, Response } from "express";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getCoursePermissions } from "../middleware/authorization";
+import {
+  isGradeReleaseDue,
+  selectGradersToRelease,
+  validateGradeReleaseTime,
+} from "../services/gradeRelease";
+import { getIO } from "../services/websocket";
+import {
+  emitAssignmentSettingsUpdate,
+  emitGraderReviewUpdate,
+} from "../services/courseTreeSocket";
+import { logger } from "../utils/logger";
+import { fetchAllPages, fetchInBatches } from "../utils/supabasePaginate";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+const RELEASE_CHECK_INTERVAL_MS = 60 * 1000;
+const RELEASE_BATCH_SIZE = 100; // IDs per request, to stay under URL length limits
+
+/**
+ * Write assignment settings and tell connected clients about the change
+ */
+async function saveReleaseSettings(
+  assignment: { id: string; course_id: string },
+  settings: Record<string, any>
+): Promise<void> {
+  const { error } = await supabase
+    .from("assignments")
+    .update({ settings })
+    .eq("id", assignment.id);
+  if (error) {
+    throw error;
+  }
+
+  try {
+    emitAssignmentSettingsUpdate(getIO(), assignment.course_id, {
+      assignmentId: assignment.id,
+      settings,
+    });
+  } catch {}
+}
+
+/**
+ * Return every graded, submitted attempt of an assignment to its student
+ * and clear any scheduled release. Returns the number of grades released.
+ */
+export async function releaseAssignmentGrades(assignment: {
+  id: string;
+  course_id: string;
+  settings: Record<string, any> | null;
+}): Promise<number> {
+  const submissions = await fetchAllPages(() =>
+    supabase
+      .from("submissions")
+      .select("id, status, student_id")
+      .eq("assignment_id", assignment.id)
+  );
+  const graders = await fetchInBatches(
+    submissions.map((s) => s.id),
+    (batch) =>
+      supabase.from("graders").select("id, submission_id, reviewed_at").in("submission_id", batch)
+  );
+
+  const graderIds = selectGradersToRelease(submissions, graders);
+  const reviewedAt = new Date().toISOString();
+  for (let i = 0; i < graderIds.length; i += RELEASE_BATCH_SIZE) {
+    const { error: updateError } = await supabase
+      .from("graders")
+      .update({ reviewed_at: reviewedAt })
+      .in("id", graderIds.slice(i, i + RELEASE_BATCH_SIZE));
+    if (updateError) {
+      throw updateError;
+    }
+  }
+
+  if (assignment.settings?.gradeReleaseAt) {
+    await saveReleaseSettings(assignment, { ...assignment.settings, gradeReleaseAt: null });
+  }
+
+  const releasedSubmissionIds = new Set(
+    graders.filter((g) => graderIds.includes(g.id)).map((g) => g.submission_id)
+  );
+  for (const submission of submissions) {
+    if (!releasedSubmissionIds.has(submission.id)) continue;
+    try {
+      emitGraderReviewUpdate(getIO(), assignment.course_id, {
+        assignmentId: assignment.id,
+        studentId: submission.student_id,
+        submissionId: submission.id,
+        reviewed: true,
+      });
+    } catch {}
+  }
+
+  return graderIds.length;
+}
+
+/**
+ * Perform scheduled releases whose time has come
+ */
+export async function runDueGradeReleases(now: Date = new Date()): Promise<void> {
+  const { data: assignments, error } = await supabase
+    .from("assignments")
+    .select("id, course_id, settings")
+    .not("settings->>gradeReleaseAt", "is", null)
+    .is("deleted_at", null);
+  if (error) {
+    logger.error("Failed to load scheduled grade releases", { error: error.message });
+    return;
+  }
+
+  for (const assignment of assignments || []) {
+    if (!isGradeReleaseDue(assignment.settings, now)) continue;
+    try {
+      const released = await releaseAssignmentGrades(assignment);
+      logger.info("Released scheduled grades", { assignmentId: assignment.id, released });
+    } catch (releaseError: any) {
+      logger.error("Scheduled grade release failed", {
+        assignmentId: assignment.id,
+        error: releaseError.message,
+      });
+    }
+  }
+}
+
+/**
+ * Check for due scheduled releases once a minute. Releasing is idempotent,
+ * so it's safe for several server instances to run this.
+ */
+export function startGradeReleaseScheduler(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    runDueGradeReleases().catch((error) => {
+      logger.error("Grade release check failed", { error: error.message });
+    });
+  }, RELEASE_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
+
+/**
+ * Helper: load an assignment the caller may release grades for.
+ * Sends the error response and returns null otherwise.
+ */
+async function loadReleasableAssignment(req: Request, res: Response): Promise<any | null> {
+  const { id: userId, isAdmin } = req.user!;
+
+  const { data: assignment, error } = await supabase
+    .from("assignments")
+    .select("id, course_id, settings")
+    .eq("id", req.params.id)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !assignment) {
+    res.status(404).json(errorBody(req, "ASSIGNMENT_NOT_FOUND", "Assignment not found"));
+    return null;
+  }
+
+  const permissions = await getCoursePermissions(userId, assignment.course_id, isAdmin);
+  if (!permissions.canGrade && !permissions.canManage) {
+    res
+      .status(403)
+      .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Not authorized to release grades"));
+    return null;
+  }
+
+  return assignment;
+}
+
+/**
+ * POST /assignment/:id/grades/release
+ * Release all graded submissions to students now, or schedule the release
+ * with { release_at } (an ISO date in the future)
+ */
+router.post(
+  "/assignment/:id/grades/release",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { release_at } = req.body;
+
+      const validationError = validateGradeReleaseTime(release_at);
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_RELEASE_TIME", validationError));
+        return;
+      }
+
+      const assignment = await loadReleasableAssignment(req, res);
+      if (!assignment) return;
+
+      if (release_at && Date.parse(release_at) > Date.now()) {
+        const gradeReleaseAt = new Date(release_at).toISOString();
+        await saveReleaseSettings(assignment, { ...assignment.settings, gradeReleaseAt });
+        res.json({ released: 0, scheduledFor: gradeReleaseAt });
+        return;
+      }
+
+      const released = await releaseAssignmentGrades(assignment);
+      res.json({ released, scheduledFor: null });
+    } catch (error: any) {
+      logger.error("Error releasing grades", { error: error.message });
+      res.status(500).json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to release grades"));
+    }
+  }
+);
+
+/**
+ * DELETE /assignment/:id/grades/release
+ * Cancel a scheduled grade release
+ */
+router.delete(
+  "/assignment/:id/grades/release",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadReleasableAssignment(req, res);
+      if (!assignment) return;
+
+      if (assignment.settings?.gradeReleaseAt) {
+        await saveReleaseSettings(assignment, { ...assignment.settings, gradeReleaseAt: null });
+      }
+      res.status(204).send();
+    } catch (error: any) {
+      logger.error("Error cancelling grade release", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to cancel grade release"));
+    }
+  }
+);
+
+export default router;
@@ -12,9 +12,94 @@ import {
 } from "../types/api";
 import { getIO } from "../services/websocket";
 import { emitGraderReviewUpdate } from "../services/courseTreeSocket";
+import { evaluateSubmissionLatePenalty } from "../services/latePolicy";
+import { ScoreChangeSource, diffGraderScores } from "../services/gradeAudit";
+import {
+  getBlindStudentKey,
+  isBlindGradingActive,
+  isBlindStudentKey,
+  resolveBlindStudentKey,
+} from "../services/blindGrading";
+import {
+  applyManualBlockScore,
+  getScoredBlockPoints,
+  validateBlockScore,
+} from "../services/blockScoring";
 
 const router = Router();
 
+/**
+ * Record the score fields that changed between two versions of a grader in
+ * grader_score_history. Failures are logged, never thrown, so the audit
+ * trail can't block grading.
+ */
+export const recordScoreChanges = async (
+  before: Record<string, any> | null,
+  after: Record<string, any>,
+  graderId: string,
+  source: ScoreChangeSource,
+  changedBy: string | null,
+  regradeRequestId: string | null = null
+): Promise<void> => {
+  const changes = diffGraderScores(before, after);
+  if (changes.length === 0) return;
+
+  const { error } = await supabase.from("grader_score_history").insert(
+    changes.map((change) => ({
+      ...change,
+      grader_id: graderId,
+      source,
+      changed_by: changedBy,
+      regrade_request_id: regradeRequestId,
+    }))
+  );
+  if (error) {
+    console.error("Failed to record grader score history:", error);
+  }
+};
+
+/**
+ * Insert a grader for a submission with the assignment's late penalty
+ * applied, as the autograder does. Pass the assignment when inserting many
+ * graders for one assignment; otherwise it is loaded.
+ */
+export const insertGrader = async (
+  submission: {
+    id: string;
+    assignment_id: string;
+    student_id: string;
+    timestamp: string | Date;
+    status: string;
+  },
+  fields: Partial<Grader>,
+  assignment?: {
+    settings?: Record<string, any> | null;
+    due_dates_map?: Record<string, string | Date> | null;
+  }
+) => {
+  let lateAssignment = assignment;
+  if (!lateAssignment) {
+    const { data } = await supabase
+      .from("assignments")
+      .select("settings, due_dates_map")
+      .eq("id", submission.assignment_id)
+      .single();
+    lateAssignment = data || {};
+  }
+  const lateResult = evaluateSubmissionLatePenalty(lateAssignment, submission);
+
+  return supabase
+    .from("graders")
+    .insert({
+      ...fields,
+      submission_id: submission.id,
+      late_penalty_percent: lateResult.penaltyPercent,
+      late_minutes: lateResult.minutesLate,
+    })
+    .select()
+    .single();
+};
+
 /**
  * Check if user can access grader feedback
  * Students can only access feedback for their own submissions
@@ -298,6 +383,92 @@ router.get(
   }
 );
 
+/**
+ * GET /grader/:id/score-history
+ * Audit trail of score changes on a grader (instructor/TA only)
+ */
+router.get(
+  "/grader/:id/score-history",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+
+      const { data: grader, error: graderError } = await supabase
+        .from("graders")
+        .select("id, submission_id")
+        .eq("id", id)
+        .single();
+
+      if (graderError || !grader) {
+        res.status(404).json({
+          error: {
+            code: "GRADER_NOT_FOUND",
+            message: "Grader feedback not found",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const { data: submission } = await supabase
+        .from("submissions")
+        .select("course_id")
+        .eq("id", grader.submission_id)
+        .single();
+
+      const permissions = submission
+        ? await getCoursePermissions(userId, submission.course_id, isAdmin)
+        : null;
+
+      if (!permissions?.canGrade && !permissions?.canManage) {
+        res.status(403).json({
+          error: {
+            code: "INSUFFICIENT_PERMISSIONS",
+            message: "Not authorized to view score history",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const { data: history, error: historyError } = await supabase
+        .from("grader_score_history")
+        .select("*, changed_by_user:users(first_name, last_name)")
+        .eq("grader_id", id)
+        .order("created_at", { ascending: false });
+
+      if (historyError) {
+        throw historyError;
+      }
+
+      res.json(
+        (history || []).map(({ changed_by_user, ...change }: any) => ({
+          ...change,
+          changed_by_name: changed_by_user
+            ? [changed_by_user.first_name, changed_by_user.last_name]
+                .filter(Boolean)
+                .join(" ")
+            : null,
+        }))
+      );
+    } catch (error) {
+      console.error("Error retrieving grader score history:", error);
+      res.status(500).json({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to retrieve score history",
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
+
 /**
  * POST /grader
  * Create grader feedback entry (instructor/TA only)
@@ -355,7 +526,7 @@ router.post(
       // Get the submission to check permissions
       const { data: submission, error: submissionError } = await supabase
         .from("submissions")
-        .select("student_id, course_id")
+        .select("id, assignment_id, student_id, course_id, timestamp, status")
         .eq("id", submission_id)
         .single();
 
@@ -412,24 +583,21 @@ router.post(
       }
 
       // Create the grader entry
-      const { data: grader, error: graderError } = await supabase
-        .from("graders")
-        .insert({
-          feedback: feedback || "",
-          rubric_id,
-          raw_assignment_score,
-          raw_rubric_score,
-          score_modifier: score_modifier || "",
-          submission_id,
-          reviewed_at: new Date(),
-        })
-        .select()
-        .single();
+      const { data: grader, error: graderError } = await insertGrader(submission, {
+        feedback: feedback || "",
+        rubric_id,
+        raw_assignment_score,
+        raw_rubric_score,
+        score_modifier: score_modifier || "",
+        reviewed_at: new Date(),
+      });
 
       if (graderError) {
         throw graderError;
       }
 
+      await recordScoreChanges(null, grader, grader.id, "manual", userId);
+
       res.status(201).json(grader);
     } catch (error) {
       console.error("Error creating grader feedback:", error);
@@ -606,6 +774,8 @@ router.put(
         throw updateError;
       }
 
+      await recordScoreChanges(existingGrader, updateData, id, "manual", userId);
+
       res.json(updatedGrader);
     } catch (error) {
       console.error("Error updating grader feedback:", error);
@@ -638,6 +808,7 @@ router.put(
         raw_assignment_score,
         raw_rubric_score,
         score_modifier,
+        late_penalty_percent,
         reviewed,
       } = req.body;
       const { id: userId, isAdmin } = req.user!;
@@ -664,7 +835,7 @@ router.put(
       // Get the submission to check permissions
       const { data: submission, error: submissionError } = await supabase
         .from("submissions")
-        .select("student_id, course_id, assignment_id")
+        .select("student_id, course_id, assignment_id, timestamp, status")
         .eq("id", existingGrader.submission_id)
         .single();
 
@@ -731,6 +902,25 @@ router.put(
         return;
       }
 
+      if (
+        late_penalty_percent !== undefined &&
+        late_penalty_percent !== null &&
+        (typeof late_penalty_percent !== "number" ||
+          isNaN(late_penalty_percent) ||
+          late_penalty_percent < 0 ||
+          late_penalty_percent > 100)
+      ) {
+        res.status(400).json({
+          error: {
+            code: "INVALID_LATE_PENALTY",
+            message: "Late penalty must be a percentage between 0 and 100",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
       // Validate rubric_id if provided
       if (rubric_id !== undefined && rubric_id !== null) {
         const { data: rubric, error: rubricError } = await supabase
@@ -768,6 +958,23 @@ router.put(
       if (score_modifier !== undefined)
         updateData.score_modifier = score_modifier;
 
+      // A number is a manual override (e.g. an accommodation); null goes back
+      // to whatever the assignment's late policy gives
+      if (late_penalty_percent === null) {
+        const { data: assignment } = await supabase
+          .from("assignments")
+          .select("settings, due_dates_map")
+          .eq("id", submission.assignment_id)
+          .single();
+        const lateResult = evaluateSubmissionLatePenalty(assignment || {}, submission);
+        updateData.late_penalty_percent = lateResult.penaltyPercent;
+        updateData.late_minutes = lateResult.minutesLate;
+        updateData.late_penalty_overridden = false;
+      } else if (late_penalty_percent !== undefined) {
+        updateData.late_penalty_percent = late_penalty_percent;
+        updateData.late_penalty_overridden = true;
+      }
+
       // Only update reviewed_at if the reviewed status is explicitly being changed
       if (reviewed !== undefined && reviewed !== null) {
         if (reviewed === true) {
@@ -811,6 +1018,8 @@ router.put(
         throw updateError;
       }
 
+      await recordScoreChanges(existingGrader, updatePayload, id, "manual", userId);
+
       // Emit live update so students see grader changes (score modifier, reviewed, etc.)
       try {
         emitGraderReviewUpdate(getIO(), submission.course_id, {
@@ -855,7 +1064,8 @@ router.post(
   authenticateToken,
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { assignmentId, studentId, courseId } = req.body;
+      const { assignmentId, courseId } = req.body;
+      let { studentId } = req.body;
       const { id: userId, isAdmin } = req.user!;
 
       // Validate required fields (Requirement 5.1)
@@ -874,7 +1084,7 @@ router.post(
       // Verify assignment exists and belongs to the course
       const { data: assignment, error: assignmentError } = await supabase
         .from("assignments")
-        .select("id, course_id")
+        .select("id, course_id, settings")
         .eq("id", assignmentId)
         .eq("course_id", courseId)
         .single();
@@ -907,6 +1117,25 @@ router.post(
         return;
       }
 
+      // Blind grading views only know students by their blind key
+      const isBlind = isBlindGradingActive(assignment.settings);
+      if (isBlind && isBlindStudentKey(studentId)) {
+        const { data: students, error: studentsError } = await supabase
+          .from("course_enrollments")
+          .select("user_id")
+          .eq("course_id", courseId)
+          .eq("role", UserRole.STUDENT);
+        if (studentsError) {
+          throw studentsError;
+        }
+        studentId =
+          resolveBlindStudentKey(
+            assignmentId,
+            studentId,
+            (students || []).map((student) => student.user_id)
+          ) ?? studentId;
+      }
+
       // Verify student is enrolled in the course
       const { data: enrollment, error: enrollmentError } = await supabase
         .from("course_enrollments")
@@ -1002,18 +1231,16 @@ router.post(
       if (!grader) {
         console.log("Creating grader for submission:", submission.id);
 
-        const { data: newGrader, error: createGraderError } = await supabase
-          .from("graders")
-          .insert({
-            submission_id: submission.id,
+        const { data: newGrader, error: createGraderError } = await insertGrader(
+          submission,
+          {
             raw_assignment_score: 0,
             raw_rubric_score: 0,
             score_modifier: "",
             feedback: "",
-            reviewed_at: null,
-          })
-          .select()
-          .single();
+            reviewed_at: null as any,
+          }
+        );
 
         if (createGraderError) {
           console.error("Error creating grader:", createGraderError);
@@ -1028,13 +1255,17 @@ router.post(
           throw new Error("Grader was not created but no error was returned");
         }
 
+        await recordScoreChanges(null, newGrader, newGrader.id, "manual", userId);
+
         grader = newGrader;
         graderCreated = true;
       }
 
       // Return both objects with creation flags (Requirement 5.4)
       res.status(submissionCreated || graderCreated ? 201 : 200).json({
-        submission,
+        submission: isBlind
+          ? { ...submission, student_id: getBlindStudentKey(assignmentId, submission.student_id) }
+          : submission,
         grader,
         created: {
           submission: submissionCreated,
@@ -1064,4 +1295,194 @@ router.post(
   }
 );
 
+/**
+ * PUT /assignment/:id/blocks/:blockId/scores
+ * Set one block's score on several submissions at once, e.g. a group of
+ * identical answers while grading question by question (instructor/TA only).
+ * Body: { submission_ids: string[], awarded: number }
+ */
+router.put(
+  "/assignment/:id/blocks/:blockId/scores",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id: assignmentId, blockId } = req.params;
+      const { submission_ids, awarded } = req.body;
+      const { id: userId, isAdmin } = req.user!;
+
+      const { data: assignment, error: assignmentError } = await supabase
+        .from("assignments")
+        .select("id, course_id, content, settings, due_dates_map")
+        .eq("id", assignmentId)
+        .is("deleted_at", null)
+        .single();
+
+      if (assignmentError || !assignment) {
+        res.status(404).json({
+          error: {
+            code: "ASSIGNMENT_NOT_FOUND",
+            message: "Assignment not found",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const permissions = await getCoursePermissions(
+        userId,
+        assignment.course_id,
+        isAdmin
+      );
+
+      if (!permissions.canGrade && !permissions.canManage) {
+        res.status(403).json({
+          error: {
+            code: "INSUFFICIENT_PERMISSIONS",
+            message: "Not authorized to grade this assignment",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const possible = getScoredBlockPoints(assignment.content, blockId);
+      if (possible === null) {
+        res.status(404).json({
+          error: {
+            code: "BLOCK_NOT_FOUND",
+            message: "Block not found or not scored per question",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      if (
+        !Array.isArray(submission_ids) ||
+        submission_ids.length === 0 ||
+        submission_ids.some((id: unknown) => typeof id !== "string")
+      ) {
+        res.status(400).json({
+          error: {
+            code: "INVALID_SUBMISSIONS",
+            message: "submission_ids must be a non-empty array of IDs",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const scoreError = validateBlockScore(awarded, possible);
+      if (scoreError) {
+        res.status(400).json({
+          error: {
+            code: "INVALID_BLOCK_SCORE",
+            message: scoreError,
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const ids: string[] = Array.from(new Set(submission_ids));
+      const { data: submissions, error: submissionsError } = await supabase
+        .from("submissions")
+        .select("id, assignment_id, student_id, timestamp, status")
+        .eq("assignment_id", assignmentId)
+        .in("id", ids);
+
+      if (submissionsError) {
+        throw submissionsError;
+      }
+
+      if ((submissions || []).length !== ids.length) {
+        res.status(400).json({
+          error: {
+            code: "INVALID_SUBMISSIONS",
+            message: "Some submissions do not belong to this assignment",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const { data: existingGraders, error: gradersError } = await supabase
+        .from("graders")
+        .select("*")
+        .in("submission_id", ids);
+
+      if (gradersError) {
+        throw gradersError;
+      }
+
+      const updatedGraders: Grader[] = [];
+      for (const submission of submissions || []) {
+        const existingGrader = (existingGraders || []).find(
+          (grader) => grader.submission_id === submission.id
+        );
+        const { blockScores, rawScore } = applyManualBlockScore(
+          existingGrader?.block_scores,
+          blockId,
+          awarded,
+          possible
+        );
+
+        const { data: grader, error: saveError } = existingGrader
+          ? await supabase
+              .from("graders")
+              .update({
+                block_scores: blockScores,
+                raw_assignment_score: rawScore,
+              })
+              .eq("id", existingGrader.id)
+              .select()
+              .single()
+          : await insertGrader(
+              submission,
+              {
+                block_scores: blockScores,
+                raw_assignment_score: rawScore,
+                raw_rubric_score: 0,
+                score_modifier: "",
+                feedback: "",
+                reviewed_at: null as any,
+              },
+              assignment
+            );
+
+        if (saveError || !grader) {
+          throw saveError || new Error("Failed to save block score");
+        }
+
+        await recordScoreChanges(
+          existingGrader || null,
+          grader,
+          grader.id,
+          "manual",
+          userId
+        );
+        updatedGraders.push(grader);
+      }
+
+      res.json(updatedGraders);
+    } catch (error) {
+      console.error("Error setting block scores:", error);
+      res.status(500).json({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to set block scores",
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,407 @@
+import { Router, Request, Response } from "express";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getCoursePermissions } from "../middleware/authorization";
+import { UserRole } from "../types/enums";
+import {
+  DistributionStrategy,
+  GradingAssignmentRow,
+  distributeBlocks,
+  distributeBySection,
+  distributeEvenly,
+  reassignRows,
+  summarizeProgress,
+  validateDistributionRequest,
+} from "../services/gradingDistribution";
+import { getBlindStudentKey, isBlindGradingActive } from "../services/blindGrading";
+import { collectBlockData } from "../utils/blockContent";
+import { logger } from "../utils/logger";
+import { fetchAllPages, fetchInBatches } from "../utils/supabasePaginate";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+// Block types (TipTap node type -> data attribute) that can be graded by question
+const DISTRIBUTABLE_BLOCKS: [string, string][] = [
+  ["mcqBlock", "mcqData"],
+  ["fillInTheBlankBlock", "fillInTheBlankData"],
+  ["parsonsProblemBlock", "parsonsProblemData"],
+  ["dragDropMatchingBlock", "dragDropMatchingData"],
+  ["clickableAreaBlock", "clickableAreaData"],
+  ["shortAnswerBlock", "shortAnswerData"],
+  ["ideBlock", "ideData"],
+];
+
+const SUBMITTED_STATUSES = new Set(["submitted", "graded", "returned"]);
+
+/**
+ * Helper: load an assignment and check the caller's permissions on it.
+ * Sends the error response and returns null otherwise.
+ */
+async function loadAssignment(
+  req: Request,
+  res: Response,
+  requireManage: boolean
+): Promise<{ id: string; course_id: string; content: string; settings: any } | null> {
+  const { id: userId, isAdmin } = req.user!;
+
+  const { data: assignment, error } = await supabase
+    .from("assignments")
+    .select("id, course_id, content, settings")
+    .eq("id", req.params.id)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !assignment) {
+    res.status(404).json(errorBody(req, "ASSIGNMENT_NOT_FOUND", "Assignment not found"));
+    return null;
+  }
+
+  const permissions = await getCoursePermissions(userId, assignment.course_id, isAdmin);
+  const allowed = requireManage
+    ? permissions.canManage
+    : permissions.canGrade || permissions.canManage;
+  if (!allowed) {
+    res
+      .status(403)
+      .json(
+        errorBody(
+          req,
+          "INSUFFICIENT_PERMISSIONS",
+          requireManage
+            ? "Only instructors can distribute grading"
+            : "Not authorized to view grading assignments"
+        )
+      );
+    return null;
+  }
+
+  return assignment;
+}
+
+/**
+ * Helper: course enrollments with a given set of roles
+ */
+async function getEnrollments(courseId: string, roles: string[]) {
+  const { data, error } = await supabase
+    .from("course_enrollments")
+    .select(
+      "user_id, role, section_id, user:users!course_enrollments_user_id_fkey(first_name, last_name)"
+    )
+    .eq("course_id", courseId)
+    .in("role", roles);
+  if (error) {
+    throw error;
+  }
+  return data || [];
+}
+
+const STAFF_ROLES = [UserRole.INSTRUCTOR, UserRole.TEACHING_ASSISTANT];
+
+/**
+ * Helper: the current distribution of an assignment with course staff and
+ * each assignee's progress. A student counts as graded once their grade is
+ * reviewed; a question once its score no longer needs review. Under blind
+ * grading, students are identified by their blind key.
+ */
+async function loadDistribution(assignment: { id: string; course_id: string; settings: any }) {
+  const [{ data: rows, error: rowsError }, staff, submissions] = await Promise.all([
+    supabase
+      .from("grading_assignments")
+      .select("id, assignee_id, student_id, block_id")
+      .eq("assignment_id", assignment.id)
+      .order("created_at", { ascending: true }),
+    getEnrollments(assignment.course_id, STAFF_ROLES),
+    fetchAllPages(() =>
+      supabase.from("submissions").select("id, student_id, status").eq("assignment_id", assignment.id)
+    ),
+  ]);
+  if (rowsError) throw rowsError;
+
+  const submitted = submissions.filter((s) => SUBMITTED_STATUSES.has(s.status));
+  const graders = await fetchInBatches(
+    submitted.map((s) => s.id),
+    (batch) =>
+      supabase
+        .from("graders")
+        .select("submission_id, reviewed_at, block_scores")
+        .in("submission_id", batch)
+  );
+
+  const gradersByStudent = new Map<string, any[]>();
+  for (const submission of submitted) {
+    const grader = graders.find((g) => g.submission_id === submission.id);
+    if (!grader) continue;
+    gradersByStudent.set(submission.student_id, [
+      ...(gradersByStudent.get(submission.student_id) || []),
+      grader,
+    ]);
+  }
+  const submittedStudents = new Set(submitted.map((s) => s.student_id));
+
+  const progress = summarizeProgress(rows || [], (row) => {
+    if (row.student_id) {
+      return {
+        assigned: 1,
+        completed: (gradersByStudent.get(row.student_id) || []).some((g) => g.reviewed_at)
+          ? 1
+          : 0,
+      };
+    }
+    let completed = 0;
+    for (const studentId of submittedStudents) {
+      const done = (gradersByStudent.get(studentId) || []).some((g) => {
+        const score = g.block_scores?.[row.block_id!];
+        return g.reviewed_at || (score && !score.needsReview);
+      });
+      if (done) completed++;
+    }
+    return { assigned: submittedStudents.size, completed };
+  });
+
+  const isBlind = isBlindGradingActive(assignment.settings);
+  return {
+    assignments: (rows || []).map((row) =>
+      isBlind && row.student_id
+        ? { ...row, student_id: getBlindStudentKey(assignment.id, row.student_id) }
+        : row
+    ),
+    staff: staff.map((member: any) => ({
+      id: member.user_id,
+      role: member.role,
+      section_id: member.section_id,
+      first_name: member.user?.first_name ?? null,
+      last_name: member.user?.last_name ?? null,
+    })),
+    progress,
+  };
+}
+
+/**
+ * GET /assignment/:id/grading-assignments
+ * Who grades which students or questions, with each grader's progress
+ */
+router.get(
+  "/assignment/:id/grading-assignments",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadAssignment(req, res, false);
+      if (!assignment) return;
+
+      res.json(await loadDistribution(assignment));
+    } catch (error: any) {
+      logger.error("Error loading grading assignments", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to load grading assignments"));
+    }
+  }
+);
+
+/**
+ * POST /assignment/:id/grading-assignments/distribute
+ * Replace the assignment's distribution. Body: { strategy: "even" |
+ * "section" | "block", assignee_ids, block_ids (for "block") }. Even and
+ * by-section distributions cover the students who have submitted.
+ */
+router.post(
+  "/assignment/:id/grading-assignments/distribute",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadAssignment(req, res, true);
+      if (!assignment) return;
+
+      const staff = await getEnrollments(assignment.course_id, STAFF_ROLES);
+      const blockIds = DISTRIBUTABLE_BLOCKS.flatMap(([nodeType, dataAttr]) =>
+        collectBlockData(assignment.content, nodeType, dataAttr).map((data) => data.id)
+      );
+
+      const validationError = validateDistributionRequest(
+        req.body,
+        new Set(staff.map((member) => member.user_id)),
+        new Set(blockIds)
+      );
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_DISTRIBUTION", validationError));
+        return;
+      }
+
+      const strategy: DistributionStrategy = req.body.strategy;
+      const assigneeIds: string[] = Array.from(new Set<string>(req.body.assignee_ids));
+
+      let rows: GradingAssignmentRow[];
+      if (strategy === "block") {
+        // Keep document order regardless of the order the client sent
+        const chosen = new Set<string>(req.body.block_ids);
+        rows = distributeBlocks(
+          blockIds.filter((id) => chosen.has(id)),
+          assigneeIds
+        );
+      } else {
+        // Only students who turned something in need a grader
+        const [enrolled, submissions] = await Promise.all([
+          getEnrollments(assignment.course_id, [UserRole.STUDENT]),
+          fetchAllPages(() =>
+            supabase
+              .from("submissions")
+              .select("student_id, status")
+              .eq("assignment_id", assignment.id)
+          ),
+        ]);
+        const submitters = new Set(
+          submissions.filter((s) => SUBMITTED_STATUSES.has(s.status)).map((s) => s.student_id)
+        );
+        const students = enrolled.filter((s) => submitters.has(s.user_id));
+        rows =
+          strategy === "section"
+            ? distributeBySection(
+                students.map((s) => ({ id: s.user_id, section_id: s.section_id })),
+                staff
+                  .filter((member) => assigneeIds.includes(member.user_id))
+                  .map((member) => ({ id: member.user_id, section_id: member.section_id }))
+              )
+            : distributeEvenly(
+                students.map((s) => s.user_id),
+                assigneeIds
+              );
+      }
+
+      // One call so a failed insert can't leave the assignment undistributed
+      const { error: replaceError } = await supabase.rpc("replace_grading_assignments", {
+        p_assignment_id: assignment.id,
+        p_course_id: assignment.course_id,
+        p_rows: rows,
+      });
+      if (replaceError) {
+        throw replaceError;
+      }
+
+      res.json(await loadDistribution(assignment));
+    } catch (error: any) {
+      logger.error("Error distributing grading", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to distribute grading"));
+    }
+  }
+);
+
+/**
+ * POST /assignment/:id/grading-assignments/reassign
+ * Move everything assigned to one grader onto others, e.g. when a TA drops
+ * out. Body: { from_assignee_id, to_assignee_ids? } — defaults to the
+ * other graders already in the distribution.
+ */
+router.post(
+  "/assignment/:id/grading-assignments/reassign",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadAssignment(req, res, true);
+      if (!assignment) return;
+
+      const { from_assignee_id, to_assignee_ids } = req.body;
+      if (typeof from_assignee_id !== "string") {
+        res
+          .status(400)
+          .json(errorBody(req, "INVALID_REASSIGNMENT", "from_assignee_id is required"));
+        return;
+      }
+
+      const { data: rows, error: rowsError } = await supabase
+        .from("grading_assignments")
+        .select("id, assignee_id, student_id, block_id")
+        .eq("assignment_id", assignment.id)
+        .order("created_at", { ascending: true });
+      if (rowsError) {
+        throw rowsError;
+      }
+
+      let targets: string[];
+      if (Array.isArray(to_assignee_ids) && to_assignee_ids.length > 0) {
+        const staffIds = new Set(
+          (await getEnrollments(assignment.course_id, STAFF_ROLES)).map((m) => m.user_id)
+        );
+        if (to_assignee_ids.some((id: unknown) => typeof id !== "string" || !staffIds.has(id))) {
+          res
+            .status(400)
+            .json(
+              errorBody(
+                req,
+                "INVALID_REASSIGNMENT",
+                "Graders must be instructors or TAs of this course"
+              )
+            );
+          return;
+        }
+        targets = to_assignee_ids;
+      } else {
+        targets = Array.from(new Set((rows || []).map((row) => row.assignee_id)));
+      }
+
+      const moved = reassignRows(rows || [], from_assignee_id, targets);
+      if (moved.length === 0 && (rows || []).some((row) => row.assignee_id === from_assignee_id)) {
+        res
+          .status(400)
+          .json(
+            errorBody(req, "INVALID_REASSIGNMENT", "There is no other grader to reassign to")
+          );
+        return;
+      }
+
+      const idsByAssignee = new Map<string, string[]>();
+      for (const row of moved as (GradingAssignmentRow & { id: string })[]) {
+        idsByAssignee.set(row.assignee_id, [...(idsByAssignee.get(row.assignee_id) || []), row.id]);
+      }
+      for (const [assigneeId, ids] of idsByAssignee) {
+        const { error } = await supabase
+          .from("grading_assignments")
+          .update({ assignee_id: assigneeId })
+          .in("id", ids);
+        if (error) {
+          throw error;
+        }
+      }
+
+      res.json(await loadDistribution(assignment));
+    } catch (error: any) {
+      logger.error("Error reassigning grading", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to reassign grading"));
+    }
+  }
+);
+
+/**
+ * DELETE /assignment/:id/grading-assignments
+ * Remove the distribution so every grader sees the whole queue again
+ */
+router.delete(
+  "/assignment/:id/grading-assignments",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadAssignment(req, res, true);
+      if (!assignment) return;
+
+      const { error } = await supabase
+        .from("grading_assignments")
+        .delete()
+        .eq("assignment_id", assignment.id);
+      if (error) {
+        throw error;
+      }
+
+      res.status(204).send();
+    } catch (error: any) {
+      logger.error("Error clearing grading assignments", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to clear grading assignments"));
+    }
+  }
+);
+
+export default router;
@@ -3,6 +3,17 @@ import { asyncHandler } from "../middleware/errorHandler";
 import { supabase, authenticateToken } from "../middleware/auth";
 import { getCoursePermissions, getUserCourseRole } from "../middleware/authorization";
 import { UserRole } from "../types/enums";
+import { findBlockData } from "../utils/blockContent";
+import { IDENetworkPolicy, resolveNetworkPolicy } from "../services/ideNetworkPolicy";
+import { canAccessBucket, S3Bucket } from "./s3buckets";
+import {
+  DEFAULT_IDE_RESOURCE_PROFILE,
+  IDE_RESOURCE_PROFILES,
+  IDEContainerResources,
+  IDEResourceCaps,
+  IDEResourceProfileName,
+  resolveResourceProfile,
+} from "../services/ideResourceProfiles";
 
 const router = express.Router();
 
@@ -12,6 +23,8 @@ interface TestResult {
   type: string;
   points: number;
   passed: boolean;
+  status?: string; // passed, failed, timeout, memoryLimit, runtimeError, compileError or error
+  hidden?: boolean;
   output?: string;
   expected?: string;
   actual?: string;
@@ -34,6 +47,35 @@ interface IDETestRun {
   created_at: string;
 }
 
+/**
+ * Strip output from hidden test results before a student sees their own runs.
+ * Runs made while grading include hidden tests, whose output can reveal the
+ * expected answer.
+ */
+function redactHiddenResults(testRun: IDETestRun): IDETestRun {
+  if (!Array.isArray(testRun.results)) return testRun;
+  return {
+    ...testRun,
+    results: testRun.results.map((result) =>
+      result.hidden
+        ? { ...result, output: undefined, expected: undefined, actual: undefined, error: undefined }
+        : result
+    ),
+  };
+}
+
+// Place in the orchestration's waiting room while the IDE cluster is full
+interface AdmissionTicket {
+  id: string;
+  status: "waiting" | "starting" | "admitted" | "failed" | "cancelled" | "expired";
+  priority: "high" | "normal";
+  position: number | null;
+  etaSeconds: number | null;
+  enqueuedAt: string;
+  container?: ContainerResponse;
+  error?: string;
+}
+
 // Types for IDE API responses
 interface ContainerResponse {
   id: string;
@@ -47,6 +89,8 @@ interface ContainerResponse {
   };
   message?: string;
   isPreWarmed?: boolean;
+  queued?: boolean;
+  ticket?: AdmissionTicket;
   error?: {
     message?: string;
     [key: string]: unknown;
@@ -56,8 +100,9 @@ interface ContainerResponse {
 // IDE orchestration API base URL
 // Can be overridden by X-IDE-Environment header (local/production)
 const getIDEApiBaseUrl = (req: Request): string => {
-  // Check for X-IDE-Environment header (set by frontend when toggling local mode)
-  const ideEnvironment = req.headers["x-ide-environment"];
+  // Check for X-IDE-Environment header (set by frontend when toggling local mode).
+  // EventSource can't set headers, so streams pass ?environment=local instead
+  const ideEnvironment = req.headers["x-ide-environment"] || req.query.environment;
   if (ideEnvironment === "local") {
     // Use localhost (resolves to IPv6 ::1 on macOS, which Traefik listens on)
     // If IPv4 is needed, use 127.0.0.1, but Traefik must be configured to listen on IPv4
@@ -83,14 +128,136 @@ const getAWSCredentials = () => {
   return null;
 };
 
+/**
+ * Resource caps set by the organization a course belongs to, if any
+ */
+const getCourseResourceCaps = async (courseId: string): Promise<IDEResourceCaps | null> => {
+  const { data: course } = await supabase
+    .from("courses")
+    .select("organization_id")
+    .eq("id", courseId)
+    .single();
+  if (!course?.organization_id) return null;
+
+  const { data: organization } = await supabase
+    .from("organizations")
+    .select("settings")
+    .eq("id", course.organization_id)
+    .single();
+  return organization?.settings?.ideResourceCaps ?? null;
+};
+
+/**
+ * Admission priority, container resources and network policy for a
+ * container on a bucket, from the bucket's own assignment and block rather
+ * than anything the client sends. Timed and lockdown assignments are let in
+ * first when the IDE cluster is at capacity. Resources are only sent when
+ * they differ from the default profile, so default starts can still be
+ * served from the pre-warmed pool. Fails closed: when the assignment can't
+ * be loaded the container gets no network access.
+ */
+const getStartOptions = async (
+  bucket: S3Bucket
+): Promise<{
+  priority: "high" | "normal";
+  resources?: IDEContainerResources;
+  networkPolicy?: IDENetworkPolicy;
+}> => {
+  // Template and scratch buckets aren't tied to an assignment
+  if (!bucket.assignment_id) return { priority: "normal" };
+  const { data: assignment, error } = await supabase
+    .from("assignments")
+    .select("course_id, content, is_lockdown, settings")
+    .eq("id", bucket.assignment_id)
+    .single();
+  if (error || !assignment) {
+    console.error(`[IDE] Failed to load assignment ${bucket.assignment_id} for bucket ${bucket.id}, denying network access:`, error);
+    return { priority: "normal", networkPolicy: { mode: "none" } };
+  }
+
+  const priority = assignment.is_lockdown || assignment.settings?.timeLimitSeconds ? "high" : "normal";
+  const networkPolicy = resolveNetworkPolicy(assignment);
+  const block = bucket.block_id
+    ? findBlockData<{ settings?: { resource_profile?: string } }>(
+        assignment.content,
+        "ideBlock",
+        "ideData",
+        bucket.block_id
+      )
+    : null;
+  const profile = resolveResourceProfile(
+    block?.settings?.resource_profile,
+    await getCourseResourceCaps(assignment.course_id)
+  );
+
+  if (profile.name === DEFAULT_IDE_RESOURCE_PROFILE && !profile.capped) {
+    return { priority, networkPolicy };
+  }
+  return { priority, resources: profile.resources, networkPolicy };
+};
+
+/**
+ * GET /api/ide-blocks/resource-profiles?courseId=
+ * Resource profiles an IDE block in the course can use, after the
+ * organization's caps
+ */
+router.get(
+  "/resource-profiles",
+  authenticateToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id: userId, isAdmin } = req.user!;
+    const { courseId } = req.query;
+
+    if (!courseId || typeof courseId !== "string") {
+      return res.status(400).json({
+        error: {
+          code: "INVALID_REQUEST",
+          message: "courseId is required",
+        },
+      });
+    }
+
+    const permissions = await getCoursePermissions(userId, courseId, isAdmin);
+    if (!isAdmin && !permissions.canWrite) {
+      return res.status(403).json({
+        error: {
+          code: "FORBIDDEN",
+          message: "You don't have permission to edit IDE blocks in this course",
+        },
+      });
+    }
+
+    const caps = await getCourseResourceCaps(courseId);
+    const profiles = (Object.keys(IDE_RESOURCE_PROFILES) as IDEResourceProfileName[]).map(
+      (name) => {
+        const resolved = resolveResourceProfile(name, caps);
+        return {
+          name,
+          label: IDE_RESOURCE_PROFILES[name].label,
+          description: IDE_RESOURCE_PROFILES[name].description,
+          // A disallowed profile resolves to a different one
+          allowed: resolved.name === name,
+          capped: resolved.capped,
+          resources: resolved.resources,
+        };
+      }
+    );
+
+    return res.json({ defaultProfile: DEFAULT_IDE_RESOURCE_PROFILE, caps, profiles });
+  })
+);
+
 /**
  * POST /api/ide-blocks/start-container
- * Forward container start request to ide.classla.org
+ * Forward container start request to ide.classla.org. Responds 202 with an
+ * admission ticket when the request has to wait for capacity.
  */
 router.post(
   "/start-container",
+  authenticateToken,
   asyncHandler(async (req: Request, res: Response) => {
-    const { s3Bucket, s3BucketId, s3Region, userId } = req.body;
+    const { id: userId, isAdmin } = req.user!;
+    const { s3Bucket, s3BucketId, s3Region } = req.body;
 
     if (!s3Bucket || typeof s3Bucket !== "string") {
       return res.status(400).json({
@@ -110,6 +277,43 @@ router.post(
       });
     }
 
+    // Start options follow the bucket the container will mount, so look it
+    // up by name rather than trusting the other request fields
+    const { data: bucket, error: bucketError } = await supabase
+      .from("s3_buckets")
+      .select("*")
+      .eq("bucket_name", s3Bucket)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (bucketError) {
+      console.error("[IDE] Failed to look up bucket for container start:", bucketError);
+      return res.status(503).json({
+        error: {
+          code: "SERVICE_UNAVAILABLE",
+          message: "Failed to look up the IDE bucket",
+        },
+      });
+    }
+
+    if (!bucket || (s3BucketId !== undefined && s3BucketId !== bucket.id)) {
+      return res.status(404).json({
+        error: {
+          code: "BUCKET_NOT_FOUND",
+          message: "IDE bucket not found",
+        },
+      });
+    }
+
+    if (!(await canAccessBucket(userId, bucket as S3Bucket, isAdmin || false, "read"))) {
+      return res.status(403).json({
+        error: {
+          code: "FORBIDDEN",
+          message: "You don't have access to this IDE bucket",
+        },
+      });
+    }
+
     // Forward request to IDE orchestration API
     // Declare outside try block so it's accessible in catch block
     let ideApiBaseUrl: string = getIDEApiBaseUrl(req);
@@ -122,11 +326,21 @@ router.post(
       // Get AWS credentials to pass to IDE orchestration service
       const awsCredentials = getAWSCredentials();
       
+      const { priority, resources, networkPolicy } = await getStartOptions(bucket as S3Bucket);
+      if (networkPolicy && networkPolicy.mode !== "full") {
+        console.log(
+          `[IDE] Network policy "${networkPolicy.mode}" for user ${userId} on assignment ${bucket.assignment_id}` +
+            (networkPolicy.allowlist ? ` (allowlist: ${networkPolicy.allowlist.join(", ")})` : "")
+        );
+      }
       const requestBody: any = {
         s3Bucket,
-        s3BucketId, // Pass bucketId if provided
+        s3BucketId: bucket.id,
         s3Region,
         userId,
+        priority,
+        resources,
+        networkPolicy,
       };
       
       // Add AWS credentials if available (needed for S3 bucket validation)
@@ -194,6 +408,14 @@ router.post(
         });
       }
 
+      if (response.status === 202 && data.queued) {
+        return res.status(202).json({
+          queued: true,
+          ticket: data.ticket,
+          message: data.message || "Waiting for IDE capacity",
+        });
+      }
+
       // Return the container info
       // Use the orchestration's status code (200 for reused, 201 for new)
       return res.status(response.status).json({
@@ -244,6 +466,123 @@ router.post(
   })
 );
 
+/**
+ * GET /api/ide-blocks/admission/:ticketId
+ * Position, ETA and outcome of the signed-in user's queued container start
+ */
+router.get(
+  "/admission/:ticketId",
+  authenticateToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ticketId } = req.params;
+    const ticketQuery = `?userId=${encodeURIComponent(req.user!.id)}`;
+    const ideApiBaseUrl = getIDEApiBaseUrl(req);
+    try {
+      const response = await fetch(`${ideApiBaseUrl}/containers/admission/${ticketId}${ticketQuery}`, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${IDE_API_KEY}`,
+        },
+      });
+      const data = await response.json().catch(() => null);
+      return res.status(response.status).json(data);
+    } catch (error: any) {
+      console.error(`[IDE Blocks] Failed to check admission ticket ${ticketId}:`, error.message);
+      return res.status(503).json({
+        error: {
+          code: "SERVICE_UNAVAILABLE",
+          message: "IDE orchestration service is unavailable",
+        },
+      });
+    }
+  })
+);
+
+/**
+ * GET /api/ide-blocks/admission/:ticketId/stream
+ * Server-Sent Events stream of the signed-in user's queued container start,
+ * proxied from the orchestration service
+ */
+router.get(
+  "/admission/:ticketId/stream",
+  authenticateToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ticketId } = req.params;
+    const ticketQuery = `?userId=${encodeURIComponent(req.user!.id)}`;
+    const ideApiBaseUrl = getIDEApiBaseUrl(req);
+
+    // Set up SSE headers
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+
+    try {
+      const response = await fetch(`${ideApiBaseUrl}/containers/admission/${ticketId}/stream${ticketQuery}`, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${IDE_API_KEY}`,
+          Accept: "text/event-stream",
+        },
+      });
+
+      const reader = response.ok ? response.body?.getReader() : undefined;
+      if (!reader) {
+        res.write(
+          `data: ${JSON.stringify({ type: "error", message: "Admission ticket not found or expired" })}\n\n`
+        );
+        res.end();
+        return;
+      }
+
+      // Handle client disconnect
+      req.on("close", () => {
+        reader.cancel().catch(() => {});
+      });
+
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        res.write(decoder.decode(value));
+      }
+      res.end();
+    } catch (error: any) {
+      console.error(`[IDE Blocks] Admission stream error for ticket ${ticketId}:`, error.message);
+      res.write(`data: ${JSON.stringify({ type: "error", message: "Lost connection to the IDE service" })}\n\n`);
+      res.end();
+    }
+  })
+);
+
+/**
+ * DELETE /api/ide-blocks/admission/:ticketId
+ * Leave the IDE waiting room (own tickets only)
+ */
+router.delete(
+  "/admission/:ticketId",
+  authenticateToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ticketId } = req.params;
+    const ticketQuery = `?userId=${encodeURIComponent(req.user!.id)}`;
+    const ideApiBaseUrl = getIDEApiBaseUrl(req);
+    try {
+      const response = await fetch(`${ideApiBaseUrl}/containers/admission/${ticketId}${ticketQuery}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${IDE_API_KEY}`,
+        },
+      });
+      const data = await response.json().catch(() => null);
+      return res.status(response.status).json(data);
+    } catch (error: any) {
+      console.warn(`[IDE Blocks] Failed to cancel admission ticket ${ticketId}:`, error.message);
+      // The ticket expires on its own once nobody asks about it
+      return res.status(200).json({ message: "Cancel attempted" });
+    }
+  })
+);
+
 /**
  * POST /api/ide-blocks/stop-container/:id
  * Stop a running container (used before restart to force a fresh container)
@@ -633,7 +972,12 @@ router.get(
       });
     }
 
-    return res.json(testRuns || []);
+    const canSeeHiddenOutput = isAdmin || targetStudentId !== userId;
+    return res.json(
+      canSeeHiddenOutput
+        ? testRuns || []
+        : (testRuns || []).map((run: IDETestRun) => redactHiddenResults(run))
+    );
   })
 );
 
@@ -734,7 +1078,8 @@ router.get(
       });
     }
 
-    return res.json(testRun);
+    const canSeeHiddenOutput = isAdmin || targetStudentId !== userId;
+    return res.json(canSeeHiddenOutput ? testRun : redactHiddenResults(testRun));
   })
 );
 
@@ -0,0 +1,160 @@
+import { Router, Request, Response } from "express";
+import { supabase } from "../middleware/auth";
+import { asyncHandler } from "../middleware/errorHandler";
+import {
+  CourseMeetingTime,
+  DUE_DATE_RAMP_MS,
+  IdeDemandEvent,
+  expandMeetingTimes,
+  groupDueDates,
+} from "../services/ideDemand";
+import { logger } from "../utils/logger";
+import { fetchAllPages } from "../utils/supabasePaginate";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/ide-demand/schedule?from=<iso>&to=<iso>
+ * Upcoming events that drive IDE demand: class meetings and IDE assignment
+ * due dates, with how many students each one may bring. Polled by the IDE
+ * orchestrator to size its pre-warmed pool (service token auth).
+ */
+router.get(
+  "/ide-demand/schedule",
+  asyncHandler(async (req: Request, res: Response) => {
+    const serviceToken = req.headers["x-container-service-token"] as string;
+
+    // Verify service token
+    const expectedToken = process.env.CONTAINER_SERVICE_TOKEN;
+    if (!expectedToken || serviceToken !== expectedToken) {
+      return res.status(401).json({ error: "Invalid or missing service token" });
+    }
+
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date();
+    const to = req.query.to
+      ? new Date(String(req.query.to))
+      : new Date(from.getTime() + DEFAULT_WINDOW_MS);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return res
+        .status(400)
+        .json(errorBody(req, "INVALID_WINDOW", "from and to must be ISO dates with from before to"));
+    }
+    if (to.getTime() - from.getTime() > MAX_WINDOW_MS) {
+      return res
+        .status(400)
+        .json(errorBody(req, "INVALID_WINDOW", "The schedule window can be at most 7 days"));
+    }
+
+    const events: IdeDemandEvent[] = [];
+
+    // Class meetings
+    const { data: courses, error: coursesError } = await supabase
+      .from("courses")
+      .select("id, settings")
+      .is("deleted_at", null)
+      .not("settings->meetingTimes", "is", null);
+
+    if (coursesError) {
+      logger.error("Failed to load course meeting times", { error: coursesError.message });
+      return res
+        .status(500)
+        .json(errorBody(req, "SCHEDULE_FETCH_FAILED", "Failed to load course meeting times"));
+    }
+
+    const meetingCourses = (courses || []).filter(
+      (course) => Array.isArray(course.settings?.meetingTimes) && course.settings.meetingTimes.length > 0
+    );
+
+    if (meetingCourses.length > 0) {
+      let enrollments: { course_id: string }[];
+      try {
+        enrollments = await fetchAllPages(() =>
+          supabase
+            .from("course_enrollments")
+            .select("course_id")
+            .eq("role", "student")
+            .in(
+              "course_id",
+              meetingCourses.map((course) => course.id)
+            )
+            .order("id")
+        );
+      } catch (enrollmentsError: any) {
+        logger.error("Failed to load enrollments for IDE demand", { error: enrollmentsError.message });
+        return res
+          .status(500)
+          .json(errorBody(req, "SCHEDULE_FETCH_FAILED", "Failed to load course enrollments"));
+      }
+
+      const studentCounts = new Map<string, number>();
+      for (const enrollment of enrollments) {
+        studentCounts.set(enrollment.course_id, (studentCounts.get(enrollment.course_id) || 0) + 1);
+      }
+
+      for (const course of meetingCourses) {
+        const students = studentCounts.get(course.id) || 0;
+        if (students === 0) continue;
+        const meetings = course.settings.meetingTimes as CourseMeetingTime[];
+        for (const occurrence of expandMeetingTimes(meetings, from, to)) {
+          events.push({
+            kind: "class_meeting",
+            course_id: course.id,
+            starts_at: occurrence.startsAt.toISOString(),
+            ends_at: occurrence.endsAt.toISOString(),
+            expected_users: students,
+          });
+        }
+      }
+    }
+
+    // Due dates of live assignments that contain IDE blocks, counting only
+    // students they are published to
+    let assignments: any[];
+    try {
+      assignments = await fetchAllPages(() =>
+        supabase
+          .from("assignments")
+          .select("id, course_id, due_dates_map, publish_times, courses!inner(deleted_at)")
+          .is("deleted_at", null)
+          .is("courses.deleted_at", null)
+          .like("content", '%"ideBlock"%')
+          .order("id")
+      );
+    } catch (assignmentsError: any) {
+      logger.error("Failed to load IDE assignments for demand schedule", {
+        error: assignmentsError.message,
+      });
+      return res
+        .status(500)
+        .json(errorBody(req, "SCHEDULE_FETCH_FAILED", "Failed to load assignment due dates"));
+    }
+
+    for (const assignment of assignments) {
+      const groups = groupDueDates(assignment.due_dates_map, from, to, assignment.publish_times || {});
+      for (const group of groups) {
+        events.push({
+          kind: "due_date",
+          course_id: assignment.course_id,
+          assignment_id: assignment.id,
+          starts_at: new Date(group.dueAt.getTime() - DUE_DATE_RAMP_MS).toISOString(),
+          ends_at: group.dueAt.toISOString(),
+          expected_users: group.users,
+        });
+      }
+    }
+
+    events.sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+
+    return res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      events,
+    });
+  })
+);
+
+export default router;
@@ -12,6 +12,7 @@ import {
 } from "../middleware/authorization";
 import { OrganizationRole } from "../types/enums";
 import { Organization, OrganizationMembership } from "../types/entities";
+import { validateResourceCaps } from "../services/ideResourceProfiles";
 
 const router = Router();
 
@@ -253,7 +254,7 @@ router.put(
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { name } = req.body;
+      const { name, settings } = req.body;
 
       // Check if organization exists
       const { data: existingOrg, error: existingError } = await supabase
@@ -290,6 +291,25 @@ router.put(
         }
         updateData.name = name.trim();
       }
+      if (settings !== undefined) {
+        const capsError =
+          settings === null || typeof settings !== "object" || Array.isArray(settings)
+            ? "Settings must be an object"
+            : validateResourceCaps(settings.ideResourceCaps);
+        if (capsError) {
+          res.status(400).json({
+            error: {
+              code: "INVALID_SETTINGS",
+              message: capsError,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+        // Merge so clients can update one setting at a time
+        updateData.settings = { ...(existingOrg.settings || {}), ...settings };
+      }
 
       if (Object.keys(updateData).length === 0) {
         res.status(400).json({
@@ -0,0 +1,180 @@
+import { Router, Request, Response } from "express";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getUserCourseRole } from "../middleware/authorization";
+import { UserRole } from "../types/enums";
+import {
+  canViewPollResults,
+  getPollBlocks,
+  getPollSelection,
+  isPollClosed,
+  tallyPollVotes,
+} from "../services/poll";
+import { fetchAllPages } from "../utils/supabasePaginate";
+import { logger } from "../utils/logger";
+
+const router = Router();
+
+/**
+ * GET /assignment/:assignmentId/polls/:blockId/results
+ * Tally the latest answer of every enrolled student for a poll block.
+ *
+ * Students see results for their own section (or the whole course if they
+ * have none), gated by the poll's showResults setting. Staff always see
+ * results and may pass ?section_id= to narrow them to one section.
+ */
+router.get(
+  "/assignment/:assignmentId/polls/:blockId/results",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { assignmentId, blockId } = req.params;
+      const { section_id } = req.query;
+      const { id: userId, isAdmin } = req.user!;
+
+      const { data: assignment, error: assignmentError } = await supabase
+        .from("assignments")
+        .select("id, course_id, content, publish_times")
+        .eq("id", assignmentId)
+        .is("deleted_at", null)
+        .single();
+
+      if (assignmentError || !assignment) {
+        res.status(404).json({
+          error: {
+            code: "ASSIGNMENT_NOT_FOUND",
+            message: "Assignment not found",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const role = isAdmin
+        ? UserRole.ADMIN
+        : await getUserCourseRole(userId, assignment.course_id);
+      const isStaff =
+        role === UserRole.ADMIN ||
+        role === UserRole.INSTRUCTOR ||
+        role === UserRole.TEACHING_ASSISTANT;
+
+      const publishTime = (assignment.publish_times || {})[userId];
+      const isPublished = !!publishTime && new Date(publishTime) <= new Date();
+
+      if (!role || (!isStaff && !isPublished)) {
+        res.status(403).json({
+          error: {
+            code: "INSUFFICIENT_PERMISSIONS",
+            message: "Not authorized to view this poll",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const poll = getPollBlocks(assignment.content).find(
+        (p) => p.id === blockId
+      );
+      if (!poll) {
+        res.status(404).json({
+          error: {
+            code: "POLL_NOT_FOUND",
+            message: "Poll block not found in assignment",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const enrollments = await fetchAllPages(() =>
+        supabase
+          .from("course_enrollments")
+          .select("user_id, section_id")
+          .eq("course_id", assignment.course_id)
+          .eq("role", UserRole.STUDENT)
+      );
+
+      // Students are scoped to their own section; staff choose one (or all)
+      let sectionId: string | null = null;
+      if (isStaff) {
+        sectionId =
+          typeof section_id === "string" && section_id !== "all"
+            ? section_id
+            : null;
+      } else {
+        sectionId =
+          enrollments.find((e: any) => e.user_id === userId)?.section_id ||
+          null;
+      }
+
+      const studentIds = new Set(
+        enrollments
+          .filter((e: any) => !sectionId || e.section_id === sectionId)
+          .map((e: any) => e.user_id)
+      );
+
+      // Latest submission per student holds their current answer
+      const submissions = await fetchAllPages(() =>
+        supabase
+          .from("submissions")
+          .select("student_id, values, created_at")
+          .eq("assignment_id", assignmentId)
+          .order("created_at", { ascending: false })
+      );
+
+      const latestAnswers = new Map<string, unknown>();
+      for (const submission of submissions) {
+        if (!latestAnswers.has(submission.student_id)) {
+          latestAnswers.set(submission.student_id, submission.values?.[blockId]);
+        }
+      }
+
+      const hasVoted =
+        getPollSelection(poll, latestAnswers.get(userId)).length > 0;
+      const isClosed = isPollClosed(poll);
+
+      if (!canViewPollResults(poll, { isStaff, hasVoted })) {
+        res.json({
+          visible: false,
+          canPresent: isStaff,
+          hasVoted,
+          isClosed,
+          sectionId,
+        });
+        return;
+      }
+
+      const tally = tallyPollVotes(
+        poll,
+        Array.from(studentIds).map((id) => latestAnswers.get(id))
+      );
+
+      res.json({
+        visible: true,
+        canPresent: isStaff,
+        hasVoted,
+        isClosed,
+        sectionId,
+        counts: tally.counts,
+        totalResponses: tally.totalResponses,
+        totalStudents: studentIds.size,
+      });
+    } catch (error) {
+      logger.error("Error tallying poll results", {
+        error: error instanceof Error ? error.message : "Unknown",
+      });
+      res.status(500).json({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to load poll results",
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
+
+export default router;
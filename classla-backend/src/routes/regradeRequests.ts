@@ -0,0 +1,417 @@
+import { Router, Request, Response } from "express";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getCoursePermissions } from "../middleware/authorization";
+import {
+  REGRADE_STATUSES,
+  isSameRegradeTarget,
+  validateRegradeRequest,
+  validateRegradeResolution,
+} from "../services/regradeRequests";
+import {
+  getBlindStudentKey,
+  getStudentPseudonym,
+  isBlindGradingActive,
+} from "../services/blindGrading";
+import { getIO } from "../services/websocket";
+import { emitGraderReviewUpdate } from "../services/courseTreeSocket";
+import { recordScoreChanges } from "./graders";
+import { logger } from "../utils/logger";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+/**
+ * Helper: whether the user may work the regrade queue of a course
+ */
+async function canResolveRegrades(
+  userId: string,
+  courseId: string,
+  isAdmin?: boolean
+): Promise<boolean> {
+  const permissions = await getCoursePermissions(userId, courseId, isAdmin);
+  return permissions.canGrade || permissions.canManage;
+}
+
+/**
+ * Helper: replace student IDs with blind keys while an assignment is graded
+ * blind, for responses that go to graders
+ */
+async function hideBlindStudentIds<T extends { student_id: string }>(
+  assignmentId: string,
+  requests: T[]
+): Promise<T[]> {
+  const { data: assignment, error } = await supabase
+    .from("assignments")
+    .select("settings")
+    .eq("id", assignmentId)
+    .single();
+  if (error) {
+    throw error;
+  }
+  if (!isBlindGradingActive(assignment?.settings)) {
+    return requests;
+  }
+  return requests.map((request) => ({
+    ...request,
+    student_id: getBlindStudentKey(assignmentId, request.student_id),
+  }));
+}
+
+/**
+ * GET /submission/:submissionId/regrade-requests
+ * Regrade requests on a submission (its student or course graders)
+ */
+router.get(
+  "/submission/:submissionId/regrade-requests",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { submissionId } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+
+      const { data: submission, error: submissionError } = await supabase
+        .from("submissions")
+        .select("id, student_id, course_id, assignment_id")
+        .eq("id", submissionId)
+        .single();
+
+      if (submissionError || !submission) {
+        res.status(404).json(errorBody(req, "SUBMISSION_NOT_FOUND", "Submission not found"));
+        return;
+      }
+
+      if (
+        submission.student_id !== userId &&
+        !(await canResolveRegrades(userId, submission.course_id, isAdmin))
+      ) {
+        res
+          .status(403)
+          .json(
+            errorBody(
+              req,
+              "ACCESS_DENIED",
+              "Can only view regrade requests for own submissions or need grading permissions"
+            )
+          );
+        return;
+      }
+
+      const { data: requests, error } = await supabase
+        .from("regrade_requests")
+        .select("*")
+        .eq("submission_id", submissionId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      res.json(
+        submission.student_id === userId
+          ? requests || []
+          : await hideBlindStudentIds(submission.assignment_id, requests || [])
+      );
+    } catch (error: any) {
+      logger.error("Error listing regrade requests", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to list regrade requests"));
+    }
+  }
+);
+
+/**
+ * POST /submission/:submissionId/regrade-requests
+ * Student disputes the score of one block or rubric item on a returned grade
+ */
+router.post(
+  "/submission/:submissionId/regrade-requests",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { submissionId } = req.params;
+      const { id: userId } = req.user!;
+      const { block_id, rubric_item_index, reason } = req.body;
+
+      const { data: submission, error: submissionError } = await supabase
+        .from("submissions")
+        .select("id, student_id, course_id, assignment_id")
+        .eq("id", submissionId)
+        .single();
+
+      if (submissionError || !submission) {
+        res.status(404).json(errorBody(req, "SUBMISSION_NOT_FOUND", "Submission not found"));
+        return;
+      }
+
+      if (submission.student_id !== userId) {
+        res
+          .status(403)
+          .json(
+            errorBody(req, "ACCESS_DENIED", "Can only request regrades for your own submissions")
+          );
+        return;
+      }
+
+      const { data: grader } = await supabase
+        .from("graders")
+        .select("id, reviewed_at, block_scores")
+        .eq("submission_id", submissionId)
+        .maybeSingle();
+
+      if (!grader?.reviewed_at) {
+        res
+          .status(409)
+          .json(
+            errorBody(req, "GRADE_NOT_RELEASED", "Regrades can be requested once the grade is returned")
+          );
+        return;
+      }
+
+      const { data: rubricSchema } = await supabase
+        .from("rubric_schemas")
+        .select("items")
+        .eq("assignment_id", submission.assignment_id)
+        .maybeSingle();
+
+      const validationError = validateRegradeRequest(
+        { block_id, rubric_item_index, reason },
+        {
+          blockIds: new Set(Object.keys(grader.block_scores || {})),
+          rubricItemCount: rubricSchema?.items?.length || 0,
+        }
+      );
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_REGRADE_REQUEST", validationError));
+        return;
+      }
+
+      const { data: openRequests } = await supabase
+        .from("regrade_requests")
+        .select("block_id, rubric_item_index")
+        .eq("submission_id", submissionId)
+        .eq("status", "open");
+
+      if ((openRequests || []).some((request) => isSameRegradeTarget(request, req.body))) {
+        res
+          .status(409)
+          .json(
+            errorBody(
+              req,
+              "DUPLICATE_REGRADE_REQUEST",
+              "There is already an open regrade request for this item"
+            )
+          );
+        return;
+      }
+
+      const { data: request, error } = await supabase
+        .from("regrade_requests")
+        .insert({
+          course_id: submission.course_id,
+          assignment_id: submission.assignment_id,
+          submission_id: submissionId,
+          student_id: userId,
+          block_id: block_id ?? null,
+          rubric_item_index: rubric_item_index ?? null,
+          reason: reason.trim(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      res.status(201).json(request);
+    } catch (error: any) {
+      logger.error("Error creating regrade request", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to create regrade request"));
+    }
+  }
+);
+
+/**
+ * GET /course/:courseId/regrade-requests
+ * Regrade queue for course staff. Optional ?status= (default open) and
+ * ?assignment_id= filters. Students on blind-graded assignments appear
+ * under their pseudonyms.
+ */
+router.get(
+  "/course/:courseId/regrade-requests",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { courseId } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+      const status = typeof req.query.status === "string" ? req.query.status : "open";
+      const { assignment_id } = req.query;
+
+      if (!(await canResolveRegrades(userId, courseId, isAdmin))) {
+        res
+          .status(403)
+          .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Not authorized to view regrade requests"));
+        return;
+      }
+
+      if (status !== "all" && !(REGRADE_STATUSES as readonly string[]).includes(status)) {
+        res
+          .status(400)
+          .json(errorBody(req, "INVALID_STATUS", `status must be all or one of: ${REGRADE_STATUSES.join(", ")}`));
+        return;
+      }
+
+      let query = supabase
+        .from("regrade_requests")
+        .select(
+          "*, student:users!regrade_requests_student_id_fkey(first_name, last_name), assignment:assignments(name, settings)"
+        )
+        .eq("course_id", courseId)
+        .order("created_at", { ascending: true });
+      if (status !== "all") {
+        query = query.eq("status", status);
+      }
+      if (typeof assignment_id === "string") {
+        query = query.eq("assignment_id", assignment_id);
+      }
+
+      const { data: requests, error } = await query;
+      if (error) {
+        throw error;
+      }
+
+      res.json(
+        (requests || []).map(({ assignment, student, ...request }: any) =>
+          isBlindGradingActive(assignment?.settings)
+            ? {
+                ...request,
+                student_id: getBlindStudentKey(request.assignment_id, request.student_id),
+                assignment_name: assignment?.name ?? null,
+                student_name: getStudentPseudonym(request.assignment_id, request.student_id),
+              }
+            : {
+                ...request,
+                assignment_name: assignment?.name ?? null,
+                student_name: [student?.first_name, student?.last_name].filter(Boolean).join(" "),
+              }
+        )
+      );
+    } catch (error: any) {
+      logger.error("Error listing course regrade requests", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to list regrade requests"));
+    }
+  }
+);
+
+/**
+ * PUT /regrade-requests/:id
+ * Accept or reject a regrade request. An accepted request may set a new
+ * score modifier on the grader, which is recorded in its score history.
+ */
+router.put(
+  "/regrade-requests/:id",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { id: userId, isAdmin } = req.user!;
+      const { status, response, score_modifier } = req.body;
+
+      const validationError = validateRegradeResolution(req.body);
+      if (validationError) {
+        res.status(400).json(errorBody(req, "INVALID_REGRADE_RESOLUTION", validationError));
+        return;
+      }
+
+      const { data: existing, error: existingError } = await supabase
+        .from("regrade_requests")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (existingError || !existing) {
+        res
+          .status(404)
+          .json(errorBody(req, "REGRADE_REQUEST_NOT_FOUND", "Regrade request not found"));
+        return;
+      }
+
+      if (!(await canResolveRegrades(userId, existing.course_id, isAdmin))) {
+        res
+          .status(403)
+          .json(errorBody(req, "INSUFFICIENT_PERMISSIONS", "Not authorized to resolve regrade requests"));
+        return;
+      }
+
+      if (existing.status !== "open") {
+        res
+          .status(409)
+          .json(errorBody(req, "REGRADE_REQUEST_RESOLVED", "This regrade request is already resolved"));
+        return;
+      }
+
+      if (status === "accepted" && score_modifier !== undefined && score_modifier !== null) {
+        const { data: grader, error: graderError } = await supabase
+          .from("graders")
+          .select("*")
+          .eq("submission_id", existing.submission_id)
+          .single();
+
+        if (graderError || !grader) {
+          res.status(404).json(errorBody(req, "GRADER_NOT_FOUND", "Grader not found"));
+          return;
+        }
+
+        const updates = { score_modifier: String(score_modifier) };
+        const { error: updateError } = await supabase
+          .from("graders")
+          .update(updates)
+          .eq("id", grader.id);
+        if (updateError) {
+          throw updateError;
+        }
+
+        await recordScoreChanges(grader, updates, grader.id, "regrade", userId, id);
+
+        try {
+          emitGraderReviewUpdate(getIO(), existing.course_id, {
+            assignmentId: existing.assignment_id,
+            studentId: existing.student_id,
+            submissionId: existing.submission_id,
+            reviewed: !!grader.reviewed_at,
+          });
+        } catch {}
+      }
+
+      const { data: request, error } = await supabase
+        .from("regrade_requests")
+        .update({
+          status,
+          response: typeof response === "string" ? response.trim() || null : null,
+          resolved_by: userId,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      const [visibleRequest] = await hideBlindStudentIds(request.assignment_id, [request]);
+      res.json(visibleRequest);
+    } catch (error: any) {
+      logger.error("Error resolving regrade request", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to resolve regrade request"));
+    }
+  }
+);
+
+export default router;
@@ -12,6 +12,10 @@ import {
   CreateRubricRequest,
   UpdateRubricRequest,
 } from "../types/api";
+import {
+  normalizeRubricComments,
+  validateRubricComments,
+} from "../services/commentBank";
 
 const router = Router();
 
@@ -762,7 +766,22 @@ router.get(
         throw rubricError;
       }
 
-      res.json(rubric);
+      const itemCount = rubric.rubric_schemas?.items?.length ?? rubric.values.length;
+      let comments = normalizeRubricComments(rubric.comments, itemCount);
+
+      // Students only see item comments once the grade has been returned
+      if (!permissions.canGrade && !permissions.canManage) {
+        const { data: grader } = await supabase
+          .from("graders")
+          .select("reviewed_at")
+          .eq("submission_id", submissionId)
+          .maybeSingle();
+        if (!grader?.reviewed_at) {
+          comments = comments.map(() => "");
+        }
+      }
+
+      res.json({ ...rubric, comments });
     } catch (error) {
       console.error("Error retrieving rubric:", error);
       res.status(500).json({
@@ -787,8 +806,12 @@ router.post(
   authenticateToken,
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { submission_id, rubric_schema_id, values }: CreateRubricRequest =
-        req.body;
+      const {
+        submission_id,
+        rubric_schema_id,
+        values,
+        comments,
+      }: CreateRubricRequest = req.body;
       const { id: userId, isAdmin } = req.user!;
 
       // Validate required fields
@@ -909,6 +932,24 @@ router.post(
         return;
       }
 
+      if (comments !== undefined) {
+        const commentsError = validateRubricComments(
+          comments,
+          rubricSchema.items.length
+        );
+        if (commentsError) {
+          res.status(400).json({
+            error: {
+              code: "INVALID_COMMENTS",
+              message: commentsError,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+      }
+
       // Check if rubric already exists for this submission
       const { data: existingRubric, error: existingError } = await supabase
         .from("rubrics")
@@ -936,6 +977,10 @@ router.post(
           submission_id,
           rubric_schema_id,
           values,
+          comments: normalizeRubricComments(
+            comments,
+            rubricSchema.items.length
+          ),
         })
         .select()
         .single();
@@ -985,7 +1030,7 @@ router.put(
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { values }: UpdateRubricRequest = req.body;
+      const { values, comments }: UpdateRubricRequest = req.body;
       const { id: userId, isAdmin } = req.user!;
 
       // Get the existing rubric
@@ -1097,9 +1142,28 @@ router.put(
         }
       }
 
+      const itemCount = (existingRubric.rubric_schemas as any).items.length;
+      if (comments !== undefined) {
+        const commentsError = validateRubricComments(comments, itemCount);
+        if (commentsError) {
+          res.status(400).json({
+            error: {
+              code: "INVALID_COMMENTS",
+              message: commentsError,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+      }
+
       // Prepare update data
       const updateData: Partial<Rubric> = {};
       if (values !== undefined) updateData.values = values;
+      if (comments !== undefined) {
+        updateData.comments = normalizeRubricComments(comments, itemCount);
+      }
 
       // Update the rubric
       const { data: updatedRubric, error: updateError } = await supabase
@@ -71,7 +71,7 @@ const s3Client = new S3Client({
 /**
  * S3 Bucket type for authorization checks
  */
-interface S3Bucket {
+export interface S3Bucket {
   id: string;
   bucket_name: string;
   user_id: string;
@@ -128,7 +128,7 @@ async function enableBucketVersioning(bucketName: string): Promise<void> {
  * @param requiredPermission - 'read' for viewing, 'write' for modifications
  * @returns Promise<boolean> - Whether access should be granted
  */
-const canAccessBucket = async (
+export const canAccessBucket = async (
   userId: string,
   bucket: S3Bucket,
   isAdmin: boolean,
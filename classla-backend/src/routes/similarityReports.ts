@@ -0,0 +1,505 @@
+import { Router, Request, Response } from "express";
+import {
+  S3Client,
+  ListObjectsV2Command,
+  GetObjectCommand,
+} from "@aws-sdk/client-s3";
+import { Readable } from "stream";
+import { supabase, authenticateToken } from "../middleware/auth";
+import { getCoursePermissions } from "../middleware/authorization";
+import {
+  SourceFile,
+  fingerprintFiles,
+  findMatchRegions,
+  rankSimilarPairs,
+} from "../services/similarity";
+import { getStudentPseudonym, isBlindGradingActive } from "../services/blindGrading";
+import { findBlockData } from "../utils/blockContent";
+import { logger } from "../utils/logger";
+import { errorBody } from "../utils/errorBody";
+
+const router = Router();
+
+const s3Client = new S3Client({
+  region: "us-east-1",
+  credentials:
+    process.env.IDE_MANAGER_ACCESS_KEY_ID && process.env.IDE_MANAGER_SECRET_ACCESS_KEY
+      ? {
+          accessKeyId: process.env.IDE_MANAGER_ACCESS_KEY_ID,
+          secretAccessKey: process.env.IDE_MANAGER_SECRET_ACCESS_KEY,
+        }
+      : undefined,
+});
+
+const SUBMITTED_STATUSES = ["submitted", "graded", "returned"];
+
+// Larger files are data or build output, not code worth comparing
+const MAX_FILE_BYTES = 200 * 1024;
+
+// A report still running after this was lost, e.g. to a server restart
+const REPORT_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Helper: load an assignment and check the caller can manage its course.
+ * Sends the error response and returns null otherwise.
+ */
+async function loadAssignment(
+  req: Request,
+  res: Response
+): Promise<{ id: string; course_id: string; content: string; settings: any } | null> {
+  const { id: userId, isAdmin } = req.user!;
+
+  const { data: assignment, error } = await supabase
+    .from("assignments")
+    .select("id, course_id, content, settings")
+    .eq("id", req.params.id)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !assignment) {
+    res.status(404).json(errorBody(req, "ASSIGNMENT_NOT_FOUND", "Assignment not found"));
+    return null;
+  }
+
+  const permissions = await getCoursePermissions(userId, assignment.course_id, isAdmin);
+  if (!permissions.canManage) {
+    res
+      .status(403)
+      .json(
+        errorBody(req, "INSUFFICIENT_PERMISSIONS", "Only instructors can check code similarity")
+      );
+    return null;
+  }
+
+  return assignment;
+}
+
+/**
+ * Helper: the source files in an S3 bucket, or none if the bucket row is gone
+ */
+async function readBucketFiles(bucketId: string | undefined): Promise<SourceFile[]> {
+  if (!bucketId) return [];
+  const { data: bucket } = await supabase
+    .from("s3_buckets")
+    .select("bucket_name")
+    .eq("id", bucketId)
+    .is("deleted_at", null)
+    .single();
+  if (!bucket) return [];
+
+  const listResponse = await s3Client.send(
+    new ListObjectsV2Command({ Bucket: bucket.bucket_name })
+  );
+
+  const files: SourceFile[] = [];
+  for (const object of listResponse.Contents || []) {
+    if (!object.Key || object.Key.endsWith("/") || object.Key.startsWith(".")) continue;
+    if ((object.Size ?? 0) > MAX_FILE_BYTES) continue;
+
+    const response = await s3Client.send(
+      new GetObjectCommand({ Bucket: bucket.bucket_name, Key: object.Key })
+    );
+    if (response.Body) {
+      const stream = response.Body as Readable;
+      const chunks: Buffer[] = [];
+      await new Promise<void>((resolve, reject) => {
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.on("end", () => resolve());
+        stream.on("error", reject);
+      });
+      files.push({ path: object.Key, content: Buffer.concat(chunks).toString("utf-8") });
+    }
+  }
+  return files;
+}
+
+/**
+ * Helper: each student's latest submitted attempt of the given assignments
+ */
+async function getLatestSubmissions(assignmentIds: string[]) {
+  if (assignmentIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("submissions")
+    .select("id, assignment_id, student_id, values, timestamp")
+    .in("assignment_id", assignmentIds)
+    .in("status", SUBMITTED_STATUSES)
+    .order("timestamp", { ascending: false });
+  if (error) {
+    throw error;
+  }
+
+  const latest = new Map<string, any>();
+  for (const submission of data || []) {
+    const key = `${submission.assignment_id}:${submission.student_id}`;
+    if (!latest.has(key)) latest.set(key, submission);
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Helper: other assignments with the same IDE block, i.e. copies of this one
+ * in earlier terms, limited to courses the user manages
+ */
+async function getPriorTermAssignmentIds(
+  assignment: { id: string },
+  blockId: string,
+  userId: string,
+  isAdmin: boolean = false
+): Promise<string[]> {
+  // Cloning copies content verbatim, so the block keeps its ID
+  const { data, error } = await supabase
+    .from("assignments")
+    .select("id, course_id, content")
+    .like("content", `%${blockId}%`)
+    .neq("id", assignment.id)
+    .is("deleted_at", null);
+  if (error) {
+    throw error;
+  }
+
+  const ids: string[] = [];
+  const permissionsByCourse = new Map<string, boolean>();
+  for (const candidate of data || []) {
+    if (!findBlockData(candidate.content, "ideBlock", "ideData", blockId)) continue;
+    if (!permissionsByCourse.has(candidate.course_id)) {
+      const permissions = await getCoursePermissions(userId, candidate.course_id, isAdmin);
+      permissionsByCourse.set(candidate.course_id, permissions.canManage);
+    }
+    if (permissionsByCourse.get(candidate.course_id)) ids.push(candidate.id);
+  }
+  return ids;
+}
+
+/**
+ * Helper: fingerprints of the block's template files, which every
+ * submission starts from and so must not count as matches
+ */
+async function getTemplateHashes(ideData: any): Promise<Set<number>> {
+  const files = await readBucketFiles(ideData?.template?.s3_bucket_id);
+  return new Set(fingerprintFiles(files).map((fingerprint) => fingerprint.hash));
+}
+
+/**
+ * Fingerprint every submission of the block and store the ranked pairs.
+ * Runs after the request that started it has returned.
+ */
+async function runSimilarityReport(
+  reportId: string,
+  assignment: { id: string; content: string },
+  blockId: string,
+  priorAssignmentIds: string[]
+): Promise<void> {
+  try {
+    const ideData = findBlockData(assignment.content, "ideBlock", "ideData", blockId);
+    const templateHashes = await getTemplateHashes(ideData);
+
+    const submissions = await getLatestSubmissions([assignment.id, ...priorAssignmentIds]);
+    const subjects = [];
+    for (const submission of submissions) {
+      const files = await readBucketFiles(submission.values?.[blockId]?.s3_snapshot_bucket_id);
+      if (files.length === 0) continue;
+      subjects.push({
+        id: submission.id,
+        fingerprints: fingerprintFiles(files, templateHashes),
+        prior: submission.assignment_id !== assignment.id,
+      });
+    }
+
+    const pairs = rankSimilarPairs(subjects).map((pair) => ({
+      submission_a: pair.a,
+      submission_b: pair.b,
+      similarity: pair.similarity,
+      shared_fingerprints: pair.sharedFingerprints,
+    }));
+
+    const { error } = await supabase
+      .from("similarity_reports")
+      .update({
+        status: "completed",
+        submission_count: subjects.filter((subject) => !subject.prior).length,
+        pairs,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", reportId);
+    if (error) {
+      throw error;
+    }
+  } catch (error: any) {
+    logger.error("Similarity report failed", { reportId, error: error.message });
+    await supabase
+      .from("similarity_reports")
+      .update({
+        status: "failed",
+        error: error.message || "Unknown error",
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", reportId);
+  }
+}
+
+/**
+ * Helper: mark reports of a block that have been running for longer than
+ * REPORT_TIMEOUT_MS as failed, so they don't block new checks
+ */
+async function expireStaleReports(assignmentId: string, blockId: string): Promise<void> {
+  const { error } = await supabase
+    .from("similarity_reports")
+    .update({
+      status: "failed",
+      error: "The similarity check timed out",
+      completed_at: new Date().toISOString(),
+    })
+    .eq("assignment_id", assignmentId)
+    .eq("block_id", blockId)
+    .eq("status", "running")
+    .lt("created_at", new Date(Date.now() - REPORT_TIMEOUT_MS).toISOString());
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: who and where each submission is from, for display. Students of
+ * this assignment get pseudonyms while blind grading is active.
+ */
+async function describeSubmissions(
+  assignment: { id: string; settings: any },
+  submissionIds: string[]
+): Promise<Map<string, any>> {
+  const described = new Map<string, any>();
+  if (submissionIds.length === 0) return described;
+
+  const { data, error } = await supabase
+    .from("submissions")
+    .select(
+      "id, assignment_id, student_id, student:users!submissions_student_id_fkey(first_name, last_name), assignment:assignments(name, course:courses(name))"
+    )
+    .in("id", submissionIds);
+  if (error) {
+    throw error;
+  }
+
+  const blind = isBlindGradingActive(assignment.settings);
+  for (const submission of (data || []) as any[]) {
+    const current = submission.assignment_id === assignment.id;
+    described.set(submission.id, {
+      submission_id: submission.id,
+      student_id: blind && current ? null : submission.student_id,
+      student_name:
+        blind && current
+          ? getStudentPseudonym(assignment.id, submission.student_id)
+          : [submission.student?.first_name, submission.student?.last_name]
+              .filter(Boolean)
+              .join(" ") || "Unknown student",
+      prior_term: !current,
+      assignment_name: submission.assignment?.name ?? null,
+      course_name: submission.assignment?.course?.name ?? null,
+    });
+  }
+  return described;
+}
+
+/**
+ * POST /assignment/:id/similarity-reports
+ * Start a similarity check of an IDE block. Body: { block_id,
+ * include_prior_terms? }. Responds 202 with the running report.
+ */
+router.post(
+  "/assignment/:id/similarity-reports",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadAssignment(req, res);
+      if (!assignment) return;
+
+      const { block_id, include_prior_terms } = req.body;
+      if (
+        typeof block_id !== "string" ||
+        !findBlockData(assignment.content, "ideBlock", "ideData", block_id)
+      ) {
+        res
+          .status(400)
+          .json(errorBody(req, "INVALID_BLOCK", "block_id must be an IDE block of this assignment"));
+        return;
+      }
+
+      await expireStaleReports(assignment.id, block_id);
+      const { data: running } = await supabase
+        .from("similarity_reports")
+        .select("id")
+        .eq("assignment_id", assignment.id)
+        .eq("block_id", block_id)
+        .eq("status", "running")
+        .limit(1)
+        .maybeSingle();
+      if (running) {
+        res
+          .status(409)
+          .json(errorBody(req, "REPORT_RUNNING", "A similarity check is already running"));
+        return;
+      }
+
+      const { id: userId, isAdmin } = req.user!;
+      const priorAssignmentIds = include_prior_terms
+        ? await getPriorTermAssignmentIds(assignment, block_id, userId, isAdmin)
+        : [];
+
+      const { data: report, error } = await supabase
+        .from("similarity_reports")
+        .insert({
+          assignment_id: assignment.id,
+          course_id: assignment.course_id,
+          block_id,
+          include_prior_terms: !!include_prior_terms,
+          created_by: userId,
+        })
+        .select()
+        .single();
+      if (error || !report) {
+        throw error || new Error("Failed to create similarity report");
+      }
+
+      void runSimilarityReport(report.id, assignment, block_id, priorAssignmentIds);
+
+      res.status(202).json({ ...report, pairs: [] });
+    } catch (error: any) {
+      logger.error("Error starting similarity report", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to start similarity check"));
+    }
+  }
+);
+
+/**
+ * GET /assignment/:id/similarity-reports/latest?block_id=
+ * The most recent report for an IDE block (null if there is none), with
+ * each pair's students resolved
+ */
+router.get(
+  "/assignment/:id/similarity-reports/latest",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadAssignment(req, res);
+      if (!assignment) return;
+
+      const blockId = req.query.block_id;
+      if (typeof blockId !== "string") {
+        res.status(400).json(errorBody(req, "INVALID_BLOCK", "block_id is required"));
+        return;
+      }
+
+      await expireStaleReports(assignment.id, blockId);
+      const { data: report, error } = await supabase
+        .from("similarity_reports")
+        .select("*")
+        .eq("assignment_id", assignment.id)
+        .eq("block_id", blockId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) {
+        throw error;
+      }
+      if (!report) {
+        res.json(null);
+        return;
+      }
+
+      const pairs: any[] = report.pairs || [];
+      const described = await describeSubmissions(
+        assignment,
+        Array.from(new Set(pairs.flatMap((pair) => [pair.submission_a, pair.submission_b])))
+      );
+
+      res.json({
+        ...report,
+        // Pairs whose submissions have since been deleted are dropped
+        pairs: pairs
+          .map((pair, index) => ({
+            index,
+            similarity: pair.similarity,
+            shared_fingerprints: pair.shared_fingerprints,
+            a: described.get(pair.submission_a),
+            b: described.get(pair.submission_b),
+          }))
+          .filter((pair) => pair.a && pair.b),
+      });
+    } catch (error: any) {
+      logger.error("Error loading similarity report", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to load similarity report"));
+    }
+  }
+);
+
+/**
+ * GET /assignment/:id/similarity-reports/:reportId/pairs/:index
+ * Both submissions' files and the line ranges they share
+ */
+router.get(
+  "/assignment/:id/similarity-reports/:reportId/pairs/:index",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const assignment = await loadAssignment(req, res);
+      if (!assignment) return;
+
+      const { data: report, error } = await supabase
+        .from("similarity_reports")
+        .select("*")
+        .eq("id", req.params.reportId)
+        .eq("assignment_id", assignment.id)
+        .single();
+      const pair = report?.pairs?.[Number(req.params.index)];
+      if (error || !pair) {
+        res.status(404).json(errorBody(req, "PAIR_NOT_FOUND", "Similarity pair not found"));
+        return;
+      }
+
+      const [described, { data: submissions, error: submissionsError }] = await Promise.all([
+        describeSubmissions(assignment, [pair.submission_a, pair.submission_b]),
+        supabase
+          .from("submissions")
+          .select("id, values")
+          .in("id", [pair.submission_a, pair.submission_b]),
+      ]);
+      if (submissionsError) {
+        throw submissionsError;
+      }
+      const valuesById = new Map((submissions || []).map((s) => [s.id, s.values]));
+      if (!described.get(pair.submission_a) || !described.get(pair.submission_b)) {
+        res.status(404).json(errorBody(req, "PAIR_NOT_FOUND", "Submission no longer exists"));
+        return;
+      }
+
+      const ideData = findBlockData(assignment.content, "ideBlock", "ideData", report.block_id);
+      const templateHashes = await getTemplateHashes(ideData);
+      const [filesA, filesB] = await Promise.all(
+        [pair.submission_a, pair.submission_b].map((id) =>
+          readBucketFiles(valuesById.get(id)?.[report.block_id]?.s3_snapshot_bucket_id)
+        )
+      );
+
+      res.json({
+        similarity: pair.similarity,
+        shared_fingerprints: pair.shared_fingerprints,
+        a: { ...described.get(pair.submission_a), files: filesA },
+        b: { ...described.get(pair.submission_b), files: filesB },
+        regions: findMatchRegions(
+          fingerprintFiles(filesA, templateHashes),
+          fingerprintFiles(filesB, templateHashes)
+        ),
+      });
+    } catch (error: any) {
+      logger.error("Error loading similarity pair", { error: error.message });
+      res
+        .status(500)
+        .json(errorBody(req, "INTERNAL_SERVER_ERROR", "Failed to load similarity pair"));
+    }
+  }
+);
+
+export default router;
@@ -15,10 +15,29 @@ import {
   SubmissionWithStudent,
   GradebookData,
   StudentGradesData,
+  AttemptHistory,
 } from "../types/api";
 import { runIDETestsAndGrade } from "./autograder";
 import { createBucketSnapshot } from "./s3buckets";
-import { emitSubmissionUpdate, emitAssignmentSettingsUpdate } from "../services/courseTreeSocket";
+import {
+  emitSubmissionUpdate,
+  emitAssignmentSettingsUpdate,
+  emitPollResultsUpdate,
+} from "../services/courseTreeSocket";
+import { enforcePollAnswerRules, getPollBlocks } from "../services/poll";
+import { evaluateLatePenalty, getLatePolicy } from "../services/latePolicy";
+import {
+  checkNewAttempt,
+  getAttemptPolicy,
+  isSubmittedAttempt,
+  selectScoredAttempt,
+} from "../services/attemptPolicy";
+import { getGraderScore } from "../services/gradeCalculation";
+import {
+  getBlindStudentKey,
+  getStudentPseudonym,
+  isBlindGradingActive,
+} from "../services/blindGrading";
 import { getIO } from "../services/websocket";
 
 const router = Router();
@@ -330,6 +349,112 @@ router.get(
   }
 );
 
+/**
+ * GET /submissions/by-assignment/:assignmentId/attempts
+ * The current user's attempt history for an assignment, with the scores
+ * they are allowed to see and which attempt counts under the scoring policy
+ */
+router.get(
+  "/submissions/by-assignment/:assignmentId/attempts",
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { assignmentId } = req.params;
+      const { id: userId } = req.user!;
+
+      const { data: assignment, error: assignmentError } = await supabase
+        .from("assignments")
+        .select("course_id, settings")
+        .eq("id", assignmentId)
+        .single();
+
+      if (assignmentError || !assignment) {
+        res.status(404).json({
+          error: {
+            code: "ASSIGNMENT_NOT_FOUND",
+            message: "Assignment not found",
+            timestamp: new Date().toISOString(),
+            path: req.path,
+          },
+        });
+        return;
+      }
+
+      const { data: submissions, error: submissionsError } = await supabase
+        .from("submissions")
+        .select("id, assignment_id, student_id, status, timestamp")
+        .eq("assignment_id", assignmentId)
+        .eq("student_id", userId)
+        .order("timestamp", { ascending: true });
+
+      if (submissionsError) {
+        throw submissionsError;
+      }
+
+      const submissionIds = (submissions || []).map((s) => s.id);
+      const { data: graders, error: gradersError } = submissionIds.length
+        ? await supabase.from("graders").select("*").in("submission_id", submissionIds)
+        : { data: [], error: null };
+
+      if (gradersError) {
+        throw gradersError;
+      }
+
+      // Same visibility rule as the student grades page
+      const showScoreAfterSubmission =
+        assignment.settings?.showScoreAfterSubmission === true;
+      const visibleScores = new Map<string, number>();
+      for (const grader of graders || []) {
+        if (grader.reviewed_at || showScoreAfterSubmission) {
+          visibleScores.set(grader.submission_id, getGraderScore(grader));
+        }
+      }
+      const getScore = (submission: { id: string }) =>
+        visibleScores.get(submission.id) ?? null;
+
+      const policy = getAttemptPolicy(assignment.settings);
+      const attempts = (submissions || []).filter(isSubmittedAttempt);
+      const scored = selectScoredAttempt(policy.scoring, attempts, getScore);
+      const attemptCheck = checkNewAttempt(policy, submissions || []);
+
+      const history: AttemptHistory = {
+        policy,
+        attempts: attempts.map((submission, index) => ({
+          submissionId: submission.id,
+          attemptNumber: index + 1,
+          status: submission.status,
+          timestamp: submission.timestamp,
+          score: getScore(submission),
+          countsTowardGrade:
+            policy.scoring === "average"
+              ? getScore(submission) !== null
+              : scored.submission?.id === submission.id,
+        })),
+        inProgressSubmissionId:
+          (submissions || []).filter((s) => !isSubmittedAttempt(s)).pop()?.id ?? null,
+        score: scored.score,
+        nextAttemptAt:
+          !attemptCheck.allowed && attemptCheck.retryAt
+            ? attemptCheck.retryAt.toISOString()
+            : null,
+        canStartAttempt: attemptCheck.allowed,
+      };
+
+      res.json(history);
+    } catch (error) {
+      console.error("Error retrieving attempt history:", error);
+      res.status(500).json({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to retrieve attempt history",
+          timestamp: new Date().toISOString(),
+          path: req.path,
+        },
+      });
+    }
+  }
+);
+
 /**
  * GET /submissions/by-assignment/:assignmentId/with-students
  * Get all enrolled students with their submission information and grader data
@@ -347,7 +472,7 @@ router.get(
       // Get the assignment to check course permissions
       const { data: assignment, error: assignmentError } = await supabase
         .from("assignments")
-        .select("course_id")
+        .select("course_id, settings")
         .eq("id", assignmentId)
         .single();
 
@@ -478,6 +603,10 @@ router.get(
         hasBlockScores: !!gradersData?.[0]?.block_scores,
       });
 
+      // Blind grading hides every grader's view of identities behind stable
+      // pseudonyms, and user IDs behind opaque per-assignment keys
+      const isBlind = isBlindGradingActive(assignment.settings);
+
       // Create a map of student_id to ALL their submissions with graders
       const studentSubmissionsMap = new Map<string, Array<{ submission: any; grader: any }>>();
       submissionsData?.forEach((submission: any) => {
@@ -489,7 +618,9 @@ router.get(
             timestamp: submission.timestamp,
             values: submission.values,
             course_id: submission.course_id,
-            student_id: submission.student_id,
+            student_id: isBlind
+              ? getBlindStudentKey(assignmentId, submission.student_id)
+              : submission.student_id,
             grader_id: submission.grader_id,
             grade: submission.grade,
             status: submission.status,
@@ -516,14 +647,21 @@ router.get(
       // Students with no submissions get one entry with null submission
       const formattedData: any[] = [];
       (enrollments || []).forEach((enrollment: any) => {
-        const studentData = enrollment.user
+        const studentData = !enrollment.user
+          ? null
+          : isBlind
           ? {
+              id: getBlindStudentKey(assignmentId, enrollment.user.id),
+              firstName: getStudentPseudonym(assignmentId, enrollment.user.id),
+              lastName: "",
+              email: "",
+            }
+          : {
               id: enrollment.user.id,
               firstName: shouldAnonymizeStudents ? "Anonymous" : enrollment.user.first_name,
               lastName: shouldAnonymizeStudents ? "" : enrollment.user.last_name,
               email: shouldAnonymizeStudents ? "" : enrollment.user.email,
-            }
-          : null;
+            };
 
         const submissions = studentSubmissionsMap.get(enrollment.user_id);
         if (submissions && submissions.length > 0) {
@@ -549,6 +687,13 @@ router.get(
         }
       });
 
+      // Enrollments come sorted by last name, which would give identities away
+      if (isBlind) {
+        formattedData.sort((a, b) =>
+          (a.student?.firstName || "").localeCompare(b.student?.firstName || "")
+        );
+      }
+
       res.json(formattedData);
     } catch (error) {
       console.error("Error retrieving submissions with students:", error);
@@ -702,6 +847,16 @@ router.post(
       const existingSubmission = existingSubmissions?.[0] || null;
       let submission;
 
+      // Closed polls and polls that disallow answer changes keep their stored answer
+      const pollRules = isAdmin
+        ? null
+        : enforcePollAnswerRules(
+            getPollBlocks(assignment.content),
+            existingSubmission?.values,
+            values || {}
+          );
+      const submittedValues = pollRules ? pollRules.values : values || {};
+
       if (existingSubmission) {
         // Check if resubmissions are allowed for submitted/graded submissions
         const isSubmittedOrGraded =
@@ -725,6 +880,36 @@ router.post(
             return;
           }
 
+          // Starting another attempt must respect the attempt limit and cooldown
+          if (!isAdmin) {
+            const { data: attempts, error: attemptsError } = await supabase
+              .from("submissions")
+              .select("status, timestamp")
+              .eq("assignment_id", assignment_id)
+              .eq("student_id", userId);
+
+            if (attemptsError) {
+              throw attemptsError;
+            }
+
+            const attemptCheck = checkNewAttempt(
+              getAttemptPolicy(assignment.settings),
+              attempts || []
+            );
+            if (!attemptCheck.allowed) {
+              res.status(400).json({
+                error: {
+                  code: attemptCheck.code,
+                  message: attemptCheck.message,
+                  retryAt: attemptCheck.retryAt?.toISOString(),
+                  timestamp: new Date().toISOString(),
+                  path: req.path,
+                },
+              });
+              return;
+            }
+          }
+
           // If resubmissions are allowed, create a new submission
           const { data: newSubmission, error: createError } = await supabase
             .from("submissions")
@@ -732,7 +917,7 @@ router.post(
               assignment_id,
               course_id,
               student_id: userId,
-              values: values || {},
+              values: submittedValues,
               status: SubmissionStatus.IN_PROGRESS,
               timestamp: new Date(),
             })
@@ -749,7 +934,7 @@ router.post(
           const { data: updatedSubmission, error: updateError } = await supabase
             .from("submissions")
             .update({
-              values: values || {},
+              values: submittedValues,
               timestamp: new Date(),
             })
             .eq("id", existingSubmission.id)
@@ -770,7 +955,7 @@ router.post(
             assignment_id,
             course_id,
             student_id: userId,
-            values: values || {},
+            values: submittedValues,
             status: SubmissionStatus.IN_PROGRESS,
             timestamp: new Date(),
           })
@@ -827,6 +1012,9 @@ router.post(
           studentId: userId,
           status: submission.status,
         });
+        for (const blockId of pollRules?.changedPollIds ?? []) {
+          emitPollResultsUpdate(getIO(), { assignmentId: assignment_id, blockId });
+        }
       } catch {}
 
       res.status(existingSubmission ? 200 : 201).json(submission);
@@ -913,11 +1101,13 @@ router.put(
         return;
       }
 
+      let pollRules: ReturnType<typeof enforcePollAnswerRules> | null = null;
+
       // Students cannot update submissions past due date (unless late submissions allowed)
       if (existingSubmission.student_id === userId && !isAdmin) {
         const { data: assignment } = await supabase
           .from("assignments")
-          .select("due_dates_map, settings, is_lockdown, lockdown_time_map")
+          .select("content, due_dates_map, settings, is_lockdown, lockdown_time_map")
           .eq("id", existingSubmission.assignment_id)
           .single();
 
@@ -959,6 +1149,15 @@ router.put(
             }
           }
         }
+
+        // Closed polls and polls that disallow answer changes keep their stored answer
+        if (values !== undefined) {
+          pollRules = enforcePollAnswerRules(
+            getPollBlocks(assignment?.content),
+            existingSubmission.values,
+            values || {}
+          );
+        }
       }
 
       // Prepare update data
@@ -967,7 +1166,7 @@ router.put(
       };
 
       if (values !== undefined) {
-        updateData.values = values;
+        updateData.values = pollRules ? pollRules.values : values;
       }
 
       // Note: Status is NOT changed here - only the /submit endpoint changes status
@@ -985,6 +1184,15 @@ router.put(
         throw updateError;
       }
 
+      try {
+        for (const blockId of pollRules?.changedPollIds ?? []) {
+          emitPollResultsUpdate(getIO(), {
+            assignmentId: existingSubmission.assignment_id,
+            blockId,
+          });
+        }
+      } catch {}
+
       res.json(updatedSubmission);
     } catch (error) {
       console.error("Error updating submission:", error);
@@ -1058,28 +1266,43 @@ router.post(
       const allowLateSubmissions =
         assignment?.settings?.allowLateSubmissions ?? false;
 
-      // Check due date enforcement (admins bypass)
+      // Check due date enforcement and late policy (admins bypass)
+      const submittedAt = new Date();
       let isLateSubmission = false;
+      let latePenalty = { minutesLate: 0, penaltyPercent: 0 };
       if (!isAdmin && assignment?.due_dates_map) {
-        const userDueDate = assignment.due_dates_map[userId];
-        if (userDueDate) {
-          const now = new Date();
-          const dueDate = new Date(userDueDate);
-          if (now > dueDate) {
-            if (!allowLateSubmissions) {
-              res.status(400).json({
-                error: {
-                  code: "PAST_DUE_DATE",
-                  message:
-                    "The due date for this assignment has passed and late submissions are not allowed",
-                  timestamp: new Date().toISOString(),
-                  path: req.path,
-                },
-              });
-              return;
-            }
-            isLateSubmission = true;
+        const lateResult = evaluateLatePenalty(
+          getLatePolicy(assignment.settings),
+          assignment.due_dates_map[userId],
+          submittedAt
+        );
+        if (lateResult.isLate) {
+          if (!allowLateSubmissions) {
+            res.status(400).json({
+              error: {
+                code: "PAST_DUE_DATE",
+                message:
+                  "The due date for this assignment has passed and late submissions are not allowed",
+                timestamp: new Date().toISOString(),
+                path: req.path,
+              },
+            });
+            return;
+          }
+          if (lateResult.pastCutoff && lateResult.penaltyPercent < 100) {
+            res.status(400).json({
+              error: {
+                code: "PAST_LATE_CUTOFF",
+                message:
+                  "The late submission window for this assignment has closed",
+                timestamp: new Date().toISOString(),
+                path: req.path,
+              },
+            });
+            return;
           }
+          isLateSubmission = true;
+          latePenalty = lateResult;
         }
       }
 
@@ -1132,12 +1355,42 @@ router.post(
         return;
       }
 
+      // The student's other attempts must leave room for this one
+      if (!isAdmin) {
+        const { data: otherAttempts, error: attemptsError } = await supabase
+          .from("submissions")
+          .select("status, timestamp")
+          .eq("assignment_id", existingSubmission.assignment_id)
+          .eq("student_id", existingSubmission.student_id)
+          .neq("id", id);
+
+        if (attemptsError) {
+          throw attemptsError;
+        }
+
+        const attemptCheck = checkNewAttempt(
+          getAttemptPolicy(assignment?.settings),
+          otherAttempts || []
+        );
+        if (!attemptCheck.allowed && attemptCheck.code === "MAX_ATTEMPTS_REACHED") {
+          res.status(400).json({
+            error: {
+              code: attemptCheck.code,
+              message: attemptCheck.message,
+              timestamp: new Date().toISOString(),
+              path: req.path,
+            },
+          });
+          return;
+        }
+      }
+
       // Update submission status to submitted (Requirement 9.2)
       const { data: updatedSubmission, error: updateError } = await supabase
         .from("submissions")
         .update({
           status: SubmissionStatus.SUBMITTED,
-          timestamp: new Date(),
+          timestamp: submittedAt,
           is_late: isLateSubmission,
         })
         .eq("id", id)
@@ -1148,6 +1401,24 @@ router.post(
         throw updateError;
       }
 
+      // Resubmissions re-evaluate the penalty on the existing grader unless
+      // staff set it by hand; new graders get it when autograding creates them
+      const { error: latePenaltyError } = await supabase
+        .from("graders")
+        .update({
+          late_penalty_percent: latePenalty.penaltyPercent,
+          late_minutes: latePenalty.minutesLate,
+        })
+        .eq("submission_id", id)
+        .eq("late_penalty_overridden", false);
+
+      if (latePenaltyError) {
+        console.error("Failed to record late penalty:", {
+          submissionId: id,
+          error: latePenaltyError.message,
+        });
+      }
+
       // Create S3 bucket snapshots for each IDE block
       // This preserves the exact code state at submission time
       try {
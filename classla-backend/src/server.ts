@@ -83,6 +83,8 @@ app.use(
       }
     },
     credentials: true,
+    // Lets the frontend read download filenames (e.g. gradebook exports)
+    exposedHeaders: ["Content-Disposition"],
   })
 );
 app.use(express.json({ limit: "10mb" }));
@@ -164,6 +166,15 @@ import managedStudentsRoutes from "./routes/managedStudents";
 import adminIdeRoutes from "./routes/adminIde";
 import adminRoutes from "./routes/admin";
 import aiMemoriesRoutes from "./routes/aiMemories";
+import discussionRoutes from "./routes/discussions";
+import pollRoutes from "./routes/polls";
+import commentBankRoutes from "./routes/commentBank";
+import codeAnnotationRoutes from "./routes/codeAnnotations";
+import gradeReleaseRoutes, { startGradeReleaseScheduler } from "./routes/gradeRelease";
+import regradeRequestRoutes from "./routes/regradeRequests";
+import gradingAssignmentRoutes from "./routes/gradingAssignments";
+import similarityReportRoutes from "./routes/similarityReports";
+import ideDemandRoutes from "./routes/ideDemand";
 
 // Auth routes (mounted at root for WorkOS callback compatibility)
 app.use("/", authRoutes);
@@ -192,6 +203,15 @@ app.use("/api", managedStudentsRoutes);
 app.use("/api/admin/ide", adminIdeRoutes);
 app.use("/api/admin", adminRoutes);
 app.use("/api", aiMemoriesRoutes);
+app.use("/api", discussionRoutes);
+app.use("/api", pollRoutes);
+app.use("/api", commentBankRoutes);
+app.use("/api", codeAnnotationRoutes);
+app.use("/api", gradeReleaseRoutes);
+app.use("/api", regradeRequestRoutes);
+app.use("/api", gradingAssignmentRoutes);
+app.use("/api", similarityReportRoutes);
+app.use("/api", ideDemandRoutes);
 
 // Error handling - must be after all routes
 app.use(errorHandler);
@@ -276,6 +296,7 @@ waitForRedisConnection()
       logger.info(`Server running on port ${PORT}`);
       logger.info(`Health check: http://localhost:${PORT}/health`);
       logger.info(`WebSocket server initialized`);
+      startGradeReleaseScheduler();
     });
   })
   .catch((error) => {
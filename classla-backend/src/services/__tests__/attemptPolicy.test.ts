@@ -0,0 +1,134 @@
+import {
+  AttemptPolicy,
+  checkNewAttempt,
+  getAttemptPolicy,
+  getScoredAttempts,
+  selectScoredAttempt,
+  validateAttemptSettings,
+} from '../attemptPolicy';
+
+const policy = (overrides: Partial<AttemptPolicy> = {}): AttemptPolicy => ({
+  maxAttempts: null,
+  cooldownMinutes: 0,
+  scoring: 'last',
+  ...overrides,
+});
+
+const attempt = (id: string, minute: number, status = 'submitted') => ({
+  id,
+  student_id: 'student-1',
+  assignment_id: 'assignment-1',
+  status,
+  timestamp: new Date(Date.UTC(2026, 2, 1, 12, minute)).toISOString(),
+});
+
+const scores: Record<string, number | null> = { a: 6, b: 9, c: 3, d: null };
+const getScore = (submission: { id: string }) => scores[submission.id] ?? null;
+
+describe('attempt policy service', () => {
+  it('validates attempt settings', () => {
+    expect(validateAttemptSettings({})).toBeNull();
+    expect(
+      validateAttemptSettings({ maxAttempts: 3, attemptCooldownMinutes: 10, attemptScoring: 'best' })
+    ).toBeNull();
+    expect(validateAttemptSettings({ maxAttempts: null })).toBeNull();
+    expect(validateAttemptSettings({ maxAttempts: 0 })).toMatch(/Maximum attempts/);
+    expect(validateAttemptSettings({ maxAttempts: 1.5 })).toMatch(/Maximum attempts/);
+    expect(validateAttemptSettings({ attemptCooldownMinutes: -1 })).toMatch(/cooldown/);
+    expect(validateAttemptSettings({ attemptScoring: 'highest' })).toMatch(/scoring/);
+  });
+
+  it('reads the policy from settings with defaults', () => {
+    expect(getAttemptPolicy(null)).toEqual(policy({ maxAttempts: 1 }));
+    expect(getAttemptPolicy({ allowResubmissions: true })).toEqual(policy());
+    expect(
+      getAttemptPolicy({
+        allowResubmissions: true,
+        maxAttempts: 3,
+        attemptCooldownMinutes: 15,
+        attemptScoring: 'average',
+      })
+    ).toEqual(policy({ maxAttempts: 3, cooldownMinutes: 15, scoring: 'average' }));
+    expect(getAttemptPolicy({ allowResubmissions: true, attemptScoring: 'bogus' })).toEqual(
+      policy()
+    );
+  });
+
+  it('blocks new attempts once the limit is used', () => {
+    const used = [attempt('a', 0), attempt('b', 5), attempt('c', 10, 'in-progress')];
+    expect(checkNewAttempt(policy({ maxAttempts: 3 }), used)).toEqual({ allowed: true });
+    expect(checkNewAttempt(policy({ maxAttempts: 2 }), used)).toMatchObject({
+      allowed: false,
+      code: 'MAX_ATTEMPTS_REACHED',
+    });
+  });
+
+  it('enforces the cooldown from the latest attempt', () => {
+    const used = [attempt('a', 0), attempt('b', 5)];
+    const blocked = checkNewAttempt(
+      policy({ cooldownMinutes: 30 }),
+      used,
+      new Date(Date.UTC(2026, 2, 1, 12, 20))
+    );
+    expect(blocked).toMatchObject({ allowed: false, code: 'ATTEMPT_COOLDOWN' });
+    expect(!blocked.allowed && blocked.retryAt?.toISOString()).toBe('2026-03-01T12:35:00.000Z');
+
+    expect(
+      checkNewAttempt(policy({ cooldownMinutes: 30 }), used, new Date(Date.UTC(2026, 2, 1, 12, 40)))
+    ).toEqual({ allowed: true });
+  });
+
+  it('scores attempts by policy', () => {
+    const attempts = [attempt('b', 5), attempt('a', 0), attempt('c', 10)];
+    expect(selectScoredAttempt('last', attempts, getScore)).toMatchObject({
+      submission: { id: 'c' },
+      score: 3,
+      attemptCount: 3,
+    });
+    expect(selectScoredAttempt('first', attempts, getScore)).toMatchObject({
+      submission: { id: 'a' },
+      score: 6,
+    });
+    expect(selectScoredAttempt('best', attempts, getScore)).toMatchObject({
+      submission: { id: 'b' },
+      score: 9,
+    });
+    expect(selectScoredAttempt('average', attempts, getScore)).toMatchObject({
+      submission: { id: 'c' },
+      score: 6,
+    });
+  });
+
+  it('ignores ungraded and in-progress attempts when averaging', () => {
+    const attempts = [attempt('a', 0), attempt('d', 5), attempt('b', 10, 'in-progress')];
+    expect(selectScoredAttempt('average', attempts, getScore)).toMatchObject({
+      submission: { id: 'a' },
+      score: 6,
+      attemptCount: 2,
+    });
+    expect(selectScoredAttempt('last', attempts, getScore)).toMatchObject({
+      submission: { id: 'd' },
+      score: null,
+    });
+  });
+
+  it('falls back to the latest submission before the first attempt', () => {
+    expect(
+      selectScoredAttempt('best', [attempt('a', 0, 'in-progress')], getScore)
+    ).toEqual({ submission: expect.objectContaining({ id: 'a' }), score: 6, attemptCount: 0 });
+    expect(selectScoredAttempt('best', [], getScore)).toEqual({
+      submission: null,
+      score: null,
+      attemptCount: 0,
+    });
+  });
+
+  it('groups submissions by student and assignment', () => {
+    const scored = getScoredAttempts(
+      [attempt('a', 0), attempt('b', 5)],
+      [{ id: 'assignment-1', settings: { allowResubmissions: true, attemptScoring: 'first' } }],
+      getScore
+    );
+    expect(scored.get('student-1_assignment-1')?.score).toBe(6);
+  });
+});
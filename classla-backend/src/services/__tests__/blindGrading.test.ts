@@ -0,0 +1,84 @@
+import {
+  getBlindStudentKey,
+  getStudentPseudonym,
+  isBlindGradingActive,
+  isBlindStudentKey,
+  isGradingFinalized,
+  resolveBlindStudentKey,
+  validateBlindGradingSettings,
+} from '../blindGrading';
+
+describe('blind grading service', () => {
+  const originalSecret = process.env.BLIND_GRADING_SECRET;
+
+  beforeEach(() => {
+    process.env.BLIND_GRADING_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    if (originalSecret === undefined) {
+      delete process.env.BLIND_GRADING_SECRET;
+    } else {
+      process.env.BLIND_GRADING_SECRET = originalSecret;
+    }
+  });
+
+  it('is active only while enabled and not revealed', () => {
+    expect(isBlindGradingActive(null)).toBe(false);
+    expect(isBlindGradingActive({})).toBe(false);
+    expect(isBlindGradingActive({ blindGrading: true })).toBe(true);
+    expect(
+      isBlindGradingActive({ blindGrading: true, blindGradingRevealedAt: '2026-03-01T12:00:00.000Z' })
+    ).toBe(false);
+  });
+
+  it('gives each student a stable pseudonym per assignment', () => {
+    const pseudonym = getStudentPseudonym('assignment-1', 'student-1');
+    expect(pseudonym).toMatch(/^Student [0-9A-F]{6}$/);
+    expect(getStudentPseudonym('assignment-1', 'student-1')).toBe(pseudonym);
+    expect(getStudentPseudonym('assignment-1', 'student-2')).not.toBe(pseudonym);
+    expect(getStudentPseudonym('assignment-2', 'student-1')).not.toBe(pseudonym);
+  });
+
+  it('keys pseudonyms with the server secret', () => {
+    const pseudonym = getStudentPseudonym('assignment-1', 'student-1');
+    process.env.BLIND_GRADING_SECRET = 'another-secret';
+    expect(getStudentPseudonym('assignment-1', 'student-1')).not.toBe(pseudonym);
+  });
+
+  it('resolves blind student keys back to the student', () => {
+    const key = getBlindStudentKey('assignment-1', 'student-2');
+    expect(isBlindStudentKey(key)).toBe(true);
+    expect(isBlindStudentKey('student-2')).toBe(false);
+    expect(key).not.toContain('student-2');
+    expect(resolveBlindStudentKey('assignment-1', key, ['student-1', 'student-2'])).toBe('student-2');
+    expect(resolveBlindStudentKey('assignment-2', key, ['student-1', 'student-2'])).toBeNull();
+  });
+
+  it('finalizes grading once every submitted attempt is reviewed', () => {
+    const submissions = [
+      { id: 'a', status: 'graded' },
+      { id: 'b', status: 'submitted' },
+      { id: 'c', status: 'in-progress' },
+    ];
+    const reviewedA = { submission_id: 'a', reviewed_at: '2026-03-01T12:00:00.000Z' };
+
+    expect(isGradingFinalized([], [])).toBe(false);
+    expect(isGradingFinalized(submissions, [reviewedA])).toBe(false);
+    expect(isGradingFinalized(submissions, [reviewedA, { submission_id: 'b', reviewed_at: null }])).toBe(
+      false
+    );
+    expect(
+      isGradingFinalized(submissions, [
+        reviewedA,
+        { submission_id: 'b', reviewed_at: '2026-03-02T12:00:00.000Z' },
+      ])
+    ).toBe(true);
+  });
+
+  it('validates the toggle', () => {
+    expect(validateBlindGradingSettings({})).toBeNull();
+    expect(validateBlindGradingSettings({ blindGrading: true })).toBeNull();
+    expect(validateBlindGradingSettings({ blindGrading: 'yes' })).toMatch(/blindGrading/);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  applyManualBlockScore,
+  getManualBlockPoints,
+  getScoredBlockPoints,
+  mergeOverriddenBlockScores,
+  validateBlockScore,
+} from '../blockScoring';
+import { calculateAssignmentPoints } from '../gradeCalculation';
+
+const content = JSON.stringify({
+  type: 'doc',
+  content: [
+    {
+      type: 'mcqBlock',
+      attrs: {
+        mcqData: {
+          id: 'q1',
+          question: 'Pick one',
+          options: [{ id: 'o1', text: 'A', isCorrect: true }],
+          allowMultiple: false,
+          points: 2,
+        },
+      },
+    },
+    {
+      type: 'ideBlock',
+      attrs: {
+        ideData: {
+          id: 'ide1',
+          points: 5,
+          autograder: {
+            tests: [
+              { type: 'unitTest', points: 3 },
+              { type: 'manualGrading', points: 2 },
+            ],
+          },
+        },
+      },
+    },
+    {
+      type: 'shortAnswerBlock',
+      attrs: { shortAnswerData: { id: 's1', prompt: 'Why?', points: 3, gradingType: 'manual' } },
+    },
+  ],
+});
+
+describe('block scoring service', () => {
+  it('finds points for blocks scored in block_scores', () => {
+    expect(getScoredBlockPoints(content, 'q1')).toBe(2);
+    expect(getScoredBlockPoints(content, 'ide1')).toBe(5);
+    expect(getScoredBlockPoints(content, 's1')).toBe(3);
+    expect(getScoredBlockPoints(content, 'missing')).toBeNull();
+    expect(getScoredBlockPoints('not json', 'q1')).toBeNull();
+  });
+
+  it('finds manually graded short answers', () => {
+    expect(getManualBlockPoints(content)).toEqual({ s1: 3 });
+    expect(getManualBlockPoints('not json')).toEqual({});
+  });
+
+  it('counts manual short answers in both the score and the total', () => {
+    let scores = applyManualBlockScore(null, 'q1', 2, 2).blockScores;
+    scores = applyManualBlockScore(scores, 'ide1', 5, 5).blockScores;
+    const { rawScore } = applyManualBlockScore(scores, 's1', 3, 3);
+    expect(rawScore).toBe(10);
+    expect(calculateAssignmentPoints(content)).toBe(rawScore);
+  });
+
+  it('validates hand-set scores', () => {
+    expect(validateBlockScore(1.5, 2)).toBeNull();
+    expect(validateBlockScore(0, 2)).toBeNull();
+    expect(validateBlockScore('2', 2)).toMatch(/number/);
+    expect(validateBlockScore(NaN, 2)).toMatch(/number/);
+    expect(validateBlockScore(3, 2)).toMatch(/between 0 and 2/);
+    expect(validateBlockScore(-1, 2)).toMatch(/between 0 and 2/);
+  });
+
+  it('applies a hand-set score and recomputes the raw score', () => {
+    const { blockScores, rawScore } = applyManualBlockScore(
+      {
+        q1: { awarded: 0, possible: 2 },
+        s2: { awarded: 1, possible: 3, needsReview: true },
+      },
+      's2',
+      3,
+      3
+    );
+    expect(blockScores.s2).toEqual({ awarded: 3, possible: 3, overridden: true });
+    expect(rawScore).toBe(3);
+    expect(applyManualBlockScore(null, 'q1', 1, 2).rawScore).toBe(1);
+  });
+
+  it('keeps hand-set scores when the autograder re-runs', () => {
+    const { blockScores, rawScore } = mergeOverriddenBlockScores(
+      { q1: { awarded: 0, possible: 2 }, ide1: { awarded: 3, possible: 5 } },
+      {
+        q1: { awarded: 1, possible: 2, overridden: true },
+        ide1: { awarded: 1, possible: 5 },
+        removed: { awarded: 4, possible: 4, overridden: true },
+      }
+    );
+    expect(blockScores).toEqual({
+      q1: { awarded: 1, possible: 2, overridden: true },
+      ide1: { awarded: 3, possible: 5 },
+    });
+    expect(rawScore).toBe(4);
+    expect(mergeOverriddenBlockScores({ q1: { awarded: 2, possible: 2 } }, null).rawScore).toBe(2);
+  });
+
+  it('keeps hand-set scores on manually graded blocks', () => {
+    const { blockScores, rawScore } = mergeOverriddenBlockScores(
+      { q1: { awarded: 2, possible: 2 } },
+      {
+        s1: { awarded: 2, possible: 2, overridden: true },
+        s2: { awarded: 1, possible: 1, overridden: true },
+      },
+      { s1: 3 }
+    );
+    expect(blockScores).toEqual({
+      q1: { awarded: 2, possible: 2 },
+      s1: { awarded: 2, possible: 3, overridden: true },
+    });
+    expect(rawScore).toBe(4);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  MAX_ANNOTATION_LENGTH,
+  areAnnotationsReleased,
+  validateAnnotationRange,
+  validateCodeAnnotation,
+} from '../codeAnnotations';
+
+const annotation = (overrides: Record<string, unknown> = {}) => ({
+  block_id: 'block-1',
+  file_path: 'main.py',
+  file_revision: 'abc123',
+  start_line: 3,
+  end_line: 5,
+  body: 'This loop never terminates for n = 0',
+  ...overrides,
+});
+
+describe('code annotations service', () => {
+  it('accepts whole-line and character ranges', () => {
+    expect(validateAnnotationRange({ start_line: 1, end_line: 1 })).toBeNull();
+    expect(
+      validateAnnotationRange({ start_line: 2, start_column: 5, end_line: 2, end_column: 9 })
+    ).toBeNull();
+    expect(
+      validateAnnotationRange({ start_line: 2, start_column: 9, end_line: 4, end_column: 1 })
+    ).toBeNull();
+  });
+
+  it('rejects malformed ranges', () => {
+    expect(validateAnnotationRange({ start_line: 0, end_line: 1 })).toMatch(/positive/);
+    expect(validateAnnotationRange({ start_line: 1.5, end_line: 2 })).toMatch(/positive/);
+    expect(validateAnnotationRange({ start_line: 4, end_line: 2 })).toMatch(/end after/);
+    expect(
+      validateAnnotationRange({ start_line: 2, start_column: 9, end_line: 2, end_column: 3 })
+    ).toMatch(/end after/);
+    expect(validateAnnotationRange({ start_line: 1, start_column: 2, end_line: 1 })).toMatch(
+      /together/
+    );
+    expect(
+      validateAnnotationRange({ start_line: 1, start_column: 0, end_line: 1, end_column: 2 })
+    ).toMatch(/Columns/);
+  });
+
+  it('validates new annotations', () => {
+    expect(validateCodeAnnotation(annotation())).toBeNull();
+    expect(validateCodeAnnotation(annotation({ file_path: '' }))).toMatch(/file_path/);
+    expect(validateCodeAnnotation(annotation({ file_revision: undefined }))).toMatch(
+      /file_revision/
+    );
+    expect(validateCodeAnnotation(annotation({ body: '  ' }))).toMatch(/required/);
+    expect(
+      validateCodeAnnotation(annotation({ body: 'x'.repeat(MAX_ANNOTATION_LENGTH + 1) }))
+    ).toMatch(/characters/);
+    expect(validateCodeAnnotation(annotation({ end_line: 1 }))).toMatch(/end after/);
+  });
+
+  it('validates partial updates', () => {
+    expect(validateCodeAnnotation({ body: 'Reworded' }, true)).toBeNull();
+    expect(validateCodeAnnotation({}, true)).toBeNull();
+    expect(validateCodeAnnotation({ body: '' }, true)).toMatch(/required/);
+    expect(validateCodeAnnotation({ start_line: 2 }, true)).toMatch(/positive/);
+  });
+
+  it('releases annotations with the returned grade', () => {
+    expect(areAnnotationsReleased(null)).toBe(false);
+    expect(areAnnotationsReleased({ reviewed_at: null })).toBe(false);
+    expect(areAnnotationsReleased({ reviewed_at: '2026-03-01T12:00:00.000Z' })).toBe(true);
+  });
+});
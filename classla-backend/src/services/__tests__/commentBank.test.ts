@@ -0,0 +1,48 @@
+import {
+  MAX_COMMENT_LENGTH,
+  hasRubricComments,
+  normalizeRubricComments,
+  validateBankComment,
+  validateRubricComments,
+} from '../commentBank';
+
+describe('comment bank service', () => {
+  it('validates bank comments', () => {
+    expect(validateBankComment({ text: 'Missing base case', points: -2 })).toBeNull();
+    expect(validateBankComment({ text: 'Nice work' })).toBeNull();
+    expect(validateBankComment({ text: '   ' })).toMatch(/required/);
+    expect(validateBankComment({})).toMatch(/required/);
+    expect(validateBankComment({ text: 'x'.repeat(MAX_COMMENT_LENGTH + 1) })).toMatch(
+      /characters/
+    );
+    expect(validateBankComment({ text: 'Off by one', points: '2' })).toMatch(/number/);
+    expect(validateBankComment({ text: 'Off by one', points: NaN })).toMatch(/number/);
+  });
+
+  it('allows partial updates', () => {
+    expect(validateBankComment({ points: -1 }, true)).toBeNull();
+    expect(validateBankComment({}, true)).toBeNull();
+    expect(validateBankComment({ text: '' }, true)).toMatch(/required/);
+  });
+
+  it('validates rubric item comments', () => {
+    expect(validateRubricComments(['', 'Good'], 2)).toBeNull();
+    expect(validateRubricComments([], 2)).toBeNull();
+    expect(validateRubricComments('Good', 2)).toMatch(/array/);
+    expect(validateRubricComments(['a', 'b', 'c'], 2)).toMatch(/at most 2/);
+    expect(validateRubricComments([null], 2)).toMatch(/array of strings/);
+  });
+
+  it('lines comments up with rubric items', () => {
+    expect(normalizeRubricComments(undefined, 2)).toEqual(['', '']);
+    expect(normalizeRubricComments(['Good'], 3)).toEqual(['Good', '', '']);
+    expect(normalizeRubricComments(['a', 'b', 'c'], 2)).toEqual(['a', 'b']);
+    expect(normalizeRubricComments([1, 'b'], 2)).toEqual(['', 'b']);
+  });
+
+  it('detects rubrics with comments', () => {
+    expect(hasRubricComments(['', ' '])).toBe(false);
+    expect(hasRubricComments(['', 'Check edge cases'])).toBe(true);
+    expect(hasRubricComments(null)).toBe(false);
+  });
+});
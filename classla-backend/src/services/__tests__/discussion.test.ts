@@ -0,0 +1,125 @@
+import {
+  DiscussionSettings,
+  canViewPost,
+  getDiscussionSettings,
+  initialPostStatus,
+  serializePost,
+  validateNewPost,
+} from '../discussion';
+
+const settings = (overrides: Partial<DiscussionSettings> = {}): DiscussionSettings => ({
+  id: 'disc',
+  prompt: 'Discuss',
+  allowAnonymous: false,
+  requireModeration: false,
+  enableReplies: true,
+  enableVoting: false,
+  ...overrides,
+});
+
+const student = { userId: 'student-1', isStaff: false };
+const peer = { userId: 'student-2', isStaff: false };
+const staff = { userId: 'ta-1', isStaff: true };
+
+describe('discussion service', () => {
+  describe('getDiscussionSettings', () => {
+    it('finds nested discussion blocks and applies editor defaults', () => {
+      const content = JSON.stringify({
+        type: 'doc',
+        content: [
+          {
+            type: 'tabbedContentBlock',
+            content: [
+              {
+                type: 'discussionBlock',
+                attrs: { discussionData: { id: 'disc', prompt: 'Why?', maxPostsPerStudent: 0 } },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(getDiscussionSettings(content, 'disc')).toEqual({
+        id: 'disc',
+        prompt: 'Why?',
+        allowAnonymous: false,
+        requireModeration: false,
+        enableReplies: true,
+        enableVoting: false,
+        maxPostsPerStudent: undefined,
+        closeDate: undefined,
+      });
+      expect(getDiscussionSettings(content, 'other')).toBeNull();
+      expect(getDiscussionSettings('not json', 'disc')).toBeNull();
+    });
+  });
+
+  describe('validateNewPost', () => {
+    const post = { isReply: false, isAnonymous: false, topLevelPostCount: 0 };
+
+    it('blocks students after the close date but not staff', () => {
+      const closed = settings({ closeDate: '2020-01-01T00:00:00Z' });
+      expect(validateNewPost(closed, student, post)?.code).toBe('DISCUSSION_CLOSED');
+      expect(validateNewPost(closed, staff, post)).toBeNull();
+    });
+
+    it('enforces reply, anonymity and post limit settings', () => {
+      expect(
+        validateNewPost(settings({ enableReplies: false }), student, { ...post, isReply: true })?.code
+      ).toBe('REPLIES_DISABLED');
+      expect(validateNewPost(settings(), student, { ...post, isAnonymous: true })?.code).toBe(
+        'ANONYMOUS_NOT_ALLOWED'
+      );
+
+      const limited = settings({ maxPostsPerStudent: 2 });
+      expect(validateNewPost(limited, student, { ...post, topLevelPostCount: 2 })?.code).toBe(
+        'POST_LIMIT_REACHED'
+      );
+      expect(
+        validateNewPost(limited, student, { ...post, isReply: true, topLevelPostCount: 2 })
+      ).toBeNull();
+    });
+  });
+
+  describe('moderation', () => {
+    it('holds student posts for review only when moderation is required', () => {
+      expect(initialPostStatus(settings({ requireModeration: true }), student)).toBe('pending');
+      expect(initialPostStatus(settings({ requireModeration: true }), staff)).toBe('approved');
+      expect(initialPostStatus(settings(), student)).toBe('approved');
+    });
+
+    it('hides pending posts from peers but not from their author or staff', () => {
+      const pending = { author_id: 'student-1', status: 'pending' as const };
+      expect(canViewPost(pending, student)).toBe(true);
+      expect(canViewPost(pending, staff)).toBe(true);
+      expect(canViewPost(pending, peer)).toBe(false);
+    });
+  });
+
+  describe('serializePost', () => {
+    const row = {
+      id: 'p1',
+      author_id: 'student-1',
+      content: 'hello',
+      is_anonymous: true,
+      status: 'approved',
+      author: { first_name: 'Ada', last_name: 'Lovelace' },
+    };
+
+    it('hides anonymous authors from peers only', () => {
+      expect(serializePost(row, peer)).toMatchObject({
+        author_id: null,
+        author_name: 'Anonymous',
+        is_own: false,
+      });
+      expect(serializePost(row, staff)).toMatchObject({
+        author_id: 'student-1',
+        author_name: 'Ada Lovelace',
+      });
+      expect(serializePost(row, student)).toMatchObject({
+        author_name: 'Ada Lovelace',
+        is_own: true,
+      });
+    });
+  });
+});
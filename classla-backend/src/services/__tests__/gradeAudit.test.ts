@@ -0,0 +1,33 @@
+import { diffGraderScores } from '../gradeAudit';
+
+describe('grade audit service', () => {
+  it('records changed score fields', () => {
+    expect(
+      diffGraderScores(
+        { raw_assignment_score: 8, score_modifier: '', late_penalty_percent: 0 },
+        { raw_assignment_score: 10, score_modifier: '-2' }
+      )
+    ).toEqual([
+      { field: 'raw_assignment_score', old_value: 8, new_value: 10 },
+      { field: 'score_modifier', old_value: '', new_value: '-2' },
+    ]);
+  });
+
+  it('ignores fields that are missing or equivalent', () => {
+    expect(diffGraderScores({ score_modifier: '' }, { score_modifier: '0' })).toEqual([]);
+    expect(diffGraderScores({ raw_rubric_score: 4 }, { raw_rubric_score: '4' })).toEqual([]);
+    expect(diffGraderScores({ raw_rubric_score: 4 }, {})).toEqual([]);
+    expect(
+      diffGraderScores(
+        { block_scores: { a: { awarded: 1, possible: 2 } } },
+        { block_scores: { a: { possible: 2, awarded: 1 } } }
+      )
+    ).toEqual([]);
+  });
+
+  it('treats a new grader as changing from nothing', () => {
+    expect(diffGraderScores(null, { raw_assignment_score: 5 })).toEqual([
+      { field: 'raw_assignment_score', old_value: null, new_value: 5 },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  DEFAULT_LETTER_SCALE,
+  GradingScheme,
+  calculateAssignmentPoints,
+  calculateGradeSummary,
+  getGradingScheme,
+  getLetterGrade,
+  validateGradingScheme,
+} from '../gradeCalculation';
+
+const scheme: GradingScheme = {
+  categories: [
+    { id: 'hw', name: 'Homework', weight: 40, dropLowest: 1 },
+    { id: 'exam', name: 'Exams', weight: 60, dropLowest: 0 },
+  ],
+  assignmentCategories: { hw1: 'hw', hw2: 'hw', hw3: 'hw', midterm: 'exam', final: 'exam' },
+  letterScale: DEFAULT_LETTER_SCALE,
+};
+
+describe('grade calculation service', () => {
+  it('pools all assignments when no categories are configured', () => {
+    const summary = calculateGradeSummary(getGradingScheme({}), [
+      { assignmentId: 'a', earned: 8, possible: 10 },
+      { assignmentId: 'b', earned: null, possible: 10 },
+    ]);
+
+    expect(summary.categories).toHaveLength(1);
+    expect(summary.runningPercent).toBe(80);
+    expect(summary.runningLetter).toBe('B');
+    expect(summary.finalPercent).toBe(40);
+    expect(summary.finalLetter).toBe('F');
+  });
+
+  it('drops the lowest scores and renormalises weights over graded categories', () => {
+    const summary = calculateGradeSummary(scheme, [
+      { assignmentId: 'hw1', earned: 10, possible: 10 },
+      { assignmentId: 'hw2', earned: 2, possible: 10 },
+      { assignmentId: 'hw3', earned: 8, possible: 10 },
+      { assignmentId: 'midterm', earned: null, possible: 100 },
+      { assignmentId: 'final', earned: null, possible: 100 },
+    ]);
+
+    const homework = summary.categories.find((c) => c.categoryId === 'hw')!;
+    expect(homework.droppedAssignmentIds).toEqual(['hw2']);
+    expect(homework.runningPercent).toBe(90);
+    // No exam has been graded, so homework carries the whole running grade
+    expect(summary.runningPercent).toBe(90);
+    expect(summary.finalPercent).toBe(36);
+  });
+
+  it('always keeps at least one score when dropping', () => {
+    const summary = calculateGradeSummary(scheme, [
+      { assignmentId: 'hw1', earned: 5, possible: 10 },
+    ]);
+
+    expect(summary.categories[0].droppedAssignmentIds).toEqual([]);
+    expect(summary.categories[0].runningPercent).toBe(50);
+  });
+
+  it('ignores assignments that are not mapped to a category', () => {
+    const summary = calculateGradeSummary(scheme, [
+      { assignmentId: 'midterm', earned: 90, possible: 100 },
+      { assignmentId: 'survey', earned: 0, possible: 5 },
+    ]);
+
+    expect(summary.runningPercent).toBe(90);
+    expect(summary.runningLetter).toBe('A');
+  });
+
+  it('returns null percentages when nothing has been graded', () => {
+    const summary = calculateGradeSummary(scheme, []);
+    expect(summary.runningPercent).toBeNull();
+    expect(summary.runningLetter).toBeNull();
+  });
+
+  it('looks up letters regardless of scale order', () => {
+    const scale = [
+      { letter: 'Fail', minPercent: 0 },
+      { letter: 'Pass', minPercent: 65 },
+    ];
+    expect(getLetterGrade(65, scale)).toBe('Pass');
+    expect(getLetterGrade(64.99, scale)).toBe('Fail');
+  });
+
+  it('rejects malformed schemes and falls back to defaults for stored ones', () => {
+    expect(validateGradingScheme(scheme)).toBeNull();
+    expect(
+      validateGradingScheme({ ...scheme, assignmentCategories: { hw1: 'quiz' } })
+    ).toMatch(/unknown category/);
+    expect(
+      validateGradingScheme({
+        ...scheme,
+        categories: [{ id: 'hw', name: 'Homework', weight: 140, dropLowest: 0 }],
+        assignmentCategories: {},
+      })
+    ).toMatch(/between 0 and 100/);
+    expect(getGradingScheme({ grading: { categories: 'nope' } }).categories).toEqual([]);
+  });
+
+  it('totals autogradable, IDE, manual short answer and rubric points', () => {
+    const content = JSON.stringify({
+      type: 'doc',
+      content: [
+        {
+          type: 'mcqBlock',
+          attrs: {
+            mcqData: {
+              id: 'q1',
+              question: 'Pick one',
+              options: [{ id: 'o1', text: 'A', isCorrect: true }],
+              allowMultiple: false,
+              points: 2,
+            },
+          },
+        },
+        { type: 'ideBlock', attrs: { ideData: { id: 'ide1', points: 5 } } },
+        {
+          type: 'shortAnswerBlock',
+          attrs: { shortAnswerData: { id: 's1', prompt: 'Why?', points: 3 } },
+        },
+      ],
+    });
+
+    expect(
+      calculateAssignmentPoints(content, {
+        items: [
+          { points: 4 },
+          { points: 1, isExtraCredit: true },
+          { points: -2 },
+        ],
+      })
+    ).toBe(14);
+    expect(calculateAssignmentPoints('not json')).toBe(0);
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  isGradeReleaseDue,
+  selectGradersToRelease,
+  validateGradeReleaseTime,
+} from '../gradeRelease';
+
+describe('grade release service', () => {
+  it('validates release times', () => {
+    expect(validateGradeReleaseTime(undefined)).toBeNull();
+    expect(validateGradeReleaseTime(null)).toBeNull();
+    expect(validateGradeReleaseTime('2026-05-01T09:00:00.000Z')).toBeNull();
+    expect(validateGradeReleaseTime('next tuesday')).toMatch(/ISO date/);
+    expect(validateGradeReleaseTime(1714554000000)).toMatch(/ISO date/);
+  });
+
+  it('is due once the scheduled time has passed', () => {
+    const now = new Date('2026-05-01T09:00:00.000Z');
+    expect(isGradeReleaseDue(null, now)).toBe(false);
+    expect(isGradeReleaseDue({ gradeReleaseAt: null }, now)).toBe(false);
+    expect(isGradeReleaseDue({ gradeReleaseAt: '2026-05-01T10:00:00.000Z' }, now)).toBe(false);
+    expect(isGradeReleaseDue({ gradeReleaseAt: '2026-05-01T09:00:00.000Z' }, now)).toBe(true);
+  });
+
+  it('releases unreturned graders of submitted attempts only', () => {
+    const submissions = [
+      { id: 's1', status: 'graded' },
+      { id: 's2', status: 'submitted' },
+      { id: 's3', status: 'in-progress' },
+      { id: 's4', status: 'graded' },
+    ];
+    const graders = [
+      { id: 'g1', submission_id: 's1', reviewed_at: null },
+      { id: 'g2', submission_id: 's2' },
+      { id: 'g3', submission_id: 's3', reviewed_at: null },
+      { id: 'g4', submission_id: 's4', reviewed_at: '2026-04-30T12:00:00.000Z' },
+    ];
+    expect(selectGradersToRelease(submissions, graders)).toEqual(['g1', 'g2']);
+  });
+});
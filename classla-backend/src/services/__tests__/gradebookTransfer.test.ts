@@ -0,0 +1,138 @@
+import {
+  GradeImportError,
+  buildGradebookSheet,
+  buildWorksheetXml,
+  parseCsv,
+  planGradeImport,
+  toCsv,
+} from '../gradebookTransfer';
+import { GradebookData } from '../../types/api';
+
+const student = (userId: string, lastName: string, sectionId: string | null) => ({
+  userId,
+  firstName: 'Student',
+  lastName,
+  email: `${userId}@example.edu`,
+  username: null,
+  sectionId,
+  sectionName: sectionId ? `Section ${sectionId}` : null,
+  sectionSlug: sectionId,
+});
+
+const gradebook = (): GradebookData =>
+  ({
+    students: [student('s2', 'Zed', 'a'), student('s1', 'Adams', 'b')],
+    assignments: [
+      {
+        id: 'hw1',
+        name: 'Homework 1',
+        content: '',
+        rubric_schema: { items: [{ points: 10 }] },
+      },
+    ],
+    submissions: [
+      { id: 'old', assignment_id: 'hw1', student_id: 's1', timestamp: '2026-01-01', status: 'submitted' },
+      { id: 'new', assignment_id: 'hw1', student_id: 's1', timestamp: '2026-01-02', status: 'submitted' },
+    ],
+    graders: [
+      { submission_id: 'old', raw_assignment_score: 2, raw_rubric_score: 0, score_modifier: '' },
+      { submission_id: 'new', raw_assignment_score: 0, raw_rubric_score: 8, score_modifier: '0.5' },
+    ],
+    gradingScheme: {
+      categories: [{ id: 'hw', name: 'Homework', weight: 100, dropLowest: 0 }],
+      assignmentCategories: { hw1: 'hw' },
+      letterScale: [],
+    },
+    gradeSummaries: {
+      s1: {
+        categories: [
+          { categoryId: 'hw', name: 'Homework', weight: 100, runningPercent: 85, finalPercent: 85, droppedAssignmentIds: [] },
+        ],
+        runningPercent: 85,
+        runningLetter: 'B',
+        finalPercent: 85,
+        finalLetter: 'B',
+      },
+    },
+  } as any);
+
+describe('gradebook transfer service', () => {
+  it('builds a sorted sheet from the latest submissions with category totals', () => {
+    const [header, ...rows] = buildGradebookSheet(gradebook());
+    expect(header).toEqual([
+      'Last Name', 'First Name', 'Email', 'Username', 'Section',
+      'Homework 1 (10 pts)', 'Homework (%)',
+      'Running (%)', 'Running Letter', 'Final (%)', 'Final Letter',
+    ]);
+    expect(rows[0]).toEqual([
+      'Adams', 'Student', 's1@example.edu', '', 'Section b', 8.5, 85, 85, 'B', 85, 'B',
+    ]);
+    expect(rows[1].slice(0, 6)).toEqual(['Zed', 'Student', 's2@example.edu', '', 'Section a', null]);
+  });
+
+  it('filters the sheet by section', () => {
+    expect(buildGradebookSheet(gradebook(), 'a')).toHaveLength(2);
+    expect(buildGradebookSheet(gradebook(), 'no-section')).toHaveLength(1);
+  });
+
+  it('escapes CSV cells and neutralises formulas', () => {
+    expect(toCsv([['a,b', 'say "hi"', '=SUM(A1)', 3, null]])).toBe(
+      '"a,b","say ""hi""",\'=SUM(A1),3,\r\n'
+    );
+  });
+
+  it('round-trips quoted CSV', () => {
+    expect(parseCsv('\uFEFFEmail,Score\r\n"x@y.edu","1,5"\n\nz@y.edu,"say ""hi"""\n')).toEqual([
+      ['Email', 'Score'],
+      ['x@y.edu', '1,5'],
+      ['z@y.edu', 'say "hi"'],
+    ]);
+  });
+
+  it('writes numbers and escaped inline strings to worksheet XML', () => {
+    const xml = buildWorksheetXml([['A & B', 7]]);
+    expect(xml).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">A &amp; B</t></is></c>');
+    expect(xml).toContain('<c r="B1"><v>7</v></c>');
+  });
+
+  it('plans an import by email or username and reports every row', () => {
+    const students = [
+      { ...student('s1', 'Adams', null), username: 'adams1' },
+      student('s2', 'Zed', null),
+    ];
+    const plan = planGradeImport(
+      parseCsv(
+        'Username,Homework 1 (10 pts)\nADAMS1,9\ns2@example.edu,7\nghost@example.edu,5\ns1@example.edu,4\ns2@example.edu,x'
+      ),
+      { assignmentName: 'Homework 1' },
+      students,
+      new Map([['s1', 8.5], ['s2', 7]])
+    );
+
+    expect(plan.scoreColumn).toBe('Homework 1 (10 pts)');
+    expect(plan.changes.map((c) => c.status)).toEqual([
+      'update', 'unchanged', 'unmatched', 'duplicate', 'duplicate',
+    ]);
+    expect(plan.changes[0]).toMatchObject({ rowNumber: 2, studentId: 's1', currentScore: 8.5, newScore: 9 });
+    expect(plan.summary).toMatchObject({ update: 1, unchanged: 1, unmatched: 1, duplicate: 2 });
+  });
+
+  it('flags blank and non-numeric scores', () => {
+    const plan = planGradeImport(
+      [['Email', 'Grade'], ['s1@example.edu', ''], ['s2@example.edu', 'A+']],
+      { assignmentName: 'Homework 1' },
+      [student('s1', 'Adams', null), student('s2', 'Zed', null)],
+      new Map()
+    );
+    expect(plan.changes.map((c) => c.status)).toEqual(['invalid', 'invalid']);
+  });
+
+  it('rejects CSVs without usable columns', () => {
+    expect(() =>
+      planGradeImport([['Name', 'Score'], ['x', '1']], { assignmentName: 'HW' }, [], new Map())
+    ).toThrow(GradeImportError);
+    expect(() =>
+      planGradeImport([['Email', 'Notes'], ['x', '1']], { assignmentName: 'HW' }, [], new Map())
+    ).toThrow(/No Score, Grade or "HW" column/);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  distributeBlocks,
+  distributeBySection,
+  distributeEvenly,
+  reassignRows,
+  summarizeProgress,
+  validateDistributionRequest,
+} from '../gradingDistribution';
+
+const loadOf = (rows: { assignee_id: string }[]) =>
+  rows.reduce<Record<string, number>>((load, row) => {
+    load[row.assignee_id] = (load[row.assignee_id] || 0) + 1;
+    return load;
+  }, {});
+
+describe('grading distribution service', () => {
+  it('validates distribution requests', () => {
+    const staff = new Set(['ta1', 'ta2']);
+    const blocks = new Set(['b1']);
+    expect(validateDistributionRequest({ strategy: 'even', assignee_ids: ['ta1'] }, staff, blocks)).toBeNull();
+    expect(validateDistributionRequest({ strategy: 'random', assignee_ids: ['ta1'] }, staff, blocks)).toMatch(/strategy/);
+    expect(validateDistributionRequest({ strategy: 'even', assignee_ids: [] }, staff, blocks)).toMatch(/at least one grader/);
+    expect(validateDistributionRequest({ strategy: 'even', assignee_ids: ['student'] }, staff, blocks)).toMatch(/instructors or TAs/);
+    expect(validateDistributionRequest({ strategy: 'block', assignee_ids: ['ta1'] }, staff, blocks)).toMatch(/at least one question/);
+    expect(
+      validateDistributionRequest({ strategy: 'block', assignee_ids: ['ta1'], block_ids: ['b2'] }, staff, blocks)
+    ).toMatch(/not found/);
+  });
+
+  it('splits students evenly', () => {
+    const rows = distributeEvenly(['s1', 's2', 's3', 's4', 's5'], ['ta1', 'ta2']);
+    expect(rows).toHaveLength(5);
+    expect(loadOf(rows)).toEqual({ ta1: 3, ta2: 2 });
+    expect(distributeEvenly(['s1'], [])).toEqual([]);
+  });
+
+  it('keeps students with their section staff and balances the rest', () => {
+    const rows = distributeBySection(
+      [
+        { id: 's1', section_id: 'A' },
+        { id: 's2', section_id: 'A' },
+        { id: 's3', section_id: 'B' },
+        { id: 's4', section_id: null },
+      ],
+      [
+        { id: 'ta1', section_id: 'A' },
+        { id: 'ta2', section_id: null },
+      ]
+    );
+    const byStudent = Object.fromEntries(rows.map((row) => [row.student_id, row.assignee_id]));
+    expect(byStudent.s1).toBe('ta1');
+    expect(byStudent.s2).toBe('ta1');
+    expect(byStudent.s3).toBe('ta2');
+    expect(byStudent.s4).toBe('ta2');
+  });
+
+  it('hands out blocks round robin', () => {
+    expect(distributeBlocks(['b1', 'b2', 'b3'], ['ta1', 'ta2'])).toEqual([
+      { assignee_id: 'ta1', block_id: 'b1' },
+      { assignee_id: 'ta2', block_id: 'b2' },
+      { assignee_id: 'ta1', block_id: 'b3' },
+    ]);
+  });
+
+  it('moves a dropped grader\'s work to the least loaded staff', () => {
+    const rows = [
+      { assignee_id: 'ta1', student_id: 's1' },
+      { assignee_id: 'ta1', student_id: 's2' },
+      { assignee_id: 'ta2', student_id: 's3' },
+      { assignee_id: 'ta2', student_id: 's4' },
+      { assignee_id: 'ta3', student_id: 's5' },
+    ];
+    const moved = reassignRows(rows, 'ta1', ['ta1', 'ta2', 'ta3']);
+    expect(moved).toEqual([
+      { assignee_id: 'ta3', student_id: 's1' },
+      { assignee_id: 'ta2', student_id: 's2' },
+    ]);
+    expect(reassignRows(rows, 'ta1', ['ta1'])).toEqual([]);
+  });
+
+  it('summarizes progress per grader', () => {
+    const rows = [
+      { assignee_id: 'ta1', student_id: 's1' },
+      { assignee_id: 'ta1', student_id: 's2' },
+      { assignee_id: 'ta2', block_id: 'b1' },
+    ];
+    const progress = summarizeProgress(rows, (row) =>
+      row.block_id ? { assigned: 4, completed: 1 } : { assigned: 1, completed: row.student_id === 's1' ? 1 : 0 }
+    );
+    expect(progress).toEqual({
+      ta1: { assigned: 2, completed: 1 },
+      ta2: { assigned: 4, completed: 1 },
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { buildGradingSuggestionPrompt, parseGradingSuggestion } from '../gradingSuggestions';
+
+const criteria = [
+  { title: 'Explains recursion', points: 4 },
+  { title: 'Mentions a base case', points: 2 },
+  { title: 'Off-topic rambling', points: -1 },
+];
+
+describe('grading suggestions service', () => {
+  it('builds a prompt with the question, sample answer, criteria and response', () => {
+    const prompt = buildGradingSuggestionPrompt({
+      kind: 'shortAnswer',
+      question: 'What is recursion?',
+      sampleAnswer: 'A function calling itself',
+      criteria,
+      allOrNothing: false,
+      response: 'It calls itself until the base case',
+    });
+    expect(prompt).toContain('What is recursion?');
+    expect(prompt).toContain('A function calling itself');
+    expect(prompt).toContain('1. Mentions a base case (2 pts)');
+    expect(prompt).toContain('It calls itself until the base case');
+    expect(prompt).toMatch(/null as the score/);
+
+    const idePrompt = buildGradingSuggestionPrompt({
+      kind: 'ideManualTests',
+      question: '',
+      criteria: [{ title: 'Readable code', points: 3 }],
+      allOrNothing: true,
+      response: '',
+    });
+    expect(idePrompt).toContain('No sample answer provided.');
+    expect(idePrompt).toContain('(no response)');
+    expect(idePrompt).toMatch(/either 0 or its full points/);
+  });
+
+  it('parses and clamps suggested scores', () => {
+    const suggestion = parseGradingSuggestion(
+      '```json\n' +
+        JSON.stringify({
+          items: [
+            { index: 0, score: 5, justification: ' Clear explanation ' },
+            { index: 1, score: 1.234, justification: 'Partly' },
+            { index: 2, score: null, justification: 'Not applicable' },
+            { index: 7, score: 3 },
+          ],
+          summary: 'Good answer',
+        }) +
+        '\n```',
+      criteria,
+      false
+    );
+    expect(suggestion.summary).toBe('Good answer');
+    expect(suggestion.items.map((item) => item.suggested)).toEqual([4, 1.23, null]);
+    expect(suggestion.items[0]).toMatchObject({
+      index: 0,
+      title: 'Explains recursion',
+      points: 4,
+      justification: 'Clear explanation',
+    });
+  });
+
+  it('snaps all-or-nothing scores and fills in skipped criteria', () => {
+    const suggestion = parseGradingSuggestion(
+      JSON.stringify({ items: [{ index: 0, score: 3 }, { index: 2, score: -0.8 }] }),
+      criteria,
+      true
+    );
+    expect(suggestion.items.map((item) => item.suggested)).toEqual([4, null, -1]);
+    expect(suggestion.items[1].justification).toBe('');
+  });
+
+  it('rejects replies that are not a suggestion', () => {
+    expect(() => parseGradingSuggestion('not json', criteria, false)).toThrow();
+    expect(() => parseGradingSuggestion('{"summary": "ok"}', criteria, false)).toThrow(
+      /valid grading suggestion/
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  expandMeetingTimes,
+  groupDueDates,
+  validateMeetingTimes,
+  zonedTimeToUtc,
+} from '../ideDemand';
+
+describe('IDE demand service', () => {
+  it('converts wall-clock times across daylight saving changes', () => {
+    // New York is UTC-4 in summer and UTC-5 in winter
+    expect(zonedTimeToUtc(2026, 7, 1, 9, 30, 'America/New_York').toISOString()).toBe(
+      '2026-07-01T13:30:00.000Z'
+    );
+    expect(zonedTimeToUtc(2026, 12, 1, 9, 30, 'America/New_York').toISOString()).toBe(
+      '2026-12-01T14:30:00.000Z'
+    );
+  });
+
+  it('expands weekly meetings inside the window', () => {
+    const meetings = [
+      {
+        id: 'lab',
+        days: [1, 3], // Monday, Wednesday
+        startTime: '14:00',
+        endTime: '15:50',
+        timeZone: 'America/Los_Angeles',
+      },
+    ];
+    // Sunday 2026-10-04 through Saturday 2026-10-10
+    const occurrences = expandMeetingTimes(
+      meetings,
+      new Date('2026-10-04T07:00:00.000Z'),
+      new Date('2026-10-11T07:00:00.000Z')
+    );
+    expect(occurrences.map((o) => [o.startsAt.toISOString(), o.endsAt.toISOString()])).toEqual([
+      ['2026-10-05T21:00:00.000Z', '2026-10-05T22:50:00.000Z'],
+      ['2026-10-07T21:00:00.000Z', '2026-10-07T22:50:00.000Z'],
+    ]);
+  });
+
+  it('groups per-student due dates whose ramp-up overlaps the window', () => {
+    const dueDates = {
+      u1: '2026-10-05T23:59:00.000Z',
+      u2: '2026-10-05T23:59:00.000Z',
+      u3: '2026-10-06T23:59:00.000Z', // extension, outside the window
+      u4: '2026-10-05T10:00:00.000Z', // already past
+      u5: 'not a date',
+    };
+    expect(
+      groupDueDates(dueDates, new Date('2026-10-05T12:00:00.000Z'), new Date('2026-10-06T12:00:00.000Z'))
+    ).toEqual([{ dueAt: new Date('2026-10-05T23:59:00.000Z'), users: 2 }]);
+  });
+
+  it('only counts students the assignment is published to', () => {
+    const dueDates = {
+      u1: '2026-10-05T23:59:00.000Z',
+      u2: '2026-10-05T23:59:00.000Z',
+      u3: '2026-10-05T23:59:00.000Z',
+    };
+    const publishTimes = {
+      u1: '2026-10-01T00:00:00.000Z',
+      u2: '2026-10-07T00:00:00.000Z', // published after the due date
+    };
+    const window = [new Date('2026-10-05T12:00:00.000Z'), new Date('2026-10-06T12:00:00.000Z')] as const;
+    expect(groupDueDates(dueDates, ...window, publishTimes)).toEqual([
+      { dueAt: new Date('2026-10-05T23:59:00.000Z'), users: 1 },
+    ]);
+    expect(groupDueDates(dueDates, ...window, {})).toEqual([]);
+  });
+
+  it('validates meeting times', () => {
+    const meeting = { id: 'm1', days: [2], startTime: '09:00', endTime: '10:15', timeZone: 'UTC' };
+    expect(validateMeetingTimes(undefined)).toBeNull();
+    expect(validateMeetingTimes([meeting])).toBeNull();
+    expect(validateMeetingTimes({})).toMatch(/array/);
+    expect(validateMeetingTimes([{ ...meeting, days: [7] }])).toMatch(/weekday/);
+    expect(validateMeetingTimes([{ ...meeting, startTime: '9am' }])).toMatch(/HH:MM/);
+    expect(validateMeetingTimes([{ ...meeting, endTime: '08:00' }])).toMatch(/end after/);
+    expect(validateMeetingTimes([{ ...meeting, timeZone: 'Mars/Olympus' }])).toMatch(/time zone/);
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  MAX_NETWORK_ALLOWLIST_DOMAINS,
+  resolveNetworkPolicy,
+  validateNetworkPolicy,
+} from '../ideNetworkPolicy';
+
+describe('IDE network policies', () => {
+  it('defaults to no access for lockdown assignments and full access otherwise', () => {
+    expect(resolveNetworkPolicy({ is_lockdown: true, settings: {} })).toEqual({ mode: 'none' });
+    expect(resolveNetworkPolicy({ is_lockdown: false, settings: null })).toEqual({ mode: 'full' });
+  });
+
+  it('uses the assignment policy over the lockdown default', () => {
+    expect(
+      resolveNetworkPolicy({ is_lockdown: true, settings: { networkPolicy: { mode: 'full' } } })
+    ).toEqual({ mode: 'full' });
+    expect(
+      resolveNetworkPolicy({
+        is_lockdown: false,
+        settings: { networkPolicy: { mode: 'none', allowlist: ['pypi.org'] } },
+      })
+    ).toEqual({ mode: 'none' });
+  });
+
+  it('normalizes allowlists', () => {
+    expect(
+      resolveNetworkPolicy({
+        settings: {
+          networkPolicy: { mode: 'allowlist', allowlist: [' PyPI.org', 'pypi.org', 'files.pythonhosted.org'] },
+        },
+      })
+    ).toEqual({ mode: 'allowlist', allowlist: ['pypi.org', 'files.pythonhosted.org'] });
+  });
+
+  it('ignores invalid stored policies', () => {
+    expect(
+      resolveNetworkPolicy({ is_lockdown: true, settings: { networkPolicy: { mode: 'open' } } })
+    ).toEqual({ mode: 'none' });
+  });
+
+  it('validates policies', () => {
+    expect(validateNetworkPolicy(undefined)).toBeNull();
+    expect(validateNetworkPolicy({ mode: 'none' })).toBeNull();
+    expect(validateNetworkPolicy({ mode: 'allowlist', allowlist: ['registry.npmjs.org'] })).toBeNull();
+    expect(validateNetworkPolicy('none')).toMatch(/object/);
+    expect(validateNetworkPolicy({ mode: 'open' })).toMatch(/mode/);
+    expect(validateNetworkPolicy({ mode: 'allowlist' })).toMatch(/at least one/);
+    expect(validateNetworkPolicy({ mode: 'allowlist', allowlist: [' '] })).toMatch(/at least one/);
+    expect(validateNetworkPolicy({ mode: 'allowlist', allowlist: [42] })).toMatch(/list of domain/);
+  });
+
+  it('rejects wildcards, addresses and oversized allowlists', () => {
+    expect(validateNetworkPolicy({ mode: 'allowlist', allowlist: ['*.github.com'] })).toMatch(/wildcards/);
+    expect(validateNetworkPolicy({ mode: 'allowlist', allowlist: ['10.0.0.1'] })).toMatch(/not a domain/);
+    expect(validateNetworkPolicy({ mode: 'allowlist', allowlist: ['https://pypi.org'] })).toMatch(/not a domain/);
+    const tooMany = Array.from({ length: MAX_NETWORK_ALLOWLIST_DOMAINS + 1 }, (_, i) => `mirror${i}.example.com`);
+    expect(validateNetworkPolicy({ mode: 'allowlist', allowlist: tooMany })).toMatch(/at most/);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  DEFAULT_IDE_RESOURCE_PROFILE,
+  resolveResourceProfile,
+  validateResourceCaps,
+} from '../ideResourceProfiles';
+
+describe('IDE resource profiles', () => {
+  it('resolves the requested profile without caps', () => {
+    const resolved = resolveResourceProfile('data_science');
+    expect(resolved).toEqual({
+      name: 'data_science',
+      resources: {
+        cpuCores: 4,
+        memoryMb: 8192,
+        diskMb: 20480,
+        idleTimeoutSeconds: 1800,
+        vncEnabled: false,
+      },
+      capped: false,
+    });
+  });
+
+  it('falls back to the default profile for unknown names', () => {
+    expect(resolveResourceProfile(undefined).name).toBe(DEFAULT_IDE_RESOURCE_PROFILE);
+    expect(resolveResourceProfile('huge').name).toBe(DEFAULT_IDE_RESOURCE_PROFILE);
+    expect(resolveResourceProfile('huge').capped).toBe(false);
+  });
+
+  it('clamps resources to the caps', () => {
+    const resolved = resolveResourceProfile('data_science', {
+      maxCpuCores: 2,
+      maxMemoryMb: 6144,
+      maxIdleTimeoutMinutes: 15,
+    });
+    expect(resolved.capped).toBe(true);
+    expect(resolved.resources).toMatchObject({
+      cpuCores: 2,
+      memoryMb: 6144,
+      diskMb: 20480,
+      idleTimeoutSeconds: 900,
+    });
+  });
+
+  it('swaps profiles the organization does not allow', () => {
+    expect(resolveResourceProfile('gui', { allowedProfiles: ['light', 'standard'] })).toMatchObject({
+      name: 'standard',
+      capped: true,
+    });
+    expect(resolveResourceProfile('gui', { allowedProfiles: ['light'] }).name).toBe('light');
+  });
+
+  it('turns VNC off when the organization disallows it', () => {
+    const resolved = resolveResourceProfile('gui', { allowVnc: false });
+    expect(resolved.resources.vncEnabled).toBe(false);
+    expect(resolved.capped).toBe(true);
+    // Profiles without VNC aren't changed by the cap
+    expect(resolveResourceProfile('light', { allowVnc: false }).capped).toBe(false);
+  });
+
+  it('validates caps', () => {
+    expect(validateResourceCaps(undefined)).toBeNull();
+    expect(validateResourceCaps({ maxCpuCores: 2, allowedProfiles: ['light'], allowVnc: false })).toBeNull();
+    expect(validateResourceCaps([])).toMatch(/object/);
+    expect(validateResourceCaps({ allowedProfiles: [] })).toMatch(/allowedProfiles/);
+    expect(validateResourceCaps({ allowedProfiles: ['huge'] })).toMatch(/allowedProfiles/);
+    expect(validateResourceCaps({ maxMemoryMb: 0 })).toMatch(/maxMemoryMb/);
+    expect(validateResourceCaps({ allowVnc: 'no' })).toMatch(/allowVnc/);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  LatePolicy,
+  evaluateLatePenalty,
+  evaluateSubmissionLatePenalty,
+  getLatePolicy,
+  validateLatePolicy,
+} from '../latePolicy';
+import { getGraderScore, getLatePenaltyPoints } from '../gradeCalculation';
+
+const policy = (overrides: Partial<LatePolicy> = {}): LatePolicy => ({
+  penaltyPercent: 10,
+  penaltyUnit: 'day',
+  gracePeriodMinutes: 0,
+  maxLateDays: null,
+  zeroAfterCutoff: false,
+  ...overrides,
+});
+
+const due = '2026-03-01T12:00:00Z';
+const after = (minutes: number) =>
+  new Date(new Date(due).getTime() + minutes * 60 * 1000);
+
+describe('late policy service', () => {
+  it('does not penalise on-time submissions', () => {
+    expect(evaluateLatePenalty(policy(), due, after(0))).toEqual({
+      isLate: false,
+      minutesLate: 0,
+      penaltyPercent: 0,
+      pastCutoff: false,
+    });
+  });
+
+  it('charges every started day or hour', () => {
+    expect(evaluateLatePenalty(policy(), due, after(1)).penaltyPercent).toBe(10);
+    expect(evaluateLatePenalty(policy(), due, after(25 * 60)).penaltyPercent).toBe(20);
+    expect(
+      evaluateLatePenalty(policy({ penaltyUnit: 'hour', penaltyPercent: 5 }), due, after(90))
+        .penaltyPercent
+    ).toBe(10);
+  });
+
+  it('applies the grace period before penalising but still reports lateness', () => {
+    const result = evaluateLatePenalty(policy({ gracePeriodMinutes: 15 }), due, after(10));
+    expect(result.isLate).toBe(true);
+    expect(result.minutesLate).toBe(10);
+    expect(result.penaltyPercent).toBe(0);
+  });
+
+  it('caps the penalty at 100 percent', () => {
+    expect(
+      evaluateLatePenalty(policy({ penaltyPercent: 40 }), due, after(5 * 24 * 60)).penaltyPercent
+    ).toBe(100);
+  });
+
+  it('zeroes or flags submissions past the cutoff', () => {
+    const late = after(3 * 24 * 60);
+    expect(
+      evaluateLatePenalty(policy({ maxLateDays: 2, zeroAfterCutoff: true }), due, late)
+    ).toMatchObject({ pastCutoff: true, penaltyPercent: 100 });
+    expect(
+      evaluateLatePenalty(policy({ maxLateDays: 2 }), due, late)
+    ).toMatchObject({ pastCutoff: true, penaltyPercent: 30 });
+  });
+
+  it('reports lateness without a penalty when no policy is set', () => {
+    expect(evaluateLatePenalty(null, due, after(60))).toMatchObject({
+      isLate: true,
+      penaltyPercent: 0,
+    });
+  });
+
+  it('uses the student due date and skips in-progress work', () => {
+    const assignment = {
+      settings: { latePolicy: policy() },
+      due_dates_map: { student: due },
+    };
+    expect(
+      evaluateSubmissionLatePenalty(assignment, {
+        student_id: 'student',
+        timestamp: after(60),
+        status: 'submitted',
+      }).penaltyPercent
+    ).toBe(10);
+    expect(
+      evaluateSubmissionLatePenalty(assignment, {
+        student_id: 'student',
+        timestamp: after(60),
+        status: 'in-progress',
+      }).penaltyPercent
+    ).toBe(0);
+    expect(
+      evaluateSubmissionLatePenalty(assignment, {
+        student_id: 'other',
+        timestamp: after(60),
+        status: 'submitted',
+      }).isLate
+    ).toBe(false);
+  });
+
+  it('validates stored policies', () => {
+    expect(validateLatePolicy(policy())).toBeNull();
+    expect(validateLatePolicy(policy({ penaltyPercent: 120 }))).toMatch(/between 0 and 100/);
+    expect(validateLatePolicy({ ...policy(), penaltyUnit: 'week' })).toMatch(/unit/);
+    expect(getLatePolicy({ latePolicy: { penaltyPercent: 'lots' } })).toBeNull();
+  });
+
+  it('deducts the penalty from raw scores but not the modifier', () => {
+    const grader = {
+      raw_assignment_score: '8',
+      raw_rubric_score: '2',
+      score_modifier: '1',
+      late_penalty_percent: '20',
+    };
+    expect(getLatePenaltyPoints(grader)).toBe(2);
+    expect(getGraderScore(grader)).toBe(9);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  PollSettings,
+  canViewPollResults,
+  enforcePollAnswerRules,
+  getPollBlocks,
+  tallyPollVotes,
+} from '../poll';
+
+const poll = (overrides: Partial<PollSettings> = {}): PollSettings => ({
+  id: 'poll',
+  options: [
+    { id: 'a', text: 'A' },
+    { id: 'b', text: 'B' },
+  ],
+  selectionType: 'single',
+  showResults: 'after-voting',
+  allowAnswerChange: false,
+  ...overrides,
+});
+
+const past = '2020-01-01T00:00:00Z';
+
+describe('poll service', () => {
+  it('finds poll blocks and applies editor defaults', () => {
+    const content = JSON.stringify({
+      type: 'doc',
+      content: [{ type: 'pollBlock', attrs: { pollData: { id: 'p1', options: [] } } }],
+    });
+    expect(getPollBlocks(content)).toEqual([
+      {
+        id: 'p1',
+        options: [],
+        selectionType: 'single',
+        showResults: 'after-voting',
+        allowAnswerChange: false,
+        closeDate: undefined,
+      },
+    ]);
+  });
+
+  describe('tallyPollVotes', () => {
+    it('counts one selection per student on single-choice polls and ignores stale options', () => {
+      const tally = tallyPollVotes(poll(), [['a'], ['b', 'a'], ['removed'], undefined, ['a']]);
+      expect(tally).toEqual({ counts: { a: 2, b: 1 }, totalResponses: 3 });
+    });
+
+    it('counts every selection on multiple-choice polls', () => {
+      const tally = tallyPollVotes(poll({ selectionType: 'multiple' }), [['a', 'b'], ['b']]);
+      expect(tally).toEqual({ counts: { a: 1, b: 2 }, totalResponses: 2 });
+    });
+  });
+
+  describe('canViewPollResults', () => {
+    it('follows showResults for students and always allows staff', () => {
+      const voter = { isStaff: false, hasVoted: true };
+      const nonVoter = { isStaff: false, hasVoted: false };
+
+      expect(canViewPollResults(poll(), voter)).toBe(true);
+      expect(canViewPollResults(poll(), nonVoter)).toBe(false);
+      expect(canViewPollResults(poll({ showResults: 'after-close' }), voter)).toBe(false);
+      expect(
+        canViewPollResults(poll({ showResults: 'after-close', closeDate: past }), nonVoter)
+      ).toBe(true);
+      expect(canViewPollResults(poll({ showResults: 'never' }), voter)).toBe(false);
+      expect(canViewPollResults(poll({ showResults: 'never' }), { isStaff: true, hasVoted: false })).toBe(
+        true
+      );
+    });
+  });
+
+  describe('enforcePollAnswerRules', () => {
+    it('keeps the first vote when answer changes are not allowed', () => {
+      const result = enforcePollAnswerRules([poll()], { poll: ['a'], q1: ['x'] }, { poll: ['b'], q1: ['y'] });
+      expect(result.values).toEqual({ poll: ['a'], q1: ['y'] });
+      expect(result.lockedPollIds).toEqual(['poll']);
+      expect(result.changedPollIds).toEqual([]);
+    });
+
+    it('allows the first vote and later changes when permitted', () => {
+      expect(enforcePollAnswerRules([poll()], {}, { poll: ['a'] }).changedPollIds).toEqual(['poll']);
+      expect(
+        enforcePollAnswerRules([poll({ allowAnswerChange: true })], { poll: ['a'] }, { poll: ['b'] })
+          .values
+      ).toEqual({ poll: ['b'] });
+    });
+
+    it('refuses any change after the close date', () => {
+      const result = enforcePollAnswerRules(
+        [poll({ allowAnswerChange: true, closeDate: past })],
+        {},
+        { poll: ['a'] }
+      );
+      expect(result.values).toEqual({});
+      expect(result.lockedPollIds).toEqual(['poll']);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  MAX_REGRADE_REASON_LENGTH,
+  isSameRegradeTarget,
+  validateRegradeRequest,
+  validateRegradeResolution,
+} from '../regradeRequests';
+
+const assignment = { blockIds: new Set(['block-1', 'block-2']), rubricItemCount: 3 };
+
+describe('regrade requests service', () => {
+  it('accepts requests for a block or a rubric item', () => {
+    expect(validateRegradeRequest({ block_id: 'block-1', reason: 'Part (b) is correct' }, assignment)).toBeNull();
+    expect(validateRegradeRequest({ rubric_item_index: 2, reason: 'Style was fine' }, assignment)).toBeNull();
+  });
+
+  it('rejects requests with a bad target or reason', () => {
+    expect(validateRegradeRequest({ reason: 'Please' }, assignment)).toMatch(/either/);
+    expect(
+      validateRegradeRequest({ block_id: 'block-1', rubric_item_index: 0, reason: 'Both' }, assignment)
+    ).toMatch(/either/);
+    expect(validateRegradeRequest({ block_id: 'other', reason: 'x' }, assignment)).toMatch(/Block/);
+    expect(validateRegradeRequest({ rubric_item_index: 3, reason: 'x' }, assignment)).toMatch(/Rubric/);
+    expect(validateRegradeRequest({ rubric_item_index: 1.5, reason: 'x' }, assignment)).toMatch(/Rubric/);
+    expect(validateRegradeRequest({ block_id: 'block-2', reason: ' ' }, assignment)).toMatch(/explain/);
+    expect(
+      validateRegradeRequest(
+        { block_id: 'block-2', reason: 'x'.repeat(MAX_REGRADE_REASON_LENGTH + 1) },
+        assignment
+      )
+    ).toMatch(/characters/);
+  });
+
+  it('validates resolutions', () => {
+    expect(validateRegradeResolution({ status: 'accepted', score_modifier: '2' })).toBeNull();
+    expect(validateRegradeResolution({ status: 'rejected', response: 'Rubric applied as written' })).toBeNull();
+    expect(validateRegradeResolution({ status: 'open' })).toMatch(/status/);
+    expect(validateRegradeResolution({ status: 'accepted', score_modifier: 'two' })).toMatch(/number/);
+  });
+
+  it('compares targets', () => {
+    expect(isSameRegradeTarget({ block_id: 'a' }, { block_id: 'a', rubric_item_index: null })).toBe(true);
+    expect(isSameRegradeTarget({ block_id: 'a' }, { rubric_item_index: 0 })).toBe(false);
+  });
+});
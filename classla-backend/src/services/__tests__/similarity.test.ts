@@ -0,0 +1,105 @@
+import {
+  findMatchRegions,
+  fingerprintFile,
+  fingerprintFiles,
+  rankSimilarPairs,
+  tokenize,
+} from '../similarity';
+
+const original = `
+def total(values):
+    # Sum the positive values
+    result = 0
+    for value in values:
+        if value > 0:
+            result += value
+    return result
+`;
+
+// Same code with renamed variables and different comments
+const renamed = `
+def add_up(nums):
+    # Adds them up
+    acc = 0
+    for n in nums:
+        if n > 0:
+            acc += n
+    return acc
+`;
+
+const unrelated = `
+class Stack:
+    def __init__(self):
+        self.items = []
+
+    def push(self, item):
+        self.items.append(item)
+
+    def pop(self):
+        return self.items.pop()
+`;
+
+describe('similarity service', () => {
+  it('tokenizes without comments and with normalized names and literals', () => {
+    const tokens = tokenize('int x = 42; // answer\n/* block\ncomment */ print("hi")');
+    expect(tokens.map((token) => token.text)).toEqual([
+      'int', 'ID', '=', 'NUM', ';', 'print', '(', 'STR', ')',
+    ]);
+    expect(tokens[tokens.length - 1].line).toBe(3);
+  });
+
+  it('fingerprints renamed code identically', () => {
+    const hashes = (source: string) =>
+      fingerprintFile({ path: 'main.py', content: source }).map((fingerprint) => fingerprint.hash);
+    expect(hashes(original).length).toBeGreaterThan(0);
+    expect(hashes(renamed)).toEqual(hashes(original));
+    expect(fingerprintFile({ path: 'a.py', content: 'x = 1' })).toEqual([]);
+  });
+
+  it('ranks copied pairs first and ignores template code', () => {
+    const subjects = [
+      { id: 'a', fingerprints: fingerprintFiles([{ path: 'main.py', content: original }]) },
+      { id: 'b', fingerprints: fingerprintFiles([{ path: 'main.py', content: renamed }]) },
+      { id: 'c', fingerprints: fingerprintFiles([{ path: 'main.py', content: unrelated }]) },
+    ];
+    const pairs = rankSimilarPairs(subjects);
+    expect(pairs[0]).toMatchObject({ a: 'a', b: 'b', similarity: 1 });
+    expect(pairs.some((pair) => pair.b === 'c')).toBe(false);
+
+    const template = new Set(subjects[0].fingerprints.map((fingerprint) => fingerprint.hash));
+    const withoutTemplate = subjects.map((subject) => ({
+      ...subject,
+      fingerprints: fingerprintFiles([{ path: 'main.py', content: original }], template),
+    }));
+    expect(rankSimilarPairs(withoutTemplate)).toEqual([]);
+
+    const priorOnly = subjects.map((subject) => ({ ...subject, prior: subject.id !== 'c' }));
+    expect(rankSimilarPairs(priorOnly)).toEqual([]);
+  });
+
+  it('keeps a large copied cluster and drops code nearly everyone shares', () => {
+    const subjects = Array.from({ length: 300 }, (_, index) => ({
+      id: `s${index}`,
+      fingerprints: fingerprintFiles([
+        { path: 'main.py', content: index < 12 ? original : unrelated },
+      ]),
+    }));
+
+    const pairs = rankSimilarPairs(subjects);
+    expect(pairs).toHaveLength((12 * 11) / 2);
+    expect(
+      pairs.every((pair) => Number(pair.a.slice(1)) < 12 && Number(pair.b.slice(1)) < 12)
+    ).toBe(true);
+    expect(pairs[0].similarity).toBe(1);
+  });
+
+  it('merges shared fingerprints into line regions', () => {
+    const a = fingerprintFile({ path: 'a.py', content: original });
+    const b = fingerprintFile({ path: 'b.py', content: `\n\n${renamed}` });
+    const regions = findMatchRegions(a, b);
+    expect(regions).toHaveLength(1);
+    expect(regions[0]).toMatchObject({ pathA: 'a.py', pathB: 'b.py' });
+    expect(regions[0].startLineB - regions[0].startLineA).toBe(2);
+    expect(regions[0].endLineB - regions[0].endLineA).toBe(2);
+  });
+});
@@ -13,6 +13,21 @@ import { logger } from "../utils/logger";
 import { supabase } from "../middleware/auth";
 import { notifyAssignmentQuery, notifyParsingError, notifyRequestError } from "./discord";
 import { webSearch, formatSearchResultsForPrompt } from "./search";
+import {
+  GRADING_SUGGESTION_SYSTEM_PROMPT,
+  GradingCriterion,
+  GradingSuggestion,
+  SuggestionKind,
+  buildGradingSuggestionPrompt,
+  parseGradingSuggestion,
+} from "./gradingSuggestions";
+import { findBlockData } from "../utils/blockContent";
+import {
+  IDELanguage,
+  IDE_LANGUAGE_EXTENSIONS,
+  IDE_LANGUAGE_FRAMEWORKS,
+  IDE_UNIT_TEST_FRAMEWORKS,
+} from "../types/constants";
 
 // S3 client for IDE bucket creation
 const S3_DEFAULT_REGION = "us-east-1";
@@ -375,7 +390,7 @@ Best for: Programming exercises, coding challenges
     }
   }
 }
-language options: "python", "java"
+language options: "python", "java", "c", "cpp", "javascript", "typescript", "go" (default_run_file: main.py, Main.java, main.c, main.cpp, main.js, main.ts, main.go)
 test types: "inputOutput" (stdin/stdout), "unitTest" (code assertions), "manualGrading" (instructor reviews)
 
 CRITICAL AUTOGRADER TEST FORMAT:
@@ -383,6 +398,7 @@ CRITICAL AUTOGRADER TEST FORMAT:
 - unitTest (Python): The "code" field MUST be a COMPLETE unittest file with imports, a TestCase class, and test methods. Example:
   "code": "import unittest\\nfrom main import my_function\\n\\nclass TestMyFunction(unittest.TestCase):\\n    def test_case_1(self):\\n        self.assertEqual(my_function(5), 25)\\n\\n    def test_case_2(self):\\n        self.assertEqual(my_function(0), 0)\\n\\nif __name__ == '__main__':\\n    unittest.main()"
 - unitTest (Java): The "code" field MUST be a COMPLETE JUnit test file with imports and a test class.
+- unitTest (other languages): set "framework" to "gtest" (C/C++), "jest" (JavaScript/TypeScript) or "gotest" (Go) and give a COMPLETE test file for that framework.
 
 IMPORTANT: When generating IDE blocks:
 1. Always include templateFiles with starter code that students will modify
@@ -1022,6 +1038,19 @@ Return a JSON object with a files array. Your ENTIRE response must be valid JSON
   }
 };
 
+// What a complete generated test file looks like for each framework
+const UNIT_TEST_FILE_REQUIREMENTS: Record<(typeof IDE_UNIT_TEST_FRAMEWORKS)[number], string> = {
+  unittest:
+    "Each test must be a COMPLETE unittest file with imports, a TestCase class, and test methods. Import from the main module file (e.g., 'from main import function_name'). Include 'if __name__ == \"__main__\": unittest.main()' at the end.",
+  junit: "Each test must be a COMPLETE JUnit test file with imports and a test class.",
+  gtest:
+    "Each test must be a COMPLETE GoogleTest file that includes <gtest/gtest.h> and declares the functions under test (inside extern \"C\" { } for C code). Do not define main(); the student's main() is renamed when tests run.",
+  jest:
+    "Each test must be a COMPLETE Jest test file that requires or imports the functions under test from the main file (e.g., require('./main')) and uses test()/expect().",
+  gotest:
+    "Each test must be a COMPLETE Go test file in package main that imports \"testing\" and defines TestXxx(t *testing.T) functions.",
+};
+
 /**
  * Generate unit tests for an IDE block using AI
  */
@@ -1119,12 +1148,16 @@ export const generateUnitTests = async (options: {
   // Get existing tests and language
   const existingTests = ideData.autograder?.tests || [];
 
-  // Infer language from template/model solution file extensions
+  // Use the block's language, falling back to template/model solution file extensions
   const allFiles = [...templateFiles, ...modelSolutionFiles];
-  const hasJava = allFiles.some((f) => f.path.endsWith(".java"));
-  const hasPython = allFiles.some((f) => f.path.endsWith(".py"));
-  const language = hasJava ? "java" : hasPython ? "python" : "python";
-  logger.info("Inferred language from file extensions", {
+  const inferredLanguage = allFiles
+    .map((f) => IDE_LANGUAGE_EXTENSIONS[f.path.split(".").pop()?.toLowerCase() || ""])
+    .find(Boolean);
+  const language: IDELanguage =
+    ideData.settings?.language in IDE_LANGUAGE_FRAMEWORKS
+      ? ideData.settings.language
+      : inferredLanguage || "python";
+  logger.info("Resolved IDE block language", {
     language,
     filePaths: allFiles.map((f) => f.path),
   });
@@ -1181,7 +1214,7 @@ export const generateUnitTests = async (options: {
   }
 
   // Determine framework
-  const framework = language === "java" ? "junit" : "unittest";
+  const framework = IDE_LANGUAGE_FRAMEWORKS[language];
 
   // Build the prompt
   const prompt = `You are a coding assistant. Generate unit tests for this programming exercise.
@@ -1206,7 +1239,7 @@ ${existingTestsContext}
 - Generate 3-5 meaningful unit tests with descriptive names
 - Each test should test a different aspect of the solution
 - Tests should be appropriate for the template code structure
-- ${language === "python" ? "Each test must be a COMPLETE unittest file with imports, a TestCase class, and test methods. Import from the main module file (e.g., 'from main import function_name'). Include 'if __name__ == \"__main__\": unittest.main()' at the end." : "Each test must be a COMPLETE JUnit test file with imports and a test class."}
+- ${UNIT_TEST_FILE_REQUIREMENTS[framework]}
 - Do NOT duplicate any existing tests
 - Assign reasonable point values (2-5 points each)
 
@@ -1287,7 +1320,7 @@ Return a JSON object. Your ENTIRE response must be valid JSON starting with { an
       name: test.name,
       code: test.code,
       points: test.points || 3,
-      framework: test.framework || framework,
+      framework: IDE_UNIT_TEST_FRAMEWORKS.includes(test.framework) ? test.framework : framework,
     }));
 
     // Update LLM call log with success
@@ -1336,8 +1369,265 @@ Return a JSON object. Your ENTIRE response must be valid JSON starting with { an
   }
 };
 
+/**
+ * Points the graded attempt earned on an IDE block's executable tests: the
+ * latest run the autograder recorded for the submission, otherwise the
+ * student's latest run while the attempt was open
+ */
+const getAttemptTestPoints = async (
+  submissionId: string,
+  submission: { assignment_id: string; student_id: string; status: string; created_at: string; timestamp: string },
+  blockId: string
+): Promise<number> => {
+  const { data: gradedRun } = await supabase
+    .from("ide_test_runs")
+    .select("points_earned")
+    .eq("submission_id", submissionId)
+    .eq("block_id", blockId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (gradedRun) {
+    return Number(gradedRun.points_earned);
+  }
+
+  let query = supabase
+    .from("ide_test_runs")
+    .select("points_earned")
+    .eq("assignment_id", submission.assignment_id)
+    .eq("student_id", submission.student_id)
+    .eq("block_id", blockId)
+    .is("submission_id", null)
+    .gte("created_at", submission.created_at);
+  if (submission.status !== "in-progress" && submission.status !== "not-started") {
+    // Runs after submitting belong to the next attempt
+    query = query.lte("created_at", submission.timestamp);
+  }
+  const { data: studentRun } = await query
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return studentRun ? Number(studentRun.points_earned) : 0;
+};
+
+/**
+ * Suggest a score for a manually graded short answer (per rubric item) or
+ * the manualGrading tests of an IDE block (per test). Nothing is saved to
+ * the grader; for IDE blocks `basePoints` is what the graded attempt's
+ * executable tests earned, so the grader can add accepted manual points to it.
+ */
+export const suggestGrade = async (options: {
+  submissionId: string;
+  blockId: string;
+  userId: string;
+  courseId: string;
+}): Promise<GradingSuggestion & { kind: SuggestionKind; basePoints: number }> => {
+  const { submissionId, blockId, userId, courseId } = options;
+
+  const { data: submission, error: submissionError } = await supabase
+    .from("submissions")
+    .select("assignment_id, student_id, values, status, created_at, timestamp")
+    .eq("id", submissionId)
+    .single();
+
+  if (submissionError || !submission) {
+    throw new Error("Submission not found");
+  }
+
+  const { data: assignment, error: assignmentError } = await supabase
+    .from("assignments")
+    .select("content")
+    .eq("id", submission.assignment_id)
+    .single();
+
+  if (assignmentError || !assignment) {
+    throw new Error("Assignment not found");
+  }
+
+  const shortAnswer = findBlockData(
+    assignment.content,
+    "shortAnswerBlock",
+    "shortAnswerData",
+    blockId
+  );
+  const ideData = shortAnswer
+    ? null
+    : findBlockData(assignment.content, "ideBlock", "ideData", blockId);
+
+  let kind: SuggestionKind;
+  let question = "";
+  let sampleAnswer: string | undefined;
+  let criteria: GradingCriterion[];
+  let allOrNothing = false;
+  let response = "";
+  let basePoints = 0;
+
+  if (shortAnswer) {
+    if (shortAnswer.gradingType === "keyword" || shortAnswer.gradingType === "regex") {
+      throw new Error("This short answer is autograded");
+    }
+
+    const { data: schema } = await supabase
+      .from("rubric_schemas")
+      .select("type, items")
+      .eq("assignment_id", submission.assignment_id)
+      .maybeSingle();
+
+    if (!schema || !Array.isArray(schema.items) || schema.items.length === 0) {
+      throw new Error("Add a rubric to this assignment to get suggestions for short answers");
+    }
+
+    kind = "shortAnswer";
+    question = (shortAnswer.prompt || "").replace(/<[^>]+>/g, " ");
+    sampleAnswer = shortAnswer.sampleAnswer;
+    criteria = schema.items.map((item: any) => ({
+      title: item.title,
+      points: Number(item.points) || 0,
+    }));
+    allOrNothing = schema.type === "checkbox";
+
+    const value = submission.values?.[blockId];
+    response = Array.isArray(value) ? value.join("\n") : typeof value === "string" ? value : "";
+  } else if (ideData) {
+    const manualTests = (ideData.autograder?.tests || []).filter(
+      (test: any) => test.type === "manualGrading"
+    );
+    if (manualTests.length === 0) {
+      throw new Error("This IDE block has no manually graded tests");
+    }
+
+    kind = "ideManualTests";
+    criteria = manualTests.map((test: any) => ({
+      title: test.name || "Manual test",
+      points: typeof test.points === "number" ? test.points : 0,
+    }));
+
+    // The exercise is described by the assignment text around the block
+    const content = JSON.parse(assignment.content);
+    const extractText = (nodes: any[]) => {
+      for (const node of nodes) {
+        if (node.type === "text" && node.text) {
+          question += node.text;
+        } else if (node.type === "paragraph" || node.type === "heading") {
+          if (node.content) extractText(node.content);
+          question += "\n";
+        } else if (node.content) {
+          extractText(node.content);
+        }
+      }
+    };
+    if (content?.content) {
+      extractText(content.content);
+    }
+
+    const snapshotBucketId = submission.values?.[blockId]?.s3_snapshot_bucket_id;
+    if (snapshotBucketId) {
+      const { data: bucket } = await supabase
+        .from("s3_buckets")
+        .select("bucket_name")
+        .eq("id", snapshotBucketId)
+        .single();
+      if (bucket) {
+        const files = await readBucketFiles(bucket.bucket_name);
+        response = files
+          .map((f) => `### ${f.path}\n\`\`\`\n${f.content}\n\`\`\``)
+          .join("\n\n");
+      }
+    }
+
+    basePoints = await getAttemptTestPoints(submissionId, submission, blockId);
+  } else {
+    throw new Error("Block not found in assignment");
+  }
+
+  const prompt = buildGradingSuggestionPrompt({
+    kind,
+    question,
+    sampleAnswer,
+    criteria,
+    allOrNothing,
+    response,
+  });
+
+  // Create LLM call log entry
+  let llmCallId: string | null = null;
+  try {
+    const { data: llmCall } = await supabase
+      .from("llm_calls")
+      .insert({
+        assignment_id: submission.assignment_id,
+        user_id: userId,
+        course_id: courseId,
+        prompt: prompt.substring(0, 10000),
+        success: false,
+      })
+      .select("id")
+      .single();
+
+    if (llmCall) llmCallId = llmCall.id;
+  } catch (logError) {
+    logger.error("Error creating LLM call log entry", {
+      error: logError instanceof Error ? logError.message : "Unknown",
+    });
+  }
+
+  try {
+    logger.info("Suggesting grade", { submissionId, blockId, kind });
+
+    const { text: rawText } = await generateText({
+      model: getMainModel(),
+      maxOutputTokens: 4096,
+      system: GRADING_SUGGESTION_SYSTEM_PROMPT,
+      messages: [{ role: "user", content: prompt }],
+    });
+
+    if (!rawText) {
+      throw new Error("Unexpected response format from AI model");
+    }
+
+    const suggestion = parseGradingSuggestion(rawText, criteria, allOrNothing);
+
+    if (llmCallId) {
+      try {
+        await supabase
+          .from("llm_calls")
+          .update({
+            success: true,
+            llm_response: rawText.substring(0, 100000),
+          })
+          .eq("id", llmCallId);
+      } catch (updateError) {
+        logger.error("Failed to update LLM call log", {
+          error: updateError instanceof Error ? updateError.message : "Unknown",
+        });
+      }
+    }
+
+    return { ...suggestion, kind, basePoints };
+  } catch (error: any) {
+    if (llmCallId) {
+      try {
+        await supabase
+          .from("llm_calls")
+          .update({
+            success: false,
+            error: error.message || "Unknown error",
+          })
+          .eq("id", llmCallId);
+      } catch (updateError) {
+        logger.error("Failed to update LLM call log with error", {
+          error: updateError instanceof Error ? updateError.message : "Unknown",
+        });
+      }
+    }
+
+    throw error;
+  }
+};
+
 export default {
   generateContent,
   generateModelSolution,
   generateUnitTests,
+  suggestGrade,
 };
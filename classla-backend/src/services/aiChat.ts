@@ -182,7 +182,7 @@ gradingType options: "manual", "keyword", "regex"
   }
 }
 After creating an IDE block, use write_ide_files to add template and model solution files.
-language options: "python", "java"
+language options: "python", "java", "c", "cpp", "javascript", "typescript", "go" (default_run_file: main.py, Main.java, main.c, main.cpp, main.js, main.ts, main.go)
 
 ### Parsons Problem Block
 {
@@ -879,10 +879,18 @@ async function handleGetAutograderTests(
     if (t.type === "inputOutput") {
       detail += `\n      input: ${JSON.stringify(t.input || "")}`;
       detail += `\n      expectedOutput: ${JSON.stringify(t.expectedOutput || "")}`;
+      if (t.comparison && t.comparison !== "exact") detail += `\n      comparison: ${t.comparison}`;
+      if (t.comparison === "floatTolerance") detail += `\n      floatTolerance: ${t.floatTolerance ?? 1e-6}`;
+      if (t.comparison === "customChecker") detail += `\n      checkerScript: ${JSON.stringify(t.checkerScript || "")}`;
     } else if (t.type === "unitTest") {
       detail += `\n      framework: ${t.framework || "unittest"}`;
       detail += `\n      code: ${JSON.stringify(t.code || "")}`;
     }
+    if (t.type !== "manualGrading") {
+      if (t.timeLimitSeconds) detail += `\n      timeLimitSeconds: ${t.timeLimitSeconds}`;
+      if (t.memoryLimitMb) detail += `\n      memoryLimitMb: ${t.memoryLimitMb}`;
+      if (t.hidden) detail += `\n      hidden: true`;
+    }
     return detail;
   });
 
@@ -1028,6 +1036,9 @@ async function handleGetAssignmentSettings(
   result += "SETTINGS:\n";
   result += `- allowLateSubmissions: ${settings.allowLateSubmissions ?? false}\n`;
   result += `- allowResubmissions: ${settings.allowResubmissions ?? false}\n`;
+  result += `- maxAttempts: ${settings.maxAttempts ?? "unlimited"}\n`;
+  result += `- attemptCooldownMinutes: ${settings.attemptCooldownMinutes ?? 0}\n`;
+  result += `- attemptScoring: ${settings.attemptScoring ?? "last"}\n`;
   result += `- showResponsesAfterSubmission: ${settings.showResponsesAfterSubmission ?? false}\n`;
   result += `- showScoreAfterSubmission: ${settings.showScoreAfterSubmission ?? false}\n`;
   result += `- timeLimitSeconds: ${settings.timeLimitSeconds ?? "not set"}\n`;
@@ -1,6 +1,11 @@
 import { z } from "zod";
 import { tool, zodSchema } from "ai";
 import type { ToolSet } from "ai";
+import {
+  IDE_OUTPUT_COMPARISON_MODES,
+  IDE_UNIT_TEST_FRAMEWORKS,
+} from "../types/constants";
+import { ATTEMPT_SCORING_POLICIES } from "./attemptPolicy";
 
 // Tool definitions using Vercel AI SDK v6 tool() with Zod schemas.
 // No execute functions — execution stays in executeTool() in aiChat.ts.
@@ -133,7 +138,7 @@ const getAutograderTests = tool({
 
 const setAutograderTests = tool({
   description:
-    'Set the autograder test cases for an IDE block. Replaces all existing tests. Each test must have an id (UUID), name, type ("inputOutput", "unitTest", or "manualGrading"), and points. inputOutput tests have input and expectedOutput fields. unitTest tests have a code field and optional framework field ("unittest" or "junit"). manualGrading tests only need name and points.',
+    'Set the autograder test cases for an IDE block. Replaces all existing tests. Each test must have an id (UUID), name, type ("inputOutput", "unitTest", or "manualGrading"), and points. inputOutput tests have input and expectedOutput fields and an optional comparison mode. unitTest tests have a code field and optional framework field ("unittest", "junit", "gtest", "jest" or "gotest"). manualGrading tests only need name and points.',
   inputSchema: zodSchema(
     z.object({
       block_index: z
@@ -155,15 +160,49 @@ const setAutograderTests = tool({
             expectedOutput: z
               .string()
               .optional()
-              .describe("Expected stdout for inputOutput tests."),
+              .describe("Expected stdout for inputOutput tests. A regular expression when comparison is \"regex\"."),
+            comparison: z
+              .enum(IDE_OUTPUT_COMPARISON_MODES)
+              .optional()
+              .describe(
+                'How inputOutput output is compared: exact (default, trims surrounding whitespace), ignoreWhitespace, ignoreCase, floatTolerance (numbers within floatTolerance), regex (full match), unorderedLines or customChecker (runs checkerScript).'
+              ),
+            floatTolerance: z
+              .number()
+              .min(0)
+              .optional()
+              .describe("Absolute/relative tolerance for comparison \"floatTolerance\". Defaults to 1e-6."),
+            checkerScript: z
+              .string()
+              .optional()
+              .describe(
+                "Python checker for comparison \"customChecker\". Called as checker.py INPUT_FILE EXPECTED_FILE ACTUAL_FILE; exit 0 accepts the output, stdout is shown to the student."
+              ),
             code: z
               .string()
               .optional()
               .describe("Test code for unitTest tests."),
             framework: z
-              .enum(["unittest", "junit"])
+              .enum(IDE_UNIT_TEST_FRAMEWORKS)
+              .optional()
+              .describe(
+                'Test framework for unitTest tests: unittest (Python), junit (Java), gtest (C/C++), jest (JavaScript/TypeScript) or gotest (Go). Defaults to "unittest".'
+              ),
+            timeLimitSeconds: z
+              .number()
+              .min(1)
+              .max(300)
+              .optional()
+              .describe("Time limit for inputOutput and unitTest tests in seconds. Defaults to 30."),
+            memoryLimitMb: z
+              .number()
+              .min(16)
+              .optional()
+              .describe("Memory limit for inputOutput and unitTest tests in MB. Omit for no limit."),
+            hidden: z
+              .boolean()
               .optional()
-              .describe('Test framework for unitTest tests. Defaults to "unittest".'),
+              .describe("Hide this test's input, expected output and code from students. Hidden tests only run when grading."),
           })
         )
         .describe("Array of test case objects."),
@@ -179,7 +218,7 @@ const setAutograderTests = tool({
 
 const getAssignmentSettings = tool({
   description:
-    "Read the current assignment settings, title, and due date configuration. Returns the assignment name, settings (allowLateSubmissions, allowResubmissions, showResponsesAfterSubmission, showScoreAfterSubmission, timeLimitSeconds), and due date config (course-wide and section-level due dates). Call this before modifying any settings to see current values.",
+    "Read the current assignment settings, title, and due date configuration. Returns the assignment name, settings (allowLateSubmissions, allowResubmissions, maxAttempts, attemptCooldownMinutes, attemptScoring, showResponsesAfterSubmission, showScoreAfterSubmission, timeLimitSeconds), and due date config (course-wide and section-level due dates). Call this before modifying any settings to see current values.",
   inputSchema: zodSchema(z.object({})),
 });
 
@@ -197,7 +236,7 @@ const updateAssignmentTitle = tool({
 
 const updateAssignmentSettings = tool({
   description:
-    "Update assignment settings like allowLateSubmissions, allowResubmissions, showResponsesAfterSubmission, showScoreAfterSubmission, and timeLimitSeconds. CRITICAL: Only include the specific settings the instructor asked to change. Omitted settings will be preserved as-is. Always call get_assignment_settings first to see current values before making changes.",
+    "Update assignment settings like allowLateSubmissions, allowResubmissions, maxAttempts, attemptCooldownMinutes, attemptScoring, showResponsesAfterSubmission, showScoreAfterSubmission, and timeLimitSeconds. CRITICAL: Only include the specific settings the instructor asked to change. Omitted settings will be preserved as-is. Always call get_assignment_settings first to see current values before making changes.",
   inputSchema: zodSchema(
     z.object({
       allowLateSubmissions: z
@@ -208,6 +247,22 @@ const updateAssignmentSettings = tool({
         .boolean()
         .optional()
         .describe("Whether students can submit multiple times. Only include if the instructor asked to change this."),
+      maxAttempts: z
+        .number()
+        .int()
+        .min(1)
+        .nullable()
+        .optional()
+        .describe("Maximum number of submitted attempts when resubmissions are allowed. Set to null for unlimited. Only include if the instructor asked to change this."),
+      attemptCooldownMinutes: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Minutes a student must wait after submitting before starting another attempt. Only include if the instructor asked to change this."),
+      attemptScoring: z
+        .enum(ATTEMPT_SCORING_POLICIES)
+        .optional()
+        .describe("Which attempt counts toward the grade: best, last (default), average or first. Only include if the instructor asked to change this."),
       showResponsesAfterSubmission: z
         .boolean()
         .optional()
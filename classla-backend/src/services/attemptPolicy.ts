@@ -0,0 +1,234 @@
+/**
+ * Attempt limits and scoring, stored in `assignments.settings` as
+ * `maxAttempts`, `attemptCooldownMinutes` and `attemptScoring`.
+ *
+ * An attempt is a submission row that has been submitted; in-progress rows
+ * (including a resubmission being worked on) are not attempts yet.
+ */
+export const ATTEMPT_SCORING_POLICIES = ["best", "last", "average", "first"] as const;
+
+export type AttemptScoringPolicy = (typeof ATTEMPT_SCORING_POLICIES)[number];
+
+export interface AttemptPolicy {
+  maxAttempts: number | null; // null for unlimited
+  cooldownMinutes: number;
+  scoring: AttemptScoringPolicy;
+}
+
+export interface AttemptLike {
+  status: string;
+  timestamp: string | Date;
+}
+
+export type AttemptCheckResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      code: "MAX_ATTEMPTS_REACHED" | "ATTEMPT_COOLDOWN";
+      message: string;
+      retryAt?: Date;
+    };
+
+/**
+ * The attempt whose score counts for a student on one assignment. For the
+ * "average" policy `submission` is the latest graded attempt and `score` is
+ * the average over all graded attempts.
+ */
+export interface ScoredAttempt<T> {
+  submission: T | null;
+  score: number | null;
+  attemptCount: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const ATTEMPT_STATUSES = new Set(["submitted", "graded", "returned"]);
+
+export const isSubmittedAttempt = (submission: { status: string }): boolean =>
+  ATTEMPT_STATUSES.has(submission.status);
+
+const byTimestamp = (a: AttemptLike, b: AttemptLike) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/**
+ * Validate the attempt fields of assignment settings sent by a client.
+ * Returns an error message, or null if they can be saved.
+ */
+export function validateAttemptSettings(settings: Record<string, any>): string | null {
+  const { maxAttempts, attemptCooldownMinutes, attemptScoring } = settings;
+  if (
+    maxAttempts !== undefined &&
+    maxAttempts !== null &&
+    !(Number.isInteger(maxAttempts) && maxAttempts >= 1)
+  ) {
+    return "Maximum attempts must be a positive whole number or null";
+  }
+  if (
+    attemptCooldownMinutes !== undefined &&
+    !(
+      typeof attemptCooldownMinutes === "number" &&
+      Number.isFinite(attemptCooldownMinutes) &&
+      attemptCooldownMinutes >= 0
+    )
+  ) {
+    return "Attempt cooldown must be a non-negative number of minutes";
+  }
+  if (attemptScoring !== undefined && !ATTEMPT_SCORING_POLICIES.includes(attemptScoring)) {
+    return `Attempt scoring must be one of: ${ATTEMPT_SCORING_POLICIES.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Read the attempt policy from assignment settings. Without resubmissions a
+ * student gets a single attempt; malformed values fall back to the defaults
+ * (unlimited attempts, no cooldown, last attempt counts).
+ */
+export function getAttemptPolicy(
+  assignmentSettings: Record<string, any> | null | undefined
+): AttemptPolicy {
+  const settings = assignmentSettings || {};
+  const valid = validateAttemptSettings(settings) === null;
+  const allowResubmissions = settings.allowResubmissions ?? false;
+
+  return {
+    maxAttempts: !allowResubmissions
+      ? 1
+      : valid && settings.maxAttempts
+      ? settings.maxAttempts
+      : null,
+    cooldownMinutes: valid ? settings.attemptCooldownMinutes ?? 0 : 0,
+    scoring: valid ? settings.attemptScoring ?? "last" : "last",
+  };
+}
+
+/**
+ * Whether a student may start (or submit) another attempt, given the
+ * submissions they already have. Pass only the student's other submissions
+ * when checking a submit, so the attempt being submitted is not counted.
+ */
+export function checkNewAttempt(
+  policy: AttemptPolicy,
+  submissions: AttemptLike[],
+  now: Date = new Date()
+): AttemptCheckResult {
+  const attempts = submissions.filter(isSubmittedAttempt).sort(byTimestamp);
+
+  if (policy.maxAttempts !== null && attempts.length >= policy.maxAttempts) {
+    return {
+      allowed: false,
+      code: "MAX_ATTEMPTS_REACHED",
+      message: `You have used all ${policy.maxAttempts} attempt${
+        policy.maxAttempts === 1 ? "" : "s"
+      } for this assignment`,
+    };
+  }
+
+  const lastAttempt = attempts[attempts.length - 1];
+  if (lastAttempt && policy.cooldownMinutes > 0) {
+    const retryAt = new Date(
+      new Date(lastAttempt.timestamp).getTime() + policy.cooldownMinutes * MINUTE_MS
+    );
+    if (retryAt > now) {
+      return {
+        allowed: false,
+        code: "ATTEMPT_COOLDOWN",
+        message: `You can start another attempt after ${retryAt.toISOString()}`,
+        retryAt,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Pick the score that counts for one student's submissions to one
+ * assignment. `getScore` returns null for attempts that are not graded (or
+ * whose grade the viewer may not see). Without any submitted attempt the
+ * latest submission is used, so autograded in-progress work still shows.
+ */
+export function selectScoredAttempt<T extends AttemptLike>(
+  scoring: AttemptScoringPolicy,
+  submissions: T[],
+  getScore: (submission: T) => number | null
+): ScoredAttempt<T> {
+  const attempts = submissions.filter(isSubmittedAttempt).sort(byTimestamp);
+
+  if (attempts.length === 0) {
+    const latest = [...submissions].sort(byTimestamp).pop() ?? null;
+    return { submission: latest, score: latest ? getScore(latest) : null, attemptCount: 0 };
+  }
+
+  const scored = attempts
+    .map((submission) => ({ submission, score: getScore(submission) }))
+    .filter((attempt): attempt is { submission: T; score: number } => attempt.score !== null);
+
+  let chosen: { submission: T; score: number | null };
+  switch (scoring) {
+    case "first":
+      chosen = { submission: attempts[0], score: getScore(attempts[0]) };
+      break;
+    case "best":
+      chosen =
+        scored.length > 0
+          ? scored.reduce((best, attempt) => (attempt.score > best.score ? attempt : best))
+          : { submission: attempts[attempts.length - 1], score: null };
+      break;
+    case "average":
+      chosen =
+        scored.length > 0
+          ? {
+              submission: scored[scored.length - 1].submission,
+              score:
+                Math.round(
+                  (scored.reduce((total, attempt) => total + attempt.score, 0) /
+                    scored.length) *
+                    100
+                ) / 100,
+            }
+          : { submission: attempts[attempts.length - 1], score: null };
+      break;
+    default: {
+      const last = attempts[attempts.length - 1];
+      chosen = { submission: last, score: getScore(last) };
+    }
+  }
+
+  return { ...chosen, attemptCount: attempts.length };
+}
+
+/**
+ * Scored attempt per student and assignment, keyed by
+ * `${student_id}_${assignment_id}`, using each assignment's scoring policy
+ */
+export function getScoredAttempts<
+  T extends AttemptLike & { student_id: string; assignment_id: string }
+>(
+  submissions: T[],
+  assignments: { id: string; settings?: Record<string, any> | null }[],
+  getScore: (submission: T) => number | null
+): Map<string, ScoredAttempt<T>> {
+  const groups = new Map<string, T[]>();
+  for (const submission of submissions) {
+    const key = `${submission.student_id}_${submission.assignment_id}`;
+    const group = groups.get(key);
+    if (group) group.push(submission);
+    else groups.set(key, [submission]);
+  }
+
+  const scoring = new Map(
+    assignments.map((assignment) => [
+      assignment.id,
+      getAttemptPolicy(assignment.settings).scoring,
+    ])
+  );
+
+  const result = new Map<string, ScoredAttempt<T>>();
+  groups.forEach((group, key) => {
+    result.set(
+      key,
+      selectScoredAttempt(scoring.get(group[0].assignment_id) ?? "last", group, getScore)
+    );
+  });
+  return result;
+}
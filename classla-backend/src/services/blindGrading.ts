@@ -0,0 +1,98 @@
+import { createHmac } from "crypto";
+
+/**
+ * Blind grading, toggled per assignment by `assignments.settings.blindGrading`.
+ *
+ * While active, graders see each student under a pseudonym and an opaque
+ * student key instead of their user ID. Both are an HMAC of the assignment
+ * and student IDs keyed with a server secret, so they stay the same across
+ * page loads and attempts, differ between assignments, and can't be
+ * recomputed from a roster. Once every submitted attempt has been reviewed,
+ * an instructor can reveal identities, which sets
+ * `settings.blindGradingRevealedAt`.
+ */
+export interface BlindGradingSettings {
+  blindGrading?: boolean;
+  blindGradingRevealedAt?: string | null;
+}
+
+/** Whether names should currently be hidden from graders. */
+export const isBlindGradingActive = (
+  settings: BlindGradingSettings | null | undefined
+): boolean => !!settings?.blindGrading && !settings.blindGradingRevealedAt;
+
+const BLIND_STUDENT_KEY_PREFIX = "blind-";
+
+// BLIND_GRADING_SECRET lets the pseudonyms outlive a session secret rotation
+function getPseudonymSecret(): string {
+  const secret = process.env.BLIND_GRADING_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("BLIND_GRADING_SECRET or SESSION_SECRET must be set for blind grading");
+  }
+  return secret;
+}
+
+const getStudentDigest = (assignmentId: string, studentId: string): string =>
+  createHmac("sha256", getPseudonymSecret())
+    .update(`${assignmentId}:${studentId}`)
+    .digest("hex");
+
+/**
+ * Stable pseudonym for a student on one assignment, e.g. "Student 3F9A0C".
+ */
+export function getStudentPseudonym(assignmentId: string, studentId: string): string {
+  return `Student ${getStudentDigest(assignmentId, studentId).slice(0, 6).toUpperCase()}`;
+}
+
+/**
+ * Opaque ID that stands in for a student's user ID in blind responses.
+ */
+export function getBlindStudentKey(assignmentId: string, studentId: string): string {
+  return `${BLIND_STUDENT_KEY_PREFIX}${getStudentDigest(assignmentId, studentId).slice(0, 32)}`;
+}
+
+export const isBlindStudentKey = (value: string): boolean =>
+  value.startsWith(BLIND_STUDENT_KEY_PREFIX);
+
+/**
+ * The student a blind key was issued for, among the given student IDs,
+ * or null if none matches.
+ */
+export function resolveBlindStudentKey(
+  assignmentId: string,
+  key: string,
+  studentIds: string[]
+): string | null {
+  return studentIds.find((studentId) => getBlindStudentKey(assignmentId, studentId) === key) ?? null;
+}
+
+/**
+ * Grading is finalized once every submitted attempt has a reviewed grader.
+ * In-progress attempts don't count; an assignment with no submitted
+ * attempts is not finalized.
+ */
+export function isGradingFinalized(
+  submissions: { id: string; status: string }[],
+  graders: { submission_id: string; reviewed_at?: string | Date | null }[]
+): boolean {
+  const submitted = submissions.filter(
+    (submission) => submission.status !== "in-progress" && submission.status !== "not-started"
+  );
+  if (submitted.length === 0) return false;
+
+  const reviewed = new Set(
+    graders.filter((grader) => !!grader.reviewed_at).map((grader) => grader.submission_id)
+  );
+  return submitted.every((submission) => reviewed.has(submission.id));
+}
+
+/**
+ * Validate the blind grading fields of an assignment settings update.
+ * Returns an error message, or null if they can be saved.
+ */
+export function validateBlindGradingSettings(settings: Record<string, any>): string | null {
+  if (settings.blindGrading !== undefined && typeof settings.blindGrading !== "boolean") {
+    return "blindGrading must be true or false";
+  }
+  return null;
+}
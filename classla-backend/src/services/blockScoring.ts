@@ -0,0 +1,112 @@
+/**
+ * Scores set by hand on single blocks of a submission, e.g. while grading
+ * question by question. A hand-set score is marked `overridden` so that
+ * re-running the autograder keeps it.
+ */
+import { BlockScore } from "../types/entities";
+import { extractGradableBlocks, extractIDEBlocks } from "./grading";
+import { ShortAnswerBlockData } from "./grading/shortAnswer";
+import { collectBlockData } from "../utils/blockContent";
+
+/**
+ * Points of manually graded short answers by block id. The autograder skips
+ * them, so they only get a block score when a grader sets one by hand.
+ */
+export function getManualBlockPoints(assignmentContent: string): Record<string, number> {
+  const points: Record<string, number> = {};
+  for (const data of collectBlockData<ShortAnswerBlockData>(
+    assignmentContent,
+    "shortAnswerBlock",
+    "shortAnswerData"
+  )) {
+    if (
+      typeof data.points === "number" &&
+      data.gradingType !== "keyword" &&
+      data.gradingType !== "regex"
+    ) {
+      points[data.id] = data.points;
+    }
+  }
+  return points;
+}
+
+/**
+ * Points possible for a block that can be scored in block_scores, or null if
+ * it can't (missing from the assignment, or an IDE block without tests).
+ * Manually graded short answers are worth their `points`.
+ */
+export function getScoredBlockPoints(
+  assignmentContent: string,
+  blockId: string
+): number | null {
+  let gradable;
+  try {
+    gradable = extractGradableBlocks(assignmentContent);
+  } catch {
+    return null;
+  }
+  const block = gradable.find((b) => b.id === blockId);
+  if (block) return block.grader.getPoints(block.data);
+
+  const ideBlock = extractIDEBlocks(assignmentContent).find((b) => b.id === blockId);
+  if (ideBlock) return ideBlock.executablePoints + ideBlock.manualPoints;
+
+  return getManualBlockPoints(assignmentContent)[blockId] ?? null;
+}
+
+/**
+ * Validate a hand-set block score. Returns an error message, or null if
+ * the score can be saved.
+ */
+export function validateBlockScore(awarded: unknown, possible: number): string | null {
+  if (typeof awarded !== "number" || !Number.isFinite(awarded)) {
+    return "awarded must be a number";
+  }
+  if (awarded < 0 || awarded > possible) {
+    return `awarded must be between 0 and ${possible}`;
+  }
+  return null;
+}
+
+/** Sum of awarded points across block scores. */
+export const sumBlockScores = (blockScores: Record<string, BlockScore>): number =>
+  Object.values(blockScores).reduce((total, score) => total + (Number(score.awarded) || 0), 0);
+
+/**
+ * Block scores with one block set by hand, plus the new raw assignment
+ * score. Setting a score confirms it, so any needsReview flag is dropped.
+ */
+export function applyManualBlockScore(
+  blockScores: Record<string, BlockScore> | null | undefined,
+  blockId: string,
+  awarded: number,
+  possible: number
+): { blockScores: Record<string, BlockScore>; rawScore: number } {
+  const updated = {
+    ...(blockScores || {}),
+    [blockId]: { awarded, possible, overridden: true },
+  };
+  return { blockScores: updated, rawScore: sumBlockScores(updated) };
+}
+
+/**
+ * Freshly autograded block scores with hand-set scores from the previous
+ * grading kept, for blocks the autograder still scores and for manually
+ * graded blocks (see getManualBlockPoints) still in the assignment.
+ */
+export function mergeOverriddenBlockScores(
+  autograded: Record<string, BlockScore>,
+  existing: Record<string, BlockScore> | null | undefined,
+  manualBlockPoints: Record<string, number> = {}
+): { blockScores: Record<string, BlockScore>; rawScore: number } {
+  const merged = { ...autograded };
+  for (const [blockId, score] of Object.entries(existing || {})) {
+    if (!score?.overridden) continue;
+    if (blockId in autograded) {
+      merged[blockId] = { ...score, possible: autograded[blockId].possible };
+    } else if (blockId in manualBlockPoints) {
+      merged[blockId] = { ...score, possible: manualBlockPoints[blockId] };
+    }
+  }
+  return { blockScores: merged, rawScore: sumBlockScores(merged) };
+}
@@ -0,0 +1,92 @@
+/**
+ * Grader comments anchored to lines (or a character range) of a file in one
+ * of a submission's IDE blocks. Students see them once the grade has been
+ * returned, together with the rest of the feedback.
+ */
+export const MAX_ANNOTATION_LENGTH = 5000;
+
+export interface CodeAnnotationRange {
+  start_line: number;
+  start_column?: number | null; // null/undefined anchors whole lines
+  end_line: number;
+  end_column?: number | null;
+}
+
+export interface CodeAnnotationInput extends Partial<CodeAnnotationRange> {
+  block_id?: unknown;
+  file_path?: unknown;
+  file_revision?: unknown;
+  body?: unknown;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1;
+
+const isOptionalColumn = (value: unknown): boolean =>
+  value === undefined || value === null || isPositiveInteger(value);
+
+/**
+ * Validate a line/column range. Returns an error message, or null if the
+ * range can be saved.
+ */
+export function validateAnnotationRange(range: Partial<CodeAnnotationRange>): string | null {
+  const { start_line, start_column, end_line, end_column } = range;
+  if (!isPositiveInteger(start_line) || !isPositiveInteger(end_line)) {
+    return "start_line and end_line must be positive whole numbers";
+  }
+  if (!isOptionalColumn(start_column) || !isOptionalColumn(end_column)) {
+    return "Columns must be positive whole numbers";
+  }
+  if ((start_column == null) !== (end_column == null)) {
+    return "start_column and end_column must be set together";
+  }
+  if (
+    end_line < start_line ||
+    (end_line === start_line && start_column != null && end_column! < start_column)
+  ) {
+    return "The range must end after it starts";
+  }
+  return null;
+}
+
+/**
+ * Validate a new annotation sent by a client. With `partial`, only the
+ * fields present are checked (for updates). Returns an error message or null.
+ */
+export function validateCodeAnnotation(
+  input: CodeAnnotationInput,
+  partial: boolean = false
+): string | null {
+  if (!partial) {
+    for (const field of ["block_id", "file_path", "file_revision"] as const) {
+      if (typeof input[field] !== "string" || (input[field] as string).length === 0) {
+        return `${field} is required`;
+      }
+    }
+  }
+  if (input.body !== undefined || !partial) {
+    if (typeof input.body !== "string" || input.body.trim().length === 0) {
+      return "Comment text is required";
+    }
+    if (input.body.length > MAX_ANNOTATION_LENGTH) {
+      return `Comment must be ${MAX_ANNOTATION_LENGTH} characters or fewer`;
+    }
+  }
+  const touchesRange =
+    input.start_line !== undefined ||
+    input.end_line !== undefined ||
+    input.start_column !== undefined ||
+    input.end_column !== undefined;
+  if (touchesRange || !partial) {
+    return validateAnnotationRange(input);
+  }
+  return null;
+}
+
+/**
+ * Whether the student who owns a submission may see its annotations:
+ * only once the grade has been returned.
+ */
+export const areAnnotationsReleased = (
+  grader: { reviewed_at?: string | Date | null } | null | undefined
+): boolean => !!grader?.reviewed_at;
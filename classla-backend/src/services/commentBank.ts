@@ -0,0 +1,76 @@
+/**
+ * Rubric item comments and the course comment bank.
+ *
+ * A rubric's `comments` array is parallel to its `values`: one comment per
+ * rubric item, empty when the grader left none. Bank comments are reusable
+ * snippets whose `points` are added to an item's score when applied.
+ */
+export const MAX_COMMENT_LENGTH = 2000;
+
+export interface BankCommentInput {
+  text?: unknown;
+  points?: unknown;
+}
+
+/**
+ * Validate a comment bank entry sent by a client. With `partial`, missing
+ * fields are allowed (for updates). Returns an error message or null.
+ */
+export function validateBankComment(
+  input: BankCommentInput,
+  partial: boolean = false
+): string | null {
+  if (input.text !== undefined || !partial) {
+    if (typeof input.text !== "string" || input.text.trim().length === 0) {
+      return "Comment text is required";
+    }
+    if (input.text.length > MAX_COMMENT_LENGTH) {
+      return `Comment must be ${MAX_COMMENT_LENGTH} characters or fewer`;
+    }
+  }
+  if (
+    input.points !== undefined &&
+    !(typeof input.points === "number" && Number.isFinite(input.points))
+  ) {
+    return "Comment points must be a number";
+  }
+  return null;
+}
+
+/**
+ * Validate the per-item comments of a rubric. Returns an error message or
+ * null if they can be saved alongside `itemCount` rubric values.
+ */
+export function validateRubricComments(comments: unknown, itemCount: number): string | null {
+  if (!Array.isArray(comments)) {
+    return "comments must be an array of strings";
+  }
+  if (comments.length > itemCount) {
+    return `Expected at most ${itemCount} comments, got ${comments.length}`;
+  }
+  for (const comment of comments) {
+    if (typeof comment !== "string") {
+      return "comments must be an array of strings";
+    }
+    if (comment.length > MAX_COMMENT_LENGTH) {
+      return `Each comment must be ${MAX_COMMENT_LENGTH} characters or fewer`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Comments padded (or trimmed) to one per rubric item, so older rubrics
+ * saved before comments existed line up with their values.
+ */
+export function normalizeRubricComments(comments: unknown, itemCount: number): string[] {
+  const list = Array.isArray(comments) ? comments : [];
+  return Array.from({ length: itemCount }, (_, index) =>
+    typeof list[index] === "string" ? list[index] : ""
+  );
+}
+
+/** Whether a rubric has any item comment worth showing. */
+export const hasRubricComments = (comments: unknown): boolean =>
+  Array.isArray(comments) &&
+  comments.some((comment) => typeof comment === "string" && comment.trim() !== "");
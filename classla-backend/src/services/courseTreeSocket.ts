@@ -109,6 +109,44 @@ export function setupCourseTreeSocket(io: SocketIOServer): void {
       }
     );
 
+    // Discussion block viewers join a room per block to receive post updates
+    socket.on(
+      "join-discussion",
+      ({ assignmentId, blockId }: { assignmentId: string; blockId: string }) => {
+        if (assignmentId && blockId) {
+          socket.join(`discussion:${assignmentId}:${blockId}`);
+        }
+      }
+    );
+
+    socket.on(
+      "leave-discussion",
+      ({ assignmentId, blockId }: { assignmentId: string; blockId: string }) => {
+        if (assignmentId && blockId) {
+          socket.leave(`discussion:${assignmentId}:${blockId}`);
+        }
+      }
+    );
+
+    // Poll viewers and projector views join a room per poll block
+    socket.on(
+      "join-poll",
+      ({ assignmentId, blockId }: { assignmentId: string; blockId: string }) => {
+        if (assignmentId && blockId) {
+          socket.join(`poll:${assignmentId}:${blockId}`);
+        }
+      }
+    );
+
+    socket.on(
+      "leave-poll",
+      ({ assignmentId, blockId }: { assignmentId: string; blockId: string }) => {
+        if (assignmentId && blockId) {
+          socket.leave(`poll:${assignmentId}:${blockId}`);
+        }
+      }
+    );
+
     socket.on("disconnect", () => {
       // Rooms are automatically cleaned up on disconnect
     });
@@ -190,6 +228,53 @@ export function emitGraderReviewUpdate(
   }
 }
 
+/**
+ * Emit a discussion update to everyone viewing a discussion block.
+ * Only IDs are sent; clients refetch so anonymity and moderation are applied
+ * per viewer by the REST endpoint.
+ */
+export function emitDiscussionUpdate(
+  io: SocketIOServer,
+  data: {
+    assignmentId: string;
+    blockId: string;
+    postId: string;
+    event: "created" | "moderated" | "voted" | "deleted";
+  }
+): void {
+  try {
+    io.of("/course-tree")
+      .to(`discussion:${data.assignmentId}:${data.blockId}`)
+      .emit("discussion-update", data);
+  } catch (error) {
+    logger.error("Failed to emit discussion update", {
+      data,
+      error: error instanceof Error ? error.message : "Unknown",
+    });
+  }
+}
+
+/**
+ * Notify viewers of a poll block that its tallies changed. Counts are not
+ * broadcast because result visibility and section scope differ per viewer;
+ * clients refetch from the results endpoint.
+ */
+export function emitPollResultsUpdate(
+  io: SocketIOServer,
+  data: { assignmentId: string; blockId: string }
+): void {
+  try {
+    io.of("/course-tree")
+      .to(`poll:${data.assignmentId}:${data.blockId}`)
+      .emit("poll-results-update", data);
+  } catch (error) {
+    logger.error("Failed to emit poll results update", {
+      data,
+      error: error instanceof Error ? error.message : "Unknown",
+    });
+  }
+}
+
 /**
  * Emit a tree update event to all clients watching a course.
  */
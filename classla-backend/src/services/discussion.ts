@@ -0,0 +1,170 @@
+import { findBlockData } from "../utils/blockContent";
+
+export const MAX_POST_LENGTH = 10000;
+
+/**
+ * Discussion block settings as stored in the `discussionData` node attribute.
+ * Mirrors DiscussionData in the frontend DiscussionBlock extension.
+ */
+export interface DiscussionSettings {
+  id: string;
+  prompt: string;
+  allowAnonymous: boolean;
+  requireModeration: boolean;
+  enableReplies: boolean;
+  enableVoting: boolean;
+  maxPostsPerStudent?: number;
+  closeDate?: string;
+}
+
+export type DiscussionPostStatus = "pending" | "approved" | "rejected";
+
+export interface DiscussionViewer {
+  userId: string;
+  isStaff: boolean; // Instructors, TAs and admins
+}
+
+/**
+ * Find a discussion block in assignment content and fill in the same defaults
+ * the editor uses, so older blocks missing a flag behave as they render.
+ */
+export function getDiscussionSettings(
+  assignmentContent: string | null | undefined,
+  blockId: string
+): DiscussionSettings | null {
+  const data = findBlockData<any>(
+    assignmentContent,
+    "discussionBlock",
+    "discussionData",
+    blockId
+  );
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    prompt: typeof data.prompt === "string" ? data.prompt : "",
+    allowAnonymous: !!data.allowAnonymous,
+    requireModeration: !!data.requireModeration,
+    enableReplies:
+      data.enableReplies !== undefined ? !!data.enableReplies : true,
+    enableVoting: !!data.enableVoting,
+    maxPostsPerStudent:
+      typeof data.maxPostsPerStudent === "number" && data.maxPostsPerStudent > 0
+        ? data.maxPostsPerStudent
+        : undefined,
+    closeDate: typeof data.closeDate === "string" ? data.closeDate : undefined,
+  };
+}
+
+export function isDiscussionClosed(
+  settings: DiscussionSettings,
+  now: Date = new Date()
+): boolean {
+  if (!settings.closeDate) return false;
+  const closeTime = new Date(settings.closeDate).getTime();
+  return !isNaN(closeTime) && now.getTime() >= closeTime;
+}
+
+/**
+ * Check whether a new post or reply is allowed. Returns an error code and
+ * message, or null if the post may be created. Staff bypass the close date
+ * and post limit; `topLevelPostCount` is the author's existing, non-rejected
+ * top-level posts in this block.
+ */
+export function validateNewPost(
+  settings: DiscussionSettings,
+  viewer: DiscussionViewer,
+  post: { isReply: boolean; isAnonymous: boolean; topLevelPostCount: number },
+  now: Date = new Date()
+): { code: string; message: string } | null {
+  if (!viewer.isStaff && isDiscussionClosed(settings, now)) {
+    return { code: "DISCUSSION_CLOSED", message: "This discussion is closed" };
+  }
+
+  if (post.isReply && !settings.enableReplies) {
+    return {
+      code: "REPLIES_DISABLED",
+      message: "Replies are disabled for this discussion",
+    };
+  }
+
+  if (post.isAnonymous && !settings.allowAnonymous) {
+    return {
+      code: "ANONYMOUS_NOT_ALLOWED",
+      message: "Anonymous posts are not allowed in this discussion",
+    };
+  }
+
+  if (
+    !viewer.isStaff &&
+    !post.isReply &&
+    settings.maxPostsPerStudent !== undefined &&
+    post.topLevelPostCount >= settings.maxPostsPerStudent
+  ) {
+    return {
+      code: "POST_LIMIT_REACHED",
+      message: `You can create at most ${settings.maxPostsPerStudent} posts in this discussion`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Status for a new post: student posts wait for approval when the block
+ * requires moderation; staff posts are always published.
+ */
+export function initialPostStatus(
+  settings: DiscussionSettings,
+  viewer: DiscussionViewer
+): DiscussionPostStatus {
+  return settings.requireModeration && !viewer.isStaff ? "pending" : "approved";
+}
+
+/**
+ * Whether a viewer may see a post at all. Peers only see approved posts;
+ * authors also see their own pending or rejected posts; staff see everything.
+ */
+export function canViewPost(
+  post: { author_id: string; status: DiscussionPostStatus },
+  viewer: DiscussionViewer
+): boolean {
+  return (
+    viewer.isStaff ||
+    post.status === "approved" ||
+    post.author_id === viewer.userId
+  );
+}
+
+/**
+ * Shape a post row for the given viewer. Anonymous posts hide the author from
+ * peers but not from staff (or from the author themselves).
+ */
+export function serializePost(
+  post: any,
+  viewer: DiscussionViewer,
+  votes: { count: number; hasVoted: boolean } = { count: 0, hasVoted: false }
+) {
+  const isOwn = post.author_id === viewer.userId;
+  const revealAuthor = !post.is_anonymous || viewer.isStaff || isOwn;
+  const author = post.author;
+
+  return {
+    id: post.id,
+    parent_id: post.parent_id ?? null,
+    content: post.content,
+    is_anonymous: !!post.is_anonymous,
+    status: post.status as DiscussionPostStatus,
+    created_at: post.created_at,
+    updated_at: post.updated_at,
+    is_own: isOwn,
+    author_id: revealAuthor ? post.author_id : null,
+    author_name: revealAuthor
+      ? [author?.first_name, author?.last_name].filter(Boolean).join(" ") ||
+        author?.email ||
+        "Unknown"
+      : "Anonymous",
+    vote_count: votes.count,
+    has_voted: votes.hasVoted,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Audit trail of score changes on graders, stored in `grader_score_history`.
+ * Each row records one changed field with its old and new value, who made
+ * the change and how (by hand, the autograder, a gradebook import or a
+ * resolved regrade request).
+ */
+export const AUDITED_GRADER_FIELDS = [
+  "raw_assignment_score",
+  "raw_rubric_score",
+  "score_modifier",
+  "late_penalty_percent",
+  "block_scores",
+] as const;
+
+export type AuditedGraderField = (typeof AUDITED_GRADER_FIELDS)[number];
+
+export type ScoreChangeSource = "manual" | "autograder" | "import" | "regrade";
+
+export interface ScoreChange {
+  field: AuditedGraderField;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+// Score modifiers are strings ("", "0", "-2.5"); treat blank and 0 alike
+const normalizeValue = (field: AuditedGraderField, value: unknown): unknown => {
+  if (value === undefined || value === null || value === "") {
+    return field === "block_scores" ? null : 0;
+  }
+  if (field === "block_scores") return value;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : value;
+};
+
+// Stable stringify so key order in block_scores doesn't register as a change
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+  return `{${entries.join(",")}}`;
+};
+
+/**
+ * The audited fields that differ between a grader before and after an
+ * update. Fields missing from `after` are treated as unchanged.
+ */
+export function diffGraderScores(
+  before: Partial<Record<AuditedGraderField, unknown>> | null | undefined,
+  after: Partial<Record<AuditedGraderField, unknown>>
+): ScoreChange[] {
+  const changes: ScoreChange[] = [];
+  for (const field of AUDITED_GRADER_FIELDS) {
+    if (!(field in after)) continue;
+    const oldValue = before?.[field] ?? null;
+    const newValue = after[field] ?? null;
+    if (
+      stableStringify(normalizeValue(field, oldValue)) !==
+      stableStringify(normalizeValue(field, newValue))
+    ) {
+      changes.push({ field, old_value: oldValue, new_value: newValue });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,366 @@
+import { extractGradableBlocks } from "./grading";
+import { getManualBlockPoints } from "./blockScoring";
+import { collectBlockData } from "../utils/blockContent";
+
+/**
+ * A weighted group of assignments (e.g. Homework 30%).
+ * `dropLowest` ignores that many of the student's lowest-percentage
+ * assignments in the category.
+ */
+export interface GradeCategory {
+  id: string;
+  name: string;
+  weight: number;
+  dropLowest: number;
+}
+
+export interface LetterGradeCutoff {
+  letter: string;
+  minPercent: number;
+}
+
+/**
+ * Course-level grading configuration, stored in `courses.settings.grading`
+ */
+export interface GradingScheme {
+  categories: GradeCategory[];
+  assignmentCategories: Record<string, string>; // assignment_id -> category id
+  letterScale: LetterGradeCutoff[];
+}
+
+/**
+ * One student's result on one assignment. `earned` is null when the
+ * assignment has not been graded (or the grade is not visible yet).
+ */
+export interface AssignmentScore {
+  assignmentId: string;
+  earned: number | null;
+  possible: number;
+}
+
+export interface CategoryGrade {
+  categoryId: string | null; // null for the implicit category used without a scheme
+  name: string;
+  weight: number;
+  runningPercent: number | null;
+  finalPercent: number | null;
+  droppedAssignmentIds: string[];
+}
+
+/**
+ * Running grades only count graded work; final grades count every
+ * assignment, scoring ungraded ones as zero.
+ */
+export interface GradeSummary {
+  categories: CategoryGrade[];
+  runningPercent: number | null;
+  runningLetter: string | null;
+  finalPercent: number | null;
+  finalLetter: string | null;
+}
+
+export const DEFAULT_LETTER_SCALE: LetterGradeCutoff[] = [
+  { letter: "A", minPercent: 90 },
+  { letter: "B", minPercent: 80 },
+  { letter: "C", minPercent: 70 },
+  { letter: "D", minPercent: 60 },
+  { letter: "F", minPercent: 0 },
+];
+
+const roundPercent = (value: number): number => Math.round(value * 100) / 100;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Validate a grading scheme sent by a client. Returns an error message, or
+ * null if the scheme can be saved.
+ */
+export function validateGradingScheme(input: any): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "grading must be an object";
+  }
+
+  const { categories, assignmentCategories, letterScale } = input;
+
+  if (!Array.isArray(categories)) {
+    return "grading.categories must be an array";
+  }
+  const categoryIds = new Set<string>();
+  for (const category of categories) {
+    if (!category || typeof category.id !== "string" || !category.id) {
+      return "Each grade category needs an id";
+    }
+    if (categoryIds.has(category.id)) {
+      return `Duplicate grade category id ${category.id}`;
+    }
+    categoryIds.add(category.id);
+    if (typeof category.name !== "string" || !category.name.trim()) {
+      return "Each grade category needs a name";
+    }
+    if (!isFiniteNumber(category.weight) || category.weight < 0 || category.weight > 100) {
+      return `Weight for "${category.name}" must be between 0 and 100`;
+    }
+    if (!Number.isInteger(category.dropLowest) || category.dropLowest < 0) {
+      return `Drop lowest for "${category.name}" must be a non-negative whole number`;
+    }
+  }
+
+  if (
+    !assignmentCategories ||
+    typeof assignmentCategories !== "object" ||
+    Array.isArray(assignmentCategories)
+  ) {
+    return "grading.assignmentCategories must be an object";
+  }
+  for (const [assignmentId, categoryId] of Object.entries(assignmentCategories)) {
+    if (typeof categoryId !== "string" || !categoryIds.has(categoryId)) {
+      return `Assignment ${assignmentId} is mapped to an unknown category`;
+    }
+  }
+
+  if (!Array.isArray(letterScale)) {
+    return "grading.letterScale must be an array";
+  }
+  for (const cutoff of letterScale) {
+    if (!cutoff || typeof cutoff.letter !== "string" || !cutoff.letter.trim()) {
+      return "Each letter grade needs a label";
+    }
+    if (!isFiniteNumber(cutoff.minPercent)) {
+      return `Minimum percent for "${cutoff.letter}" must be a number`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the grading scheme from course settings, falling back to no
+ * categories and the default letter scale.
+ */
+export function getGradingScheme(
+  courseSettings: Record<string, any> | null | undefined
+): GradingScheme {
+  const grading = courseSettings?.grading;
+  if (!grading || validateGradingScheme(grading) !== null) {
+    return {
+      categories: [],
+      assignmentCategories: {},
+      letterScale: DEFAULT_LETTER_SCALE,
+    };
+  }
+
+  return {
+    categories: grading.categories,
+    assignmentCategories: grading.assignmentCategories,
+    letterScale:
+      grading.letterScale.length > 0 ? grading.letterScale : DEFAULT_LETTER_SCALE,
+  };
+}
+
+/**
+ * Total possible points for an assignment: autogradable blocks, IDE blocks,
+ * manually graded short answers and positive, non-extra-credit rubric items. Mirrors the frontend's
+ * calculateAssignmentPoints.
+ */
+export function calculateAssignmentPoints(
+  content: string | null | undefined,
+  rubricSchema?: { items?: { points: number; isExtraCredit?: boolean }[] } | null
+): number {
+  const rubricPoints = (rubricSchema?.items || []).reduce(
+    (total, item) =>
+      item.points > 0 && !item.isExtraCredit ? total + item.points : total,
+    0
+  );
+
+  if (!content) return rubricPoints;
+
+  let blockPoints = 0;
+  try {
+    blockPoints = extractGradableBlocks(content).reduce(
+      (total, block) => total + (block.grader.getPoints(block.data) || 0),
+      0
+    );
+  } catch {
+    return 0;
+  }
+
+  const idePoints = collectBlockData<{ points?: number }>(
+    content,
+    "ideBlock",
+    "ideData"
+  ).reduce((total, data) => total + (Number(data.points) || 0), 0);
+
+  const manualPoints = Object.values(getManualBlockPoints(content)).reduce(
+    (total, points) => total + points,
+    0
+  );
+
+  return blockPoints + idePoints + manualPoints + rubricPoints;
+}
+
+interface GraderScoreFields {
+  raw_assignment_score: number | string | null;
+  raw_rubric_score: number | string | null;
+  score_modifier: string | null;
+  late_penalty_percent?: number | string | null;
+}
+
+/**
+ * Points deducted by the grader's late penalty. The penalty applies to the
+ * raw scores only, not to the instructor's score modifier.
+ */
+export function getLatePenaltyPoints(grader: GraderScoreFields): number {
+  const base =
+    (Number(grader.raw_assignment_score) || 0) +
+    (Number(grader.raw_rubric_score) || 0);
+  const percent = Number(grader.late_penalty_percent) || 0;
+  return Math.round(base * percent) / 100;
+}
+
+/**
+ * Final score on a grader row. Numeric columns come back from Supabase as
+ * strings.
+ */
+export function getGraderScore(grader: GraderScoreFields): number {
+  return (
+    (Number(grader.raw_assignment_score) || 0) +
+    (Number(grader.raw_rubric_score) || 0) -
+    getLatePenaltyPoints(grader) +
+    (parseFloat(grader.score_modifier ?? "") || 0)
+  );
+}
+
+/**
+ * Latest submission per student and assignment, keyed by
+ * `${student_id}_${assignment_id}`, as the gradebook table shows them
+ */
+export function getLatestSubmissions<
+  T extends { student_id: string; assignment_id: string; timestamp: string | Date }
+>(submissions: T[]): Map<string, T> {
+  const latest = new Map<string, T>();
+  for (const submission of submissions) {
+    const key = `${submission.student_id}_${submission.assignment_id}`;
+    const existing = latest.get(key);
+    if (!existing || new Date(submission.timestamp) > new Date(existing.timestamp)) {
+      latest.set(key, submission);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Look up the letter for a percentage; the scale may be in any order.
+ */
+export function getLetterGrade(
+  percent: number | null,
+  letterScale: LetterGradeCutoff[]
+): string | null {
+  if (percent === null) return null;
+  const sorted = [...letterScale].sort((a, b) => b.minPercent - a.minPercent);
+  return sorted.find((cutoff) => percent >= cutoff.minPercent)?.letter ?? null;
+}
+
+/**
+ * Drop the `count` lowest-percentage scores, always keeping at least one.
+ * Zero-point (extra credit) assignments are never dropped.
+ */
+function dropLowestScores(
+  scores: { assignmentId: string; earned: number; possible: number }[],
+  count: number
+): { kept: typeof scores; droppedIds: string[] } {
+  const droppable = scores
+    .filter((s) => s.possible > 0)
+    .sort((a, b) => a.earned / a.possible - b.earned / b.possible);
+  const dropCount = Math.min(count, Math.max(droppable.length - 1, 0));
+  const droppedIds = droppable.slice(0, dropCount).map((s) => s.assignmentId);
+  const dropped = new Set(droppedIds);
+
+  return {
+    kept: scores.filter((s) => !dropped.has(s.assignmentId)),
+    droppedIds,
+  };
+}
+
+function categoryPercent(
+  scores: { earned: number; possible: number }[]
+): number | null {
+  const possible = scores.reduce((total, s) => total + s.possible, 0);
+  if (possible <= 0) return null;
+  const earned = scores.reduce((total, s) => total + s.earned, 0);
+  return (earned / possible) * 100;
+}
+
+function weightedPercent(
+  categories: { weight: number; percent: number | null }[]
+): number | null {
+  // Categories without any scored work are left out and the remaining
+  // weights are scaled up, so a course with no exams yet is not penalised
+  const counted = categories.filter((c) => c.percent !== null && c.weight > 0);
+  const totalWeight = counted.reduce((total, c) => total + c.weight, 0);
+  if (totalWeight <= 0) return null;
+  return (
+    counted.reduce((total, c) => total + c.percent! * c.weight, 0) / totalWeight
+  );
+}
+
+/**
+ * Compute category, running and final percentages for one student.
+ *
+ * Without categories every assignment is pooled into one unweighted
+ * category. With categories, assignments not mapped to one are ignored.
+ */
+export function calculateGradeSummary(
+  scheme: GradingScheme,
+  scores: AssignmentScore[]
+): GradeSummary {
+  const categories: GradeCategory[] =
+    scheme.categories.length > 0
+      ? scheme.categories
+      : [{ id: "", name: "Total", weight: 100, dropLowest: 0 }];
+
+  const categoryGrades: CategoryGrade[] = categories.map((category) => {
+    const categoryScores = scores.filter((score) =>
+      scheme.categories.length > 0
+        ? scheme.assignmentCategories[score.assignmentId] === category.id
+        : true
+    );
+
+    const graded = categoryScores
+      .filter((s) => s.earned !== null)
+      .map((s) => ({ ...s, earned: s.earned as number }));
+    const all = categoryScores.map((s) => ({ ...s, earned: s.earned ?? 0 }));
+
+    const running = dropLowestScores(graded, category.dropLowest);
+    const final = dropLowestScores(all, category.dropLowest);
+    const runningPercent = categoryPercent(running.kept);
+    const finalPercent = categoryPercent(final.kept);
+
+    return {
+      categoryId: scheme.categories.length > 0 ? category.id : null,
+      name: category.name,
+      weight: category.weight,
+      runningPercent: runningPercent === null ? null : roundPercent(runningPercent),
+      finalPercent: finalPercent === null ? null : roundPercent(finalPercent),
+      droppedAssignmentIds: running.droppedIds,
+    };
+  });
+
+  const runningPercent = weightedPercent(
+    categoryGrades.map((c) => ({ weight: c.weight, percent: c.runningPercent }))
+  );
+  const finalPercent = weightedPercent(
+    categoryGrades.map((c) => ({ weight: c.weight, percent: c.finalPercent }))
+  );
+
+  const roundedRunning = runningPercent === null ? null : roundPercent(runningPercent);
+  const roundedFinal = finalPercent === null ? null : roundPercent(finalPercent);
+
+  return {
+    categories: categoryGrades,
+    runningPercent: roundedRunning,
+    runningLetter: getLetterGrade(roundedRunning, scheme.letterScale),
+    finalPercent: roundedFinal,
+    finalLetter: getLetterGrade(roundedFinal, scheme.letterScale),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Batch grade release for an assignment. Releasing sets `reviewed_at` on
+ * every submitted attempt's grader that hasn't been returned yet, which is
+ * what makes a grade visible to its student. A release can also be
+ * scheduled; the time is kept in `assignments.settings.gradeReleaseAt`
+ * until the scheduler performs it.
+ */
+export interface GradeReleaseSettings {
+  gradeReleaseAt?: string | null;
+}
+
+const RELEASABLE_STATUSES = new Set(["submitted", "graded", "returned"]);
+
+/**
+ * Validate a requested release time. null/undefined releases immediately.
+ * Returns an error message, or null if the value can be used.
+ */
+export function validateGradeReleaseTime(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    return "release_at must be an ISO date string";
+  }
+  return null;
+}
+
+/** Whether a scheduled release should happen now. */
+export function isGradeReleaseDue(
+  settings: GradeReleaseSettings | null | undefined,
+  now: Date = new Date()
+): boolean {
+  const releaseAt = settings?.gradeReleaseAt;
+  return !!releaseAt && Date.parse(releaseAt) <= now.getTime();
+}
+
+/**
+ * IDs of the graders a release returns: graders of submitted attempts that
+ * have no `reviewed_at` yet. Attempts still in progress are left alone.
+ */
+export function selectGradersToRelease(
+  submissions: { id: string; status: string }[],
+  graders: { id: string; submission_id: string; reviewed_at?: string | Date | null }[]
+): string[] {
+  const submittedIds = new Set(
+    submissions
+      .filter((submission) => RELEASABLE_STATUSES.has(submission.status))
+      .map((submission) => submission.id)
+  );
+  return graders
+    .filter((grader) => !grader.reviewed_at && submittedIds.has(grader.submission_id))
+    .map((grader) => grader.id);
+}
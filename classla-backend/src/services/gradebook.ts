@@ -0,0 +1,176 @@
+import { supabase } from "../middleware/auth";
+import { UserRole } from "../types/enums";
+import { GradebookData } from "../types/api";
+import { fetchAllPages } from "../utils/supabasePaginate";
+import {
+  AssignmentScore,
+  GradeSummary,
+  calculateAssignmentPoints,
+  calculateGradeSummary,
+  getGraderScore,
+  getGradingScheme,
+} from "./gradeCalculation";
+import { getScoredAttempts } from "./attemptPolicy";
+
+/**
+ * Load everything the gradebook shows for a course: students, assignments
+ * (with rubric schemas), submissions, graders and per-student grade
+ * summaries. Callers are responsible for permission checks.
+ */
+export async function loadGradebookData(courseId: string): Promise<GradebookData> {
+  // Fetch all students enrolled in the course with section information
+  // Uses pagination to avoid PostgREST's 1000-row silent cap
+  const enrollments = await fetchAllPages(() =>
+    supabase
+      .from("course_enrollments")
+      .select(
+        `
+        user_id,
+        section_id,
+        users!course_enrollments_user_id_fkey(id, first_name, last_name, email, username),
+        sections(id, name, slug)
+      `
+      )
+      .eq("course_id", courseId)
+      .eq("role", UserRole.STUDENT)
+  );
+
+  // Fetch all non-deleted assignments for the course
+  const { data: assignments, error: assignmentsError } = await supabase
+    .from("assignments")
+    .select("*")
+    .eq("course_id", courseId)
+    .is("deleted_at", null)
+    .order("order_index");
+
+  if (assignmentsError) {
+    throw assignmentsError;
+  }
+
+  // Fetch all submissions for the course
+  // Uses pagination to avoid PostgREST's 1000-row silent cap
+  const submissions = await fetchAllPages(() =>
+    supabase.from("submissions").select("*").eq("course_id", courseId)
+  );
+
+  // Fetch all graders for those submissions via direct query (avoids nested join issues)
+  // Batch in chunks of 100 to avoid URL length limits on large courses
+  const submissionIds = submissions.map((s: any) => s.id);
+  const BATCH_SIZE = 100;
+  const graders: any[] = [];
+  for (let i = 0; i < submissionIds.length; i += BATCH_SIZE) {
+    const batch = submissionIds.slice(i, i + BATCH_SIZE);
+    const { data: batchData, error: batchError } = await supabase
+      .from("graders")
+      .select("*")
+      .in("submission_id", batch);
+    if (batchError) throw batchError;
+    if (batchData) graders.push(...batchData);
+  }
+
+  // Fetch rubric schemas for all assignments so the frontend can calculate total points
+  const assignmentIds = (assignments || []).map((a: any) => a.id);
+  let rubricSchemas: any[] = [];
+  if (assignmentIds.length > 0) {
+    const { data: rubricData, error: rubricError } = await supabase
+      .from("rubric_schemas")
+      .select("*")
+      .in("assignment_id", assignmentIds);
+    if (rubricError) throw rubricError;
+    rubricSchemas = rubricData || [];
+  }
+
+  // Build a map of assignment_id -> rubric_schema
+  const rubricSchemaMap = new Map<string, any>();
+  for (const rs of rubricSchemas) {
+    rubricSchemaMap.set(rs.assignment_id, rs);
+  }
+
+  // Attach rubric_schema to each assignment
+  const assignmentsWithRubric = (assignments || []).map((a: any) => ({
+    ...a,
+    rubric_schema: rubricSchemaMap.get(a.id) || null,
+  }));
+
+  // Format students data
+  const students = enrollments.map((enrollment: any) => ({
+    userId: enrollment.users?.id,
+    firstName: enrollment.users?.first_name,
+    lastName: enrollment.users?.last_name,
+    email: enrollment.users?.email,
+    username: enrollment.users?.username || null,
+    sectionId: enrollment.section_id,
+    sectionName: enrollment.sections?.name || null,
+    sectionSlug: enrollment.sections?.slug || null,
+  }));
+
+  // Format submissions data
+  const formattedSubmissions = submissions.map((submission: any) => ({
+    id: submission.id,
+    assignment_id: submission.assignment_id,
+    timestamp: submission.timestamp,
+    values: submission.values,
+    course_id: submission.course_id,
+    student_id: submission.student_id,
+    grader_id: submission.grader_id,
+    grade: submission.grade,
+    status: submission.status,
+    created_at: submission.created_at,
+    updated_at: submission.updated_at,
+  }));
+
+  // Category, running and final grades per student, using each
+  // assignment's attempt scoring policy as the gradebook table does
+  const { data: courseRow } = await supabase
+    .from("courses")
+    .select("settings")
+    .eq("id", courseId)
+    .single();
+  const gradingScheme = getGradingScheme(courseRow?.settings);
+
+  const gradersBySubmission = new Map<string, any>(
+    graders.map((grader: any) => [grader.submission_id, grader])
+  );
+  const scoredAttempts = getScoredAttempts(submissions, assignmentsWithRubric, (submission) => {
+    const grader = gradersBySubmission.get(submission.id);
+    return grader ? getGraderScore(grader) : null;
+  });
+  const assignmentPoints = new Map<string, number>(
+    assignmentsWithRubric.map((a: any) => [
+      a.id,
+      calculateAssignmentPoints(a.content, a.rubric_schema),
+    ])
+  );
+
+  const now = new Date();
+  const gradeSummaries: Record<string, GradeSummary> = {};
+  for (const student of students) {
+    if (!student.userId) continue;
+
+    const scores: AssignmentScore[] = [];
+    for (const assignment of assignmentsWithRubric) {
+      const attempt = scoredAttempts.get(`${student.userId}_${assignment.id}`);
+      const publishTime = (assignment.publish_times || {})[student.userId];
+      // Only count work the student can see (or has already started)
+      if (!attempt && !(publishTime && new Date(publishTime) <= now)) {
+        continue;
+      }
+      scores.push({
+        assignmentId: assignment.id,
+        earned: attempt ? attempt.score : null,
+        possible: assignmentPoints.get(assignment.id) ?? 0,
+      });
+    }
+
+    gradeSummaries[student.userId] = calculateGradeSummary(gradingScheme, scores);
+  }
+
+  return {
+    students,
+    assignments: assignmentsWithRubric,
+    submissions: formattedSubmissions,
+    graders,
+    gradingScheme,
+    gradeSummaries,
+  };
+}
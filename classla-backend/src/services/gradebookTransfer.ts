@@ -0,0 +1,438 @@
+import archiver from "archiver";
+import { GradebookData, StudentGradebookInfo } from "../types/api";
+import {
+  calculateAssignmentPoints,
+  getGraderScore,
+} from "./gradeCalculation";
+import { getScoredAttempts } from "./attemptPolicy";
+
+export type SheetCell = string | number | null;
+
+/**
+ * Section filter for exports: a section id, "no-section" for students
+ * without one, or null/undefined for everyone.
+ */
+export type GradebookSectionFilter = string | null | undefined;
+
+export const NO_SECTION = "no-section";
+
+const roundScore = (value: number): number => Math.round(value * 100) / 100;
+
+const compareStudents = (a: StudentGradebookInfo, b: StudentGradebookInfo) =>
+  (a.lastName || "").localeCompare(b.lastName || "") ||
+  (a.firstName || "").localeCompare(b.firstName || "");
+
+/**
+ * Flatten gradebook data into a header row plus one row per student.
+ * Category and overall columns are only included when the course has
+ * grade categories; running/final totals are always included.
+ */
+export function buildGradebookSheet(
+  data: GradebookData,
+  section?: GradebookSectionFilter
+): SheetCell[][] {
+  const students = data.students
+    .filter((student) =>
+      !section
+        ? true
+        : section === NO_SECTION
+        ? !student.sectionId
+        : student.sectionId === section
+    )
+    .sort(compareStudents);
+
+  const gradersBySubmission = new Map(
+    data.graders.map((grader) => [grader.submission_id, grader])
+  );
+  const scoredAttempts = getScoredAttempts(
+    data.submissions,
+    data.assignments,
+    (submission) => {
+      const grader = gradersBySubmission.get(submission.id);
+      return grader ? getGraderScore(grader) : null;
+    }
+  );
+  const categories = data.gradingScheme.categories;
+
+  const header: SheetCell[] = [
+    "Last Name",
+    "First Name",
+    "Email",
+    "Username",
+    "Section",
+    ...data.assignments.map(
+      (assignment) =>
+        `${assignment.name} (${roundScore(
+          calculateAssignmentPoints(assignment.content, assignment.rubric_schema)
+        )} pts)`
+    ),
+    ...categories.map((category) => `${category.name} (%)`),
+    "Running (%)",
+    "Running Letter",
+    "Final (%)",
+    "Final Letter",
+  ];
+
+  const rows = students.map((student): SheetCell[] => {
+    const summary = data.gradeSummaries[student.userId];
+    const categoryPercent = (categoryId: string) =>
+      summary?.categories.find((c) => c.categoryId === categoryId)
+        ?.runningPercent ?? null;
+
+    return [
+      student.lastName || "",
+      student.firstName || "",
+      student.email || "",
+      student.username || "",
+      student.sectionName || "",
+      ...data.assignments.map((assignment) => {
+        const score = scoredAttempts.get(`${student.userId}_${assignment.id}`)?.score;
+        return score === null || score === undefined ? null : roundScore(score);
+      }),
+      ...categories.map((category) => categoryPercent(category.id)),
+      summary?.runningPercent ?? null,
+      summary?.runningLetter ?? null,
+      summary?.finalPercent ?? null,
+      summary?.finalLetter ?? null,
+    ];
+  });
+
+  return [header, ...rows];
+}
+
+// Leading =, +, - and @ make spreadsheet apps evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: SheetCell): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: SheetCell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+/** Spreadsheet column letters: 0 -> A, 25 -> Z, 26 -> AA */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * SpreadsheetML for a single worksheet. Strings are written inline so no
+ * shared-strings table is needed.
+ */
+export function buildWorksheetXml(rows: SheetCell[][]): string {
+  const rowXml = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, colIndex) => {
+          if (value === null || value === undefined || value === "") return "";
+          const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+          return typeof value === "number"
+            ? `<c r="${ref}"><v>${value}</v></c>`
+            : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+                value
+              )}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rowXml}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Stream a single-sheet .xlsx workbook to `output`. Resolves once the
+ * archive has been finalized.
+ */
+export async function writeXlsx(
+  rows: SheetCell[][],
+  sheetName: string,
+  output: NodeJS.WritableStream
+): Promise<void> {
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const safeSheetName =
+    sheetName.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Grades";
+
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on("error", reject);
+    archive.on("end", () => resolve());
+  });
+  archive.pipe(output);
+
+  archive.append(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>",
+    { name: "[Content_Types].xml" }
+  );
+  archive.append(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+    { name: "_rels/.rels" }
+  );
+  archive.append(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(safeSheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>",
+    { name: "xl/workbook.xml" }
+  );
+  archive.append(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>",
+    { name: "xl/_rels/workbook.xml.rels" }
+  );
+  archive.append(buildWorksheetXml(rows), { name: "xl/worksheets/sheet1.xml" });
+
+  await archive.finalize();
+  await finished;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line
+ * endings). Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+export class GradeImportError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = "GradeImportError";
+  }
+}
+
+export type GradeImportStatus =
+  | "update"
+  | "unchanged"
+  | "unmatched"
+  | "invalid"
+  | "duplicate";
+
+export interface GradeImportChange {
+  rowNumber: number; // 1-based line in the CSV, counting the header
+  identifier: string;
+  studentId: string | null;
+  studentName: string | null;
+  currentScore: number | null;
+  newScore: number | null;
+  status: GradeImportStatus;
+  message?: string;
+}
+
+export interface GradeImportPlan {
+  identifierColumn: string;
+  scoreColumn: string;
+  changes: GradeImportChange[];
+  summary: Record<GradeImportStatus, number>;
+}
+
+const IDENTIFIER_HEADERS = ["email", "e-mail", "username", "login", "login id"];
+const SCORE_HEADERS = ["score", "grade", "points"];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+/**
+ * Pick the score column: an explicit name, a generic score/grade header,
+ * or a column named after the assignment (including our own export's
+ * "Name (10 pts)" headers).
+ */
+function findScoreColumn(
+  header: string[],
+  assignmentName: string,
+  scoreColumn?: string
+): number {
+  const normalized = header.map(normalizeHeader);
+  if (scoreColumn) {
+    return normalized.indexOf(normalizeHeader(scoreColumn));
+  }
+  const generic = normalized.findIndex((h) => SCORE_HEADERS.includes(h));
+  if (generic !== -1) return generic;
+
+  const name = normalizeHeader(assignmentName);
+  return normalized.findIndex(
+    (h) => h === name || h.replace(/\s*\([^)]*\)\s*$/, "") === name
+  );
+}
+
+/**
+ * Work out what importing `rows` would change for one assignment, without
+ * writing anything. Rows are matched to students by email or username
+ * (case-insensitive). `currentScores` maps student id to their current
+ * score on the assignment, or null when ungraded.
+ */
+export function planGradeImport(
+  rows: string[][],
+  options: { assignmentName: string; scoreColumn?: string },
+  students: Pick<
+    StudentGradebookInfo,
+    "userId" | "firstName" | "lastName" | "email" | "username"
+  >[],
+  currentScores: Map<string, number | null>
+): GradeImportPlan {
+  if (rows.length < 2) {
+    throw new GradeImportError(
+      "The CSV needs a header row and at least one student row",
+      "EMPTY_CSV"
+    );
+  }
+
+  const [header, ...body] = rows;
+  const identifierIndex = header.findIndex((h) =>
+    IDENTIFIER_HEADERS.includes(normalizeHeader(h))
+  );
+  if (identifierIndex === -1) {
+    throw new GradeImportError(
+      "The CSV needs an Email or Username column to match students",
+      "MISSING_IDENTIFIER_COLUMN"
+    );
+  }
+  const scoreIndex = findScoreColumn(
+    header,
+    options.assignmentName,
+    options.scoreColumn
+  );
+  if (scoreIndex === -1) {
+    throw new GradeImportError(
+      options.scoreColumn
+        ? `Column "${options.scoreColumn}" was not found in the CSV`
+        : `No Score, Grade or "${options.assignmentName}" column was found in the CSV`,
+      "MISSING_SCORE_COLUMN"
+    );
+  }
+
+  const studentsByIdentifier = new Map<string, (typeof students)[number]>();
+  for (const student of students) {
+    if (student.email) studentsByIdentifier.set(student.email.toLowerCase(), student);
+    if (student.username) {
+      studentsByIdentifier.set(student.username.toLowerCase(), student);
+    }
+  }
+
+  const seen = new Set<string>();
+  const changes = body.map((row, index): GradeImportChange => {
+    const identifier = (row[identifierIndex] || "").trim();
+    const rawScore = (row[scoreIndex] || "").trim();
+    const student = studentsByIdentifier.get(identifier.toLowerCase());
+    const base: GradeImportChange = {
+      rowNumber: index + 2,
+      identifier,
+      studentId: student?.userId ?? null,
+      studentName: student
+        ? `${student.firstName || ""} ${student.lastName || ""}`.trim()
+        : null,
+      currentScore: student ? currentScores.get(student.userId) ?? null : null,
+      newScore: null,
+      status: "invalid",
+    };
+
+    if (!student) {
+      return { ...base, status: "unmatched", message: "No enrolled student matches this row" };
+    }
+    if (seen.has(student.userId)) {
+      return { ...base, status: "duplicate", message: "Student already appears in an earlier row" };
+    }
+    seen.add(student.userId);
+
+    const newScore = Number(rawScore);
+    if (rawScore === "" || !Number.isFinite(newScore)) {
+      return { ...base, message: rawScore === "" ? "Score is blank" : `"${rawScore}" is not a number` };
+    }
+
+    return {
+      ...base,
+      newScore,
+      status:
+        base.currentScore !== null && roundScore(base.currentScore) === roundScore(newScore)
+          ? "unchanged"
+          : "update",
+    };
+  });
+
+  const summary: Record<GradeImportStatus, number> = {
+    update: 0,
+    unchanged: 0,
+    unmatched: 0,
+    invalid: 0,
+    duplicate: 0,
+  };
+  for (const change of changes) summary[change.status]++;
+
+  return {
+    identifierColumn: header[identifierIndex],
+    scoreColumn: header[scoreIndex],
+    changes,
+    summary,
+  };
+}
@@ -0,0 +1,259 @@
+import { extractGradableBlocks, gradeBlock, GradableBlock } from '../index';
+
+const doc = (...nodes: any[]) => JSON.stringify({ type: 'doc', content: nodes });
+
+const findBlock = (content: string, id: string): GradableBlock => {
+  const block = extractGradableBlocks(content).find((b) => b.id === id);
+  if (!block) throw new Error(`block ${id} not found`);
+  return block;
+};
+
+describe('block graders', () => {
+  describe('extractGradableBlocks', () => {
+    it('finds registered block types, including nested ones', () => {
+      const content = doc(
+        { type: 'paragraph', content: [{ type: 'text', text: 'intro' }] },
+        {
+          type: 'mcqBlock',
+          attrs: { mcqData: { id: 'mcq', options: [], points: 1 } },
+        },
+        {
+          type: 'tabbedContentBlock',
+          content: [
+            {
+              type: 'clickableAreaBlock',
+              attrs: { clickableAreaData: { id: 'ca', lines: [], points: 2 } },
+            },
+          ],
+        },
+        { type: 'pollBlock', attrs: { pollData: { id: 'poll' } } }
+      );
+
+      const blocks = extractGradableBlocks(content);
+      expect(blocks.map((b) => [b.id, b.type])).toEqual([
+        ['mcq', 'mcqBlock'],
+        ['ca', 'clickableAreaBlock'],
+      ]);
+    });
+
+    it('skips blocks with invalid data', () => {
+      const content = doc({
+        type: 'fillInTheBlankBlock',
+        attrs: { fillInTheBlankData: { id: 'fitb', points: 'three' } },
+      });
+      expect(extractGradableBlocks(content)).toEqual([]);
+    });
+  });
+
+  describe('gradeBlock', () => {
+    it('scores unanswered blocks as zero', () => {
+      const block = findBlock(
+        doc({
+          type: 'mcqBlock',
+          attrs: { mcqData: { id: 'mcq', options: [], points: 4 } },
+        }),
+        'mcq'
+      );
+      expect(gradeBlock(block, undefined)).toMatchObject({
+        pointsEarned: 0,
+        pointsPossible: 4,
+        feedback: 'Not answered',
+      });
+    });
+  });
+
+  describe('fillInTheBlankBlock', () => {
+    const content = (pointsPerBlank: boolean) =>
+      doc({
+        type: 'fillInTheBlankBlock',
+        attrs: {
+          fillInTheBlankData: {
+            id: 'fitb',
+            question: 'The capital of [BLANK1] is [BLANK2]',
+            points: 4,
+            pointsPerBlank,
+            blanks: [
+              { id: 'blank1', acceptedAnswers: ['France'], caseSensitive: true },
+              { id: 'b-2', acceptedAnswers: ['Paris'], caseSensitive: false },
+            ],
+          },
+        },
+      });
+
+    it('honours caseSensitive and falls back to positional blank keys', () => {
+      const block = findBlock(content(false), 'fitb');
+      const answer = [JSON.stringify({ blank1: 'France', blank2: '  paris ' })];
+      expect(gradeBlock(block, answer)).toMatchObject({
+        isCorrect: true,
+        pointsEarned: 4,
+      });
+
+      const wrongCase = [JSON.stringify({ blank1: 'france', blank2: 'Paris' })];
+      expect(gradeBlock(block, wrongCase).pointsEarned).toBe(0);
+    });
+
+    it('splits points across blanks when pointsPerBlank is set', () => {
+      const block = findBlock(content(true), 'fitb');
+      const answer = [JSON.stringify({ blank1: 'Spain', 'b-2': 'Paris' })];
+      expect(gradeBlock(block, answer)).toMatchObject({
+        isCorrect: false,
+        pointsEarned: 2,
+        pointsPossible: 4,
+      });
+    });
+  });
+
+  describe('parsonsProblemBlock', () => {
+    const content = (indentLevel: number) =>
+      doc({
+        type: 'parsonsProblemBlock',
+        attrs: {
+          parsonsProblemData: {
+            id: 'pp',
+            points: 3,
+            blocks: [
+              { id: 'a', code: 'for i in range(3):', indentLevel: 0 },
+              { id: 'b', code: 'print(i)', indentLevel: 1 },
+              { id: 'c', code: 'print(i)', indentLevel },
+            ],
+            distractorBlocks: [{ id: 'd', code: 'while True:' }],
+          },
+        },
+      });
+
+    it('treats duplicate lines as interchangeable only when shown the same', () => {
+      const swapped = ['a', 'c', 'b'];
+      expect(gradeBlock(findBlock(content(1), 'pp'), swapped).pointsEarned).toBe(3);
+      expect(gradeBlock(findBlock(content(0), 'pp'), swapped).pointsEarned).toBe(0);
+    });
+
+    it('rejects solutions containing distractors', () => {
+      const block = findBlock(content(0), 'pp');
+      expect(gradeBlock(block, ['a', 'b', 'c', 'd']).isCorrect).toBe(false);
+      expect(gradeBlock(block, ['a', 'b', 'c']).isCorrect).toBe(true);
+    });
+  });
+
+  describe('dragDropMatchingBlock', () => {
+    const content = (matchType: string, partialCredit: boolean) =>
+      doc({
+        type: 'dragDropMatchingBlock',
+        attrs: {
+          dragDropMatchingData: {
+            id: 'dd',
+            matchType,
+            partialCredit,
+            points: 4,
+            sourceItems: [
+              { id: 'i1', text: 'Variable' },
+              { id: 'i2', text: 'Function' },
+              { id: 'i3', text: 'Loop' },
+              { id: 'i4', text: 'Distractor' },
+            ],
+            targetZones: [
+              { id: 'z1', label: 'Stores data', correctItemIds: ['i1'] },
+              { id: 'z2', label: 'Code', correctItemIds: ['i2', 'i3'] },
+            ],
+          },
+        },
+      });
+
+    it('prorates partial credit and counts unplaced distractors as correct', () => {
+      const block = findBlock(content('many-to-one', true), 'dd');
+      const answer = [JSON.stringify({ i1: 'z1', i2: 'z2', i3: 'z1' })];
+      expect(gradeBlock(block, answer)).toMatchObject({
+        isCorrect: false,
+        pointsEarned: 3,
+      });
+    });
+
+    it('only credits sole occupants of a zone in one-to-one mode', () => {
+      const answer = [JSON.stringify({ i1: 'z1', i2: 'z2', i3: 'z2' })];
+      expect(gradeBlock(findBlock(content('many-to-one', false), 'dd'), answer).pointsEarned).toBe(4);
+      expect(gradeBlock(findBlock(content('one-to-one', true), 'dd'), answer).pointsEarned).toBe(2);
+    });
+  });
+
+  describe('clickableAreaBlock', () => {
+    const content = (partialCredit: boolean) =>
+      doc({
+        type: 'clickableAreaBlock',
+        attrs: {
+          clickableAreaData: {
+            id: 'ca',
+            partialCredit,
+            points: 2,
+            lines: [
+              { lineNumber: 1, content: 'x = 1', isCorrect: false, isClickable: true },
+              { lineNumber: 2, content: 'if x = 1:', isCorrect: true, isClickable: true },
+              { lineNumber: 3, content: 'print(x', isCorrect: true, isClickable: true },
+            ],
+          },
+        },
+      });
+
+    it('requires an exact selection without partial credit', () => {
+      const block = findBlock(content(false), 'ca');
+      expect(gradeBlock(block, ['2', '3']).pointsEarned).toBe(2);
+      expect(gradeBlock(block, ['2']).pointsEarned).toBe(0);
+    });
+
+    it('offsets correct selections with incorrect ones under partial credit', () => {
+      const block = findBlock(content(true), 'ca');
+      expect(gradeBlock(block, ['2']).pointsEarned).toBe(1);
+      expect(gradeBlock(block, ['1', '2']).pointsEarned).toBe(0);
+      expect(gradeBlock(block, ['1', '2', '3']).pointsEarned).toBe(1);
+    });
+  });
+
+  describe('shortAnswerBlock', () => {
+    const content = (data: Record<string, any>) =>
+      doc({
+        type: 'shortAnswerBlock',
+        attrs: { shortAnswerData: { id: 'sa', prompt: 'Explain', points: 4, ...data } },
+      });
+
+    it('leaves manually graded short answers out of autograding', () => {
+      expect(extractGradableBlocks(content({ gradingType: 'manual' }))).toEqual([]);
+    });
+
+    it('prorates keyword matches on whole words and flags partial credit for review', () => {
+      const block = findBlock(
+        content({ gradingType: 'keyword', keywordMatches: ['base case', 'stack', 'loop'] }),
+        'sa'
+      );
+      const result = gradeBlock(block, ['The Base  case stops the loophole on the stack']);
+      expect(result).toMatchObject({ pointsEarned: 2.67, needsReview: true });
+
+      const full = gradeBlock(block, ['base case, stack and loop']);
+      expect(full).toMatchObject({ pointsEarned: 4, isCorrect: true, needsReview: false });
+    });
+
+    it('enforces word limits before scoring', () => {
+      const block = findBlock(
+        content({ gradingType: 'keyword', keywordMatches: ['stack'], minWords: 3 }),
+        'sa'
+      );
+      expect(gradeBlock(block, ['stack'])).toMatchObject({ pointsEarned: 0, needsReview: true });
+    });
+
+    it('matches regex patterns and respects caseSensitive', () => {
+      const block = findBlock(
+        content({ gradingType: 'regex', regexPattern: '^O\\(n log n\\)$', caseSensitive: true }),
+        'sa'
+      );
+      expect(gradeBlock(block, ['O(n log n)']).pointsEarned).toBe(4);
+      expect(gradeBlock(block, ['o(n log n)'])).toMatchObject({ pointsEarned: 0, needsReview: true });
+    });
+
+    it('gives up on catastrophic patterns instead of hanging', () => {
+      const block = findBlock(content({ gradingType: 'regex', regexPattern: '^(a+)+$' }), 'sa');
+      const result = gradeBlock(block, ['a'.repeat(40) + '!']);
+      expect(result).toMatchObject({
+        pointsEarned: 0,
+        needsReview: true,
+        feedback: 'Pattern check timed out',
+      });
+    });
+  });
+});
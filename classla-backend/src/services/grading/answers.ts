@@ -0,0 +1,50 @@
+/**
+ * Helpers for decoding answers as they are stored in `Submission.values`.
+ *
+ * The assignment viewer saves every answer as a string array: plain lists
+ * (MCQ options, Parsons block IDs, selected line numbers) are stored as-is,
+ * while object answers (blank answers, drag-drop matches) are stored as a
+ * single JSON-encoded string.
+ */
+
+export function parseAnswerList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v) => typeof v === "string" || typeof v === "number")
+    .map((v) => String(v));
+}
+
+export function parseAnswerObject(value: unknown): Record<string, string> {
+  let raw: unknown = value;
+
+  if (Array.isArray(raw)) {
+    raw = raw[0];
+  }
+
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {};
+  }
+
+  const result: Record<string, string> = {};
+  for (const [key, val] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof val === "string") {
+      result[key] = val;
+    }
+  }
+  return result;
+}
+
+/**
+ * Round partial-credit scores to two decimals to avoid float noise in graders
+ */
+export function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
@@ -0,0 +1,76 @@
+import { BlockGrader } from "./types";
+import { parseAnswerList, roundPoints } from "./answers";
+
+export interface ClickableAreaBlockData {
+  id: string;
+  instruction: string;
+  lines: Array<{
+    lineNumber: number;
+    content: string;
+    isCorrect: boolean;
+    isClickable: boolean;
+  }>;
+  points: number;
+  partialCredit: boolean;
+}
+
+/**
+ * Code selection: the student's selected line numbers are compared to the
+ * lines marked isCorrect. With partialCredit each wrongly selected line
+ * cancels one correct selection (floored at zero) so selecting everything
+ * does not earn credit; otherwise the selection must match exactly.
+ */
+export const clickableAreaGrader: BlockGrader<ClickableAreaBlockData> = {
+  blockType: "clickableAreaBlock",
+  dataAttr: "clickableAreaData",
+
+  isValid: (data: any): data is ClickableAreaBlockData =>
+    !!data &&
+    typeof data.id === "string" &&
+    Array.isArray(data.lines) &&
+    typeof data.points === "number",
+
+  getPoints: (data) => data.points,
+
+  grade: (data, studentAnswer) => {
+    const selected = new Set(
+      parseAnswerList(studentAnswer)
+        .map((n) => Number(n))
+        .filter((n) => Number.isInteger(n))
+    );
+    const correctLines = new Set(
+      data.lines.filter((line) => line.isCorrect).map((line) => line.lineNumber)
+    );
+
+    let hits = 0;
+    let misses = 0;
+    for (const lineNumber of selected) {
+      if (correctLines.has(lineNumber)) {
+        hits++;
+      } else {
+        misses++;
+      }
+    }
+
+    const isCorrect =
+      correctLines.size > 0 && hits === correctLines.size && misses === 0;
+
+    let pointsEarned = 0;
+    if (data.partialCredit && correctLines.size > 0) {
+      const ratio = Math.max(0, hits - misses) / correctLines.size;
+      pointsEarned = roundPoints(data.points * ratio);
+    } else if (isCorrect) {
+      pointsEarned = data.points;
+    }
+
+    return {
+      blockId: data.id,
+      isCorrect,
+      pointsEarned,
+      pointsPossible: data.points,
+      feedback: `${hits} of ${correctLines.size} correct lines selected${
+        misses > 0 ? `, ${misses} incorrect` : ""
+      }`,
+    };
+  },
+};
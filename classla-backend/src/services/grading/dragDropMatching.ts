@@ -0,0 +1,89 @@
+import { BlockGrader } from "./types";
+import { parseAnswerObject, roundPoints } from "./answers";
+
+export interface DragDropMatchingBlockData {
+  id: string;
+  instruction: string;
+  sourceItems: Array<{ id: string; text: string }>;
+  targetZones: Array<{ id: string; label: string; correctItemIds: string[] }>;
+  matchType: "one-to-one" | "many-to-one";
+  points: number;
+  partialCredit: boolean;
+}
+
+/**
+ * Drag-and-drop matching: every source item is scored on its own. An item is
+ * correct when it sits in a zone that lists it in correctItemIds, or when it
+ * belongs to no zone and was left unplaced. In one-to-one mode an item only
+ * counts if it is the sole item in its zone. With partialCredit the points are
+ * prorated by correct items, otherwise every item must be correct.
+ */
+export const dragDropMatchingGrader: BlockGrader<DragDropMatchingBlockData> = {
+  blockType: "dragDropMatchingBlock",
+  dataAttr: "dragDropMatchingData",
+
+  isValid: (data: any): data is DragDropMatchingBlockData =>
+    !!data &&
+    typeof data.id === "string" &&
+    Array.isArray(data.sourceItems) &&
+    Array.isArray(data.targetZones) &&
+    typeof data.points === "number",
+
+  getPoints: (data) => data.points,
+
+  grade: (data, studentAnswer) => {
+    const matches = parseAnswerObject(studentAnswer); // itemId -> zoneId
+    const zoneIds = new Set(data.targetZones.map((zone) => zone.id));
+
+    const zoneOccupancy = new Map<string, number>();
+    for (const zoneId of Object.values(matches)) {
+      zoneOccupancy.set(zoneId, (zoneOccupancy.get(zoneId) ?? 0) + 1);
+    }
+
+    let correctCount = 0;
+    for (const item of data.sourceItems) {
+      const placedZoneId = matches[item.id];
+      const expectedZoneIds = data.targetZones
+        .filter(
+          (zone) =>
+            Array.isArray(zone.correctItemIds) &&
+            zone.correctItemIds.includes(item.id)
+        )
+        .map((zone) => zone.id);
+
+      if (!placedZoneId || !zoneIds.has(placedZoneId)) {
+        if (expectedZoneIds.length === 0) correctCount++;
+        continue;
+      }
+
+      if (!expectedZoneIds.includes(placedZoneId)) continue;
+
+      if (
+        data.matchType === "one-to-one" &&
+        (zoneOccupancy.get(placedZoneId) ?? 0) > 1
+      ) {
+        continue;
+      }
+
+      correctCount++;
+    }
+
+    const totalItems = data.sourceItems.length;
+    const isCorrect = totalItems > 0 && correctCount === totalItems;
+
+    let pointsEarned = 0;
+    if (data.partialCredit && totalItems > 0) {
+      pointsEarned = roundPoints((data.points * correctCount) / totalItems);
+    } else if (isCorrect) {
+      pointsEarned = data.points;
+    }
+
+    return {
+      blockId: data.id,
+      isCorrect,
+      pointsEarned,
+      pointsPossible: data.points,
+      feedback: `${correctCount} of ${totalItems} items matched correctly`,
+    };
+  },
+};
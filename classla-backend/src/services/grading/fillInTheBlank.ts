@@ -0,0 +1,92 @@
+import { BlockGrader } from "./types";
+import { parseAnswerObject, roundPoints } from "./answers";
+
+export interface FillInTheBlankBlank {
+  id: string;
+  acceptedAnswers: string[];
+  caseSensitive: boolean;
+  feedback?: string;
+}
+
+export interface FillInTheBlankBlockData {
+  id: string;
+  question: string;
+  blanks: FillInTheBlankBlank[];
+  points: number;
+  pointsPerBlank: boolean;
+  generalFeedback?: string;
+}
+
+const normalize = (value: string, caseSensitive: boolean): string => {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return caseSensitive ? trimmed : trimmed.toLowerCase();
+};
+
+/**
+ * Look up the student's answer for a blank. The viewer keys answers by the
+ * marker in the question text ([BLANK1] -> "blank1", legacy [BLANK:id] -> id),
+ * so fall back to the positional marker when the blank ID is not present.
+ */
+const getBlankAnswer = (
+  answers: Record<string, string>,
+  blank: FillInTheBlankBlank,
+  index: number
+): string | undefined => answers[blank.id] ?? answers[`blank${index + 1}`];
+
+/**
+ * Fill-in-the-blank: each blank is checked against its accepted answers,
+ * honouring the blank's caseSensitive flag. With pointsPerBlank the block's
+ * points are split evenly across blanks, otherwise all blanks must be correct.
+ */
+export const fillInTheBlankGrader: BlockGrader<FillInTheBlankBlockData> = {
+  blockType: "fillInTheBlankBlock",
+  dataAttr: "fillInTheBlankData",
+
+  isValid: (data: any): data is FillInTheBlankBlockData =>
+    !!data &&
+    typeof data.id === "string" &&
+    Array.isArray(data.blanks) &&
+    typeof data.points === "number",
+
+  getPoints: (data) => data.points,
+
+  grade: (data, studentAnswer) => {
+    const answers = parseAnswerObject(studentAnswer);
+    const blanks = data.blanks;
+
+    let correctCount = 0;
+    for (const [index, blank] of blanks.entries()) {
+      const answer = getBlankAnswer(answers, blank, index);
+      if (!answer || !Array.isArray(blank.acceptedAnswers)) continue;
+
+      const caseSensitive = blank.caseSensitive === true;
+      const normalized = normalize(answer, caseSensitive);
+      if (
+        blank.acceptedAnswers.some(
+          (accepted) =>
+            typeof accepted === "string" &&
+            normalize(accepted, caseSensitive) === normalized
+        )
+      ) {
+        correctCount++;
+      }
+    }
+
+    const isCorrect = blanks.length > 0 && correctCount === blanks.length;
+
+    let pointsEarned = 0;
+    if (data.pointsPerBlank && blanks.length > 0) {
+      pointsEarned = roundPoints((data.points * correctCount) / blanks.length);
+    } else if (isCorrect) {
+      pointsEarned = data.points;
+    }
+
+    return {
+      blockId: data.id,
+      isCorrect,
+      pointsEarned,
+      pointsPossible: data.points,
+      feedback: `${correctCount} of ${blanks.length} blanks correct`,
+    };
+  },
+};
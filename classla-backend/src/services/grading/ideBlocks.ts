@@ -0,0 +1,58 @@
+/**
+ * IDE Block info - represents an IDE block with autograder tests
+ */
+export interface IDEBlockInfo {
+  id: string;
+  executablePoints: number; // sum of inputOutput + unitTest test points
+  manualPoints: number; // sum of manualGrading test points
+  hasExecutableTests: boolean;
+}
+
+/**
+ * Extract IDE blocks with autograder tests from assignment content
+ * Recursively traverses TipTap document structure to find all IDE blocks that have tests
+ */
+export function extractIDEBlocks(assignmentContent: string): IDEBlockInfo[] {
+  try {
+    const content = JSON.parse(assignmentContent);
+    const ideBlocks: IDEBlockInfo[] = [];
+
+    function traverse(node: any) {
+      if (node.type === "ideBlock" && node.attrs?.ideData) {
+        const ideData = node.attrs.ideData;
+        const tests = ideData.autograder?.tests;
+
+        if (ideData.id && Array.isArray(tests) && tests.length > 0) {
+          let executablePoints = 0;
+          let manualPoints = 0;
+
+          for (const test of tests) {
+            const pts = typeof test.points === "number" ? test.points : 0;
+            if (test.type === "manualGrading") {
+              manualPoints += pts;
+            } else {
+              executablePoints += pts;
+            }
+          }
+
+          ideBlocks.push({
+            id: ideData.id,
+            executablePoints,
+            manualPoints,
+            hasExecutableTests: executablePoints > 0,
+          });
+        }
+      }
+
+      if (node.content && Array.isArray(node.content)) {
+        node.content.forEach(traverse);
+      }
+    }
+
+    traverse(content);
+    return ideBlocks;
+  } catch (error) {
+    console.error("Failed to parse assignment content for IDE blocks:", error);
+    return [];
+  }
+}
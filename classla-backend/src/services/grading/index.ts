@@ -0,0 +1,100 @@
+import { BlockGrader, BlockGradeResult, GradableBlock } from "./types";
+import { mcqGrader } from "./mcq";
+import { fillInTheBlankGrader } from "./fillInTheBlank";
+import { parsonsProblemGrader } from "./parsonsProblem";
+import { dragDropMatchingGrader } from "./dragDropMatching";
+import { clickableAreaGrader } from "./clickableArea";
+import { shortAnswerGrader } from "./shortAnswer";
+
+export type { BlockGrader, BlockGradeResult, GradableBlock } from "./types";
+export type { MCQBlockData } from "./mcq";
+export { extractIDEBlocks } from "./ideBlocks";
+export type { IDEBlockInfo } from "./ideBlocks";
+
+/**
+ * Registered server-side graders keyed by TipTap node type.
+ * To autograde a new block type, implement BlockGrader and add it here.
+ */
+const blockGraders = new Map<string, BlockGrader>(
+  [
+    mcqGrader,
+    fillInTheBlankGrader,
+    parsonsProblemGrader,
+    dragDropMatchingGrader,
+    clickableAreaGrader,
+    shortAnswerGrader,
+  ].map((grader) => [grader.blockType, grader as BlockGrader])
+);
+
+export function getBlockGrader(blockType: string): BlockGrader | undefined {
+  return blockGraders.get(blockType);
+}
+
+/**
+ * Extract all blocks that have a registered grader from assignment content.
+ * Recursively traverses the TipTap document; invalid block data is skipped
+ * with a warning, and blocks whose grader opts them out (isAutogradable)
+ * are left for manual grading. Throws if the content is not valid JSON.
+ */
+export function extractGradableBlocks(
+  assignmentContent: string
+): GradableBlock[] {
+  const content = JSON.parse(assignmentContent);
+  const blocks: GradableBlock[] = [];
+
+  function traverse(node: any) {
+    if (!node || typeof node !== "object") return;
+
+    const grader =
+      typeof node.type === "string" ? blockGraders.get(node.type) : undefined;
+    if (grader) {
+      const data = node.attrs?.[grader.dataAttr];
+      if (grader.isValid(data)) {
+        if (!grader.isAutogradable || grader.isAutogradable(data)) {
+          blocks.push({ id: data.id, type: grader.blockType, data, grader });
+        }
+      } else if (node.attrs?.[grader.dataAttr]) {
+        console.warn(
+          `Invalid ${grader.blockType} data for block ${
+            node.attrs[grader.dataAttr].id || "unknown"
+          }`
+        );
+      }
+    }
+
+    if (Array.isArray(node.content)) {
+      node.content.forEach(traverse);
+    }
+  }
+
+  traverse(content);
+  return blocks;
+}
+
+/**
+ * Grade one block against the raw value from Submission.values.
+ * Unanswered blocks score zero without invoking the grader.
+ */
+export function gradeBlock(
+  block: GradableBlock,
+  studentAnswer: unknown
+): BlockGradeResult {
+  const pointsPossible = block.grader.getPoints(block.data);
+
+  const isEmpty =
+    studentAnswer === undefined ||
+    studentAnswer === null ||
+    (Array.isArray(studentAnswer) && studentAnswer.length === 0);
+
+  if (isEmpty) {
+    return {
+      blockId: block.id,
+      isCorrect: false,
+      pointsEarned: 0,
+      pointsPossible,
+      feedback: "Not answered",
+    };
+  }
+
+  return block.grader.grade(block.data, studentAnswer);
+}
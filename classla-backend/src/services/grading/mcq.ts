@@ -0,0 +1,59 @@
+import { BlockGrader } from "./types";
+import { parseAnswerList } from "./answers";
+
+export interface MCQBlockData {
+  id: string;
+  question: string;
+  options: Array<{
+    id: string;
+    text: string;
+    isCorrect: boolean;
+  }>;
+  allowMultiple: boolean;
+  points: number;
+  explanation?: string;
+  allowCheckAnswer?: boolean;
+}
+
+/**
+ * Multiple choice: full points for an exact match of the correct option set,
+ * zero for incorrect or partial selections
+ */
+export const mcqGrader: BlockGrader<MCQBlockData> = {
+  blockType: "mcqBlock",
+  dataAttr: "mcqData",
+
+  isValid: (data: any): data is MCQBlockData =>
+    !!data &&
+    typeof data.id === "string" &&
+    Array.isArray(data.options) &&
+    typeof data.points === "number",
+
+  getPoints: (data) => data.points,
+
+  grade: (data, studentAnswer) => {
+    const selected = parseAnswerList(studentAnswer).sort();
+    const correctIds = data.options
+      .filter((opt) => opt.isCorrect)
+      .map((opt) => opt.id)
+      .sort();
+
+    const isCorrect =
+      correctIds.length > 0 &&
+      correctIds.length === selected.length &&
+      correctIds.every((id, index) => id === selected[index]);
+
+    let feedback = isCorrect ? "Correct!" : "Incorrect.";
+    if (data.explanation) {
+      feedback += ` ${data.explanation}`;
+    }
+
+    return {
+      blockId: data.id,
+      isCorrect,
+      pointsEarned: isCorrect ? data.points : 0,
+      pointsPossible: data.points,
+      feedback,
+    };
+  },
+};
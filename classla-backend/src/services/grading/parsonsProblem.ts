@@ -0,0 +1,71 @@
+import { BlockGrader } from "./types";
+import { parseAnswerList } from "./answers";
+
+export interface ParsonsProblemCodeBlock {
+  id: string;
+  code: string;
+  indentLevel: number;
+}
+
+export interface ParsonsProblemBlockData {
+  id: string;
+  instruction: string;
+  blocks: ParsonsProblemCodeBlock[];
+  distractorBlocks: Array<{ id: string; code: string }>;
+  points: number;
+}
+
+/**
+ * Parsons problem: the student's ordered block IDs must reproduce the correct
+ * solution line for line. Lines are compared as they are shown, by code and
+ * indent level rather than ID, so that identical duplicate lines (e.g. two
+ * `return` statements) are interchangeable. Students only order blocks and
+ * can't change their indentation, so it isn't graded on its own. Any
+ * distractor in the solution makes it incorrect. All-or-nothing.
+ */
+export const parsonsProblemGrader: BlockGrader<ParsonsProblemBlockData> = {
+  blockType: "parsonsProblemBlock",
+  dataAttr: "parsonsProblemData",
+
+  isValid: (data: any): data is ParsonsProblemBlockData =>
+    !!data &&
+    typeof data.id === "string" &&
+    Array.isArray(data.blocks) &&
+    typeof data.points === "number",
+
+  getPoints: (data) => data.points,
+
+  grade: (data, studentAnswer) => {
+    const solution = parseAnswerList(studentAnswer);
+    const expected = data.blocks;
+    const blocksById = new Map(expected.map((block) => [block.id, block]));
+
+    let correctLines = 0;
+    for (const [index, blockId] of solution.entries()) {
+      const placed = blocksById.get(blockId);
+      const target = expected[index];
+      if (!placed || !target) continue;
+
+      const sameCode = placed.code.trim() === target.code.trim();
+      const sameIndent = (placed.indentLevel || 0) === (target.indentLevel || 0);
+      if (sameCode && sameIndent) {
+        correctLines++;
+      }
+    }
+
+    const isCorrect =
+      expected.length > 0 &&
+      solution.length === expected.length &&
+      correctLines === expected.length;
+
+    return {
+      blockId: data.id,
+      isCorrect,
+      pointsEarned: isCorrect ? data.points : 0,
+      pointsPossible: data.points,
+      feedback: isCorrect
+        ? "Correct!"
+        : `${correctLines} of ${expected.length} lines in the correct position`,
+    };
+  },
+};
@@ -0,0 +1,42 @@
+import vm from "vm";
+
+const MAX_PATTERN_LENGTH = 500;
+const MAX_INPUT_LENGTH = 20000;
+const DEFAULT_TIMEOUT_MS = 50;
+
+export type SafeRegexResult =
+  | { ok: true; matched: boolean }
+  | { ok: false; error: "invalid" | "too_long" | "timeout" };
+
+/**
+ * Test an instructor-supplied regex against a student answer without letting a
+ * catastrophic-backtracking pattern block the event loop. The match runs in a
+ * fresh V8 context with a hard timeout; pattern and input sizes are capped.
+ */
+export function safeRegexTest(
+  pattern: string,
+  input: string,
+  flags: string = "",
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): SafeRegexResult {
+  if (pattern.length > MAX_PATTERN_LENGTH || input.length > MAX_INPUT_LENGTH) {
+    return { ok: false, error: "too_long" };
+  }
+
+  try {
+    new RegExp(pattern, flags);
+  } catch {
+    return { ok: false, error: "invalid" };
+  }
+
+  try {
+    const matched = vm.runInNewContext(
+      "new RegExp(pattern, flags).test(input)",
+      { pattern, flags, input },
+      { timeout: timeoutMs }
+    );
+    return { ok: true, matched: matched === true };
+  } catch {
+    return { ok: false, error: "timeout" };
+  }
+}
@@ -0,0 +1,150 @@
+import { BlockGrader } from "./types";
+import { parseAnswerList, roundPoints } from "./answers";
+import { safeRegexTest } from "./safeRegex";
+
+export interface ShortAnswerBlockData {
+  id: string;
+  prompt: string;
+  minWords?: number;
+  maxWords?: number;
+  points: number;
+  gradingType?: "manual" | "keyword" | "regex";
+  keywordMatches?: string[];
+  regexPattern?: string;
+  caseSensitive?: boolean;
+}
+
+const escapeRegex = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const countWords = (text: string): number =>
+  text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * Match a keyword or phrase as whole words where it starts/ends with a word
+ * character, so "loop" does not match "loophole" but "O(n)" still matches.
+ */
+const containsKeyword = (
+  answer: string,
+  keyword: string,
+  caseSensitive: boolean
+): boolean => {
+  const escaped = escapeRegex(keyword.trim()).replace(/\s+/g, "\\s+");
+  const prefix = /^\w/.test(keyword.trim()) ? "\\b" : "";
+  const suffix = /\w$/.test(keyword.trim()) ? "\\b" : "";
+  return new RegExp(
+    `${prefix}${escaped}${suffix}`,
+    caseSensitive ? "" : "i"
+  ).test(answer);
+};
+
+/**
+ * Short answer in keyword or regex mode. Keyword mode awards points in
+ * proportion to the keywords found; regex mode is all-or-nothing. Answers
+ * outside minWords/maxWords score zero. Anything short of full credit is
+ * flagged needsReview so a TA can confirm it; manual-mode blocks are skipped.
+ */
+export const shortAnswerGrader: BlockGrader<ShortAnswerBlockData> = {
+  blockType: "shortAnswerBlock",
+  dataAttr: "shortAnswerData",
+
+  isValid: (data: any): data is ShortAnswerBlockData =>
+    !!data && typeof data.id === "string" && typeof data.points === "number",
+
+  getPoints: (data) => data.points,
+
+  isAutogradable: (data) =>
+    data.gradingType === "keyword" || data.gradingType === "regex",
+
+  grade: (data, studentAnswer) => {
+    const answer = parseAnswerList(studentAnswer).join("\n");
+    const caseSensitive = data.caseSensitive === true;
+    const base = { blockId: data.id, pointsPossible: data.points };
+
+    const wordCount = countWords(answer);
+    const belowMin =
+      typeof data.minWords === "number" && wordCount < data.minWords;
+    const aboveMax =
+      typeof data.maxWords === "number" &&
+      data.maxWords > 0 &&
+      wordCount > data.maxWords;
+    if (belowMin || aboveMax) {
+      return {
+        ...base,
+        isCorrect: false,
+        pointsEarned: 0,
+        needsReview: true,
+        feedback: belowMin
+          ? `Answer has ${wordCount} words; at least ${data.minWords} required`
+          : `Answer has ${wordCount} words; at most ${data.maxWords} allowed`,
+      };
+    }
+
+    if (data.gradingType === "regex") {
+      if (!data.regexPattern) {
+        return {
+          ...base,
+          isCorrect: false,
+          pointsEarned: 0,
+          needsReview: true,
+          feedback: "No pattern configured",
+        };
+      }
+
+      const result = safeRegexTest(
+        data.regexPattern,
+        answer,
+        caseSensitive ? "" : "i"
+      );
+      if (!result.ok) {
+        return {
+          ...base,
+          isCorrect: false,
+          pointsEarned: 0,
+          needsReview: true,
+          feedback:
+            result.error === "timeout"
+              ? "Pattern check timed out"
+              : result.error === "too_long"
+              ? "Pattern or answer too long to check automatically"
+              : "Invalid grading pattern",
+        };
+      }
+      return {
+        ...base,
+        isCorrect: result.matched,
+        pointsEarned: result.matched ? data.points : 0,
+        needsReview: !result.matched,
+        feedback: result.matched
+          ? "Matches expected pattern"
+          : "Does not match expected pattern",
+      };
+    }
+
+    const keywords = (data.keywordMatches ?? []).filter(
+      (k) => typeof k === "string" && k.trim() !== ""
+    );
+    if (keywords.length === 0) {
+      return {
+        ...base,
+        isCorrect: false,
+        pointsEarned: 0,
+        needsReview: true,
+        feedback: "No keywords configured",
+      };
+    }
+
+    const found = keywords.filter((k) =>
+      containsKeyword(answer, k, caseSensitive)
+    );
+    const isCorrect = found.length === keywords.length;
+
+    return {
+      ...base,
+      isCorrect,
+      pointsEarned: roundPoints((data.points * found.length) / keywords.length),
+      needsReview: !isCorrect,
+      feedback: `${found.length} of ${keywords.length} keywords found`,
+    };
+  },
+};
@@ -0,0 +1,39 @@
+/**
+ * Result of grading a single interactive block
+ */
+export interface BlockGradeResult {
+  blockId: string;
+  isCorrect: boolean;
+  pointsEarned: number;
+  pointsPossible: number;
+  feedback?: string;
+  needsReview?: boolean; // Auto-scored but a human should confirm the score
+}
+
+/**
+ * A server-side grader for one TipTap block type.
+ *
+ * `dataAttr` is the node attribute that holds the block's configuration
+ * (e.g. `mcqData` for `mcqBlock`). `grade` receives the raw value stored in
+ * `Submission.values[blockId]` and must tolerate missing or malformed answers.
+ * `isAutogradable` lets a block opt out per instance (e.g. manually graded
+ * short answers); blocks without it are always graded.
+ */
+export interface BlockGrader<T = any> {
+  blockType: string;
+  dataAttr: string;
+  isValid: (data: any) => data is T;
+  getPoints: (data: T) => number;
+  isAutogradable?: (data: T) => boolean;
+  grade: (data: T, studentAnswer: unknown) => BlockGradeResult;
+}
+
+/**
+ * A gradable block found in assignment content
+ */
+export interface GradableBlock<T = any> {
+  id: string;
+  type: string;
+  data: T;
+  grader: BlockGrader<T>;
+}
@@ -0,0 +1,202 @@
+/**
+ * Distribution of an assignment's grading across course staff, stored in
+ * `grading_assignments`. Submissions can be split evenly, by section (each
+ * student goes to a staff member of their section), or by question (each
+ * block goes to one staff member, who grades it for every student).
+ */
+export const DISTRIBUTION_STRATEGIES = ["even", "section", "block"] as const;
+export type DistributionStrategy = (typeof DISTRIBUTION_STRATEGIES)[number];
+
+export interface GradingAssignmentRow {
+  assignee_id: string;
+  student_id?: string | null;
+  block_id?: string | null;
+}
+
+export interface DistributionMember {
+  id: string;
+  section_id?: string | null;
+}
+
+/**
+ * Validate a distribution request. `staffIds` are the course's instructors
+ * and TAs; `blockIds` the gradable blocks of the assignment.
+ */
+export function validateDistributionRequest(
+  input: { strategy?: unknown; assignee_ids?: unknown; block_ids?: unknown },
+  staffIds: Set<string>,
+  blockIds: Set<string>
+): string | null {
+  if (!DISTRIBUTION_STRATEGIES.includes(input.strategy as DistributionStrategy)) {
+    return `strategy must be one of: ${DISTRIBUTION_STRATEGIES.join(", ")}`;
+  }
+  if (
+    !Array.isArray(input.assignee_ids) ||
+    input.assignee_ids.length === 0 ||
+    input.assignee_ids.some((id) => typeof id !== "string")
+  ) {
+    return "Choose at least one grader";
+  }
+  if (input.assignee_ids.some((id) => !staffIds.has(id))) {
+    return "Graders must be instructors or TAs of this course";
+  }
+  if (input.strategy === "block") {
+    if (!Array.isArray(input.block_ids) || input.block_ids.length === 0) {
+      return "Choose at least one question to distribute";
+    }
+    if (input.block_ids.some((id) => typeof id !== "string" || !blockIds.has(id))) {
+      return "Question not found in this assignment";
+    }
+  }
+  return null;
+}
+
+/** Number of rows per assignee, with every given assignee present. */
+export function countLoad(
+  rows: GradingAssignmentRow[],
+  assigneeIds: string[]
+): Map<string, number> {
+  const load = new Map(assigneeIds.map((id) => [id, 0]));
+  for (const row of rows) {
+    if (load.has(row.assignee_id)) {
+      load.set(row.assignee_id, load.get(row.assignee_id)! + 1);
+    }
+  }
+  return load;
+}
+
+// Hand each item to the least-loaded assignee, ties going to the earlier one
+const assignToLeastLoaded = <T>(
+  items: T[],
+  load: Map<string, number>,
+  toRow: (item: T, assigneeId: string) => GradingAssignmentRow
+): GradingAssignmentRow[] =>
+  items.map((item) => {
+    let assigneeId = "";
+    let lowest = Infinity;
+    for (const [id, count] of load) {
+      if (count < lowest) {
+        assigneeId = id;
+        lowest = count;
+      }
+    }
+    load.set(assigneeId, lowest + 1);
+    return toRow(item, assigneeId);
+  });
+
+/** Split students evenly across assignees. */
+export function distributeEvenly(
+  studentIds: string[],
+  assigneeIds: string[]
+): GradingAssignmentRow[] {
+  if (assigneeIds.length === 0) return [];
+  return assignToLeastLoaded(studentIds, countLoad([], assigneeIds), (student_id, assignee_id) => ({
+    assignee_id,
+    student_id,
+  }));
+}
+
+/**
+ * Give each student to an assignee in the same section, evenly within the
+ * section. Students whose section has no chosen assignee (or who have no
+ * section) are split evenly across all assignees, topping up the lightest.
+ */
+export function distributeBySection(
+  students: DistributionMember[],
+  assignees: DistributionMember[]
+): GradingAssignmentRow[] {
+  if (assignees.length === 0) return [];
+
+  const assigneesBySection = new Map<string, string[]>();
+  for (const assignee of assignees) {
+    if (!assignee.section_id) continue;
+    const ids = assigneesBySection.get(assignee.section_id) || [];
+    ids.push(assignee.id);
+    assigneesBySection.set(assignee.section_id, ids);
+  }
+
+  const rows: GradingAssignmentRow[] = [];
+  const unmatched: string[] = [];
+  const studentsBySection = new Map<string, string[]>();
+  for (const student of students) {
+    if (student.section_id && assigneesBySection.has(student.section_id)) {
+      const ids = studentsBySection.get(student.section_id) || [];
+      ids.push(student.id);
+      studentsBySection.set(student.section_id, ids);
+    } else {
+      unmatched.push(student.id);
+    }
+  }
+
+  for (const [sectionId, studentIds] of studentsBySection) {
+    rows.push(...distributeEvenly(studentIds, assigneesBySection.get(sectionId)!));
+  }
+
+  const load = countLoad(
+    rows,
+    assignees.map((assignee) => assignee.id)
+  );
+  rows.push(
+    ...assignToLeastLoaded(unmatched, load, (student_id, assignee_id) => ({
+      assignee_id,
+      student_id,
+    }))
+  );
+  return rows;
+}
+
+/** Give each block to one assignee, round robin. */
+export function distributeBlocks(
+  blockIds: string[],
+  assigneeIds: string[]
+): GradingAssignmentRow[] {
+  if (assigneeIds.length === 0) return [];
+  return assignToLeastLoaded(blockIds, countLoad([], assigneeIds), (block_id, assignee_id) => ({
+    assignee_id,
+    block_id,
+  }));
+}
+
+/**
+ * Move everything assigned to `fromId` onto `toIds`, filling up the least
+ * loaded first so the remaining staff stay balanced. Returns only the moved
+ * rows with their new assignee.
+ */
+export function reassignRows(
+  rows: GradingAssignmentRow[],
+  fromId: string,
+  toIds: string[]
+): GradingAssignmentRow[] {
+  const targets = toIds.filter((id) => id !== fromId);
+  if (targets.length === 0) return [];
+  const load = countLoad(rows, targets);
+  return assignToLeastLoaded(
+    rows.filter((row) => row.assignee_id === fromId),
+    load,
+    (row, assignee_id) => ({ ...row, assignee_id })
+  );
+}
+
+export interface GradingProgress {
+  assigned: number;
+  completed: number;
+}
+
+/**
+ * Assigned and completed submissions per assignee. `countRow` gives the
+ * counts for one row: a student row is one submission, a block row one per
+ * student who submitted.
+ */
+export function summarizeProgress(
+  rows: GradingAssignmentRow[],
+  countRow: (row: GradingAssignmentRow) => GradingProgress
+): Record<string, GradingProgress> {
+  const progress: Record<string, GradingProgress> = {};
+  for (const row of rows) {
+    const entry = (progress[row.assignee_id] ||= { assigned: 0, completed: 0 });
+    const { assigned, completed } = countRow(row);
+    entry.assigned += assigned;
+    entry.completed += completed;
+  }
+  return progress;
+}
@@ -0,0 +1,192 @@
+/**
+ * Predictable IDE demand: class meetings (kept in
+ * `courses.settings.meetingTimes`) and the hour before IDE assignments are
+ * due. The IDE orchestrator pulls these events to grow its pool of
+ * pre-warmed containers ahead of the spikes.
+ */
+export interface CourseMeetingTime {
+  id: string;
+  label?: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // "HH:MM", wall clock in timeZone
+  endTime: string;
+  timeZone: string; // IANA zone, e.g. "America/New_York"
+}
+
+export interface IdeDemandEvent {
+  kind: "class_meeting" | "due_date";
+  course_id: string;
+  assignment_id?: string;
+  starts_at: string;
+  ends_at: string;
+  expected_users: number;
+}
+
+// Students start working on an assignment in the hour before it's due
+export const DUE_DATE_RAMP_MS = 60 * 60 * 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Validate meeting times from course settings.
+ * Returns an error message, or null if the value can be used.
+ */
+export function validateMeetingTimes(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value)) return "meetingTimes must be an array";
+
+  for (const meeting of value) {
+    if (!meeting || typeof meeting !== "object") {
+      return "Each meeting time must be an object";
+    }
+    const { id, days, startTime, endTime, timeZone } = meeting as Record<string, unknown>;
+    if (typeof id !== "string" || !id) return "Each meeting time needs an id";
+    if (
+      !Array.isArray(days) ||
+      days.length === 0 ||
+      !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ) {
+      return "Meeting days must be weekday numbers from 0 (Sunday) to 6 (Saturday)";
+    }
+    if (
+      typeof startTime !== "string" ||
+      typeof endTime !== "string" ||
+      !TIME_PATTERN.test(startTime) ||
+      !TIME_PATTERN.test(endTime)
+    ) {
+      return "Meeting times must be in HH:MM format";
+    }
+    if (endTime <= startTime) return "A meeting must end after it starts";
+    if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+      return "Meeting time zone is not recognized";
+    }
+  }
+  return null;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || "";
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+  };
+}
+
+/**
+ * The UTC instant at which a wall-clock time occurs in a time zone.
+ * Uses the zone's offset at that moment, so DST changes are respected.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Offset of the zone around that time; a second pass settles DST edges
+  let guess = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(guess), timeZone);
+    const zonedAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    guess = asUtc - (zonedAsUtc - guess);
+  }
+  return new Date(guess);
+}
+
+/**
+ * Occurrences of a course's meetings that overlap [from, to)
+ */
+export function expandMeetingTimes(
+  meetings: CourseMeetingTime[],
+  from: Date,
+  to: Date
+): { meetingId: string; startsAt: Date; endsAt: Date }[] {
+  const occurrences: { meetingId: string; startsAt: Date; endsAt: Date }[] = [];
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  for (const meeting of meetings) {
+    const [startHour, startMinute] = meeting.startTime.split(":").map(Number);
+    const [endHour, endMinute] = meeting.endTime.split(":").map(Number);
+
+    // Walk the local calendar days the window touches (plus one on each side for zone offsets)
+    const seen = new Set<string>();
+    for (let t = from.getTime() - dayMs; t <= to.getTime() + dayMs; t += dayMs / 2) {
+      const local = getZonedParts(new Date(t), meeting.timeZone);
+      const key = `${local.year}-${local.month}-${local.day}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (!meeting.days.includes(local.weekday)) continue;
+
+      const startsAt = zonedTimeToUtc(local.year, local.month, local.day, startHour, startMinute, meeting.timeZone);
+      const endsAt = zonedTimeToUtc(local.year, local.month, local.day, endHour, endMinute, meeting.timeZone);
+      if (endsAt > from && startsAt < to) {
+        occurrences.push({ meetingId: meeting.id, startsAt, endsAt });
+      }
+    }
+  }
+
+  return occurrences.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+/**
+ * Group an assignment's per-student due dates into moments, keeping those
+ * whose ramp-up hour overlaps [from, to). With `publishTimes`, only students
+ * the assignment is published to before their due date are counted.
+ */
+export function groupDueDates(
+  dueDatesMap: Record<string, string | Date> | null | undefined,
+  from: Date,
+  to: Date,
+  publishTimes?: Record<string, string | Date> | null
+): { dueAt: Date; users: number }[] {
+  const counts = new Map<number, number>();
+  for (const [userId, value] of Object.entries(dueDatesMap || {})) {
+    const dueAt = new Date(value).getTime();
+    if (Number.isNaN(dueAt)) continue;
+    if (dueAt <= from.getTime() || dueAt - DUE_DATE_RAMP_MS >= to.getTime()) continue;
+    if (publishTimes !== undefined) {
+      const publishedAt = publishTimes?.[userId] ? new Date(publishTimes[userId]).getTime() : NaN;
+      if (Number.isNaN(publishedAt) || publishedAt >= dueAt) continue;
+    }
+    counts.set(dueAt, (counts.get(dueAt) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([dueAt, users]) => ({ dueAt: new Date(dueAt), users }));
+}
@@ -0,0 +1,73 @@
+/**
+ * Outbound network access for IDE containers, set per assignment in
+ * `settings.networkPolicy`. The orchestrator applies the policy inside the
+ * container when it is assigned to a student.
+ */
+export type IDENetworkPolicyMode = "none" | "allowlist" | "full";
+
+export interface IDENetworkPolicy {
+  mode: IDENetworkPolicyMode;
+  allowlist?: string[]; // Hostnames reachable over HTTP(S) in allowlist mode
+}
+
+export const NETWORK_POLICY_MODES: IDENetworkPolicyMode[] = ["none", "allowlist", "full"];
+
+export const MAX_NETWORK_ALLOWLIST_DOMAINS = 50;
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+const normalizeAllowlist = (allowlist: string[]): string[] =>
+  Array.from(new Set(allowlist.map((domain) => domain.trim().toLowerCase()))).filter(Boolean);
+
+/**
+ * Validate `settings.networkPolicy` from an assignment update.
+ * Returns an error message, or null if the value can be used.
+ */
+export function validateNetworkPolicy(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "Network policy must be an object";
+  }
+  const policy = value as Record<string, unknown>;
+
+  if (!NETWORK_POLICY_MODES.includes(policy.mode as IDENetworkPolicyMode)) {
+    return `Network policy mode must be one of: ${NETWORK_POLICY_MODES.join(", ")}`;
+  }
+  if (policy.allowlist === undefined) {
+    return policy.mode === "allowlist" ? "An allowlist policy needs at least one domain" : null;
+  }
+  if (!Array.isArray(policy.allowlist) || !policy.allowlist.every((d) => typeof d === "string")) {
+    return "Network allowlist must be a list of domain names";
+  }
+
+  const allowlist = normalizeAllowlist(policy.allowlist);
+  if (policy.mode === "allowlist" && allowlist.length === 0) {
+    return "An allowlist policy needs at least one domain";
+  }
+  if (allowlist.length > MAX_NETWORK_ALLOWLIST_DOMAINS) {
+    return `Network allowlist can have at most ${MAX_NETWORK_ALLOWLIST_DOMAINS} domains`;
+  }
+  const invalid = allowlist.find((domain) => !HOSTNAME_PATTERN.test(domain));
+  if (invalid) {
+    return `"${invalid}" is not a domain name (wildcards, IPs and URLs aren't supported)`;
+  }
+  return null;
+}
+
+/**
+ * The policy an assignment's IDE containers get. Without an explicit policy,
+ * lockdown assignments have no network access and others have full access.
+ */
+export function resolveNetworkPolicy(assignment: {
+  is_lockdown?: boolean | null;
+  settings?: Record<string, any> | null;
+}): IDENetworkPolicy {
+  const policy = assignment.settings?.networkPolicy;
+  if (policy && validateNetworkPolicy(policy) === null) {
+    if (policy.mode === "allowlist") {
+      return { mode: "allowlist", allowlist: normalizeAllowlist(policy.allowlist) };
+    }
+    return { mode: policy.mode };
+  }
+  return { mode: assignment.is_lockdown ? "none" : "full" };
+}
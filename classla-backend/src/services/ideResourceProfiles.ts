@@ -0,0 +1,166 @@
+/**
+ * Named resource profiles for IDE containers. Instructors pick one per IDE
+ * block (`settings.resource_profile`); organization admins can cap what
+ * their courses may use (`organizations.settings.ideResourceCaps`).
+ */
+export type IDEResourceProfileName = "light" | "standard" | "gui" | "data_science";
+
+export interface IDEResourceProfile {
+  label: string;
+  description: string;
+  cpuCores: number;
+  memoryMb: number;
+  diskGb: number;
+  idleTimeoutMinutes: number;
+  vncEnabled: boolean;
+}
+
+export interface IDEResourceCaps {
+  allowedProfiles?: IDEResourceProfileName[]; // All profiles when unset
+  maxCpuCores?: number;
+  maxMemoryMb?: number;
+  maxDiskGb?: number;
+  maxIdleTimeoutMinutes?: number;
+  allowVnc?: boolean; // VNC desktops allowed unless false
+}
+
+// Resources sent to the IDE orchestrator for one container
+export interface IDEContainerResources {
+  cpuCores: number;
+  memoryMb: number;
+  diskMb: number;
+  idleTimeoutSeconds: number;
+  vncEnabled: boolean;
+}
+
+export interface ResolvedResourceProfile {
+  name: IDEResourceProfileName;
+  resources: IDEContainerResources;
+  capped: boolean; // The caps changed the requested profile
+}
+
+// The standard profile matches the orchestrator's defaults, which the
+// pre-warmed pool is built with
+export const DEFAULT_IDE_RESOURCE_PROFILE: IDEResourceProfileName = "standard";
+
+export const IDE_RESOURCE_PROFILES: Record<IDEResourceProfileName, IDEResourceProfile> = {
+  light: {
+    label: "Light",
+    description: "Intro programming: small scripts, no desktop",
+    cpuCores: 0.5,
+    memoryMb: 1024,
+    diskGb: 2,
+    idleTimeoutMinutes: 10,
+    vncEnabled: false,
+  },
+  standard: {
+    label: "Standard",
+    description: "Most assignments; starts fastest",
+    cpuCores: 2,
+    memoryMb: 4096,
+    diskGb: 10,
+    idleTimeoutMinutes: 10,
+    vncEnabled: true,
+  },
+  gui: {
+    label: "GUI",
+    description: "Java Swing/JavaFX and other desktop apps",
+    cpuCores: 2,
+    memoryMb: 6144,
+    diskGb: 10,
+    idleTimeoutMinutes: 20,
+    vncEnabled: true,
+  },
+  data_science: {
+    label: "Data science",
+    description: "pandas, notebooks and model training",
+    cpuCores: 4,
+    memoryMb: 8192,
+    diskGb: 20,
+    idleTimeoutMinutes: 30,
+    vncEnabled: false,
+  },
+};
+
+export function isResourceProfileName(value: unknown): value is IDEResourceProfileName {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(IDE_RESOURCE_PROFILES, value);
+}
+
+/**
+ * Validate resource caps from organization settings.
+ * Returns an error message, or null if the value can be used.
+ */
+export function validateResourceCaps(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "ideResourceCaps must be an object";
+  }
+  const caps = value as Record<string, unknown>;
+
+  if (caps.allowedProfiles !== undefined) {
+    if (
+      !Array.isArray(caps.allowedProfiles) ||
+      caps.allowedProfiles.length === 0 ||
+      !caps.allowedProfiles.every(isResourceProfileName)
+    ) {
+      return `allowedProfiles must be a non-empty list of: ${Object.keys(IDE_RESOURCE_PROFILES).join(", ")}`;
+    }
+  }
+  for (const key of ["maxCpuCores", "maxMemoryMb", "maxDiskGb", "maxIdleTimeoutMinutes"]) {
+    const limit = caps[key];
+    if (limit !== undefined && (typeof limit !== "number" || !Number.isFinite(limit) || limit <= 0)) {
+      return `${key} must be a positive number`;
+    }
+  }
+  if (caps.allowVnc !== undefined && typeof caps.allowVnc !== "boolean") {
+    return "allowVnc must be a boolean";
+  }
+  return null;
+}
+
+/**
+ * The profile a container actually gets: the block's profile (or the
+ * default), swapped for an allowed one and clamped to the caps
+ */
+export function resolveResourceProfile(
+  requested: unknown,
+  caps?: IDEResourceCaps | null
+): ResolvedResourceProfile {
+  let name = isResourceProfileName(requested) ? requested : DEFAULT_IDE_RESOURCE_PROFILE;
+  let capped = false;
+
+  const allowed = caps?.allowedProfiles;
+  if (allowed && allowed.length > 0 && !allowed.includes(name)) {
+    name = allowed.includes(DEFAULT_IDE_RESOURCE_PROFILE) ? DEFAULT_IDE_RESOURCE_PROFILE : allowed[0];
+    capped = true;
+  }
+
+  const profile = IDE_RESOURCE_PROFILES[name];
+  const clamp = (value: number, max: number | undefined) => {
+    if (max === undefined || value <= max) return value;
+    capped = true;
+    return max;
+  };
+
+  const cpuCores = clamp(profile.cpuCores, caps?.maxCpuCores);
+  const memoryMb = clamp(profile.memoryMb, caps?.maxMemoryMb);
+  const diskGb = clamp(profile.diskGb, caps?.maxDiskGb);
+  const idleTimeoutMinutes = clamp(profile.idleTimeoutMinutes, caps?.maxIdleTimeoutMinutes);
+  let vncEnabled = profile.vncEnabled;
+  if (vncEnabled && caps?.allowVnc === false) {
+    vncEnabled = false;
+    capped = true;
+  }
+
+  return {
+    name,
+    resources: {
+      cpuCores,
+      memoryMb: Math.floor(memoryMb),
+      diskMb: Math.floor(diskGb * 1024),
+      idleTimeoutSeconds: Math.floor(idleTimeoutMinutes * 60),
+      vncEnabled,
+    },
+    capped,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Late submission policy, stored in `assignments.settings.latePolicy`.
+ *
+ * Every started `penaltyUnit` after the due date (plus grace period) costs
+ * `penaltyPercent` of the score, capped at 100%. Past `maxLateDays` the
+ * submission is either scored zero or rejected, per `zeroAfterCutoff`.
+ */
+export interface LatePolicy {
+  penaltyPercent: number;
+  penaltyUnit: "day" | "hour";
+  gracePeriodMinutes: number;
+  maxLateDays: number | null;
+  zeroAfterCutoff: boolean;
+}
+
+export interface LatePenaltyResult {
+  isLate: boolean;
+  minutesLate: number;
+  penaltyPercent: number;
+  pastCutoff: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const UNIT_MS: Record<LatePolicy["penaltyUnit"], number> = {
+  hour: 60 * MINUTE_MS,
+  day: 24 * 60 * MINUTE_MS,
+};
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Validate a late policy sent by a client. Returns an error message, or
+ * null if the policy can be saved.
+ */
+export function validateLatePolicy(input: any): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "latePolicy must be an object";
+  }
+  if (!isNonNegativeNumber(input.penaltyPercent) || input.penaltyPercent > 100) {
+    return "Late penalty must be between 0 and 100 percent";
+  }
+  if (input.penaltyUnit !== "day" && input.penaltyUnit !== "hour") {
+    return "Late penalty unit must be 'day' or 'hour'";
+  }
+  if (!isNonNegativeNumber(input.gracePeriodMinutes)) {
+    return "Grace period must be a non-negative number of minutes";
+  }
+  if (input.maxLateDays !== null && !isNonNegativeNumber(input.maxLateDays)) {
+    return "Maximum late days must be a non-negative number or null";
+  }
+  if (typeof input.zeroAfterCutoff !== "boolean") {
+    return "zeroAfterCutoff must be a boolean";
+  }
+  return null;
+}
+
+/**
+ * Read the late policy from assignment settings. Returns null when late
+ * submissions carry no penalty (including malformed stored policies).
+ */
+export function getLatePolicy(
+  assignmentSettings: Record<string, any> | null | undefined
+): LatePolicy | null {
+  const policy = assignmentSettings?.latePolicy;
+  if (!policy || validateLatePolicy(policy) !== null) return null;
+  return policy as LatePolicy;
+}
+
+/**
+ * Work out the penalty for a submission made at `submittedAt`.
+ * Without a due date or policy the submission is never penalised, though it
+ * is still reported as late when past the due date.
+ */
+export function evaluateLatePenalty(
+  policy: LatePolicy | null,
+  dueDate: string | Date | null | undefined,
+  submittedAt: Date
+): LatePenaltyResult {
+  const onTime: LatePenaltyResult = {
+    isLate: false,
+    minutesLate: 0,
+    penaltyPercent: 0,
+    pastCutoff: false,
+  };
+  if (!dueDate) return onTime;
+
+  const due = new Date(dueDate).getTime();
+  if (Number.isNaN(due)) return onTime;
+
+  const lateMs = submittedAt.getTime() - due;
+  if (lateMs <= 0) return onTime;
+
+  const minutesLate = Math.ceil(lateMs / MINUTE_MS);
+  if (!policy) {
+    return { isLate: true, minutesLate, penaltyPercent: 0, pastCutoff: false };
+  }
+
+  const pastCutoff =
+    policy.maxLateDays !== null && lateMs > policy.maxLateDays * UNIT_MS.day;
+  if (pastCutoff && policy.zeroAfterCutoff) {
+    return { isLate: true, minutesLate, penaltyPercent: 100, pastCutoff };
+  }
+
+  const penalisedMs = lateMs - policy.gracePeriodMinutes * MINUTE_MS;
+  const units = penalisedMs > 0 ? Math.ceil(penalisedMs / UNIT_MS[policy.penaltyUnit]) : 0;
+
+  return {
+    isLate: true,
+    minutesLate,
+    penaltyPercent: Math.min(100, units * policy.penaltyPercent),
+    pastCutoff,
+  };
+}
+
+/**
+ * Late penalty for a stored submission, judged by its submit time against
+ * the student's own due date. In-progress work is never penalised.
+ */
+export function evaluateSubmissionLatePenalty(
+  assignment: {
+    settings?: Record<string, any> | null;
+    due_dates_map?: Record<string, string | Date> | null;
+  },
+  submission: { student_id: string; timestamp: string | Date; status: string }
+): LatePenaltyResult {
+  if (submission.status === "in-progress") {
+    return { isLate: false, minutesLate: 0, penaltyPercent: 0, pastCutoff: false };
+  }
+  return evaluateLatePenalty(
+    getLatePolicy(assignment.settings),
+    assignment.due_dates_map?.[submission.student_id],
+    new Date(submission.timestamp)
+  );
+}
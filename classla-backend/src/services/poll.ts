@@ -0,0 +1,157 @@
+import { collectBlockData } from "../utils/blockContent";
+import { parseAnswerList } from "./grading/answers";
+
+/**
+ * Poll block settings as stored in the `pollData` node attribute.
+ * Mirrors PollData in the frontend PollBlock extension.
+ */
+export interface PollSettings {
+  id: string;
+  options: { id: string; text: string }[];
+  selectionType: "single" | "multiple";
+  showResults: "never" | "after-voting" | "after-close" | "immediately";
+  allowAnswerChange: boolean;
+  closeDate?: string;
+}
+
+export interface PollTally {
+  counts: Record<string, number>; // option id -> votes
+  totalResponses: number; // students with at least one valid selection
+}
+
+const normalizePoll = (data: any): PollSettings => ({
+  id: data.id,
+  options: Array.isArray(data.options)
+    ? data.options.filter((opt: any) => typeof opt?.id === "string")
+    : [],
+  selectionType: data.selectionType === "multiple" ? "multiple" : "single",
+  showResults: ["never", "after-voting", "after-close", "immediately"].includes(
+    data.showResults
+  )
+    ? data.showResults
+    : "after-voting",
+  allowAnswerChange: !!data.allowAnswerChange,
+  closeDate: typeof data.closeDate === "string" ? data.closeDate : undefined,
+});
+
+/**
+ * All poll blocks in assignment content, with the editor's defaults applied
+ */
+export function getPollBlocks(
+  assignmentContent: string | null | undefined
+): PollSettings[] {
+  return collectBlockData(assignmentContent, "pollBlock", "pollData").map(
+    normalizePoll
+  );
+}
+
+export function isPollClosed(
+  poll: PollSettings,
+  now: Date = new Date()
+): boolean {
+  if (!poll.closeDate) return false;
+  const closeTime = new Date(poll.closeDate).getTime();
+  return !isNaN(closeTime) && now.getTime() >= closeTime;
+}
+
+/**
+ * Option ids a student selected, dropping ids that are no longer options
+ * and extra selections on single-choice polls.
+ */
+export function getPollSelection(poll: PollSettings, answer: unknown): string[] {
+  const optionIds = new Set(poll.options.map((opt) => opt.id));
+  const selected = Array.from(
+    new Set(parseAnswerList(answer).filter((id) => optionIds.has(id)))
+  );
+  return poll.selectionType === "single" ? selected.slice(0, 1) : selected;
+}
+
+/**
+ * Count votes per option across one answer per student
+ */
+export function tallyPollVotes(
+  poll: PollSettings,
+  answers: unknown[]
+): PollTally {
+  const counts: Record<string, number> = {};
+  for (const opt of poll.options) counts[opt.id] = 0;
+
+  let totalResponses = 0;
+  for (const answer of answers) {
+    const selection = getPollSelection(poll, answer);
+    if (selection.length === 0) continue;
+    totalResponses++;
+    for (const id of selection) counts[id]++;
+  }
+
+  return { counts, totalResponses };
+}
+
+/**
+ * Whether a student may see aggregate results under the poll's showResults
+ * setting. Staff can always see results.
+ */
+export function canViewPollResults(
+  poll: PollSettings,
+  viewer: { isStaff: boolean; hasVoted: boolean },
+  now: Date = new Date()
+): boolean {
+  if (viewer.isStaff) return true;
+  switch (poll.showResults) {
+    case "immediately":
+      return true;
+    case "after-voting":
+      return viewer.hasVoted;
+    case "after-close":
+      return isPollClosed(poll, now);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply closeDate and allowAnswerChange to a student's incoming submission
+ * values. Poll answers that may not change keep their previous value; the
+ * rest of the values are passed through untouched.
+ *
+ * Returns the values to store, the polls whose stored answer changed (for
+ * live result updates) and the polls whose incoming change was refused.
+ */
+export function enforcePollAnswerRules(
+  polls: PollSettings[],
+  previousValues: Record<string, any> | null | undefined,
+  nextValues: Record<string, any>,
+  now: Date = new Date()
+): { values: Record<string, any>; changedPollIds: string[]; lockedPollIds: string[] } {
+  const values = { ...nextValues };
+  const changedPollIds: string[] = [];
+  const lockedPollIds: string[] = [];
+
+  for (const poll of polls) {
+    const previous = getPollSelection(poll, previousValues?.[poll.id]);
+    const next = getPollSelection(poll, nextValues[poll.id]);
+
+    const unchanged =
+      previous.length === next.length &&
+      previous.every((id) => next.includes(id));
+    if (unchanged) continue;
+
+    const locked =
+      isPollClosed(poll, now) ||
+      (!poll.allowAnswerChange && previous.length > 0);
+
+    if (!locked) {
+      changedPollIds.push(poll.id);
+      continue;
+    }
+
+    lockedPollIds.push(poll.id);
+    if (previousValues && poll.id in previousValues) {
+      values[poll.id] = previousValues[poll.id];
+    } else {
+      delete values[poll.id];
+    }
+  }
+
+  return { values, changedPollIds, lockedPollIds };
+}
@@ -0,0 +1,84 @@
+/**
+ * Student regrade requests. A request disputes the score of one assignment
+ * block or one rubric item on a returned grade, and stays "open" until
+ * course staff accept or reject it with a response.
+ */
+export const MAX_REGRADE_REASON_LENGTH = 2000;
+
+export const REGRADE_STATUSES = ["open", "accepted", "rejected"] as const;
+export type RegradeStatus = (typeof REGRADE_STATUSES)[number];
+
+export interface RegradeTarget {
+  block_id?: string | null;
+  rubric_item_index?: number | null;
+}
+
+/**
+ * Validate a new regrade request against the assignment it's for.
+ * Returns an error message, or null if the request can be saved.
+ */
+export function validateRegradeRequest(
+  input: RegradeTarget & { reason?: unknown },
+  assignment: { blockIds: Set<string>; rubricItemCount: number }
+): string | null {
+  const hasBlock = input.block_id !== undefined && input.block_id !== null;
+  const hasRubricItem =
+    input.rubric_item_index !== undefined && input.rubric_item_index !== null;
+
+  if (hasBlock === hasRubricItem) {
+    return "A regrade request must target either a block or a rubric item";
+  }
+  if (hasBlock && (typeof input.block_id !== "string" || !assignment.blockIds.has(input.block_id))) {
+    return "Block not found in this assignment";
+  }
+  if (
+    hasRubricItem &&
+    !(
+      Number.isInteger(input.rubric_item_index) &&
+      input.rubric_item_index! >= 0 &&
+      input.rubric_item_index! < assignment.rubricItemCount
+    )
+  ) {
+    return "Rubric item not found for this assignment";
+  }
+  if (typeof input.reason !== "string" || input.reason.trim().length === 0) {
+    return "Please explain why you are requesting a regrade";
+  }
+  if (input.reason.length > MAX_REGRADE_REASON_LENGTH) {
+    return `Reason must be ${MAX_REGRADE_REASON_LENGTH} characters or fewer`;
+  }
+  return null;
+}
+
+/**
+ * Validate a staff resolution of a regrade request. `score_modifier`, when
+ * given, replaces the grader's score modifier.
+ */
+export function validateRegradeResolution(input: {
+  status?: unknown;
+  response?: unknown;
+  score_modifier?: unknown;
+}): string | null {
+  if (input.status !== "accepted" && input.status !== "rejected") {
+    return "status must be accepted or rejected";
+  }
+  if (input.response !== undefined && input.response !== null && typeof input.response !== "string") {
+    return "response must be text";
+  }
+  if (
+    input.score_modifier !== undefined &&
+    input.score_modifier !== null &&
+    !Number.isFinite(Number(input.score_modifier))
+  ) {
+    return "score_modifier must be a number";
+  }
+  return null;
+}
+
+/**
+ * Whether two targets refer to the same block or rubric item, used to
+ * allow only one open request per target.
+ */
+export const isSameRegradeTarget = (a: RegradeTarget, b: RegradeTarget): boolean =>
+  (a.block_id ?? null) === (b.block_id ?? null) &&
+  (a.rubric_item_index ?? null) === (b.rubric_item_index ?? null);
@@ -0,0 +1,312 @@
+/**
+ * Code similarity by winnowing, as in MOSS.
+ *
+ * Source files are tokenized with identifiers, numbers and strings
+ * normalized (so renaming variables doesn't hide a copy), hashed as k-grams
+ * of tokens, and a winnowed subset of those hashes kept as fingerprints.
+ * Two submissions are similar when they share many fingerprints. Template
+ * fingerprints are removed first so starter code never counts as a match.
+ */
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export interface Token {
+  text: string;
+  line: number;
+}
+
+export interface Fingerprint {
+  hash: number;
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface SimilaritySubject {
+  id: string;
+  fingerprints: Fingerprint[];
+  prior?: boolean; // From a prior term; pairs of two prior subjects are skipped
+}
+
+export interface SimilarityPair {
+  a: string;
+  b: string;
+  similarity: number; // Shared fingerprints over the smaller submission's, 0-1
+  sharedFingerprints: number;
+}
+
+export interface MatchRegion {
+  pathA: string;
+  startLineA: number;
+  endLineA: number;
+  pathB: string;
+  startLineB: number;
+  endLineB: number;
+}
+
+export const KGRAM_SIZE = 5;
+export const WINNOW_WINDOW = 4;
+
+// Keywords stay as-is so the structure of the code is compared
+const KEYWORDS = new Set([
+  "abstract", "and", "as", "assert", "async", "await", "boolean", "break", "case",
+  "catch", "char", "class", "const", "continue", "def", "default", "del", "do",
+  "double", "elif", "else", "enum", "except", "extends", "false", "final", "finally",
+  "float", "for", "from", "function", "global", "if", "implements", "import", "in",
+  "instanceof", "int", "interface", "is", "lambda", "let", "long", "new", "none",
+  "not", "null", "or", "pass", "print", "private", "protected", "public", "raise",
+  "return", "self", "static", "struct", "super", "switch", "this", "throw", "throws",
+  "true", "try", "var", "void", "while", "with", "yield",
+]);
+
+/**
+ * Tokens of a source file. Comments and whitespace are dropped; identifiers
+ * become "ID", numbers "NUM" and string literals "STR". Handles the comment
+ * and string syntax of the languages IDE blocks support.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const skipUntil = (terminator: string) => {
+    while (i < source.length && !source.startsWith(terminator, i)) {
+      if (source[i] === "\n") line++;
+      i++;
+    }
+    i += terminator.length;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith("//", i) || char === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (source.startsWith("/*", i)) {
+      i += 2;
+      skipUntil("*/");
+    } else if (source.startsWith('"""', i) || source.startsWith("'''", i)) {
+      const quote = source.slice(i, i + 3);
+      tokens.push({ text: "STR", line });
+      i += 3;
+      skipUntil(quote);
+    } else if (char === '"' || char === "'" || char === "`") {
+      tokens.push({ text: "STR", line });
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === "\\") i++;
+        else if (source[i] === "\n") line++;
+        i++;
+      }
+      i++;
+    } else if (/[0-9]/.test(char)) {
+      tokens.push({ text: "NUM", line });
+      while (i < source.length && /[\w.]/.test(source[i])) i++;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const start = i;
+      while (i < source.length && /[\w$]/.test(source[i])) i++;
+      const word = source.slice(start, i);
+      tokens.push({ text: KEYWORDS.has(word.toLowerCase()) ? word.toLowerCase() : "ID", line });
+    } else {
+      tokens.push({ text: char, line });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+// 32-bit FNV-1a
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Winnowed fingerprints of one file: from every window of `window`
+ * consecutive k-gram hashes the smallest (rightmost on ties) is kept.
+ */
+export function fingerprintFile(
+  file: SourceFile,
+  k: number = KGRAM_SIZE,
+  window: number = WINNOW_WINDOW
+): Fingerprint[] {
+  const tokens = tokenize(file.content);
+  if (tokens.length < k) return [];
+
+  const kgrams = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    kgrams.push({
+      hash: hashString(
+        tokens
+          .slice(i, i + k)
+          .map((token) => token.text)
+          .join(" ")
+      ),
+      startLine: tokens[i].line,
+      endLine: tokens[i + k - 1].line,
+    });
+  }
+
+  const fingerprints: Fingerprint[] = [];
+  const size = Math.min(window, kgrams.length);
+  let lastPicked = -1;
+  for (let start = 0; start + size <= kgrams.length; start++) {
+    let minIndex = start;
+    for (let j = start; j < start + size; j++) {
+      if (kgrams[j].hash <= kgrams[minIndex].hash) minIndex = j;
+    }
+    if (minIndex !== lastPicked) {
+      fingerprints.push({ ...kgrams[minIndex], path: file.path });
+      lastPicked = minIndex;
+    }
+  }
+  return fingerprints;
+}
+
+/** Fingerprints of a submission's files, minus any in `templateHashes`. */
+export function fingerprintFiles(
+  files: SourceFile[],
+  templateHashes: Set<number> = new Set()
+): Fingerprint[] {
+  return files
+    .flatMap((file) => fingerprintFile(file))
+    .filter((fingerprint) => !templateHashes.has(fingerprint.hash));
+}
+
+/**
+ * Pairs of subjects ranked by similarity, most similar first. Fingerprints
+ * shared by more than `maxOccurrenceShare` of the subjects (and by more than
+ * `minMaxOccurrences`, so small classes keep their matches) are common
+ * idioms rather than evidence of copying and are ignored. A share rather
+ * than a count keeps a large group of copies in a big course from being
+ * mistaken for an idiom.
+ */
+export function rankSimilarPairs(
+  subjects: SimilaritySubject[],
+  options: {
+    minSimilarity?: number;
+    maxPairs?: number;
+    maxOccurrenceShare?: number;
+    minMaxOccurrences?: number;
+  } = {}
+): SimilarityPair[] {
+  const {
+    minSimilarity = 0.2,
+    maxPairs = 100,
+    maxOccurrenceShare = 0.5,
+    minMaxOccurrences = 10,
+  } = options;
+  const maxOccurrences = Math.max(
+    minMaxOccurrences,
+    Math.floor(subjects.length * maxOccurrenceShare)
+  );
+
+  const hashSets = subjects.map(
+    (subject) => new Set(subject.fingerprints.map((fingerprint) => fingerprint.hash))
+  );
+  const holders = new Map<number, number[]>();
+  hashSets.forEach((hashes, index) => {
+    for (const hash of hashes) {
+      holders.set(hash, [...(holders.get(hash) || []), index]);
+    }
+  });
+
+  const shared = new Map<string, number>();
+  for (const indexes of holders.values()) {
+    if (indexes.length < 2 || indexes.length > maxOccurrences) continue;
+    for (let x = 0; x < indexes.length; x++) {
+      for (let y = x + 1; y < indexes.length; y++) {
+        if (subjects[indexes[x]].prior && subjects[indexes[y]].prior) continue;
+        const key = `${indexes[x]}:${indexes[y]}`;
+        shared.set(key, (shared.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  const pairs: SimilarityPair[] = [];
+  for (const [key, count] of shared) {
+    const [x, y] = key.split(":").map(Number);
+    const smaller = Math.min(hashSets[x].size, hashSets[y].size);
+    const similarity = smaller > 0 ? count / smaller : 0;
+    if (similarity >= minSimilarity) {
+      pairs.push({
+        a: subjects[x].id,
+        b: subjects[y].id,
+        similarity: Math.round(similarity * 1000) / 1000,
+        sharedFingerprints: count,
+      });
+    }
+  }
+
+  return pairs
+    .sort((p, q) => q.similarity - p.similarity || q.sharedFingerprints - p.sharedFingerprints)
+    .slice(0, maxPairs);
+}
+
+/**
+ * Line ranges the two submissions share, for a side-by-side view. Each
+ * shared fingerprint maps its first occurrence in A to its first in B;
+ * overlapping or adjacent ranges in the same pair of files are merged.
+ */
+export function findMatchRegions(a: Fingerprint[], b: Fingerprint[]): MatchRegion[] {
+  const firstInB = new Map<number, Fingerprint>();
+  for (const fingerprint of b) {
+    if (!firstInB.has(fingerprint.hash)) firstInB.set(fingerprint.hash, fingerprint);
+  }
+
+  const seen = new Set<number>();
+  const regions: MatchRegion[] = [];
+  for (const fingerprint of a) {
+    const match = firstInB.get(fingerprint.hash);
+    if (!match || seen.has(fingerprint.hash)) continue;
+    seen.add(fingerprint.hash);
+    regions.push({
+      pathA: fingerprint.path,
+      startLineA: fingerprint.startLine,
+      endLineA: fingerprint.endLine,
+      pathB: match.path,
+      startLineB: match.startLine,
+      endLineB: match.endLine,
+    });
+  }
+
+  regions.sort(
+    (r, s) =>
+      r.pathA.localeCompare(s.pathA) ||
+      r.pathB.localeCompare(s.pathB) ||
+      r.startLineA - s.startLineA ||
+      r.startLineB - s.startLineB
+  );
+
+  const merged: MatchRegion[] = [];
+  for (const region of regions) {
+    const last = merged[merged.length - 1];
+    if (
+      last &&
+      last.pathA === region.pathA &&
+      last.pathB === region.pathB &&
+      region.startLineA <= last.endLineA + 1 &&
+      region.startLineB <= last.endLineB + 1 &&
+      region.endLineB >= last.startLineB - 1
+    ) {
+      last.endLineA = Math.max(last.endLineA, region.endLineA);
+      last.startLineB = Math.min(last.startLineB, region.startLineB);
+      last.endLineB = Math.max(last.endLineB, region.endLineB);
+    } else {
+      merged.push({ ...region });
+    }
+  }
+  return merged;
+}
@@ -9,6 +9,8 @@ import {
   Rubric,
   RubricSchema,
 } from "./entities";
+import type { GradingScheme, GradeSummary } from "../services/gradeCalculation";
+import type { AttemptPolicy } from "../services/attemptPolicy";
 
 // Generic API response wrapper
 export interface ApiResponse<T> {
@@ -172,6 +174,7 @@ export interface UpdateGraderRequest {
   raw_assignment_score?: number;
   raw_rubric_score?: number;
   score_modifier?: string;
+  late_penalty_percent?: number | null; // null restores the assignment's late policy
 }
 
 export interface GraderResponse extends Grader {
@@ -214,10 +217,12 @@ export interface CreateRubricRequest {
   submission_id: string;
   rubric_schema_id: string;
   values: number[];
+  comments?: string[];
 }
 
 export interface UpdateRubricRequest {
   values?: number[];
+  comments?: string[];
 }
 
 export interface RubricResponse extends Rubric {
@@ -283,15 +288,21 @@ export interface StudentGradebookInfo {
   userId: string;
   firstName: string;
   lastName: string;
+  email: string;
+  username: string | null; // Only set for managed students
   sectionId: string | null;
+  sectionName: string | null;
+  sectionSlug: string | null;
 }
 
 // Gradebook data (API response)
 export interface GradebookData {
   students: StudentGradebookInfo[];
-  assignments: Assignment[];
+  assignments: (Assignment & { rubric_schema: RubricSchema | null })[];
   submissions: Submission[];
   graders: Grader[];
+  gradingScheme: GradingScheme;
+  gradeSummaries: Record<string, GradeSummary>; // student_id -> summary
 }
 
 // Student grades data (API response)
@@ -299,6 +310,28 @@ export interface StudentGradesData {
   assignments: Assignment[];
   submissions: Submission[];
   graders: Grader[];
+  gradingScheme: GradingScheme;
+  gradeSummary: GradeSummary;
+}
+
+// One submitted attempt in a student's attempt history
+export interface AttemptHistoryEntry {
+  submissionId: string;
+  attemptNumber: number; // 1-based, in submit order
+  status: string;
+  timestamp: Date | string;
+  score: number | null; // null until graded and visible to the student
+  countsTowardGrade: boolean;
+}
+
+// Attempt history for one student on one assignment (API response)
+export interface AttemptHistory {
+  policy: AttemptPolicy;
+  attempts: AttemptHistoryEntry[];
+  inProgressSubmissionId: string | null;
+  score: number | null; // Score under the scoring policy
+  nextAttemptAt: Date | string | null; // Set while a cooldown is running
+  canStartAttempt: boolean;
 }
 
 // Autograding API types
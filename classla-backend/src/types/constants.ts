@@ -38,4 +38,41 @@ export const HTTP_STATUS = {
   NOT_FOUND: 404,
   CONFLICT: 409,
   INTERNAL_SERVER_ERROR: 500
-} as const;
\ No newline at end of file
+} as const;
+// IDE block languages and the unit test framework each one uses by default
+export const IDE_LANGUAGE_FRAMEWORKS = {
+  python: 'unittest',
+  java: 'junit',
+  c: 'gtest',
+  cpp: 'gtest',
+  javascript: 'jest',
+  typescript: 'jest',
+  go: 'gotest'
+} as const;
+
+export type IDELanguage = keyof typeof IDE_LANGUAGE_FRAMEWORKS;
+
+export const IDE_UNIT_TEST_FRAMEWORKS = ['unittest', 'junit', 'gtest', 'jest', 'gotest'] as const;
+
+// How the container compares an input/output test's stdout with expectedOutput
+export const IDE_OUTPUT_COMPARISON_MODES = [
+  'exact',
+  'ignoreWhitespace',
+  'ignoreCase',
+  'floatTolerance',
+  'regex',
+  'unorderedLines',
+  'customChecker'
+] as const;
+
+// Source file extension -> IDE block language, used when a block has no language set
+export const IDE_LANGUAGE_EXTENSIONS: Record<string, IDELanguage> = {
+  py: 'python',
+  java: 'java',
+  c: 'c',
+  cpp: 'cpp',
+  cc: 'cpp',
+  js: 'javascript',
+  ts: 'typescript',
+  go: 'go'
+};
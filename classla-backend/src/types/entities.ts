@@ -16,6 +16,7 @@ export interface Course {
   created_at: Date;
   deleted_at?: Date;
   is_official?: boolean;
+  organization_id?: string | null; // Set when cloned from an organization template
 }
 
 // System setting entity
@@ -92,11 +93,13 @@ export interface Submission {
 }
 
 /**
- * Block Score - represents the score for a single MCQ block
+ * Block Score - represents the score for a single autograded block
  */
 export interface BlockScore {
   awarded: number; // Points awarded for this block
   possible: number; // Total possible points for this block
+  needsReview?: boolean; // Auto-scored below full credit; a TA should confirm
+  overridden?: boolean; // Set by hand; kept when the autograder re-runs
 }
 
 // Grader entity (feedback and grading info)
@@ -110,6 +113,127 @@ export interface Grader {
   reviewed_at?: Date;
   submission_id: string;
   block_scores?: Record<string, BlockScore>; // Block ID (UUID) -> score details
+  late_penalty_percent?: number; // Percent of the raw scores deducted for lateness
+  late_minutes?: number;
+  late_penalty_overridden?: boolean; // Set by staff; not recomputed on resubmission
+  rubric_comments?: string[]; // Rubric item comments, only in a student's returned grades
+  code_annotations?: Pick<
+    CodeAnnotation,
+    "submission_id" | "block_id" | "file_path" | "start_line" | "end_line" | "body"
+  >[]; // Only in a student's returned grades
+}
+
+// Grader comment anchored to lines of a file in a submission's IDE block
+export interface CodeAnnotation {
+  id: string;
+  submission_id: string;
+  course_id: string;
+  block_id: string; // TipTap IDE block ID
+  file_path: string;
+  file_revision: string; // SHA-256 of the file content the comment was written against
+  start_line: number;
+  start_column?: number | null; // Unset for whole-line comments
+  end_line: number;
+  end_column?: number | null;
+  body: string;
+  author_id?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Reusable grading comment in a course's comment bank
+export interface BankComment {
+  id: string;
+  course_id: string;
+  text: string;
+  points: number; // Added to the rubric item score when applied
+  usage_count: number;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Student dispute of one block or rubric item score on a returned grade
+export interface RegradeRequest {
+  id: string;
+  course_id: string;
+  assignment_id: string;
+  submission_id: string;
+  student_id: string;
+  block_id?: string | null; // Exactly one of block_id / rubric_item_index is set
+  rubric_item_index?: number | null;
+  reason: string;
+  status: "open" | "accepted" | "rejected";
+  response?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Grading work given to one staff member: a student's submission or one block for everyone
+export interface GradingAssignment {
+  id: string;
+  assignment_id: string;
+  course_id: string;
+  assignee_id: string;
+  student_id?: string | null; // Exactly one of student_id / block_id is set
+  block_id?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// One changed score field on a grader (audit trail)
+export interface GraderScoreChange {
+  id: string;
+  grader_id: string;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  source: "manual" | "autograder" | "import" | "regrade";
+  changed_by?: string | null;
+  regrade_request_id?: string | null;
+  created_at: Date;
+}
+
+// Code similarity check across the submissions of one IDE block
+export interface SimilarityReport {
+  id: string;
+  assignment_id: string;
+  course_id: string;
+  block_id: string;
+  include_prior_terms: boolean;
+  status: "running" | "completed" | "failed";
+  submission_count: number;
+  pairs: {
+    submission_a: string;
+    submission_b: string;
+    similarity: number;
+    shared_fingerprints: number;
+  }[];
+  error?: string | null;
+  created_by?: string | null;
+  completed_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Discussion post entity (posts and replies in an assignment Discussion block)
+export interface DiscussionPost {
+  id: string;
+  assignment_id: string;
+  course_id: string;
+  block_id: string; // TipTap discussion block ID
+  parent_id?: string; // Set for replies
+  author_id: string;
+  content: string;
+  is_anonymous: boolean; // Hidden from peers, visible to staff
+  status: "pending" | "approved" | "rejected";
+  moderated_by_id?: string;
+  moderated_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at?: Date;
 }
 
 // Rubric instance (actual scores for a submission)
@@ -118,6 +242,7 @@ export interface Rubric {
   submission_id: string;
   rubric_schema_id: string; // Reference to RubricSchema
   values: number[]; // Scores for each rubric item
+  comments?: string[]; // Comment for each rubric item, parallel to values
 }
 
 // Rubric type enum
@@ -166,6 +291,7 @@ export interface Organization {
   id: string;
   name: string;
   slug: string; // Join code (similar to course slugs)
+  settings: Record<string, any>; // e.g. ideResourceCaps
   created_by_id: string;
   created_at: Date;
   updated_at: Date;
@@ -0,0 +1,55 @@
+/**
+ * Collect the data attribute of every `nodeType` block in TipTap assignment
+ * content, in document order. Returns [] if the content is not valid JSON.
+ */
+export function collectBlockData<T = any>(
+  assignmentContent: string | null | undefined,
+  nodeType: string,
+  dataAttr: string
+): T[] {
+  if (!assignmentContent) return [];
+
+  let content: any;
+  try {
+    content = JSON.parse(assignmentContent);
+  } catch {
+    return [];
+  }
+
+  const found: T[] = [];
+  const visit = (node: any) => {
+    if (!node || typeof node !== "object") return;
+
+    const data = node.attrs?.[dataAttr];
+    if (node.type === nodeType && data && typeof data.id === "string") {
+      found.push(data as T);
+    }
+
+    if (Array.isArray(node.content)) {
+      node.content.forEach(visit);
+    }
+  };
+
+  visit(content);
+  return found;
+}
+
+/**
+ * Find the data attribute of one block in TipTap assignment content.
+ *
+ * Searches the whole document (including nested tab/reveal blocks) for a node of
+ * `nodeType` whose `attrs[dataAttr].id` equals `blockId`. Returns null if the
+ * block is missing or the content is not valid JSON.
+ */
+export function findBlockData<T = any>(
+  assignmentContent: string | null | undefined,
+  nodeType: string,
+  dataAttr: string,
+  blockId: string
+): T | null {
+  return (
+    collectBlockData<T>(assignmentContent, nodeType, dataAttr).find(
+      (data: any) => data.id === blockId
+    ) ?? null
+  );
+}
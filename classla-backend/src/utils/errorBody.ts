@@ -0,0 +1,18 @@
+import { Request } from "express";
+
+/**
+ * Builds the standard API error response body for a request.
+ *
+ * @param req     - The request being answered (its path is echoed back).
+ * @param code    - Machine-readable error code, e.g. "NOT_FOUND".
+ * @param message - Human-readable description of the error.
+ * @returns The `{ error: { code, message, timestamp, path } }` body.
+ */
+export const errorBody = (req: Request, code: string, message: string) => ({
+  error: {
+    code,
+    message,
+    timestamp: new Date().toISOString(),
+    path: req.path,
+  },
+});
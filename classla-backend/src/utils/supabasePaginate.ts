@@ -33,3 +33,32 @@ export async function fetchAllPages<T = any>(
 
   return allRows;
 }
+
+/**
+ * Fetches rows for a long list of IDs by running the query once per batch.
+ *
+ * Each ID is part of the request URL in `.in()` filters, so large courses hit
+ * URL length limits when every ID goes in one request.
+ *
+ * @param ids          - IDs to pass to the query, e.g. submission IDs.
+ * @param queryFactory - A function that returns the query for one batch of IDs.
+ * @param batchSize    - Number of IDs per request (default 100).
+ * @returns All rows concatenated.
+ */
+export async function fetchInBatches<T = any>(
+  ids: string[],
+  queryFactory: (batch: string[]) => PromiseLike<{ data: T[] | null; error: any }>,
+  batchSize: number = 100
+): Promise<T[]> {
+  const allRows: T[] = [];
+
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const { data, error } = await queryFactory(ids.slice(i, i + batchSize));
+
+    if (error) throw error;
+
+    allRows.push(...(data ?? []));
+  }
+
+  return allRows;
+}
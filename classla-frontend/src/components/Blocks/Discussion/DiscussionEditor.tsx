@@ -1,10 +1,12 @@
 import React, { useState, useEffect, memo, useCallback } from "react";
 import { NodeViewWrapper } from "@tiptap/react";
 import { DiscussionData, validateDiscussionData } from "../../extensions/DiscussionBlock";
+import { toDateTimeLocal } from "../../extensions/blockUtils";
 import { AlertTriangle, MessageSquare, Trash2 } from "lucide-react";
 import { Button } from "../../ui/button";
 import { Label } from "../../ui/label";
 import { Checkbox } from "../../ui/checkbox";
+import { Input } from "../../ui/input";
 import RichTextEditor from "../../RichTextEditor";
 
 interface DiscussionEditorProps {
@@ -109,12 +111,78 @@ const DiscussionEditor: React.FC<DiscussionEditorProps> = memo(
             </Button>
           </div>
 
-          <div className="p-6 bg-muted rounded-lg border border-dashed border-border text-center">
-            <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-            <h3 className="text-lg font-semibold text-foreground mb-2">Coming Soon</h3>
-            <p className="text-sm text-muted-foreground">
-              Discussion/Forum functionality is under development. This feature will allow students to engage in threaded discussions and peer collaboration.
-            </p>
+          <div className="mb-3">
+            <Label className="text-sm font-medium text-foreground mb-1 block">
+              Prompt
+            </Label>
+            <RichTextEditor
+              content={discussionData.prompt}
+              onChange={(content) => updateDiscussionData({ prompt: content })}
+              placeholder="What should students discuss?"
+              className="w-full"
+              minHeight="80px"
+              maxHeight="200px"
+            />
+          </div>
+
+          <div className="space-y-2 mb-3">
+            {(
+              [
+                ["allowAnonymous", "Allow anonymous posts (staff still see the author)"],
+                ["requireModeration", "Require instructor approval before student posts are visible"],
+                ["enableReplies", "Allow replies"],
+                ["enableVoting", "Allow upvoting posts"],
+              ] as const
+            ).map(([key, label]) => (
+              <div key={key} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${discussionData.id}-${key}`}
+                  checked={discussionData[key]}
+                  onCheckedChange={(checked) =>
+                    updateDiscussionData({ [key]: !!checked })
+                  }
+                />
+                <Label htmlFor={`${discussionData.id}-${key}`} className="text-sm">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-sm font-medium text-foreground mb-1 block">
+                Max posts per student
+              </Label>
+              <Input
+                type="number"
+                min={1}
+                value={discussionData.maxPostsPerStudent ?? ""}
+                placeholder="Unlimited"
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  updateDiscussionData({
+                    maxPostsPerStudent: value > 0 ? value : undefined,
+                  });
+                }}
+              />
+            </div>
+            <div>
+              <Label className="text-sm font-medium text-foreground mb-1 block">
+                Close date
+              </Label>
+              <Input
+                type="datetime-local"
+                value={toDateTimeLocal(discussionData.closeDate)}
+                onChange={(e) =>
+                  updateDiscussionData({
+                    closeDate: e.target.value
+                      ? new Date(e.target.value).toISOString()
+                      : undefined,
+                  })
+                }
+              />
+            </div>
           </div>
         </div>
       </NodeViewWrapper>
@@ -1,16 +1,405 @@
-import React, { memo } from "react";
+import React, { memo, useCallback, useEffect, useMemo, useState } from "react";
 import { NodeViewWrapper } from "@tiptap/react";
+import { io } from "socket.io-client";
 import { DiscussionData } from "../../extensions/DiscussionBlock";
 import { Button } from "../../ui/button";
-import { MessageSquare } from "lucide-react";
+import { Textarea } from "../../ui/textarea";
+import { Checkbox } from "../../ui/checkbox";
+import { Label } from "../../ui/label";
+import {
+  Check,
+  Clock,
+  Lock,
+  MessageSquare,
+  Reply,
+  ShieldCheck,
+  ThumbsUp,
+  Trash2,
+  X,
+} from "lucide-react";
+import { apiClient } from "../../../lib/api";
+import { useAssignmentContext } from "../../../contexts/AssignmentContext";
+import { useResolvedHtml } from "../../../hooks/useResolvedHtml";
+import { useToast } from "../../../hooks/use-toast";
+import { DiscussionPost, DiscussionPostsResponse } from "../../../types";
 
 interface DiscussionViewerProps {
   node: any;
   editor: any;
 }
 
+const getSocketBaseURL = () => {
+  const apiUrl =
+    import.meta.env.VITE_API_BASE_URL || "http://localhost:8000/api";
+  return apiUrl.replace(/\/api$/, "") || "http://localhost:8000";
+};
+
+const getErrorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.error?.message || error?.message || fallback;
+
+interface ComposerProps {
+  placeholder: string;
+  allowAnonymous: boolean;
+  submitLabel: string;
+  onSubmit: (content: string, isAnonymous: boolean) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const Composer: React.FC<ComposerProps> = ({
+  placeholder,
+  allowAnonymous,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const [content, setContent] = useState("");
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [anonymousId] = useState(
+    () => `discussion-anon-${Math.random().toString(36).slice(2)}`
+  );
+
+  const handleSubmit = async () => {
+    if (!content.trim() || submitting) return;
+    setSubmitting(true);
+    const ok = await onSubmit(content, isAnonymous);
+    setSubmitting(false);
+    if (ok) {
+      setContent("");
+      setIsAnonymous(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+      />
+      <div className="flex items-center justify-between gap-2">
+        {allowAnonymous ? (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={anonymousId}
+              checked={isAnonymous}
+              onCheckedChange={(checked) => setIsAnonymous(!!checked)}
+            />
+            <Label
+              htmlFor={anonymousId}
+              className="text-xs text-muted-foreground"
+            >
+              Post anonymously to classmates (instructors can still see your
+              name)
+            </Label>
+          </div>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            size="sm"
+            onClick={handleSubmit}
+            disabled={!content.trim() || submitting}
+          >
+            {submitting ? "Posting..." : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const DiscussionViewer: React.FC<DiscussionViewerProps> = memo(({ node }) => {
   const discussionData = node.attrs.discussionData as DiscussionData;
+  const resolvedPrompt = useResolvedHtml(discussionData.prompt || "");
+  const { assignmentId } = useAssignmentContext();
+  const { toast } = useToast();
+
+  const [data, setData] = useState<DiscussionPostsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const blockId = discussionData.id;
+
+  const fetchPosts = useCallback(async () => {
+    if (!assignmentId || !blockId) return;
+    try {
+      const response = await apiClient.getDiscussionPosts(
+        assignmentId,
+        blockId
+      );
+      setData(response.data);
+    } catch (error) {
+      console.error("Failed to load discussion posts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [assignmentId, blockId]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  // Live updates: the server only sends IDs, so refetch to get this viewer's view
+  useEffect(() => {
+    if (!assignmentId || !blockId) return;
+
+    const socket = io(`${getSocketBaseURL()}/course-tree`, {
+      transports: ["websocket", "polling"],
+      withCredentials: true,
+    });
+
+    socket.on("connect", () => {
+      socket.emit("join-discussion", { assignmentId, blockId });
+    });
+
+    let refetchTimer: ReturnType<typeof setTimeout> | null = null;
+    socket.on("discussion-update", () => {
+      if (refetchTimer) clearTimeout(refetchTimer);
+      refetchTimer = setTimeout(fetchPosts, 200);
+    });
+
+    return () => {
+      if (refetchTimer) clearTimeout(refetchTimer);
+      socket.emit("leave-discussion", { assignmentId, blockId });
+      socket.disconnect();
+    };
+  }, [assignmentId, blockId, fetchPosts]);
+
+  const canModerate = data?.viewer.canModerate ?? false;
+  const isClosed = data?.isClosed ?? false;
+  const canWrite = !!data?.viewer.canPost && (!isClosed || canModerate);
+
+  const { pendingPosts, threads } = useMemo(() => {
+    const posts = data?.posts ?? [];
+    // Staff review pending posts in the queue rather than inline
+    const threaded = canModerate
+      ? posts.filter((post) => post.status !== "pending")
+      : posts;
+    const topLevel = threaded.filter((post) => !post.parent_id);
+    const repliesByParent = new Map<string, DiscussionPost[]>();
+    for (const post of threaded) {
+      if (!post.parent_id) continue;
+      const list = repliesByParent.get(post.parent_id) ?? [];
+      list.push(post);
+      repliesByParent.set(post.parent_id, list);
+    }
+
+    const sorted = discussionData.enableVoting
+      ? [...topLevel].sort(
+          (a, b) =>
+            b.vote_count - a.vote_count ||
+            a.created_at.localeCompare(b.created_at)
+        )
+      : topLevel;
+
+    return {
+      pendingPosts: canModerate
+        ? posts.filter((post) => post.status === "pending")
+        : [],
+      threads: sorted.map((post) => ({
+        post,
+        replies: repliesByParent.get(post.id) ?? [],
+      })),
+    };
+  }, [data, discussionData.enableVoting, canModerate]);
+
+  const handleCreate = useCallback(
+    async (content: string, isAnonymous: boolean, parentId?: string) => {
+      if (!assignmentId) return false;
+      try {
+        const response = await apiClient.createDiscussionPost(
+          assignmentId,
+          blockId,
+          {
+            content,
+            parentId,
+            isAnonymous,
+          }
+        );
+        if (response.data.status === "pending") {
+          toast({
+            title: "Submitted for review",
+            description:
+              "Your post will be visible to classmates once an instructor approves it.",
+          });
+        }
+        setReplyingTo(null);
+        await fetchPosts();
+        return true;
+      } catch (error) {
+        toast({
+          title: "Could not post",
+          description: getErrorMessage(error, "Failed to create post"),
+          variant: "destructive",
+        });
+        return false;
+      }
+    },
+    [assignmentId, blockId, fetchPosts, toast]
+  );
+
+  const handleModerate = useCallback(
+    async (postId: string, status: "approved" | "rejected") => {
+      if (!assignmentId) return;
+      try {
+        await apiClient.moderateDiscussionPost(
+          assignmentId,
+          blockId,
+          postId,
+          status
+        );
+        await fetchPosts();
+      } catch (error) {
+        toast({
+          title: "Moderation failed",
+          description: getErrorMessage(error, "Failed to moderate post"),
+          variant: "destructive",
+        });
+      }
+    },
+    [assignmentId, blockId, fetchPosts, toast]
+  );
+
+  const handleVote = useCallback(
+    async (postId: string) => {
+      if (!assignmentId) return;
+      try {
+        const response = await apiClient.toggleDiscussionVote(
+          assignmentId,
+          blockId,
+          postId
+        );
+        setData((prev) =>
+          prev
+            ? {
+                ...prev,
+                posts: prev.posts.map((post) =>
+                  post.id === postId ? { ...post, ...response.data } : post
+                ),
+              }
+            : prev
+        );
+      } catch (error) {
+        toast({
+          title: "Vote failed",
+          description: getErrorMessage(error, "Failed to vote"),
+          variant: "destructive",
+        });
+      }
+    },
+    [assignmentId, blockId, toast]
+  );
+
+  const handleDelete = useCallback(
+    async (postId: string) => {
+      if (!assignmentId) return;
+      if (!window.confirm("Delete this post?")) return;
+      try {
+        await apiClient.deleteDiscussionPost(assignmentId, blockId, postId);
+        await fetchPosts();
+      } catch (error) {
+        toast({
+          title: "Delete failed",
+          description: getErrorMessage(error, "Failed to delete post"),
+          variant: "destructive",
+        });
+      }
+    },
+    [assignmentId, blockId, fetchPosts, toast]
+  );
+
+  const renderPost = (post: DiscussionPost, isReply: boolean) => (
+    <div
+      key={post.id}
+      className={`rounded-lg border p-3 ${
+        isReply ? "bg-muted/50 border-border" : "bg-background border-border"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium text-foreground">
+            {post.author_name}
+            {post.is_own && " (you)"}
+          </span>
+          {post.is_anonymous && post.author_name !== "Anonymous" && (
+            <span className="text-xs text-muted-foreground">
+              · posted anonymously
+            </span>
+          )}
+          <span className="text-xs text-muted-foreground">
+            {new Date(post.created_at).toLocaleString()}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {post.status === "pending" && (
+            <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+              <Clock className="w-3 h-3" /> Awaiting approval
+            </span>
+          )}
+          {post.status === "rejected" && (
+            <span className="text-xs text-red-600 dark:text-red-400">
+              Not approved
+            </span>
+          )}
+          {(post.is_own || canModerate) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(post.id)}
+              className="h-7 px-2 text-muted-foreground hover:text-red-600"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-foreground whitespace-pre-wrap break-words select-text">
+        {post.content}
+      </p>
+      <div className="flex items-center gap-2 mt-2">
+        {discussionData.enableVoting && post.status === "approved" && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleVote(post.id)}
+            disabled={!data?.viewer.canPost}
+            className={`h-7 px-2 ${
+              post.has_voted
+                ? "text-blue-600 dark:text-blue-400"
+                : "text-muted-foreground"
+            }`}
+          >
+            <ThumbsUp className="w-3.5 h-3.5 mr-1" />
+            {post.vote_count}
+          </Button>
+        )}
+        {!isReply &&
+          discussionData.enableReplies &&
+          canWrite &&
+          post.status === "approved" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setReplyingTo(replyingTo === post.id ? null : post.id)
+              }
+              className="h-7 px-2 text-muted-foreground"
+            >
+              <Reply className="w-3.5 h-3.5 mr-1" />
+              Reply
+            </Button>
+          )}
+      </div>
+    </div>
+  );
 
   return (
     <NodeViewWrapper
@@ -19,18 +408,123 @@ const DiscussionViewer: React.FC<DiscussionViewerProps> = memo(({ node }) => {
       draggable={false}
       contentEditable={false}
     >
-      <div className="discussion-viewer border border-border rounded-lg p-4 bg-card">
-        <div className="p-6 bg-muted rounded-lg border border-dashed border-border text-center">
-          <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-          <h3 className="text-lg font-semibold text-foreground mb-2">Coming Soon</h3>
+      <div className="discussion-viewer border border-border rounded-lg p-4 bg-card space-y-4">
+        <div className="flex items-start gap-3">
+          <MessageSquare className="w-5 h-5 text-muted-foreground mt-1 shrink-0" />
+          <div
+            className="prose dark:prose-invert max-w-none flex-1"
+            dangerouslySetInnerHTML={{ __html: resolvedPrompt }}
+          />
+        </div>
+
+        {!assignmentId ? (
           <p className="text-sm text-muted-foreground">
-            Discussion/Forum functionality is under development. This feature will allow students to engage in threaded discussions and peer collaboration.
+            Posts are available when viewing the assignment.
           </p>
-        </div>
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground">Loading discussion...</p>
+        ) : !data ? (
+          <p className="text-sm text-muted-foreground">
+            Unable to load discussion.
+          </p>
+        ) : (
+          <>
+            {isClosed && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Lock className="w-4 h-4" />
+                This discussion closed
+                {discussionData.closeDate &&
+                  ` on ${new Date(discussionData.closeDate).toLocaleString()}`}
+                .
+              </div>
+            )}
+
+            {pendingPosts.length > 0 && (
+              <div className="rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-950/30 p-3 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium text-amber-800 dark:text-amber-300">
+                  <ShieldCheck className="w-4 h-4" />
+                  Moderation queue ({pendingPosts.length})
+                </div>
+                {pendingPosts.map((post) => (
+                  <div key={post.id} className="space-y-2">
+                    {renderPost(post, !!post.parent_id)}
+                    <div className="flex gap-2 justify-end">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleModerate(post.id, "rejected")}
+                      >
+                        <X className="w-3.5 h-3.5 mr-1" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleModerate(post.id, "approved")}
+                      >
+                        <Check className="w-3.5 h-3.5 mr-1" />
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canWrite && (
+              <div className="space-y-1">
+                {data.viewer.postsRemaining !== 0 && (
+                  <Composer
+                    placeholder="Share your thoughts..."
+                    allowAnonymous={discussionData.allowAnonymous}
+                    submitLabel="Post"
+                    onSubmit={(content, isAnonymous) =>
+                      handleCreate(content, isAnonymous)
+                    }
+                  />
+                )}
+                {data.viewer.postsRemaining !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    {data.viewer.postsRemaining} post
+                    {data.viewer.postsRemaining !== 1 ? "s" : ""} remaining
+                  </p>
+                )}
+              </div>
+            )}
+
+            {threads.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No posts yet.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {threads.map(({ post, replies }) => (
+                  <div key={post.id} className="space-y-2">
+                    {renderPost(post, false)}
+                    {(replies.length > 0 || replyingTo === post.id) && (
+                      <div className="ml-6 space-y-2">
+                        {replies.map((reply) => renderPost(reply, true))}
+                        {replyingTo === post.id && (
+                          <Composer
+                            placeholder="Write a reply..."
+                            allowAnonymous={discussionData.allowAnonymous}
+                            submitLabel="Reply"
+                            onSubmit={(content, isAnonymous) =>
+                              handleCreate(content, isAnonymous, post.id)
+                            }
+                            onCancel={() => setReplyingTo(null)}
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
       </div>
     </NodeViewWrapper>
   );
 });
 
 export default DiscussionViewer;
-
@@ -111,6 +111,20 @@ const AutograderTestList: React.FC<AutograderTestListProps> = ({
                       <Badge variant={getTestTypeBadgeVariant(test.type)}>
                         {getTestTypeLabel(test.type)}
                       </Badge>
+                      {test.type !== "manualGrading" && test.hidden && (
+                        <Badge variant="outline">Hidden</Badge>
+                      )}
+                      {test.type !== "manualGrading" &&
+                        (test.timeLimitSeconds || test.memoryLimitMb) && (
+                          <span className="text-xs text-muted-foreground">
+                            {[
+                              test.timeLimitSeconds && `${test.timeLimitSeconds}s`,
+                              test.memoryLimitMb && `${test.memoryLimitMb} MB`,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </span>
+                        )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -10,6 +10,7 @@ import { Input } from "../../ui/input";
 import { Label } from "../../ui/label";
 import { Textarea } from "../../ui/textarea";
 import { Button } from "../../ui/button";
+import { Checkbox } from "../../ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -17,14 +18,37 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../../ui/select";
-import { TestCase, InputOutputTestCase, UnitTestCase, ManualGradingTestCase } from "../../extensions/IDEBlock";
+import {
+  TestCase,
+  InputOutputTestCase,
+  UnitTestCase,
+  ManualGradingTestCase,
+  IDELanguage,
+  IDE_LANGUAGE_DEFAULTS,
+  UnitTestFramework,
+  ExecutableTestOptions,
+  DEFAULT_TEST_TIME_LIMIT_SECONDS,
+  MAX_TEST_TIME_LIMIT_SECONDS,
+  MIN_TEST_MEMORY_LIMIT_MB,
+  OutputComparisonMode,
+  OUTPUT_COMPARISON_MODES,
+  DEFAULT_FLOAT_TOLERANCE,
+} from "../../extensions/IDEBlock";
 import { generateUUID } from "../../extensions/blockUtils";
+import {
+  CHECKER_SCRIPT_TEMPLATE,
+  OUTPUT_COMPARISON_LABELS,
+  UNIT_TEST_FRAMEWORK_LABELS,
+  UNIT_TEST_TEMPLATES,
+  getUnitTestFrameworks,
+} from "./ideLanguages";
 
 interface AutograderTestModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSave: (testCase: TestCase) => void;
   testCase?: TestCase | null; // For edit mode
+  language?: IDELanguage; // Block language, picks the default framework
 }
 
 const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
@@ -32,14 +56,25 @@ const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
   onOpenChange,
   onSave,
   testCase,
+  language,
 }) => {
   const [testName, setTestName] = useState("");
   const [testType, setTestType] = useState<"inputOutput" | "unitTest" | "manualGrading">("inputOutput");
   const [points, setPoints] = useState(1);
   const [input, setInput] = useState("");
   const [expectedOutput, setExpectedOutput] = useState("");
+  const [comparison, setComparison] = useState<OutputComparisonMode>("exact");
+  const [floatTolerance, setFloatTolerance] = useState(DEFAULT_FLOAT_TOLERANCE.toString());
+  const [checkerScript, setCheckerScript] = useState("");
   const [code, setCode] = useState("");
-  const [framework, setFramework] = useState<"junit" | "unittest">("unittest");
+  const defaultFramework: UnitTestFramework = language
+    ? IDE_LANGUAGE_DEFAULTS[language].framework
+    : "unittest";
+  const [framework, setFramework] = useState<UnitTestFramework>(defaultFramework);
+  // Limits are kept as text so an empty field means "use the default"
+  const [timeLimit, setTimeLimit] = useState("");
+  const [memoryLimit, setMemoryLimit] = useState("");
+  const [hidden, setHidden] = useState(false);
 
   // Initialize form when modal opens or testCase changes
   useEffect(() => {
@@ -52,10 +87,22 @@ const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
         if (testCase.type === "inputOutput") {
           setInput(testCase.input);
           setExpectedOutput(testCase.expectedOutput);
+          setComparison(testCase.comparison || "exact");
+          setFloatTolerance((testCase.floatTolerance ?? DEFAULT_FLOAT_TOLERANCE).toString());
+          setCheckerScript(testCase.checkerScript || "");
         } else if (testCase.type === "unitTest") {
           setCode(testCase.code);
           setFramework(testCase.framework || "unittest");
         }
+        if (testCase.type !== "manualGrading") {
+          setTimeLimit(testCase.timeLimitSeconds?.toString() ?? "");
+          setMemoryLimit(testCase.memoryLimitMb?.toString() ?? "");
+          setHidden(testCase.hidden === true);
+        } else {
+          setTimeLimit("");
+          setMemoryLimit("");
+          setHidden(false);
+        }
       } else {
         // Create mode - reset to defaults
         setTestName("");
@@ -63,11 +110,17 @@ const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
         setPoints(1);
         setInput("");
         setExpectedOutput("");
+        setComparison("exact");
+        setFloatTolerance(DEFAULT_FLOAT_TOLERANCE.toString());
+        setCheckerScript("");
         setCode("");
-        setFramework("unittest");
+        setFramework(defaultFramework);
+        setTimeLimit("");
+        setMemoryLimit("");
+        setHidden(false);
       }
     }
-  }, [open, testCase]);
+  }, [open, testCase, defaultFramework]);
 
   const handleSave = () => {
     // Validation
@@ -75,9 +128,25 @@ const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
       return; // Name is required
     }
 
+    const parsedTimeLimit = parseFloat(timeLimit);
+    const parsedMemoryLimit = parseFloat(memoryLimit);
+    const options: ExecutableTestOptions = {
+      ...(parsedTimeLimit > 0 && {
+        timeLimitSeconds: Math.min(
+          Math.max(parsedTimeLimit, 1),
+          MAX_TEST_TIME_LIMIT_SECONDS
+        ),
+      }),
+      ...(parsedMemoryLimit > 0 && {
+        memoryLimitMb: Math.max(parsedMemoryLimit, MIN_TEST_MEMORY_LIMIT_MB),
+      }),
+      ...(hidden && { hidden: true }),
+    };
+
     let newTestCase: TestCase;
 
     if (testType === "inputOutput") {
+      const parsedTolerance = parseFloat(floatTolerance);
       newTestCase = {
         id: testCase?.id || generateUUID(),
         name: testName.trim(),
@@ -85,6 +154,12 @@ const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
         input: input,
         expectedOutput: expectedOutput,
         points: points,
+        ...(comparison !== "exact" && { comparison }),
+        ...(comparison === "floatTolerance" && {
+          floatTolerance: parsedTolerance >= 0 ? parsedTolerance : DEFAULT_FLOAT_TOLERANCE,
+        }),
+        ...(comparison === "customChecker" && { checkerScript }),
+        ...options,
       } as InputOutputTestCase;
     } else if (testType === "unitTest") {
       newTestCase = {
@@ -94,6 +169,7 @@ const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
         code: code,
         points: points,
         framework: framework,
+        ...options,
       } as UnitTestCase;
     } else {
       newTestCase = {
@@ -108,17 +184,6 @@ const AutograderTestModal: React.FC<AutograderTestModalProps> = ({
     onOpenChange(false);
   };
 
-  const defaultUnitTestCode = `import unittest # import unittest framework
-
-class Classla_Unit_Test(unittest.TestCase):
-    """
-    You can add sample tests here, and create multiple functions. 
-    Students will see the names of these functions when they fail, 
-    so if you would like to make names descriptive to help them you can.
-    """
-    def sample_test(self):
-        self.assertEquals(True)`;
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -157,15 +222,73 @@ class Classla_Unit_Test(unittest.TestCase):
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="expected-output">Expected Output</Label>
+                <Label htmlFor="output-comparison">Output comparison</Label>
+                <Select
+                  value={comparison}
+                  onValueChange={(value) => setComparison(value as OutputComparisonMode)}
+                >
+                  <SelectTrigger id="output-comparison">
+                    <SelectValue placeholder="Select comparison" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OUTPUT_COMPARISON_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {OUTPUT_COMPARISON_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {comparison === "floatTolerance" && (
+                <div className="space-y-2">
+                  <Label htmlFor="float-tolerance">Tolerance</Label>
+                  <Input
+                    id="float-tolerance"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={floatTolerance}
+                    onChange={(e) => setFloatTolerance(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Numbers pass when within this absolute or relative difference; other tokens must match exactly.
+                  </p>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="expected-output">
+                  {comparison === "regex" ? "Expected Output Pattern" : "Expected Output"}
+                </Label>
                 <Textarea
                   id="expected-output"
-                  placeholder="Expected output"
+                  placeholder={comparison === "regex" ? "e.g. Total: \\d+" : "Expected output"}
                   value={expectedOutput}
                   onChange={(e) => setExpectedOutput(e.target.value)}
                   className="min-h-[150px] font-mono text-sm"
                 />
+                {comparison === "regex" && (
+                  <p className="text-xs text-gray-500">
+                    Python regular expression that must match the whole output (trimmed). "." also matches newlines.
+                  </p>
+                )}
+                {comparison === "customChecker" && (
+                  <p className="text-xs text-gray-500">
+                    Passed to the checker as EXPECTED_FILE.
+                  </p>
+                )}
               </div>
+              {comparison === "customChecker" && (
+                <div className="space-y-2">
+                  <Label htmlFor="checker-script">Checker Script (Python)</Label>
+                  <Textarea
+                    id="checker-script"
+                    placeholder={CHECKER_SCRIPT_TEMPLATE}
+                    value={checkerScript}
+                    onChange={(e) => setCheckerScript(e.target.value)}
+                    className="min-h-[200px] font-mono text-sm"
+                  />
+                </div>
+              )}
             </TabsContent>
 
             {/* Unit Test Tab */}
@@ -174,14 +297,17 @@ class Classla_Unit_Test(unittest.TestCase):
                 <Label htmlFor="unit-test-framework">Unit testing framework</Label>
                 <Select
                   value={framework}
-                  onValueChange={(value) => setFramework(value as "junit" | "unittest")}
+                  onValueChange={(value) => setFramework(value as UnitTestFramework)}
                 >
                   <SelectTrigger id="unit-test-framework">
                     <SelectValue placeholder="Select framework" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="unittest">unittest (python)</SelectItem>
-                    <SelectItem value="junit">JUnit (java)</SelectItem>
+                    {getUnitTestFrameworks(language).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {UNIT_TEST_FRAMEWORK_LABELS[option]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -198,7 +324,7 @@ class Classla_Unit_Test(unittest.TestCase):
                 <Label htmlFor="unit-test-code">Unit Test Code</Label>
                 <Textarea
                   id="unit-test-code"
-                  placeholder={defaultUnitTestCode}
+                  placeholder={UNIT_TEST_TEMPLATES[framework]}
                   value={code}
                   onChange={(e) => setCode(e.target.value)}
                   className="min-h-[300px] font-mono text-sm"
@@ -223,6 +349,53 @@ class Classla_Unit_Test(unittest.TestCase):
             </TabsContent>
           </Tabs>
 
+          {/* Execution limits and visibility */}
+          {testType !== "manualGrading" && (
+            <div className="space-y-3 pt-4 border-t">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="test-time-limit">Time limit (seconds)</Label>
+                  <Input
+                    id="test-time-limit"
+                    type="number"
+                    min="1"
+                    max={MAX_TEST_TIME_LIMIT_SECONDS}
+                    placeholder={String(DEFAULT_TEST_TIME_LIMIT_SECONDS)}
+                    value={timeLimit}
+                    onChange={(e) => setTimeLimit(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="test-memory-limit">Memory limit (MB)</Label>
+                  <Input
+                    id="test-memory-limit"
+                    type="number"
+                    min={MIN_TEST_MEMORY_LIMIT_MB}
+                    placeholder="No limit"
+                    value={memoryLimit}
+                    onChange={(e) => setMemoryLimit(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="test-hidden"
+                  checked={hidden}
+                  onCheckedChange={(checked) => setHidden(checked === true)}
+                />
+                <div>
+                  <Label htmlFor="test-hidden" className="cursor-pointer">
+                    Hidden from students
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Students can't see or run this test when checking their
+                    answer. It still counts when submissions are graded.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Test Case Value and Create Button */}
           <div className="flex items-center justify-between pt-4 border-t">
             <div className="flex items-center gap-2">
@@ -1,5 +1,5 @@
 import React from "react";
-import { CheckCircle2, XCircle } from "lucide-react";
+import { CheckCircle2, Clock, Cpu, EyeOff, XCircle } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -7,11 +7,14 @@ import {
   DialogTitle,
 } from "../../ui/dialog";
 import { Badge } from "../../ui/badge";
+import { TestResultStatus } from "../../extensions/IDEBlock";
 
 interface TestResult {
   testId: string;
   testName: string;
   passed: boolean;
+  status?: TestResultStatus; // Missing on runs saved before statuses existed
+  hidden?: boolean;
   points: number;
   pointsEarned: number;
   output: string;
@@ -24,14 +27,42 @@ interface AutograderTestResultsModalProps {
   results: TestResult[];
   totalPoints: number;
   pointsEarned: number;
+  hiddenTestCount?: number; // Hidden tests skipped when a student checks their answer
 }
 
+const STATUS_LABELS: Record<TestResultStatus, string> = {
+  passed: "Passed",
+  failed: "Failed",
+  timeout: "Time Limit Exceeded",
+  memoryLimit: "Memory Limit Exceeded",
+  runtimeError: "Runtime Error",
+  compileError: "Compile Error",
+  error: "Error",
+};
+
+const getStatus = (result: TestResult): TestResultStatus =>
+  result.status ?? (result.passed ? "passed" : "failed");
+
+const StatusIcon: React.FC<{ status: TestResultStatus }> = ({ status }) => {
+  if (status === "passed") {
+    return <CheckCircle2 className="h-5 w-5 text-green-600" />;
+  }
+  if (status === "timeout") {
+    return <Clock className="h-5 w-5 text-amber-600" />;
+  }
+  if (status === "memoryLimit") {
+    return <Cpu className="h-5 w-5 text-amber-600" />;
+  }
+  return <XCircle className="h-5 w-5 text-red-600" />;
+};
+
 const AutograderTestResultsModal: React.FC<AutograderTestResultsModalProps> = ({
   open,
   onOpenChange,
   results,
   totalPoints,
   pointsEarned,
+  hiddenTestCount = 0,
 }) => {
   const passedCount = results.filter((r) => r.passed).length;
   const totalCount = results.length;
@@ -68,70 +99,83 @@ const AutograderTestResultsModal: React.FC<AutograderTestResultsModalProps> = ({
                 {passedCount === totalCount ? "All Passed" : "Some Failed"}
               </Badge>
             </div>
+            {hiddenTestCount > 0 && (
+              <p className="text-sm text-muted-foreground flex items-center gap-1.5 mt-2">
+                <EyeOff className="h-4 w-4" />
+                {hiddenTestCount} hidden{" "}
+                {hiddenTestCount === 1 ? "test runs" : "tests run"} when your
+                submission is graded.
+              </p>
+            )}
           </div>
 
           {/* Test Results */}
           <div className="space-y-3">
-            {results.map((result) => (
-              <div
-                key={result.testId}
-                className={`border rounded-lg p-4 ${
-                  result.passed
-                    ? "bg-green-50 dark:bg-green-950/30 border-green-200 dark:border-green-800"
-                    : "bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800"
-                }`}
-              >
-                <div className="flex items-start justify-between mb-2">
-                  <div className="flex items-center gap-2">
-                    {result.passed ? (
-                      <CheckCircle2 className="h-5 w-5 text-green-600" />
-                    ) : (
-                      <XCircle className="h-5 w-5 text-red-600" />
-                    )}
-                    <h4 className="font-medium text-foreground">
-                      {result.testName}
-                    </h4>
+            {results.map((result) => {
+              const status = getStatus(result);
+              return (
+                <div
+                  key={result.testId}
+                  className={`border rounded-lg p-4 ${
+                    result.passed
+                      ? "bg-green-50 dark:bg-green-950/30 border-green-200 dark:border-green-800"
+                      : "bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-800"
+                  }`}
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      <StatusIcon status={status} />
+                      <h4 className="font-medium text-foreground">
+                        {result.testName}
+                      </h4>
+                      {result.hidden && (
+                        <Badge variant="outline" className="gap-1">
+                          <EyeOff className="h-3 w-3" />
+                          Hidden
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm font-medium text-foreground">
+                        {result.pointsEarned}/{result.points} points
+                      </p>
+                      <Badge
+                        variant={result.passed ? "default" : "destructive"}
+                        className="mt-1"
+                      >
+                        {STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
                   </div>
-                  <div className="text-right">
-                    <p className="text-sm font-medium text-foreground">
-                      {result.pointsEarned}/{result.points} points
-                    </p>
-                    <Badge
-                      variant={result.passed ? "default" : "destructive"}
-                      className="mt-1"
-                    >
-                      {result.passed ? "Passed" : "Failed"}
-                    </Badge>
-                  </div>
-                </div>
 
-                {/* Output */}
-                {(result.output || result.error) && (
-                  <div className="mt-3 pt-3 border-t border-border">
-                    {result.error && (
-                      <div className="mb-2">
-                        <p className="text-xs font-medium text-red-700 mb-1">
-                          Error:
-                        </p>
-                        <pre className="text-xs bg-red-100 dark:bg-red-900/40 p-2 rounded border border-red-200 dark:border-red-800 font-mono whitespace-pre-wrap max-h-32 overflow-y-auto">
-                          {result.error}
-                        </pre>
-                      </div>
-                    )}
-                    {result.output && (
-                      <div>
-                        <p className="text-xs font-medium text-foreground mb-1">
-                          Output:
-                        </p>
-                        <pre className="text-xs bg-card p-2 rounded border font-mono whitespace-pre-wrap max-h-32 overflow-y-auto">
-                          {result.output}
-                        </pre>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
-            ))}
+                  {/* Output */}
+                  {(result.output || result.error) && (
+                    <div className="mt-3 pt-3 border-t border-border">
+                      {result.error && (
+                        <div className="mb-2">
+                          <p className="text-xs font-medium text-red-700 mb-1">
+                            Error:
+                          </p>
+                          <pre className="text-xs bg-red-100 dark:bg-red-900/40 p-2 rounded border border-red-200 dark:border-red-800 font-mono whitespace-pre-wrap max-h-32 overflow-y-auto">
+                            {result.error}
+                          </pre>
+                        </div>
+                      )}
+                      {result.output && (
+                        <div>
+                          <p className="text-xs font-medium text-foreground mb-1">
+                            Output:
+                          </p>
+                          <pre className="text-xs bg-card p-2 rounded border font-mono whitespace-pre-wrap max-h-32 overflow-y-auto">
+                            {result.output}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
       </DialogContent>
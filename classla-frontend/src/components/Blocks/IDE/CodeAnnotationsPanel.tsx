@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  MessageSquarePlus,
+  MessageSquareText,
+  Trash2,
+} from "lucide-react";
+import { Button } from "../../ui/button";
+import { Textarea } from "../../ui/textarea";
+import { CodeAnnotation } from "../../../types";
+import { hashFileRevision } from "../../../hooks/useCodeAnnotations";
+
+export interface AnnotationRange {
+  start_line: number;
+  start_column: number | null;
+  end_line: number;
+  end_column: number | null;
+}
+
+interface CodeAnnotationsPanelProps {
+  filePath: string;
+  annotations: CodeAnnotation[]; // Annotations on filePath only
+  fileContent: string;
+  canAnnotate: boolean;
+  getSelectedRange: () => AnnotationRange | null;
+  onAdd: (range: AnnotationRange, body: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onReveal: (annotation: CodeAnnotation) => void;
+}
+
+export const formatAnnotationLines = (annotation: {
+  start_line: number;
+  end_line: number;
+}): string =>
+  annotation.start_line === annotation.end_line
+    ? `Line ${annotation.start_line}`
+    : `Lines ${annotation.start_line}–${annotation.end_line}`;
+
+const CodeAnnotationsPanel: React.FC<CodeAnnotationsPanelProps> = ({
+  filePath,
+  annotations,
+  fileContent,
+  canAnnotate,
+  getSelectedRange,
+  onAdd,
+  onDelete,
+  onReveal,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [draftRange, setDraftRange] = useState<AnnotationRange | null>(null);
+  const [draftBody, setDraftBody] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [currentRevision, setCurrentRevision] = useState<string | null>(null);
+
+  // Hash the open file so comments written against another revision can be flagged
+  useEffect(() => {
+    let cancelled = false;
+    hashFileRevision(fileContent).then((revision) => {
+      if (!cancelled) setCurrentRevision(revision);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fileContent]);
+
+  // Drop an unsaved draft when switching files
+  useEffect(() => {
+    setDraftRange(null);
+    setDraftBody("");
+  }, [filePath]);
+
+  if (!canAnnotate && annotations.length === 0) return null;
+
+  const startDraft = () => {
+    const range = getSelectedRange();
+    if (!range) return;
+    setDraftRange(range);
+    setIsExpanded(true);
+  };
+
+  const saveDraft = async () => {
+    if (!draftRange || !draftBody.trim()) return;
+    setIsSaving(true);
+    try {
+      await onAdd(draftRange, draftBody.trim());
+      setDraftRange(null);
+      setDraftBody("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await onDelete(id);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="border-t border-border bg-muted flex-shrink-0 max-h-[40%] flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button
+          onClick={() => setIsExpanded((prev) => !prev)}
+          className="flex items-center gap-1.5 text-xs font-medium text-foreground"
+        >
+          <MessageSquareText className="w-3.5 h-3.5 text-purple-600" />
+          Comments ({annotations.length})
+          {isExpanded ? (
+            <ChevronDown className="w-3 h-3" />
+          ) : (
+            <ChevronUp className="w-3 h-3" />
+          )}
+        </button>
+        {canAnnotate && !draftRange && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={startDraft}
+            className="ml-auto h-6 px-2 text-xs text-purple-600 hover:text-purple-700"
+            title="Comment on the selected lines"
+          >
+            <MessageSquarePlus className="w-3.5 h-3.5 mr-1" />
+            Comment on selection
+          </Button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="overflow-y-auto px-3 pb-2 space-y-1.5">
+          {draftRange && (
+            <div className="rounded border border-purple-300 bg-card p-2 space-y-2">
+              <div className="text-xs font-medium text-purple-700">
+                {formatAnnotationLines(draftRange)}
+              </div>
+              <Textarea
+                value={draftBody}
+                onChange={(e) => setDraftBody(e.target.value)}
+                placeholder="Write a comment for the student..."
+                className="min-h-[60px] text-sm"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setDraftRange(null);
+                    setDraftBody("");
+                  }}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={saveDraft}
+                  disabled={isSaving || !draftBody.trim()}
+                  className="bg-purple-600 hover:bg-purple-700 text-white"
+                >
+                  {isSaving && (
+                    <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+                  )}
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {annotations.length === 0 && !draftRange && (
+            <div className="text-xs text-muted-foreground">
+              Select lines in the editor to comment on them.
+            </div>
+          )}
+
+          {annotations.map((annotation) => {
+            const isOutdated =
+              currentRevision !== null &&
+              annotation.file_revision !== currentRevision;
+            return (
+              <div
+                key={annotation.id}
+                onClick={() => onReveal(annotation)}
+                className="group rounded border border-border bg-card p-2 cursor-pointer hover:border-purple-300"
+              >
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-medium text-purple-700">
+                    {formatAnnotationLines(annotation)}
+                  </span>
+                  {annotation.author && (
+                    <span className="text-muted-foreground">
+                      {annotation.author.first_name}{" "}
+                      {annotation.author.last_name}
+                    </span>
+                  )}
+                  {isOutdated && (
+                    <span
+                      className="flex items-center gap-1 text-amber-600"
+                      title="The file has changed since this comment was written"
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      Outdated
+                    </span>
+                  )}
+                  {canAnnotate && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(annotation.id);
+                      }}
+                      disabled={deletingId === annotation.id}
+                      className="ml-auto text-muted-foreground hover:text-red-600 opacity-0 group-hover:opacity-100"
+                      title="Delete comment"
+                    >
+                      {deletingId === annotation.id ? (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-3.5 h-3.5" />
+                      )}
+                    </button>
+                  )}
+                </div>
+                <div className="mt-1 text-sm text-foreground whitespace-pre-wrap">
+                  {annotation.body}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeAnnotationsPanel;
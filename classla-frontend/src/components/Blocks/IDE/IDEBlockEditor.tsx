@@ -7,7 +7,14 @@ import React, {
   useMemo,
 } from "react";
 import { NodeViewWrapper } from "@tiptap/react";
-import { IDEBlockData, TestCase, IDELanguage } from "../../extensions/IDEBlock";
+import { useQuery } from "@tanstack/react-query";
+import {
+  IDEBlockData,
+  TestCase,
+  IDELanguage,
+  IDE_LANGUAGE_DEFAULTS,
+  IDEResourceProfile,
+} from "../../extensions/IDEBlock";
 import {
   Trash2,
   Play,
@@ -29,7 +36,19 @@ import { Input } from "../../ui/input";
 import { Label } from "../../ui/label";
 import { Checkbox } from "../../ui/checkbox";
 import { fetchWithNetworkRetry } from "./fetchWithNetworkRetry";
+import {
+  IDE_LANGUAGE_LABELS,
+  IDE_STARTER_CODE,
+  getRunLanguage,
+} from "./ideLanguages";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "../../ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../ui/select";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -41,6 +60,7 @@ import { apiClient } from "../../../lib/api";
 import { useAuth } from "../../../contexts/AuthContext";
 import { useIDEPanel } from "../../../contexts/IDEPanelContext";
 import { useAssignmentContext } from "../../../contexts/AssignmentContext";
+import { IDEResourceProfileOption } from "../../../types";
 
 
 // Deterministic color from user ID for cursor sharing
@@ -77,23 +97,31 @@ const PRODUCTION_IDE_API_BASE_URL =
   import.meta.env.VITE_IDE_API_BASE_URL || "https://ide.classla.org";
 const LOCAL_IDE_API_BASE_URL = "http://localhost";
 
-// Hello World starter templates
-const PYTHON_HELLO_WORLD = `# Hello World in Python
-print("Hello, World!")
-`;
-
-const JAVA_HELLO_WORLD = `// Hello World in Java
-public class Main {
-    public static void main(String[] args) {
-        System.out.println("Hello, World!");
-    }
-}
-`;
+// Languages without an inline SVG logo in the language picker
+const OTHER_LANGUAGE_BADGES: {
+  language: IDELanguage;
+  badge: string;
+  className: string;
+}[] = [
+  { language: "c", badge: "C", className: "bg-[#283593] text-white" },
+  { language: "cpp", badge: "C++", className: "bg-[#00599C] text-white" },
+  { language: "javascript", badge: "JS", className: "bg-[#F7DF1E] text-black" },
+  { language: "typescript", badge: "TS", className: "bg-[#3178C6] text-white" },
+  { language: "go", badge: "Go", className: "bg-[#00ADD8] text-white" },
+];
 
 type TabType = "template" | "modelSolution" | "autoGrading";
 
 // Module-level maps to persist state across TipTap node view remounts
 // (OT sync after updateAttributes can cause full component remounts)
+// e.g. "2 cores · 4 GB · desktop"
+function formatProfileResources({ resources }: IDEResourceProfileOption): string {
+  const memoryGb = Math.round((resources.memoryMb / 1024) * 10) / 10;
+  return `${resources.cpuCores} core${resources.cpuCores === 1 ? "" : "s"} · ${memoryGb} GB · ${
+    resources.vncEnabled ? "desktop" : "no desktop"
+  }`;
+}
+
 const persistedActiveTab = new Map<string, TabType>();
 const persistedPendingTestRun = new Map<string, boolean>();
 const persistedTestingState = new Map<string, boolean>();
@@ -267,7 +295,7 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
                 urls: {
                   ...container.urls,
                   terminal: container.urls.terminal || `${currentIDEBaseUrl}/terminal/${container.id}/`,
-                  vnc: container.urls.vnc || `${currentIDEBaseUrl}/vnc/${container.id}/`,
+                  vnc: container.urls.vnc ?? `${currentIDEBaseUrl}/vnc/${container.id}/`,
                 },
               },
             }));
@@ -424,8 +452,8 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
               // Seed initial file for new template buckets
               if (isTemplate && bucketId) {
                 const lang = language || ideData.settings?.language || "python";
-                const starterFile = lang === "java" ? "Main.java" : "main.py";
-                const starterContent = lang === "java" ? JAVA_HELLO_WORLD : PYTHON_HELLO_WORLD;
+                const starterFile = IDE_LANGUAGE_DEFAULTS[lang].runFile;
+                const starterContent = IDE_STARTER_CODE[lang];
                 try {
                   await apiClient.createS3File(bucketId, starterFile, starterContent);
                   console.log(`[IDE] Seeded ${starterFile} for ${lang} template`);
@@ -552,8 +580,8 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
               // Seed initial file for new template buckets
               if (isTemplate && bucketId) {
                 const lang = language || ideData.settings?.language || "python";
-                const starterFile = lang === "java" ? "Main.java" : "main.py";
-                const starterContent = lang === "java" ? JAVA_HELLO_WORLD : PYTHON_HELLO_WORLD;
+                const starterFile = IDE_LANGUAGE_DEFAULTS[lang].runFile;
+                const starterContent = IDE_STARTER_CODE[lang];
                 try {
                   await apiClient.createS3File(bucketId, starterFile, starterContent);
                   console.log(`[IDE] Seeded ${starterFile} for ${lang} template`);
@@ -592,6 +620,12 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
             useLocalIDE: useLocalIDE,
           });
 
+          // Authoring doesn't wait in the admission line; give the place back
+          if (containerResponse.status === 202 && containerResponse.data.queued) {
+            apiClient.cancelIDEAdmission(containerResponse.data.ticket.id, useLocalIDE).catch(() => {});
+            throw new Error(containerResponse.data.message || "All coding environments are busy. Please try again shortly.");
+          }
+
           const containerData = containerResponse.data;
           const containerId = containerData.id;
 
@@ -624,7 +658,8 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
                 urls: {
                   ...containerData.urls,
                   terminal: containerData.urls.terminal || `${IDE_API_BASE_URL}/terminal/${containerId}/`,
-                  vnc: containerData.urls.vnc || `${IDE_API_BASE_URL}/vnc/${containerId}/`,
+                  // Empty when the resource profile has no desktop
+                  vnc: containerData.urls.vnc ?? `${IDE_API_BASE_URL}/vnc/${containerId}/`,
                 },
               },
             }));
@@ -641,7 +676,7 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
           setIsStarting((prev) => ({ ...prev, [tab]: false }));
         }
       },
-      [user, ideData, updateAttributes, pollContainerUntilReady, toast, IDE_API_BASE_URL]
+      [user, ideData, assignmentId, updateAttributes, pollContainerUntilReady, toast, IDE_API_BASE_URL]
     );
 
     // Initialize containers for all tabs on mount
@@ -692,15 +727,7 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
 
     // Detect language from filename extension
     const detectLanguage = useCallback((filename: string): string => {
-      const ext = filename.split(".").pop()?.toLowerCase();
-      const languageMap: Record<string, string> = {
-        py: "python",
-        js: "node",
-        java: "java",
-        sh: "bash",
-        ts: "node", // TypeScript runs with node
-      };
-      return languageMap[ext || ""] || "python";
+      return getRunLanguage(filename) || "python";
     }, []);
 
     // Handle run button click
@@ -789,6 +816,31 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
       [ideData, updateAttributes]
     );
 
+    // Container size for this block; the backend applies it when IDEs start
+    const { data: resourceProfiles } = useQuery({
+      queryKey: ["ideResourceProfiles", courseId],
+      queryFn: async () => (await apiClient.getIDEResourceProfiles(courseId!)).data,
+      enabled: !!courseId,
+      staleTime: 5 * 60 * 1000,
+    });
+    const selectedResourceProfile =
+      ideData.settings?.resource_profile || resourceProfiles?.defaultProfile || "standard";
+
+    const updateResourceProfile = useCallback(
+      (profile: IDEResourceProfile) => {
+        updateAttributes({
+          ideData: {
+            ...ideData,
+            settings: {
+              ...ideData.settings,
+              resource_profile: profile,
+            },
+          },
+        });
+      },
+      [ideData, updateAttributes]
+    );
+
     // Update default run file in settings
     const updateDefaultRunFile = useCallback(
       (filename: string) => {
@@ -962,6 +1014,8 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
               },
               body: JSON.stringify({
                 tests: executableTests,
+                language: ideData.settings?.language,
+                runFile: ideData.settings?.default_run_file,
               }),
             }
           );
@@ -1012,7 +1066,7 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
       } finally {
         setIsTestingModelSolution(false);
       }
-    }, [ideData.autograder?.tests, toast, setIsTestingModelSolution, IDE_API_BASE_URL]);
+    }, [ideData.autograder?.tests, ideData.settings?.language, ideData.settings?.default_run_file, toast, setIsTestingModelSolution, IDE_API_BASE_URL]);
 
     const handleTestModelSolution = useCallback(async () => {
       const container = containers.modelSolution;
@@ -1544,7 +1598,7 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
                 onOpenFullscreen={openFullscreen}
                 currentUser={currentUser}
                 onLanguageSelect={(language: IDELanguage) => {
-                  const newRunFile = language === "java" ? "Main.java" : "main.py";
+                  const newRunFile = IDE_LANGUAGE_DEFAULTS[language].runFile;
                   updateAttributes({
                     ideData: {
                       ...ideData,
@@ -1655,7 +1709,7 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
                 onOpenFullscreen={openFullscreen}
                 currentUser={currentUser}
                 onLanguageSelect={(language: IDELanguage) => {
-                  const newRunFile = language === "java" ? "Main.java" : "main.py";
+                  const newRunFile = IDE_LANGUAGE_DEFAULTS[language].runFile;
                   updateAttributes({
                     ideData: {
                       ...ideData,
@@ -1722,6 +1776,7 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
                 onOpenChange={setTestModalOpen}
                 onSave={handleSaveTest}
                 testCase={editingTest}
+                language={ideData.settings?.language}
               />
               <AutograderTestResultsModal
                 open={testResultsModalOpen}
@@ -1758,7 +1813,46 @@ const IDEBlockEditor: React.FC<IDEBlockEditorProps> = memo(
                   className="w-20"
                 />
               )}
-              {containers[activeTab] && (
+              {resourceProfiles && (
+                <>
+                  <Label htmlFor="resource-profile" className="text-sm text-foreground">
+                    Environment:
+                  </Label>
+                  <Select
+                    value={selectedResourceProfile}
+                    onValueChange={(value) =>
+                      updateResourceProfile(value as IDEResourceProfile)
+                    }
+                  >
+                    <SelectTrigger
+                      id="resource-profile"
+                      className="h-8 w-64 text-sm"
+                      title="Applies to IDEs started after the assignment is saved"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {resourceProfiles.profiles.map((profile) => (
+                        <SelectItem
+                          key={profile.name}
+                          value={profile.name}
+                          disabled={!profile.allowed}
+                          title={profile.description}
+                        >
+                          <span className="font-medium">{profile.label}</span>
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {profile.allowed
+                              ? formatProfileResources(profile)
+                              : "Not allowed by your organization"}
+                            {profile.allowed && profile.capped && " (capped)"}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+              {containers[activeTab]?.urls.vnc && (
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button variant="outline" size="sm">
@@ -2009,7 +2103,7 @@ const IDETabContent: React.FC<IDETabContentProps> = memo(
               <p className="text-sm text-muted-foreground mb-4">
                 Select a programming language to get started
               </p>
-              <div className="flex gap-3">
+              <div className="flex flex-wrap justify-center gap-3 max-w-xl">
                 <Button
                   onClick={() => onLanguageSelect("python")}
                   variant="outline"
@@ -2045,6 +2139,23 @@ const IDETabContent: React.FC<IDETabContentProps> = memo(
                   </svg>
                   <span className="font-medium">Java</span>
                 </Button>
+                {OTHER_LANGUAGE_BADGES.map(({ language, badge, className }) => (
+                  <Button
+                    key={language}
+                    onClick={() => onLanguageSelect(language)}
+                    variant="outline"
+                    className="flex flex-col items-center gap-2 h-auto py-4 px-6 hover:border-purple-500 hover:bg-primary/10"
+                  >
+                    <span
+                      className={`w-8 h-8 rounded flex items-center justify-center text-xs font-bold ${className}`}
+                    >
+                      {badge}
+                    </span>
+                    <span className="font-medium">
+                      {IDE_LANGUAGE_LABELS[language]}
+                    </span>
+                  </Button>
+                ))}
               </div>
             </div>
           )}
@@ -19,15 +19,19 @@ import {
   History,
 } from "lucide-react";
 import MonacoIDE from "./MonacoIDE";
+import type { AnnotationRange } from "./CodeAnnotationsPanel";
 import AutograderTestResultsModal from "./AutograderTestResultsModal";
 import { Button } from "../../ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "../../ui/tabs";
 import { useToast } from "../../../hooks/use-toast";
 import { apiClient } from "../../../lib/api";
+import type { IDEAdmissionTicket } from "../../../types";
 import { useAuth } from "../../../contexts/AuthContext";
 import { useIDEPanel } from "../../../contexts/IDEPanelContext";
 import { useAssignmentContext } from "../../../contexts/AssignmentContext";
+import { useCodeAnnotations } from "../../../hooks/useCodeAnnotations";
 import { fetchWithNetworkRetry } from "./fetchWithNetworkRetry";
+import { getRunLanguage } from "./ideLanguages";
 
 import { useFileHistory } from "../../../hooks/useFileHistory";
 
@@ -63,6 +67,12 @@ interface ContainerInfo {
 const IDE_API_BASE_URL =
   import.meta.env.VITE_IDE_API_BASE_URL || "https://ide.classla.org";
 
+function formatAdmissionEta(etaSeconds: number | null): string {
+  if (etaSeconds === null) return "";
+  if (etaSeconds < 60) return "less than a minute";
+  return `about ${Math.round(etaSeconds / 60)} min`;
+}
+
 type TabType = "code" | "autoGrader";
 
 const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
@@ -71,7 +81,7 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
     const { toast } = useToast();
     const { user } = useAuth();
     const { openSidePanel, closeSidePanel, openFullscreen, updatePanelState, panelMode } = useIDEPanel();
-    const { courseId, assignmentId, previewMode, studentId: contextStudentId, snapshotBucketMap } = useAssignmentContext();
+    const { courseId, assignmentId, previewMode, studentId: contextStudentId, snapshotBucketMap, submissionId: contextSubmissionId, canAnnotate } = useAssignmentContext();
 
     // When grading or viewing a submitted assignment, use the snapshot bucket if available
     const snapshotBucketId = snapshotBucketMap?.[ideData.id] || null;
@@ -80,6 +90,30 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
     const effectiveUserId = contextStudentId || user?.id;
     const isViewingOtherStudent = !!contextStudentId && contextStudentId !== user?.id;
 
+    // Grader comments on this block's files (students see them once the grade is returned)
+    const annotationSubmissionId = previewMode ? null : contextSubmissionId;
+    const {
+      annotations: codeAnnotations,
+      addAnnotation,
+      deleteAnnotation: deleteCodeAnnotation,
+    } = useCodeAnnotations(annotationSubmissionId, ideData.id);
+
+    const handleAddAnnotation = useCallback(
+      async (filePath: string, range: AnnotationRange, body: string, fileContent: string) => {
+        try {
+          await addAnnotation({ file_path: filePath, ...range, body }, fileContent);
+        } catch (error: any) {
+          toast({
+            title: "Failed to save comment",
+            description: error.response?.data?.error?.message || error.message,
+            variant: "destructive",
+          });
+          throw error;
+        }
+      },
+      [addAnnotation, toast]
+    );
+
     // Watch for block scores updates (for grading view)
     const [blockScoresVersion, setBlockScoresVersion] = useState(0);
     useEffect(() => {
@@ -110,6 +144,8 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
     const [activeTab, setActiveTab] = useState<TabType>("code");
     const [container, setContainer] = useState<ContainerInfo | null>(null);
     const [isStarting, setIsStarting] = useState(false);
+    // Place in line while the IDE cluster is at capacity
+    const [admission, setAdmission] = useState<IDEAdmissionTicket | null>(null);
     const [isResetting, setIsResetting] = useState(false);
     const [showDesktop, setShowDesktop] = useState(false);
     const [runFilename, setRunFilename] = useState(
@@ -302,15 +338,40 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
       };
     }, [previewMode, bucketStorageKey]);
 
+    // Waiting-room stream for a queued container start
+    const admissionStreamRef = useRef<EventSource | null>(null);
+    const admissionTicketIdRef = useRef<string | null>(null);
+
+    const stopFollowingAdmission = useCallback(() => {
+      admissionStreamRef.current?.close();
+      admissionStreamRef.current = null;
+      admissionTicketIdRef.current = null;
+      setAdmission(null);
+    }, []);
+
+    // Give up our place in line (switching students, leaving the page)
+    const leaveAdmission = useCallback(() => {
+      const ticketId = admissionTicketIdRef.current;
+      stopFollowingAdmission();
+      if (ticketId) {
+        apiClient.cancelIDEAdmission(ticketId).catch(() => {});
+      }
+    }, [stopFollowingAdmission]);
+
+    useEffect(() => {
+      return () => leaveAdmission();
+    }, [leaveAdmission]);
+
     // Clear container state when switching between students (effectiveUserId changes)
     const prevEffectiveUserIdRef = useRef(effectiveUserId);
     useEffect(() => {
       if (prevEffectiveUserIdRef.current && prevEffectiveUserIdRef.current !== effectiveUserId) {
+        leaveAdmission();
         setContainer(null);
         setIsStarting(false);
       }
       prevEffectiveUserIdRef.current = effectiveUserId;
-    }, [effectiveUserId]);
+    }, [effectiveUserId, leaveAdmission]);
 
     // Load test run history when component mounts or when autograder tab becomes visible
     useEffect(() => {
@@ -405,6 +466,65 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
       [checkContainerStatus, toast]
     );
 
+    // Follow a queued container start until the cluster admits it
+    const followAdmission = useCallback(
+      (ticket: IDEAdmissionTicket) => {
+        admissionStreamRef.current?.close();
+        admissionTicketIdRef.current = ticket.id;
+        setAdmission(ticket);
+
+        const eventSource = new EventSource(
+          apiClient.getIDEAdmissionStreamUrl(ticket.id),
+          { withCredentials: true }
+        );
+        admissionStreamRef.current = eventSource;
+
+        eventSource.onmessage = (event) => {
+          let data: any;
+          try {
+            data = JSON.parse(event.data);
+          } catch {
+            return;
+          }
+
+          if (data.type === "error") {
+            stopFollowingAdmission();
+            setIsStarting(false);
+            toast({
+              title: "Failed to start container",
+              description: data.message || "You were removed from the line. Please try again.",
+              variant: "destructive",
+            });
+            return;
+          }
+          if (data.type !== "ticket") return;
+
+          const update = data.ticket as IDEAdmissionTicket;
+          if (update.status === "waiting" || update.status === "starting") {
+            setAdmission(update);
+            return;
+          }
+
+          stopFollowingAdmission();
+          if (update.status === "admitted" && update.container) {
+            pollContainerUntilReady(update.container.id);
+          } else {
+            setIsStarting(false);
+            if (update.status !== "cancelled") {
+              toast({
+                title: "Failed to start container",
+                description:
+                  update.error || "You were removed from the line. Please try again.",
+                variant: "destructive",
+              });
+            }
+          }
+        };
+        // EventSource reconnects on its own if the connection drops
+      },
+      [pollContainerUntilReady, stopFollowingAdmission, toast]
+    );
+
     // Start container
     const startContainer = useCallback(async () => {
       if (!effectiveUserId) {
@@ -503,6 +623,12 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
           userId: effectiveUserId,
         });
 
+        // Cluster is at capacity: wait in line instead of failing
+        if (containerResponse.status === 202 && containerResponse.data.queued) {
+          followAdmission(containerResponse.data.ticket);
+          return;
+        }
+
         const containerData = containerResponse.data;
         const containerId = containerData.id;
 
@@ -516,7 +642,8 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
             urls: {
               ...containerData.urls,
               terminal: containerData.urls.terminal || `${IDE_API_BASE_URL}/terminal/${containerId}/`,
-              vnc: containerData.urls.vnc || `${IDE_API_BASE_URL}/vnc/${containerId}/`,
+              // Empty when the resource profile has no desktop
+              vnc: containerData.urls.vnc ?? `${IDE_API_BASE_URL}/vnc/${containerId}/`,
             },
           });
           setIsStarting(false);
@@ -535,20 +662,12 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
           variant: "destructive",
         });
       }
-    }, [effectiveUserId, isViewingOtherStudent, ideData, studentBucketId, assignmentId, courseId, pollContainerUntilReady, toast, bucketStorageKey]);
+    }, [effectiveUserId, isViewingOtherStudent, ideData, studentBucketId, assignmentId, courseId, pollContainerUntilReady, followAdmission, toast, bucketStorageKey]);
 
 
     // Detect language from filename extension
     const detectLanguage = useCallback((filename: string): string => {
-      const ext = filename.split(".").pop()?.toLowerCase();
-      const languageMap: Record<string, string> = {
-        py: "python",
-        js: "node",
-        java: "java",
-        sh: "bash",
-        ts: "node", // TypeScript runs with node
-      };
-      return languageMap[ext || ""] || "python";
+      return getRunLanguage(filename) || "python";
     }, []);
 
     // Handle run button click
@@ -861,12 +980,17 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
         return;
       }
 
-      // Filter out manual grading tests - only run executable tests
-      const executableTests = tests.filter((test) => test.type !== "manualGrading");
+      // Filter out manual grading tests - only run executable tests.
+      // Hidden tests reach students without their input/code and only run when grading.
+      const executableTests = tests.filter(
+        (test) => test.type !== "manualGrading" && !test.hidden
+      );
       if (executableTests.length === 0) {
         toast({
           title: "No executable tests",
-          description: "All tests require manual grading.",
+          description: tests.some((test) => test.type !== "manualGrading")
+            ? "All executable tests are hidden and run when your submission is graded."
+            : "All tests require manual grading.",
           variant: "default",
         });
         return;
@@ -898,6 +1022,8 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
             },
             body: JSON.stringify({
               tests: executableTests,
+              language: ideData.settings?.language,
+              runFile: ideData.settings?.default_run_file,
             }),
           },
           10,
@@ -962,7 +1088,7 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
       } finally {
         setIsRunningTests(false);
       }
-    }, [container, ideData.autograder?.tests, ideData.id, assignmentId, courseId, toast, studentBucketId, previewMode, startContainer]);
+    }, [container, ideData.autograder?.tests, ideData.settings?.language, ideData.settings?.default_run_file, ideData.id, assignmentId, courseId, toast, studentBucketId, previewMode, startContainer]);
 
     // Auto-run pending tests when container becomes ready after auto-start
     useEffect(() => {
@@ -1029,6 +1155,41 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
             {/* Code Tab */}
             <TabsContent value="code" className="mt-4">
               <div className="space-y-4">
+                {/* Waiting room while the IDE cluster is at capacity */}
+                {admission && (
+                  <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 dark:border-amber-800 dark:bg-amber-950/40">
+                    <div className="flex items-center gap-3">
+                      <Clock className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+                      <div>
+                        <p className="text-sm font-medium">
+                          {admission.status === "starting" || admission.position === null
+                            ? "You're next — starting your codespace..."
+                            : `You are #${admission.position} in line`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          All coding environments are busy.
+                          {admission.status === "waiting" && admission.etaSeconds !== null
+                            ? ` Estimated wait: ${formatAdmissionEta(admission.etaSeconds)}.`
+                            : ""}{" "}
+                          Keep this page open to hold your place.
+                        </p>
+                      </div>
+                    </div>
+                    {admission.status === "waiting" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          leaveAdmission();
+                          setIsStarting(false);
+                        }}
+                      >
+                        Leave line
+                      </Button>
+                    )}
+                  </div>
+                )}
+
                 {/* Container area */}
                 <div className="border border-border rounded-lg overflow-hidden bg-muted">
                   {/* Show MonacoIDE if student has a cloned bucket */}
@@ -1077,6 +1238,12 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
                         })}
                         onSelectedFileChange={setSelectedFilePath}
                         readOnly={isReadOnly}
+                        {...(annotationSubmissionId ? {
+                          annotations: codeAnnotations,
+                          canAnnotate,
+                          onAddAnnotation: handleAddAnnotation,
+                          onDeleteAnnotation: deleteCodeAnnotation,
+                        } : {})}
                         // History mode props (only when viewing another student)
                         {...(isViewingOtherStudent ? {
                           historyMode: fileHistory.isHistoryMode,
@@ -1284,6 +1451,11 @@ const IDEBlockViewer: React.FC<IDEBlockViewerProps> = memo(
                   results={testResults}
                   totalPoints={testTotalPoints}
                   pointsEarned={testPointsEarned}
+                  hiddenTestCount={
+                    (ideData.autograder?.tests || []).filter(
+                      (test) => test.type !== "manualGrading" && test.hidden
+                    ).length
+                  }
                 />
               </TabsContent>
             )}
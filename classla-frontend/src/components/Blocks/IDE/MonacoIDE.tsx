@@ -4,6 +4,9 @@ import Editor from "@monaco-editor/react";
 import { Terminal as TerminalIcon, ChevronRight, ChevronLeft, RefreshCw, Monitor, Play, Loader2, Files, ExternalLink, PanelLeft, History, Clock, Settings } from "lucide-react";
 import type { FileVersion } from "../../../hooks/useFileHistory";
 import FileExplorer, { FileNode, getFileIcon } from "./FileExplorer";
+import { isRunnableFile } from "./ideLanguages";
+import CodeAnnotationsPanel, { AnnotationRange, formatAnnotationLines } from "./CodeAnnotationsPanel";
+import type { CodeAnnotation } from "../../../types";
 import { apiClient } from "../../../lib/api";
 import { useToast } from "../../../hooks/use-toast";
 import { Button } from "../../ui/button";
@@ -74,6 +77,11 @@ interface MonacoIDEProps {
   onHistoryFileChange?: (filePath: string) => void;
   onSelectedFileChange?: (filePath: string) => void;
   readOnly?: boolean;
+  // Code annotations (grader comments anchored to lines of a submission's files)
+  annotations?: CodeAnnotation[];
+  canAnnotate?: boolean;
+  onAddAnnotation?: (filePath: string, range: AnnotationRange, body: string, fileContent: string) => Promise<void>;
+  onDeleteAnnotation?: (id: string) => Promise<void>;
 }
 
 const MonacoIDE: React.FC<MonacoIDEProps> = ({
@@ -108,6 +116,10 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
   onHistoryFileChange,
   onSelectedFileChange,
   readOnly: readOnlyProp = false,
+  annotations,
+  canAnnotate = false,
+  onAddAnnotation,
+  onDeleteAnnotation,
 }) => {
   const { toast } = useToast();
   const { isDark } = useTheme();
@@ -125,6 +137,8 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
   const [isRunning, setIsRunning] = useState(false);
   const editorRef = useRef<any>(null);
   const editorReadyRef = useRef<boolean>(false); // Track if editor is mounted and ready
+  const [editorMountCount, setEditorMountCount] = useState(0); // Bumped on each editor mount so decorations are re-applied
+  const annotationDecorationsRef = useRef<string[]>([]); // Decoration IDs for code annotations in the current editor
   const otBindingsRef = useRef<Record<string, MonacoOTBinding>>({}); // Track OT bindings per file
   const containerRef = useRef<HTMLDivElement>(null);
   const terminalSplitRef = useRef<HTMLDivElement>(null); // Ref for terminal/VNC split container
@@ -288,6 +302,8 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
   // Auto-show terminal when container is ready and URL probe has passed
   const hasTerminal = !!(containerId && containerTerminalUrl && terminalUrlReady);
   const hasVnc = !!(containerId && containerVncUrl && showDesktop);
+  // Containers whose resource profile has no desktop come with an empty VNC URL
+  const desktopDisabled = !!containerId && !containerVncUrl;
 
   const buildVncUrl = useCallback(() => {
     if (!containerVncUrl) return '';
@@ -600,7 +616,7 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
   }, [files, getAllFilePaths]);
 
   const runnableFiles = useMemo(() => {
-    return availableFiles.filter((f) => f.endsWith(".java") || f.endsWith(".py"));
+    return availableFiles.filter(isRunnableFile);
   }, [availableFiles]);
 
   // Detect language from file extension
@@ -1847,6 +1863,66 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
 
   const currentContent = selectedFile ? fileContent[selectedFile] || "" : "";
 
+  const fileAnnotations = useMemo(
+    () => (annotations || []).filter((annotation) => annotation.file_path === selectedFile),
+    [annotations, selectedFile]
+  );
+
+  // Highlight annotated lines in the editor, with the comment as the hover message
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !editor.getModel()) return;
+    annotationDecorationsRef.current = editor.deltaDecorations(
+      annotationDecorationsRef.current,
+      fileAnnotations.map((annotation) => {
+        const wholeLine = annotation.start_column == null || annotation.end_column == null;
+        return {
+          range: new monaco.Range(
+            annotation.start_line,
+            wholeLine ? 1 : annotation.start_column!,
+            annotation.end_line,
+            wholeLine ? 1 : annotation.end_column!
+          ),
+          options: {
+            isWholeLine: wholeLine,
+            className: wholeLine ? "code-annotation-line" : "code-annotation-range",
+            linesDecorationsClassName: "code-annotation-gutter",
+            hoverMessage: { value: `**${formatAnnotationLines(annotation)}**\n\n${annotation.body}` },
+          },
+        };
+      })
+    );
+  }, [fileAnnotations, editorMountCount]);
+
+  // Current selection as an annotation range; an empty selection anchors the cursor's line
+  const getSelectedAnnotationRange = useCallback((): AnnotationRange | null => {
+    const selection = editorRef.current?.getSelection();
+    if (!selection) return null;
+    if (selection.isEmpty()) {
+      return {
+        start_line: selection.startLineNumber,
+        start_column: null,
+        end_line: selection.startLineNumber,
+        end_column: null,
+      };
+    }
+    return {
+      start_line: selection.startLineNumber,
+      start_column: selection.startColumn,
+      end_line: selection.endLineNumber,
+      end_column: selection.endColumn,
+    };
+  }, []);
+
+  const revealAnnotation = useCallback((annotation: CodeAnnotation) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.revealLinesInCenter(annotation.start_line, annotation.end_line);
+    editor.setSelection(
+      new monaco.Range(annotation.start_line, 1, annotation.end_line, editor.getModel()?.getLineMaxColumn(annotation.end_line) ?? 1)
+    );
+  }, []);
+
   return (
     <div 
       className="flex flex-col h-full bg-card border border-border rounded-lg overflow-hidden"
@@ -1963,7 +2039,7 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
                                 ))
                               ) : (
                                 <SelectItem value={runFilename} disabled>
-                                  No runnable files (.java, .py)
+                                  No runnable files
                                 </SelectItem>
                               )}
                             </SelectContent>
@@ -2210,6 +2286,8 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
                         console.log(`[MonacoIDE] Monaco editor mounted`);
                         editorRef.current = editor;
                         editorReadyRef.current = true;
+                        annotationDecorationsRef.current = [];
+                        setEditorMountCount((count) => count + 1);
 
                         // Focus the editor to ensure keyboard input works, but prevent
                         // the browser from auto-scrolling the page to the editor on mount
@@ -2278,6 +2356,23 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
                       Select a file to edit
                     </div>
                   )}
+
+                  {annotations && selectedFile && !isBinaryFile(selectedFile) && (
+                    <CodeAnnotationsPanel
+                      filePath={selectedFile}
+                      annotations={fileAnnotations}
+                      fileContent={currentContent}
+                      canAnnotate={canAnnotate && !historyMode && !!onAddAnnotation}
+                      getSelectedRange={getSelectedAnnotationRange}
+                      onAdd={(range, body) =>
+                        onAddAnnotation!(selectedFile, range, body, editorRef.current?.getModel()?.getValue() ?? currentContent)
+                      }
+                      onDelete={async (id) => {
+                        await onDeleteAnnotation?.(id);
+                      }}
+                      onReveal={revealAnnotation}
+                    />
+                  )}
             </div>
             
             {/* Resize Handle for Terminal */}
@@ -2340,7 +2435,7 @@ const MonacoIDE: React.FC<MonacoIDEProps> = ({
                     </Button>
                   )}
                   {/* Desktop toggle */}
-                  {onToggleDesktop && (layoutMode === 'side-panel' ? true : hasTerminal) && (
+                  {onToggleDesktop && !desktopDisabled && (layoutMode === 'side-panel' ? true : hasTerminal) && (
                     <Button
                       variant={showDesktop ? "default" : "outline"}
                       size="sm"
@@ -0,0 +1,181 @@
+import {
+  IDELanguage,
+  IDE_LANGUAGE_DEFAULTS,
+  OutputComparisonMode,
+  UnitTestFramework,
+} from "../../extensions/IDEBlock";
+
+export const IDE_LANGUAGE_LABELS: Record<IDELanguage, string> = {
+  python: "Python",
+  java: "Java",
+  c: "C",
+  cpp: "C++",
+  javascript: "JavaScript",
+  typescript: "TypeScript",
+  go: "Go",
+};
+
+// Hello World starter file seeded into new template buckets
+export const IDE_STARTER_CODE: Record<IDELanguage, string> = {
+  python: `# Hello World in Python
+print("Hello, World!")
+`,
+  java: `// Hello World in Java
+public class Main {
+    public static void main(String[] args) {
+        System.out.println("Hello, World!");
+    }
+}
+`,
+  c: `// Hello World in C
+#include <stdio.h>
+
+int main(void) {
+    printf("Hello, World!\\n");
+    return 0;
+}
+`,
+  cpp: `// Hello World in C++
+#include <iostream>
+
+int main() {
+    std::cout << "Hello, World!" << std::endl;
+    return 0;
+}
+`,
+  javascript: `// Hello World in JavaScript
+console.log("Hello, World!");
+`,
+  typescript: `// Hello World in TypeScript
+const greeting: string = "Hello, World!";
+console.log(greeting);
+`,
+  go: `// Hello World in Go
+package main
+
+import "fmt"
+
+func main() {
+	fmt.Println("Hello, World!")
+}
+`,
+};
+
+export const UNIT_TEST_FRAMEWORK_LABELS: Record<UnitTestFramework, string> = {
+  unittest: "unittest (python)",
+  junit: "JUnit (java)",
+  gtest: "GoogleTest (c/c++)",
+  jest: "Jest (javascript/typescript)",
+  gotest: "go test (go)",
+};
+
+// Placeholder shown in an empty unit test editor
+export const UNIT_TEST_TEMPLATES: Record<UnitTestFramework, string> = {
+  unittest: `import unittest # import unittest framework
+
+class Classla_Unit_Test(unittest.TestCase):
+    """
+    You can add sample tests here, and create multiple functions.
+    Students will see the names of these functions when they fail,
+    so if you would like to make names descriptive to help them you can.
+    """
+    def sample_test(self):
+        self.assertEquals(True)`,
+  junit: `import org.junit.Test;
+import static org.junit.Assert.*;
+
+public class MainTest {
+    @Test
+    public void sampleTest() {
+        assertEquals(2, 1 + 1);
+    }
+}`,
+  gtest: `// The student's main() is renamed during tests, so only TEST blocks are needed.
+// For C code, declare the functions under test inside extern "C" { ... }.
+#include <gtest/gtest.h>
+
+int add(int a, int b);
+
+TEST(ClasslaUnitTest, SampleTest) {
+    EXPECT_EQ(add(1, 1), 2);
+}`,
+  jest: `// Export functions from the student's file with module.exports / export
+const { add } = require("./main");
+
+test("adds two numbers", () => {
+  expect(add(1, 1)).toBe(2);
+});`,
+  gotest: `package main
+
+import "testing"
+
+func TestSample(t *testing.T) {
+	if add(1, 1) != 2 {
+		t.Errorf("add(1, 1) should be 2")
+	}
+}`,
+};
+
+/** Frameworks offered for a block's language, the language default first. */
+export const getUnitTestFrameworks = (
+  language?: IDELanguage
+): UnitTestFramework[] => {
+  const all = Object.keys(UNIT_TEST_FRAMEWORK_LABELS) as UnitTestFramework[];
+  if (!language) return all;
+  const preferred = IDE_LANGUAGE_DEFAULTS[language].framework;
+  return [preferred, ...all.filter((f) => f !== preferred)];
+};
+
+// Container /run language for each runnable file extension
+const RUN_LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  py: "python",
+  java: "java",
+  c: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  cxx: "cpp",
+  js: "javascript",
+  mjs: "javascript",
+  ts: "typescript",
+  go: "go",
+  sh: "bash",
+};
+
+/** Language the container should run a file with, or null if it can't be run. */
+export const getRunLanguage = (filename: string): string | null => {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+  return RUN_LANGUAGE_BY_EXTENSION[ext] || null;
+};
+
+/** Whether a file can be chosen as the Run target (test files are excluded). */
+export const isRunnableFile = (filename: string): boolean =>
+  getRunLanguage(filename) !== null &&
+  !/(_test\.go|\.test\.[jt]s)$/.test(filename) &&
+  !filename.endsWith(".sh");
+
+export const OUTPUT_COMPARISON_LABELS: Record<OutputComparisonMode, string> = {
+  exact: "Exact match",
+  ignoreWhitespace: "Ignore whitespace",
+  ignoreCase: "Ignore case",
+  floatTolerance: "Numbers within tolerance",
+  regex: "Regular expression",
+  unorderedLines: "Lines in any order",
+  customChecker: "Custom checker script",
+};
+
+// Placeholder shown in an empty checker script editor
+export const CHECKER_SCRIPT_TEMPLATE = `import sys
+
+# Called as: checker.py INPUT_FILE EXPECTED_FILE ACTUAL_FILE
+# Exit with status 0 to accept the output, any other status to reject it.
+# Anything printed to stdout is shown to the student.
+input_path, expected_path, actual_path = sys.argv[1:4]
+
+with open(expected_path) as f:
+    expected = f.read().split()
+with open(actual_path) as f:
+    actual = f.read().split()
+
+if sorted(actual) != sorted(expected):
+    print("Output does not contain the expected values")
+    sys.exit(1)`;
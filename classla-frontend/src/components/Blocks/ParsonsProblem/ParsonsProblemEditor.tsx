@@ -585,7 +585,7 @@ const ParsonsProblemEditor: React.FC<ParsonsProblemEditorProps> = memo(
                     }
                   />
                   <Label htmlFor="enableIndentation" className="text-sm">
-                    Enable indentation (students must match indentation)
+                    Enable indentation (blocks keep the indentation of the solution)
                   </Label>
                 </div>
                 {parsonsProblemData.enableIndentation && (
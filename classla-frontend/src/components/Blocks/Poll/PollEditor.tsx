@@ -6,7 +6,9 @@ import { Plus, Trash2, AlertTriangle, X, GripVertical } from "lucide-react";
 import { Button } from "../../ui/button";
 import { Label } from "../../ui/label";
 import RichTextEditor from "../../RichTextEditor";
-import { getAssignmentIdFromUrl } from "../../extensions/blockUtils";
+import { getAssignmentIdFromUrl, toDateTimeLocal } from "../../extensions/blockUtils";
+import { Checkbox } from "../../ui/checkbox";
+import { Input } from "../../ui/input";
 
 interface PollEditorProps {
   node: any;
@@ -222,6 +224,66 @@ const PollEditor: React.FC<PollEditorProps> = memo(
               </button>
             </div>
           </div>
+
+          <div className="mb-3">
+            <Label className="text-sm font-medium text-foreground mb-2 block">
+              Show Results
+            </Label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {(
+                [
+                  ["after-voting", "After voting"],
+                  ["after-close", "After close"],
+                  ["immediately", "Immediately"],
+                  ["never", "Never"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => updatePollData({ showResults: value })}
+                  className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                    pollData.showResults === value
+                      ? "bg-purple-600 text-white"
+                      : "bg-muted text-foreground hover:bg-accent"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2 mb-3">
+            <Checkbox
+              id={`${pollData.id}-allowAnswerChange`}
+              checked={pollData.allowAnswerChange}
+              onCheckedChange={(checked) =>
+                updatePollData({ allowAnswerChange: !!checked })
+              }
+            />
+            <Label htmlFor={`${pollData.id}-allowAnswerChange`} className="text-sm">
+              Allow students to change their vote
+            </Label>
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium text-foreground mb-1 block">
+              Close date
+            </Label>
+            <Input
+              type="datetime-local"
+              className="max-w-xs"
+              value={toDateTimeLocal(pollData.closeDate)}
+              onChange={(e) =>
+                updatePollData({
+                  closeDate: e.target.value
+                    ? new Date(e.target.value).toISOString()
+                    : undefined,
+                })
+              }
+            />
+          </div>
         </div>
       </NodeViewWrapper>
     );
@@ -0,0 +1,66 @@
+import React from "react";
+import { PollOption } from "../../extensions/PollBlock";
+import ResolvedHtml from "../../ResolvedHtml";
+
+interface PollResultBarsProps {
+  options: PollOption[];
+  counts: Record<string, number>;
+  totalResponses: number;
+  highlightedOptionIds?: string[];
+  size?: "sm" | "lg";
+}
+
+/**
+ * Horizontal bar per poll option showing its share of responses
+ */
+export const PollResultBars: React.FC<PollResultBarsProps> = ({
+  options,
+  counts,
+  totalResponses,
+  highlightedOptionIds = [],
+  size = "sm",
+}) => {
+  const isLarge = size === "lg";
+
+  return (
+    <div className={isLarge ? "space-y-6" : "space-y-2"}>
+      {options.map((option, index) => {
+        const count = counts[option.id] ?? 0;
+        const percent =
+          totalResponses > 0 ? Math.round((count / totalResponses) * 100) : 0;
+        const isHighlighted = highlightedOptionIds.includes(option.id);
+
+        return (
+          <div key={option.id}>
+            <div
+              className={`flex items-center justify-between gap-3 mb-1 ${
+                isLarge ? "text-2xl" : "text-sm"
+              }`}
+            >
+              <ResolvedHtml
+                html={option.text}
+                fallback={`Option ${index + 1}`}
+                className={`flex-1 ${isHighlighted ? "font-semibold" : ""}`}
+              />
+              <span className="text-muted-foreground tabular-nums">
+                {count} ({percent}%)
+              </span>
+            </div>
+            <div
+              className={`w-full bg-muted rounded-full overflow-hidden ${
+                isLarge ? "h-8" : "h-2"
+              }`}
+            >
+              <div
+                className={`h-full rounded-full transition-all duration-500 ${
+                  isHighlighted ? "bg-blue-600" : "bg-purple-500"
+                }`}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
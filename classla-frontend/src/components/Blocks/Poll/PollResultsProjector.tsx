@@ -0,0 +1,124 @@
+import React, { useEffect } from "react";
+import { createPortal } from "react-dom";
+import { useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { PollData } from "../../extensions/PollBlock";
+import { Button } from "../../ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../ui/select";
+import ResolvedHtml from "../../ResolvedHtml";
+import { apiClient } from "../../../lib/api";
+import { Section } from "../../../types";
+import { PollResultBars } from "./PollResultBars";
+import { usePollResults } from "../../../hooks/usePollResults";
+
+interface PollResultsProjectorProps {
+  pollData: PollData;
+  assignmentId: string;
+  courseId: string | null;
+  sectionId: string | null;
+  onSectionChange: (sectionId: string | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen live results for projecting a poll in class (staff only)
+ */
+const PollResultsProjector: React.FC<PollResultsProjectorProps> = ({
+  pollData,
+  assignmentId,
+  courseId,
+  sectionId,
+  onSectionChange,
+  onClose,
+}) => {
+  const { data: results } = usePollResults(assignmentId, pollData.id, sectionId);
+
+  const { data: sections = [] } = useQuery<Section[]>({
+    queryKey: ["courseSections", courseId],
+    queryFn: async () => {
+      const response = await apiClient.getCourseSections(courseId!);
+      return response.data.data || [];
+    },
+    enabled: !!courseId,
+  });
+
+  // Enter browser full-screen while open; Escape closes the view
+  useEffect(() => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, [onClose]);
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-background flex flex-col p-10 overflow-auto">
+      <div className="flex items-start justify-between gap-6 mb-8">
+        <ResolvedHtml
+          html={pollData.question}
+          className="prose dark:prose-invert max-w-none text-3xl font-semibold flex-1"
+        />
+        <div className="flex items-center gap-2">
+          {sections.length > 0 && (
+            <Select
+              value={sectionId ?? "all"}
+              onValueChange={(value) =>
+                onSectionChange(value === "all" ? null : value)
+              }
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All sections" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All sections</SelectItem>
+                {sections.map((section) => (
+                  <SelectItem key={section.id} value={section.id}>
+                    {section.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      </div>
+
+      {results?.visible && results.counts ? (
+        <>
+          <PollResultBars
+            options={pollData.options}
+            counts={results.counts}
+            totalResponses={results.totalResponses ?? 0}
+            size="lg"
+          />
+          <p className="mt-8 text-xl text-muted-foreground">
+            {results.totalResponses ?? 0} of {results.totalStudents ?? 0}{" "}
+            students responded
+            {results.isClosed && " · Poll closed"}
+          </p>
+        </>
+      ) : (
+        <p className="text-xl text-muted-foreground">Loading results...</p>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+export default PollResultsProjector;
@@ -1,9 +1,14 @@
 import React, { useState, memo, useEffect, useCallback } from "react";
 import { NodeViewWrapper } from "@tiptap/react";
 import { PollData } from "../../extensions/PollBlock";
-import { Check } from "lucide-react";
+import { Check, Lock, Presentation } from "lucide-react";
 import { useResolvedHtml } from "../../../hooks/useResolvedHtml";
+import { usePollResults } from "../../../hooks/usePollResults";
+import { useAssignmentContext } from "../../../contexts/AssignmentContext";
 import ResolvedHtml from "../../ResolvedHtml";
+import { Button } from "../../ui/button";
+import { PollResultBars } from "./PollResultBars";
+import PollResultsProjector from "./PollResultsProjector";
 
 interface PollViewerProps {
   node: any;
@@ -14,10 +19,14 @@ interface PollViewerProps {
 const PollViewer: React.FC<PollViewerProps> = memo(({ node, editor, onAnswerChange }) => {
   const pollData = node.attrs.pollData as PollData;
   const resolvedQuestion = useResolvedHtml(pollData.question || "");
+  const { assignmentId, courseId } = useAssignmentContext();
   const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
-  const [showResults, setShowResults] = useState(
-    pollData.showResults === "immediately"
-  );
+  // Last vote recorded in the answer state (what the server has or will have)
+  const [savedOptions, setSavedOptions] = useState<string[]>([]);
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [presentSectionId, setPresentSectionId] = useState<string | null>(null);
+
+  const { data: results } = usePollResults(assignmentId, pollData.id);
 
   // Load initial state from editor storage
   useEffect(() => {
@@ -26,12 +35,10 @@ const PollViewer: React.FC<PollViewerProps> = memo(({ node, editor, onAnswerChan
       const blockState = getBlockAnswerState(pollData.id);
       if (blockState && blockState.selectedOptions) {
         setSelectedOptions(blockState.selectedOptions);
-        if (pollData.showResults === "after-voting" && blockState.selectedOptions.length > 0) {
-          setShowResults(true);
-        }
+        setSavedOptions(blockState.selectedOptions);
       }
     }
-  }, [editor, pollData.id, pollData.showResults]);
+  }, [editor, pollData.id]);
 
   // Poll for answer state changes (for submission switching / async loading)
   useEffect(() => {
@@ -46,53 +53,64 @@ const PollViewer: React.FC<PollViewerProps> = memo(({ node, editor, onAnswerChan
         const blockState = getBlockAnswerState(pollData.id);
         const newOptions = blockState?.selectedOptions ?? [];
         setSelectedOptions(newOptions);
-        if (pollData.showResults === "after-voting" && newOptions.length > 0) {
-          setShowResults(true);
-        }
+        setSavedOptions(newOptions);
         (editor.storage as any)._lastPollProcessedVersion = currentVersion;
       }
     };
 
     const interval = setInterval(checkForUpdates, 100);
     return () => clearInterval(interval);
-  }, [editor, pollData.id, pollData.showResults]);
-
-  // Auto-save answer state when it changes
-  useEffect(() => {
-    if (selectedOptions.length === 0) return;
-
-    const setBlockAnswerState = (editor?.storage as any)?.setBlockAnswerState;
-    if (setBlockAnswerState && pollData.id) {
-      setBlockAnswerState(pollData.id, {
-        selectedOptions,
-        timestamp: new Date(),
-      });
-    }
+  }, [editor, pollData.id]);
+
+  const isReadOnly = !!(editor?.storage as any)?.isReadOnly;
+  const isClosed =
+    !!results?.isClosed ||
+    (!!pollData.closeDate && new Date(pollData.closeDate).getTime() <= Date.now());
+  // Mirrors the server: closed polls and cast votes without allowAnswerChange are final
+  const isLocked =
+    isReadOnly || isClosed || (!pollData.allowAnswerChange && savedOptions.length > 0);
+
+  // Record a vote in the answer state so it is saved with the submission
+  const commitVote = useCallback(
+    (options: string[]) => {
+      const setBlockAnswerState = (editor?.storage as any)?.setBlockAnswerState;
+      if (setBlockAnswerState && pollData.id) {
+        setBlockAnswerState(pollData.id, {
+          selectedOptions: options,
+          timestamp: new Date(),
+        });
+      }
 
-    // Notify parent component
-    const callback =
-      (editor?.storage as any)?.pollAnswerCallback || onAnswerChange;
-    callback?.(pollData.id, { selectedOptions });
+      // Notify parent component
+      const callback =
+        (editor?.storage as any)?.pollAnswerCallback || onAnswerChange;
+      callback?.(pollData.id, { selectedOptions: options });
 
-    if (pollData.showResults === "after-voting" && selectedOptions.length > 0) {
-      setShowResults(true);
-    }
-  }, [selectedOptions, pollData.id, pollData.showResults, editor, onAnswerChange]);
+      setSavedOptions(options);
+    },
+    [editor, pollData.id, onAnswerChange]
+  );
 
   const handleOptionToggle = useCallback((optionId: string) => {
-    const isReadOnly = (editor?.storage as any)?.isReadOnly;
-    if (isReadOnly) return;
-
-    if (pollData.selectionType === "single") {
-      setSelectedOptions([optionId]);
-    } else {
-      setSelectedOptions((prev) =>
-        prev.includes(optionId)
-          ? prev.filter((id) => id !== optionId)
-          : [...prev, optionId]
-      );
+    if (isLocked) return;
+
+    const next =
+      pollData.selectionType === "single"
+        ? [optionId]
+        : selectedOptions.includes(optionId)
+        ? selectedOptions.filter((id) => id !== optionId)
+        : [...selectedOptions, optionId];
+
+    setSelectedOptions(next);
+    // Votes that can be changed later are saved as they are made; final votes
+    // wait for an explicit submit
+    if (pollData.allowAnswerChange) {
+      commitVote(next);
     }
-  }, [pollData.selectionType, editor]);
+  }, [isLocked, pollData.selectionType, pollData.allowAnswerChange, selectedOptions, commitVote]);
+
+  const needsSubmit =
+    !pollData.allowAnswerChange && savedOptions.length === 0 && !isLocked;
 
   return (
     <NodeViewWrapper
@@ -102,10 +120,18 @@ const PollViewer: React.FC<PollViewerProps> = memo(({ node, editor, onAnswerChan
       contentEditable={false}
     >
       <div className="poll-viewer border border-border rounded-lg p-4 bg-card">
-        <div
-          className="prose dark:prose-invert max-w-none mb-4"
-          dangerouslySetInnerHTML={{ __html: resolvedQuestion }}
-        />
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div
+            className="prose dark:prose-invert max-w-none flex-1"
+            dangerouslySetInnerHTML={{ __html: resolvedQuestion }}
+          />
+          {results?.canPresent && assignmentId && (
+            <Button variant="outline" size="sm" onClick={() => setIsPresenting(true)}>
+              <Presentation className="w-4 h-4 mr-1" />
+              Present
+            </Button>
+          )}
+        </div>
         <div className="space-y-2 mb-4">
           {pollData.options.map((option, index) => {
             const isSelected = selectedOptions.includes(option.id);
@@ -116,13 +142,13 @@ const PollViewer: React.FC<PollViewerProps> = memo(({ node, editor, onAnswerChan
                   isSelected
                     ? "bg-blue-50 dark:bg-blue-900/30 border-blue-400 dark:border-blue-500"
                     : "bg-muted border-border hover:bg-accent"
-                } ${(editor?.storage as any)?.isReadOnly ? "cursor-not-allowed opacity-60" : ""}`}
+                } ${isLocked ? "cursor-not-allowed opacity-60" : ""}`}
               >
                 <input
                   type={pollData.selectionType === "single" ? "radio" : "checkbox"}
                   checked={isSelected}
                   onChange={() => handleOptionToggle(option.id)}
-                  disabled={(editor?.storage as any)?.isReadOnly}
+                  disabled={isLocked}
                   className="text-blue-600"
                 />
                 <ResolvedHtml
@@ -137,10 +163,65 @@ const PollViewer: React.FC<PollViewerProps> = memo(({ node, editor, onAnswerChan
             );
           })}
         </div>
+
+        {needsSubmit && (
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <span className="text-xs text-muted-foreground">
+              Your vote cannot be changed after submitting.
+            </span>
+            <Button
+              size="sm"
+              onClick={() => commitVote(selectedOptions)}
+              disabled={selectedOptions.length === 0}
+            >
+              Submit vote
+            </Button>
+          </div>
+        )}
+
+        {isClosed && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+            <Lock className="w-4 h-4" />
+            This poll is closed.
+          </div>
+        )}
+
+        {results?.visible && results.counts ? (
+          <div className="border-t border-border pt-4">
+            <PollResultBars
+              options={pollData.options}
+              counts={results.counts}
+              totalResponses={results.totalResponses ?? 0}
+              highlightedOptionIds={savedOptions}
+            />
+            <p className="text-xs text-muted-foreground mt-2">
+              {results.totalResponses ?? 0} response
+              {results.totalResponses !== 1 ? "s" : ""}
+            </p>
+          </div>
+        ) : (
+          results &&
+          pollData.showResults === "after-close" &&
+          !isClosed && (
+            <p className="text-xs text-muted-foreground">
+              Results will be shown after the poll closes.
+            </p>
+          )
+        )}
       </div>
+
+      {isPresenting && assignmentId && (
+        <PollResultsProjector
+          pollData={pollData}
+          assignmentId={assignmentId}
+          courseId={courseId}
+          sectionId={presentSectionId}
+          onSectionChange={setPresentSectionId}
+          onClose={() => setIsPresenting(false)}
+        />
+      )}
     </NodeViewWrapper>
   );
 });
 
 export default PollViewer;
-
@@ -9,32 +9,136 @@ export interface IDEBlockTabData {
   last_container_id: string | null;
 }
 
-export type IDELanguage = "python" | "java";
+export type IDELanguage =
+  | "python"
+  | "java"
+  | "c"
+  | "cpp"
+  | "javascript"
+  | "typescript"
+  | "go";
+
+export const IDE_LANGUAGES: IDELanguage[] = [
+  "python",
+  "java",
+  "c",
+  "cpp",
+  "javascript",
+  "typescript",
+  "go",
+];
+
+export type UnitTestFramework = "unittest" | "junit" | "gtest" | "jest" | "gotest";
+
+export const UNIT_TEST_FRAMEWORKS: UnitTestFramework[] = [
+  "unittest",
+  "junit",
+  "gtest",
+  "jest",
+  "gotest",
+];
+
+// File the Run button executes and framework new unit tests use, per language
+export const IDE_LANGUAGE_DEFAULTS: Record<
+  IDELanguage,
+  { runFile: string; framework: UnitTestFramework }
+> = {
+  python: { runFile: "main.py", framework: "unittest" },
+  java: { runFile: "Main.java", framework: "junit" },
+  c: { runFile: "main.c", framework: "gtest" },
+  cpp: { runFile: "main.cpp", framework: "gtest" },
+  javascript: { runFile: "main.js", framework: "jest" },
+  typescript: { runFile: "main.ts", framework: "jest" },
+  go: { runFile: "main.go", framework: "gotest" },
+};
+
+const isIDELanguage = (value: any): value is IDELanguage =>
+  IDE_LANGUAGES.includes(value);
+
+// Container sizes instructors can pick; the backend defines the resources
+// of each and applies organization caps
+export type IDEResourceProfile = "light" | "standard" | "gui" | "data_science";
+
+export const IDE_RESOURCE_PROFILES: IDEResourceProfile[] = [
+  "light",
+  "standard",
+  "gui",
+  "data_science",
+];
+
+const isIDEResourceProfile = (value: any): value is IDEResourceProfile =>
+  IDE_RESOURCE_PROFILES.includes(value);
 
 export interface IDEBlockSettings {
   default_run_file: string;
   language?: IDELanguage; // Optional - must be selected before starting
+  resource_profile?: IDEResourceProfile; // "standard" when unset
 }
 
 // Test case types
 export type TestCaseType = "inputOutput" | "unitTest" | "manualGrading";
 
-export interface InputOutputTestCase {
+// Per-test execution limits and visibility for tests the container runs
+export interface ExecutableTestOptions {
+  timeLimitSeconds?: number; // Defaults to 30 seconds in the container
+  memoryLimitMb?: number; // No memory limit when unset
+  hidden?: boolean; // Not sent to students; only run when grading
+}
+
+export const DEFAULT_TEST_TIME_LIMIT_SECONDS = 30;
+export const MAX_TEST_TIME_LIMIT_SECONDS = 300;
+export const MIN_TEST_MEMORY_LIMIT_MB = 16;
+
+const isValidTimeLimit = (value: any): value is number =>
+  typeof value === "number" &&
+  value >= 1 &&
+  value <= MAX_TEST_TIME_LIMIT_SECONDS;
+
+const isValidMemoryLimit = (value: any): value is number =>
+  typeof value === "number" && value >= MIN_TEST_MEMORY_LIMIT_MB;
+
+// How an input/output test compares program output with expectedOutput.
+// "exact" ignores only leading and trailing whitespace.
+export type OutputComparisonMode =
+  | "exact"
+  | "ignoreWhitespace"
+  | "ignoreCase"
+  | "floatTolerance"
+  | "regex"
+  | "unorderedLines"
+  | "customChecker";
+
+export const OUTPUT_COMPARISON_MODES: OutputComparisonMode[] = [
+  "exact",
+  "ignoreWhitespace",
+  "ignoreCase",
+  "floatTolerance",
+  "regex",
+  "unorderedLines",
+  "customChecker",
+];
+
+export const DEFAULT_FLOAT_TOLERANCE = 1e-6;
+
+export interface InputOutputTestCase extends ExecutableTestOptions {
   id: string;
   name: string;
   type: "inputOutput";
   input: string;
-  expectedOutput: string;
+  expectedOutput: string; // A regular expression in "regex" mode
   points: number;
+  comparison?: OutputComparisonMode; // Defaults to "exact"
+  floatTolerance?: number; // Absolute and relative tolerance for "floatTolerance"
+  checkerScript?: string; // Python checker for "customChecker", run as checker.py INPUT EXPECTED ACTUAL
 }
 
-export interface UnitTestCase {
+export interface UnitTestCase extends ExecutableTestOptions {
   id: string;
   name: string;
   type: "unitTest";
   code: string;
   points: number;
-  framework?: "junit" | "unittest"; // Unit testing framework
+  framework?: UnitTestFramework; // Unit testing framework
 }
 
 export interface ManualGradingTestCase {
@@ -46,6 +150,16 @@ export interface ManualGradingTestCase {
 
 export type TestCase = InputOutputTestCase | UnitTestCase | ManualGradingTestCase;
 
+// Outcome of one executed test, as reported by the container's /run-tests
+export type TestResultStatus =
+  | "passed"
+  | "failed"
+  | "timeout"
+  | "memoryLimit"
+  | "runtimeError"
+  | "compileError"
+  | "error";
+
 export interface IDEBlockAutograder {
   tests: TestCase[];
   allowStudentCheckAnswer?: boolean; // Whether students can check their answers
@@ -119,9 +233,19 @@ export const validateIDEBlockData = (
     }
     if (
       data.settings.language !== undefined &&
-      !["python", "java"].includes(data.settings.language)
+      !isIDELanguage(data.settings.language)
+    ) {
+      errors.push(
+        `IDE block settings.language must be one of: ${IDE_LANGUAGES.join(", ")}`
+      );
+    }
+    if (
+      data.settings.resource_profile !== undefined &&
+      !isIDEResourceProfile(data.settings.resource_profile)
     ) {
-      errors.push("IDE block settings.language must be 'python' or 'java'");
+      errors.push(
+        `IDE block settings.resource_profile must be one of: ${IDE_RESOURCE_PROFILES.join(", ")}`
+      );
     }
   }
 
@@ -182,12 +306,41 @@ export const validateIDEBlockData = (
             if (typeof test.expectedOutput !== "string") {
               errors.push(`IDE block autograder.tests[${index}].expectedOutput must be a string`);
             }
+            if (test.comparison !== undefined && !OUTPUT_COMPARISON_MODES.includes(test.comparison)) {
+              errors.push(`IDE block autograder.tests[${index}].comparison must be one of: ${OUTPUT_COMPARISON_MODES.join(", ")}`);
+            }
+            if (
+              test.floatTolerance !== undefined &&
+              (typeof test.floatTolerance !== "number" || test.floatTolerance < 0)
+            ) {
+              errors.push(`IDE block autograder.tests[${index}].floatTolerance must be a number >= 0`);
+            }
+            if (test.comparison === "customChecker" && typeof test.checkerScript !== "string") {
+              errors.push(`IDE block autograder.tests[${index}].checkerScript must be a string`);
+            }
           } else if (test.type === "unitTest") {
             if (typeof test.code !== "string") {
               errors.push(`IDE block autograder.tests[${index}].code must be a string`);
             }
-            if (test.framework !== undefined && !["junit", "unittest"].includes(test.framework)) {
-              errors.push(`IDE block autograder.tests[${index}].framework must be one of: junit, unittest`);
+            if (test.framework !== undefined && !UNIT_TEST_FRAMEWORKS.includes(test.framework)) {
+              errors.push(`IDE block autograder.tests[${index}].framework must be one of: ${UNIT_TEST_FRAMEWORKS.join(", ")}`);
+            }
+          }
+          if (test.type === "inputOutput" || test.type === "unitTest") {
+            if (
+              test.timeLimitSeconds !== undefined &&
+              !isValidTimeLimit(test.timeLimitSeconds)
+            ) {
+              errors.push(`IDE block autograder.tests[${index}].timeLimitSeconds must be a number between 1 and ${MAX_TEST_TIME_LIMIT_SECONDS}`);
+            }
+            if (
+              test.memoryLimitMb !== undefined &&
+              !isValidMemoryLimit(test.memoryLimitMb)
+            ) {
+              errors.push(`IDE block autograder.tests[${index}].memoryLimitMb must be a number >= ${MIN_TEST_MEMORY_LIMIT_MB}`);
+            }
+            if (test.hidden !== undefined && typeof test.hidden !== "boolean") {
+              errors.push(`IDE block autograder.tests[${index}].hidden must be a boolean`);
             }
           }
         });
@@ -247,11 +400,16 @@ export const sanitizeIDEBlockData = (data: any): IDEBlockData => {
       default_run_file:
         data.settings?.default_run_file && typeof data.settings.default_run_file === "string"
           ? data.settings.default_run_file
-          : data.settings?.language === "java" ? "Main.java" : "main.py",
+          : isIDELanguage(data.settings?.language)
+          ? IDE_LANGUAGE_DEFAULTS[data.settings.language as IDELanguage].runFile
+          : "main.py",
       // language is optional - only set if valid, otherwise undefined (user must select)
-      ...(data.settings?.language && ["python", "java"].includes(data.settings.language)
+      ...(isIDELanguage(data.settings?.language)
         ? { language: data.settings.language }
         : {}),
+      ...(isIDEResourceProfile(data.settings?.resource_profile)
+        ? { resource_profile: data.settings.resource_profile }
+        : {}),
     },
     autograder: data.autograder && typeof data.autograder === "object" && Array.isArray(data.autograder.tests)
       ? {
@@ -269,13 +427,37 @@ export const sanitizeIDEBlockData = (data: any): IDEBlockData => {
             if (sanitizedTest.type === "inputOutput") {
               sanitizedTest.input = typeof test.input === "string" ? test.input : "";
               sanitizedTest.expectedOutput = typeof test.expectedOutput === "string" ? test.expectedOutput : "";
+              if (OUTPUT_COMPARISON_MODES.includes(test.comparison) && test.comparison !== "exact") {
+                sanitizedTest.comparison = test.comparison;
+              }
+              if (test.comparison === "floatTolerance") {
+                sanitizedTest.floatTolerance =
+                  typeof test.floatTolerance === "number" && test.floatTolerance >= 0
+                    ? test.floatTolerance
+                    : DEFAULT_FLOAT_TOLERANCE;
+              }
+              if (test.comparison === "customChecker") {
+                sanitizedTest.checkerScript = typeof test.checkerScript === "string" ? test.checkerScript : "";
+              }
             } else if (sanitizedTest.type === "unitTest") {
               sanitizedTest.code = typeof test.code === "string" ? test.code : "";
-              sanitizedTest.framework = test.framework && ["junit", "unittest"].includes(test.framework)
+              sanitizedTest.framework = UNIT_TEST_FRAMEWORKS.includes(test.framework)
                 ? test.framework
                 : "unittest";
             }
 
+            if (sanitizedTest.type !== "manualGrading") {
+              if (isValidTimeLimit(test.timeLimitSeconds)) {
+                sanitizedTest.timeLimitSeconds = test.timeLimitSeconds;
+              }
+              if (isValidMemoryLimit(test.memoryLimitMb)) {
+                sanitizedTest.memoryLimitMb = test.memoryLimitMb;
+              }
+              if (test.hidden === true) {
+                sanitizedTest.hidden = true;
+              }
+            }
+
             return sanitizedTest;
           }),
           allowStudentCheckAnswer: typeof data.autograder.allowStudentCheckAnswer === "boolean"
@@ -49,3 +49,15 @@ export const isEmptyContent = (html: string): boolean => {
   return textContent.trim() === "";
 };
 
+
+/**
+ * Convert an ISO date string to a datetime-local input value in the
+ * browser's timezone (used for block close dates).
+ */
+export const toDateTimeLocal = (iso?: string): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
@@ -6,6 +6,8 @@ interface AssignmentContextType {
   previewMode: boolean;
   studentId: string | null;
   snapshotBucketMap: Record<string, string> | null; // blockId -> snapshotBucketId
+  submissionId: string | null; // Submission being viewed or graded
+  canAnnotate: boolean; // Whether the viewer may add code annotations
 }
 
 const AssignmentContext = createContext<AssignmentContextType | undefined>(undefined);
@@ -14,7 +16,7 @@ export const useAssignmentContext = () => {
   const context = useContext(AssignmentContext);
   // Return undefined values if not within provider (graceful fallback)
   if (!context) {
-    return { courseId: null, assignmentId: null, previewMode: false, studentId: null, snapshotBucketMap: null };
+    return { courseId: null, assignmentId: null, previewMode: false, studentId: null, snapshotBucketMap: null, submissionId: null, canAnnotate: false };
   }
   return context;
 };
@@ -26,6 +28,8 @@ interface AssignmentProviderProps {
   previewMode?: boolean;
   studentId?: string | null;
   snapshotBucketMap?: Record<string, string> | null;
+  submissionId?: string | null;
+  canAnnotate?: boolean;
 }
 
 export const AssignmentProvider: React.FC<AssignmentProviderProps> = ({
@@ -35,6 +39,8 @@ export const AssignmentProvider: React.FC<AssignmentProviderProps> = ({
   previewMode = false,
   studentId = null,
   snapshotBucketMap = null,
+  submissionId = null,
+  canAnnotate = false,
 }) => {
   const value: AssignmentContextType = {
     courseId,
@@ -42,6 +48,8 @@ export const AssignmentProvider: React.FC<AssignmentProviderProps> = ({
     previewMode,
     studentId,
     snapshotBucketMap,
+    submissionId,
+    canAnnotate,
   };
 
   return (
@@ -0,0 +1,75 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiClient } from "../lib/api";
+import { CodeAnnotation, NewCodeAnnotation } from "../types";
+
+/** SHA-256 of a file's content, used as the revision an annotation is anchored to. */
+export async function hashFileRevision(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(content)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Grader comments on the files of one IDE block of a submission. Students
+ * get an empty list until their grade is returned.
+ */
+export function useCodeAnnotations(
+  submissionId: string | null,
+  blockId: string
+) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery<CodeAnnotation[]>({
+    queryKey: ["codeAnnotations", submissionId, blockId],
+    queryFn: async () => {
+      const response = await apiClient.getCodeAnnotations(
+        submissionId!,
+        blockId
+      );
+      return response.data.annotations || [];
+    },
+    enabled: !!submissionId,
+  });
+
+  const addAnnotation = useCallback(
+    async (
+      annotation: Omit<NewCodeAnnotation, "block_id" | "file_revision">,
+      fileContent: string
+    ) => {
+      const response = await apiClient.createCodeAnnotation(submissionId!, {
+        ...annotation,
+        block_id: blockId,
+        file_revision: await hashFileRevision(fileContent),
+      });
+      queryClient.setQueryData(
+        ["codeAnnotations", submissionId, blockId],
+        (prev: CodeAnnotation[] | undefined) => [...(prev || []), response.data]
+      );
+    },
+    [submissionId, blockId, queryClient]
+  );
+
+  const deleteAnnotation = useCallback(
+    async (id: string) => {
+      await apiClient.deleteCodeAnnotation(id);
+      queryClient.setQueryData(
+        ["codeAnnotations", submissionId, blockId],
+        (prev: CodeAnnotation[] | undefined) =>
+          (prev || []).filter((annotation) => annotation.id !== id)
+      );
+    },
+    [submissionId, blockId, queryClient]
+  );
+
+  return {
+    annotations: query.data || [],
+    isLoading: query.isLoading,
+    addAnnotation,
+    deleteAnnotation,
+  };
+}
@@ -60,6 +60,20 @@ export function useSubmissionUpdates(assignmentId: string, courseId: string) {
   }, [courseId, assignmentId, queryClient]);
 }
 
+/**
+ * Hook to fetch how an assignment's grading is distributed across staff
+ */
+export function useGradingAssignments(assignmentId: string) {
+  return useQuery({
+    queryKey: ["grading-assignments", assignmentId],
+    queryFn: async () => {
+      const response = await apiClient.getGradingAssignments(assignmentId);
+      return response.data;
+    },
+    enabled: !!assignmentId,
+  });
+}
+
 /**
  * Hook to fetch course sections
  */
@@ -0,0 +1,60 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { io } from "socket.io-client";
+import { apiClient } from "../lib/api";
+import { PollResultsResponse } from "../types";
+
+const getBaseURL = () => {
+  const apiUrl =
+    import.meta.env.VITE_API_BASE_URL || "http://localhost:8000/api";
+  return apiUrl.replace(/\/api$/, "") || "http://localhost:8000";
+};
+
+/**
+ * Aggregated results for a poll block, refetched whenever the server reports
+ * a vote change over the course-tree socket.
+ */
+export function usePollResults(
+  assignmentId: string | null,
+  blockId: string,
+  sectionId: string | null = null
+) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery<PollResultsResponse>({
+    queryKey: ["pollResults", assignmentId, blockId, sectionId],
+    queryFn: async () => {
+      const response = await apiClient.getPollResults(assignmentId!, blockId, {
+        section_id: sectionId ?? undefined,
+      });
+      return response.data;
+    },
+    enabled: !!assignmentId && !!blockId,
+  });
+
+  useEffect(() => {
+    if (!assignmentId || !blockId) return;
+
+    const socket = io(`${getBaseURL()}/course-tree`, {
+      transports: ["websocket", "polling"],
+      withCredentials: true,
+    });
+
+    socket.on("connect", () => {
+      socket.emit("join-poll", { assignmentId, blockId });
+    });
+
+    socket.on("poll-results-update", () => {
+      queryClient.invalidateQueries({
+        queryKey: ["pollResults", assignmentId, blockId],
+      });
+    });
+
+    return () => {
+      socket.emit("leave-poll", { assignmentId, blockId });
+      socket.disconnect();
+    };
+  }, [assignmentId, blockId, queryClient]);
+
+  return query;
+}
@@ -3,10 +3,26 @@ import type {
   SubmissionWithStudent,
   GradebookData,
   StudentGradesData,
+  AttemptHistory,
+  GradeImportResult,
   Grader,
   CreateGraderWithSubmissionRequest,
   CreateGraderWithSubmissionResponse,
   AutogradeResponse,
+  DiscussionPost,
+  DiscussionPostsResponse,
+  PollResultsResponse,
+  NewCodeAnnotation,
+  RegradeRequest,
+  RegradeRequestStatus,
+  GraderScoreChange,
+  DistributionStrategy,
+  GradingDistribution,
+  GradingSuggestion,
+  SimilarityPairDetail,
+  SimilarityReport,
+  IDEResourceCaps,
+  IDEResourceProfilesResponse,
 } from "../types";
 
 const API_BASE_URL =
@@ -381,6 +397,57 @@ export const apiClient = {
   duplicateAssignment: (id: string) => api.post(`/assignment/${id}/duplicate`),
   cloneAssignmentToCourse: (id: string, targetCourseId: string) =>
     api.post(`/assignment/${id}/clone-to-course`, { targetCourseId }),
+  revealBlindGrading: (id: string) =>
+    api.post(`/assignment/${id}/blind-grading/reveal`),
+  releaseGrades: (
+    id: string,
+    releaseAt?: string
+  ): Promise<
+    AxiosResponse<{ released: number; scheduledFor: string | null }>
+  > =>
+    api.post(`/assignment/${id}/grades/release`, {
+      release_at: releaseAt ?? null,
+    }),
+  cancelGradeRelease: (id: string) =>
+    api.delete(`/assignment/${id}/grades/release`),
+  getGradingAssignments: (
+    id: string
+  ): Promise<AxiosResponse<GradingDistribution>> =>
+    api.get(`/assignment/${id}/grading-assignments`),
+  distributeGrading: (
+    id: string,
+    data: {
+      strategy: DistributionStrategy;
+      assignee_ids: string[];
+      block_ids?: string[];
+    }
+  ): Promise<AxiosResponse<GradingDistribution>> =>
+    api.post(`/assignment/${id}/grading-assignments/distribute`, data),
+  reassignGrading: (
+    id: string,
+    data: { from_assignee_id: string; to_assignee_ids?: string[] }
+  ): Promise<AxiosResponse<GradingDistribution>> =>
+    api.post(`/assignment/${id}/grading-assignments/reassign`, data),
+  clearGradingAssignments: (id: string) =>
+    api.delete(`/assignment/${id}/grading-assignments`),
+  startSimilarityReport: (
+    id: string,
+    data: { block_id: string; include_prior_terms: boolean }
+  ): Promise<AxiosResponse<SimilarityReport>> =>
+    api.post(`/assignment/${id}/similarity-reports`, data),
+  getLatestSimilarityReport: (
+    id: string,
+    blockId: string
+  ): Promise<AxiosResponse<SimilarityReport | null>> =>
+    api.get(`/assignment/${id}/similarity-reports/latest`, {
+      params: { block_id: blockId },
+    }),
+  getSimilarityPair: (
+    id: string,
+    reportId: string,
+    index: number
+  ): Promise<AxiosResponse<SimilarityPairDetail>> =>
+    api.get(`/assignment/${id}/similarity-reports/${reportId}/pairs/${index}`),
 
   // Submission endpoints
   getSubmission: (id: string) => api.get(`/submission/${id}`),
@@ -390,6 +457,10 @@ export const apiClient = {
     assignmentId: string
   ): Promise<AxiosResponse<SubmissionWithStudent[]>> =>
     api.get(`/submissions/by-assignment/${assignmentId}/with-students`),
+  getAttemptHistory: (
+    assignmentId: string
+  ): Promise<AxiosResponse<AttemptHistory>> =>
+    api.get(`/submissions/by-assignment/${assignmentId}/attempts`),
   createOrUpdateSubmission: (data: {
     assignment_id: string;
     values: Record<string, any>;
@@ -429,12 +500,37 @@ export const apiClient = {
     submissionId: string
   ): Promise<AxiosResponse<Grader[]>> =>
     api.get(`/graders/by-submission/${submissionId}`),
+  setBlockScores: (
+    assignmentId: string,
+    blockId: string,
+    data: { submission_ids: string[]; awarded: number }
+  ): Promise<AxiosResponse<Grader[]>> =>
+    api.put(`/assignment/${assignmentId}/blocks/${blockId}/scores`, data),
 
   // Gradebook endpoints
   getCourseGradebook: (
     courseId: string
   ): Promise<AxiosResponse<GradebookData>> =>
     api.get(`/course/${courseId}/gradebook`),
+  exportGradebook: (
+    courseId: string,
+    format: "csv" | "xlsx",
+    section?: string | null
+  ) =>
+    api.get(`/course/${courseId}/gradebook/export`, {
+      params: { format, ...(section ? { section } : {}) },
+      responseType: "blob",
+    }),
+  importGrades: (
+    courseId: string,
+    data: {
+      assignmentId: string;
+      csv: string;
+      scoreColumn?: string;
+      dryRun: boolean;
+    }
+  ): Promise<AxiosResponse<GradeImportResult>> =>
+    api.post(`/course/${courseId}/gradebook/import`, data),
   getStudentGrades: (
     courseId: string
   ): Promise<AxiosResponse<StudentGradesData>> =>
@@ -450,6 +546,50 @@ export const apiClient = {
   checkMCQAnswer: (assignmentId: string, blockId: string, selectedOptions: string[]) =>
     api.post(`/blocks/check-answer/${assignmentId}/${blockId}`, { selectedOptions }),
 
+  // Discussion block endpoints
+  getDiscussionPosts: (
+    assignmentId: string,
+    blockId: string,
+    params?: { status?: "pending" | "approved" | "rejected" }
+  ): Promise<AxiosResponse<DiscussionPostsResponse>> =>
+    api.get(`/assignment/${assignmentId}/discussions/${blockId}/posts`, {
+      params,
+    }),
+  createDiscussionPost: (
+    assignmentId: string,
+    blockId: string,
+    data: { content: string; parentId?: string; isAnonymous?: boolean }
+  ): Promise<AxiosResponse<DiscussionPost>> =>
+    api.post(`/assignment/${assignmentId}/discussions/${blockId}/posts`, data),
+  moderateDiscussionPost: (
+    assignmentId: string,
+    blockId: string,
+    postId: string,
+    status: "approved" | "rejected"
+  ): Promise<AxiosResponse<DiscussionPost>> =>
+    api.put(
+      `/assignment/${assignmentId}/discussions/${blockId}/posts/${postId}/moderation`,
+      { status }
+    ),
+  toggleDiscussionVote: (
+    assignmentId: string,
+    blockId: string,
+    postId: string
+  ): Promise<AxiosResponse<{ vote_count: number; has_voted: boolean }>> =>
+    api.post(
+      `/assignment/${assignmentId}/discussions/${blockId}/posts/${postId}/vote`
+    ),
+  deleteDiscussionPost: (assignmentId: string, blockId: string, postId: string) =>
+    api.delete(`/assignment/${assignmentId}/discussions/${blockId}/posts/${postId}`),
+
+  // Poll block endpoints
+  getPollResults: (
+    assignmentId: string,
+    blockId: string,
+    params?: { section_id?: string }
+  ): Promise<AxiosResponse<PollResultsResponse>> =>
+    api.get(`/assignment/${assignmentId}/polls/${blockId}/results`, { params }),
+
   // Autograding endpoints
   autogradeSubmission: (
     submissionId: string
@@ -487,15 +627,75 @@ export const apiClient = {
     submission_id: string;
     rubric_schema_id: string;
     values: number[];
+    comments?: string[];
   }) => api.post("/rubric", data),
-  updateRubric: (id: string, data: { values: number[] }) =>
+  updateRubric: (id: string, data: { values: number[]; comments?: string[] }) =>
     api.put(`/rubric/${id}`, data),
 
+  // Comment bank endpoints
+  getCommentBank: (courseId: string) =>
+    api.get(`/course/${courseId}/comment-bank`),
+  createBankComment: (courseId: string, data: { text: string; points?: number }) =>
+    api.post(`/course/${courseId}/comment-bank`, data),
+  updateBankComment: (id: string, data: { text?: string; points?: number }) =>
+    api.put(`/comment-bank/${id}`, data),
+  deleteBankComment: (id: string) => api.delete(`/comment-bank/${id}`),
+  recordBankCommentUse: (id: string) => api.post(`/comment-bank/${id}/use`),
+
+  // Code annotation endpoints
+  getCodeAnnotations: (submissionId: string, blockId?: string) =>
+    api.get(`/submission/${submissionId}/annotations`, {
+      params: blockId ? { block_id: blockId } : undefined,
+    }),
+  createCodeAnnotation: (submissionId: string, data: NewCodeAnnotation) =>
+    api.post(`/submission/${submissionId}/annotations`, data),
+  updateCodeAnnotation: (id: string, data: Partial<NewCodeAnnotation>) =>
+    api.put(`/annotations/${id}`, data),
+  deleteCodeAnnotation: (id: string) => api.delete(`/annotations/${id}`),
+
+  // Regrade request endpoints
+  getRegradeRequests: (
+    submissionId: string
+  ): Promise<AxiosResponse<RegradeRequest[]>> =>
+    api.get(`/submission/${submissionId}/regrade-requests`),
+  createRegradeRequest: (
+    submissionId: string,
+    data: {
+      block_id?: string;
+      rubric_item_index?: number;
+      reason: string;
+    }
+  ): Promise<AxiosResponse<RegradeRequest>> =>
+    api.post(`/submission/${submissionId}/regrade-requests`, data),
+  getCourseRegradeRequests: (
+    courseId: string,
+    params?: { status?: RegradeRequestStatus | "all"; assignment_id?: string }
+  ): Promise<AxiosResponse<RegradeRequest[]>> =>
+    api.get(`/course/${courseId}/regrade-requests`, { params }),
+  resolveRegradeRequest: (
+    id: string,
+    data: {
+      status: "accepted" | "rejected";
+      response?: string;
+      score_modifier?: number;
+    }
+  ): Promise<AxiosResponse<RegradeRequest>> =>
+    api.put(`/regrade-requests/${id}`, data),
+  getGraderScoreHistory: (
+    graderId: string
+  ): Promise<AxiosResponse<GraderScoreChange[]>> =>
+    api.get(`/grader/${graderId}/score-history`),
+
   // AI endpoints (uses separate axios instance with no timeout)
   generateModelSolution: (assignmentId: string, ideBlockId: string) =>
     aiApi.post("/ai/generate-model-solution", { assignmentId, ideBlockId }),
   generateUnitTests: (assignmentId: string, ideBlockId: string) =>
     aiApi.post("/ai/generate-unit-tests", { assignmentId, ideBlockId }),
+  suggestGrade: (
+    submissionId: string,
+    blockId: string
+  ): Promise<AxiosResponse<GradingSuggestion>> =>
+    aiApi.post("/ai/suggest-grade", { submissionId, blockId }),
 
   // IDE Block endpoints
   startIDEContainer: (data: {
@@ -520,6 +720,18 @@ export const apiClient = {
     }
     return api.get(`/ide-blocks/container/${containerId}`, { headers });
   },
+  cancelIDEAdmission: (ticketId: string, useLocalIDE?: boolean) => {
+    const headers: Record<string, string> = {};
+    if (useLocalIDE) {
+      headers["X-IDE-Environment"] = "local";
+    }
+    return api.delete(`/ide-blocks/admission/${ticketId}`, { headers });
+  },
+  // URL for an EventSource following a queued container start
+  getIDEAdmissionStreamUrl: (ticketId: string, useLocalIDE?: boolean) =>
+    `${API_BASE_URL}/ide-blocks/admission/${ticketId}/stream${
+      useLocalIDE ? "?environment=local" : ""
+    }`,
   stopIDEContainer: (containerId: string, useLocalIDE?: boolean) => {
     const headers: Record<string, string> = {};
     if (useLocalIDE) {
@@ -527,6 +739,10 @@ export const apiClient = {
     }
     return containerApi.post(`/ide-blocks/stop-container/${containerId}`, {}, { headers });
   },
+  getIDEResourceProfiles: (
+    courseId: string
+  ): Promise<AxiosResponse<IDEResourceProfilesResponse>> =>
+    api.get("/ide-blocks/resource-profiles", { params: { courseId } }),
   listS3Buckets: (params?: {
     user_id?: string;
     course_id?: string;
@@ -616,6 +832,7 @@ export const apiClient = {
     id: string,
     data: {
       name?: string;
+      settings?: { ideResourceCaps?: IDEResourceCaps | null };
     }
   ) => api.put(`/organization/${id}`, data),
   deleteOrganization: (id: string) => api.delete(`/organization/${id}`),
@@ -752,6 +969,9 @@ export const apiClient = {
     getContainers: (params?: { status?: string; limit?: number; offset?: number }) =>
       api.get("/admin/ide/containers", { params }),
     getQueueStats: () => api.get("/admin/ide/queue/stats"),
+    getQueueForecast: () => api.get("/admin/ide/queue/forecast"),
+    getNetworkPolicyAudit: (limit?: number) =>
+      api.get("/admin/ide/network-policy/audit", { params: { limit } }),
     killContainer: (id: string) => api.delete(`/admin/ide/containers/${id}`),
     containerAction: (id: string, action: "stop" | "restart" | "delete") =>
       api.post(`/admin/ide/containers/${id}/action`, { action }),
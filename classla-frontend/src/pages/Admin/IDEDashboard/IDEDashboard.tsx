@@ -42,8 +42,14 @@ import type {
   ContainerInfo,
   DashboardOverview,
   QueueStats,
+  QueueForecast,
+  NetworkPolicyAuditEntry,
 } from "../../../types/adminIde";
 import LoadTestPanel from "./LoadTestPanel";
+import PrewarmForecastPanel from "./PrewarmForecastPanel";
+import NetworkPolicyAuditPanel, {
+  NetworkPolicyBadge,
+} from "./NetworkPolicyAuditPanel";
 
 // Helper function to format bytes to human readable
 const formatBytes = (bytes: number): string => {
@@ -197,6 +203,10 @@ const IDEDashboard: React.FC = () => {
   const [overview, setOverview] = useState<DashboardOverview | null>(null);
   const [containers, setContainers] = useState<ContainerInfo[]>([]);
   const [queueStats, setQueueStats] = useState<QueueStats | null>(null);
+  const [forecast, setForecast] = useState<QueueForecast | null>(null);
+  const [networkPolicyAudit, setNetworkPolicyAudit] = useState<
+    NetworkPolicyAuditEntry[] | null
+  >(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [killDialogOpen, setKillDialogOpen] = useState(false);
@@ -205,15 +215,21 @@ const IDEDashboard: React.FC = () => {
 
   const fetchData = useCallback(async () => {
     try {
-      const [overviewRes, containersRes, queueRes] = await Promise.all([
-        apiClient.adminIde.getOverview(),
-        apiClient.adminIde.getContainers({ status: "running" }),
-        apiClient.adminIde.getQueueStats(),
-      ]);
+      const [overviewRes, containersRes, queueRes, forecastRes, auditRes] =
+        await Promise.all([
+          apiClient.adminIde.getOverview(),
+          apiClient.adminIde.getContainers({ status: "running" }),
+          apiClient.adminIde.getQueueStats(),
+          // The forecast and audit are optional; don't fail the dashboard without them
+          apiClient.adminIde.getQueueForecast().catch(() => null),
+          apiClient.adminIde.getNetworkPolicyAudit(50).catch(() => null),
+        ]);
 
       setOverview(overviewRes.data);
       setContainers(containersRes.data.containers || containersRes.data || []);
       setQueueStats(queueRes.data);
+      setForecast(forecastRes?.data ?? null);
+      setNetworkPolicyAudit(auditRes?.data?.entries ?? null);
     } catch (error: any) {
       console.error("Failed to fetch IDE dashboard data:", error);
       toast({
@@ -366,6 +382,9 @@ const IDEDashboard: React.FC = () => {
       {/* Container Stats */}
       <StatsOverview overview={overview} queueStats={queueStats} />
 
+      {/* Pre-warm Forecast */}
+      {forecast && <PrewarmForecastPanel forecast={forecast} />}
+
       {/* Load Test Panel */}
       <LoadTestPanel />
 
@@ -390,6 +409,7 @@ const IDEDashboard: React.FC = () => {
                   <TableHead>Container ID</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>S3 Bucket</TableHead>
+                  <TableHead>Network</TableHead>
                   <TableHead>Uptime</TableHead>
                   <TableHead>URLs</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
@@ -413,6 +433,13 @@ const IDEDashboard: React.FC = () => {
                         <span className="text-muted-foreground">Pre-warmed</span>
                       )}
                     </TableCell>
+                    <TableCell>
+                      {container.s3Bucket ? (
+                        <NetworkPolicyBadge policy={container.networkPolicy} />
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
                     <TableCell>{getUptime(container)}</TableCell>
                     <TableCell>
                       {container.urls?.codeServer && (
@@ -444,6 +471,11 @@ const IDEDashboard: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Network Policy Audit */}
+      {networkPolicyAudit && (
+        <NetworkPolicyAuditPanel entries={networkPolicyAudit} />
+      )}
+
       {/* Kill Confirmation Dialog */}
       <AlertDialog open={killDialogOpen} onOpenChange={setKillDialogOpen}>
         <AlertDialogContent>
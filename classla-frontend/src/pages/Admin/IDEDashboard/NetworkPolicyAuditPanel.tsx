@@ -0,0 +1,125 @@
+import React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../../components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../../components/ui/table";
+import { Badge } from "../../../components/ui/badge";
+import type {
+  NetworkPolicyAuditEntry,
+  NetworkPolicyMode,
+  NetworkPolicyStatus,
+} from "../../../types/adminIde";
+
+const MODE_LABELS: Record<NetworkPolicyMode, string> = {
+  none: "No network",
+  allowlist: "Allowlist",
+  full: "Full",
+};
+
+const STATUS_CLASSES: Record<NetworkPolicyStatus, string> = {
+  applied: "",
+  requested: "border-amber-300 text-amber-700 dark:text-amber-400",
+  failed: "border-red-300 text-red-700 dark:text-red-400",
+};
+
+// Network access of one container; full access when no policy was requested
+export const NetworkPolicyBadge: React.FC<{
+  policy?: {
+    mode: NetworkPolicyMode;
+    allowlist?: string[];
+    status?: NetworkPolicyStatus;
+  } | null;
+}> = ({ policy }) => {
+  const mode = policy?.mode ?? "full";
+  const status = policy?.status ?? "applied";
+  return (
+    <Badge
+      variant={mode === "full" ? "outline" : "secondary"}
+      className={STATUS_CLASSES[status]}
+      title={policy?.allowlist?.join(", ")}
+    >
+      {MODE_LABELS[mode]}
+      {status !== "applied" && ` (${status})`}
+    </Badge>
+  );
+};
+
+// Recent network policies applied to IDE containers, for auditing exams
+const NetworkPolicyAuditPanel: React.FC<{
+  entries: NetworkPolicyAuditEntry[];
+}> = ({ entries }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Network Policy Audit</CardTitle>
+      <CardDescription>
+        Network access applied to IDE containers, newest first. Lockdown
+        assignments default to no network.
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No network policies recorded yet.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Container ID</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Policy</TableHead>
+              <TableHead>Applied</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="text-sm">
+                  {new Date(entry.recordedAt).toLocaleString()}
+                </TableCell>
+                <TableCell className="font-mono text-sm">
+                  {entry.containerId.substring(0, 12)}...
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {entry.userId ? (
+                    <span title={entry.userId}>
+                      {entry.userId.substring(0, 8)}...
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">Unknown</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <NetworkPolicyBadge
+                    policy={{ ...entry.policy, status: entry.status }}
+                  />
+                </TableCell>
+                <TableCell className="text-sm">
+                  {entry.source === "assignment" ? "On assignment" : "At boot"}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {entry.error || entry.policy.allowlist?.join(", ")}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default NetworkPolicyAuditPanel;
@@ -0,0 +1,198 @@
+import React, { useMemo } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../../components/ui/card";
+import { Badge } from "../../../components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { QueueForecast } from "../../../types/adminIde";
+
+interface ChartPoint {
+  time: number;
+  target?: number;
+  actual?: number;
+  forecast?: number;
+}
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+const formatEventTime = (iso: string): string =>
+  new Date(iso).toLocaleString([], {
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// Target vs actual pre-warmed pool size, plus the forecast for the next day
+const PrewarmForecastPanel: React.FC<{ forecast: QueueForecast }> = ({
+  forecast,
+}) => {
+  const data = useMemo<ChartPoint[]>(() => {
+    const points: ChartPoint[] = forecast.history.map((sample) => ({
+      time: new Date(sample.at).getTime(),
+      target: sample.target,
+      actual: sample.actual,
+    }));
+    // Join the forecast line to the present
+    points.push({
+      time: new Date(forecast.timestamp).getTime(),
+      actual: forecast.preWarmed,
+      target: forecast.targetSize,
+      forecast: forecast.current.target,
+    });
+    for (const point of forecast.hourly) {
+      points.push({
+        time: new Date(point.at).getTime(),
+        forecast: point.target,
+      });
+    }
+    return points.sort((a, b) => a.time - b.time);
+  }, [forecast]);
+
+  const peak = forecast.hourly.reduce(
+    (max, point) => (point.target > max.target ? point : max),
+    forecast.current
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pre-warm Forecast</CardTitle>
+        <CardDescription>
+          Target pool size follows class meetings, due dates and past start
+          rates (bounds {forecast.minSize}–{forecast.maxSize})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div>
+            <div className="text-sm text-muted-foreground">Target now</div>
+            <div className="text-2xl font-bold">{forecast.targetSize}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Pre-warmed now</div>
+            <div className="text-2xl font-bold">{forecast.preWarmed}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">
+              Expected starts (10 min)
+            </div>
+            <div className="text-2xl font-bold">
+              {Math.max(
+                forecast.current.scheduledStarts,
+                forecast.current.historicalStarts
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {forecast.current.scheduledStarts} scheduled,{" "}
+              {forecast.current.historicalStarts} historical
+            </p>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Peak next 24h</div>
+            <div className="text-2xl font-bold">{peak.target}</div>
+            <p className="text-xs text-muted-foreground">
+              at {formatTime(new Date(peak.at).getTime())}
+            </p>
+          </div>
+        </div>
+
+        {forecast.scheduleError && (
+          <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950/30 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {forecast.scheduleError}
+          </div>
+        )}
+
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatTime}
+                fontSize={12}
+              />
+              <YAxis allowDecimals={false} fontSize={12} />
+              <Tooltip labelFormatter={(label) => formatTime(Number(label))} />
+              <Legend />
+              <Line
+                type="stepAfter"
+                dataKey="target"
+                name="Target"
+                stroke="#9333ea"
+                dot={false}
+                connectNulls
+              />
+              <Line
+                type="stepAfter"
+                dataKey="actual"
+                name="Pre-warmed"
+                stroke="#16a34a"
+                dot={false}
+                connectNulls
+              />
+              <Line
+                type="stepAfter"
+                dataKey="forecast"
+                name="Forecast target"
+                stroke="#9333ea"
+                strokeDasharray="5 5"
+                dot={false}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Upcoming demand</h4>
+          {forecast.upcomingEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No class meetings or IDE due dates in the next 24 hours.
+            </p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {forecast.upcomingEvents.slice(0, 8).map((event, index) => (
+                <li
+                  key={`${event.kind}-${event.course_id}-${
+                    event.assignment_id ?? ""
+                  }-${index}`}
+                  className="flex items-center gap-2"
+                >
+                  <Badge variant="outline">
+                    {event.kind === "class_meeting" ? "Class" : "Due date"}
+                  </Badge>
+                  <span>{formatEventTime(event.starts_at)}</span>
+                  <span className="text-muted-foreground">
+                    {event.expected_users} student
+                    {event.expected_users === 1 ? "" : "s"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PrewarmForecastPanel;
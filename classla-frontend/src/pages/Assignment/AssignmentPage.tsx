@@ -14,6 +14,7 @@ import PublishingModal from "../../components/PublishingModal";
 import DueDatesModal from "../Course/components/DueDatesModal";
 import AssignmentSettingsPanel from "./components/AssignmentSettingsPanel";
 import GradingSidebar from "./components/grader/GradingSidebar";
+import { QuestionGradingView } from "./components/grader/QuestionGradingView";
 import { Popover } from "../../components/ui/popover";
 import PublishedStudentsList from "./components/PublishedStudentsList";
 import AssignmentEditor from "./components/AssignmentEditor";
@@ -98,6 +99,10 @@ const AssignmentPage: React.FC<AssignmentPageProps> = ({
   const [selectedGradingStudent, setSelectedGradingStudent] = useState<
     any | null
   >(null);
+  // Block being graded across all students, replacing the content view
+  const [questionGradingBlockId, setQuestionGradingBlockId] = useState<
+    string | null
+  >(null);
   const [submissionId, setSubmissionId] = useState<string | undefined>(
     undefined
   );
@@ -228,6 +233,7 @@ const AssignmentPage: React.FC<AssignmentPageProps> = ({
   useEffect(() => {
     if (selectedGradingStudent) {
       setSelectedGradingSubmissionId(selectedGradingStudent.latestSubmission?.id);
+      setQuestionGradingBlockId(null);
     } else {
       setSelectedGradingSubmissionId(undefined);
     }
@@ -260,6 +266,12 @@ const AssignmentPage: React.FC<AssignmentPageProps> = ({
     return Object.keys(map).length > 0 ? map : null;
   }, [activeGradingSubmission, selectedSubmissionId, allSubmissions]);
 
+  // Submission whose code annotations are shown in IDE blocks
+  // (the graded student's in the grading view, otherwise the student's own)
+  const annotatedSubmissionId = selectedGradingStudent
+    ? (selectedGradingSubmissionId || selectedGradingStudent.latestSubmission?.id || null)
+    : (selectedSubmissionId || submissionId || null);
+
   // Set loading immediately when assignmentId changes
   useEffect(() => {
     if (assignmentId && assignmentId !== previousAssignmentId) {
@@ -920,7 +932,7 @@ const AssignmentPage: React.FC<AssignmentPageProps> = ({
                 <div className="flex items-center gap-2">
                   <Eye className="w-5 h-5" />
                   <span className="font-medium">
-                    Viewing {selectedGradingStudent.firstName} {selectedGradingStudent.lastName}'s Submission
+                    Viewing {`${selectedGradingStudent.firstName} ${selectedGradingStudent.lastName}`.trim()}'s Submission
                   </span>
                 </div>
                 <Button
@@ -938,9 +950,16 @@ const AssignmentPage: React.FC<AssignmentPageProps> = ({
             <div className="flex-1 min-h-0">
               <div className="h-full overflow-hidden">
                 {assignment && (
-                  <AssignmentProvider courseId={assignment.course_id} assignmentId={assignment.id} previewMode={isPreviewMode} studentId={selectedGradingStudent?.userId ?? null} snapshotBucketMap={snapshotBucketMap}>
+                  <AssignmentProvider courseId={assignment.course_id} assignmentId={assignment.id} previewMode={isPreviewMode} studentId={selectedGradingStudent?.userId ?? null} snapshotBucketMap={snapshotBucketMap} submissionId={annotatedSubmissionId} canAnnotate={canEdit && !!selectedGradingStudent}>
                     {canEdit ? (
-                      selectedGradingStudent ? (
+                      questionGradingBlockId && activeSidebarPanel === "grader" ? (
+                        <QuestionGradingView
+                          assignment={assignment}
+                          blockId={questionGradingBlockId}
+                          onBlockChange={setQuestionGradingBlockId}
+                          onClose={() => setQuestionGradingBlockId(null)}
+                        />
+                      ) : selectedGradingStudent ? (
                         <AssignmentViewer
                           key={selectedGradingStudent.userId}
                           assignment={assignment}
@@ -1290,6 +1309,10 @@ const AssignmentPage: React.FC<AssignmentPageProps> = ({
                     selectedStudent={selectedGradingStudent}
                     selectedSubmissionId={selectedGradingSubmissionId}
                     initialStudentId={studentIdParam ?? undefined}
+                    canRevealIdentities={userRole === UserRole.INSTRUCTOR || userRole === UserRole.ADMIN}
+                    onAssignmentUpdated={handleAssignmentUpdated}
+                    canDistributeGrading={userRole === UserRole.INSTRUCTOR || userRole === UserRole.ADMIN}
+                    onGradeByQuestion={setQuestionGradingBlockId}
                   />
                 ) : activeSidebarPanel === "ai-chat" ? (
                   <AIChatPanel
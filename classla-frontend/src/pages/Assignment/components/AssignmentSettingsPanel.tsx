@@ -1,13 +1,14 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import { HelpCircle, ChevronDown, ChevronRight, Trash2, Copy, ArrowRight, Clock, EyeOff } from "lucide-react";
+import { HelpCircle, ChevronDown, ChevronRight, Trash2, Copy, ArrowRight, Clock, EyeOff, UserX, Globe } from "lucide-react";
 import { Label } from "../../../components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select";
-import { Assignment, AssignmentSettings, RubricSchema, Course, UserRole } from "../../../types";
+import { Assignment, AssignmentSettings, AttemptScoringPolicy, IDENetworkPolicy, IDENetworkPolicyMode, LatePolicy, RubricSchema, Course, UserRole } from "../../../types";
 import { apiClient } from "../../../lib/api";
 import { useToast } from "../../../hooks/use-toast";
 import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
+import { Textarea } from "../../../components/ui/textarea";
 import {
   Dialog,
   DialogContent,
@@ -20,6 +21,17 @@ import {
 import { useAuth } from "../../../contexts/AuthContext";
 import { hasTAPermission } from "../../../lib/taPermissions";
 import RubricEditor from "./grader/rubric/RubricEditor";
+import { ATTEMPT_SCORING_LABELS } from "../../../utils/attemptScoring";
+
+// Package mirrors instructors can add to an IDE network allowlist in one click
+const PACKAGE_MIRRORS: { label: string; domains: string[] }[] = [
+  { label: "PyPI", domains: ["pypi.org", "files.pythonhosted.org"] },
+  { label: "npm", domains: ["registry.npmjs.org"] },
+  { label: "Maven", domains: ["repo.maven.apache.org", "repo1.maven.org"] },
+];
+
+const parseAllowlist = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,]+/).map((d) => d.trim().toLowerCase()).filter(Boolean)));
 
 interface AssignmentSettingsPanelProps {
   assignment: Assignment;
@@ -59,6 +71,39 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
   const [timeLimitMinutes, setTimeLimitMinutes] = useState(() => String(Math.floor(((existingTimeLimitSeconds || 0) % 3600) / 60)));
   const [isSavingTimeLimit, setIsSavingTimeLimit] = useState(false);
 
+  // Late penalty state. Inputs are kept as strings while editing and saved on blur.
+  const existingLatePolicy = assignment.settings?.latePolicy;
+  const [latePolicyEnabled, setLatePolicyEnabled] = useState(!!existingLatePolicy);
+  const [latePenaltyPercent, setLatePenaltyPercent] = useState(String(existingLatePolicy?.penaltyPercent ?? 10));
+  const [latePenaltyUnit, setLatePenaltyUnit] = useState<LatePolicy["penaltyUnit"]>(existingLatePolicy?.penaltyUnit ?? "day");
+  const [lateGraceMinutes, setLateGraceMinutes] = useState(String(existingLatePolicy?.gracePeriodMinutes ?? 0));
+  const [lateMaxDays, setLateMaxDays] = useState(
+    existingLatePolicy?.maxLateDays != null ? String(existingLatePolicy.maxLateDays) : ""
+  );
+  const [lateZeroAfterCutoff, setLateZeroAfterCutoff] = useState(existingLatePolicy?.zeroAfterCutoff ?? false);
+  const [isSavingLatePolicy, setIsSavingLatePolicy] = useState(false);
+
+  // IDE network access. "default" leaves the policy unset, which follows lockdown.
+  const [networkMode, setNetworkMode] = useState<IDENetworkPolicyMode | "default">(
+    assignment.settings?.networkPolicy?.mode ?? "default"
+  );
+  const [networkAllowlist, setNetworkAllowlist] = useState(
+    (assignment.settings?.networkPolicy?.allowlist || []).join("\n")
+  );
+  const [isSavingNetworkPolicy, setIsSavingNetworkPolicy] = useState(false);
+  const hasIDEBlocks = useMemo(() => !!assignment.content?.includes('"ideBlock"'), [assignment.content]);
+
+  // Attempt limit state, saved on blur like the late policy. Empty max means unlimited.
+  const [maxAttempts, setMaxAttempts] = useState(
+    assignment.settings?.maxAttempts ? String(assignment.settings.maxAttempts) : ""
+  );
+  const [attemptCooldown, setAttemptCooldown] = useState(
+    String(assignment.settings?.attemptCooldownMinutes ?? 0)
+  );
+  const [attemptScoring, setAttemptScoring] = useState<AttemptScoringPolicy>(
+    assignment.settings?.attemptScoring ?? "last"
+  );
+
   // Check if TA has delete permission
   const canDelete = useMemo(() => {
     if (!isInstructor) return false;
@@ -82,6 +127,7 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
       assignment.settings?.showScoreAfterSubmission ?? false,
     hideContentAfterReview:
       assignment.settings?.hideContentAfterReview ?? false,
+    blindGrading: assignment.settings?.blindGrading ?? false,
   });
 
   // Load rubric schema
@@ -249,6 +295,131 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
     }
   };
 
+  const saveLatePolicy = async (latePolicy: LatePolicy | null, successMessage: string) => {
+    try {
+      setIsSavingLatePolicy(true);
+      const response = await apiClient.updateAssignment(assignment.id, {
+        settings: { ...assignment.settings, latePolicy },
+      });
+      onAssignmentUpdated(response.data);
+      toast({ title: "Late policy saved", description: successMessage });
+      return true;
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to save late policy", variant: "destructive" });
+      return false;
+    } finally {
+      setIsSavingLatePolicy(false);
+    }
+  };
+
+  const buildLatePolicy = (overrides: Partial<LatePolicy> = {}): LatePolicy => ({
+    penaltyPercent: Math.min(100, Math.max(0, parseFloat(latePenaltyPercent) || 0)),
+    penaltyUnit: latePenaltyUnit,
+    gracePeriodMinutes: Math.max(0, parseInt(lateGraceMinutes) || 0),
+    maxLateDays: lateMaxDays.trim() === "" ? null : Math.max(0, parseFloat(lateMaxDays) || 0),
+    zeroAfterCutoff: lateZeroAfterCutoff,
+    ...overrides,
+  });
+
+  const handleLatePolicyToggle = async () => {
+    const newEnabled = !latePolicyEnabled;
+    setLatePolicyEnabled(newEnabled);
+    const saved = await saveLatePolicy(
+      newEnabled ? buildLatePolicy() : null,
+      newEnabled ? "Late submissions will be penalized automatically." : "Late submissions are no longer penalized."
+    );
+    if (!saved) setLatePolicyEnabled(!newEnabled); // revert
+  };
+
+  const handleSaveLatePolicy = async (overrides: Partial<LatePolicy> = {}) => {
+    const latePolicy = buildLatePolicy(overrides);
+    // Skip saving if nothing changed
+    if (JSON.stringify(latePolicy) === JSON.stringify(assignment.settings?.latePolicy ?? null)) {
+      return;
+    }
+    await saveLatePolicy(latePolicy, "Late penalty settings have been updated.");
+  };
+
+  const handleSaveAttemptSettings = async (overrides: Partial<AssignmentSettings> = {}) => {
+    const parsedMax = parseInt(maxAttempts);
+    const attemptSettings: Partial<AssignmentSettings> = {
+      maxAttempts: parsedMax > 0 ? parsedMax : null,
+      attemptCooldownMinutes: Math.max(0, parseFloat(attemptCooldown) || 0),
+      attemptScoring,
+      ...overrides,
+    };
+    // Skip saving if nothing changed
+    if (
+      attemptSettings.maxAttempts === (assignment.settings?.maxAttempts ?? null) &&
+      attemptSettings.attemptCooldownMinutes === (assignment.settings?.attemptCooldownMinutes ?? 0) &&
+      attemptSettings.attemptScoring === (assignment.settings?.attemptScoring ?? "last")
+    ) {
+      return;
+    }
+    try {
+      setIsSaving(true);
+      const response = await apiClient.updateAssignment(assignment.id, {
+        settings: { ...assignment.settings, ...attemptSettings },
+      });
+      onAssignmentUpdated(response.data);
+      toast({ title: "Attempt settings saved", description: "Attempt limits have been updated." });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to save attempt settings", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveNetworkPolicy = async (networkPolicy: IDENetworkPolicy | undefined) => {
+    try {
+      setIsSavingNetworkPolicy(true);
+      const response = await apiClient.updateAssignment(assignment.id, {
+        settings: { ...assignment.settings, networkPolicy },
+      });
+      onAssignmentUpdated(response.data);
+      toast({
+        title: "Network access saved",
+        description: "IDEs started from now on use the new network access.",
+      });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to save network access", variant: "destructive" });
+    } finally {
+      setIsSavingNetworkPolicy(false);
+    }
+  };
+
+  const handleNetworkModeChange = async (mode: IDENetworkPolicyMode | "default") => {
+    setNetworkMode(mode);
+    if (mode === "default") {
+      await saveNetworkPolicy(undefined);
+    } else if (mode === "allowlist") {
+      // An allowlist needs domains before it can be saved
+      const allowlist = parseAllowlist(networkAllowlist);
+      if (allowlist.length > 0) await saveNetworkPolicy({ mode, allowlist });
+    } else {
+      await saveNetworkPolicy({ mode });
+    }
+  };
+
+  const handleSaveAllowlist = async (text: string = networkAllowlist) => {
+    const allowlist = parseAllowlist(text);
+    const current = assignment.settings?.networkPolicy;
+    // Skip saving if empty (user may still be editing) or unchanged
+    if (
+      allowlist.length === 0 ||
+      (current?.mode === "allowlist" && (current.allowlist || []).join(",") === allowlist.join(","))
+    ) {
+      return;
+    }
+    await saveNetworkPolicy({ mode: "allowlist", allowlist });
+  };
+
+  const handleAddMirror = (domains: string[]) => {
+    const text = parseAllowlist(`${networkAllowlist}\n${domains.join("\n")}`).join("\n");
+    setNetworkAllowlist(text);
+    handleSaveAllowlist(text);
+  };
+
   const handleSaveRubric = async (schema: Partial<RubricSchema>) => {
     try {
       if (rubricSchema) {
@@ -371,6 +542,96 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
               }`}
             />
           </button>
+
+          {settings.allowLateSubmissions && (
+            <div className="mt-3 space-y-2 pl-3 border-l-2 border-border">
+              <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={latePolicyEnabled}
+                  onChange={handleLatePolicyToggle}
+                  disabled={isSavingLatePolicy}
+                />
+                Deduct points for late work
+              </label>
+              {latePolicyEnabled && (
+                <>
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <Label className="text-xs text-muted-foreground">Penalty (%)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={latePenaltyPercent}
+                        onChange={(e) => setLatePenaltyPercent(e.target.value)}
+                        onBlur={() => handleSaveLatePolicy()}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <Label className="text-xs text-muted-foreground">Per</Label>
+                      <Select
+                        value={latePenaltyUnit}
+                        onValueChange={(value) => {
+                          const unit = value as LatePolicy["penaltyUnit"];
+                          setLatePenaltyUnit(unit);
+                          handleSaveLatePolicy({ penaltyUnit: unit });
+                        }}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="day">Day late</SelectItem>
+                          <SelectItem value="hour">Hour late</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <Label className="text-xs text-muted-foreground">Grace period (min)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={lateGraceMinutes}
+                        onChange={(e) => setLateGraceMinutes(e.target.value)}
+                        onBlur={() => handleSaveLatePolicy()}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <Label className="text-xs text-muted-foreground">Cutoff (days)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="None"
+                        value={lateMaxDays}
+                        onChange={(e) => setLateMaxDays(e.target.value)}
+                        onBlur={() => handleSaveLatePolicy()}
+                        className="h-8 text-sm"
+                      />
+                    </div>
+                  </div>
+                  {lateMaxDays.trim() !== "" && (
+                    <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={lateZeroAfterCutoff}
+                        onChange={(e) => {
+                          setLateZeroAfterCutoff(e.target.checked);
+                          handleSaveLatePolicy({ zeroAfterCutoff: e.target.checked });
+                        }}
+                        disabled={isSavingLatePolicy}
+                      />
+                      Score zero after the cutoff (otherwise reject submissions)
+                    </label>
+                  )}
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Allow Resubmissions */}
@@ -383,7 +644,7 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
               </h3>
               <p className="text-xs text-muted-foreground mb-2">
                 Students can submit multiple times. Each submission creates a
-                new entry.
+                new attempt.
               </p>
             </div>
           </div>
@@ -401,6 +662,58 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
               }`}
             />
           </button>
+
+          {settings.allowResubmissions && (
+            <div className="mt-3 space-y-2 pl-3 border-l-2 border-border">
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label className="text-xs text-muted-foreground">Max attempts</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Unlimited"
+                    value={maxAttempts}
+                    onChange={(e) => setMaxAttempts(e.target.value)}
+                    onBlur={() => handleSaveAttemptSettings()}
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label className="text-xs text-muted-foreground">Cooldown (min)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={attemptCooldown}
+                    onChange={(e) => setAttemptCooldown(e.target.value)}
+                    onBlur={() => handleSaveAttemptSettings()}
+                    className="h-8 text-sm"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-xs text-muted-foreground">Score counted</Label>
+                <Select
+                  value={attemptScoring}
+                  onValueChange={(value) => {
+                    const scoring = value as AttemptScoringPolicy;
+                    setAttemptScoring(scoring);
+                    handleSaveAttemptSettings({ attemptScoring: scoring });
+                  }}
+                >
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ATTEMPT_SCORING_LABELS) as AttemptScoringPolicy[]).map((scoring) => (
+                      <SelectItem key={scoring} value={scoring}>
+                        {ATTEMPT_SCORING_LABELS[scoring]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Show Responses After Submission */}
@@ -506,6 +819,45 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
           </button>
         </div>
 
+        {/* Blind Grading */}
+        <div className="space-y-2">
+          <div className="flex items-start gap-2">
+            <UserX className="w-4 h-4 text-purple-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">
+              <h3 className="text-sm font-medium text-foreground mb-1">
+                Blind Grading
+              </h3>
+              <p className="text-xs text-muted-foreground mb-2">
+                Graders see students under pseudonyms instead of names. An
+                instructor can reveal identities once every submission has
+                been reviewed.
+              </p>
+              {assignment.settings?.blindGradingRevealedAt && (
+                <p className="text-xs text-muted-foreground mb-2">
+                  Identities revealed on{" "}
+                  {new Date(
+                    assignment.settings.blindGradingRevealedAt
+                  ).toLocaleString()}
+                </p>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={() => handleToggle("blindGrading")}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 ${
+              settings.blindGrading ? "bg-purple-600" : "bg-accent"
+            }`}
+            role="switch"
+            aria-checked={settings.blindGrading ? "true" : "false"}
+          >
+            <span
+              className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-card shadow ring-0 transition duration-200 ease-in-out ${
+                settings.blindGrading ? "translate-x-5" : "translate-x-0"
+              }`}
+            />
+          </button>
+        </div>
+
         {/* Timed Assignment */}
         <div className="space-y-2">
           <div className="flex items-start gap-2">
@@ -564,6 +916,70 @@ const AssignmentSettingsPanel: React.FC<AssignmentSettingsPanelProps> = ({
           )}
         </div>
 
+        {/* IDE Network Access */}
+        {hasIDEBlocks && (
+          <div className="space-y-2">
+            <div className="flex items-start gap-2">
+              <Globe className="w-4 h-4 text-purple-600 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <h3 className="text-sm font-medium text-foreground mb-1">
+                  IDE Network Access
+                </h3>
+                <p className="text-xs text-muted-foreground mb-2">
+                  What students' IDEs can reach on the internet. Saving their work always works. Changes apply to IDEs
+                  started afterwards; running IDEs are restarted.
+                </p>
+              </div>
+            </div>
+            <Select
+              value={networkMode}
+              disabled={isSavingNetworkPolicy}
+              onValueChange={(value) => handleNetworkModeChange(value as IDENetworkPolicyMode | "default")}
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">
+                  Default ({assignment.is_lockdown ? "no access, lockdown" : "full access"})
+                </SelectItem>
+                <SelectItem value="none">No access</SelectItem>
+                <SelectItem value="allowlist">Allowed domains only</SelectItem>
+                <SelectItem value="full">Full access</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {networkMode === "allowlist" && (
+              <div className="space-y-2 mt-2">
+                <Label className="text-xs text-muted-foreground">Allowed domains (one per line)</Label>
+                <Textarea
+                  value={networkAllowlist}
+                  onChange={(e) => setNetworkAllowlist(e.target.value)}
+                  onBlur={() => handleSaveAllowlist()}
+                  rows={4}
+                  placeholder="pypi.org"
+                  className="text-sm font-mono"
+                />
+                <div className="flex flex-wrap gap-1">
+                  {PACKAGE_MIRRORS.map((mirror) => (
+                    <Button
+                      key={mirror.label}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={isSavingNetworkPolicy}
+                      onClick={() => handleAddMirror(mirror.domains)}
+                    >
+                      + {mirror.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Rubric Configuration */}
         <div className="space-y-2 pt-4 border-t border-border">
           <button
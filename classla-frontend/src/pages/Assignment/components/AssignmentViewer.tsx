@@ -52,6 +52,11 @@ import { apiClient } from "../../../lib/api";
 import { useToast } from "../../../hooks/use-toast";
 import SubmissionSuccessModal from "./SubmissionSuccessModal";
 import { randomizeMCQBlocks } from "../../../utils/randomization";
+import { calculateGraderScore } from "../../../utils/graderScore";
+import {
+  getAttemptAvailability,
+  getAttemptPolicy,
+} from "../../../utils/attemptScoring";
 import { Popover } from "../../../components/ui/popover";
 import AssignmentContentSkeleton from "./AssignmentContentSkeleton";
 import {
@@ -195,6 +200,18 @@ const AssignmentViewer: React.FC<AssignmentViewerProps> = ({
       (s) => s.id !== submissionId && (s.status === "submitted" || s.status === "graded")
     );
   }, [allowResubmissions, allSubmissions, submissionId]);
+
+  // Attempt limit and cooldown for starting another attempt (Unsubmit)
+  const attemptAvailability = useMemo(
+    () =>
+      getAttemptAvailability(
+        getAttemptPolicy(assignment.settings),
+        allSubmissions || []
+      ),
+    [assignment.settings, allSubmissions]
+  );
+  const canStartAttempt =
+    attemptAvailability.attemptsLeft !== 0 && !attemptAvailability.nextAttemptAt;
   const allowLateSubmissions =
     assignment.settings?.allowLateSubmissions ?? false;
   const isTimedAssignment = (assignment.settings?.timeLimitSeconds ?? 0) > 0;
@@ -1462,7 +1479,7 @@ const AssignmentViewer: React.FC<AssignmentViewerProps> = ({
       ) {
         // Score visibility is enabled, show the score
         const g = autogradeResponse.data.grader;
-        const score = (Number(g.raw_assignment_score) || 0) + (Number(g.raw_rubric_score) || 0) + (parseFloat(g.score_modifier) || 0);
+        const score = calculateGraderScore(g);
         const totalPoints = autogradeResponse.data.totalPossiblePoints;
 
         toast({
@@ -1594,7 +1611,7 @@ const AssignmentViewer: React.FC<AssignmentViewerProps> = ({
         ) {
           // Score visibility is enabled, show the score
           const g2 = autogradeResponse.data.grader;
-          const score = (Number(g2.raw_assignment_score) || 0) + (Number(g2.raw_rubric_score) || 0) + (parseFloat(g2.score_modifier) || 0);
+          const score = calculateGraderScore(g2);
           const totalPoints = autogradeResponse.data.totalPossiblePoints;
 
           toast({
@@ -1835,7 +1852,7 @@ const AssignmentViewer: React.FC<AssignmentViewerProps> = ({
               <span className="font-medium flex items-center gap-2 text-green-800 dark:text-green-300">
                 {grader?.raw_assignment_score != null && totalPossiblePoints != null ? (
                   <>
-                    Assignment Submitted — Your score: {(Number(grader.raw_assignment_score) || 0) + (Number(grader.raw_rubric_score) || 0) + (parseFloat(grader.score_modifier) || 0)} / {totalPossiblePoints} points
+                    Assignment Submitted — Your score: {calculateGraderScore(grader)} / {totalPossiblePoints} points
                     {(!grader.reviewed_at) && (
                       <TooltipProvider>
                         <Tooltip>
@@ -1894,7 +1911,7 @@ const AssignmentViewer: React.FC<AssignmentViewerProps> = ({
                   />
                 </svg>
                 <span className="font-medium flex items-center gap-2 text-purple-800 dark:text-purple-300">
-                  Assignment Graded — Your score: {(Number(grader.raw_assignment_score) || 0) + (Number(grader.raw_rubric_score) || 0) + (parseFloat(grader.score_modifier) || 0)} / {totalPossiblePoints} points
+                  Assignment Graded — Your score: {calculateGraderScore(grader)} / {totalPossiblePoints} points
                   {(!grader.reviewed_at) && (
                     <TooltipProvider>
                       <Tooltip>
@@ -2128,7 +2145,16 @@ const AssignmentViewer: React.FC<AssignmentViewerProps> = ({
                 </Button>
               )}
               {(effectiveStatus === "submitted" || effectiveStatus === "graded") ? (
-                allowResubmissions && !isSubmissionBlocked && (
+                allowResubmissions && !isSubmissionBlocked && isStudent && !canStartAttempt ? (
+                  <span className="text-sm text-muted-foreground">
+                    {attemptAvailability.attemptsLeft === 0
+                      ? "No attempts remaining"
+                      : `Next attempt available ${attemptAvailability.nextAttemptAt!.toLocaleString(
+                          "en-US",
+                          { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }
+                        )}`}
+                  </span>
+                ) : allowResubmissions && !isSubmissionBlocked && (
                   <Button
                     onClick={handleUnsubmit}
                     disabled={isSubmitting}
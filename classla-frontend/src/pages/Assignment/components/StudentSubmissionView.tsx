@@ -1,7 +1,14 @@
-import React, { useState, useEffect, useRef } from "react";
-import { ChevronLeft, ChevronRight, Clock, Loader2 } from "lucide-react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  GitCompare,
+  Loader2,
+} from "lucide-react";
 import { Assignment, Grader, StudentSubmissionInfo } from "../../../types";
 import AssignmentViewer from "./AssignmentViewer";
+import { SubmissionDiffView } from "./SubmissionDiffView";
 import { GradingControls } from "./grader/GradingControls";
 import { Button } from "../../../components/ui/button";
 import {
@@ -12,6 +19,11 @@ import {
   SelectValue,
 } from "../../../components/ui/select";
 import { useToast } from "../../../hooks/use-toast";
+import { extractIdeBlocks } from "../../../utils/submissionDiff";
+import { formatStudentName } from "../../../utils/blindGrading";
+
+// Compare-with option for diffing against the IDE model solution
+const MODEL_SOLUTION = "model-solution";
 
 interface StudentSubmissionViewProps {
   student: StudentSubmissionInfo;
@@ -41,6 +53,10 @@ export const StudentSubmissionView: React.FC<StudentSubmissionViewProps> = ({
     student.latestSubmission?.id || ""
   );
 
+  // Diff mode: the selected submission is compared against this one
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareWithId, setCompareWithId] = useState<string>("");
+
   // State for tracking if we're saving before navigation
   const [isSavingBeforeNav, setIsSavingBeforeNav] = useState(false);
 
@@ -61,6 +77,7 @@ export const StudentSubmissionView: React.FC<StudentSubmissionViewProps> = ({
   // Update selected submission when student changes
   useEffect(() => {
     setSelectedSubmissionId(student.latestSubmission?.id || "");
+    setCompareWithId("");
   }, [student.userId, student.latestSubmission?.id]);
 
   // Update current grader when student.grader changes
@@ -73,6 +90,33 @@ export const StudentSubmissionView: React.FC<StudentSubmissionViewProps> = ({
     (sub) => sub.id === selectedSubmissionId
   );
 
+  const hasModelSolution = useMemo(
+    () =>
+      extractIdeBlocks(assignment.content).some(
+        (block) => block.modelSolutionBucketId
+      ),
+    [assignment.content]
+  );
+  const canCompare = student.submissions.length > 1 || hasModelSolution;
+
+  // Default to the previous attempt, or the model solution if there is none
+  const otherSubmissions = student.submissions.filter(
+    (sub) => sub.id !== selectedSubmissionId
+  );
+  const effectiveCompareWithId =
+    compareWithId && compareWithId !== selectedSubmissionId
+      ? compareWithId
+      : student.submissions[
+          student.submissions.findIndex(
+            (sub) => sub.id === selectedSubmissionId
+          ) + 1
+        ]?.id ||
+        otherSubmissions[0]?.id ||
+        (hasModelSolution ? MODEL_SOLUTION : "");
+  const compareWithSubmission =
+    student.submissions.find((sub) => sub.id === effectiveCompareWithId) ||
+    null;
+
   // Get grader for selected submission
   // Note: For autograded submissions, grader_id may be null, so we use currentGrader
   const selectedGrader = currentGrader;
@@ -153,6 +197,16 @@ export const StudentSubmissionView: React.FC<StudentSubmissionViewProps> = ({
     setSelectedSubmissionId(submissionId);
   };
 
+  // Submissions are ordered newest first
+  const getSubmissionLabel = (submissionId: string): string => {
+    const index = student.submissions.findIndex(
+      (sub) => sub.id === submissionId
+    );
+    return index === 0
+      ? "Latest Submission"
+      : `Submission ${student.submissions.length - index}`;
+  };
+
   // Format timestamp for display
   const formatTimestamp = (timestamp: Date | string): string => {
     const date = new Date(timestamp);
@@ -198,7 +252,7 @@ export const StudentSubmissionView: React.FC<StudentSubmissionViewProps> = ({
           {/* Student Name */}
           <div className="flex items-center gap-3">
             <h2 className="text-xl font-bold text-foreground">
-              {student.lastName}, {student.firstName}
+              {formatStudentName(student)}
             </h2>
             {isSavingBeforeNav && (
               <span className="text-sm text-purple-600 font-medium flex items-center gap-1">
@@ -226,8 +280,9 @@ export const StudentSubmissionView: React.FC<StudentSubmissionViewProps> = ({
         </div>
       </div>
 
-      {/* Submission Selector - Only show if multiple submissions */}
-      {student.submissions.length > 1 && (
+      {/* Submission Selector - Only show if there is something to switch or compare */}
+      {(student.submissions.length > 1 ||
+        (canCompare && selectedSubmission)) && (
         <div className="border-b border-border bg-card px-6 py-3 shadow-sm">
           <div className="flex items-center gap-3">
             <Clock className="h-5 w-5 text-primary" />
@@ -242,47 +297,109 @@ export const StudentSubmissionView: React.FC<StudentSubmissionViewProps> = ({
                 <SelectValue placeholder="Select submission" />
               </SelectTrigger>
               <SelectContent>
-                {student.submissions.map((submission, index) => {
-                  const isLatest = index === 0;
-                  const label = isLatest
-                    ? "Latest Submission"
-                    : `Submission ${student.submissions.length - index}`;
-
-                  return (
-                    <SelectItem key={submission.id} value={submission.id}>
-                      <div className="flex flex-col py-1">
-                        <span className="font-semibold text-foreground">
-                          {label}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {formatTimestamp(submission.timestamp)}
-                        </span>
-                      </div>
-                    </SelectItem>
-                  );
-                })}
+                {student.submissions.map((submission) => (
+                  <SelectItem key={submission.id} value={submission.id}>
+                    <div className="flex flex-col py-1">
+                      <span className="font-semibold text-foreground">
+                        {getSubmissionLabel(submission.id)}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatTimestamp(submission.timestamp)}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+
+            {compareMode && selectedSubmission && (
+              <>
+                <span className="text-sm font-semibold text-foreground">
+                  Compare with:
+                </span>
+                <Select
+                  value={effectiveCompareWithId}
+                  onValueChange={setCompareWithId}
+                >
+                  <SelectTrigger className="w-[260px]">
+                    <SelectValue placeholder="Select submission" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherSubmissions.map((submission) => (
+                      <SelectItem key={submission.id} value={submission.id}>
+                        <div className="flex flex-col py-1">
+                          <span className="font-semibold text-foreground">
+                            {getSubmissionLabel(submission.id)}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {formatTimestamp(submission.timestamp)}
+                          </span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                    {hasModelSolution && (
+                      <SelectItem value={MODEL_SOLUTION}>
+                        <span className="font-semibold text-foreground">
+                          Model Solution
+                        </span>
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+
+            {canCompare && selectedSubmission && (
+              <Button
+                variant={compareMode ? "default" : "outline"}
+                size="sm"
+                onClick={() => setCompareMode(!compareMode)}
+                className="ml-auto flex items-center gap-2"
+              >
+                <GitCompare className="h-4 w-4" />
+                {compareMode ? "Exit Compare" : "Compare"}
+              </Button>
+            )}
           </div>
         </div>
       )}
 
       {/* Content Area - Scrollable */}
       <div className="flex-1 overflow-y-auto bg-background">
-        <div className="max-w-4xl mx-auto p-6 space-y-6">
-          {/* Assignment Viewer - Always show, even without submission */}
-          <div className="bg-card rounded-lg shadow-sm border border-border p-6">
-            <AssignmentViewer
-              assignment={assignment}
-              submissionId={selectedSubmission?.id || null}
-              submissionStatus={selectedSubmission?.status || null}
-              submissionTimestamp={selectedSubmission?.timestamp || null}
-              isStudent={false}
-              studentId={student.userId}
-              locked={true}
-              grader={selectedGrader}
-            />
-          </div>
+        <div
+          className={`${
+            compareMode ? "max-w-6xl" : "max-w-4xl"
+          } mx-auto p-6 space-y-6`}
+        >
+          {compareMode && selectedSubmission && effectiveCompareWithId ? (
+            <div className="bg-card rounded-lg shadow-sm border border-border p-6">
+              <SubmissionDiffView
+                assignment={assignment}
+                submission={selectedSubmission}
+                submissionLabel={getSubmissionLabel(selectedSubmission.id)}
+                baseSubmission={compareWithSubmission}
+                baseLabel={
+                  compareWithSubmission
+                    ? getSubmissionLabel(compareWithSubmission.id)
+                    : "Model Solution"
+                }
+              />
+            </div>
+          ) : (
+            /* Assignment Viewer - Always show, even without submission */
+            <div className="bg-card rounded-lg shadow-sm border border-border p-6">
+              <AssignmentViewer
+                assignment={assignment}
+                submissionId={selectedSubmission?.id || null}
+                submissionStatus={selectedSubmission?.status || null}
+                submissionTimestamp={selectedSubmission?.timestamp || null}
+                isStudent={false}
+                studentId={student.userId}
+                locked={true}
+                grader={selectedGrader}
+              />
+            </div>
+          )}
 
           {/* Grading Controls - Always show, will handle null grader */}
           <GradingControls
@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { DiffEditor } from "@monaco-editor/react";
+import { Code, FileText, Loader2 } from "lucide-react";
+import { Assignment, Submission } from "../../../types";
+import { apiClient } from "../../../lib/api";
+import { useTheme } from "../../../hooks/useTheme";
+import { Badge } from "../../../components/ui/badge";
+import { cn } from "../../../lib/utils";
+import {
+  FileDiffEntry,
+  FileDiffStatus,
+  IdeDiffBlock,
+  diffFileSets,
+  extractAnswerBlocks,
+  extractIdeBlocks,
+  flattenFileTree,
+  formatAnswer,
+  getDiffLanguage,
+  getSnapshotBucketId,
+} from "../../../utils/submissionDiff";
+
+interface SubmissionDiffViewProps {
+  assignment: Assignment;
+  // Attempt shown on the right
+  submission: Submission;
+  submissionLabel: string;
+  // Attempt shown on the left, or null to compare against the model solution
+  baseSubmission: Submission | null;
+  baseLabel: string;
+}
+
+const STATUS_STYLES: Record<FileDiffStatus, string> = {
+  added: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  removed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
+  modified:
+    "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  unchanged: "bg-muted text-muted-foreground",
+};
+
+/** Read every text file of a bucket, keyed by path. */
+async function loadBucketFiles(bucketId: string): Promise<Map<string, string>> {
+  const listResponse = await apiClient.listS3Files(bucketId);
+  const paths = flattenFileTree(listResponse.data.files || []);
+  const files = new Map<string, string>();
+  await Promise.all(
+    paths.map(async (path) => {
+      const fileResponse = await apiClient.getS3File(bucketId, path);
+      files.set(
+        path,
+        fileResponse.data.encoding === "base64"
+          ? "(binary file)"
+          : fileResponse.data.content ?? ""
+      );
+    })
+  );
+  return files;
+}
+
+/** File-level diff of one IDE block between two buckets. */
+export const IdeBlockDiff: React.FC<{
+  block: IdeDiffBlock;
+  originalBucketId: string | null;
+  modifiedBucketId: string | null;
+  originalLabel: string;
+  modifiedLabel: string;
+}> = ({
+  block,
+  originalBucketId,
+  modifiedBucketId,
+  originalLabel,
+  modifiedLabel,
+}) => {
+  const { isDark } = useTheme();
+  const [entries, setEntries] = useState<FileDiffEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+
+    const load = async () => {
+      try {
+        const [original, modified] = await Promise.all([
+          originalBucketId
+            ? loadBucketFiles(originalBucketId)
+            : Promise.resolve(new Map<string, string>()),
+          modifiedBucketId
+            ? loadBucketFiles(modifiedBucketId)
+            : Promise.resolve(new Map<string, string>()),
+        ]);
+        if (cancelled) return;
+        const diff = diffFileSets(original, modified);
+        setEntries(diff);
+        setSelectedPath(
+          (diff.find((entry) => entry.status !== "unchanged") ?? diff[0])
+            ?.path ?? null
+        );
+      } catch (err: any) {
+        console.error("Failed to load IDE files for diff:", err);
+        if (!cancelled) setError(err.message || "Failed to load files");
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [originalBucketId, modifiedBucketId]);
+
+  const selected = entries?.find((entry) => entry.path === selectedPath);
+  const changedCount =
+    entries?.filter((entry) => entry.status !== "unchanged").length ?? 0;
+
+  return (
+    <div className="border border-border rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-muted/50 border-b border-border">
+        <div className="flex items-center gap-2">
+          <Code className="h-4 w-4 text-primary" />
+          <span className="text-sm font-semibold text-foreground">
+            {block.label}
+          </span>
+        </div>
+        {entries && (
+          <span className="text-xs text-muted-foreground">
+            {changedCount === 0
+              ? "No file changes"
+              : `${changedCount} file${changedCount === 1 ? "" : "s"} changed`}
+          </span>
+        )}
+      </div>
+
+      {!originalBucketId && !modifiedBucketId ? (
+        <p className="p-4 text-sm text-muted-foreground">
+          Neither side has saved files for this block.
+        </p>
+      ) : error ? (
+        <p className="p-4 text-sm text-destructive">{error}</p>
+      ) : !entries ? (
+        <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading files...
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">No files.</p>
+      ) : (
+        <div className="flex h-[420px]">
+          <div className="w-56 shrink-0 border-r border-border overflow-y-auto">
+            {entries.map((entry) => (
+              <button
+                key={entry.path}
+                type="button"
+                onClick={() => setSelectedPath(entry.path)}
+                className={cn(
+                  "w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent",
+                  entry.path === selectedPath && "bg-accent"
+                )}
+              >
+                <span className="truncate font-mono">{entry.path}</span>
+                <span
+                  className={cn(
+                    "shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                    STATUS_STYLES[entry.status]
+                  )}
+                >
+                  {entry.status}
+                </span>
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="grid grid-cols-2 text-xs font-medium text-muted-foreground border-b border-border">
+              <span className="px-3 py-1">{originalLabel}</span>
+              <span className="px-3 py-1">{modifiedLabel}</span>
+            </div>
+            {selected && (
+              <DiffEditor
+                key={selected.path}
+                height="100%"
+                language={getDiffLanguage(selected.path)}
+                original={selected.original ?? ""}
+                modified={selected.modified ?? ""}
+                theme={isDark ? "vs-dark" : "vs"}
+                options={{
+                  readOnly: true,
+                  renderSideBySide: true,
+                  minimap: { enabled: false },
+                  fontSize: 13,
+                  scrollBeyondLastLine: false,
+                }}
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Side-by-side comparison of two attempts: block answers from
+ * `Submission.values` and file-level diffs of each IDE block's snapshot
+ * bucket. With no base submission the IDE files are compared against the
+ * block's model solution instead.
+ */
+export const SubmissionDiffView: React.FC<SubmissionDiffViewProps> = ({
+  assignment,
+  submission,
+  submissionLabel,
+  baseSubmission,
+  baseLabel,
+}) => {
+  const answerBlocks = useMemo(
+    () => extractAnswerBlocks(assignment.content),
+    [assignment.content]
+  );
+  const ideBlocks = useMemo(
+    () => extractIdeBlocks(assignment.content),
+    [assignment.content]
+  );
+
+  const answerDiffs = useMemo(
+    () =>
+      baseSubmission
+        ? answerBlocks.map((block) => {
+            const before = formatAnswer(baseSubmission.values?.[block.id]);
+            const after = formatAnswer(submission.values?.[block.id]);
+            return { block, before, after, changed: before !== after };
+          })
+        : [],
+    [answerBlocks, baseSubmission, submission]
+  );
+  const changedAnswers = answerDiffs.filter((diff) => diff.changed).length;
+
+  return (
+    <div className="space-y-6">
+      {baseSubmission && answerBlocks.length > 0 && (
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-foreground">Answers</h3>
+            <span className="text-xs text-muted-foreground">
+              {changedAnswers} of {answerBlocks.length} changed
+            </span>
+          </div>
+          {answerDiffs.map(({ block, before, after, changed }) => (
+            <div
+              key={block.id}
+              className="border border-border rounded-lg overflow-hidden"
+            >
+              <div className="flex items-center justify-between px-4 py-2 bg-muted/50 border-b border-border">
+                <div className="flex items-center gap-2 min-w-0">
+                  <FileText className="h-4 w-4 text-primary shrink-0" />
+                  <span className="text-sm font-medium text-foreground truncate">
+                    {block.label}
+                  </span>
+                </div>
+                <Badge variant={changed ? "default" : "secondary"}>
+                  {changed ? "Changed" : "Unchanged"}
+                </Badge>
+              </div>
+              {changed && (
+                <div className="grid grid-cols-2 divide-x divide-border">
+                  {[
+                    {
+                      label: baseLabel,
+                      text: before,
+                      tone: STATUS_STYLES.removed,
+                    },
+                    {
+                      label: submissionLabel,
+                      text: after,
+                      tone: STATUS_STYLES.added,
+                    },
+                  ].map((side) => (
+                    <div key={side.label} className="min-w-0">
+                      <div className="px-3 py-1 text-xs font-medium text-muted-foreground border-b border-border">
+                        {side.label}
+                      </div>
+                      <pre
+                        className={cn(
+                          "p-3 text-xs font-mono whitespace-pre-wrap break-words",
+                          side.text ? side.tone : "text-muted-foreground"
+                        )}
+                      >
+                        {side.text || "No answer"}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </section>
+      )}
+
+      {ideBlocks.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-foreground">Code</h3>
+          {ideBlocks.map((block) => (
+            <IdeBlockDiff
+              key={block.id}
+              block={block}
+              originalBucketId={
+                baseSubmission
+                  ? getSnapshotBucketId(baseSubmission.values, block.id)
+                  : block.modelSolutionBucketId
+              }
+              modifiedBucketId={getSnapshotBucketId(
+                submission.values,
+                block.id
+              )}
+              originalLabel={baseLabel}
+              modifiedLabel={submissionLabel}
+            />
+          ))}
+        </section>
+      )}
+
+      {answerBlocks.length === 0 && ideBlocks.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          This assignment has no answers to compare.
+        </p>
+      )}
+    </div>
+  );
+};
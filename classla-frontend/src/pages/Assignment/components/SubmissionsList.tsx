@@ -4,17 +4,9 @@ import { apiClient } from "../../../lib/api";
 import { useToast } from "../../../hooks/use-toast";
 import { Card } from "../../../components/ui/card";
 import { Button } from "../../../components/ui/button";
-import { CheckCircle, Clock, FileText, Calendar } from "lucide-react";
-
-interface Submission {
-  id: string;
-  assignment_id: string;
-  student_id: string;
-  status: string;
-  grade: number | null;
-  timestamp: string;
-  created_at: string;
-}
+import { CheckCircle, Clock, FileText, Calendar, Star } from "lucide-react";
+import { AttemptHistory } from "../../../types";
+import { ATTEMPT_SCORING_LABELS } from "../../../utils/attemptScoring";
 
 interface Assignment {
   id: string;
@@ -31,7 +23,7 @@ const SubmissionsList: React.FC<SubmissionsListProps> = ({
   assignmentId,
   courseSlug,
 }) => {
-  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [history, setHistory] = useState<AttemptHistory | null>(null);
   const [assignment, setAssignment] = useState<Assignment | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
@@ -46,11 +38,9 @@ const SubmissionsList: React.FC<SubmissionsListProps> = ({
         );
         setAssignment(assignmentResponse.data);
 
-        // Fetch submissions
-        const submissionsResponse = await apiClient.getSubmissionsByAssignment(
-          assignmentId
-        );
-        setSubmissions(submissionsResponse.data);
+        // Fetch submitted attempts with their visible scores
+        const historyResponse = await apiClient.getAttemptHistory(assignmentId);
+        setHistory(historyResponse.data);
       } catch (error: any) {
         console.error("Failed to fetch submissions:", error);
         toast({
@@ -125,6 +115,10 @@ const SubmissionsList: React.FC<SubmissionsListProps> = ({
     );
   }
 
+  // Newest attempt first
+  const attempts = [...(history?.attempts || [])].reverse();
+  const policy = history?.policy;
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       <div className="mb-6">
@@ -147,7 +141,53 @@ const SubmissionsList: React.FC<SubmissionsListProps> = ({
         )}
       </div>
 
-      {submissions.length === 0 ? (
+      {history && policy && (
+        <Card className="p-4 mb-6">
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+            <span className="text-foreground">
+              Attempts used:{" "}
+              <span className="font-semibold">
+                {history.attempts.length}
+                {policy.maxAttempts !== null
+                  ? ` of ${policy.maxAttempts}`
+                  : " (unlimited)"}
+              </span>
+            </span>
+            <span className="text-foreground">
+              Scoring:{" "}
+              <span className="font-semibold">
+                {ATTEMPT_SCORING_LABELS[policy.scoring]}
+              </span>
+            </span>
+            {history.score !== null && (
+              <span className="text-foreground">
+                Current grade:{" "}
+                <span className="font-semibold">{history.score}</span>
+              </span>
+            )}
+          </div>
+          {history.nextAttemptAt && (
+            <p className="text-sm text-muted-foreground mt-2">
+              You can start another attempt after{" "}
+              {formatDate(history.nextAttemptAt)}.
+            </p>
+          )}
+          {!history.canStartAttempt &&
+            !history.nextAttemptAt &&
+            history.attempts.length > 0 && (
+              <p className="text-sm text-muted-foreground mt-2">
+                You have no attempts remaining.
+              </p>
+            )}
+          {history.inProgressSubmissionId && (
+            <p className="text-sm text-muted-foreground mt-2">
+              You have an attempt in progress that has not been submitted.
+            </p>
+          )}
+        </Card>
+      )}
+
+      {attempts.length === 0 ? (
         <Card className="p-8 text-center">
           <FileText className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
           <h3 className="text-lg font-medium text-foreground mb-2">
@@ -167,26 +207,35 @@ const SubmissionsList: React.FC<SubmissionsListProps> = ({
         </Card>
       ) : (
         <div className="space-y-4">
-          {submissions.map((submission) => (
+          {attempts.map((attempt) => (
             <Card
-              key={submission.id}
+              key={attempt.submissionId}
               className="p-6 hover:shadow-md transition-shadow"
             >
               <div className="flex items-start justify-between">
                 <div className="flex items-start gap-4 flex-1">
-                  <div className="mt-1">{getStatusIcon(submission.status)}</div>
+                  <div className="mt-1">{getStatusIcon(attempt.status)}</div>
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-2">
+                      <span className="text-base font-semibold text-foreground">
+                        Attempt {attempt.attemptNumber}
+                      </span>
                       <span
                         className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(
-                          submission.status
+                          attempt.status
                         )}`}
                       >
-                        {getStatusText(submission.status)}
+                        {getStatusText(attempt.status)}
                       </span>
-                      {submission.grade !== null && (
+                      {attempt.score !== null && (
                         <span className="text-lg font-semibold text-foreground">
-                          Grade: {submission.grade}
+                          Grade: {attempt.score}
+                        </span>
+                      )}
+                      {attempt.countsTowardGrade && (
+                        <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-purple-700 bg-purple-50 dark:text-purple-300 dark:bg-purple-950/30">
+                          <Star className="w-3 h-3" />
+                          Counts toward grade
                         </span>
                       )}
                     </div>
@@ -194,7 +243,7 @@ const SubmissionsList: React.FC<SubmissionsListProps> = ({
                       <div className="flex items-center gap-1">
                         <Calendar className="w-4 h-4" />
                         <span>
-                          Submitted: {formatDate(submission.timestamp)}
+                          Submitted: {formatDate(attempt.timestamp)}
                         </span>
                       </div>
                     </div>
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, Sparkles } from "lucide-react";
+import {
+  Grader,
+  GradingSuggestion,
+  Rubric,
+  RubricSchema,
+} from "../../../../types";
+import { Button } from "../../../../components/ui/button";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import { Label } from "../../../../components/ui/label";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+import {
+  SuggestibleBlock,
+  applyRubricSuggestion,
+  getSuggestibleBlocks,
+  sumAcceptedSuggestions,
+} from "../../../../utils/gradingSuggestions";
+
+interface AiGradingSuggestionsProps {
+  assignmentId: string;
+  assignmentContent: string;
+  submissionId: string;
+  grader: Grader | null;
+  rubricSchema: RubricSchema | null;
+  rubric: Rubric | null;
+  onApplyRubric: (values: number[], comments: string[]) => Promise<void>;
+}
+
+interface PendingSuggestion {
+  block: SuggestibleBlock;
+  suggestion: GradingSuggestion;
+  accepted: Set<number>;
+}
+
+/**
+ * Opt-in AI score suggestions for manually graded short answers and manual
+ * IDE tests. A suggestion changes nothing until the grader accepts it.
+ */
+export const AiGradingSuggestions: React.FC<AiGradingSuggestionsProps> = ({
+  assignmentId,
+  assignmentContent,
+  submissionId,
+  grader,
+  rubricSchema,
+  rubric,
+  onApplyRubric,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [loadingBlockId, setLoadingBlockId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingSuggestion | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // Short answers are scored through the rubric, so they need one
+  const blocks = useMemo(
+    () =>
+      getSuggestibleBlocks(assignmentContent).filter(
+        (block) =>
+          block.kind === "ideManualTests" ||
+          (rubricSchema?.items.length ?? 0) > 0
+      ),
+    [assignmentContent, rubricSchema]
+  );
+
+  if (blocks.length === 0) return null;
+
+  const handleSuggest = async (block: SuggestibleBlock) => {
+    setLoadingBlockId(block.id);
+    try {
+      const response = await apiClient.suggestGrade(submissionId, block.id);
+      const suggestion = response.data;
+      setPending({
+        block,
+        suggestion,
+        accepted: new Set(
+          suggestion.items
+            .filter((item) => item.suggested !== null)
+            .map((item) => item.index)
+        ),
+      });
+    } catch (error: any) {
+      toast({
+        title: "Couldn't get a suggestion",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingBlockId(null);
+    }
+  };
+
+  const toggleItem = (index: number, checked: boolean) => {
+    setPending((current) => {
+      if (!current) return current;
+      const accepted = new Set(current.accepted);
+      if (checked) accepted.add(index);
+      else accepted.delete(index);
+      return { ...current, accepted };
+    });
+  };
+
+  const handleAccept = async () => {
+    if (!pending) return;
+    const { block, suggestion, accepted } = pending;
+    setIsApplying(true);
+    try {
+      if (suggestion.kind === "shortAnswer" && rubricSchema) {
+        const itemCount = rubricSchema.items.length;
+        await onApplyRubric(
+          applyRubricSuggestion(
+            rubric?.values ?? [],
+            itemCount,
+            suggestion.items,
+            accepted
+          ),
+          Array.from(
+            { length: itemCount },
+            (_, i) => rubric?.comments?.[i] ?? ""
+          )
+        );
+      } else {
+        const possible = grader?.block_scores?.[block.id]?.possible;
+        const awarded =
+          suggestion.basePoints +
+          sumAcceptedSuggestions(suggestion.items, accepted);
+        await apiClient.setBlockScores(assignmentId, block.id, {
+          submission_ids: [submissionId],
+          awarded:
+            possible === undefined ? awarded : Math.min(possible, awarded),
+        });
+        await queryClient.invalidateQueries({
+          queryKey: ["submissions", "with-students", assignmentId],
+        });
+      }
+      setPending(null);
+      toast({ title: "Suggestion applied" });
+    } catch (error: any) {
+      toast({
+        title: "Failed to apply suggestion",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-2">
+      <Label className="text-sm font-semibold text-foreground flex items-center gap-1.5">
+        <Sparkles className="h-4 w-4 text-purple-500" />
+        AI Suggestions
+      </Label>
+
+      {blocks.map((block) => (
+        <div key={block.id} className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground truncate">
+            {block.label}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs shrink-0"
+            disabled={loadingBlockId !== null || isApplying}
+            onClick={() => handleSuggest(block)}
+          >
+            {loadingBlockId === block.id && (
+              <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+            )}
+            Suggest score
+          </Button>
+        </div>
+      ))}
+
+      {pending && (
+        <div className="rounded-md border border-purple-200 dark:border-purple-800 bg-purple-50 dark:bg-purple-950/30 p-3 space-y-3">
+          <div className="text-xs font-medium text-foreground">
+            {pending.block.label}
+          </div>
+          {pending.suggestion.summary && (
+            <p className="text-xs text-muted-foreground">
+              {pending.suggestion.summary}
+            </p>
+          )}
+          {pending.suggestion.kind === "ideManualTests" && (
+            <p className="text-xs text-muted-foreground">
+              Executable tests earned {pending.suggestion.basePoints} pts;
+              accepted manual points are added to that.
+            </p>
+          )}
+          {pending.suggestion.items.map((item) => (
+            <div key={item.index} className="flex items-start gap-2">
+              <Checkbox
+                id={`suggestion-${item.index}`}
+                checked={pending.accepted.has(item.index)}
+                disabled={item.suggested === null}
+                onCheckedChange={(checked) =>
+                  toggleItem(item.index, checked as boolean)
+                }
+              />
+              <div className="flex-1 min-w-0">
+                <Label
+                  htmlFor={`suggestion-${item.index}`}
+                  className="text-xs font-medium text-foreground"
+                >
+                  {item.title}:{" "}
+                  {item.suggested === null
+                    ? "not applicable"
+                    : `${item.suggested} / ${item.points} pts`}
+                </Label>
+                {item.justification && (
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {item.justification}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={isApplying}
+              onClick={() => setPending(null)}
+            >
+              Dismiss
+            </Button>
+            <Button
+              size="sm"
+              className="h-7 text-xs"
+              disabled={isApplying || pending.accepted.size === 0}
+              onClick={handleAccept}
+            >
+              {isApplying && (
+                <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+              )}
+              Accept
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
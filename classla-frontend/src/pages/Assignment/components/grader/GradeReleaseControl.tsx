@@ -0,0 +1,166 @@
+import React, { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, Send, X } from "lucide-react";
+import { Assignment } from "../../../../types";
+import { Button } from "../../../../components/ui/button";
+import { Input } from "../../../../components/ui/input";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+
+interface GradeReleaseControlProps {
+  assignment: Assignment;
+  onAssignmentUpdated?: (assignment: Assignment) => void;
+}
+
+/**
+ * Returns every graded submission of an assignment to its student at once,
+ * either now or at a scheduled time
+ */
+export const GradeReleaseControl: React.FC<GradeReleaseControlProps> = ({
+  assignment,
+  onAssignmentUpdated,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [releaseAt, setReleaseAt] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const scheduledFor = assignment.settings?.gradeReleaseAt ?? null;
+
+  const updateScheduledRelease = (gradeReleaseAt: string | null) => {
+    onAssignmentUpdated?.({
+      ...assignment,
+      settings: { ...assignment.settings, gradeReleaseAt },
+    });
+  };
+
+  const handleRelease = async (scheduleAt?: string) => {
+    if (
+      !scheduleAt &&
+      !window.confirm("Return all graded submissions to students now?")
+    ) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const response = await apiClient.releaseGrades(assignment.id, scheduleAt);
+      const { released, scheduledFor: newSchedule } = response.data;
+      updateScheduledRelease(newSchedule);
+      if (newSchedule) {
+        toast({
+          title: "Grade release scheduled",
+          description: `Grades will be returned ${new Date(
+            newSchedule
+          ).toLocaleString()}.`,
+        });
+      } else {
+        queryClient.invalidateQueries({
+          queryKey: ["submissions", "with-students", assignment.id],
+        });
+        toast({
+          title: "Grades released",
+          description: `${released} grade${
+            released !== 1 ? "s" : ""
+          } returned to students.`,
+        });
+      }
+      setIsScheduling(false);
+      setReleaseAt("");
+    } catch (error: any) {
+      toast({
+        title: "Error releasing grades",
+        description: error.message || "Failed to release grades",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelSchedule = async () => {
+    setIsSaving(true);
+    try {
+      await apiClient.cancelGradeRelease(assignment.id);
+      updateScheduledRelease(null);
+    } catch (error: any) {
+      toast({
+        title: "Error cancelling release",
+        description: error.message || "Failed to cancel the scheduled release",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {scheduledFor && (
+        <div className="flex items-center gap-1.5 px-3 py-2 rounded-md bg-blue-50 dark:bg-blue-950/40 border border-blue-200 dark:border-blue-800 text-xs text-blue-700 dark:text-blue-300">
+          <CalendarClock className="w-3.5 h-3.5 flex-shrink-0" />
+          <span className="flex-1">
+            Grades release {new Date(scheduledFor).toLocaleString()}
+          </span>
+          <button
+            onClick={handleCancelSchedule}
+            disabled={isSaving}
+            className="text-blue-700 dark:text-blue-300 hover:text-foreground"
+            title="Cancel scheduled release"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+      {isScheduling ? (
+        <div className="flex gap-2">
+          <Input
+            type="datetime-local"
+            value={releaseAt}
+            onChange={(e) => setReleaseAt(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Button
+            size="sm"
+            className="h-8 text-xs"
+            disabled={!releaseAt || isSaving}
+            onClick={() => handleRelease(new Date(releaseAt).toISOString())}
+          >
+            Schedule
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setIsScheduling(false)}
+          >
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 text-xs"
+            disabled={isSaving}
+            onClick={() => handleRelease()}
+          >
+            <Send className="w-3 h-3 mr-1.5" />
+            Release Grades
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs"
+            disabled={isSaving}
+            onClick={() => setIsScheduling(true)}
+            title="Schedule grade release"
+          >
+            <CalendarClock className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -5,10 +5,17 @@ import { Label } from "../../../../components/ui/label";
 import { Textarea } from "../../../../components/ui/textarea";
 import { useToast } from "../../../../hooks/use-toast";
 import { useEnsureGrader } from "../../../../hooks/useEnsureGrader";
-import { Loader2 } from "lucide-react";
+import { Loader2, RotateCcw } from "lucide-react";
 import { apiClient } from "../../../../lib/api";
 import RubricGrading from "./rubric/RubricGrading";
+import { ScoreHistory } from "./ScoreHistory";
+import { AiGradingSuggestions } from "./AiGradingSuggestions";
 import { calculateAssignmentPoints } from "../../../../utils/assignmentPoints";
+import {
+  calculateGraderScore,
+  formatLateDuration,
+  getLatePenaltyPoints,
+} from "../../../../utils/graderScore";
 
 interface GradingControlsProps {
   grader: Grader | null;
@@ -69,11 +76,15 @@ export const GradingControls: React.FC<GradingControlsProps> = React.memo(
       grader?.score_modifier || "0"
     );
     const [feedback, setFeedback] = useState(grader?.feedback || "");
+    const [latePenalty, setLatePenalty] = useState(
+      String(grader?.late_penalty_percent ?? 0)
+    );
 
     // Update local state when grader prop changes
     useEffect(() => {
       setScoreModifier(grader?.score_modifier || "0");
       setFeedback(grader?.feedback || "");
+      setLatePenalty(String(grader?.late_penalty_percent ?? 0));
       // Clear local override once server data arrives
       setLocalRubricScore(null);
     }, [grader]);
@@ -156,17 +167,28 @@ export const GradingControls: React.FC<GradingControlsProps> = React.memo(
 
     // Calculate final grade
     const calculateFinalGrade = useCallback(
-      (modifier: string): number => {
-        const rawAssignmentScore = grader?.raw_assignment_score || 0;
-        const rawRubricScore = localRubricScore ?? grader?.raw_rubric_score ?? 0;
-        const baseScore = rawAssignmentScore + Number(rawRubricScore);
-        const modifierValue = parseFloat(modifier) || 0;
-        return baseScore + modifierValue;
-      },
+      (modifier: string): number =>
+        calculateGraderScore({
+          raw_assignment_score: grader?.raw_assignment_score || 0,
+          raw_rubric_score: localRubricScore ?? grader?.raw_rubric_score ?? 0,
+          late_penalty_percent: grader?.late_penalty_percent,
+          score_modifier: modifier,
+        }),
       [grader, localRubricScore]
     );
 
     const finalGrade = calculateFinalGrade(scoreModifier);
+    const latePenaltyPoints = grader
+      ? getLatePenaltyPoints({
+          ...grader,
+          raw_rubric_score: localRubricScore ?? grader.raw_rubric_score,
+        })
+      : 0;
+    const showLatePenalty =
+      !!grader &&
+      ((grader.late_minutes ?? 0) > 0 ||
+        Number(grader.late_penalty_percent) > 0 ||
+        !!grader.late_penalty_overridden);
     const totalPossible = calculateAssignmentPoints(assignmentContent, rubricSchema);
 
     // Debounced auto-save (500ms)
@@ -231,7 +253,7 @@ export const GradingControls: React.FC<GradingControlsProps> = React.memo(
       }
     };
 
-    const handleRubricUpdate = async (values: number[]) => {
+    const handleRubricUpdate = async (values: number[], comments: string[]) => {
       if (!rubricSchema) return;
 
       try {
@@ -250,15 +272,16 @@ export const GradingControls: React.FC<GradingControlsProps> = React.memo(
 
         if (rubric) {
           // Update existing rubric
-          await apiClient.updateRubric(rubric.id, { values });
+          await apiClient.updateRubric(rubric.id, { values, comments });
           // Optimistically update local rubric state so we don't need to reload
-          setRubric({ ...rubric, values });
+          setRubric({ ...rubric, values, comments });
         } else {
           // Create new rubric
           const response = await apiClient.createRubric({
             submission_id: activeSubmissionId!,
             rubric_schema_id: rubricSchema.id,
             values,
+            comments,
           });
           setRubric(response.data);
         }
@@ -291,6 +314,35 @@ export const GradingControls: React.FC<GradingControlsProps> = React.memo(
       }
     };
 
+    // Late penalty edits are saved on blur as a manual override;
+    // passing null restores the assignment's late policy
+    const saveLatePenalty = async (percent: number | null) => {
+      setIsSaving(true);
+      try {
+        await onUpdate({ late_penalty_percent: percent });
+      } catch (error) {
+        console.error("Error saving late penalty:", error);
+        toast({
+          title: "Error",
+          description: "Failed to update late penalty",
+          variant: "destructive",
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    const handleLatePenaltyBlur = () => {
+      const value = parseFloat(latePenalty);
+      if (isNaN(value) || value < 0 || value > 100) {
+        setLatePenalty(String(grader?.late_penalty_percent ?? 0));
+        return;
+      }
+      if (value !== Number(grader?.late_penalty_percent ?? 0)) {
+        saveLatePenalty(value);
+      }
+    };
+
     const handleFeedbackChange = (
       e: React.ChangeEvent<HTMLTextAreaElement>
     ) => {
@@ -434,18 +486,77 @@ export const GradingControls: React.FC<GradingControlsProps> = React.memo(
           </div>
         </div>
 
+        {/* Late Penalty (editable per student, e.g. for accommodations) */}
+        {showLatePenalty && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label
+                htmlFor="late-penalty"
+                className="text-sm font-semibold text-foreground"
+              >
+                Late Penalty (%)
+              </Label>
+              {grader?.late_penalty_overridden && (
+                <button
+                  type="button"
+                  onClick={() => saveLatePenalty(null)}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Reset to policy
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <Input
+                id="late-penalty"
+                type="number"
+                min={0}
+                max={100}
+                step="any"
+                value={latePenalty}
+                onChange={(e) => setLatePenalty(e.target.value)}
+                onBlur={handleLatePenaltyBlur}
+                disabled={isCreating}
+                className="w-28 border-border focus:border-primary focus:ring-ring"
+              />
+              <span className="text-sm text-muted-foreground">
+                −{latePenaltyPoints} pts
+                {(grader?.late_minutes ?? 0) > 0 &&
+                  ` · submitted ${formatLateDuration(grader!.late_minutes!)} late`}
+                {grader?.late_penalty_overridden && " · overridden"}
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Rubric Grading */}
         {!isLoadingRubric && rubricSchema && (
           <div className="pt-4">
             <RubricGrading
               rubricSchema={rubricSchema}
               rubric={rubric}
+              courseId={courseId}
               onUpdate={handleRubricUpdate}
               disabled={isCreating}
             />
           </div>
         )}
 
+        {/* AI suggestions for manually graded answers */}
+        {!isLoadingRubric && submissionId && (
+          <AiGradingSuggestions
+            key={submissionId}
+            assignmentId={assignmentId}
+            assignmentContent={assignmentContent}
+            submissionId={submissionId}
+            grader={grader}
+            rubricSchema={rubricSchema}
+            rubric={rubric}
+            onApplyRubric={handleRubricUpdate}
+          />
+        )}
+
         {/* Feedback textarea */}
         <div className="space-y-2">
           <Label
@@ -466,6 +577,7 @@ export const GradingControls: React.FC<GradingControlsProps> = React.memo(
           />
         </div>
 
+        {grader?.id && <ScoreHistory key={grader.id} graderId={grader.id} />}
       </div>
     );
   }
@@ -0,0 +1,353 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, Users } from "lucide-react";
+import {
+  Assignment,
+  DistributionStrategy,
+  GradingDistribution,
+  GradingStaffMember,
+  UserRole,
+} from "../../../../types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { Button } from "../../../../components/ui/button";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import { Label } from "../../../../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+import {
+  extractAnswerBlocks,
+  extractIdeBlocks,
+} from "../../../../utils/submissionDiff";
+
+interface GradingDistributionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignment: Assignment;
+  distribution: GradingDistribution | undefined;
+}
+
+const STRATEGY_LABELS: Record<DistributionStrategy, string> = {
+  even: "Evenly across graders",
+  section: "By section",
+  block: "By question",
+};
+
+export const formatStaffName = (member: GradingStaffMember | undefined) =>
+  [member?.first_name, member?.last_name].filter(Boolean).join(" ") ||
+  "Unknown grader";
+
+/**
+ * Lets instructors split an assignment's grading across TAs, follow each
+ * grader's progress and move work off a grader who drops out
+ */
+export const GradingDistributionModal: React.FC<
+  GradingDistributionModalProps
+> = ({ isOpen, onClose, assignment, distribution }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [strategy, setStrategy] = useState<DistributionStrategy>("even");
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [blockIds, setBlockIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const staff = distribution?.staff ?? [];
+  const rows = distribution?.assignments ?? [];
+  const blocks = useMemo(
+    () => [
+      ...extractAnswerBlocks(assignment.content),
+      ...extractIdeBlocks(assignment.content),
+    ],
+    [assignment.content]
+  );
+
+  // Default to the TAs (or all staff when the course has none) and every question
+  useEffect(() => {
+    if (!isOpen) return;
+    const tas = staff.filter(
+      (member) => member.role === UserRole.TEACHING_ASSISTANT
+    );
+    setAssigneeIds((tas.length > 0 ? tas : staff).map((member) => member.id));
+    setBlockIds(blocks.map((block) => block.id));
+    if (rows.length > 0) {
+      setStrategy(rows.some((row) => row.block_id) ? "block" : "even");
+    }
+  }, [isOpen, distribution]);
+
+  const toggle = (ids: string[], id: string, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter((existing) => existing !== id);
+
+  const applyResult = (result: GradingDistribution) => {
+    queryClient.setQueryData(["grading-assignments", assignment.id], result);
+  };
+
+  const runAction = async (
+    action: () => Promise<GradingDistribution | void>,
+    errorTitle: string
+  ) => {
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (result) {
+        applyResult(result);
+      } else {
+        queryClient.invalidateQueries({
+          queryKey: ["grading-assignments", assignment.id],
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: errorTitle,
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDistribute = () => {
+    if (
+      rows.length > 0 &&
+      !window.confirm("Replace the current grading distribution?")
+    ) {
+      return;
+    }
+    runAction(
+      async () =>
+        (
+          await apiClient.distributeGrading(assignment.id, {
+            strategy,
+            assignee_ids: assigneeIds,
+            block_ids: strategy === "block" ? blockIds : undefined,
+          })
+        ).data,
+      "Error distributing grading"
+    );
+  };
+
+  const handleReassign = (member: GradingStaffMember) => {
+    if (
+      !window.confirm(
+        `Move everything assigned to ${formatStaffName(
+          member
+        )} to the other graders?`
+      )
+    ) {
+      return;
+    }
+    runAction(
+      async () =>
+        (
+          await apiClient.reassignGrading(assignment.id, {
+            from_assignee_id: member.id,
+          })
+        ).data,
+      "Error reassigning grading"
+    );
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Remove the grading distribution?")) return;
+    runAction(async () => {
+      await apiClient.clearGradingAssignments(assignment.id);
+    }, "Error clearing distribution");
+  };
+
+  const assignees = staff.filter((member) => distribution?.progress[member.id]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg flex flex-col max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-primary" />
+            Distribute Grading
+          </DialogTitle>
+          <DialogDescription>
+            Split submissions among graders. Each grader can filter the grading
+            queue to their own assignments.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 overflow-y-auto flex-1 min-h-0">
+          {assignees.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Progress</Label>
+              {assignees.map((member) => {
+                const { assigned, completed } =
+                  distribution!.progress[member.id];
+                const percent =
+                  assigned > 0 ? Math.round((completed / assigned) * 100) : 0;
+                return (
+                  <div key={member.id} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between text-xs">
+                        <span className="truncate text-foreground">
+                          {formatStaffName(member)}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {completed} / {assigned}
+                        </span>
+                      </div>
+                      <div className="h-1.5 mt-1 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full bg-primary"
+                          style={{ width: `${percent}%` }}
+                        />
+                      </div>
+                    </div>
+                    {assignees.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={isSaving}
+                        onClick={() => handleReassign(member)}
+                      >
+                        Reassign
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Distribute</Label>
+            <Select
+              value={strategy}
+              onValueChange={(value) =>
+                setStrategy(value as DistributionStrategy)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STRATEGY_LABELS) as DistributionStrategy[]).map(
+                  (key) => (
+                    <SelectItem key={key} value={key}>
+                      {STRATEGY_LABELS[key]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+            {strategy === "section" && (
+              <p className="text-xs text-muted-foreground">
+                Students go to a grader enrolled in their section; students in
+                sections without a grader are spread evenly.
+              </p>
+            )}
+            {strategy !== "block" && (
+              <p className="text-xs text-muted-foreground">
+                Only students who have submitted are assigned. Distribute again
+                to include later submissions.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Graders</Label>
+            {staff.map((member) => (
+              <div key={member.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`assignee-${member.id}`}
+                  checked={assigneeIds.includes(member.id)}
+                  onCheckedChange={(checked) =>
+                    setAssigneeIds((ids) =>
+                      toggle(ids, member.id, checked as boolean)
+                    )
+                  }
+                />
+                <Label
+                  htmlFor={`assignee-${member.id}`}
+                  className="text-sm font-normal"
+                >
+                  {formatStaffName(member)}
+                  <span className="text-muted-foreground">
+                    {member.role === UserRole.TEACHING_ASSISTANT
+                      ? " · TA"
+                      : " · Instructor"}
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {strategy === "block" && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Questions</Label>
+              {blocks.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  This assignment has no questions to distribute.
+                </p>
+              )}
+              {blocks.map((block) => (
+                <div key={block.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`block-${block.id}`}
+                    checked={blockIds.includes(block.id)}
+                    onCheckedChange={(checked) =>
+                      setBlockIds((ids) =>
+                        toggle(ids, block.id, checked as boolean)
+                      )
+                    }
+                  />
+                  <Label
+                    htmlFor={`block-${block.id}`}
+                    className="text-sm font-normal truncate"
+                  >
+                    {block.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 flex-shrink-0">
+          {rows.length > 0 && (
+            <Button
+              variant="outline"
+              disabled={isSaving}
+              onClick={handleClear}
+              className="mr-auto"
+            >
+              Clear
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button
+            disabled={
+              isSaving ||
+              assigneeIds.length === 0 ||
+              (strategy === "block" && blockIds.length === 0)
+            }
+            onClick={handleDistribute}
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Distribute
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,15 +3,24 @@ import { Assignment } from "../../../../types";
 import { Button } from "../../../../components/ui/button";
 import { Input } from "../../../../components/ui/input";
 import { Skeleton } from "../../../../components/ui/skeleton";
-import { ArrowLeft, Check, ChevronLeft, ChevronRight, Circle, Eye, EyeOff, RefreshCw, Search } from "lucide-react";
+import { ArrowLeft, Check, ChevronLeft, ChevronRight, Circle, Eye, EyeOff, RefreshCw, ScanSearch, Search, Users, UserX } from "lucide-react";
 import { GradingControls } from "./GradingControls";
 import { RerunAutograderModal } from "./RerunAutograderModal";
+import { GradeReleaseControl } from "./GradeReleaseControl";
+import { RegradeQueue } from "./RegradeQueue";
+import {
+  GradingDistributionModal,
+  formatStaffName,
+} from "./GradingDistributionModal";
+import { SimilarityReportModal } from "./SimilarityReportModal";
 import {
   useSubmissionsWithStudents,
   useCourseSections,
   useAutoSaveGrader,
   useSubmissionUpdates,
+  useGradingAssignments,
 } from "../../../../hooks/useGradingQueries";
+import { useAuth } from "../../../../contexts/AuthContext";
 import { useToast } from "../../../../hooks/use-toast";
 import { useDebounce } from "../../../../hooks/useDebounce";
 import { useQueryClient } from "@tanstack/react-query";
@@ -25,6 +34,17 @@ import {
 } from "../../../../components/ui/select";
 import { getSubmissionStatus } from "../../../../utils/submissionStatus";
 import { calculateAssignmentPoints } from "../../../../utils/assignmentPoints";
+import { calculateGraderScore } from "../../../../utils/graderScore";
+import {
+  extractAnswerBlocks,
+  extractIdeBlocks,
+} from "../../../../utils/submissionDiff";
+import { getQuestionBlocks } from "../../../../utils/questionGrading";
+import {
+  formatStudentName,
+  isBlindGradingActive,
+  isGradingFinalized,
+} from "../../../../utils/blindGrading";
 import {
   Tooltip,
   TooltipContent,
@@ -43,6 +63,17 @@ interface StudentSubmissionInfo {
   grader: any | null;
 }
 
+/**
+ * Number of auto-scored blocks (e.g. keyword/regex short answers) that scored
+ * below full credit and still need a TA to confirm the score
+ */
+const countBlocksNeedingReview = (grader: any): number => {
+  if (!grader?.block_scores || grader.reviewed_at) return 0;
+  return Object.values(grader.block_scores).filter(
+    (score: any) => score?.needsReview
+  ).length;
+};
+
 interface GradingSidebarProps {
   assignment: Assignment;
   courseId: string;
@@ -50,6 +81,10 @@ interface GradingSidebarProps {
   selectedStudent: StudentSubmissionInfo | null;
   selectedSubmissionId?: string;
   initialStudentId?: string;
+  canRevealIdentities?: boolean; // Instructors can reveal names on blind-graded assignments
+  onAssignmentUpdated?: (assignment: Assignment) => void;
+  canDistributeGrading?: boolean; // Instructors can split grading across TAs
+  onGradeByQuestion?: (blockId: string) => void;
 }
 
 const GradingSidebar: React.FC<GradingSidebarProps> = ({
@@ -59,8 +94,13 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
   selectedStudent,
   selectedSubmissionId,
   initialStudentId,
+  canRevealIdentities = false,
+  onAssignmentUpdated,
+  canDistributeGrading = false,
+  onGradeByQuestion,
 }) => {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedSectionId, setSelectedSectionId] = useState<string | null>(
@@ -68,8 +108,13 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
   );
   const [isRerunModalOpen, setIsRerunModalOpen] = useState(false);
   const [isSubmittingForStudent, setIsSubmittingForStudent] = useState(false);
+  const [isRevealing, setIsRevealing] = useState(false);
   const [showGrades, setShowGrades] = useState(false);
   const [selectedStatusFilter, setSelectedStatusFilter] = useState<string>("all");
+  // "all" or the user ID of the grader whose assigned students are shown
+  const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
+  const [isDistributionModalOpen, setIsDistributionModalOpen] = useState(false);
+  const [isSimilarityModalOpen, setIsSimilarityModalOpen] = useState(false);
   // Optimistic reviewed state: studentId -> boolean override
   const [reviewedOverrides, setReviewedOverrides] = useState<Record<string, boolean>>({});
 
@@ -88,6 +133,8 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
   const { data: sectionsData, isLoading: isLoadingSections } =
     useCourseSections(courseId);
 
+  const { data: distribution } = useGradingAssignments(assignment.id);
+
   const autoSaveGraderMutation = useAutoSaveGrader();
 
   const isLoading = isLoadingSubmissions || isLoadingSections;
@@ -155,6 +202,82 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
   }, [submissionsData]);
 
   const sections = sectionsData || [];
+
+  const isBlind = isBlindGradingActive(assignment.settings);
+  const canReveal = useMemo(
+    () => isGradingFinalized(students.flatMap((student) => student.submissions)),
+    [students]
+  );
+
+  const handleRevealIdentities = async () => {
+    setIsRevealing(true);
+    try {
+      const response = await apiClient.revealBlindGrading(assignment.id);
+      onAssignmentUpdated?.(response.data);
+      queryClient.invalidateQueries({
+        queryKey: ["submissions", "with-students", assignment.id],
+      });
+      toast({
+        title: "Identities revealed",
+        description: "Student names are now visible to graders.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error revealing identities",
+        description: error.message || "Failed to reveal student identities",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+  // Student -> assigned grader, for even and by-section distributions
+  const assigneeByStudent = useMemo(
+    () =>
+      new Map(
+        (distribution?.assignments || [])
+          .filter((row) => row.student_id)
+          .map((row) => [row.student_id!, row.assignee_id])
+      ),
+    [distribution]
+  );
+  // Questions given to the current user in a by-question distribution
+  const myAssignedBlocks = useMemo(() => {
+    const blockIds = new Set(
+      (distribution?.assignments || [])
+        .filter((row) => row.block_id && row.assignee_id === user?.id)
+        .map((row) => row.block_id)
+    );
+    return [
+      ...extractAnswerBlocks(assignment.content),
+      ...extractIdeBlocks(assignment.content),
+    ].filter((block) => blockIds.has(block.id));
+  }, [distribution, user?.id, assignment.content]);
+
+  const questionBlocks = useMemo(
+    () =>
+      getQuestionBlocks(
+        assignment.content,
+        students.map((student) => student.grader)
+      ),
+    [assignment.content, students]
+  );
+
+  const hasIdeBlocks = useMemo(
+    () => extractIdeBlocks(assignment.content).length > 0,
+    [assignment.content]
+  );
+
+  // Start on "my assigned" when the current user has students assigned
+  const assigneeFilterInitialized = useRef(false);
+  useEffect(() => {
+    if (!distribution || assigneeFilterInitialized.current) return;
+    assigneeFilterInitialized.current = true;
+    if (user?.id && Array.from(assigneeByStudent.values()).includes(user.id)) {
+      setAssigneeFilter(user.id);
+    }
+  }, [distribution, assigneeByStudent, user?.id]);
+
   const totalPossiblePoints = useMemo(
     () => calculateAssignmentPoints(assignment.content),
     [assignment.content]
@@ -229,6 +352,12 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
       );
     }
 
+    if (assigneeFilter !== "all") {
+      filtered = filtered.filter(
+        (student) => assigneeByStudent.get(student.userId) === assigneeFilter
+      );
+    }
+
     if (selectedStatusFilter !== "all") {
       filtered = filtered.filter((student) => {
         switch (selectedStatusFilter) {
@@ -240,6 +369,8 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
             return student.latestSubmission?.status === "submitted" || student.latestSubmission?.status === "graded";
           case "reviewed":
             return !!student.grader?.reviewed_at;
+          case "needs-review":
+            return countBlocksNeedingReview(student.grader) > 0;
           default:
             return true;
         }
@@ -249,11 +380,21 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
     filtered.sort((a, b) => {
       const lastNameA = a.lastName?.toLowerCase() || "";
       const lastNameB = b.lastName?.toLowerCase() || "";
-      return lastNameA.localeCompare(lastNameB);
+      return (
+        lastNameA.localeCompare(lastNameB) ||
+        (a.firstName?.toLowerCase() || "").localeCompare(b.firstName?.toLowerCase() || "")
+      );
     });
 
     return filtered;
-  }, [students, debouncedSearchQuery, selectedSectionId, selectedStatusFilter]);
+  }, [
+    students,
+    debouncedSearchQuery,
+    selectedSectionId,
+    selectedStatusFilter,
+    assigneeFilter,
+    assigneeByStudent,
+  ]);
 
   // Student navigation
   const currentStudentIndex = useMemo(() => {
@@ -419,6 +560,7 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
     const canSubmitForStudent = activeSubmissionStatus === "in-progress" && activeSubmissionIdForControls;
     const activeGrader = activeSubmission?._grader ?? selectedStudent.grader;
     const isReviewed = reviewedOverrides[selectedStudent.userId] ?? !!activeGrader?.reviewed_at;
+    const pendingReviewCount = isReviewed ? 0 : countBlocksNeedingReview(activeGrader);
 
     const sortedSubs = [...selectedStudent.submissions].sort(
       (a: any, b: any) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
@@ -463,7 +605,7 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
             </Button>
             <div className="flex-1 text-center min-w-0">
               <div className="font-semibold text-foreground truncate">
-                {selectedStudent.firstName} {selectedStudent.lastName}
+                {`${selectedStudent.firstName} ${selectedStudent.lastName}`.trim()}
               </div>
               <div className="text-xs text-muted-foreground">
                 {currentStudentIndex + 1} of {filteredStudents.length}
@@ -511,6 +653,12 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
           students={[selectedStudent]}
         />
         <>
+          {pendingReviewCount > 0 && (
+            <div className="mx-4 mt-2 px-3 py-2 rounded-md bg-amber-50 dark:bg-amber-950/40 border border-amber-200 dark:border-amber-800 text-xs text-amber-700 dark:text-amber-300">
+              {pendingReviewCount} auto-scored answer{pendingReviewCount !== 1 ? "s" : ""} pending
+              review. Mark as reviewed once confirmed.
+            </div>
+          )}
           {isResubmittingInProgress && (
             <div className="mx-4 mt-2 px-3 py-2 rounded-md bg-amber-50 dark:bg-amber-950/40 border border-amber-200 dark:border-amber-800 text-xs text-amber-700 dark:text-amber-300">
               Student has an in-progress resubmission
@@ -564,6 +712,103 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
   return (
     <div className="h-full flex flex-col">
       <div className="p-4 space-y-2 border-b">
+        {isBlind && (
+          <div className="px-3 py-2 rounded-md bg-purple-50 dark:bg-purple-950/40 border border-purple-200 dark:border-purple-800 text-xs text-purple-700 dark:text-purple-300 space-y-2">
+            <div className="flex items-center gap-1.5">
+              <UserX className="w-3.5 h-3.5 flex-shrink-0" />
+              Blind grading: student names are hidden
+            </div>
+            {canRevealIdentities && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!canReveal || isRevealing}
+                onClick={handleRevealIdentities}
+                className="w-full h-7 text-xs"
+                title={canReveal ? undefined : "Review every submission before revealing identities"}
+              >
+                {isRevealing ? "Revealing..." : "Reveal Identities"}
+              </Button>
+            )}
+          </div>
+        )}
+        <GradeReleaseControl
+          assignment={assignment}
+          onAssignmentUpdated={onAssignmentUpdated}
+        />
+        <RegradeQueue
+          assignment={assignment}
+          courseId={courseId}
+          onStudentSelect={(studentId) => {
+            const student = students.find((s) => s.userId === studentId);
+            if (student) onStudentSelect(student);
+          }}
+        />
+        {canDistributeGrading && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full text-xs"
+            onClick={() => setIsDistributionModalOpen(true)}
+          >
+            <Users className="w-3 h-3 mr-1.5" />
+            Distribute Grading
+          </Button>
+        )}
+        {canDistributeGrading && hasIdeBlocks && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full text-xs"
+            onClick={() => setIsSimilarityModalOpen(true)}
+          >
+            <ScanSearch className="w-3 h-3 mr-1.5" />
+            Check Code Similarity
+          </Button>
+        )}
+        {onGradeByQuestion && questionBlocks.length > 0 && (
+          <Select value="" onValueChange={onGradeByQuestion}>
+            <SelectTrigger>
+              <SelectValue placeholder="Grade by question" />
+            </SelectTrigger>
+            <SelectContent>
+              {questionBlocks.map((block) => (
+                <SelectItem key={block.id} value={block.id}>
+                  {block.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {myAssignedBlocks.length > 0 && (
+          <div className="px-3 py-2 rounded-md bg-muted text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">Your questions: </span>
+            {myAssignedBlocks.map((block) => block.label).join(", ")}
+          </div>
+        )}
+        {assigneeByStudent.size > 0 && (
+          <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+            <SelectTrigger>
+              <SelectValue placeholder="All graders" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All graders</SelectItem>
+              {user?.id && distribution?.progress[user.id] && (
+                <SelectItem value={user.id}>My assigned</SelectItem>
+              )}
+              {(distribution?.staff || [])
+                .filter(
+                  (member) =>
+                    member.id !== user?.id && distribution?.progress[member.id]
+                )
+                .map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    Assigned to {formatStaffName(member)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        )}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
@@ -609,6 +854,7 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
               <SelectItem value="in-progress">In Progress</SelectItem>
               <SelectItem value="submitted">Submitted</SelectItem>
               <SelectItem value="reviewed">Reviewed</SelectItem>
+              <SelectItem value="needs-review">Pending Review</SelectItem>
             </SelectContent>
           </Select>
           <button
@@ -640,6 +886,9 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
                 reviewedOverrides[student.userId] ??
                 (student.grader?.reviewed_at !== null && student.grader?.reviewed_at !== undefined);
               const canToggleReviewed = !!student.grader?.id;
+              const pendingReviewCount = isReviewed
+                ? 0
+                : countBlocksNeedingReview(student.grader);
 
               // Detect in-progress resubmission
               const sortedStudentSubs = [...student.submissions].sort(
@@ -657,7 +906,7 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
                 >
                   <div className="flex-1 min-w-0">
                     <div className="font-medium text-foreground text-sm truncate">
-                      {student.lastName}, {student.firstName}
+                      {formatStudentName(student)}
                       {student.submissions.length > 1 && (
                         <span className="ml-2 text-xs bg-accent text-muted-foreground rounded-full px-1.5 py-0.5">
                           {student.submissions.length}x
@@ -666,9 +915,14 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
                     </div>
                     <div className={`text-xs mt-0.5 ${isStudentResubmitting ? "text-amber-600 dark:text-amber-400" : status.color}`}>
                       {isStudentResubmitting ? "Resubmitting" : status.label}
+                      {pendingReviewCount > 0 && (
+                        <span className="ml-1.5 text-amber-600 dark:text-amber-400">
+                          · Auto-scored, pending review
+                        </span>
+                      )}
                       {showGrades && hasGrade && (
                         <span className="ml-1.5 font-semibold text-foreground">
-                          · {(Number(student.grader.raw_assignment_score) || 0) + (Number(student.grader.raw_rubric_score) || 0) + (parseFloat(student.grader.score_modifier) || 0)}{totalPossiblePoints > 0 ? `/${totalPossiblePoints}` : ""}
+                          · {calculateGraderScore(student.grader)}{totalPossiblePoints > 0 ? `/${totalPossiblePoints}` : ""}
                         </span>
                       )}
                     </div>
@@ -713,6 +967,21 @@ const GradingSidebar: React.FC<GradingSidebarProps> = ({
           </div>
         )}
       </div>
+      {canDistributeGrading && (
+        <GradingDistributionModal
+          isOpen={isDistributionModalOpen}
+          onClose={() => setIsDistributionModalOpen(false)}
+          assignment={assignment}
+          distribution={distribution}
+        />
+      )}
+      {canDistributeGrading && hasIdeBlocks && (
+        <SimilarityReportModal
+          isOpen={isSimilarityModalOpen}
+          onClose={() => setIsSimilarityModalOpen(false)}
+          assignment={assignment}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,433 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Keyboard, Loader2, X } from "lucide-react";
+import { Assignment, BlockScore, Grader, Submission } from "../../../../types";
+import { Button } from "../../../../components/ui/button";
+import { Badge } from "../../../../components/ui/badge";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import { Input } from "../../../../components/ui/input";
+import { Label } from "../../../../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+import { useSubmissionsWithStudents } from "../../../../hooks/useGradingQueries";
+import { formatStudentName } from "../../../../utils/blindGrading";
+import {
+  formatAnswer,
+  getSnapshotBucketId,
+} from "../../../../utils/submissionDiff";
+import {
+  AnswerGroup,
+  getQuestionBlocks,
+  groupIdenticalAnswers,
+} from "../../../../utils/questionGrading";
+import { IdeBlockDiff } from "../SubmissionDiffView";
+
+interface QuestionGradingViewProps {
+  assignment: Assignment;
+  blockId: string;
+  onBlockChange: (blockId: string) => void;
+  onClose: () => void;
+}
+
+interface QuestionResponse {
+  studentName: string;
+  submission: Submission;
+  grader: Grader | null;
+}
+
+const SUBMITTED_STATUSES = new Set(["submitted", "graded", "returned"]);
+
+const formatPoints = (points: number) =>
+  Number.isInteger(points) ? String(points) : points.toFixed(2);
+
+/**
+ * Walks one question across every student's latest submitted attempt, with
+ * keyboard shortcuts to score and move on. Identical answers can be grouped
+ * so one score applies to all of them.
+ */
+export const QuestionGradingView: React.FC<QuestionGradingViewProps> = ({
+  assignment,
+  blockId,
+  onBlockChange,
+  onClose,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: submissionsData, isLoading } = useSubmissionsWithStudents(
+    assignment.id
+  );
+  const [groupIdentical, setGroupIdentical] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [score, setScore] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Latest submitted attempt per student
+  const responses = useMemo(() => {
+    const latest = new Map<string, QuestionResponse>();
+    for (const item of submissionsData || []) {
+      if (!item.submission || !SUBMITTED_STATUSES.has(item.submission.status)) {
+        continue;
+      }
+      const current = latest.get(item.student.id);
+      if (
+        !current ||
+        new Date(item.submission.timestamp) >
+          new Date(current.submission.timestamp)
+      ) {
+        latest.set(item.student.id, {
+          studentName: formatStudentName(item.student),
+          submission: item.submission,
+          grader: item.grader,
+        });
+      }
+    }
+    return Array.from(latest.values()).sort((a, b) =>
+      a.studentName.localeCompare(b.studentName)
+    );
+  }, [submissionsData]);
+
+  const blocks = useMemo(
+    () =>
+      getQuestionBlocks(
+        assignment.content,
+        responses.map((response) => response.grader)
+      ),
+    [assignment.content, responses]
+  );
+  const block = blocks.find((candidate) => candidate.id === blockId);
+  const canGroup = block?.kind === "answer";
+
+  const groups = useMemo<AnswerGroup<QuestionResponse>[]>(
+    () =>
+      canGroup && groupIdentical
+        ? groupIdenticalAnswers(
+            responses,
+            (response) => response.submission.values?.[blockId]
+          )
+        : responses.map((response) => ({
+            key: response.submission.id,
+            items: [response],
+          })),
+    [responses, blockId, canGroup, groupIdentical]
+  );
+
+  const group = groups[Math.min(index, groups.length - 1)];
+  const scores = (group?.items || [])
+    .map((response) => response.grader?.block_scores?.[blockId])
+    .filter((blockScore): blockScore is BlockScore => !!blockScore);
+  const possible = Math.max(
+    block?.kind === "answer" ? block.manualPoints ?? 0 : 0,
+    ...scores.map((s) => s.possible)
+  );
+  const sharedAwarded =
+    scores.length > 0 && scores.every((s) => s.awarded === scores[0].awarded)
+      ? scores[0].awarded
+      : null;
+  const needsReview = scores.some((s) => s.needsReview && !s.overridden);
+  const gradedCount = groups.filter((candidate) =>
+    candidate.items.every((response) => {
+      const blockScore = response.grader?.block_scores?.[blockId];
+      return blockScore && !(blockScore.needsReview && !blockScore.overridden);
+    })
+  ).length;
+
+  // Start each question at the first response, and each response at its current score
+  useEffect(() => {
+    setIndex(0);
+  }, [blockId, groupIdentical]);
+
+  useEffect(() => {
+    setScore(sharedAwarded === null ? "" : String(sharedAwarded));
+  }, [group?.key, sharedAwarded]);
+
+  const goTo = useCallback(
+    (next: number) => {
+      setIndex(Math.max(0, Math.min(groups.length - 1, next)));
+    },
+    [groups.length]
+  );
+
+  const saveScore = useCallback(
+    async (value: string) => {
+      if (!group || isSaving) return;
+      const awarded = Number(value);
+      if (
+        value.trim() === "" ||
+        isNaN(awarded) ||
+        awarded < 0 ||
+        awarded > possible
+      ) {
+        toast({
+          title: "Invalid score",
+          description: `Enter a score between 0 and ${formatPoints(possible)}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setIsSaving(true);
+      try {
+        await apiClient.setBlockScores(assignment.id, blockId, {
+          submission_ids: group.items.map((response) => response.submission.id),
+          awarded,
+        });
+        await queryClient.invalidateQueries({
+          queryKey: ["submissions", "with-students", assignment.id],
+        });
+        goTo(index + 1);
+      } catch (error: any) {
+        toast({
+          title: "Failed to save score",
+          description: error.message || "Something went wrong",
+          variant: "destructive",
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [
+      group,
+      isSaving,
+      possible,
+      assignment.id,
+      blockId,
+      queryClient,
+      goTo,
+      index,
+      toast,
+    ]
+  );
+
+  // F = full credit, Z = zero, Enter = save and advance, J/K or arrows = move
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const tag = target?.tagName?.toLowerCase();
+      const isTyping =
+        tag === "input" ||
+        tag === "textarea" ||
+        !!target?.closest?.('[contenteditable="true"]');
+
+      // Focused buttons handle Enter themselves
+      if (
+        e.key === "Enter" &&
+        tag !== "button" &&
+        (!isTyping || target.id === "question-score")
+      ) {
+        e.preventDefault();
+        saveScore(score);
+        return;
+      }
+      if (isTyping || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "f") {
+        e.preventDefault();
+        setScore(String(possible));
+        saveScore(String(possible));
+      } else if (key === "z") {
+        e.preventDefault();
+        setScore("0");
+        saveScore("0");
+      } else if (
+        key === "j" ||
+        e.key === "ArrowDown" ||
+        e.key === "ArrowRight"
+      ) {
+        e.preventDefault();
+        goTo(index + 1);
+      } else if (key === "k" || e.key === "ArrowUp" || e.key === "ArrowLeft") {
+        e.preventDefault();
+        goTo(index - 1);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [saveScore, score, possible, goTo, index]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" />
+        Loading responses...
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-4xl mx-auto p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Select value={blockId} onValueChange={onBlockChange}>
+            <SelectTrigger className="flex-1 min-w-0">
+              <SelectValue placeholder="Select a question" />
+            </SelectTrigger>
+            <SelectContent>
+              {blocks.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4 mr-1" />
+            Exit
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          {canGroup ? (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="group-identical"
+                checked={groupIdentical}
+                onCheckedChange={(checked) =>
+                  setGroupIdentical(checked as boolean)
+                }
+              />
+              <Label htmlFor="group-identical" className="font-normal">
+                Group identical answers
+              </Label>
+            </div>
+          ) : (
+            <span />
+          )}
+          <span className="text-muted-foreground">
+            {gradedCount} of {groups.length} graded
+          </span>
+        </div>
+
+        {!block || !group ? (
+          <p className="text-sm text-muted-foreground">
+            {block
+              ? "No submitted responses to this question yet."
+              : "This question isn't scored per question."}
+          </p>
+        ) : (
+          <div className="border border-border rounded-lg overflow-hidden">
+            <div className="flex items-center gap-2 px-4 py-2 bg-muted/50 border-b border-border">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-8 h-8 p-0"
+                disabled={index === 0}
+                onClick={() => goTo(index - 1)}
+                title="Previous (K)"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <div className="flex-1 min-w-0 text-center">
+                <div className="text-sm font-medium text-foreground truncate">
+                  {group.items.length === 1
+                    ? group.items[0].studentName
+                    : `${group.items.length} students`}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {index + 1} of {groups.length}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-8 h-8 p-0"
+                disabled={index >= groups.length - 1}
+                onClick={() => goTo(index + 1)}
+                title="Next (J)"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {block.kind === "ide" ? (
+                <IdeBlockDiff
+                  key={group.key}
+                  block={block}
+                  originalBucketId={block.modelSolutionBucketId}
+                  modifiedBucketId={getSnapshotBucketId(
+                    group.items[0].submission.values,
+                    block.id
+                  )}
+                  originalLabel="Model solution"
+                  modifiedLabel={group.items[0].studentName}
+                />
+              ) : (
+                <pre className="p-3 rounded-md bg-muted text-sm font-mono whitespace-pre-wrap break-words">
+                  {formatAnswer(
+                    group.items[0].submission.values?.[blockId]
+                  ) || <span className="text-muted-foreground">No answer</span>}
+                </pre>
+              )}
+
+              {group.items.length > 1 && (
+                <p className="text-xs text-muted-foreground">
+                  {group.items
+                    .map((response) => response.studentName)
+                    .join("; ")}
+                </p>
+              )}
+
+              <div className="flex items-center gap-3">
+                <Label htmlFor="question-score" className="text-sm">
+                  Score
+                </Label>
+                <Input
+                  id="question-score"
+                  type="number"
+                  min={0}
+                  max={possible}
+                  step="any"
+                  value={score}
+                  placeholder={sharedAwarded === null ? "Mixed" : undefined}
+                  onChange={(e) => setScore(e.target.value)}
+                  className="w-24"
+                />
+                <span className="text-sm text-muted-foreground">
+                  / {formatPoints(possible)}
+                </span>
+                {needsReview && (
+                  <Badge
+                    variant="outline"
+                    className="text-amber-600 border-amber-400"
+                  >
+                    Needs review
+                  </Badge>
+                )}
+                {scores.some((s) => s.overridden) && (
+                  <Badge variant="secondary">Set by hand</Badge>
+                )}
+                <Button
+                  size="sm"
+                  className="ml-auto"
+                  disabled={isSaving}
+                  onClick={() => saveScore(score)}
+                >
+                  {isSaving && (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  )}
+                  {group.items.length > 1
+                    ? `Save for ${group.items.length}`
+                    : "Save"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Keyboard className="w-3.5 h-3.5" />F full credit · Z zero · Enter
+          save and next · J/K next and previous
+        </div>
+      </div>
+    </div>
+  );
+};
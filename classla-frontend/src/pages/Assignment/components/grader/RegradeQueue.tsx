@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, MessageSquareWarning } from "lucide-react";
+import { Assignment, RegradeRequest } from "../../../../types";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+import { Button } from "../../../../components/ui/button";
+import { Input } from "../../../../components/ui/input";
+import { Textarea } from "../../../../components/ui/textarea";
+import {
+  describeRegradeTarget,
+  getRegradeTargets,
+} from "../../../../utils/regradeRequests";
+
+interface RegradeQueueProps {
+  assignment: Assignment;
+  courseId: string;
+  onStudentSelect: (studentId: string) => void;
+}
+
+interface RegradeQueueItemProps {
+  request: RegradeRequest;
+  targetLabel: string;
+  onStudentSelect: (studentId: string) => void;
+  onResolved: (request: RegradeRequest) => void;
+}
+
+const RegradeQueueItem: React.FC<RegradeQueueItemProps> = ({
+  request,
+  targetLabel,
+  onStudentSelect,
+  onResolved,
+}) => {
+  const { toast } = useToast();
+  const [response, setResponse] = useState("");
+  const [scoreModifier, setScoreModifier] = useState("");
+
+  const resolve = useMutation({
+    mutationFn: async (status: "accepted" | "rejected") =>
+      (
+        await apiClient.resolveRegradeRequest(request.id, {
+          status,
+          response: response.trim() || undefined,
+          score_modifier:
+            status === "accepted" && scoreModifier.trim() !== ""
+              ? Number(scoreModifier)
+              : undefined,
+        })
+      ).data,
+    onSuccess: onResolved,
+    onError: (error: any) => {
+      toast({
+        title: "Error resolving regrade request",
+        description: error.message || "Failed to resolve regrade request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invalidModifier =
+    scoreModifier.trim() !== "" && !Number.isFinite(Number(scoreModifier));
+
+  return (
+    <div className="px-3 py-2 space-y-2">
+      <button
+        onClick={() => onStudentSelect(request.student_id)}
+        className="text-left w-full"
+      >
+        <div className="text-sm font-medium text-foreground truncate hover:underline">
+          {request.student_name || "Student"}
+        </div>
+        <div className="text-xs text-muted-foreground truncate">
+          {targetLabel}
+        </div>
+      </button>
+      <p className="text-xs text-foreground whitespace-pre-wrap">
+        {request.reason}
+      </p>
+      <Textarea
+        value={response}
+        onChange={(e) => setResponse(e.target.value)}
+        placeholder="Response to the student..."
+        rows={2}
+        className="resize-none text-xs"
+      />
+      <div className="flex gap-2">
+        <Input
+          value={scoreModifier}
+          onChange={(e) => setScoreModifier(e.target.value)}
+          placeholder="New modifier"
+          title="Replaces the score modifier when accepted"
+          className="h-8 text-xs flex-1"
+        />
+        <Button
+          size="sm"
+          className="h-8 text-xs"
+          disabled={resolve.isPending || invalidModifier}
+          onClick={() => resolve.mutate("accepted")}
+        >
+          Accept
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+          disabled={resolve.isPending}
+          onClick={() => resolve.mutate("rejected")}
+        >
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Open regrade requests on an assignment for course staff to accept or
+ * reject
+ */
+export const RegradeQueue: React.FC<RegradeQueueProps> = ({
+  assignment,
+  courseId,
+  onStudentSelect,
+}) => {
+  const queryClient = useQueryClient();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const queryKey = ["regradeRequests", "course", courseId, assignment.id];
+
+  const { data: requests = [] } = useQuery({
+    queryKey,
+    queryFn: async () =>
+      (
+        await apiClient.getCourseRegradeRequests(courseId, {
+          status: "open",
+          assignment_id: assignment.id,
+        })
+      ).data,
+  });
+
+  // Block scores differ per student; label blocks from the content alone
+  const targets = useMemo(
+    () =>
+      getRegradeTargets(
+        assignment.content,
+        Object.fromEntries(
+          requests
+            .filter((request) => request.block_id)
+            .map((request) => [request.block_id!, true])
+        ),
+        assignment.rubric_schema?.items
+      ),
+    [assignment.content, assignment.rubric_schema, requests]
+  );
+
+  const handleResolved = (resolved: RegradeRequest) => {
+    queryClient.setQueryData(queryKey, (prev: RegradeRequest[] | undefined) =>
+      (prev || []).filter((request) => request.id !== resolved.id)
+    );
+    queryClient.invalidateQueries({
+      queryKey: ["submissions", "with-students", assignment.id],
+    });
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-orange-200 dark:border-orange-800 bg-orange-50 dark:bg-orange-950/40">
+      <button
+        onClick={() => setIsExpanded((v) => !v)}
+        className="flex items-center gap-1.5 w-full px-3 py-2 text-xs font-medium text-orange-700 dark:text-orange-300"
+      >
+        <MessageSquareWarning className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="flex-1 text-left">
+          {requests.length} open regrade request
+          {requests.length !== 1 ? "s" : ""}
+        </span>
+        {isExpanded ? (
+          <ChevronDown className="w-3.5 h-3.5" />
+        ) : (
+          <ChevronRight className="w-3.5 h-3.5" />
+        )}
+      </button>
+      {isExpanded && (
+        <div className="max-h-80 overflow-y-auto divide-y divide-orange-200 dark:divide-orange-800 bg-background">
+          {requests.map((request) => (
+            <RegradeQueueItem
+              key={request.id}
+              request={request}
+              targetLabel={describeRegradeTarget(request, targets)}
+              onStudentSelect={onStudentSelect}
+              onResolved={handleResolved}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
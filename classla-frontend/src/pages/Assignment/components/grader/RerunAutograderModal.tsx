@@ -10,6 +10,7 @@ import {
 } from "../../../../components/ui/dialog";
 import { Button } from "../../../../components/ui/button";
 import { apiClient } from "../../../../lib/api";
+import { formatStudentName } from "../../../../utils/blindGrading";
 import { useQueryClient } from "@tanstack/react-query";
 import {
   CheckCircle2,
@@ -24,12 +25,25 @@ import {
 
 interface GradeableBlock {
   id: string;
-  type: "mcq" | "ide";
+  type: "question" | "ide";
   label: string;
   points: number;
   testCount?: number;
 }
 
+/**
+ * Non-IDE block types scored by the backend autograder:
+ * node type -> [data attribute, field holding the prompt, fallback label]
+ */
+const QUESTION_BLOCKS: Record<string, [string, string, string]> = {
+  mcqBlock: ["mcqData", "question", "MCQ Question"],
+  fillInTheBlankBlock: ["fillInTheBlankData", "question", "Fill-in-the-Blank"],
+  parsonsProblemBlock: ["parsonsProblemData", "instruction", "Parsons Problem"],
+  dragDropMatchingBlock: ["dragDropMatchingData", "instruction", "Drag-and-Drop Matching"],
+  clickableAreaBlock: ["clickableAreaData", "instruction", "Code Selection"],
+  shortAnswerBlock: ["shortAnswerData", "prompt", "Short Answer"],
+};
+
 function stripHtml(html: string): string {
   return html.replace(/<[^>]+>/g, "").trim();
 }
@@ -40,12 +54,18 @@ function extractGradeableBlocks(content: string): GradeableBlock[] {
     const blocks: GradeableBlock[] = [];
 
     function traverse(node: any) {
-      if (node.type === "mcqBlock" && node.attrs?.mcqData) {
-        const d = node.attrs.mcqData;
-        if (d.id && typeof d.points === "number") {
-          const raw = typeof d.question === "string" ? d.question : "";
-          const label = stripHtml(raw).slice(0, 72) || "MCQ Question";
-          blocks.push({ id: d.id, type: "mcq", label, points: d.points });
+      const questionBlock = QUESTION_BLOCKS[node.type];
+      if (questionBlock && node.attrs?.[questionBlock[0]]) {
+        const [dataAttr, promptField, fallbackLabel] = questionBlock;
+        const d = node.attrs[dataAttr];
+        const isManualShortAnswer =
+          node.type === "shortAnswerBlock" &&
+          d.gradingType !== "keyword" &&
+          d.gradingType !== "regex";
+        if (d.id && typeof d.points === "number" && !isManualShortAnswer) {
+          const raw = typeof d[promptField] === "string" ? d[promptField] : "";
+          const label = stripHtml(raw).slice(0, 72) || fallbackLabel;
+          blocks.push({ id: d.id, type: "question", label, points: d.points });
         }
       }
 
@@ -265,7 +285,7 @@ export const RerunAutograderModal: React.FC<RerunAutograderModalProps> = ({
                     key={block.id}
                     className="flex items-center gap-2.5 py-1.5 px-3 rounded-md bg-muted border border-border"
                   >
-                    {block.type === "mcq" ? (
+                    {block.type === "question" ? (
                       <CircleDot className="w-4 h-4 text-purple-500 flex-shrink-0" />
                     ) : (
                       <Code className="w-4 h-4 text-blue-500 flex-shrink-0" />
@@ -336,7 +356,7 @@ export const RerunAutograderModal: React.FC<RerunAutograderModalProps> = ({
                       <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
                     )}
                     <span className="text-sm text-foreground flex-1 truncate">
-                      {row.lastName}, {row.firstName}
+                      {formatStudentName(row)}
                     </span>
                     <span className="text-xs text-muted-foreground flex-shrink-0 whitespace-nowrap">
                       {row.status === "pending" && "Pending"}
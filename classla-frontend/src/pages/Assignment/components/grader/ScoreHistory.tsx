@@ -0,0 +1,98 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import { GraderScoreChange } from "../../../../types";
+import { apiClient } from "../../../../lib/api";
+
+interface ScoreHistoryProps {
+  graderId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  raw_assignment_score: "Autograded score",
+  raw_rubric_score: "Rubric score",
+  score_modifier: "Score modifier",
+  late_penalty_percent: "Late penalty (%)",
+  block_scores: "Question scores",
+};
+
+const SOURCE_LABELS: Record<GraderScoreChange["source"], string> = {
+  manual: "edited",
+  autograder: "autograder",
+  import: "gradebook import",
+  regrade: "regrade request",
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "block_scores" && typeof value === "object") {
+    const total = Object.values(value as Record<string, any>).reduce(
+      (sum, score) => sum + (Number(score?.awarded) || 0),
+      0
+    );
+    return `${total} pts`;
+  }
+  return String(value);
+};
+
+/**
+ * Audit trail of score changes on a grader, loaded when expanded
+ */
+export const ScoreHistory: React.FC<ScoreHistoryProps> = ({ graderId }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ["graderScoreHistory", graderId],
+    queryFn: async () => (await apiClient.getGraderScoreHistory(graderId)).data,
+    enabled: isExpanded,
+  });
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((v) => !v)}
+        className="flex items-center gap-1.5 text-sm font-semibold text-foreground"
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        <History className="h-4 w-4" />
+        Score History
+      </button>
+      {isExpanded && (
+        <div className="space-y-1.5 max-h-60 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-xs text-muted-foreground">Loading...</p>
+          ) : history.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No score changes recorded.
+            </p>
+          ) : (
+            history.map((change) => (
+              <div
+                key={change.id}
+                className="rounded-md border border-border px-3 py-2 text-xs"
+              >
+                <div className="text-foreground">
+                  <span className="font-medium">
+                    {FIELD_LABELS[change.field] || change.field}
+                  </span>
+                  : {formatValue(change.field, change.old_value)} →{" "}
+                  {formatValue(change.field, change.new_value)}
+                </div>
+                <div className="text-muted-foreground">
+                  {new Date(change.created_at).toLocaleString()} ·{" "}
+                  {SOURCE_LABELS[change.source]}
+                  {change.changed_by_name && ` by ${change.changed_by_name}`}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
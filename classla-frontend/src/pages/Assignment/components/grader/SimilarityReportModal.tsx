@@ -0,0 +1,406 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, ScanSearch } from "lucide-react";
+import {
+  Assignment,
+  SimilarityMatchRegion,
+  SimilarityPair,
+  SimilarityReport,
+  SimilaritySubmission,
+} from "../../../../types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { Button } from "../../../../components/ui/button";
+import { Checkbox } from "../../../../components/ui/checkbox";
+import { Label } from "../../../../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+import { extractIdeBlocks } from "../../../../utils/submissionDiff";
+
+interface SimilarityReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignment: Assignment;
+}
+
+const formatPercent = (similarity: number) =>
+  `${Math.round(similarity * 100)}%`;
+
+const describeSubmission = (submission: SimilaritySubmission) =>
+  submission.prior_term
+    ? `${submission.student_name} (${submission.course_name ?? "prior term"})`
+    : submission.student_name;
+
+interface CodeColumnProps {
+  title: string;
+  files: { path: string; content: string }[];
+  path: string;
+  ranges: [number, number][];
+  selectedStart: number;
+  selectedEnd: number;
+}
+
+/** One side of the match view: a file with its matched lines highlighted. */
+const CodeColumn: React.FC<CodeColumnProps> = ({
+  title,
+  files,
+  path,
+  ranges,
+  selectedStart,
+  selectedEnd,
+}) => {
+  const selectedRef = useRef<HTMLDivElement>(null);
+  const lines = (files.find((file) => file.path === path)?.content ?? "").split(
+    "\n"
+  );
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: "center" });
+  }, [path, selectedStart, selectedEnd]);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col border border-border rounded-md overflow-hidden">
+      <div className="px-3 py-1.5 border-b border-border bg-muted text-xs">
+        <span className="font-medium text-foreground">{title}</span>
+        <span className="text-muted-foreground"> · {path}</span>
+      </div>
+      <div className="flex-1 overflow-auto font-mono text-xs">
+        {lines.map((line, i) => {
+          const lineNumber = i + 1;
+          const isSelected =
+            lineNumber >= selectedStart && lineNumber <= selectedEnd;
+          const isMatched = ranges.some(
+            ([start, end]) => lineNumber >= start && lineNumber <= end
+          );
+          return (
+            <div
+              key={i}
+              ref={lineNumber === selectedStart ? selectedRef : undefined}
+              className={`flex ${
+                isSelected
+                  ? "bg-amber-200 dark:bg-amber-900/60"
+                  : isMatched
+                  ? "bg-amber-50 dark:bg-amber-950/30"
+                  : ""
+              }`}
+            >
+              <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none">
+                {lineNumber}
+              </span>
+              <pre className="whitespace-pre">{line || " "}</pre>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+interface PairMatchViewProps {
+  assignmentId: string;
+  reportId: string;
+  pair: SimilarityPair;
+  onBack: () => void;
+}
+
+/** Side-by-side view of the code two submissions share. */
+const PairMatchView: React.FC<PairMatchViewProps> = ({
+  assignmentId,
+  reportId,
+  pair,
+  onBack,
+}) => {
+  const [regionIndex, setRegionIndex] = useState(0);
+  const { data: detail, isLoading } = useQuery({
+    queryKey: ["similarityPair", reportId, pair.index],
+    queryFn: async () =>
+      (await apiClient.getSimilarityPair(assignmentId, reportId, pair.index))
+        .data,
+  });
+
+  const regions = detail?.regions ?? [];
+  const region: SimilarityMatchRegion | undefined = regions[regionIndex];
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 flex-1">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" className="h-7" onClick={onBack}>
+          <ArrowLeft className="h-3 w-3 mr-1.5" />
+          All pairs
+        </Button>
+        <span className="text-sm text-foreground">
+          {describeSubmission(pair.a)} ↔ {describeSubmission(pair.b)}
+        </span>
+        <span className="ml-auto text-sm font-semibold text-foreground">
+          {formatPercent(pair.similarity)}
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : !detail || !region ? (
+        <p className="text-sm text-muted-foreground py-4">
+          No matching code outside the template.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            {regions.map((r, i) => (
+              <Button
+                key={i}
+                variant={i === regionIndex ? "default" : "outline"}
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => setRegionIndex(i)}
+              >
+                {`${r.pathA}:${r.startLineA}–${r.endLineA} ↔ ${r.pathB}:${r.startLineB}–${r.endLineB}`}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-3 min-h-0 h-[55vh]">
+            <CodeColumn
+              title={describeSubmission(detail.a)}
+              files={detail.a.files}
+              path={region.pathA}
+              ranges={regions
+                .filter((r) => r.pathA === region.pathA)
+                .map((r) => [r.startLineA, r.endLineA])}
+              selectedStart={region.startLineA}
+              selectedEnd={region.endLineA}
+            />
+            <CodeColumn
+              title={describeSubmission(detail.b)}
+              files={detail.b.files}
+              path={region.pathB}
+              ranges={regions
+                .filter((r) => r.pathB === region.pathB)
+                .map((r) => [r.startLineB, r.endLineB])}
+              selectedStart={region.startLineB}
+              selectedEnd={region.endLineB}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Instructor-only code similarity check for an assignment's IDE blocks.
+ * Template code is ignored; pairs are ranked by how much code they share.
+ */
+export const SimilarityReportModal: React.FC<SimilarityReportModalProps> = ({
+  isOpen,
+  onClose,
+  assignment,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const blocks = useMemo(
+    () => extractIdeBlocks(assignment.content),
+    [assignment.content]
+  );
+  const [blockId, setBlockId] = useState("");
+  const [includePriorTerms, setIncludePriorTerms] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [selectedPair, setSelectedPair] = useState<SimilarityPair | null>(null);
+
+  useEffect(() => {
+    if (!blockId && blocks.length > 0) setBlockId(blocks[0].id);
+  }, [blockId, blocks]);
+
+  const queryKey = ["similarityReport", assignment.id, blockId];
+  const { data: report, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () =>
+      (await apiClient.getLatestSimilarityReport(assignment.id, blockId)).data,
+    enabled: isOpen && !!blockId,
+    // Poll while the check runs in the background
+    refetchInterval: (query) =>
+      query.state.data?.status === "running" ? 3000 : false,
+  });
+
+  const handleRun = async () => {
+    setIsStarting(true);
+    try {
+      const response = await apiClient.startSimilarityReport(assignment.id, {
+        block_id: blockId,
+        include_prior_terms: includePriorTerms,
+      });
+      queryClient.setQueryData<SimilarityReport | null>(
+        queryKey,
+        response.data
+      );
+      setSelectedPair(null);
+    } catch (error: any) {
+      toast({
+        title: "Failed to start similarity check",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const isRunning = report?.status === "running";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className={`${
+          selectedPair ? "max-w-6xl" : "max-w-2xl"
+        } flex flex-col max-h-[90vh]`}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanSearch className="w-5 h-5" />
+            Code Similarity
+          </DialogTitle>
+          <DialogDescription>
+            Compares students' final code for an IDE block, ignoring the starter
+            template. A high score warrants a closer look, not a conclusion.
+          </DialogDescription>
+        </DialogHeader>
+
+        {blocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            This assignment has no IDE blocks.
+          </p>
+        ) : selectedPair && report ? (
+          <PairMatchView
+            assignmentId={assignment.id}
+            reportId={report.id}
+            pair={selectedPair}
+            onBack={() => setSelectedPair(null)}
+          />
+        ) : (
+          <div className="flex flex-col gap-4 min-h-0">
+            <div className="flex flex-wrap items-center gap-3">
+              <Select
+                value={blockId}
+                onValueChange={(value) => {
+                  setBlockId(value);
+                  setSelectedPair(null);
+                }}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="IDE block" />
+                </SelectTrigger>
+                <SelectContent>
+                  {blocks.map((block) => (
+                    <SelectItem key={block.id} value={block.id}>
+                      {block.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="similarity-prior-terms"
+                  checked={includePriorTerms}
+                  onCheckedChange={(checked) =>
+                    setIncludePriorTerms(checked as boolean)
+                  }
+                />
+                <Label
+                  htmlFor="similarity-prior-terms"
+                  className="text-sm text-foreground"
+                >
+                  Include prior terms
+                </Label>
+              </div>
+              <Button
+                size="sm"
+                className="ml-auto"
+                disabled={!blockId || isStarting || isRunning}
+                onClick={handleRun}
+              >
+                {(isStarting || isRunning) && (
+                  <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+                )}
+                {report ? "Run again" : "Run check"}
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : !report ? (
+              <p className="text-sm text-muted-foreground">
+                No similarity check has been run for this block yet.
+              </p>
+            ) : isRunning ? (
+              <p className="text-sm text-muted-foreground">
+                Comparing submissions… this can take a few minutes.
+              </p>
+            ) : report.status === "failed" ? (
+              <p className="text-sm text-destructive">
+                The check failed: {report.error || "Unknown error"}
+              </p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  {report.submission_count} submission
+                  {report.submission_count === 1 ? "" : "s"} compared
+                  {report.include_prior_terms ? " (with prior terms)" : ""}
+                  {report.completed_at &&
+                    ` · ${new Date(report.completed_at).toLocaleString()}`}
+                </p>
+                {report.pairs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No notably similar pairs.
+                  </p>
+                ) : (
+                  <div className="overflow-y-auto border border-border rounded-md divide-y divide-border">
+                    {report.pairs.map((pair) => (
+                      <button
+                        key={pair.index}
+                        className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-accent"
+                        onClick={() => setSelectedPair(pair)}
+                      >
+                        <span
+                          className={`w-12 shrink-0 text-sm font-semibold ${
+                            pair.similarity >= 0.7
+                              ? "text-red-600 dark:text-red-400"
+                              : pair.similarity >= 0.4
+                              ? "text-amber-600 dark:text-amber-400"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          {formatPercent(pair.similarity)}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate text-sm text-foreground">
+                          {describeSubmission(pair.a)} ↔{" "}
+                          {describeSubmission(pair.b)}
+                        </span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {pair.shared_fingerprints} shared
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
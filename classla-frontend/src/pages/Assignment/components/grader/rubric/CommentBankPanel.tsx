@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from "react";
+import { Loader2, Plus, Search, Trash2 } from "lucide-react";
+import { BankComment } from "../../../../../types";
+import { Input } from "../../../../../components/ui/input";
+import { Button } from "../../../../../components/ui/button";
+import {
+  formatCommentPoints,
+  searchBankComments,
+} from "../../../../../utils/commentBank";
+
+interface CommentBankPanelProps {
+  comments: BankComment[] | null; // null while loading
+  // Prefilled text when saving a new comment (the item's current comment)
+  draftText: string;
+  showPoints: boolean;
+  onApply: (comment: BankComment) => void;
+  onSave: (text: string, points: number) => Promise<void>;
+  onDelete: (comment: BankComment) => Promise<void>;
+}
+
+const CommentBankPanel: React.FC<CommentBankPanelProps> = ({
+  comments,
+  draftText,
+  showPoints,
+  onApply,
+  onSave,
+  onDelete,
+}) => {
+  const [query, setQuery] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [newText, setNewText] = useState("");
+  const [newPoints, setNewPoints] = useState("0");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const matches = useMemo(
+    () => searchBankComments(comments || [], query),
+    [comments, query]
+  );
+
+  const startAdding = () => {
+    setNewText(draftText);
+    setNewPoints("0");
+    setIsAdding(true);
+  };
+
+  const handleSave = async () => {
+    if (!newText.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave(newText.trim(), parseFloat(newPoints) || 0);
+      setIsAdding(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 rounded-md border border-border bg-card p-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search saved comments..."
+          className="pl-8 h-9"
+        />
+      </div>
+
+      {comments === null ? (
+        <div className="flex items-center gap-2 py-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading comments...
+        </div>
+      ) : matches.length === 0 ? (
+        <p className="py-2 text-xs text-muted-foreground">
+          {comments.length === 0
+            ? "No saved comments yet."
+            : "No comments match your search."}
+        </p>
+      ) : (
+        <div className="max-h-56 space-y-1 overflow-y-auto">
+          {matches.map((comment) => (
+            <div
+              key={comment.id}
+              className="group flex items-start gap-2 rounded px-2 py-1.5 hover:bg-accent"
+            >
+              <button
+                type="button"
+                onClick={() => onApply(comment)}
+                className="flex-1 text-left"
+                title="Apply to this item"
+              >
+                <p className="whitespace-pre-wrap text-sm text-foreground">
+                  {comment.text}
+                </p>
+                <p className="mt-0.5 text-xs text-muted-foreground">
+                  {showPoints && Number(comment.points) !== 0 && (
+                    <span
+                      className={
+                        Number(comment.points) < 0
+                          ? "font-semibold text-red-700"
+                          : "font-semibold text-primary"
+                      }
+                    >
+                      {formatCommentPoints(Number(comment.points))} ·{" "}
+                    </span>
+                  )}
+                  Used {comment.usage_count}{" "}
+                  {comment.usage_count === 1 ? "time" : "times"}
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(comment)}
+                className="mt-0.5 text-muted-foreground opacity-0 hover:text-destructive group-hover:opacity-100"
+                title="Delete from comment bank"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAdding ? (
+        <div className="space-y-2 border-t border-border pt-2">
+          <Input
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            placeholder="Comment text"
+            className="h-9"
+          />
+          <div className="flex items-center gap-2">
+            {showPoints && (
+              <>
+                <Input
+                  type="number"
+                  value={newPoints}
+                  onChange={(e) => setNewPoints(e.target.value)}
+                  step={0.5}
+                  className="h-9 w-24"
+                />
+                <span className="text-xs text-muted-foreground">
+                  pts (negative to deduct)
+                </span>
+              </>
+            )}
+            <div className="ml-auto flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsAdding(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving || !newText.trim()}
+              >
+                {isSaving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={startAdding}
+          className="flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+        >
+          <Plus className="h-3 w-3" />
+          Save a comment to the bank
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CommentBankPanel;
@@ -1,26 +1,53 @@
 import React, { useState, useEffect } from "react";
-import { RubricSchema, RubricType, Rubric } from "../../../../../types";
+import { BookMarked, MessageSquare } from "lucide-react";
+import {
+  BankComment,
+  RubricSchema,
+  RubricType,
+  Rubric,
+} from "../../../../../types";
 import { Label } from "../../../../../components/ui/label";
 import { Checkbox } from "../../../../../components/ui/checkbox";
 import { Input } from "../../../../../components/ui/input";
+import { Textarea } from "../../../../../components/ui/textarea";
+import { apiClient } from "../../../../../lib/api";
+import { useToast } from "../../../../../hooks/use-toast";
+import {
+  applyBankComment,
+  normalizeRubricComments,
+} from "../../../../../utils/commentBank";
+import CommentBankPanel from "./CommentBankPanel";
 
 interface RubricGradingProps {
   rubricSchema: RubricSchema;
   rubric: Rubric | null;
-  onUpdate: (values: number[]) => void;
+  courseId: string;
+  onUpdate: (values: number[], comments: string[]) => void;
   disabled?: boolean;
 }
 
 const RubricGrading: React.FC<RubricGradingProps> = ({
   rubricSchema,
   rubric,
+  courseId,
   onUpdate,
   disabled = false,
 }) => {
+  const { toast } = useToast();
   const [values, setValues] = useState<number[]>(
     rubric?.values || rubricSchema.items.map(() => 0)
   );
   const [valueInputs, setValueInputs] = useState<Record<number, string>>({});
+  // Per-item comments; edits are saved when the comment box loses focus
+  const [comments, setComments] = useState<string[]>(() =>
+    normalizeRubricComments(rubric?.comments, rubricSchema.items.length)
+  );
+  const [openCommentIndexes, setOpenCommentIndexes] = useState<Set<number>>(
+    new Set()
+  );
+  // Comment bank is loaded the first time a grader opens it
+  const [bankOpenIndex, setBankOpenIndex] = useState<number | null>(null);
+  const [bankComments, setBankComments] = useState<BankComment[] | null>(null);
 
   useEffect(() => {
     if (rubric) {
@@ -28,14 +55,116 @@ const RubricGrading: React.FC<RubricGradingProps> = ({
     } else {
       setValues(rubricSchema.items.map(() => 0));
     }
+    setComments(
+      normalizeRubricComments(rubric?.comments, rubricSchema.items.length)
+    );
     setValueInputs({});
   }, [rubric, rubricSchema]);
 
+  useEffect(() => {
+    setBankComments(null);
+  }, [courseId]);
+
+  useEffect(() => {
+    if (bankOpenIndex === null || bankComments !== null) return;
+    let cancelled = false;
+    apiClient
+      .getCommentBank(courseId)
+      .then((response) => {
+        if (!cancelled) setBankComments(response.data.comments || []);
+      })
+      .catch((error) => {
+        console.error("Failed to load comment bank:", error);
+        if (!cancelled) setBankComments([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [bankOpenIndex, bankComments, courseId]);
+
   const handleCheckboxChange = (index: number, checked: boolean) => {
     const newValues = [...values];
     newValues[index] = checked ? rubricSchema.items[index].points : 0;
     setValues(newValues);
-    onUpdate(newValues);
+    onUpdate(newValues, comments);
+  };
+
+  const handleCommentBlur = () => {
+    const saved = normalizeRubricComments(
+      rubric?.comments,
+      rubricSchema.items.length
+    );
+    if (comments.some((comment, index) => comment !== saved[index])) {
+      onUpdate(values, comments);
+    }
+  };
+
+  const toggleComment = (index: number) => {
+    setOpenCommentIndexes((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  // One click: append the comment text and apply its points to the item
+  const handleApplyBankComment = (index: number, comment: BankComment) => {
+    const updated = applyBankComment(
+      { values, comments },
+      index,
+      rubricSchema.items[index],
+      rubricSchema.type,
+      comment
+    );
+    setValues(updated.values);
+    setComments(updated.comments);
+    setOpenCommentIndexes((prev) => new Set(prev).add(index));
+    setBankOpenIndex(null);
+    onUpdate(updated.values, updated.comments);
+
+    setBankComments((prev) =>
+      prev
+        ? prev.map((c) =>
+            c.id === comment.id ? { ...c, usage_count: c.usage_count + 1 } : c
+          )
+        : prev
+    );
+    apiClient.recordBankCommentUse(comment.id).catch((error) => {
+      console.error("Failed to record comment use:", error);
+    });
+  };
+
+  const handleSaveBankComment = async (text: string, points: number) => {
+    try {
+      const response = await apiClient.createBankComment(courseId, {
+        text,
+        points,
+      });
+      setBankComments((prev) => [...(prev || []), response.data]);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save comment",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleDeleteBankComment = async (comment: BankComment) => {
+    try {
+      await apiClient.deleteBankComment(comment.id);
+      setBankComments((prev) =>
+        prev ? prev.filter((c) => c.id !== comment.id) : prev
+      );
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete comment",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleNumericalChange = (index: number, value: string) => {
@@ -46,7 +175,7 @@ const RubricGrading: React.FC<RubricGradingProps> = ({
     const newValues = [...values];
     newValues[index] = clampedValue;
     setValues(newValues);
-    onUpdate(newValues);
+    onUpdate(newValues, comments);
   };
 
   const totalScore = values.reduce((sum, val) => sum + val, 0);
@@ -153,7 +282,7 @@ const RubricGrading: React.FC<RubricGradingProps> = ({
                           const newValues = [...values];
                           newValues[index] = finalValue;
                           setValues(newValues);
-                          onUpdate(newValues);
+                          onUpdate(newValues, comments);
                           setValueInputs(prev => {
                             const next = { ...prev };
                             delete next[index];
@@ -173,6 +302,55 @@ const RubricGrading: React.FC<RubricGradingProps> = ({
                   </div>
                 </div>
               )}
+
+              {/* Item comment and comment bank */}
+              <div className="mt-2 flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => toggleComment(index)}
+                  disabled={disabled}
+                  className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+                >
+                  <MessageSquare className="h-3 w-3" />
+                  {comments[index] ? "Comment" : "Add comment"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setBankOpenIndex(bankOpenIndex === index ? null : index)
+                  }
+                  disabled={disabled}
+                  className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+                >
+                  <BookMarked className="h-3 w-3" />
+                  Comment bank
+                </button>
+              </div>
+              {(openCommentIndexes.has(index) || comments[index]) && (
+                <Textarea
+                  value={comments[index]}
+                  onChange={(e) => {
+                    const next = [...comments];
+                    next[index] = e.target.value;
+                    setComments(next);
+                  }}
+                  onBlur={handleCommentBlur}
+                  disabled={disabled}
+                  placeholder="Comment shown to the student for this item..."
+                  rows={2}
+                  className="mt-2 text-sm resize-none"
+                />
+              )}
+              {bankOpenIndex === index && (
+                <CommentBankPanel
+                  comments={bankComments}
+                  draftText={comments[index]}
+                  showPoints={rubricSchema.type === RubricType.NUMERICAL}
+                  onApply={(comment) => handleApplyBankComment(index, comment)}
+                  onSave={handleSaveBankComment}
+                  onDelete={handleDeleteBankComment}
+                />
+              )}
             </div>
           );
         })}
@@ -10,6 +10,7 @@ import {
 import GradebookTable from "./components/GradebookTable";
 import GradebookTableSkeleton from "./components/GradebookTableSkeleton";
 import AssignmentFilterTree from "./components/AssignmentFilterTree";
+import GradeImportDialog from "./components/GradeImportDialog";
 import {
   Select,
   SelectContent,
@@ -17,10 +18,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../../../components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../../../components/ui/dropdown-menu";
+import { Button } from "../../../components/ui/button";
+import { Download, Upload } from "lucide-react";
 import { Course, Submission, Grader, Section, UserRole } from "../../../types";
 import { apiClient } from "../../../lib/api";
 import { hasTAPermission } from "../../../lib/taPermissions";
 import { useAuth } from "../../../contexts/AuthContext";
+import { calculateGraderScore } from "../../../utils/graderScore";
+import { ScoredAttempt, getScoredAttempts } from "../../../utils/attemptScoring";
 
 interface GradebookPageProps {
   course?: Course;
@@ -48,6 +59,7 @@ const GradebookPage: React.FC<GradebookPageProps> = ({
     null
   );
   const [selectedAssignmentIds, setSelectedAssignmentIds] = useState<Set<string> | null>(null);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
 
   // Fetch gradebook data using React Query
   const {
@@ -107,21 +119,37 @@ const GradebookPage: React.FC<GradebookPageProps> = ({
   }, [gradebookData, selectedAssignmentIds]);
 
   // Convert submissions and graders to Maps for efficient lookup (memoized)
-  const submissionsMap = useMemo(() => {
-    if (!gradebookData) return new Map<string, Submission>();
+  const gradersMap = useMemo(() => {
+    if (!gradebookData) return new Map<string, Grader>();
 
-    const map = new Map<string, Submission>();
-    gradebookData.submissions.forEach((submission) => {
-      const key = `${submission.student_id}_${submission.assignment_id}`;
-      const existing = map.get(key);
-      // Keep the latest submission by timestamp
-      if (!existing || new Date(submission.timestamp) > new Date(existing.timestamp)) {
-        map.set(key, submission);
-      }
+    const map = new Map<string, Grader>();
+    gradebookData.graders.forEach((grader) => {
+      map.set(grader.submission_id, grader);
     });
     return map;
   }, [gradebookData]);
 
+  // The attempt that counts under each assignment's scoring policy
+  const attemptScoresMap = useMemo(() => {
+    if (!gradebookData) return new Map<string, ScoredAttempt<Submission>>();
+    return getScoredAttempts(
+      gradebookData.submissions,
+      gradebookData.assignments,
+      (submission) => {
+        const grader = gradersMap.get(submission.id);
+        return grader ? calculateGraderScore(grader) : null;
+      }
+    );
+  }, [gradebookData, gradersMap]);
+
+  const submissionsMap = useMemo(() => {
+    const map = new Map<string, Submission>();
+    attemptScoresMap.forEach((attempt, key) => {
+      if (attempt.submission) map.set(key, attempt.submission);
+    });
+    return map;
+  }, [attemptScoresMap]);
+
   const submissionCountMap = useMemo(() => {
     if (!gradebookData) return new Map<string, number>();
     const map = new Map<string, number>();
@@ -155,16 +183,6 @@ const GradebookPage: React.FC<GradebookPageProps> = ({
     return map;
   }, [gradebookData]);
 
-  const gradersMap = useMemo(() => {
-    if (!gradebookData) return new Map<string, Grader>();
-
-    const map = new Map<string, Grader>();
-    gradebookData.graders.forEach((grader) => {
-      map.set(grader.submission_id, grader);
-    });
-    return map;
-  }, [gradebookData]);
-
   // Handle cell click - navigate to assignment with grading panel open
   const handleCellClick = (studentId: string, assignmentId: string) => {
     if (!course?.slug) return;
@@ -207,12 +225,33 @@ const GradebookPage: React.FC<GradebookPageProps> = ({
     });
     try {
       await apiClient.autoSaveGrader(graderId, { score_modifier: String(modifier) });
+      // Category and final grades are computed server-side
+      queryClient.invalidateQueries({ queryKey: ["gradebook", course?.id] });
     } catch (err: any) {
       queryClient.setQueryData(["gradebook", course?.id], previousData);
       toast({ title: "Failed to update grade", description: err.message, variant: "destructive" });
     }
   }, [queryClient, course?.id, toast]);
 
+  // Export honours the section filter; category and final totals are
+  // computed server-side
+  const handleExport = useCallback(async (format: "csv" | "xlsx") => {
+    if (!course?.id) return;
+    try {
+      const response = await apiClient.exportGradebook(course.id, format, selectedSectionId);
+      const blob = new Blob([response.data]);
+      const url = URL.createObjectURL(blob);
+      const disposition = response.headers["content-disposition"] as string | undefined;
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = disposition?.match(/filename="([^"]+)"/)?.[1] || `grades.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      toast({ title: "Export failed", description: err.message || "Failed to export gradebook", variant: "destructive" });
+    }
+  }, [course?.id, selectedSectionId, toast]);
+
   // Handle header click - navigate to assignment without opening grader
   const handleHeaderClick = (assignmentId: string) => {
     if (!course?.slug) return;
@@ -349,6 +388,32 @@ const GradebookPage: React.FC<GradebookPageProps> = ({
                 </SelectContent>
               </Select>
             )}
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("csv")}>
+                  CSV (.csv)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+                  Excel (.xlsx)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => setImportDialogOpen(true)}
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </Button>
           </div>
         </div>
       </div>
@@ -390,14 +455,29 @@ const GradebookPage: React.FC<GradebookPageProps> = ({
           assignments={filteredAssignments}
           submissions={submissionsMap}
           graders={gradersMap}
+          attemptScores={attemptScoresMap}
           submissionCounts={submissionCountMap}
           inProgressAfterSubmit={inProgressAfterSubmitMap}
+          gradingScheme={gradebookData.gradingScheme}
+          gradeSummaries={gradebookData.gradeSummaries}
           onCellClick={handleCellClick}
           onHeaderClick={handleHeaderClick}
           onMarkReviewed={handleMarkReviewed}
           onChangeGrade={handleChangeGrade}
         />
       )}
+
+      {course?.id && (
+        <GradeImportDialog
+          courseId={course.id}
+          assignments={gradebookData.assignments}
+          open={importDialogOpen}
+          onOpenChange={setImportDialogOpen}
+          onImported={() =>
+            queryClient.invalidateQueries({ queryKey: ["gradebook", course.id] })
+          }
+        />
+      )}
     </div>
   );
 };
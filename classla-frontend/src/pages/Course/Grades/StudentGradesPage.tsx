@@ -4,7 +4,14 @@ import { apiClient } from "../../../lib/api";
 import { useStudentGrades } from "../../../hooks/useGradingQueries";
 import { Submission, Grader } from "../../../types";
 import GradesTable from "./components/GradesTable";
+import GradeSummaryCard from "./components/GradeSummaryCard";
 import GradeItemSkeleton from "./components/GradeItemSkeleton";
+import { calculateGraderScore } from "../../../utils/graderScore";
+import {
+  ScoredAttempt,
+  getAttemptPolicy,
+  selectScoredAttempt,
+} from "../../../utils/attemptScoring";
 import { Alert, AlertDescription } from "../../../components/ui/alert";
 
 const StudentGradesPage: React.FC = () => {
@@ -39,19 +46,26 @@ const StudentGradesPage: React.FC = () => {
   } = useStudentGrades(courseId || "");
 
   // ALL HOOKS MUST BE CALLED BEFORE ANY CONDITIONAL RETURNS
-  // Helper function to get the most recent submission for an assignment (memoized)
-  const getMostRecentSubmission = useMemo(() => {
-    return (assignmentId: string): Submission | null => {
-      if (!data) return null;
+  // Helper function to get the attempt that counts for an assignment under
+  // its scoring policy (memoized)
+  const getScoredAttempt = useMemo(() => {
+    // Only graders the student may see are returned by the backend
+    const visibleScores = new Map(
+      (data?.graders || []).map((grader) => [
+        grader.submission_id,
+        calculateGraderScore(grader),
+      ])
+    );
 
-      const assignmentSubmissions = data.submissions.filter(
-        (sub) => sub.assignment_id === assignmentId
+    return (assignmentId: string): ScoredAttempt<Submission> => {
+      const assignment = data?.assignments.find((a) => a.id === assignmentId);
+      return selectScoredAttempt(
+        getAttemptPolicy(assignment?.settings).scoring,
+        (data?.submissions || []).filter(
+          (sub) => sub.assignment_id === assignmentId
+        ),
+        (submission) => visibleScores.get(submission.id) ?? null
       );
-
-      if (assignmentSubmissions.length === 0) return null;
-
-      // Submissions are already sorted by timestamp descending from backend
-      return assignmentSubmissions[0];
     };
   }, [data]);
 
@@ -177,9 +191,10 @@ const StudentGradesPage: React.FC = () => {
             View your grades and feedback for all assignments
           </p>
         </div>
+        {data.gradeSummary && <GradeSummaryCard summary={data.gradeSummary} />}
         <GradesTable
           assignments={sortedAssignments}
-          getMostRecentSubmission={getMostRecentSubmission}
+          getScoredAttempt={getScoredAttempt}
           getGraderForSubmission={getGraderForSubmission}
           onAssignmentClick={handleAssignmentClick}
         />
@@ -0,0 +1,290 @@
+import React, { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../../../../components/ui/dialog";
+import { Button } from "../../../../components/ui/button";
+import { Input } from "../../../../components/ui/input";
+import { Label } from "../../../../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+import {
+  Assignment,
+  GradeImportResult,
+  GradeImportStatus,
+} from "../../../../types";
+
+interface GradeImportDialogProps {
+  courseId: string;
+  assignments: Assignment[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const STATUS_LABELS: Record<GradeImportStatus, string> = {
+  update: "Update",
+  unchanged: "Unchanged",
+  unmatched: "No match",
+  invalid: "Invalid",
+  duplicate: "Duplicate",
+};
+
+const STATUS_CLASSES: Record<GradeImportStatus, string> = {
+  update: "text-purple-700 dark:text-purple-300",
+  unchanged: "text-muted-foreground",
+  unmatched: "text-yellow-700 dark:text-yellow-400",
+  invalid: "text-red-600 dark:text-red-400",
+  duplicate: "text-yellow-700 dark:text-yellow-400",
+};
+
+const formatScore = (score: number | null) =>
+  score === null ? "—" : String(Math.round(score * 100) / 100);
+
+/**
+ * Import one assignment's scores from a CSV. The file is always previewed
+ * as a dry run first; only rows marked "Update" are written.
+ */
+const GradeImportDialog: React.FC<GradeImportDialogProps> = ({
+  courseId,
+  assignments,
+  open,
+  onOpenChange,
+  onImported,
+}) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [assignmentId, setAssignmentId] = useState("");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [scoreColumn, setScoreColumn] = useState("");
+  const [preview, setPreview] = useState<GradeImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setAssignmentId("");
+    setCsv("");
+    setFileName("");
+    setScoreColumn("");
+    setPreview(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    setPreview(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsWorking(true);
+    try {
+      const response = await apiClient.importGrades(courseId, {
+        assignmentId,
+        csv,
+        scoreColumn: scoreColumn.trim() || undefined,
+        dryRun,
+      });
+
+      if (dryRun) {
+        setPreview(response.data);
+        return;
+      }
+
+      const { applied = 0, failed = [] } = response.data;
+      toast({
+        title: "Grades imported",
+        description:
+          failed.length > 0
+            ? `${applied} grades saved, ${failed.length} failed (rows ${failed
+                .map((f) => f.rowNumber)
+                .join(", ")}).`
+            : `${applied} grades saved.`,
+        variant: failed.length > 0 ? "destructive" : undefined,
+      });
+      onImported();
+      handleOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: dryRun ? "Could not read CSV" : "Import failed",
+        description: error.message || "Failed to import grades",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateCount = preview?.summary.update ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Grades</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with an Email or Username column and a score column.
+            Review the changes before they are saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Assignment</Label>
+              <Select
+                value={assignmentId}
+                onValueChange={(value) => {
+                  setAssignmentId(value);
+                  setPreview(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an assignment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignments.map((assignment) => (
+                    <SelectItem key={assignment.id} value={assignment.id}>
+                      {assignment.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Score column (optional)</Label>
+              <Input
+                value={scoreColumn}
+                onChange={(e) => {
+                  setScoreColumn(e.target.value);
+                  setPreview(null);
+                }}
+                placeholder="Score, Grade or the assignment name"
+              />
+            </div>
+          </div>
+
+          <div className="border-2 border-dashed rounded-md p-4 text-center">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className="hidden"
+              id="grade-import-upload"
+            />
+            <label htmlFor="grade-import-upload" className="cursor-pointer">
+              <Upload className="h-6 w-6 mx-auto text-muted-foreground mb-2" />
+              <p className="text-sm text-muted-foreground">
+                {fileName || "Click to choose a CSV file"}
+              </p>
+            </label>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Matching on <strong>{preview.identifierColumn}</strong>, scores
+                from <strong>{preview.scoreColumn}</strong>: {updateCount} to
+                update, {preview.summary.unchanged} unchanged,{" "}
+                {preview.summary.unmatched +
+                  preview.summary.invalid +
+                  preview.summary.duplicate}{" "}
+                skipped.
+              </p>
+              <div className="max-h-72 overflow-y-auto border border-border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted sticky top-0">
+                    <tr className="text-left">
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Student</th>
+                      <th className="px-3 py-2 font-medium">Current</th>
+                      <th className="px-3 py-2 font-medium">New</th>
+                      <th className="px-3 py-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.changes.map((change) => (
+                      <tr
+                        key={change.rowNumber}
+                        className="border-t border-border"
+                      >
+                        <td className="px-3 py-1.5 text-muted-foreground">
+                          {change.rowNumber}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          {change.studentName || change.identifier || "—"}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          {formatScore(change.currentScore)}
+                        </td>
+                        <td className="px-3 py-1.5">
+                          {formatScore(change.newScore)}
+                        </td>
+                        <td
+                          className={`px-3 py-1.5 ${
+                            STATUS_CLASSES[change.status]
+                          }`}
+                          title={change.message}
+                        >
+                          {STATUS_LABELS[change.status]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              onClick={() => runImport(false)}
+              disabled={isWorking || updateCount === 0}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              {isWorking
+                ? "Importing..."
+                : `Apply ${updateCount} ${
+                    updateCount === 1 ? "Change" : "Changes"
+                  }`}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => runImport(true)}
+              disabled={isWorking || !assignmentId || !csv.trim()}
+            >
+              {isWorking ? "Checking..." : "Preview Changes"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GradeImportDialog;
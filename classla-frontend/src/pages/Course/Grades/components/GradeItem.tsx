@@ -2,6 +2,7 @@ import React from "react";
 import { Assignment, Submission, Grader } from "../../../../types";
 import { Badge } from "../../../../components/ui/badge";
 import { calculateAssignmentPoints } from "../../../../utils/assignmentPoints";
+import { calculateGraderScore } from "../../../../utils/graderScore";
 
 interface GradeItemProps {
   assignment: Assignment;
@@ -13,11 +14,8 @@ interface GradeItemProps {
 const GradeItem: React.FC<GradeItemProps> = React.memo(
   ({ assignment, submission, grader, onClick }) => {
     // Calculate final grade from grader data
-    const calculateFinalGrade = (grader: Grader): number => {
-      const baseScore = grader.raw_assignment_score + grader.raw_rubric_score;
-      const modifier = parseFloat(grader.score_modifier) || 0;
-      return baseScore + modifier;
-    };
+    const calculateFinalGrade = (grader: Grader): number =>
+      calculateGraderScore(grader);
 
     // Get total points for an assignment
     const getTotalPoints = (assignment: Assignment): number => {
@@ -0,0 +1,92 @@
+import React from "react";
+import { GradeSummary } from "../../../../types";
+
+interface GradeSummaryCardProps {
+  summary: GradeSummary;
+}
+
+const formatPercent = (percent: number | null): string =>
+  percent === null ? "—" : `${percent.toFixed(1)}%`;
+
+/**
+ * Running and final course grade with the per-category breakdown
+ */
+const GradeSummaryCard: React.FC<GradeSummaryCardProps> = ({ summary }) => {
+  const hasCategories = summary.categories.some((c) => c.categoryId !== null);
+
+  return (
+    <div className="bg-card border border-border rounded-lg shadow-sm p-6 mb-6">
+      <div className="flex flex-wrap gap-8">
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Current grade</p>
+          <p className="text-3xl font-bold text-foreground">
+            {formatPercent(summary.runningPercent)}
+            {summary.runningLetter && (
+              <span className="ml-2 text-xl text-muted-foreground">
+                {summary.runningLetter}
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Based on graded work so far
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Final grade</p>
+          <p className="text-3xl font-bold text-foreground">
+            {formatPercent(summary.finalPercent)}
+            {summary.finalLetter && (
+              <span className="ml-2 text-xl text-muted-foreground">
+                {summary.finalLetter}
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Ungraded work counts as zero
+          </p>
+        </div>
+      </div>
+
+      {hasCategories && (
+        <table className="w-full mt-6 text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-2 font-medium">Category</th>
+              <th className="py-2 font-medium text-right">Weight</th>
+              <th className="py-2 font-medium text-right">Current</th>
+              <th className="py-2 font-medium text-right">Final</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary.categories.map((category) => (
+              <tr
+                key={category.categoryId ?? category.name}
+                className="border-b border-border last:border-b-0"
+              >
+                <td className="py-2 text-foreground">
+                  {category.name}
+                  {category.droppedAssignmentIds.length > 0 && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      ({category.droppedAssignmentIds.length} lowest dropped)
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 text-right text-muted-foreground">
+                  {category.weight}%
+                </td>
+                <td className="py-2 text-right text-foreground">
+                  {formatPercent(category.runningPercent)}
+                </td>
+                <td className="py-2 text-right text-foreground">
+                  {formatPercent(category.finalPercent)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default GradeSummaryCard;
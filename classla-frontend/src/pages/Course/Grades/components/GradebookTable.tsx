@@ -1,7 +1,24 @@
 import React, { useState, useRef } from "react";
-import { Assignment, Submission, Grader, StudentGradebookInfo } from "../../../../types";
+import {
+  Assignment,
+  Submission,
+  Grader,
+  StudentGradebookInfo,
+  GradeSummary,
+  GradingScheme,
+} from "../../../../types";
 import { getSubmissionStatus } from "../../../../utils/submissionStatus";
 import { calculateAssignmentPoints } from "../../../../utils/assignmentPoints";
+import {
+  calculateGraderScore,
+  getGraderBaseScore,
+  getLatePenaltyPoints,
+} from "../../../../utils/graderScore";
+import {
+  ATTEMPT_SCORING_LABELS,
+  ScoredAttempt,
+  getAttemptPolicy,
+} from "../../../../utils/attemptScoring";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../../../../components/ui/tooltip";
 import {
   ContextMenu,
@@ -17,8 +34,11 @@ interface GradebookTableProps {
   assignments: Assignment[];
   submissions: Map<string, Submission>;
   graders: Map<string, Grader>;
+  attemptScores?: Map<string, ScoredAttempt<Submission>>;
   submissionCounts?: Map<string, number>;
   inProgressAfterSubmit?: Map<string, boolean>;
+  gradingScheme?: GradingScheme;
+  gradeSummaries?: Record<string, GradeSummary>;
   onCellClick: (studentId: string, assignmentId: string) => void;
   onHeaderClick: (assignmentId: string) => void;
   onMarkReviewed: (graderId: string) => void;
@@ -26,7 +46,7 @@ interface GradebookTableProps {
 }
 
 const GradebookTable: React.FC<GradebookTableProps> = React.memo(
-  ({ students, assignments, submissions, graders, submissionCounts, inProgressAfterSubmit, onCellClick, onHeaderClick, onMarkReviewed, onChangeGrade }) => {
+  ({ students, assignments, submissions, graders, attemptScores, submissionCounts, inProgressAfterSubmit, gradingScheme, gradeSummaries, onCellClick, onHeaderClick, onMarkReviewed, onChangeGrade }) => {
 
     // State for the "Change Grade" inline input
     const [changeGradeState, setChangeGradeState] = useState<{
@@ -38,12 +58,17 @@ const GradebookTable: React.FC<GradebookTableProps> = React.memo(
     // Track Escape keypress so blur doesn't save
     const cancelRef = useRef(false);
 
-    // raw_assignment_score and raw_rubric_score come back as strings from Supabase (numeric type)
-    const calculateFinalGrade = (grader: Grader): number => {
-      const baseScore = (Number(grader.raw_assignment_score) || 0) + (Number(grader.raw_rubric_score) || 0);
-      const modifier = parseFloat(grader.score_modifier) || 0;
-      return baseScore + modifier;
-    };
+    const calculateFinalGrade = (grader: Grader): number => calculateGraderScore(grader);
+
+    // Score before the modifier, so "Change Grade" can solve for the modifier
+    const getUnmodifiedScore = (grader: Grader): number =>
+      getGraderBaseScore(grader) - getLatePenaltyPoints(grader);
+
+    const formatPercent = (percent: number | null | undefined): string =>
+      percent === null || percent === undefined ? "—" : `${percent.toFixed(1)}%`;
+
+    const categories = gradingScheme?.categories ?? [];
+    const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
 
     const renderCell = (
       student: StudentGradebookInfo,
@@ -89,9 +114,16 @@ const GradebookTable: React.FC<GradebookTableProps> = React.memo(
 
       // If graded, show score centered with corner status badge + right-click menu
       if (grader) {
-        const finalGrade = calculateFinalGrade(grader);
+        const attempt = attemptScores?.get(submissionKey);
+        // An averaged score has no single grader to adjust
+        const isAveraged =
+          getAttemptPolicy(assignment.settings).scoring === "average" &&
+          (attempt?.attemptCount ?? 0) > 1;
+        const finalGrade =
+          isAveraged && attempt?.score != null ? attempt.score : calculateFinalGrade(grader);
         const totalPoints = calculateAssignmentPoints(assignment.content, assignment.rubric_schema);
         const isReviewed = !!grader.reviewed_at;
+        const isResubmitting = !!inProgressAfterSubmit?.get(submissionKey);
 
         const isChangingGrade = changeGradeState?.graderId === grader.id;
 
@@ -129,10 +161,12 @@ const GradebookTable: React.FC<GradebookTableProps> = React.memo(
                   />
                 ) : (
                   <span
-                    className={`text-sm font-medium flex items-center gap-0.5 cursor-text hover:opacity-75 transition-opacity ${isReviewed ? "text-green-600 dark:text-green-400" : "text-blue-600 dark:text-blue-400"}`}
+                    className={`text-sm font-medium flex items-center gap-0.5 hover:opacity-75 transition-opacity ${isAveraged ? "" : "cursor-text"} ${isReviewed ? "text-green-600 dark:text-green-400" : "text-blue-600 dark:text-blue-400"}`}
+                    title={isAveraged ? `Average of ${attempt!.attemptCount} attempts` : undefined}
                     onClick={(e) => {
+                      if (isAveraged) return;
                       e.stopPropagation();
-                      const baseScore = (Number(grader.raw_assignment_score) || 0) + (Number(grader.raw_rubric_score) || 0);
+                      const baseScore = getUnmodifiedScore(grader);
                       setChangeGradeState({ graderId: grader.id, value: String(finalGrade), baseScore });
                     }}
                   >
@@ -143,11 +177,13 @@ const GradebookTable: React.FC<GradebookTableProps> = React.memo(
                   </span>
                 )}
                 <span className={`absolute top-1 right-1 text-[9px] font-bold px-1 py-0.5 rounded leading-none ${
-                  isReviewed
+                  isResubmitting
+                    ? "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300"
+                    : isReviewed
                     ? "bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300"
                     : "bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300"
                 }`}>
-                  {isReviewed ? "Reviewed" : "Submitted"}
+                  {isResubmitting ? "Resubmitting" : isReviewed ? "Reviewed" : "Submitted"}
                 </span>
                 {(submissionCounts?.get(submissionKey) ?? 0) > 1 && (
                   <Tooltip>
@@ -176,15 +212,17 @@ const GradebookTable: React.FC<GradebookTableProps> = React.memo(
                   Mark as Reviewed
                 </ContextMenuItem>
               )}
-              <ContextMenuItem
-                onClick={(e) => {
-                  e.stopPropagation();
-                  const baseScore = (Number(grader.raw_assignment_score) || 0) + (Number(grader.raw_rubric_score) || 0);
-                  setChangeGradeState({ graderId: grader.id, value: String(finalGrade), baseScore });
-                }}
-              >
-                Change Grade
-              </ContextMenuItem>
+              {!isAveraged && (
+                <ContextMenuItem
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    const baseScore = getUnmodifiedScore(grader);
+                    setChangeGradeState({ graderId: grader.id, value: String(finalGrade), baseScore });
+                  }}
+                >
+                  Change Grade
+                </ContextMenuItem>
+              )}
             </ContextMenuContent>
           </ContextMenu>
         );
@@ -225,9 +263,60 @@ const GradebookTable: React.FC<GradebookTableProps> = React.memo(
                         <span className="text-xs text-muted-foreground font-medium">
                           Out of {calculateAssignmentPoints(assignment.content, assignment.rubric_schema)}
                         </span>
+                        {getAttemptPolicy(assignment.settings).scoring !== "last" && (
+                          <span className="text-[10px] text-muted-foreground">
+                            {ATTEMPT_SCORING_LABELS[getAttemptPolicy(assignment.settings).scoring]}
+                          </span>
+                        )}
+                        {categories.length > 0 && (
+                          <span className="text-[10px] text-muted-foreground">
+                            {categoryNames.get(gradingScheme?.assignmentCategories[assignment.id] ?? "") ?? "Uncategorized"}
+                          </span>
+                        )}
                       </div>
                     </th>
                   ))}
+                  {gradeSummaries &&
+                    categories.map((category, index) => (
+                      <th
+                        key={`category_${category.id}`}
+                        className={`sticky top-0 z-10 bg-muted px-4 py-2 text-center text-sm font-semibold text-foreground border-b-2 border-r border-border min-w-[120px] ${index === 0 ? "border-l-2" : ""}`}
+                      >
+                        <div className="flex flex-col gap-1 items-center">
+                          <span className="font-bold truncate max-w-[120px]" title={category.name}>
+                            {category.name}
+                          </span>
+                          <span className="text-xs text-muted-foreground font-medium">
+                            {category.weight}%
+                            {category.dropLowest > 0 && ` · drop ${category.dropLowest}`}
+                          </span>
+                        </div>
+                      </th>
+                    ))}
+                  {gradeSummaries && (
+                    <>
+                      <th className="sticky top-0 z-10 bg-muted px-4 py-2 text-center text-sm font-bold text-foreground border-b-2 border-r border-l-2 border-border min-w-[120px]">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className="cursor-default">Running</span>
+                          </TooltipTrigger>
+                          <TooltipContent side="top" className="bg-card border-border text-foreground text-xs">
+                            Graded work only
+                          </TooltipContent>
+                        </Tooltip>
+                      </th>
+                      <th className="sticky top-0 z-10 bg-muted px-4 py-2 text-center text-sm font-bold text-foreground border-b-2 border-border min-w-[120px]">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className="cursor-default">Final</span>
+                          </TooltipTrigger>
+                          <TooltipContent side="top" className="bg-card border-border text-foreground text-xs">
+                            Ungraded work counts as zero
+                          </TooltipContent>
+                        </Tooltip>
+                      </th>
+                    </>
+                  )}
                 </tr>
               </thead>
               <tbody>
@@ -252,6 +341,35 @@ const GradebookTable: React.FC<GradebookTableProps> = React.memo(
                         {renderCell(student, assignment)}
                       </td>
                     ))}
+                    {gradeSummaries && (() => {
+                      const summary = gradeSummaries[student.userId];
+                      return (
+                        <>
+                          {categories.map((category, categoryIndex) => (
+                            <td
+                              key={`${student.userId}_category_${category.id}`}
+                              className={`px-4 py-2 text-center text-sm text-foreground border-b border-r border-border ${categoryIndex === 0 ? "border-l-2" : ""}`}
+                            >
+                              {formatPercent(
+                                summary?.categories.find((c) => c.categoryId === category.id)?.runningPercent
+                              )}
+                            </td>
+                          ))}
+                          <td className="px-4 py-2 text-center text-sm font-semibold text-foreground border-b border-r border-l-2 border-border">
+                            {formatPercent(summary?.runningPercent)}
+                            {summary?.runningLetter && (
+                              <span className="ml-1 text-xs text-muted-foreground">({summary.runningLetter})</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-center text-sm font-semibold text-foreground border-b border-border">
+                            {formatPercent(summary?.finalPercent)}
+                            {summary?.finalLetter && (
+                              <span className="ml-1 text-xs text-muted-foreground">({summary.finalLetter})</span>
+                            )}
+                          </td>
+                        </>
+                      );
+                    })()}
                   </tr>
                 ))}
               </tbody>
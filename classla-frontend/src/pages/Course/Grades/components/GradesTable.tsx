@@ -2,6 +2,12 @@ import React, { useState } from "react";
 import { Assignment, Submission, Grader } from "../../../../types";
 import { Badge } from "../../../../components/ui/badge";
 import { calculateAssignmentPoints } from "../../../../utils/assignmentPoints";
+import { calculateGraderScore } from "../../../../utils/graderScore";
+import {
+  ATTEMPT_SCORING_LABELS,
+  ScoredAttempt,
+  getAttemptPolicy,
+} from "../../../../utils/attemptScoring";
 import {
   Dialog,
   DialogContent,
@@ -11,30 +17,33 @@ import {
 } from "../../../../components/ui/dialog";
 import { MessageSquare } from "lucide-react";
 import { Button } from "../../../../components/ui/button";
+import { formatAnnotationLines } from "../../../../components/Blocks/IDE/CodeAnnotationsPanel";
+import RegradeRequestSection from "./RegradeRequestSection";
 
 interface GradesTableProps {
   assignments: Assignment[];
-  getMostRecentSubmission: (assignmentId: string) => Submission | null;
+  getScoredAttempt: (assignmentId: string) => ScoredAttempt<Submission>;
   getGraderForSubmission: (submissionId: string) => Grader | null;
   onAssignmentClick: (assignmentId: string) => void;
 }
 
 const GradesTable: React.FC<GradesTableProps> = ({
   assignments,
-  getMostRecentSubmission,
+  getScoredAttempt,
   getGraderForSubmission,
   onAssignmentClick,
 }) => {
   const [selectedFeedback, setSelectedFeedback] = useState<{
     assignmentName: string;
     feedback: string;
+    itemComments: { title: string; comment: string }[];
+    codeComments: { location: string; comment: string }[];
+    assignment: Assignment;
+    grader: Grader;
   } | null>(null);
   // Calculate final grade from grader data
-  const calculateFinalGrade = (grader: Grader): number => {
-    const baseScore = grader.raw_assignment_score + grader.raw_rubric_score;
-    const modifier = parseFloat(grader.score_modifier) || 0;
-    return baseScore + modifier;
-  };
+  const calculateFinalGrade = (grader: Grader): number =>
+    calculateGraderScore(grader);
 
   // Get total points for an assignment by calculating from MCQ blocks and rubric
   const getTotalPoints = (assignment: Assignment): number => {
@@ -144,10 +153,11 @@ const GradesTable: React.FC<GradesTableProps> = ({
 
   // Get grade display
   const getGradeDisplay = (
-    submission: Submission | null,
+    attempt: ScoredAttempt<Submission>,
     grader: Grader | null,
     assignment: Assignment
   ): string => {
+    const submission = attempt.submission;
     if (!submission) {
       return "—";
     }
@@ -156,9 +166,10 @@ const GradesTable: React.FC<GradesTableProps> = ({
       return "—";
     }
 
-    // If we have a grader, use it to calculate the grade
+    // If we have a grader, use it to calculate the grade (averaged attempts
+    // have no single grader behind the score)
     if (grader) {
-      const finalGrade = calculateFinalGrade(grader);
+      const finalGrade = attempt.score ?? calculateFinalGrade(grader);
       const totalPoints = getTotalPoints(assignment);
       // Always show grade/total format, even if totalPoints is 0
       return `${finalGrade.toFixed(1)} / ${totalPoints}`;
@@ -214,7 +225,9 @@ const GradesTable: React.FC<GradesTableProps> = ({
           </thead>
           <tbody className="bg-card divide-y divide-border">
             {assignments.map((assignment) => {
-              const submission = getMostRecentSubmission(assignment.id);
+              const attempt = getScoredAttempt(assignment.id);
+              const submission = attempt.submission;
+              const scoring = getAttemptPolicy(assignment.settings).scoring;
               const grader = submission
                 ? getGraderForSubmission(submission.id)
                 : null;
@@ -241,8 +254,14 @@ const GradesTable: React.FC<GradesTableProps> = ({
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-semibold text-foreground">
-                      {getGradeDisplay(submission, grader, assignment)}
+                      {getGradeDisplay(attempt, grader, assignment)}
                     </div>
+                    {attempt.attemptCount > 1 && (
+                      <div className="text-xs text-muted-foreground">
+                        {attempt.attemptCount} attempts ·{" "}
+                        {ATTEMPT_SCORING_LABELS[scoring].toLowerCase()}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-muted-foreground">
@@ -252,7 +271,11 @@ const GradesTable: React.FC<GradesTableProps> = ({
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {grader && grader.feedback ? (
+                    {grader &&
+                    (grader.feedback ||
+                      grader.rubric_comments?.some((c) => c.trim()) ||
+                      !!grader.code_annotations?.length ||
+                      grader.reviewed_at) ? (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -261,6 +284,22 @@ const GradesTable: React.FC<GradesTableProps> = ({
                           setSelectedFeedback({
                             assignmentName: assignment.name,
                             feedback: grader.feedback,
+                            itemComments: (grader.rubric_comments || [])
+                              .map((comment, index) => ({
+                                title:
+                                  assignment.rubric_schema?.items[index]
+                                    ?.title || `Rubric item ${index + 1}`,
+                                comment,
+                              }))
+                              .filter((item) => item.comment.trim()),
+                            codeComments: (grader.code_annotations || []).map(
+                              (annotation) => ({
+                                location: `${annotation.file_path} · ${formatAnnotationLines(annotation)}`,
+                                comment: annotation.body,
+                              })
+                            ),
+                            assignment,
+                            grader,
                           });
                         }}
                         className="text-primary hover:text-primary hover:bg-primary/10"
@@ -284,7 +323,7 @@ const GradesTable: React.FC<GradesTableProps> = ({
         open={!!selectedFeedback}
         onOpenChange={(open) => !open && setSelectedFeedback(null)}
       >
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               Feedback for {selectedFeedback?.assignmentName}
@@ -293,12 +332,62 @@ const GradesTable: React.FC<GradesTableProps> = ({
               Your instructor's feedback on this assignment
             </DialogDescription>
           </DialogHeader>
-          <div className="mt-4">
-            <div className="bg-muted rounded-lg p-4 min-h-[200px] max-h-[400px] overflow-y-auto">
-              <p className="text-foreground whitespace-pre-wrap">
-                {selectedFeedback?.feedback || "No feedback provided."}
-              </p>
-            </div>
+          <div className="mt-4 space-y-4">
+            {(selectedFeedback?.feedback ||
+              (!selectedFeedback?.itemComments.length &&
+                !selectedFeedback?.codeComments.length)) && (
+              <div className="bg-muted rounded-lg p-4 min-h-[120px] max-h-[300px] overflow-y-auto">
+                <p className="text-foreground whitespace-pre-wrap">
+                  {selectedFeedback?.feedback || "No feedback provided."}
+                </p>
+              </div>
+            )}
+            {!!selectedFeedback?.itemComments.length && (
+              <div className="space-y-2 max-h-[300px] overflow-y-auto">
+                <h4 className="text-sm font-semibold text-foreground">
+                  Rubric comments
+                </h4>
+                {selectedFeedback.itemComments.map((item, index) => (
+                  <div
+                    key={index}
+                    className="rounded-lg border border-border p-3"
+                  >
+                    <p className="text-xs font-semibold text-muted-foreground">
+                      {item.title}
+                    </p>
+                    <p className="mt-1 text-sm text-foreground whitespace-pre-wrap">
+                      {item.comment}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+            {!!selectedFeedback?.codeComments.length && (
+              <div className="space-y-2 max-h-[300px] overflow-y-auto">
+                <h4 className="text-sm font-semibold text-foreground">
+                  Code comments
+                </h4>
+                {selectedFeedback.codeComments.map((item, index) => (
+                  <div
+                    key={index}
+                    className="rounded-lg border border-border p-3"
+                  >
+                    <p className="text-xs font-mono text-muted-foreground">
+                      {item.location}
+                    </p>
+                    <p className="mt-1 text-sm text-foreground whitespace-pre-wrap">
+                      {item.comment}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+            {selectedFeedback && (
+              <RegradeRequestSection
+                assignment={selectedFeedback.assignment}
+                grader={selectedFeedback.grader}
+              />
+            )}
           </div>
         </DialogContent>
       </Dialog>
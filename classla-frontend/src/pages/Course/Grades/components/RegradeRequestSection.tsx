@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Assignment, Grader, RegradeRequest } from "../../../../types";
+import { apiClient } from "../../../../lib/api";
+import { useToast } from "../../../../hooks/use-toast";
+import { Badge } from "../../../../components/ui/badge";
+import { Button } from "../../../../components/ui/button";
+import { Textarea } from "../../../../components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../../components/ui/select";
+import {
+  REGRADE_STATUS_LABELS,
+  describeRegradeTarget,
+  getRegradeTargetKey,
+  getRegradeTargets,
+} from "../../../../utils/regradeRequests";
+
+interface RegradeRequestSectionProps {
+  assignment: Assignment;
+  grader: Grader;
+}
+
+const STATUS_VARIANTS: Record<
+  RegradeRequest["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  open: "outline",
+  accepted: "default",
+  rejected: "secondary",
+};
+
+/**
+ * A student's regrade requests on a returned grade, with a form to dispute
+ * one question or rubric item
+ */
+const RegradeRequestSection: React.FC<RegradeRequestSectionProps> = ({
+  assignment,
+  grader,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [targetKey, setTargetKey] = useState("");
+  const [reason, setReason] = useState("");
+  const queryKey = ["regradeRequests", grader.submission_id];
+
+  const { data: requests = [] } = useQuery({
+    queryKey,
+    queryFn: async () =>
+      (await apiClient.getRegradeRequests(grader.submission_id)).data,
+  });
+
+  const targets = useMemo(
+    () =>
+      getRegradeTargets(
+        assignment.content,
+        grader.block_scores,
+        assignment.rubric_schema?.items
+      ),
+    [assignment.content, assignment.rubric_schema, grader.block_scores]
+  );
+  // One open request per question or rubric item
+  const openTargetKeys = new Set(
+    requests
+      .filter((request) => request.status === "open")
+      .map(getRegradeTargetKey)
+  );
+  const availableTargets = targets.filter(
+    (target) => !openTargetKeys.has(target.key)
+  );
+
+  const createRequest = useMutation({
+    mutationFn: async () => {
+      const target = targets.find((t) => t.key === targetKey)!;
+      return (
+        await apiClient.createRegradeRequest(grader.submission_id, {
+          block_id: target.block_id,
+          rubric_item_index: target.rubric_item_index,
+          reason: reason.trim(),
+        })
+      ).data;
+    },
+    onSuccess: (request) => {
+      queryClient.setQueryData(
+        queryKey,
+        (prev: RegradeRequest[] | undefined) => [request, ...(prev || [])]
+      );
+      setTargetKey("");
+      setReason("");
+      toast({
+        title: "Regrade requested",
+        description: "Course staff will review your request.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error requesting regrade",
+        description: error.message || "Failed to submit regrade request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!grader.reviewed_at || (targets.length === 0 && requests.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-foreground">
+        Regrade requests
+      </h4>
+      {requests.map((request) => (
+        <div key={request.id} className="rounded-lg border border-border p-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs font-semibold text-muted-foreground truncate">
+              {describeRegradeTarget(request, targets)}
+            </p>
+            <Badge variant={STATUS_VARIANTS[request.status]}>
+              {REGRADE_STATUS_LABELS[request.status]}
+            </Badge>
+          </div>
+          <p className="mt-1 text-sm text-foreground whitespace-pre-wrap">
+            {request.reason}
+          </p>
+          {request.response && (
+            <p className="mt-2 text-sm text-muted-foreground whitespace-pre-wrap border-l-2 border-border pl-2">
+              {request.response}
+            </p>
+          )}
+        </div>
+      ))}
+      {availableTargets.length > 0 && (
+        <div className="space-y-2 rounded-lg border border-dashed border-border p-3">
+          <Select value={targetKey} onValueChange={setTargetKey}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Which question or rubric item?" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTargets.map((target) => (
+                <SelectItem key={target.key} value={target.key}>
+                  {target.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Explain why this should be regraded..."
+            rows={3}
+            maxLength={2000}
+            className="resize-none text-sm"
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              disabled={!targetKey || !reason.trim() || createRequest.isPending}
+              onClick={() => createRequest.mutate()}
+            >
+              Request Regrade
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegradeRequestSection;
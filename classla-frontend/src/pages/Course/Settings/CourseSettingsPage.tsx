@@ -29,6 +29,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { TAPermissions, UserRole, CourseEnrollment, User } from "../../../types";
 import { getDisplayName } from "../../../lib/utils";
 import AIMemoryTab from "./AIMemoryTab";
+import GradingTab from "./GradingTab";
+import ScheduleTab from "./ScheduleTab";
 
 interface CourseSettingsPageProps {
   course?: any;
@@ -328,6 +330,8 @@ const CourseSettingsPage: React.FC<CourseSettingsPageProps> = ({
         <TabsList className="mb-6">
           <TabsTrigger value="general">General</TabsTrigger>
           <TabsTrigger value="ta-permissions">TA Permissions</TabsTrigger>
+          <TabsTrigger value="grading">Grading</TabsTrigger>
+          <TabsTrigger value="schedule">Schedule</TabsTrigger>
           <TabsTrigger value="ai-memory">AI Memory</TabsTrigger>
         </TabsList>
 
@@ -758,6 +762,16 @@ const CourseSettingsPage: React.FC<CourseSettingsPageProps> = ({
           </Card>
         </TabsContent>
 
+        {/* Grading Tab */}
+        <TabsContent value="grading">
+          <GradingTab course={course} setCourse={setCourse} />
+        </TabsContent>
+
+        {/* Schedule Tab */}
+        <TabsContent value="schedule">
+          <ScheduleTab course={course} setCourse={setCourse} />
+        </TabsContent>
+
         {/* AI Memory Tab */}
         <TabsContent value="ai-memory">
           <AIMemoryTab course={course} setCourse={setCourse} />
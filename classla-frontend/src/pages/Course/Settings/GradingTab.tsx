@@ -0,0 +1,373 @@
+import React, { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "../../../components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../components/ui/select";
+import { apiClient } from "../../../lib/api";
+import { useToast } from "../../../hooks/use-toast";
+import { Assignment, GradeCategory, LetterGradeCutoff } from "../../../types";
+import { Plus, Trash2, Save, Scale, RotateCcw } from "lucide-react";
+
+interface GradingTabProps {
+  course: any;
+  setCourse?: (course: any) => void;
+}
+
+const DEFAULT_LETTER_SCALE: LetterGradeCutoff[] = [
+  { letter: "A", minPercent: 90 },
+  { letter: "B", minPercent: 80 },
+  { letter: "C", minPercent: 70 },
+  { letter: "D", minPercent: 60 },
+  { letter: "F", minPercent: 0 },
+];
+
+const UNCATEGORIZED = "uncategorized";
+
+const GradingTab: React.FC<GradingTabProps> = ({ course, setCourse }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const grading = course?.settings?.grading;
+
+  const [categories, setCategories] = useState<GradeCategory[]>(
+    grading?.categories || []
+  );
+  const [assignmentCategories, setAssignmentCategories] = useState<
+    Record<string, string>
+  >(grading?.assignmentCategories || {});
+  const [letterScale, setLetterScale] = useState<LetterGradeCutoff[]>(
+    grading?.letterScale?.length ? grading.letterScale : DEFAULT_LETTER_SCALE
+  );
+  const [saving, setSaving] = useState(false);
+
+  const { data: assignments = [] } = useQuery<Assignment[]>({
+    queryKey: ["courseAssignments", course?.id],
+    queryFn: () =>
+      apiClient.getCourseAssignments(course.id).then((r) => r.data),
+    enabled: !!course?.id,
+  });
+
+  const totalWeight = categories.reduce((sum, c) => sum + (c.weight || 0), 0);
+
+  const updateCategory = (id: string, changes: Partial<GradeCategory>) => {
+    setCategories((prev) =>
+      prev.map((c) => (c.id === id ? { ...c, ...changes } : c))
+    );
+  };
+
+  const addCategory = () => {
+    setCategories((prev) => [
+      ...prev,
+      {
+        id: `category-${Date.now().toString(36)}`,
+        name: "",
+        weight: 0,
+        dropLowest: 0,
+      },
+    ]);
+  };
+
+  const removeCategory = (id: string) => {
+    setCategories((prev) => prev.filter((c) => c.id !== id));
+    // Assignments in a removed category become uncategorized
+    setAssignmentCategories((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([, categoryId]) => categoryId !== id)
+      )
+    );
+  };
+
+  const setAssignmentCategory = (assignmentId: string, categoryId: string) => {
+    setAssignmentCategories((prev) => {
+      const next = { ...prev };
+      if (categoryId === UNCATEGORIZED) {
+        delete next[assignmentId];
+      } else {
+        next[assignmentId] = categoryId;
+      }
+      return next;
+    });
+  };
+
+  const updateCutoff = (index: number, changes: Partial<LetterGradeCutoff>) => {
+    setLetterScale((prev) =>
+      prev.map((cutoff, i) =>
+        i === index ? { ...cutoff, ...changes } : cutoff
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    if (!course?.id) return;
+
+    setSaving(true);
+    try {
+      const response = await apiClient.updateCourse(course.id, {
+        settings: {
+          ...course.settings,
+          grading: {
+            categories: categories.map((c) => ({ ...c, name: c.name.trim() })),
+            assignmentCategories,
+            letterScale: [...letterScale].sort(
+              (a, b) => b.minPercent - a.minPercent
+            ),
+          },
+        },
+      });
+      if (setCourse) {
+        setCourse(response.data);
+      }
+      queryClient.invalidateQueries({ queryKey: ["gradebook", course.id] });
+      toast({
+        title: "Grading settings saved",
+        description: "Grade categories and letter scale have been updated.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error saving grading settings",
+        description: error.message || "Failed to save grading settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Grade Categories
+          </CardTitle>
+          <CardDescription>
+            Weight groups of assignments in the final grade. Without categories,
+            every assignment counts by points.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {categories.length > 0 && (
+            <div className="grid grid-cols-[1fr_6rem_6rem_2.5rem] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Name</span>
+              <span>Weight (%)</span>
+              <span>Drop lowest</span>
+              <span />
+            </div>
+          )}
+          {categories.map((category) => (
+            <div
+              key={category.id}
+              className="grid grid-cols-[1fr_6rem_6rem_2.5rem] gap-2 items-center"
+            >
+              <Input
+                value={category.name}
+                onChange={(e) =>
+                  updateCategory(category.id, { name: e.target.value })
+                }
+                placeholder="e.g. Homework"
+              />
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={category.weight}
+                onChange={(e) =>
+                  updateCategory(category.id, {
+                    weight: Number(e.target.value) || 0,
+                  })
+                }
+              />
+              <Input
+                type="number"
+                min={0}
+                step={1}
+                value={category.dropLowest}
+                onChange={(e) =>
+                  updateCategory(category.id, {
+                    dropLowest: Math.max(
+                      0,
+                      Math.floor(Number(e.target.value) || 0)
+                    ),
+                  })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeCategory(category.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addCategory}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Category
+            </Button>
+            {categories.length > 0 && (
+              <span
+                className={`text-sm ${
+                  totalWeight === 100
+                    ? "text-muted-foreground"
+                    : "text-yellow-600 dark:text-yellow-400"
+                }`}
+              >
+                Total weight: {totalWeight}%
+                {totalWeight !== 100 && " (weights will be scaled to 100%)"}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {categories.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Assignment Categories</CardTitle>
+            <CardDescription>
+              Uncategorized assignments are not counted in weighted grades.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {assignments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No assignments in this course yet
+              </p>
+            ) : (
+              assignments.map((assignment) => (
+                <div
+                  key={assignment.id}
+                  className="flex items-center justify-between gap-4"
+                >
+                  <Label className="truncate">{assignment.name}</Label>
+                  <Select
+                    value={assignmentCategories[assignment.id] || UNCATEGORIZED}
+                    onValueChange={(value) =>
+                      setAssignmentCategory(assignment.id, value)
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNCATEGORIZED}>
+                        Uncategorized
+                      </SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name || "Untitled category"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Letter Grade Scale</CardTitle>
+          <CardDescription>
+            Students receive the highest letter whose minimum they meet.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {letterScale.map((cutoff, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-[6rem_8rem_2.5rem] gap-2 items-center"
+            >
+              <Input
+                value={cutoff.letter}
+                onChange={(e) =>
+                  updateCutoff(index, { letter: e.target.value })
+                }
+                placeholder="Letter"
+              />
+              <Input
+                type="number"
+                step="any"
+                value={cutoff.minPercent}
+                onChange={(e) =>
+                  updateCutoff(index, {
+                    minPercent: Number(e.target.value) || 0,
+                  })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setLetterScale((prev) => prev.filter((_, i) => i !== index))
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setLetterScale((prev) => [
+                  ...prev,
+                  { letter: "", minPercent: 0 },
+                ])
+              }
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Letter
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLetterScale(DEFAULT_LETTER_SCALE)}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Reset to Default
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? "Saving..." : "Save Grading Settings"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default GradingTab;
@@ -0,0 +1,220 @@
+import React, { useState } from "react";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "../../../components/ui/card";
+import { apiClient } from "../../../lib/api";
+import { useToast } from "../../../hooks/use-toast";
+import { CourseMeetingTime } from "../../../types";
+import { CalendarClock, Plus, Save, Trash2 } from "lucide-react";
+
+interface ScheduleTabProps {
+  course: any;
+  setCourse?: (course: any) => void;
+}
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const ScheduleTab: React.FC<ScheduleTabProps> = ({ course, setCourse }) => {
+  const { toast } = useToast();
+  const [meetings, setMeetings] = useState<CourseMeetingTime[]>(
+    course?.settings?.meetingTimes || []
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateMeeting = (id: string, changes: Partial<CourseMeetingTime>) => {
+    setMeetings((prev) =>
+      prev.map((m) => (m.id === id ? { ...m, ...changes } : m))
+    );
+  };
+
+  const toggleDay = (meeting: CourseMeetingTime, day: number) => {
+    const days = meeting.days.includes(day)
+      ? meeting.days.filter((d) => d !== day)
+      : [...meeting.days, day].sort();
+    updateMeeting(meeting.id, { days });
+  };
+
+  const addMeeting = () => {
+    setMeetings((prev) => [
+      ...prev,
+      {
+        id: `meeting-${Date.now().toString(36)}`,
+        label: "",
+        days: [1, 3],
+        startTime: "10:00",
+        endTime: "10:50",
+        timeZone: browserTimeZone,
+      },
+    ]);
+  };
+
+  const removeMeeting = (id: string) => {
+    setMeetings((prev) => prev.filter((m) => m.id !== id));
+  };
+
+  const invalidMeeting = meetings.find(
+    (m) => m.days.length === 0 || !m.startTime || m.endTime <= m.startTime
+  );
+
+  const handleSave = async () => {
+    if (!course?.id) return;
+
+    setSaving(true);
+    try {
+      const response = await apiClient.updateCourse(course.id, {
+        settings: {
+          ...course.settings,
+          meetingTimes: meetings.map((m) => ({
+            ...m,
+            label: m.label?.trim() || undefined,
+          })),
+        },
+      });
+      if (setCourse) {
+        setCourse(response.data);
+      }
+      toast({
+        title: "Schedule saved",
+        description: "Class meeting times have been updated.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error saving schedule",
+        description: error.message || "Failed to save class meeting times",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Class Meetings
+          </CardTitle>
+          <CardDescription>
+            When the class meets each week. IDEs are warmed up ahead of these
+            times (and ahead of IDE assignment due dates) so students don't wait
+            for a container to start.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {meetings.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No meeting times yet
+            </p>
+          )}
+          {meetings.map((meeting) => (
+            <div
+              key={meeting.id}
+              className="space-y-3 rounded-md border border-border p-3"
+            >
+              <div className="flex items-center gap-2">
+                <Input
+                  value={meeting.label || ""}
+                  onChange={(e) =>
+                    updateMeeting(meeting.id, { label: e.target.value })
+                  }
+                  placeholder="e.g. Lecture, Lab section 2"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeMeeting(meeting.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {DAYS.map((day, index) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={
+                      meeting.days.includes(index) ? "default" : "outline"
+                    }
+                    onClick={() => toggleDay(meeting, index)}
+                  >
+                    {day}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor={`${meeting.id}-start`}>Starts</Label>
+                  <Input
+                    id={`${meeting.id}-start`}
+                    type="time"
+                    value={meeting.startTime}
+                    onChange={(e) =>
+                      updateMeeting(meeting.id, { startTime: e.target.value })
+                    }
+                    className="w-32"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`${meeting.id}-end`}>Ends</Label>
+                  <Input
+                    id={`${meeting.id}-end`}
+                    type="time"
+                    value={meeting.endTime}
+                    onChange={(e) =>
+                      updateMeeting(meeting.id, { endTime: e.target.value })
+                    }
+                    className="w-32"
+                  />
+                </div>
+                <span className="pb-2 text-sm text-muted-foreground">
+                  {meeting.timeZone}
+                </span>
+              </div>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addMeeting}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Meeting Time
+            </Button>
+            {invalidMeeting && (
+              <span className="text-sm text-yellow-600 dark:text-yellow-400">
+                Each meeting needs at least one day and must end after it starts
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSave}
+          disabled={saving || !!invalidMeeting}
+          className="flex items-center gap-2"
+        >
+          <Save className="h-4 w-4" />
+          {saving ? "Saving..." : "Save Schedule"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleTab;
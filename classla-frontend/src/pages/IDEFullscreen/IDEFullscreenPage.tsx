@@ -7,6 +7,7 @@ import { useToast } from "../../hooks/use-toast";
 import { useAuth } from "../../contexts/AuthContext";
 import { apiClient } from "../../lib/api";
 import { fetchWithNetworkRetry } from "../../components/Blocks/IDE/fetchWithNetworkRetry";
+import { getRunLanguage } from "../../components/Blocks/IDE/ideLanguages";
 
 
 const PRODUCTION_IDE_API_BASE_URL =
@@ -212,7 +213,7 @@ const IDEFullscreenPage: React.FC = () => {
               urls: {
                 ...data.urls,
                 terminal: data.urls.terminal || `${ideApiBaseUrl}/terminal/${data.id}/`,
-                vnc: data.urls.vnc || `${ideApiBaseUrl}/vnc/${data.id}/`,
+                vnc: data.urls.vnc ?? `${ideApiBaseUrl}/vnc/${data.id}/`,
               },
             };
 
@@ -264,6 +265,12 @@ const IDEFullscreenPage: React.FC = () => {
         userId: user.id,
       });
 
+      // This page doesn't hold a place in line; give it back and let the student retry
+      if (startResponse.status === 202 && startResponse.data.queued) {
+        apiClient.cancelIDEAdmission(startResponse.data.ticket.id).catch(() => {});
+        throw new Error(startResponse.data.message || "All coding environments are busy. Please try again shortly.");
+      }
+
       const containerData = startResponse.data;
       const containerId = containerData.containerId || containerData.id;
 
@@ -282,7 +289,8 @@ const IDEFullscreenPage: React.FC = () => {
           urls: {
             ...containerData.urls,
             terminal: containerData.urls.terminal || `${ideApiBaseUrl}/terminal/${containerId}/`,
-            vnc: containerData.urls.vnc || `${ideApiBaseUrl}/vnc/${containerId}/`,
+            // Empty when the resource profile has no desktop
+            vnc: containerData.urls.vnc ?? `${ideApiBaseUrl}/vnc/${containerId}/`,
           },
         };
         setContainer(newContainer);
@@ -312,15 +320,7 @@ const IDEFullscreenPage: React.FC = () => {
 
     const filename = runFilename || "main.py";
 
-    const ext = filename.split(".").pop()?.toLowerCase();
-    const languageMap: Record<string, string> = {
-      py: "python",
-      js: "node",
-      java: "java",
-      sh: "bash",
-      ts: "node",
-    };
-    const language = languageMap[ext || ""] || "python";
+    const language = getRunLanguage(filename) || "python";
 
     try {
       const response = await fetchWithNetworkRetry(
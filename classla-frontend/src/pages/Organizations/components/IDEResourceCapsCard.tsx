@@ -0,0 +1,196 @@
+import React, { useState } from "react";
+import { apiClient } from "../../../lib/api";
+import { useToast } from "../../../hooks/use-toast";
+import { Button } from "../../../components/ui/button";
+import { Checkbox } from "../../../components/ui/checkbox";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../../components/ui/card";
+import {
+  IDEResourceProfile,
+  IDE_RESOURCE_PROFILES,
+} from "../../../components/extensions/IDEBlock";
+import { IDEResourceCaps, Organization } from "../../../types";
+
+interface IDEResourceCapsCardProps {
+  organization: Organization;
+  onSaved: (organization: Organization) => void;
+}
+
+const PROFILE_LABELS: Record<IDEResourceProfile, string> = {
+  light: "Light",
+  standard: "Standard",
+  gui: "GUI",
+  data_science: "Data science",
+};
+
+type LimitField =
+  | "maxCpuCores"
+  | "maxMemoryGb"
+  | "maxDiskGb"
+  | "maxIdleTimeoutMinutes";
+
+const LIMIT_FIELDS: { field: LimitField; label: string; step: string }[] = [
+  { field: "maxCpuCores", label: "Max CPU cores", step: "0.5" },
+  { field: "maxMemoryGb", label: "Max memory (GB)", step: "1" },
+  { field: "maxDiskGb", label: "Max disk (GB)", step: "1" },
+  {
+    field: "maxIdleTimeoutMinutes",
+    label: "Max idle timeout (minutes)",
+    step: "5",
+  },
+];
+
+const toInput = (value?: number): string =>
+  value === undefined ? "" : String(value);
+
+// Empty means no limit
+const fromInput = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+// Limits organization admins set on the IDE resource profiles their courses use
+const IDEResourceCapsCard: React.FC<IDEResourceCapsCardProps> = ({
+  organization,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const caps: IDEResourceCaps = organization.settings?.ideResourceCaps || {};
+  const [allowedProfiles, setAllowedProfiles] = useState<string[]>(
+    caps.allowedProfiles || IDE_RESOURCE_PROFILES
+  );
+  const [limits, setLimits] = useState<Record<LimitField, string>>({
+    maxCpuCores: toInput(caps.maxCpuCores),
+    maxMemoryGb: toInput(
+      caps.maxMemoryMb !== undefined ? caps.maxMemoryMb / 1024 : undefined
+    ),
+    maxDiskGb: toInput(caps.maxDiskGb),
+    maxIdleTimeoutMinutes: toInput(caps.maxIdleTimeoutMinutes),
+  });
+  const [allowVnc, setAllowVnc] = useState(caps.allowVnc !== false);
+  const [saving, setSaving] = useState(false);
+
+  const toggleProfile = (profile: string, checked: boolean) => {
+    setAllowedProfiles((prev) =>
+      checked ? [...prev, profile] : prev.filter((p) => p !== profile)
+    );
+  };
+
+  const handleSave = async () => {
+    const maxMemoryGb = fromInput(limits.maxMemoryGb);
+    const ideResourceCaps: IDEResourceCaps = {
+      allowedProfiles:
+        allowedProfiles.length === IDE_RESOURCE_PROFILES.length
+          ? undefined
+          : IDE_RESOURCE_PROFILES.filter((p) => allowedProfiles.includes(p)),
+      maxCpuCores: fromInput(limits.maxCpuCores),
+      maxMemoryMb:
+        maxMemoryGb !== undefined ? Math.round(maxMemoryGb * 1024) : undefined,
+      maxDiskGb: fromInput(limits.maxDiskGb),
+      maxIdleTimeoutMinutes: fromInput(limits.maxIdleTimeoutMinutes),
+      allowVnc: allowVnc ? undefined : false,
+    };
+
+    setSaving(true);
+    try {
+      const response = await apiClient.updateOrganization(organization.id, {
+        settings: { ideResourceCaps },
+      });
+      onSaved(response.data);
+      toast({
+        title: "Settings saved",
+        description: "IDE resource limits have been updated",
+      });
+    } catch (error: any) {
+      console.error("Failed to update IDE resource limits:", error);
+      toast({
+        title: "Failed to save",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>IDE Resources</CardTitle>
+        <CardDescription>
+          Limit the IDE environments instructors can choose in courses created
+          from this organization's templates. IDEs for blocks using a profile
+          that isn't allowed start with an allowed one. Leave a limit empty for
+          no limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Allowed environments</Label>
+          <div className="flex flex-wrap gap-4">
+            {IDE_RESOURCE_PROFILES.map((profile) => (
+              <div key={profile} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`profile-${profile}`}
+                  checked={allowedProfiles.includes(profile)}
+                  onCheckedChange={(checked) =>
+                    toggleProfile(profile, checked === true)
+                  }
+                />
+                <Label
+                  htmlFor={`profile-${profile}`}
+                  className="cursor-pointer"
+                >
+                  {PROFILE_LABELS[profile]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {LIMIT_FIELDS.map(({ field, label, step }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={field}>{label}</Label>
+              <Input
+                id={field}
+                type="number"
+                min="0"
+                step={step}
+                value={limits[field]}
+                placeholder="No limit"
+                onChange={(e) =>
+                  setLimits((prev) => ({ ...prev, [field]: e.target.value }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="allow-vnc"
+            checked={allowVnc}
+            onCheckedChange={(checked) => setAllowVnc(checked === true)}
+          />
+          <Label htmlFor="allow-vnc" className="cursor-pointer">
+            Allow desktop (VNC) environments
+          </Label>
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={saving || allowedProfiles.length === 0}
+        >
+          {saving ? "Saving..." : "Save Limits"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IDEResourceCapsCard;
@@ -8,6 +8,7 @@ import { Label } from "../../../components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../../../components/ui/card";
 import { Copy } from "lucide-react";
 import { Organization } from "../../../types";
+import IDEResourceCapsCard from "./IDEResourceCapsCard";
 
 const SettingsTab: React.FC = () => {
   const { orgSlug } = useParams<{ orgSlug: string }>();
@@ -119,6 +120,11 @@ const SettingsTab: React.FC = () => {
         </CardContent>
       </Card>
 
+      <IDEResourceCapsCard
+        organization={organization}
+        onSaved={setOrganization}
+      />
+
       <Card>
         <CardHeader>
           <CardTitle>Join Code</CardTitle>
@@ -19,6 +19,28 @@ export interface ContainerInfo {
     memoryLimit: string;
   };
   isPreWarmed?: boolean;
+  networkPolicy?: ContainerNetworkPolicy | null; // null when none was requested (full access)
+}
+
+export type NetworkPolicyMode = "none" | "allowlist" | "full";
+export type NetworkPolicyStatus = "applied" | "requested" | "failed";
+
+export interface ContainerNetworkPolicy {
+  mode: NetworkPolicyMode;
+  allowlist?: string[];
+  status: NetworkPolicyStatus;
+}
+
+export interface NetworkPolicyAuditEntry {
+  id: number;
+  containerId: string;
+  s3Bucket: string;
+  userId?: string;
+  policy: { mode: NetworkPolicyMode; allowlist?: string[] };
+  source: "assignment" | "boot"; // Pre-warmed container assignment or new container
+  status: NetworkPolicyStatus;
+  error?: string;
+  recordedAt: string;
 }
 
 export interface SystemResources {
@@ -63,6 +85,37 @@ export interface QueueStats {
   withS3Bucket: number;
 }
 
+// Predictive pre-warming
+export interface PrewarmForecastPoint {
+  at: string;
+  scheduledStarts: number;
+  historicalStarts: number;
+  target: number;
+}
+
+export interface PrewarmDemandEvent {
+  kind: "class_meeting" | "due_date";
+  course_id: string;
+  assignment_id?: string;
+  starts_at: string;
+  ends_at: string;
+  expected_users: number;
+}
+
+export interface QueueForecast {
+  timestamp: string;
+  targetSize: number;
+  preWarmed: number;
+  minSize: number;
+  maxSize: number;
+  current: PrewarmForecastPoint;
+  hourly: PrewarmForecastPoint[];
+  history: { at: string; target: number; actual: number }[];
+  upcomingEvents: PrewarmDemandEvent[];
+  scheduleFetchedAt: string | null;
+  scheduleError: string | null;
+}
+
 // Load Test Types
 export interface LoadTestConfig {
   numContainers: number;
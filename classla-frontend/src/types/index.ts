@@ -71,14 +71,42 @@ export interface Folder {
   created_at: Date;
 }
 
+// Late penalty policy (assignment.settings.latePolicy)
+export interface LatePolicy {
+  penaltyPercent: number; // Deducted per started day/hour past the due date
+  penaltyUnit: "day" | "hour";
+  gracePeriodMinutes: number;
+  maxLateDays: number | null; // Cutoff; null for no cutoff
+  zeroAfterCutoff: boolean; // Score zero past the cutoff instead of rejecting
+}
+
+// Which submitted attempt counts toward the grade
+export type AttemptScoringPolicy = "best" | "last" | "average" | "first";
+
+// Outbound network access for an assignment's IDE containers
+export type IDENetworkPolicyMode = "none" | "allowlist" | "full";
+
+export interface IDENetworkPolicy {
+  mode: IDENetworkPolicyMode;
+  allowlist?: string[]; // Hostnames reachable over HTTP(S) in allowlist mode
+}
+
 // Assignment Settings
 export interface AssignmentSettings {
   allowLateSubmissions?: boolean;
+  latePolicy?: LatePolicy | null; // Only applies when allowLateSubmissions is on
   allowResubmissions?: boolean;
+  maxAttempts?: number | null; // Submitted attempts allowed with resubmissions; null for unlimited
+  attemptCooldownMinutes?: number; // Wait after submitting before starting another attempt
+  attemptScoring?: AttemptScoringPolicy; // Defaults to "last"
+  blindGrading?: boolean; // Hide student names from graders behind pseudonyms
+  blindGradingRevealedAt?: string | null; // Set by the server when an instructor reveals identities
+  gradeReleaseAt?: string | null; // Scheduled release of all grades; set through the release endpoint
   showResponsesAfterSubmission?: boolean;
   showScoreAfterSubmission?: boolean; // Show autograded score to students after submission
   hideContentAfterReview?: boolean; // When enabled, students only see their score after review — content is hidden
   timeLimitSeconds?: number; // Time limit in seconds for timed assignments (e.g., 7200 = 2 hours)
+  networkPolicy?: IDENetworkPolicy; // IDE network access; unset means none for lockdown assignments, full otherwise
   [key: string]: any;
 }
 
@@ -121,6 +149,8 @@ export interface Submission {
 export interface BlockScore {
   awarded: number; // Points awarded for this block
   possible: number; // Total possible points for this block
+  needsReview?: boolean; // Auto-scored below full credit; a TA should confirm
+  overridden?: boolean; // Set by hand; kept when the autograder re-runs
 }
 
 // Grader entity (feedback and grading info)
@@ -134,14 +164,222 @@ export interface Grader {
   reviewed_at?: Date;
   submission_id: string;
   block_scores?: Record<string, BlockScore>; // Block ID (UUID) -> score details
+  late_penalty_percent?: number | null; // Percent of the raw scores deducted for lateness; null in an update restores the late policy
+  late_minutes?: number;
+  late_penalty_overridden?: boolean; // Set by staff; not recomputed on resubmission
+  rubric_comments?: string[]; // Rubric item comments, only in a student's returned grades
+  code_annotations?: Pick<
+    CodeAnnotation,
+    "block_id" | "file_path" | "start_line" | "end_line" | "body"
+  >[]; // Only in a student's returned grades
+}
+
+// Grader comment anchored to lines of a file in a submission's IDE block
+export interface CodeAnnotation {
+  id: string;
+  submission_id: string;
+  course_id: string;
+  block_id: string; // TipTap IDE block ID
+  file_path: string;
+  file_revision: string; // SHA-256 of the file content the comment was written against
+  start_line: number;
+  start_column?: number | null; // Unset for whole-line comments
+  end_line: number;
+  end_column?: number | null;
+  body: string;
+  author_id?: string;
+  author?: { first_name: string; last_name: string } | null;
+  created_at: string;
+  updated_at: string;
 }
 
+export type NewCodeAnnotation = Pick<
+  CodeAnnotation,
+  | "block_id"
+  | "file_path"
+  | "file_revision"
+  | "start_line"
+  | "start_column"
+  | "end_line"
+  | "end_column"
+  | "body"
+>;
+
 // Rubric instance (actual scores for a submission)
 export interface Rubric {
   id: string;
   submission_id: string;
   rubric_schema_id: string; // Reference to RubricSchema
   values: number[]; // Scores for each rubric item
+  comments?: string[]; // Comment for each rubric item, parallel to values
+}
+
+// Reusable grading comment in a course's comment bank
+export interface BankComment {
+  id: string;
+  course_id: string;
+  text: string;
+  points: number; // Added to the rubric item score when applied
+  usage_count: number;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RegradeRequestStatus = "open" | "accepted" | "rejected";
+
+// Student dispute of one block or rubric item score on a returned grade
+export interface RegradeRequest {
+  id: string;
+  course_id: string;
+  assignment_id: string;
+  submission_id: string;
+  student_id: string;
+  block_id?: string | null; // Exactly one of block_id / rubric_item_index is set
+  rubric_item_index?: number | null;
+  reason: string;
+  status: RegradeRequestStatus;
+  response?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Included in the course regrade queue
+  student_name?: string;
+  assignment_name?: string | null;
+}
+
+export type DistributionStrategy = "even" | "section" | "block";
+
+// Grading work given to one staff member: a student's submission or one block for everyone
+export interface GradingAssignment {
+  id: string;
+  assignee_id: string;
+  student_id?: string | null; // Exactly one of student_id / block_id is set
+  block_id?: string | null;
+}
+
+export interface GradingStaffMember {
+  id: string;
+  role: UserRole;
+  section_id?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+}
+
+// An assignment's grading distribution with each assignee's progress
+export interface GradingDistribution {
+  assignments: GradingAssignment[];
+  staff: GradingStaffMember[];
+  progress: Record<string, { assigned: number; completed: number }>;
+}
+
+// One changed score field on a grader (audit trail)
+export interface GraderScoreChange {
+  id: string;
+  grader_id: string;
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+  source: "manual" | "autograder" | "import" | "regrade";
+  changed_by?: string | null;
+  changed_by_name?: string | null;
+  regrade_request_id?: string | null;
+  created_at: string;
+}
+
+// AI-suggested score for one rubric item or manual IDE test
+export interface GradingSuggestionItem {
+  index: number; // Position in the rubric items or the block's manual tests
+  title: string;
+  points: number;
+  suggested: number | null; // null when the item doesn't apply to this response
+  justification: string;
+}
+
+// AI grading suggestion; only saved once a grader accepts it
+export interface GradingSuggestion {
+  kind: "shortAnswer" | "ideManualTests";
+  items: GradingSuggestionItem[];
+  summary: string;
+  basePoints: number; // Points the attempt's executable IDE tests already earned
+}
+
+// One side of a similarity pair; prior-term submissions come from cloned courses
+export interface SimilaritySubmission {
+  submission_id: string;
+  student_id: string | null; // null while blind grading hides the student
+  student_name: string;
+  prior_term: boolean;
+  assignment_name: string | null;
+  course_name: string | null;
+}
+
+export interface SimilarityPair {
+  index: number; // Position in the report, used to load the match view
+  similarity: number; // 0-1, relative to the smaller submission
+  shared_fingerprints: number;
+  a: SimilaritySubmission;
+  b: SimilaritySubmission;
+}
+
+// Code similarity check across the submissions of one IDE block
+export interface SimilarityReport {
+  id: string;
+  block_id: string;
+  include_prior_terms: boolean;
+  status: "running" | "completed" | "failed";
+  submission_count: number;
+  pairs: SimilarityPair[];
+  error?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+}
+
+export interface SimilarityMatchRegion {
+  pathA: string;
+  startLineA: number;
+  endLineA: number;
+  pathB: string;
+  startLineB: number;
+  endLineB: number;
+}
+
+// Both submissions of a pair with the line ranges they share
+export interface SimilarityPairDetail {
+  similarity: number;
+  shared_fingerprints: number;
+  a: SimilaritySubmission & { files: { path: string; content: string }[] };
+  b: SimilaritySubmission & { files: { path: string; content: string }[] };
+  regions: SimilarityMatchRegion[];
+}
+
+// Place in the waiting room when the IDE cluster is at capacity
+export interface IDEAdmissionTicket {
+  id: string;
+  status:
+    | "waiting"
+    | "starting"
+    | "admitted"
+    | "failed"
+    | "cancelled"
+    | "expired";
+  priority: "high" | "normal";
+  position: number | null; // 1-based while waiting
+  etaSeconds: number | null;
+  enqueuedAt: string;
+  container?: {
+    id: string;
+    serviceName: string;
+    status: string;
+    urls: {
+      vnc: string;
+      codeServer: string;
+      webServer: string;
+      terminal?: string;
+    };
+  };
+  error?: string;
 }
 
 // Rubric type enum
@@ -230,7 +468,91 @@ export interface StudentGradebookInfo {
   userId: string;
   firstName: string;
   lastName: string;
+  email: string;
+  username: string | null; // Only set for managed students
   sectionId: string | null;
+  sectionName: string | null;
+  sectionSlug: string | null;
+}
+
+// Weighted group of assignments, stored in course.settings.grading
+export interface GradeCategory {
+  id: string;
+  name: string;
+  weight: number; // percent of the final grade
+  dropLowest: number;
+}
+
+export interface LetterGradeCutoff {
+  letter: string;
+  minPercent: number;
+}
+
+export interface GradingScheme {
+  categories: GradeCategory[];
+  assignmentCategories: Record<string, string>; // assignment_id -> category id
+  letterScale: LetterGradeCutoff[];
+}
+
+// Weekly class meeting, stored in course.settings.meetingTimes.
+// Used to pre-warm IDE containers before class starts.
+export interface CourseMeetingTime {
+  id: string;
+  label?: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // "HH:MM" in timeZone
+  endTime: string;
+  timeZone: string; // IANA zone
+}
+
+// Organization limits on IDE resource profiles (organization.settings.ideResourceCaps)
+export interface IDEResourceCaps {
+  allowedProfiles?: string[]; // All profiles when unset
+  maxCpuCores?: number;
+  maxMemoryMb?: number;
+  maxDiskGb?: number;
+  maxIdleTimeoutMinutes?: number;
+  allowVnc?: boolean; // VNC desktops allowed unless false
+}
+
+// A resource profile as an IDE block in a course would get it, after caps
+export interface IDEResourceProfileOption {
+  name: string;
+  label: string;
+  description: string;
+  allowed: boolean;
+  capped: boolean; // Reduced by the organization's caps
+  resources: {
+    cpuCores: number;
+    memoryMb: number;
+    diskMb: number;
+    idleTimeoutSeconds: number;
+    vncEnabled: boolean;
+  };
+}
+
+export interface IDEResourceProfilesResponse {
+  defaultProfile: string;
+  caps: IDEResourceCaps | null;
+  profiles: IDEResourceProfileOption[];
+}
+
+export interface CategoryGrade {
+  categoryId: string | null; // null when the course has no categories
+  name: string;
+  weight: number;
+  runningPercent: number | null;
+  finalPercent: number | null;
+  droppedAssignmentIds: string[];
+}
+
+// Running grades count graded work only; final grades score ungraded work as zero
+export interface GradeSummary {
+  categories: CategoryGrade[];
+  runningPercent: number | null;
+  runningLetter: string | null;
+  finalPercent: number | null;
+  finalLetter: string | null;
 }
 
 // Gradebook data (API response)
@@ -239,6 +561,8 @@ export interface GradebookData {
   assignments: Assignment[];
   submissions: Submission[];
   graders: Grader[];
+  gradingScheme: GradingScheme;
+  gradeSummaries: Record<string, GradeSummary>; // student_id -> summary
 }
 
 // Student grades data (API response)
@@ -246,6 +570,64 @@ export interface StudentGradesData {
   assignments: Assignment[];
   submissions: Submission[];
   graders: Grader[];
+  gradingScheme: GradingScheme;
+  gradeSummary: GradeSummary;
+}
+
+export interface AttemptPolicy {
+  maxAttempts: number | null; // null for unlimited
+  cooldownMinutes: number;
+  scoring: AttemptScoringPolicy;
+}
+
+// One submitted attempt in a student's attempt history
+export interface AttemptHistoryEntry {
+  submissionId: string;
+  attemptNumber: number; // 1-based, in submit order
+  status: string;
+  timestamp: string;
+  score: number | null; // null until graded and visible to the student
+  countsTowardGrade: boolean;
+}
+
+export interface AttemptHistory {
+  policy: AttemptPolicy;
+  attempts: AttemptHistoryEntry[];
+  inProgressSubmissionId: string | null;
+  score: number | null; // Score under the scoring policy
+  nextAttemptAt: string | null; // Set while a cooldown is running
+  canStartAttempt: boolean;
+}
+
+export type GradeImportStatus =
+  | "update"
+  | "unchanged"
+  | "unmatched"
+  | "invalid"
+  | "duplicate";
+
+// One CSV row in a gradebook import, matched to a student by email/username
+export interface GradeImportChange {
+  rowNumber: number;
+  identifier: string;
+  studentId: string | null;
+  studentName: string | null;
+  currentScore: number | null;
+  newScore: number | null;
+  status: GradeImportStatus;
+  message?: string;
+}
+
+// Gradebook import (API response). `applied` and `failed` are only set
+// when the import was committed.
+export interface GradeImportResult {
+  dryRun: boolean;
+  identifierColumn: string;
+  scoreColumn: string;
+  changes: GradeImportChange[];
+  summary: Record<GradeImportStatus, number>;
+  applied?: number;
+  failed?: { rowNumber: number; message: string }[];
 }
 
 // Create grader with submission request
@@ -270,6 +652,10 @@ export interface Organization {
   id: string;
   name: string;
   slug: string; // Join code (similar to course slugs)
+  settings?: {
+    ideResourceCaps?: IDEResourceCaps;
+    [key: string]: any;
+  };
   created_by_id: string;
   created_at: Date;
   updated_at: Date;
@@ -324,6 +710,55 @@ export interface AutogradeResponse {
   message?: string; // Present when scores are hidden
 }
 
+// Discussion Types
+
+/**
+ * Discussion post as returned to the current viewer. Anonymous posts have
+ * author_id null and author_name "Anonymous" for peers; staff and the
+ * author always see the real author.
+ */
+export interface DiscussionPost {
+  id: string;
+  parent_id: string | null;
+  content: string;
+  is_anonymous: boolean;
+  status: "pending" | "approved" | "rejected";
+  created_at: string;
+  updated_at: string;
+  is_own: boolean;
+  author_id: string | null;
+  author_name: string;
+  vote_count: number;
+  has_voted: boolean;
+}
+
+export interface DiscussionPostsResponse {
+  posts: DiscussionPost[];
+  viewer: {
+    canModerate: boolean;
+    canPost: boolean;
+    postsRemaining: number | null; // null when unlimited
+  };
+  isClosed: boolean;
+}
+
+// Poll Types
+
+/**
+ * Aggregated poll results for the current viewer. Counts are omitted when the
+ * poll's showResults setting hides them from this student.
+ */
+export interface PollResultsResponse {
+  visible: boolean;
+  canPresent: boolean; // Course staff can project results
+  hasVoted: boolean;
+  isClosed: boolean;
+  sectionId: string | null;
+  counts?: Record<string, number>; // option id -> votes
+  totalResponses?: number;
+  totalStudents?: number;
+}
+
 // Managed Student Types
 
 /**
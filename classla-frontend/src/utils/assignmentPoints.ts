@@ -1,22 +1,29 @@
 /**
- * Utility functions for calculating assignment points from MCQ blocks, IDE blocks, and rubrics
+ * Utility functions for calculating assignment points from autograded blocks, IDE blocks, and rubrics
  */
 
 import { RubricSchema } from "../types";
 
 interface ContentBlockNode {
   type: string;
-  attrs?: {
-    mcqData?: {
-      points?: number;
-    };
-    ideData?: {
-      points?: number;
-    };
-  };
+  attrs?: Record<string, { points?: number; gradingType?: string } | undefined>;
   content?: ContentBlockNode[];
 }
 
+/**
+ * Block types that carry points, mapped to the node attribute holding their data.
+ * Mirrors the graders registered in the backend's services/grading.
+ */
+const POINT_BEARING_BLOCKS: Record<string, string> = {
+  mcqBlock: "mcqData",
+  fillInTheBlankBlock: "fillInTheBlankData",
+  parsonsProblemBlock: "parsonsProblemData",
+  dragDropMatchingBlock: "dragDropMatchingData",
+  clickableAreaBlock: "clickableAreaData",
+  shortAnswerBlock: "shortAnswerData",
+  ideBlock: "ideData",
+};
+
 /**
  * Calculate total points from rubric schema
  * Only includes non-negative, non-extra-credit items
@@ -38,10 +45,10 @@ export function calculateRubricPoints(
 }
 
 /**
- * Calculate total points for an assignment by summing points from all MCQ and IDE blocks
+ * Calculate total points for an assignment by summing points from all autograded and IDE blocks
  * @param content - The assignment content as a JSON string
  * @param rubricSchema - Optional rubric schema to include rubric points
- * @returns Total points from all MCQ blocks, IDE blocks, and rubric items, or 0 if content is invalid
+ * @returns Total points from all point-bearing blocks and rubric items, or 0 if content is invalid
  */
 export function calculateAssignmentPoints(
   content: string,
@@ -54,19 +61,13 @@ export function calculateAssignmentPoints(
     let totalPoints = 0;
 
     /**
-     * Recursively traverse the document tree to find MCQ and IDE blocks
+     * Recursively traverse the document tree to find point-bearing blocks
      */
     function traverse(node: ContentBlockNode): void {
-      // Check if this is an MCQ block with point data
-      if (node.type === "mcqBlock" && node.attrs?.mcqData) {
-        const points = node.attrs.mcqData.points || 0;
-        totalPoints += points;
-      }
-
-      // Check if this is an IDE block with point data
-      if (node.type === "ideBlock" && node.attrs?.ideData) {
-        const points = node.attrs.ideData.points || 0;
-        totalPoints += points;
+      const dataAttr = POINT_BEARING_BLOCKS[node.type];
+      const blockData = dataAttr ? node.attrs?.[dataAttr] : undefined;
+      if (blockData) {
+        totalPoints += blockData.points || 0;
       }
 
       // Recursively process child nodes
@@ -0,0 +1,187 @@
+import {
+  AssignmentSettings,
+  AttemptPolicy,
+  AttemptScoringPolicy,
+} from "../types";
+
+// Mirrors the backend's services/attemptPolicy.ts so optimistic gradebook
+// updates score attempts the same way the server does.
+
+export const ATTEMPT_SCORING_LABELS: Record<AttemptScoringPolicy, string> = {
+  last: "Last attempt",
+  best: "Best attempt",
+  average: "Average of attempts",
+  first: "First attempt",
+};
+
+interface AttemptLike {
+  status: string;
+  timestamp: string | Date;
+}
+
+/**
+ * The attempt whose score counts. For "average", `submission` is the latest
+ * graded attempt and `score` the average over all graded attempts.
+ */
+export interface ScoredAttempt<T> {
+  submission: T | null;
+  score: number | null;
+  attemptCount: number;
+}
+
+const ATTEMPT_STATUSES = new Set(["submitted", "graded", "returned"]);
+
+/** Submitted, graded and returned submissions count as attempts. */
+export const isSubmittedAttempt = (submission: { status: string }): boolean =>
+  ATTEMPT_STATUSES.has(submission.status);
+
+const byTimestamp = (a: AttemptLike, b: AttemptLike) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/**
+ * Attempt policy from assignment settings. Without resubmissions a student
+ * gets a single attempt.
+ */
+export function getAttemptPolicy(
+  settings: AssignmentSettings | null | undefined
+): AttemptPolicy {
+  const allowResubmissions = settings?.allowResubmissions ?? false;
+  return {
+    maxAttempts: allowResubmissions ? settings?.maxAttempts || null : 1,
+    cooldownMinutes: settings?.attemptCooldownMinutes ?? 0,
+    scoring: settings?.attemptScoring ?? "last",
+  };
+}
+
+/**
+ * Attempts left and when the next one may start. `nextAttemptAt` is set
+ * while a cooldown is running.
+ */
+export function getAttemptAvailability(
+  policy: AttemptPolicy,
+  submissions: AttemptLike[],
+  now: Date = new Date()
+): {
+  attemptsUsed: number;
+  attemptsLeft: number | null;
+  nextAttemptAt: Date | null;
+} {
+  const attempts = submissions.filter(isSubmittedAttempt).sort(byTimestamp);
+  const last = attempts[attempts.length - 1];
+  const cooldownEnd = last
+    ? new Date(
+        new Date(last.timestamp).getTime() + policy.cooldownMinutes * 60 * 1000
+      )
+    : null;
+
+  return {
+    attemptsUsed: attempts.length,
+    attemptsLeft:
+      policy.maxAttempts === null
+        ? null
+        : Math.max(policy.maxAttempts - attempts.length, 0),
+    nextAttemptAt: cooldownEnd && cooldownEnd > now ? cooldownEnd : null,
+  };
+}
+
+/**
+ * Pick the score that counts for one student's submissions to one
+ * assignment. Without any submitted attempt the latest submission is used.
+ */
+export function selectScoredAttempt<T extends AttemptLike>(
+  scoring: AttemptScoringPolicy,
+  submissions: T[],
+  getScore: (submission: T) => number | null
+): ScoredAttempt<T> {
+  const attempts = submissions.filter(isSubmittedAttempt).sort(byTimestamp);
+
+  if (attempts.length === 0) {
+    const latest = [...submissions].sort(byTimestamp).pop() ?? null;
+    return {
+      submission: latest,
+      score: latest ? getScore(latest) : null,
+      attemptCount: 0,
+    };
+  }
+
+  const scored = attempts
+    .map((submission) => ({ submission, score: getScore(submission) }))
+    .filter(
+      (attempt): attempt is { submission: T; score: number } =>
+        attempt.score !== null
+    );
+  const last = attempts[attempts.length - 1];
+
+  let chosen: { submission: T; score: number | null };
+  switch (scoring) {
+    case "first":
+      chosen = { submission: attempts[0], score: getScore(attempts[0]) };
+      break;
+    case "best":
+      chosen =
+        scored.length > 0
+          ? scored.reduce((best, attempt) =>
+              attempt.score > best.score ? attempt : best
+            )
+          : { submission: last, score: null };
+      break;
+    case "average":
+      chosen =
+        scored.length > 0
+          ? {
+              submission: scored[scored.length - 1].submission,
+              score:
+                Math.round(
+                  (scored.reduce((total, attempt) => total + attempt.score, 0) /
+                    scored.length) *
+                    100
+                ) / 100,
+            }
+          : { submission: last, score: null };
+      break;
+    default:
+      chosen = { submission: last, score: getScore(last) };
+  }
+
+  return { ...chosen, attemptCount: attempts.length };
+}
+
+/**
+ * Scored attempt per student and assignment, keyed by
+ * `${student_id}_${assignment_id}`
+ */
+export function getScoredAttempts<
+  T extends AttemptLike & { student_id: string; assignment_id: string }
+>(
+  submissions: T[],
+  assignments: { id: string; settings?: AssignmentSettings | null }[],
+  getScore: (submission: T) => number | null
+): Map<string, ScoredAttempt<T>> {
+  const groups = new Map<string, T[]>();
+  for (const submission of submissions) {
+    const key = `${submission.student_id}_${submission.assignment_id}`;
+    const group = groups.get(key);
+    if (group) group.push(submission);
+    else groups.set(key, [submission]);
+  }
+
+  const scoring = new Map(
+    assignments.map((assignment) => [
+      assignment.id,
+      getAttemptPolicy(assignment.settings).scoring,
+    ])
+  );
+
+  const result = new Map<string, ScoredAttempt<T>>();
+  groups.forEach((group, key) => {
+    result.set(
+      key,
+      selectScoredAttempt(
+        scoring.get(group[0].assignment_id) ?? "last",
+        group,
+        getScore
+      )
+    );
+  });
+  return result;
+}
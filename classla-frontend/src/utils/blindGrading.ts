@@ -0,0 +1,41 @@
+import { AssignmentSettings } from "../types";
+
+// Mirrors the backend's services/blindGrading.ts. While blind grading is
+// active the server sends each student's pseudonym as `firstName` with an
+// empty `lastName` and email.
+
+export const isBlindGradingActive = (
+  settings: AssignmentSettings | null | undefined
+): boolean => !!settings?.blindGrading && !settings.blindGradingRevealedAt;
+
+/**
+ * "Last, First" for a student, or just the first name when there is no last
+ * name (pseudonyms and anonymized students).
+ */
+export const formatStudentName = (student: {
+  firstName: string;
+  lastName: string;
+}): string =>
+  student.lastName
+    ? `${student.lastName}, ${student.firstName}`
+    : student.firstName;
+
+/**
+ * Whether every submitted attempt has been reviewed, which is when an
+ * instructor may reveal identities.
+ */
+export const isGradingFinalized = (
+  submissions: {
+    status: string;
+    _grader?: { reviewed_at?: string | null } | null;
+  }[]
+): boolean => {
+  const submitted = submissions.filter(
+    (submission) =>
+      submission.status !== "in-progress" && submission.status !== "not-started"
+  );
+  return (
+    submitted.length > 0 &&
+    submitted.every((submission) => !!submission._grader?.reviewed_at)
+  );
+};
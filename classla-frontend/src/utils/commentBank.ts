@@ -0,0 +1,64 @@
+import { BankComment, RubricItem, RubricType } from "../types";
+
+/**
+ * Comments padded (or trimmed) to one per rubric item. Mirrors
+ * normalizeRubricComments in the backend's services/commentBank.ts.
+ */
+export function normalizeRubricComments(
+  comments: string[] | undefined,
+  itemCount: number
+): string[] {
+  return Array.from({ length: itemCount }, (_, index) =>
+    typeof comments?.[index] === "string" ? comments[index] : ""
+  );
+}
+
+/**
+ * Apply a bank comment to one rubric item: its text is appended to the
+ * item's comment, and on numerical rubrics its points are added to the
+ * item's score (kept between 0 and the item's points). Checkbox items are
+ * all-or-nothing, so only the text is applied there.
+ */
+export function applyBankComment(
+  rubric: { values: number[]; comments: string[] },
+  index: number,
+  item: RubricItem,
+  rubricType: RubricType,
+  comment: Pick<BankComment, "text" | "points">
+): { values: number[]; comments: string[] } {
+  const comments = [...rubric.comments];
+  const existing = comments[index]?.trim();
+  comments[index] = existing ? `${existing}\n${comment.text}` : comment.text;
+
+  const values = [...rubric.values];
+  const points = Number(comment.points) || 0;
+  if (rubricType === RubricType.NUMERICAL && points !== 0) {
+    values[index] = Math.max(
+      0,
+      Math.min((values[index] ?? 0) + points, item.points)
+    );
+  }
+
+  return { values, comments };
+}
+
+/**
+ * Bank comments matching a search query (every word must appear),
+ * most used first.
+ */
+export function searchBankComments(
+  comments: BankComment[],
+  query: string
+): BankComment[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return comments
+    .filter((comment) => {
+      const text = comment.text.toLowerCase();
+      return words.every((word) => text.includes(word));
+    })
+    .sort((a, b) => b.usage_count - a.usage_count);
+}
+
+/** Points label for a bank comment, e.g. "−2 pts". */
+export const formatCommentPoints = (points: number): string =>
+  `${points > 0 ? "+" : points < 0 ? "−" : ""}${Math.abs(points)} pts`;
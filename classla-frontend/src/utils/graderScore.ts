@@ -0,0 +1,53 @@
+import { Grader } from "../types";
+
+type GraderScoreFields = Pick<
+  Grader,
+  | "raw_assignment_score"
+  | "raw_rubric_score"
+  | "score_modifier"
+  | "late_penalty_percent"
+>;
+
+/**
+ * Raw autograded + rubric score, before late penalty and modifier.
+ * Numeric columns come back from Supabase as strings, so coerce them.
+ */
+export function getGraderBaseScore(grader: GraderScoreFields): number {
+  return (
+    (Number(grader.raw_assignment_score) || 0) +
+    (Number(grader.raw_rubric_score) || 0)
+  );
+}
+
+/**
+ * Points deducted by the late penalty. The penalty applies to the raw
+ * scores only, not to the score modifier. Mirrors the backend's
+ * getLatePenaltyPoints.
+ */
+export function getLatePenaltyPoints(grader: GraderScoreFields): number {
+  const percent = Number(grader.late_penalty_percent) || 0;
+  return Math.round(getGraderBaseScore(grader) * percent) / 100;
+}
+
+/**
+ * Final score for a grader: raw scores, minus late penalty, plus modifier
+ */
+export function calculateGraderScore(grader: GraderScoreFields): number {
+  return (
+    getGraderBaseScore(grader) -
+    getLatePenaltyPoints(grader) +
+    (parseFloat(grader.score_modifier) || 0)
+  );
+}
+
+/**
+ * Human-readable lateness, e.g. "2d 3h" or "45m"
+ */
+export function formatLateDuration(minutes: number): string {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
@@ -0,0 +1,96 @@
+import { GradingSuggestionItem } from "../types";
+
+/**
+ * Blocks an AI grading suggestion can be requested for: manually graded
+ * short answers (scored with the rubric) and IDE blocks with manualGrading
+ * tests.
+ */
+export interface SuggestibleBlock {
+  id: string;
+  kind: "shortAnswer" | "ideManualTests";
+  label: string;
+}
+
+const stripHtml = (html: string): string =>
+  html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** Suggestible blocks of an assignment in document order. */
+export function getSuggestibleBlocks(content: string): SuggestibleBlock[] {
+  const blocks: SuggestibleBlock[] = [];
+  const traverse = (node: any) => {
+    if (node?.type === "shortAnswerBlock") {
+      const data = node.attrs?.shortAnswerData;
+      if (
+        data?.id &&
+        data.gradingType !== "keyword" &&
+        data.gradingType !== "regex"
+      ) {
+        blocks.push({
+          id: data.id,
+          kind: "shortAnswer",
+          label:
+            stripHtml(typeof data.prompt === "string" ? data.prompt : "").slice(
+              0,
+              72
+            ) || "Short Answer",
+        });
+      }
+    } else if (node?.type === "ideBlock") {
+      const data = node.attrs?.ideData;
+      const tests: any[] = data?.autograder?.tests ?? [];
+      if (data?.id && tests.some((test) => test.type === "manualGrading")) {
+        blocks.push({
+          id: data.id,
+          kind: "ideManualTests",
+          label: typeof data.title === "string" ? data.title : "IDE Block",
+        });
+      }
+    }
+    if (Array.isArray(node?.content)) node.content.forEach(traverse);
+  };
+  try {
+    traverse(JSON.parse(content));
+  } catch {
+    // Unparseable content has nothing to suggest
+  }
+  return blocks;
+}
+
+/**
+ * Rubric values with the accepted suggestions applied. Items that weren't
+ * accepted, or have no suggestion, keep their current value.
+ */
+export function applyRubricSuggestion(
+  values: number[],
+  itemCount: number,
+  items: GradingSuggestionItem[],
+  accepted: Set<number>
+): number[] {
+  const next = Array.from({ length: itemCount }, (_, i) => values[i] ?? 0);
+  for (const item of items) {
+    if (
+      accepted.has(item.index) &&
+      item.suggested !== null &&
+      item.index < itemCount
+    ) {
+      next[item.index] = item.suggested;
+    }
+  }
+  return next;
+}
+
+/** Sum of the accepted suggested points. */
+export const sumAcceptedSuggestions = (
+  items: GradingSuggestionItem[],
+  accepted: Set<number>
+): number =>
+  items.reduce(
+    (total, item) =>
+      accepted.has(item.index) && item.suggested !== null
+        ? total + item.suggested
+        : total,
+    0
+  );
@@ -0,0 +1,100 @@
+import { Grader } from "../types";
+import {
+  AnswerBlock,
+  IdeDiffBlock,
+  extractAnswerBlocks,
+  extractIdeBlocks,
+  formatAnswer,
+} from "./submissionDiff";
+
+/**
+ * Helpers for grading one question across every student: blocks scored in
+ * `block_scores`, and manually graded short answers, which get a block score
+ * once a grader sets one.
+ */
+
+export type QuestionBlock =
+  | (AnswerBlock & { kind: "answer"; manualPoints?: number })
+  | (IdeDiffBlock & { kind: "ide" });
+
+export interface AnswerGroup<T> {
+  key: string;
+  items: T[];
+}
+
+/** Points of manually graded short answers by block id. */
+export function getManualShortAnswerPoints(
+  content: string
+): Record<string, number> {
+  const points: Record<string, number> = {};
+  const traverse = (node: any) => {
+    const data =
+      node?.type === "shortAnswerBlock" ? node.attrs?.shortAnswerData : null;
+    if (
+      data?.id &&
+      typeof data.points === "number" &&
+      data.gradingType !== "keyword" &&
+      data.gradingType !== "regex"
+    ) {
+      points[data.id] = data.points;
+    }
+    if (Array.isArray(node?.content)) node.content.forEach(traverse);
+  };
+  try {
+    traverse(JSON.parse(content));
+  } catch {
+    // Unparseable content has no questions to grade
+  }
+  return points;
+}
+
+/**
+ * Questions of an assignment, in document order, that have a block score on
+ * at least one grader or are manually graded short answers.
+ */
+export function getQuestionBlocks(
+  content: string,
+  graders: (Grader | null | undefined)[]
+): QuestionBlock[] {
+  const scored = new Set(
+    graders.flatMap((grader) => Object.keys(grader?.block_scores || {}))
+  );
+  const manualPoints = getManualShortAnswerPoints(content);
+  return [
+    ...extractAnswerBlocks(content).map(
+      (block): QuestionBlock => ({
+        ...block,
+        kind: "answer",
+        manualPoints: manualPoints[block.id],
+      })
+    ),
+    ...extractIdeBlocks(content).map(
+      (block): QuestionBlock => ({ ...block, kind: "ide" })
+    ),
+  ].filter((block) => scored.has(block.id) || block.id in manualPoints);
+}
+
+/**
+ * Comparison key for an answer: text is trimmed, lowercased and has its
+ * whitespace collapsed; other answers use their formatted form.
+ */
+export const normalizeAnswer = (value: unknown): string =>
+  typeof value === "string"
+    ? value.trim().replace(/\s+/g, " ").toLowerCase()
+    : formatAnswer(value);
+
+/**
+ * Group items whose answers normalize to the same key, keeping the order in
+ * which each answer first appears.
+ */
+export function groupIdenticalAnswers<T>(
+  items: T[],
+  getAnswer: (item: T) => unknown
+): AnswerGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = normalizeAnswer(getAnswer(item));
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return Array.from(groups, ([key, grouped]) => ({ key, items: grouped }));
+}
@@ -0,0 +1,63 @@
+/**
+ * Helpers for regrade requests: what a student can dispute on a returned
+ * grade and how to label it.
+ */
+import { RegradeRequest, RubricItem } from "../types";
+import { extractAnswerBlocks, extractIdeBlocks } from "./submissionDiff";
+
+export interface RegradeTarget {
+  key: string;
+  label: string;
+  block_id?: string;
+  rubric_item_index?: number;
+}
+
+export const getRegradeTargetKey = (target: {
+  block_id?: string | null;
+  rubric_item_index?: number | null;
+}): string =>
+  target.block_id != null
+    ? `block:${target.block_id}`
+    : `rubric:${target.rubric_item_index}`;
+
+/**
+ * Disputable items of a grade in document order: every scored block, then
+ * every rubric item
+ */
+export function getRegradeTargets(
+  content: string,
+  blockScores: Record<string, unknown> | undefined,
+  rubricItems: RubricItem[] = []
+): RegradeTarget[] {
+  const scoredIds = new Set(Object.keys(blockScores || {}));
+  const blocks = [...extractAnswerBlocks(content), ...extractIdeBlocks(content)]
+    .filter((block) => scoredIds.has(block.id))
+    .map((block) => ({
+      key: getRegradeTargetKey({ block_id: block.id }),
+      label: block.label,
+      block_id: block.id,
+    }));
+  const rubric = rubricItems.map((item, index) => ({
+    key: getRegradeTargetKey({ rubric_item_index: index }),
+    label: `Rubric: ${item.title || `Item ${index + 1}`}`,
+    rubric_item_index: index,
+  }));
+  return [...blocks, ...rubric];
+}
+
+/** Label for the item a request disputes, falling back to a generic name. */
+export const describeRegradeTarget = (
+  request: Pick<RegradeRequest, "block_id" | "rubric_item_index">,
+  targets: RegradeTarget[]
+): string =>
+  targets.find((target) => target.key === getRegradeTargetKey(request))
+    ?.label ??
+  (request.block_id != null
+    ? "Question"
+    : `Rubric item ${(request.rubric_item_index ?? 0) + 1}`);
+
+export const REGRADE_STATUS_LABELS: Record<RegradeRequest["status"], string> = {
+  open: "Pending",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
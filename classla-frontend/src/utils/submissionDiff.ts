@@ -0,0 +1,189 @@
+/**
+ * Helpers for comparing two submission attempts (or an attempt against the
+ * model solution) in the grader view.
+ */
+
+export interface AnswerBlock {
+  id: string;
+  type: string;
+  label: string;
+}
+
+export interface IdeDiffBlock {
+  id: string;
+  label: string;
+  modelSolutionBucketId: string | null;
+}
+
+export type FileDiffStatus = "added" | "removed" | "modified" | "unchanged";
+
+export interface FileDiffEntry {
+  path: string;
+  status: FileDiffStatus;
+  original: string | null; // null when the file is missing on that side
+  modified: string | null;
+}
+
+interface FileTreeNode {
+  path: string;
+  type: "file" | "folder";
+  children?: FileTreeNode[];
+}
+
+/**
+ * Answer-carrying block types: node type -> [data attribute, field holding
+ * the prompt, fallback label]
+ */
+const ANSWER_BLOCKS: Record<string, [string, string, string]> = {
+  mcqBlock: ["mcqData", "question", "MCQ Question"],
+  fillInTheBlankBlock: ["fillInTheBlankData", "question", "Fill-in-the-Blank"],
+  parsonsProblemBlock: ["parsonsProblemData", "instruction", "Parsons Problem"],
+  dragDropMatchingBlock: [
+    "dragDropMatchingData",
+    "instruction",
+    "Drag-and-Drop Matching",
+  ],
+  clickableAreaBlock: ["clickableAreaData", "instruction", "Code Selection"],
+  shortAnswerBlock: ["shortAnswerData", "prompt", "Short Answer"],
+  pollBlock: ["pollData", "question", "Poll"],
+};
+
+const stripHtml = (html: string): string =>
+  html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const walk = (content: string, visit: (node: any) => void) => {
+  try {
+    const traverse = (node: any) => {
+      visit(node);
+      if (Array.isArray(node.content)) node.content.forEach(traverse);
+    };
+    traverse(JSON.parse(content));
+  } catch {
+    // Unparseable content has no blocks to compare
+  }
+};
+
+/** Answer blocks of an assignment in document order, excluding IDE blocks. */
+export function extractAnswerBlocks(content: string): AnswerBlock[] {
+  const blocks: AnswerBlock[] = [];
+  walk(content, (node) => {
+    const answerBlock = ANSWER_BLOCKS[node.type];
+    const data = answerBlock ? node.attrs?.[answerBlock[0]] : undefined;
+    if (!answerBlock || !data?.id) return;
+    const [, promptField, fallbackLabel] = answerBlock;
+    const prompt =
+      typeof data[promptField] === "string" ? stripHtml(data[promptField]) : "";
+    blocks.push({
+      id: data.id,
+      type: node.type,
+      label: prompt.slice(0, 72) || fallbackLabel,
+    });
+  });
+  return blocks;
+}
+
+/** IDE blocks of an assignment in document order. */
+export function extractIdeBlocks(content: string): IdeDiffBlock[] {
+  const blocks: IdeDiffBlock[] = [];
+  walk(content, (node) => {
+    const data = node.type === "ideBlock" ? node.attrs?.ideData : undefined;
+    if (!data?.id) return;
+    const rawLabel = data.title ?? data.name ?? "IDE Block";
+    blocks.push({
+      id: data.id,
+      label: typeof rawLabel === "string" ? rawLabel.slice(0, 72) : "IDE Block",
+      modelSolutionBucketId: data.modelSolution?.s3_bucket_id ?? null,
+    });
+  });
+  return blocks;
+}
+
+/** Snapshot bucket an IDE block was frozen into when the attempt was submitted. */
+export const getSnapshotBucketId = (
+  values: Record<string, any> | undefined,
+  blockId: string
+): string | null => values?.[blockId]?.s3_snapshot_bucket_id ?? null;
+
+/**
+ * Stable, readable text for a block answer so two attempts can be diffed
+ * line by line. Keys are sorted so reordered objects compare equal.
+ */
+export function formatAnswer(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  const sortKeys = (input: any): any => {
+    if (Array.isArray(input)) return input.map(sortKeys);
+    if (input && typeof input === "object") {
+      return Object.keys(input)
+        .sort()
+        .reduce<Record<string, any>>((sorted, key) => {
+          sorted[key] = sortKeys(input[key]);
+          return sorted;
+        }, {});
+    }
+    return input;
+  };
+  return JSON.stringify(sortKeys(value), null, 2);
+}
+
+/** File paths in a bucket file tree, depth first. */
+export function flattenFileTree(nodes: FileTreeNode[]): string[] {
+  return nodes.flatMap((node) =>
+    node.type === "file" ? [node.path] : flattenFileTree(node.children || [])
+  );
+}
+
+/**
+ * Pair up the files of two buckets by path. `original` and `modified` map a
+ * path to its content; a path missing from one side is added or removed.
+ */
+export function diffFileSets(
+  original: Map<string, string>,
+  modified: Map<string, string>
+): FileDiffEntry[] {
+  const paths = Array.from(
+    new Set([...Array.from(original.keys()), ...Array.from(modified.keys())])
+  ).sort();
+
+  return paths.map((path) => {
+    const before = original.has(path) ? original.get(path)! : null;
+    const after = modified.has(path) ? modified.get(path)! : null;
+    const status: FileDiffStatus =
+      before === null
+        ? "added"
+        : after === null
+        ? "removed"
+        : before === after
+        ? "unchanged"
+        : "modified";
+    return { path, status, original: before, modified: after };
+  });
+}
+
+const MONACO_LANGUAGES: Record<string, string> = {
+  py: "python",
+  js: "javascript",
+  mjs: "javascript",
+  ts: "typescript",
+  java: "java",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  go: "go",
+  json: "json",
+  md: "markdown",
+  html: "html",
+  css: "css",
+  sh: "shell",
+  yml: "yaml",
+  yaml: "yaml",
+};
+
+/** Monaco language id for a file path. */
+export const getDiffLanguage = (path: string): string =>
+  MONACO_LANGUAGES[path.split(".").pop()?.toLowerCase() || ""] || "plaintext";
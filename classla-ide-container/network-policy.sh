@@ -0,0 +1,209 @@
+#!/bin/bash
+# ============================================================================
+# Network egress policy for the student user
+# ============================================================================
+# Runs as root. Restricts outbound traffic from processes owned by `user`
+# according to the assignment's network policy:
+#   none      - only the Classla backend (file sync) and DNS
+#   allowlist - also HTTP(S) to the listed hostnames
+#   full      - unrestricted (nothing to do)
+#
+# Usage:
+#   network-policy.sh apply <mode> [comma-separated hostnames]
+#       Apply a policy now (new containers, from NETWORK_POLICY at boot)
+#   network-policy.sh watch
+#       Wait for the run server to write /tmp/network-policy.json when a
+#       pre-warmed container is assigned, then apply it
+#
+# A policy is applied once per container; later requests are ignored and the
+# run server reports the mismatch. The result is written to
+# /run/network-policy/applied.json, which the student user can't write.
+# ============================================================================
+
+REQUEST_FILE="/tmp/network-policy.json"
+STATE_DIR="/run/network-policy"
+APPLIED_FILE="$STATE_DIR/applied.json"
+CHAIN="CLASSLA_EGRESS"
+STUDENT_USER="user"
+REFRESH_INTERVAL_SECONDS=300
+
+log() {
+    echo "[$(date +%Y-%m-%d\ %H:%M:%S)] [network-policy] $*"
+}
+
+# Write the result atomically so the run server never reads a partial file
+write_result() {
+    local tmp="$STATE_DIR/.applied.json.tmp"
+    python3 - "$tmp" "$@" << 'PYEOF'
+import json, sys
+from datetime import datetime, timezone
+path, mode, allowlist, error = sys.argv[1], sys.argv[2], sys.argv[3], sys.argv[4]
+result = {"mode": mode, "allowlist": [d for d in allowlist.split(",") if d], "appliedAt": datetime.now(timezone.utc).isoformat()}
+if error:
+    result["error"] = error
+with open(path, "w") as f:
+    json.dump(result, f)
+PYEOF
+    chmod 644 "$tmp"
+    mv "$tmp" "$APPLIED_FILE"
+}
+
+resolve_ipv4() {
+    getent ahostsv4 "$1" 2>/dev/null | awk '{print $1}' | sort -u
+}
+
+url_host() {
+    python3 -c 'import sys, urllib.parse; print(urllib.parse.urlparse(sys.argv[1]).hostname or "")' "$1" 2>/dev/null
+}
+
+# Rebuild the egress chain in one iptables-restore transaction, so there's
+# never a moment where the chain is empty
+build_rules() {
+    local allowlist="$1"
+    local rules
+    rules="*filter
+:$CHAIN - [0:0]
+-A $CHAIN -o lo -j RETURN
+-A $CHAIN -m conntrack --ctstate ESTABLISHED,RELATED -j RETURN"
+
+    # DNS, so the backend and allowlisted hosts can be resolved
+    local resolver
+    for resolver in $(awk '/^nameserver/ && $2 ~ /^[0-9.]+$/ {print $2}' /etc/resolv.conf); do
+        rules="$rules
+-A $CHAIN -d $resolver -p udp --dport 53 -j RETURN
+-A $CHAIN -d $resolver -p tcp --dport 53 -j RETURN"
+    done
+
+    # The backend is always reachable: file sync pushes the student's work there
+    local host ip
+    for url in "$BACKEND_API_URL" "$MANAGEMENT_API_URL"; do
+        [ -n "$url" ] || continue
+        host=$(url_host "$url")
+        [ -n "$host" ] || continue
+        for ip in $(resolve_ipv4 "$host"); do
+            rules="$rules
+-A $CHAIN -d $ip -j RETURN"
+        done
+    done
+
+    local domain
+    for domain in ${allowlist//,/ }; do
+        for ip in $(resolve_ipv4 "$domain"); do
+            rules="$rules
+-A $CHAIN -d $ip -p tcp -m multiport --dports 80,443 -j RETURN"
+        done
+    done
+
+    rules="$rules
+-A $CHAIN -j REJECT --reject-with icmp-port-unreachable
+COMMIT
+"
+    echo "$rules" | iptables-restore --noflush
+}
+
+apply_policy() {
+    local mode="$1"
+    local allowlist="$2"
+
+    mkdir -p "$STATE_DIR"
+    chmod 755 "$STATE_DIR"
+    if [ -f "$APPLIED_FILE" ]; then
+        log "A network policy was already applied, ignoring \"$mode\""
+        return 0
+    fi
+
+    case "$mode" in
+        full)
+            log "Network policy: full access"
+            write_result "full" "" ""
+            return 0
+            ;;
+        none|allowlist) ;;
+        *)
+            log "ERROR: unknown network policy \"$mode\""
+            write_result "$mode" "" "unknown network policy mode"
+            return 1
+            ;;
+    esac
+
+    if [ "$mode" = "none" ]; then
+        allowlist=""
+    fi
+    local domain
+    for domain in ${allowlist//,/ }; do
+        if ! [[ "$domain" =~ ^[a-z0-9]([a-z0-9.-]*[a-z0-9])?$ ]]; then
+            log "ERROR: invalid allowlist entry \"$domain\""
+            write_result "$mode" "$allowlist" "invalid allowlist entry: $domain"
+            return 1
+        fi
+    done
+    if [ "$mode" = "allowlist" ] && [ -z "$allowlist" ]; then
+        write_result "$mode" "" "allowlist policy without domains"
+        return 1
+    fi
+
+    # Take away sudo first; otherwise the student could remove the rules
+    rm -f /etc/sudoers.d/90-user
+
+    if ! build_rules "$allowlist"; then
+        log "ERROR: failed to install egress rules"
+        write_result "$mode" "$allowlist" "failed to install egress rules"
+        return 1
+    fi
+    iptables -C OUTPUT -m owner --uid-owner "$STUDENT_USER" -j "$CHAIN" 2>/dev/null ||
+        iptables -I OUTPUT 1 -m owner --uid-owner "$STUDENT_USER" -j "$CHAIN"
+
+    # Allowlisted addresses are IPv4 only; block IPv6 outright
+    ip6tables -I OUTPUT 1 -m owner --uid-owner "$STUDENT_USER" ! -o lo -j REJECT 2>/dev/null || true
+
+    write_result "$mode" "$allowlist" ""
+    log "Network policy \"$mode\" applied${allowlist:+ (allowlist: $allowlist)}"
+
+    # Hosts behind CDNs change addresses; re-resolve periodically
+    (
+        while sleep "$REFRESH_INTERVAL_SECONDS"; do
+            build_rules "$allowlist" || log "WARNING: failed to refresh egress rules"
+        done
+    ) &
+    return 0
+}
+
+watch_for_request() {
+    log "Waiting for a network policy from the assignment..."
+    while [ ! -f "$APPLIED_FILE" ]; do
+        if [ -f "$REQUEST_FILE" ]; then
+            local parsed mode allowlist
+            parsed=$(python3 - "$REQUEST_FILE" << 'PYEOF'
+import json, sys
+try:
+    with open(sys.argv[1]) as f:
+        policy = json.load(f)
+    print(policy.get("mode", ""))
+    print(",".join(policy.get("allowlist") or []))
+except Exception:
+    print("")
+    print("")
+PYEOF
+)
+            mode=$(echo "$parsed" | sed -n 1p)
+            allowlist=$(echo "$parsed" | sed -n 2p)
+            rm -f "$REQUEST_FILE"
+            apply_policy "$mode" "$allowlist"
+            return $?
+        fi
+        sleep 0.5
+    done
+}
+
+case "$1" in
+    apply)
+        apply_policy "$2" "$3"
+        ;;
+    watch)
+        watch_for_request
+        ;;
+    *)
+        echo "Usage: $0 apply <none|allowlist|full> [hostnames] | watch" >&2
+        exit 2
+        ;;
+esac
@@ -0,0 +1,5 @@
+// Config reads these at import time; tests run against the in-memory runtime
+process.env.DOMAIN = process.env.DOMAIN || "ide.test";
+process.env.API_KEY = process.env.API_KEY || "test-api-key";
+process.env.CONTAINER_RUNTIME = "fake";
+process.env.DATABASE_PATH = ":memory:";
@@ -21,6 +21,7 @@ interface Config {
   awsSecretAccessKey?: string;
 
   // Docker
+  containerRuntime: "swarm" | "docker" | "fake";
   dockerSocket: string;
   ideContainerImage: string;
 
@@ -29,12 +30,20 @@ interface Config {
   maxCpuPercent: number;
   containerCpuLimit: number;
   containerMemoryLimit: number;
+  containerCpuLimitMax: number; // Largest per-assignment resource profile accepted...
+  containerMemoryLimitMax: number; // ...in cores and bytes
+  containerDiskQuotas: boolean; // Enforce disk limits (Docker driver, overlay2 on xfs with pquota)
 
   // Database
   databasePath: string;
 
   // Pre-warmed Queue
   preWarmedQueueSize: number;
+  preWarmedQueueMin: number; // Predictive pre-warming never goes below this...
+  preWarmedQueueMax: number; // ...or above this
+
+  // Admission queue (waiting room while at capacity)
+  admissionQueueMaxLength: number;
 
   // Backend API
   backendApiUrl?: string;
@@ -49,6 +58,16 @@ function getEnvVar(key: string, defaultValue?: string): string {
   return value;
 }
 
+function getContainerRuntime(): Config["containerRuntime"] {
+  const value = getEnvVar("CONTAINER_RUNTIME", "swarm");
+  if (value !== "swarm" && value !== "docker" && value !== "fake") {
+    throw new Error(
+      `Invalid CONTAINER_RUNTIME: ${value} (expected swarm, docker or fake)`
+    );
+  }
+  return value;
+}
+
 function getEnvVarOptional(
   key: string,
   defaultValue?: string
@@ -83,6 +102,7 @@ const config: Config = {
   awsSecretAccessKey: getEnvVarOptional("AWS_SECRET_ACCESS_KEY"),
 
   // Docker
+  containerRuntime: getContainerRuntime(),
   dockerSocket: getEnvVar(
     "DOCKER_SOCKET",
     process.platform === "darwin"
@@ -99,6 +119,9 @@ const config: Config = {
   maxCpuPercent: getEnvVarNumber("MAX_CPU_PERCENT", 90),
   containerCpuLimit: getEnvVarNumber("CONTAINER_CPU_LIMIT", 2),
   containerMemoryLimit: getEnvVarNumber("CONTAINER_MEMORY_LIMIT", 4294967296), // 4GB
+  containerCpuLimitMax: getEnvVarNumber("CONTAINER_CPU_LIMIT_MAX", 8),
+  containerMemoryLimitMax: getEnvVarNumber("CONTAINER_MEMORY_LIMIT_MAX", 17179869184), // 16GB
+  containerDiskQuotas: getEnvVar("CONTAINER_DISK_QUOTAS", "false") === "true",
 
   // Database
   databasePath: getEnvVar(
@@ -108,6 +131,14 @@ const config: Config = {
 
   // Pre-warmed Queue
   preWarmedQueueSize: getEnvVarNumber("PRE_WARMED_QUEUE_SIZE", 10),
+  preWarmedQueueMin: getEnvVarNumber(
+    "PRE_WARMED_QUEUE_MIN",
+    getEnvVarNumber("PRE_WARMED_QUEUE_SIZE", 10)
+  ),
+  preWarmedQueueMax: getEnvVarNumber("PRE_WARMED_QUEUE_MAX", 30),
+
+  // Admission queue
+  admissionQueueMaxLength: getEnvVarNumber("ADMISSION_QUEUE_MAX_LENGTH", 500),
 
   // Backend API
   backendApiUrl: getEnvVarOptional("BACKEND_API_URL"),
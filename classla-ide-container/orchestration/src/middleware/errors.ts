@@ -10,6 +10,11 @@ export const ErrorCodes = {
     statusCode: 404,
     message: "Container not found",
   },
+  ADMISSION_TICKET_NOT_FOUND: {
+    code: "ADMISSION_TICKET_NOT_FOUND",
+    statusCode: 404,
+    message: "Admission ticket not found",
+  },
 
   // 400 errors
   INVALID_S3_BUCKET: {
@@ -72,6 +77,14 @@ export function containerNotFound(containerId: string): AppError {
   );
 }
 
+export function admissionTicketNotFound(ticketId: string): AppError {
+  return new AppError(
+    ErrorCodes.ADMISSION_TICKET_NOT_FOUND.code,
+    `Admission ticket ${ticketId} not found or expired`,
+    ErrorCodes.ADMISSION_TICKET_NOT_FOUND.statusCode
+  );
+}
+
 export function invalidS3Bucket(message?: string): AppError {
   return new AppError(
     ErrorCodes.INVALID_S3_BUCKET.code,
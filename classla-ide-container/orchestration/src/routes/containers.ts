@@ -8,6 +8,7 @@ import {
   containerNotFound,
   containerStartFailed,
   containerStopFailed,
+  admissionTicketNotFound,
 } from "../middleware/errors";
 import {
   containerService,
@@ -18,12 +19,327 @@ import {
   containerStatsService,
   queueManager,
   queueMaintainer,
+  admissionQueue,
 } from "../services/serviceInstances";
-import axios from "axios";
-import https from "https";
+import {
+  AdmissionPriority,
+  AdmissionRequest,
+  AdmittedContainer,
+} from "../services/admissionQueue";
+import {
+  ContainerInfo,
+  ContainerResources,
+  NetworkPolicy,
+  getContainerLimits,
+} from "../services/containerService";
 
 const router = Router();
 
+/**
+ * Validate the optional per-assignment resources of a start request
+ */
+function parseResources(value: unknown): ContainerResources | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw invalidParameter("resources must be an object");
+  }
+  const resources = value as Record<string, unknown>;
+  const parsed: ContainerResources = {};
+
+  // Disk and idle timeout are bounded by the backend's organization caps
+  const maxima: Record<string, number | undefined> = {
+    cpuCores: config.containerCpuLimitMax,
+    memoryMb: config.containerMemoryLimitMax / (1024 * 1024),
+    diskMb: undefined,
+    idleTimeoutSeconds: undefined,
+  };
+  for (const [key, max] of Object.entries(maxima)) {
+    const amount = resources[key];
+    if (amount === undefined) {
+      continue;
+    }
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+      throw invalidParameter(`resources.${key} must be a positive number`);
+    }
+    if (max !== undefined && amount > max) {
+      throw invalidParameter(`resources.${key} must be at most ${max}`);
+    }
+    parsed[key as Exclude<keyof ContainerResources, "vncEnabled">] = amount;
+  }
+
+  if (resources.vncEnabled !== undefined) {
+    if (typeof resources.vncEnabled !== "boolean") {
+      throw invalidParameter("resources.vncEnabled must be a boolean");
+    }
+    parsed.vncEnabled = resources.vncEnabled;
+  }
+  return parsed;
+}
+
+const NETWORK_POLICY_MODES = ["none", "allowlist", "full"];
+const MAX_NETWORK_ALLOWLIST_DOMAINS = 50;
+// Hostnames only; they end up in the container's environment and iptables rules
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Validate the optional per-assignment network policy of a start request
+ */
+function parseNetworkPolicy(value: unknown): NetworkPolicy | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw invalidParameter("networkPolicy must be an object");
+  }
+  const policy = value as Record<string, unknown>;
+  if (typeof policy.mode !== "string" || !NETWORK_POLICY_MODES.includes(policy.mode)) {
+    throw invalidParameter(
+      `networkPolicy.mode must be one of: ${NETWORK_POLICY_MODES.join(", ")}`
+    );
+  }
+  const mode = policy.mode as NetworkPolicy["mode"];
+  if (mode !== "allowlist") {
+    return { mode };
+  }
+
+  const allowlist = policy.allowlist;
+  if (
+    !Array.isArray(allowlist) ||
+    allowlist.length === 0 ||
+    allowlist.length > MAX_NETWORK_ALLOWLIST_DOMAINS ||
+    !allowlist.every((domain) => typeof domain === "string" && HOSTNAME_PATTERN.test(domain))
+  ) {
+    throw invalidParameter(
+      `networkPolicy.allowlist must list 1-${MAX_NETWORK_ALLOWLIST_DOMAINS} lowercase hostnames`
+    );
+  }
+  return { mode, allowlist: allowlist as string[] };
+}
+
+function sameNetworkPolicy(a: NetworkPolicy, b: NetworkPolicy): boolean {
+  return (
+    a.mode === b.mode &&
+    (a.allowlist || []).slice().sort().join(",") ===
+      (b.allowlist || []).slice().sort().join(",")
+  );
+}
+
+/**
+ * Record a container that was just started or assigned so stats, the state
+ * manager and the health monitor know about it
+ */
+async function trackStartedContainer(
+  containerInfo: ContainerInfo,
+  s3Bucket: string,
+  s3Region: string,
+  userId: string | undefined,
+  isPreWarmed: boolean,
+  resources?: ContainerResources,
+  networkPolicy?: NetworkPolicy
+): Promise<void> {
+  // Record request received in stats service
+  await containerStatsService.recordRequestReceived(
+    containerInfo.id,
+    s3Bucket,
+    userId
+  );
+
+  // Start history drives predictive pre-warming
+  stateManager.recordContainerStart(isPreWarmed);
+
+  const limits = getContainerLimits(resources);
+
+  // Save container metadata to state manager
+  // Pre-warmed containers are already running, so use their actual status
+  stateManager.saveContainer({
+    id: containerInfo.id,
+    serviceName: containerInfo.serviceName,
+    s3Bucket: containerInfo.s3Bucket || s3Bucket, // Use provided bucket if container doesn't have it
+    s3Region,
+    status: containerInfo.status, // Use actual status (running for pre-warmed, starting for new)
+    createdAt: containerInfo.createdAt,
+    urls: containerInfo.urls,
+    isPreWarmed,
+    resourceLimits: {
+      cpuLimit: `${limits.cpuLimit} cores`,
+      memoryLimit: `${limits.memoryLimitBytes} bytes`,
+    },
+  });
+
+  if (networkPolicy) {
+    // Pre-warmed containers confirm the policy when assigned; new containers
+    // apply it from their environment while booting
+    const status =
+      isPreWarmed || networkPolicy.mode === "full" ? "applied" : "requested";
+    stateManager.recordNetworkPolicy({
+      containerId: containerInfo.id,
+      s3Bucket,
+      userId,
+      policy: networkPolicy,
+      source: isPreWarmed ? "assignment" : "boot",
+      status,
+    });
+    console.log(
+      `[Containers] Network policy "${networkPolicy.mode}" ${status} for container ${containerInfo.id} (user ${userId || "unknown"})`
+    );
+  }
+}
+
+/**
+ * Give a pre-warmed container from the queue to a student's bucket. Returns
+ * undefined when the assignment failed; the container then goes back to the
+ * queue, or is stopped if it may hold the bucket with the wrong network policy.
+ */
+async function assignPreWarmedContainer(
+  containerId: string,
+  request: Pick<
+    AdmissionRequest,
+    | "s3Bucket"
+    | "s3BucketId"
+    | "s3Region"
+    | "awsAccessKeyId"
+    | "awsSecretAccessKey"
+    | "userId"
+    | "networkPolicy"
+  >
+): Promise<ContainerInfo | undefined> {
+  const { s3Bucket, userId, networkPolicy } = request;
+  try {
+    await containerService.assignS3BucketToContainer(containerId, {
+      bucket: s3Bucket,
+      bucketId: request.s3BucketId, // Pass bucketId if provided
+      region: request.s3Region,
+      accessKeyId: request.awsAccessKeyId || config.awsAccessKeyId,
+      secretAccessKey: request.awsSecretAccessKey || config.awsSecretAccessKey,
+      networkPolicy,
+    });
+
+    // Mark container as assigned in queue
+    queueManager.markAsAssigned(containerId, s3Bucket);
+
+    // Get container info
+    const assignedContainerInfo = await containerService.getContainer(containerId);
+    if (!assignedContainerInfo) {
+      throw new Error("Failed to get container info after S3 assignment");
+    }
+    // Pre-warmed containers are already running, so mark as running
+    return {
+      ...assignedContainerInfo,
+      status: "running" as const,
+    };
+  } catch (error) {
+    console.error(
+      `[Containers] Failed to assign S3 bucket to pre-warmed container:`,
+      error
+    );
+    if (networkPolicy && networkPolicy.mode !== "full") {
+      // The container may already hold the student's bucket with open
+      // egress, so it can't go back to the pool
+      stateManager.recordNetworkPolicy({
+        containerId,
+        s3Bucket,
+        userId,
+        policy: networkPolicy,
+        source: "assignment",
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      queueManager.removeFromQueue(containerId);
+      containerService.stopContainer(containerId).catch((stopError) => {
+        console.error(
+          `[Containers] Failed to stop pre-warmed container ${containerId}:`,
+          stopError
+        );
+      });
+    } else {
+      // Return container to pre-warmed state so it can be reused
+      queueManager.returnToQueue(containerId);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Refill the pre-warmed queue in the background after a container was taken
+ */
+function replenishPreWarmedQueue(): void {
+  setImmediate(() => {
+    console.log(
+      `[Containers] Queue container used, triggering immediate queue replenishment`
+    );
+    // Trigger queue maintainer to check and spawn replacement immediately
+    queueMaintainer.maintainQueue().catch((error) => {
+      console.error(
+        `[Containers] Error triggering queue replenishment:`,
+        error
+      );
+    });
+  });
+}
+
+/**
+ * Start a container for a request that waited in the admission queue,
+ * taking a pre-warmed container when one is free. Passed to
+ * admissionQueue.start() by the server.
+ */
+export async function admitQueuedRequest(
+  request: AdmissionRequest
+): Promise<AdmittedContainer> {
+  // Pre-warmed containers run the default resources
+  const queuedContainer = request.resources ? null : queueManager.getAvailableContainer();
+  let containerInfo = queuedContainer
+    ? await assignPreWarmedContainer(queuedContainer.containerId, request)
+    : undefined;
+  const usedQueue = !!containerInfo;
+
+  if (!containerInfo) {
+    try {
+      containerInfo = await containerService.createContainer({
+        s3Bucket: request.s3Bucket,
+        s3BucketId: request.s3BucketId,
+        s3Region: request.s3Region,
+        awsAccessKeyId: request.awsAccessKeyId || config.awsAccessKeyId,
+        awsSecretAccessKey: request.awsSecretAccessKey || config.awsSecretAccessKey,
+        vncPassword: request.vncPassword,
+        domain: config.domain,
+        resources: request.resources,
+        networkPolicy: request.networkPolicy,
+      });
+    } catch (error) {
+      throw containerStartFailed(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  await trackStartedContainer(
+    containerInfo,
+    request.s3Bucket,
+    request.s3Region,
+    request.userId,
+    usedQueue,
+    request.resources,
+    request.networkPolicy
+  );
+
+  if (usedQueue) {
+    replenishPreWarmedQueue();
+  }
+
+  healthMonitor.checkContainerImmediately(containerInfo.id).catch((error) => {
+    console.error(`[Containers] Error triggering immediate health check:`, error);
+  });
+
+  return {
+    id: containerInfo.id,
+    serviceName: containerInfo.serviceName,
+    status: containerInfo.status,
+    urls: containerInfo.urls,
+  };
+}
+
 /**
  * POST /api/containers/start
  * Start a new IDE container
@@ -42,14 +358,54 @@ router.post(
         awsSecretAccessKey,
         vncPassword,
         userId,
+        priority = "normal", // "high" for timed or lockdown assignments
       } = req.body;
 
       if (!s3Bucket || typeof s3Bucket !== "string") {
         throw invalidS3Bucket("s3Bucket is required and must be a string");
       }
 
+      if (priority !== "high" && priority !== "normal") {
+        throw invalidParameter('priority must be "high" or "normal"');
+      }
+
+      // Pre-warmed containers run the default resources, so starts with a
+      // resource profile always get a container of their own
+      const resources = parseResources(req.body.resources);
+      const networkPolicy = parseNetworkPolicy(req.body.networkPolicy);
+
       // Check if there's already a running container for this S3 bucket
-      const existingContainer = stateManager.getRunningContainerByS3Bucket(s3Bucket);
+      let existingContainer = stateManager.getRunningContainerByS3Bucket(s3Bucket);
+
+      // Policies are applied once per container, so a policy change (e.g. an
+      // exam going into lockdown) needs a fresh container
+      if (existingContainer && networkPolicy) {
+        const currentPolicy = stateManager.getNetworkPolicy(existingContainer.id)?.policy || {
+          mode: "full",
+        };
+        if (!sameNetworkPolicy(currentPolicy, networkPolicy)) {
+          console.log(
+            `[Containers] Network policy for bucket ${s3Bucket} changed from "${currentPolicy.mode}" to "${networkPolicy.mode}", replacing container ${existingContainer.id}`
+          );
+          try {
+            await containerService.stopContainer(existingContainer.id);
+          } catch (error) {
+            console.warn(
+              `[Containers] Failed to stop container ${existingContainer.id} after a network policy change:`,
+              error
+            );
+          }
+          stateManager.updateContainerLifecycle(existingContainer.id, {
+            status: "stopped",
+            stoppedAt: new Date(),
+            shutdownReason: "manual",
+          });
+          await containerStatsService.recordContainerStopped(existingContainer.id, "manual");
+          healthMonitor.removeContainerHealth(existingContainer.id);
+          existingContainer = null;
+        }
+      }
+
       if (existingContainer && existingContainer.urls?.codeServer) {
         // Verify the Docker service actually exists before reusing
         // State manager can have stale records after kill.sh removes Docker services
@@ -116,12 +472,23 @@ router.post(
         `[Containers] Total containers tracked: ${queueStats.total}`
       );
       
-      const queuedContainer = queueManager.getAvailableContainer();
+      // Pre-warmed containers go to people already waiting first
+      const isQueueWaiting = admissionQueue.hasWaiting();
+      const queuedContainer =
+        resources || isQueueWaiting ? null : queueManager.getAvailableContainer();
       
       if (queuedContainer) {
         console.log(
           `[Containers] ✅ Found pre-warmed container ${queuedContainer.containerId} in queue (state: ${queuedContainer.state})`
         );
+      } else if (resources) {
+        console.log(
+          `[Containers] Request has a resource profile, skipping the pre-warmed queue`
+        );
+      } else if (isQueueWaiting) {
+        console.log(
+          `[Containers] Others are waiting for a container, joining the admission queue`
+        );
       } else {
         console.log(
           `[Containers] ⚠️ No pre-warmed container available in queue (queue size: ${queueStats.preWarmed}, total tracked: ${queueStats.total})`
@@ -167,30 +534,16 @@ router.post(
                 `[Containers] Verifying pre-warmed container ${queuedContainer.containerId} accessibility (attempt ${attempt}/${maxRetries}) at ${checkUrl}...`
               );
               
-              // In local mode, disable SSL certificate validation to handle self-signed certs
-              const axiosConfig: any = {
-                timeout: 3000,
-                validateStatus: () => true,
-                maxRedirects: 5,
-              };
-              
-              // For local development, disable SSL verification if using HTTPS
-              if (config.nodeEnv === "local" || checkUrl.includes("localhost") || checkUrl.includes("ide-local_traefik")) {
-                axiosConfig.httpsAgent = new https.Agent({
-                  rejectUnauthorized: false,
-                });
-              }
-              
-              const response = await axios.get(checkUrl, axiosConfig);
+              const status = await containerService.runtime.probeUrl(checkUrl, 3000);
               
               // Must return 200, 302, or 401 to be considered ready
-              if (response.status === 200 || response.status === 302 || response.status === 401) {
+              if (status === 200 || status === 302 || status === 401) {
                 console.log(
-                  `[Containers] ✅ Pre-warmed container ${queuedContainer.containerId} verified accessible (status: ${response.status}, attempt ${attempt}/${maxRetries})`
+                  `[Containers] ✅ Pre-warmed container ${queuedContainer.containerId} verified accessible (status: ${status}, attempt ${attempt}/${maxRetries})`
                 );
                 verified = true;
                 break; // Success, exit retry loop
-              } else if (response.status === 404) {
+              } else if (status === 404) {
                 // 404 means Traefik routing not ready yet
                 if (attempt < maxRetries) {
                   console.log(
@@ -199,12 +552,12 @@ router.post(
                   await new Promise((resolve) => setTimeout(resolve, retryDelay));
                 } else {
                   console.warn(
-                    `[Containers] ⚠️ Pre-warmed container ${queuedContainer.containerId} not accessible after ${maxRetries} attempts (status: ${response.status}), skipping and creating new container`
+                    `[Containers] ⚠️ Pre-warmed container ${queuedContainer.containerId} not accessible after ${maxRetries} attempts (status: ${status}), skipping and creating new container`
                   );
                 }
               } else {
                 console.warn(
-                  `[Containers] ⚠️ Pre-warmed container ${queuedContainer.containerId} returned unexpected status ${response.status} (attempt ${attempt}/${maxRetries}), skipping and creating new container`
+                  `[Containers] ⚠️ Pre-warmed container ${queuedContainer.containerId} returned unexpected status ${status} (attempt ${attempt}/${maxRetries}), skipping and creating new container`
                 );
                 break; // Unexpected status, don't retry
               }
@@ -235,45 +588,17 @@ router.post(
         }
         
         // Always assign S3 bucket to pre-warmed container (regardless of verification or URLs)
-        usedQueue = true;
-        try {
-          await containerService.assignS3BucketToContainer(
-            queuedContainer.containerId,
-            {
-              bucket: s3Bucket,
-              bucketId: s3BucketId, // Pass bucketId if provided
-              region: validatedRegion,
-              accessKeyId: awsAccessKeyId || config.awsAccessKeyId,
-              secretAccessKey: awsSecretAccessKey || config.awsSecretAccessKey,
-            }
-          );
-
-          // Mark container as assigned in queue
-          queueManager.markAsAssigned(queuedContainer.containerId, s3Bucket);
-
-          // Get container info
-          const assignedContainerInfo = await containerService.getContainer(
-            queuedContainer.containerId
-          );
-          if (!assignedContainerInfo) {
-            throw new Error("Failed to get container info after S3 assignment");
-          }
-          // Pre-warmed containers are already running, so mark as running
-          containerInfo = {
-            ...assignedContainerInfo,
-            status: "running" as const, // Pre-warmed containers are already running
-          };
-        } catch (error) {
-          console.error(
-            `[Containers] Failed to assign S3 bucket to pre-warmed container:`,
-            error
-          );
-          // Return container to pre-warmed state so it can be reused
-          queueManager.returnToQueue(queuedContainer.containerId);
-          // Fall through to create new container
-          usedQueue = false;
-          containerInfo = undefined;
-        }
+        containerInfo = await assignPreWarmedContainer(queuedContainer.containerId, {
+          s3Bucket,
+          s3BucketId,
+          s3Region: validatedRegion,
+          awsAccessKeyId,
+          awsSecretAccessKey,
+          userId,
+          networkPolicy,
+        });
+        // Fall through to create new container if the assignment failed
+        usedQueue = !!containerInfo;
       }
 
       // If no queue container available or assignment failed, create new container
@@ -288,12 +613,37 @@ router.post(
           );
         }
         
-        // Check system resources before starting
+        // Check system resources before starting. At capacity, or when
+        // others are already waiting for a slot, join the admission queue.
         const resourceCheck = await resourceMonitor.canStartContainer();
-        if (!resourceCheck.allowed) {
-          throw resourceLimitExceeded(
-            resourceCheck.reason || "System resources exhausted"
+        if (!resourceCheck.allowed || admissionQueue.hasWaiting()) {
+          const ticket = admissionQueue.enqueue({
+            s3Bucket,
+            s3BucketId,
+            s3Region: validatedRegion,
+            awsAccessKeyId,
+            awsSecretAccessKey,
+            vncPassword,
+            userId,
+            priority: priority as AdmissionPriority,
+            resources,
+            networkPolicy,
+          });
+          if (!ticket) {
+            throw resourceLimitExceeded(
+              resourceCheck.reason || "The IDE waiting room is full"
+            );
+          }
+
+          console.log(
+            `[Containers] ⏳ Queued start for bucket ${s3Bucket} as ticket ${ticket.id} (position ${ticket.position})`
           );
+          res.status(202).json({
+            queued: true,
+            ticket,
+            message: "All IDE capacity is in use. You are in line.",
+          });
+          return;
         }
 
         // Create Docker Swarm service with Traefik labels
@@ -306,6 +656,8 @@ router.post(
             awsSecretAccessKey: awsSecretAccessKey || config.awsSecretAccessKey,
             vncPassword,
             domain: config.domain,
+            resources,
+            networkPolicy,
           });
           console.log(
             `[Containers] ✅ Created new container ${containerInfo.id} with status: ${containerInfo.status}`
@@ -332,45 +684,19 @@ router.post(
         }
       }
 
-      // Record request received in stats service
-      await containerStatsService.recordRequestReceived(
-        containerInfo.id,
+      await trackStartedContainer(
+        containerInfo,
         s3Bucket,
-        userId
+        validatedRegion,
+        userId,
+        usedQueue,
+        resources,
+        networkPolicy
       );
 
-      // Save container metadata to state manager
-      // Pre-warmed containers are already running, so use their actual status
-      stateManager.saveContainer({
-        id: containerInfo.id,
-        serviceName: containerInfo.serviceName,
-        s3Bucket: containerInfo.s3Bucket || s3Bucket, // Use provided bucket if container doesn't have it
-        s3Region: validatedRegion,
-        status: containerInfo.status, // Use actual status (running for pre-warmed, starting for new)
-        createdAt: containerInfo.createdAt,
-        urls: containerInfo.urls,
-        isPreWarmed: usedQueue,
-        resourceLimits: {
-          cpuLimit: `${config.containerCpuLimit} cores`,
-          memoryLimit: `${config.containerMemoryLimit} bytes`,
-        },
-      });
-
       // Trigger queue replenishment immediately when a pre-warmed container is used
       if (usedQueue) {
-        // Queue was used, trigger immediate replenishment in background
-        setImmediate(() => {
-          console.log(
-            `[Containers] Queue container used, triggering immediate queue replenishment`
-          );
-          // Trigger queue maintainer to check and spawn replacement immediately
-          queueMaintainer.maintainQueue().catch((error) => {
-            console.error(
-              `[Containers] Error triggering queue replenishment:`,
-              error
-            );
-          });
-        });
+        replenishPreWarmedQueue();
       }
 
       // Ensure containerInfo is defined before using it
@@ -409,6 +735,114 @@ router.post(
   }
 );
 
+/**
+ * The user a ticket request is made for (?userId=), whose ticket it must be
+ */
+function getTicketUserId(req: Request): string | undefined {
+  return typeof req.query.userId === "string" ? req.query.userId : undefined;
+}
+
+/**
+ * GET /api/containers/admission/:ticketId
+ * Position, ETA and outcome of a queued start request
+ */
+router.get(
+  "/admission/:ticketId",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { ticketId } = req.params;
+      const ticket = admissionQueue.getTicket(ticketId, getTicketUserId(req));
+      if (!ticket) {
+        throw admissionTicketNotFound(ticketId);
+      }
+      res.json(ticket);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/containers/admission/:ticketId/stream
+ * Server-Sent Events stream of a queued start request. Sends the ticket
+ * now and whenever it changes; ends once it is admitted, failed, cancelled
+ * or expired. An open stream keeps the ticket alive.
+ */
+router.get(
+  "/admission/:ticketId/stream",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { ticketId } = req.params;
+      const ticket = admissionQueue.getTicket(ticketId, getTicketUserId(req));
+      if (!ticket) {
+        throw admissionTicketNotFound(ticketId);
+      }
+
+      // Set up SSE headers
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+
+      const isSettled = (status: string) =>
+        status !== "waiting" && status !== "starting";
+
+      res.write(`data: ${JSON.stringify({ type: "ticket", ticket })}\n\n`);
+      if (isSettled(ticket.status)) {
+        res.end();
+        return;
+      }
+
+      const updateHandler = (updated: { id: string; status: string }) => {
+        if (updated.id !== ticketId) return;
+        res.write(
+          `data: ${JSON.stringify({ type: "ticket", ticket: updated })}\n\n`
+        );
+        if (isSettled(updated.status)) {
+          cleanup();
+          res.end();
+        }
+      };
+
+      // Heartbeats keep proxies from closing the stream and the ticket alive
+      const heartbeatInterval = setInterval(() => {
+        admissionQueue.getTicket(ticketId);
+        res.write(`data: ${JSON.stringify({ type: "heartbeat" })}\n\n`);
+      }, 15000);
+
+      const cleanup = () => {
+        admissionQueue.off("update", updateHandler);
+        clearInterval(heartbeatInterval);
+      };
+
+      admissionQueue.on("update", updateHandler);
+      req.on("close", cleanup);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/containers/admission/:ticketId
+ * Leave the admission queue
+ */
+router.delete(
+  "/admission/:ticketId",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { ticketId } = req.params;
+      const ticket = admissionQueue.cancel(ticketId, getTicketUserId(req));
+      if (!ticket) {
+        throw admissionTicketNotFound(ticketId);
+      }
+      res.json(ticket);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /api/containers
  * List all containers with optional filtering and pagination (uses LIVE Docker data)
@@ -458,12 +892,16 @@ router.get(
           // Docker service env vars don't get updated on S3 assignment,
           // so fall back to StateManager which tracks the actual assignment
           const s3Bucket = c.s3Bucket || stateManager.getContainer(c.id)?.s3Bucket || "";
+          const networkPolicy = stateManager.getNetworkPolicy(c.id);
           return {
             id: c.id,
             serviceName: c.serviceName,
             status: c.status,
             urls: c.urls,
             s3Bucket,
+            networkPolicy: networkPolicy
+              ? { ...networkPolicy.policy, status: networkPolicy.status }
+              : null,
             createdAt: c.createdAt.toISOString(),
             startedAt: c.createdAt.toISOString(), // Use createdAt as startedAt for live data
           };
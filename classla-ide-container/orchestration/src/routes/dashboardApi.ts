@@ -6,6 +6,8 @@ import {
   healthMonitor,
   nodeMonitor,
   queueManager,
+  admissionQueue,
+  prewarmScheduler,
 } from "../services/serviceInstances";
 import { invalidParameter, containerNotFound } from "../middleware/errors";
 
@@ -413,6 +415,59 @@ router.get(
         total: queueStats.total,
         targetSize: queueStats.targetSize,
         withS3Bucket: queueStats.assigned,
+        admission: admissionQueue.getStats(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/dashboard/queue/forecast
+ * Return the predictive pre-warm forecast: target vs actual pool size,
+ * the next 24 hours of targets, and the upcoming demand events behind them
+ */
+router.get(
+  "/queue/forecast",
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queueStats = queueManager.getStats();
+
+      res.json({
+        timestamp: new Date().toISOString(),
+        targetSize: queueStats.targetSize,
+        preWarmed: queueStats.preWarmed,
+        ...prewarmScheduler.getForecast(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/dashboard/network-policy/audit
+ * Return recent network policies applied to containers, newest first
+ */
+router.get(
+  "/network-policy/audit",
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : 100;
+      if (isNaN(limit) || limit < 1 || limit > 1000) {
+        throw invalidParameter("limit must be an integer between 1 and 1000");
+      }
+
+      const entries = stateManager.listNetworkPolicyAudit(limit);
+      res.json({
+        timestamp: new Date().toISOString(),
+        entries: entries.map((entry) => ({
+          ...entry,
+          recordedAt: entry.recordedAt.toISOString(),
+        })),
       });
     } catch (error) {
       next(error);
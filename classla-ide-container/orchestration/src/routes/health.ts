@@ -1,13 +1,13 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { config } from "../config/index";
-import { queueManager, resourceMonitor } from "../services/serviceInstances";
-import Docker from "dockerode";
+import {
+  containerRuntime,
+  queueManager,
+  resourceMonitor,
+} from "../services/serviceInstances";
 
 const router = Router();
 
-// Use shared Docker instance
-const docker = new Docker({ socketPath: config.dockerSocket });
-
 /**
  * GET /api/health
  * Health check endpoint with Docker connectivity and resource summary
@@ -58,9 +58,9 @@ router.get(
         },
       };
 
-      // Check Docker daemon connectivity
+      // Check container runtime connectivity (the Docker daemon, unless running the fake runtime)
       try {
-        await docker.ping();
+        await containerRuntime.ping();
         healthStatus.docker.connected = true;
       } catch (error) {
         healthStatus.docker.connected = false;
@@ -102,7 +102,7 @@ router.get(
         healthStatus.queue = {
           preWarmed: 0,
           withS3Bucket: 0,
-          targetSize: config.preWarmedQueueSize,
+          targetSize: config.preWarmedQueueMin,
         };
       }
 
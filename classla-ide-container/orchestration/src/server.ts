@@ -10,7 +10,7 @@ import {
 } from "./middleware/rateLimit";
 import { errorHandler } from "./middleware/errorHandler";
 import containersRouter from "./routes/containers";
-import { handleInactivityShutdown } from "./routes/containers";
+import { handleInactivityShutdown, admitQueuedRequest } from "./routes/containers";
 import healthRouter from "./routes/health";
 import dashboardRouter from "./routes/dashboard";
 import dashboardApiRouter from "./routes/dashboardApi";
@@ -19,8 +19,11 @@ import {
   healthMonitor,
   stateManager,
   queueMaintainer,
+  queueManager,
   containerCleanupService,
   discordAlertService,
+  admissionQueue,
+  prewarmScheduler,
 } from "./services/serviceInstances";
 
 const app: Express = express();
@@ -145,9 +148,18 @@ process.on("unhandledRejection", (reason) => {
 // Start health monitoring
 healthMonitor.start();
 
-// Start queue maintainer
+// Start pulling the demand schedule, then the queue maintainer that sizes the pool from it
+prewarmScheduler.start();
 queueMaintainer.start();
-console.log(`🔄 Queue maintainer started (target: ${config.preWarmedQueueSize} containers)`);
+console.log(
+  `🔄 Queue maintainer started (target: ${config.preWarmedQueueMin}-${config.preWarmedQueueMax} containers)`
+);
+
+// Start admitting requests that wait for capacity
+admissionQueue.start(
+  admitQueuedRequest,
+  (request) => !request.resources && queueManager.getStats().preWarmed > 0
+);
 
 // Start container cleanup service
 containerCleanupService.start();
@@ -163,13 +175,17 @@ const server = app.listen(config.port, () => {
   console.log(`📝 Environment: ${config.nodeEnv}`);
   console.log(`🌐 Domain: ${config.domain}`);
   console.log(`💚 Health monitoring started`);
-  console.log(`🔄 Queue maintainer started (target: ${config.preWarmedQueueSize} containers)`);
+  console.log(
+    `🔄 Queue maintainer started (target: ${config.preWarmedQueueMin}-${config.preWarmedQueueMax} containers)`
+  );
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("SIGTERM signal received: closing HTTP server");
   queueMaintainer.stop();
+  prewarmScheduler.stop();
+  admissionQueue.stop();
   healthMonitor.stop();
   containerCleanupService.stop();
   discordAlertService.stop();
@@ -184,6 +200,8 @@ process.on("SIGTERM", () => {
 process.on("SIGINT", () => {
   console.log("SIGINT signal received: closing HTTP server");
   queueMaintainer.stop();
+  prewarmScheduler.stop();
+  admissionQueue.stop();
   healthMonitor.stop();
   containerCleanupService.stop();
   discordAlertService.stop();
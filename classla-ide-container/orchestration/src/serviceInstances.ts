@@ -14,13 +14,17 @@ import { S3ValidationService } from "./services/s3ValidationService";
 import { ContainerStatsService } from "./services/containerStatsService";
 import { QueueManager } from "./services/queueManager";
 import { QueueMaintainer } from "./services/queueMaintainer";
+import { PrewarmScheduler } from "./services/prewarmScheduler";
 import { ContainerCleanupService } from "./services/containerCleanupService";
+import { SwarmContainerRuntime } from "./services/swarmRuntime";
 import { config } from "./config/index";
 import Docker from "dockerode";
 
 // Create singleton instances
 const docker = new Docker({ socketPath: config.dockerSocket });
-export const containerService = new ContainerService();
+export const containerService = new ContainerService(
+  new SwarmContainerRuntime(docker)
+);
 export const stateManager = new StateManager();
 export const resourceMonitor = new ResourceMonitor(containerService, {
   memoryPercent: config.maxMemoryPercent,
@@ -35,12 +39,19 @@ export const healthMonitor = new HealthMonitor(
 export const nodeMonitor = new NodeMonitor(docker);
 export const s3ValidationService = new S3ValidationService();
 export const queueManager = new QueueManager();
+export const prewarmScheduler = new PrewarmScheduler(stateManager, {
+  minSize: config.preWarmedQueueMin,
+  maxSize: config.preWarmedQueueMax,
+  backendApiUrl: config.backendApiUrl,
+  serviceToken: config.containerServiceToken,
+});
 export const queueMaintainer = new QueueMaintainer(
   queueManager,
   containerService,
   stateManager,
   resourceMonitor,
-  healthMonitor
+  healthMonitor,
+  prewarmScheduler
 );
 export const containerCleanupService = new ContainerCleanupService(
   containerService,
@@ -0,0 +1,187 @@
+import {
+  AdmissionPriority,
+  AdmissionQueue,
+  AdmissionQueueOptions,
+  AdmissionRequest,
+} from "../admissionQueue";
+import { ContainerService } from "../containerService";
+import { FakeContainerRuntime } from "../fakeRuntime";
+import { ResourceMonitor } from "../resourceMonitor";
+
+// The error middleware imports the app's singletons, which would start a
+// second set of services around a real Docker client
+jest.mock("../serviceInstances", () => ({}));
+
+describe("AdmissionQueue", () => {
+  let resourceMonitor: ResourceMonitor;
+  let canStart: jest.SpyInstance;
+  let queue: AdmissionQueue;
+  let admitted: string[];
+
+  const request = (
+    s3Bucket: string,
+    priority: AdmissionPriority = "normal",
+    userId = `user-${s3Bucket}`
+  ): AdmissionRequest => ({ s3Bucket, s3Region: "us-east-1", priority, userId });
+
+  const admitHandler = async (admission: AdmissionRequest) => {
+    admitted.push(admission.s3Bucket);
+    return {
+      id: `container-${admission.s3Bucket}`,
+      serviceName: `ide-${admission.s3Bucket}`,
+      status: "starting" as const,
+      urls: { vnc: "", codeServer: "", webServer: "", terminal: "" },
+    };
+  };
+
+  const createQueue = (options: Partial<AdmissionQueueOptions> = {}) =>
+    // Checks are driven by hand; the interval never fires during a test
+    new AdmissionQueue(resourceMonitor, { checkIntervalMs: 60 * 60 * 1000, ...options });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    resourceMonitor = new ResourceMonitor(
+      new ContainerService(new FakeContainerRuntime({ startupDelayMs: 0 }))
+    );
+    canStart = jest
+      .spyOn(resourceMonitor, "canStartContainer")
+      .mockResolvedValue({ allowed: false, reason: "Memory usage too high" });
+    admitted = [];
+    queue = createQueue();
+  });
+
+  afterEach(() => {
+    queue.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("orders tickets by priority, then arrival, with position and ETA", () => {
+    const first = queue.enqueue(request("a"))!;
+    const second = queue.enqueue(request("b"))!;
+    const urgent = queue.enqueue(request("c", "high"))!;
+
+    expect(urgent).toMatchObject({ status: "waiting", position: 1, etaSeconds: 30 });
+    expect(queue.getTicket(first.id)).toMatchObject({ position: 2, etaSeconds: 60 });
+    expect(queue.getTicket(second.id)).toMatchObject({ position: 3, etaSeconds: 90 });
+    expect(queue.getStats()).toMatchObject({ waiting: 3, highPriority: 1 });
+  });
+
+  it("keeps the place of a bucket that is already waiting", () => {
+    const original = queue.enqueue(request("a"))!;
+    queue.enqueue(request("b"));
+
+    const again = queue.enqueue(request("a"))!;
+
+    expect(again.id).toBe(original.id);
+    expect(again.position).toBe(1);
+    expect(queue.getStats().waiting).toBe(2);
+  });
+
+  it("refuses tickets when the waiting room is full", () => {
+    queue = createQueue({ maxLength: 2 });
+    queue.enqueue(request("a"));
+    queue.enqueue(request("b"));
+
+    expect(queue.enqueue(request("c"))).toBeNull();
+    expect(queue.getStats().waiting).toBe(2);
+  });
+
+  it("cancels waiting tickets and moves the others up", () => {
+    const first = queue.enqueue(request("a"))!;
+    const second = queue.enqueue(request("b"))!;
+
+    expect(queue.cancel(first.id)?.status).toBe("cancelled");
+    expect(queue.getTicket(second.id)?.position).toBe(1);
+    expect(queue.cancel("missing")).toBeNull();
+  });
+
+  it("hides tickets from other users", () => {
+    const ticket = queue.enqueue(request("a", "normal", "user-1"))!;
+
+    expect(queue.getTicket(ticket.id, "user-2")).toBeNull();
+    expect(queue.cancel(ticket.id, "user-2")).toBeNull();
+    expect(queue.getTicket(ticket.id, "user-1")?.status).toBe("waiting");
+    expect(queue.cancel(ticket.id, "user-1")?.status).toBe("cancelled");
+  });
+
+  it("expires tickets nobody asks about", async () => {
+    jest.useFakeTimers();
+    queue = createQueue({ ticketTimeoutMs: 1000 });
+    queue.start(admitHandler);
+    const abandoned = queue.enqueue(request("a"))!;
+    const watched = queue.enqueue(request("b"))!;
+
+    jest.setSystemTime(Date.now() + 2000);
+    queue.getTicket(watched.id);
+    await queue.processQueue();
+
+    expect(queue.getTicket(abandoned.id)?.status).toBe("expired");
+    expect(queue.getTicket(watched.id)).toMatchObject({ status: "waiting", position: 1 });
+  });
+
+  it("admits tickets in order while there is capacity", async () => {
+    canStart
+      .mockResolvedValueOnce({ allowed: true })
+      .mockResolvedValueOnce({ allowed: true });
+    queue.start(admitHandler);
+    const first = queue.enqueue(request("a"))!;
+    queue.enqueue(request("b"));
+    const last = queue.enqueue(request("c"))!;
+    const urgent = queue.enqueue(request("d", "high"))!;
+
+    await queue.processQueue();
+
+    expect(admitted).toEqual(["d", "a"]);
+    expect(queue.getTicket(urgent.id)).toMatchObject({
+      status: "admitted",
+      position: null,
+      container: { id: "container-d" },
+    });
+    expect(queue.getTicket(first.id)?.status).toBe("admitted");
+    expect(queue.getTicket(last.id)?.position).toBe(2);
+  });
+
+  it("caps the admissions of one check", async () => {
+    canStart.mockResolvedValue({ allowed: true });
+    queue = createQueue({ maxAdmissionsPerCheck: 2 });
+    queue.start(admitHandler);
+    for (const bucket of ["a", "b", "c"]) {
+      queue.enqueue(request(bucket));
+    }
+
+    await queue.processQueue();
+    expect(admitted).toEqual(["a", "b"]);
+
+    await queue.processQueue();
+    expect(admitted).toEqual(["a", "b", "c"]);
+  });
+
+  it("admits at capacity when an idle container is free", async () => {
+    queue.start(admitHandler, (admission) => admission.s3Bucket === "a");
+    queue.enqueue(request("a"));
+    queue.enqueue(request("b"));
+
+    await queue.processQueue();
+
+    expect(admitted).toEqual(["a"]);
+    expect(queue.getStats().waiting).toBe(1);
+  });
+
+  it("marks a ticket failed when its container can't start", async () => {
+    canStart.mockResolvedValue({ allowed: true });
+    queue.start(async () => {
+      throw new Error("Swarm is down");
+    });
+    const ticket = queue.enqueue(request("a"))!;
+
+    await queue.processQueue();
+
+    expect(queue.getTicket(ticket.id)).toMatchObject({
+      status: "failed",
+      error: "Swarm is down",
+    });
+  });
+});
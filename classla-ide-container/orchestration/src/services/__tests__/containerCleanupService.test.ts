@@ -0,0 +1,87 @@
+import { ContainerCleanupService } from "../containerCleanupService";
+import { ContainerInfo, ContainerService } from "../containerService";
+import { FakeContainerRuntime } from "../fakeRuntime";
+import { ContainerStatus, StateManager } from "../stateManager";
+
+// The error middleware imports the app's singletons, which would start a
+// second set of services around a real Docker client
+jest.mock("../serviceInstances", () => ({}));
+
+describe("ContainerCleanupService", () => {
+  let runtime: FakeContainerRuntime;
+  let containerService: ContainerService;
+  let stateManager: StateManager;
+  let cleanupService: ContainerCleanupService;
+
+  const addContainer = async (status: ContainerStatus): Promise<ContainerInfo> => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      s3Bucket: "bucket-1",
+    });
+    stateManager.saveContainer({
+      id: container.id,
+      serviceName: container.serviceName,
+      s3Bucket: "bucket-1",
+      s3Region: "us-east-1",
+      status,
+      createdAt: container.createdAt,
+      urls: container.urls,
+      resourceLimits: { cpuLimit: "2 cores", memoryLimit: "4294967296 bytes" },
+    });
+    return container;
+  };
+
+  // Let the reconciliation and cleanup that start() kicks off finish
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    runtime = new FakeContainerRuntime({ startupDelayMs: 0 });
+    containerService = new ContainerService(runtime);
+    stateManager = new StateManager(":memory:");
+    cleanupService = new ContainerCleanupService(containerService, stateManager);
+  });
+
+  afterEach(() => {
+    cleanupService.stop();
+    stateManager.close();
+    jest.restoreAllMocks();
+  });
+
+  it("removes the services of stopped containers and their records", async () => {
+    const stopped = await addContainer("stopped");
+    const running = await addContainer("running");
+
+    cleanupService.start();
+    await flush();
+
+    expect(await runtime.inspectService(stopped.serviceName)).toBeNull();
+    expect(stateManager.getContainer(stopped.id)).toBeNull();
+    expect(await runtime.inspectService(running.serviceName)).not.toBeNull();
+    expect(stateManager.getContainer(running.id)?.status).toBe("running");
+  });
+
+  it("deletes records whose service is already gone", async () => {
+    const stopped = await addContainer("stopped");
+    const ghost = await addContainer("running");
+    await runtime.removeService(stopped.serviceName);
+    await runtime.removeService(ghost.serviceName);
+
+    cleanupService.start();
+    await flush();
+
+    expect(stateManager.getContainer(stopped.id)).toBeNull();
+    expect(stateManager.getContainer(ghost.id)).toBeNull();
+  });
+
+  it("does nothing until started", async () => {
+    const stopped = await addContainer("stopped");
+
+    await cleanupService.cleanup();
+
+    expect(await runtime.inspectService(stopped.serviceName)).not.toBeNull();
+    expect(stateManager.getContainer(stopped.id)?.status).toBe("stopped");
+  });
+});
@@ -0,0 +1,121 @@
+import { ContainerService } from "../containerService";
+import { FakeContainerRuntime } from "../fakeRuntime";
+import { AppError } from "../../middleware/errorHandler";
+
+// The error middleware imports the app's singletons, which would start a
+// second set of services around a real Docker client
+jest.mock("../serviceInstances", () => ({}));
+
+describe("ContainerService", () => {
+  let runtime: FakeContainerRuntime;
+  let containerService: ContainerService;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    runtime = new FakeContainerRuntime({ startupDelayMs: 0 });
+    containerService = new ContainerService(runtime);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("creates a routed service that becomes running", async () => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      s3Bucket: "bucket-1",
+      s3BucketId: "bucket-id-1",
+    });
+
+    expect(container.status).toBe("starting");
+    expect(container.urls.codeServer).toContain(`/code/${container.id}`);
+
+    const service = await runtime.inspectService(container.serviceName);
+    expect(service?.labels["ide.container.id"]).toBe(container.id);
+    expect(service?.env).toEqual(
+      expect.arrayContaining(["S3_BUCKET=bucket-1", "S3_BUCKET_ID=bucket-id-1"])
+    );
+
+    const current = await containerService.getContainer(container.id);
+    expect(current).toMatchObject({ status: "running", s3Bucket: "bucket-1" });
+  });
+
+  it("passes the resource profile and network policy to the container", async () => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      skipS3Bucket: true,
+      resources: { vncEnabled: false, diskMb: 512 },
+      networkPolicy: { mode: "allowlist", allowlist: ["pypi.org"] },
+    });
+
+    expect(container.urls.vnc).toBe("");
+    const service = await runtime.inspectService(container.serviceName);
+    expect(service?.env).toEqual(
+      expect.arrayContaining([
+        "VNC_ENABLED=false",
+        "WORKSPACE_DISK_LIMIT_MB=512",
+        "NETWORK_POLICY=allowlist",
+        "NETWORK_ALLOWLIST=pypi.org",
+      ])
+    );
+    expect((await containerService.getContainer(container.id))?.urls.vnc).toBe("");
+  });
+
+  it("reports crashed containers as failed", async () => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      skipS3Bucket: true,
+    });
+    runtime.simulateExit(container.serviceName);
+
+    expect((await containerService.getContainer(container.id))?.status).toBe("failed");
+    expect(await containerService.listContainers({ status: "failed" })).toHaveLength(1);
+  });
+
+  it("stops containers and reports missing ones as not found", async () => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      skipS3Bucket: true,
+    });
+
+    await containerService.stopContainer(container.id);
+    expect(await containerService.getContainer(container.id)).toBeNull();
+
+    const error = await containerService.stopContainer(container.id).catch((e) => e);
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(404);
+  });
+
+  it("assigns a bucket and applies the network policy to a pre-warmed container", async () => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      skipS3Bucket: true,
+    });
+
+    await expect(
+      containerService.assignS3BucketToContainer(container.id, {
+        bucket: "bucket-1",
+        bucketId: "bucket-id-1",
+        networkPolicy: { mode: "none" },
+      })
+    ).resolves.toBeUndefined();
+  });
+
+  it("refuses a container that already has a different network policy", async () => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      skipS3Bucket: true,
+      networkPolicy: { mode: "allowlist", allowlist: ["pypi.org"] },
+    });
+
+    await expect(
+      containerService.assignS3BucketToContainer(container.id, {
+        bucket: "bucket-1",
+        bucketId: "bucket-id-1",
+        networkPolicy: { mode: "none" },
+      })
+    ).rejects.toThrow(/was not applied/);
+  });
+});
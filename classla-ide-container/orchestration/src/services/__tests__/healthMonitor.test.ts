@@ -0,0 +1,87 @@
+import { ContainerInfo, ContainerService } from "../containerService";
+import { FakeContainerRuntime } from "../fakeRuntime";
+import { HealthMonitor } from "../healthMonitor";
+import { ContainerStatus, StateManager } from "../stateManager";
+
+// The error middleware imports the app's singletons, which would start a
+// second set of services around a real Docker client
+jest.mock("../serviceInstances", () => ({}));
+
+describe("HealthMonitor", () => {
+  let runtime: FakeContainerRuntime;
+  let containerService: ContainerService;
+  let stateManager: StateManager;
+  let healthMonitor: HealthMonitor;
+
+  const addContainer = async (status: ContainerStatus): Promise<ContainerInfo> => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      skipS3Bucket: true,
+    });
+    stateManager.saveContainer({
+      id: container.id,
+      serviceName: container.serviceName,
+      s3Bucket: "",
+      s3Region: "us-east-1",
+      status,
+      createdAt: container.createdAt,
+      urls: container.urls,
+      resourceLimits: { cpuLimit: "2 cores", memoryLimit: "4294967296 bytes" },
+    });
+    return container;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    runtime = new FakeContainerRuntime({ startupDelayMs: 0 });
+    containerService = new ContainerService(runtime);
+    stateManager = new StateManager(":memory:");
+    healthMonitor = new HealthMonitor(containerService, stateManager);
+  });
+
+  afterEach(() => {
+    healthMonitor.stop();
+    stateManager.close();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("marks a starting container running once code-server answers for a while", async () => {
+    const container = await addContainer("starting");
+
+    await healthMonitor.checkContainerImmediately(container.id);
+    expect(stateManager.getContainer(container.id)?.status).toBe("starting");
+
+    await jest.advanceTimersByTimeAsync(6000);
+
+    expect(stateManager.getContainer(container.id)?.status).toBe("running");
+    expect(healthMonitor.getContainerHealth(container.id)?.status).toBe("healthy");
+  });
+
+  it("marks a starting container failed when its route never comes up", async () => {
+    const container = await addContainer("starting");
+    runtime.simulateExit(container.serviceName);
+
+    expect(await healthMonitor.checkContainerImmediately(container.id)).toBe(false);
+    await jest.advanceTimersByTimeAsync(6000);
+
+    expect(stateManager.getContainer(container.id)?.status).toBe("failed");
+    expect(healthMonitor.getContainerHealth(container.id)?.status).toBe("unhealthy");
+  });
+
+  it("marks a running container failed after repeated failed checks", async () => {
+    const healthy = await addContainer("running");
+    const crashed = await addContainer("running");
+    runtime.simulateExit(crashed.serviceName);
+
+    healthMonitor.start();
+    await jest.advanceTimersByTimeAsync(15000);
+
+    expect(stateManager.getContainer(healthy.id)?.status).toBe("running");
+    expect(healthMonitor.getContainerHealth(healthy.id)?.status).toBe("healthy");
+    expect(stateManager.getContainer(crashed.id)?.status).toBe("failed");
+  });
+});
@@ -0,0 +1,113 @@
+import { DemandEvent, PrewarmScheduler } from "../prewarmScheduler";
+import { StateManager } from "../stateManager";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+describe("PrewarmScheduler", () => {
+  let stateManager: StateManager;
+  let now: Date;
+
+  const createScheduler = () =>
+    new PrewarmScheduler(stateManager, {
+      minSize: 2,
+      maxSize: 20,
+      backendApiUrl: "http://backend.test/api",
+      serviceToken: "token",
+    });
+
+  // A scheduler that has pulled these events from the backend
+  const withSchedule = async (events: DemandEvent[]) => {
+    jest.spyOn(global, "fetch").mockResolvedValue({
+      ok: true,
+      json: async () => ({ events }),
+    } as Response);
+    const scheduler = createScheduler();
+    await scheduler.refreshSchedule();
+    return scheduler;
+  };
+
+  const meeting = (startsInMs: number, expectedUsers: number): DemandEvent => ({
+    kind: "class_meeting",
+    course_id: "course-1",
+    starts_at: new Date(now.getTime() + startsInMs).toISOString(),
+    ends_at: new Date(now.getTime() + startsInMs + HOUR_MS).toISOString(),
+    expected_users: expectedUsers,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    stateManager = new StateManager(":memory:");
+    // Early in the hour, so the replenish window doesn't cross into the next
+    now = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS + 5 * MINUTE_MS);
+  });
+
+  afterEach(() => {
+    stateManager.close();
+    jest.restoreAllMocks();
+  });
+
+  it("keeps the minimum pool without demand", async () => {
+    const scheduler = await withSchedule([]);
+
+    expect(scheduler.getTargetSize(now)).toBe(2);
+  });
+
+  it("raises the target for students arriving at a class meeting", async () => {
+    // 60 students, 60% of them arriving over 30 minutes: 12 in the next 10
+    const scheduler = await withSchedule([meeting(15 * MINUTE_MS, 60)]);
+
+    expect(scheduler.getTargetSize(now)).toBe(12);
+    expect(scheduler.getForecast(now).current).toMatchObject({
+      scheduledStarts: 12,
+      target: 12,
+    });
+  });
+
+  it("caps the target at the pool maximum", async () => {
+    const scheduler = await withSchedule([meeting(15 * MINUTE_MS, 1000)]);
+
+    expect(scheduler.getTargetSize(now)).toBe(20);
+  });
+
+  it("lowers the target again once the arrivals are over", async () => {
+    const scheduler = await withSchedule([meeting(15 * MINUTE_MS, 60)]);
+
+    expect(scheduler.getTargetSize(new Date(now.getTime() + HOUR_MS))).toBe(2);
+  });
+
+  it("forecasts upcoming meetings hour by hour", async () => {
+    const scheduler = await withSchedule([meeting(3 * HOUR_MS, 60)]);
+
+    const forecast = scheduler.getForecast(now);
+    expect(forecast.current.target).toBe(2);
+    expect(Math.max(...forecast.hourly.map((point) => point.target))).toBeGreaterThan(2);
+    expect(forecast.upcomingEvents).toHaveLength(1);
+    expect(forecast.scheduleError).toBeNull();
+  });
+
+  it("follows the start rate of the same hour in past weeks", async () => {
+    for (let i = 0; i < 60; i++) {
+      stateManager.recordContainerStart(false, new Date(now.getTime() - WEEK_MS));
+    }
+    const scheduler = await withSchedule([]);
+
+    // 60 starts spread over the 2 weeks of history: 30 an hour, 5 in 10 minutes
+    expect(scheduler.getForecast(now).current).toMatchObject({
+      historicalStarts: 5,
+      target: 5,
+    });
+  });
+
+  it("keeps the last schedule when the backend can't be reached", async () => {
+    const scheduler = await withSchedule([meeting(15 * MINUTE_MS, 60)]);
+    jest.spyOn(global, "fetch").mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    await scheduler.refreshSchedule();
+
+    expect(scheduler.getTargetSize(now)).toBe(12);
+    expect(scheduler.getForecast(now).scheduleError).toBe("connect ECONNREFUSED");
+  });
+});
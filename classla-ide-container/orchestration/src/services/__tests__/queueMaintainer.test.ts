@@ -0,0 +1,132 @@
+import { ContainerService } from "../containerService";
+import { FakeContainerRuntime } from "../fakeRuntime";
+import { HealthMonitor } from "../healthMonitor";
+import { PrewarmScheduler } from "../prewarmScheduler";
+import { QueueMaintainer } from "../queueMaintainer";
+import { QueueManager } from "../queueManager";
+import { ResourceMonitor } from "../resourceMonitor";
+import { StateManager } from "../stateManager";
+
+// The error middleware imports the app's singletons, which would start a
+// second set of services around a real Docker client
+jest.mock("../serviceInstances", () => ({}));
+
+describe("QueueMaintainer", () => {
+  let runtime: FakeContainerRuntime;
+  let containerService: ContainerService;
+  let stateManager: StateManager;
+  let queueManager: QueueManager;
+  let resourceMonitor: ResourceMonitor;
+  let healthMonitor: HealthMonitor;
+
+  const createMaintainer = (targetSize: number) =>
+    new QueueMaintainer(
+      queueManager,
+      containerService,
+      stateManager,
+      resourceMonitor,
+      healthMonitor,
+      new PrewarmScheduler(stateManager, { minSize: targetSize, maxSize: targetSize })
+    );
+
+  // A pre-warmed container that's already running, as the maintainer leaves it
+  const addPreWarmedContainer = async () => {
+    const container = await containerService.createContainer({
+      domain: "ide.test",
+      skipS3Bucket: true,
+    });
+    stateManager.saveContainer({
+      id: container.id,
+      serviceName: container.serviceName,
+      s3Bucket: "",
+      s3Region: "us-east-1",
+      status: "running",
+      createdAt: container.createdAt,
+      urls: container.urls,
+      isPreWarmed: true,
+      resourceLimits: { cpuLimit: "2 cores", memoryLimit: "4294967296 bytes" },
+    });
+    return container;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    runtime = new FakeContainerRuntime({ startupDelayMs: 0 });
+    containerService = new ContainerService(runtime);
+    stateManager = new StateManager(":memory:");
+    queueManager = new QueueManager();
+    resourceMonitor = new ResourceMonitor(containerService);
+    jest.spyOn(resourceMonitor, "canStartContainer").mockResolvedValue({ allowed: true });
+    healthMonitor = new HealthMonitor(containerService, stateManager);
+  });
+
+  afterEach(() => {
+    healthMonitor.stop();
+    stateManager.close();
+    jest.restoreAllMocks();
+  });
+
+  it("spawns pre-warmed containers up to the target", async () => {
+    await createMaintainer(2).maintainQueue();
+
+    expect(queueManager.getQueueSize()).toBe(2);
+    const services = await runtime.listServices("ide-");
+    expect(services).toHaveLength(2);
+    for (const service of services) {
+      expect(service.env.some((entry) => entry.startsWith("S3_BUCKET="))).toBe(false);
+    }
+    expect(stateManager.listContainers({ status: "running" })).toHaveLength(2);
+  });
+
+  it("picks up pre-warmed containers that are already running", async () => {
+    const existing = await addPreWarmedContainer();
+
+    await createMaintainer(1).maintainQueue();
+
+    expect(queueManager.getAllContainerIds()).toEqual([existing.id]);
+    expect(await runtime.listServices("ide-")).toHaveLength(1);
+  });
+
+  it("stops the oldest pre-warmed containers when above target", async () => {
+    const oldest = await addPreWarmedContainer();
+    const newest = await addPreWarmedContainer();
+    queueManager.addToQueue(oldest.id, oldest.serviceName);
+    queueManager.addToQueue(newest.id, newest.serviceName);
+    queueManager.getContainer(oldest.id)!.createdAt = new Date(Date.now() - 60000);
+
+    await createMaintainer(1).maintainQueue();
+
+    expect(queueManager.getAllContainerIds()).toEqual([newest.id]);
+    expect(await containerService.getContainer(oldest.id)).toBeNull();
+    expect(stateManager.getContainer(oldest.id)).toMatchObject({
+      status: "stopped",
+      shutdownReason: "scale_down",
+    });
+  });
+
+  it("doesn't spawn when the node is out of resources", async () => {
+    jest
+      .spyOn(resourceMonitor, "canStartContainer")
+      .mockResolvedValue({ allowed: false, reason: "Memory usage too high" });
+
+    await createMaintainer(1).maintainQueue();
+
+    expect(queueManager.getQueueSize()).toBe(0);
+    expect(await runtime.listServices("ide-")).toHaveLength(0);
+  });
+
+  it("replaces a pre-warmed container that failed", async () => {
+    const failed = await addPreWarmedContainer();
+    queueManager.addToQueue(failed.id, failed.serviceName);
+    runtime.simulateExit(failed.serviceName);
+
+    await createMaintainer(1).handleContainerFailure(failed.id);
+
+    const queued = queueManager.getAllContainerIds();
+    expect(queued).toHaveLength(1);
+    expect(queued[0]).not.toBe(failed.id);
+    expect((await containerService.getContainer(queued[0]))?.status).toBe("running");
+  });
+});
@@ -0,0 +1,403 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { ResourceMonitor } from "./resourceMonitor";
+import { ContainerInfo, ContainerResources, NetworkPolicy } from "./containerService";
+
+export type AdmissionPriority = "high" | "normal";
+
+export type AdmissionStatus =
+  | "waiting"
+  | "starting"
+  | "admitted"
+  | "failed"
+  | "cancelled"
+  | "expired";
+
+/**
+ * Everything needed to start the container once a ticket reaches the front
+ */
+export interface AdmissionRequest {
+  s3Bucket: string;
+  s3BucketId?: string;
+  s3Region: string;
+  awsAccessKeyId?: string;
+  awsSecretAccessKey?: string;
+  vncPassword?: string;
+  userId?: string;
+  priority: AdmissionPriority;
+  resources?: ContainerResources;
+  networkPolicy?: NetworkPolicy;
+}
+
+export type AdmittedContainer = Pick<
+  ContainerInfo,
+  "id" | "serviceName" | "status" | "urls"
+>;
+
+/**
+ * Public view of a place in the waiting room
+ */
+export interface AdmissionTicket {
+  id: string;
+  status: AdmissionStatus;
+  priority: AdmissionPriority;
+  position: number | null; // 1-based while waiting, null otherwise
+  etaSeconds: number | null;
+  enqueuedAt: string;
+  container?: AdmittedContainer;
+  error?: string;
+}
+
+export type AdmitHandler = (
+  request: AdmissionRequest
+) => Promise<AdmittedContainer>;
+
+/**
+ * Whether a request can be admitted without new capacity, e.g. because a
+ * pre-warmed container is free for it
+ */
+export type IdleContainerCheck = (request: AdmissionRequest) => boolean;
+
+interface AdmissionEntry {
+  id: string;
+  request: AdmissionRequest;
+  status: AdmissionStatus;
+  enqueuedAt: Date;
+  lastSeenAt: Date;
+  settledAt?: Date;
+  container?: AdmittedContainer;
+  error?: string;
+}
+
+export interface AdmissionQueueOptions {
+  maxLength: number; // Waiting tickets beyond this are refused
+  checkIntervalMs: number; // How often capacity is checked
+  maxAdmissionsPerCheck: number; // Memory use lags behind new containers, so cap each burst
+  ticketTimeoutMs: number; // A waiting ticket nobody asked about for this long is dropped
+  retentionMs: number; // How long settled tickets stay queryable
+}
+
+const DEFAULT_OPTIONS: AdmissionQueueOptions = {
+  maxLength: 500,
+  checkIntervalMs: 5000,
+  maxAdmissionsPerCheck: 20,
+  ticketTimeoutMs: 90000,
+  retentionMs: 5 * 60 * 1000,
+};
+
+// Initial guess at the time between admissions, until some are observed
+const DEFAULT_ADMISSION_INTERVAL_MS = 30000;
+
+const PRIORITY_RANK: Record<AdmissionPriority, number> = {
+  high: 0,
+  normal: 1,
+};
+
+/**
+ * AdmissionQueue - Waiting room for container starts while the cluster is
+ * at capacity
+ *
+ * Requests that can't start right away get a ticket. Each check admits
+ * tickets in turn for as long as ResourceMonitor allows a new container or a
+ * pre-warmed one is free: high priority (timed or lockdown assignments)
+ * first, then first come, first served. Emits "update" with the ticket whenever a ticket's status,
+ * position or ETA changes.
+ */
+export class AdmissionQueue extends EventEmitter {
+  private resourceMonitor: ResourceMonitor;
+  private options: AdmissionQueueOptions;
+  private entries = new Map<string, AdmissionEntry>();
+  private admitHandler: AdmitHandler | null = null;
+  private hasIdleContainer: IdleContainerCheck = () => false;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private admissionIntervalMs = DEFAULT_ADMISSION_INTERVAL_MS;
+  private lastAdmittedAt: Date | null = null;
+
+  constructor(
+    resourceMonitor: ResourceMonitor,
+    options: Partial<AdmissionQueueOptions> = {}
+  ) {
+    super();
+    this.resourceMonitor = resourceMonitor;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    // One listener per open status stream
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Start admitting tickets with the given handler. hasIdleContainer lets
+   * tickets in while at capacity when the handler needs no new container.
+   */
+  start(admitHandler: AdmitHandler, hasIdleContainer?: IdleContainerCheck): void {
+    if (this.checkInterval) {
+      console.warn("[AdmissionQueue] Already running");
+      return;
+    }
+
+    this.admitHandler = admitHandler;
+    if (hasIdleContainer) {
+      this.hasIdleContainer = hasIdleContainer;
+    }
+    this.checkInterval = setInterval(() => {
+      this.processQueue().catch((error) => {
+        console.error("[AdmissionQueue] Error processing queue:", error);
+      });
+    }, this.options.checkIntervalMs);
+    console.log("[AdmissionQueue] Started");
+  }
+
+  /**
+   * Stop admitting tickets
+   */
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    console.log("[AdmissionQueue] Stopped");
+  }
+
+  /**
+   * Whether anyone is waiting. New requests must queue behind them rather
+   * than take a freed slot first.
+   */
+  hasWaiting(): boolean {
+    return this.getWaiting().length > 0;
+  }
+
+  /**
+   * Add a request to the waiting room. A bucket that is already waiting
+   * keeps its place. Returns null when the waiting room is full.
+   */
+  enqueue(request: AdmissionRequest): AdmissionTicket | null {
+    const existing = Array.from(this.entries.values()).find(
+      (entry) =>
+        (entry.status === "waiting" || entry.status === "starting") &&
+        entry.request.s3Bucket === request.s3Bucket
+    );
+    if (existing) {
+      existing.lastSeenAt = new Date();
+      return this.toTicket(existing);
+    }
+
+    if (this.getWaiting().length >= this.options.maxLength) {
+      return null;
+    }
+
+    const entry: AdmissionEntry = {
+      id: randomUUID(),
+      request,
+      status: "waiting",
+      enqueuedAt: new Date(),
+      lastSeenAt: new Date(),
+    };
+    this.entries.set(entry.id, entry);
+    console.log(
+      `[AdmissionQueue] Enqueued ${entry.id} for bucket ${request.s3Bucket} (priority: ${request.priority}, waiting: ${this.getWaiting().length})`
+    );
+
+    // Tickets behind a new high-priority one moved back
+    this.emitWaitingUpdates();
+    return this.toTicket(entry);
+  }
+
+  /**
+   * Current state of a ticket. Asking about a ticket keeps it alive. When
+   * userId is given, other users' tickets are treated as missing.
+   */
+  getTicket(ticketId: string, userId?: string): AdmissionTicket | null {
+    const entry = this.findEntry(ticketId, userId);
+    if (!entry) return null;
+    entry.lastSeenAt = new Date();
+    return this.toTicket(entry);
+  }
+
+  /**
+   * Leave the waiting room. Tickets already being admitted can't be cancelled.
+   * When userId is given, only that user's ticket can be cancelled.
+   */
+  cancel(ticketId: string, userId?: string): AdmissionTicket | null {
+    const entry = this.findEntry(ticketId, userId);
+    if (!entry) return null;
+    if (entry.status === "waiting") {
+      this.settle(entry, "cancelled");
+      this.emitWaitingUpdates();
+    }
+    return this.toTicket(entry);
+  }
+
+  /**
+   * Waiting-room size and ETA basis, for the dashboard
+   */
+  getStats(): {
+    waiting: number;
+    highPriority: number;
+    averageAdmissionIntervalSeconds: number;
+  } {
+    const waiting = this.getWaiting();
+    return {
+      waiting: waiting.length,
+      highPriority: waiting.filter((entry) => entry.request.priority === "high")
+        .length,
+      averageAdmissionIntervalSeconds: Math.round(
+        this.admissionIntervalMs / 1000
+      ),
+    };
+  }
+
+  /**
+   * Drop abandoned tickets, then admit tickets in order while there's
+   * capacity for them
+   */
+  async processQueue(): Promise<void> {
+    if (this.isProcessing || !this.admitHandler) return;
+    this.isProcessing = true;
+
+    try {
+      this.pruneEntries();
+
+      for (let admitted = 0; admitted < this.options.maxAdmissionsPerCheck; admitted++) {
+        const next = this.getWaiting()[0];
+        if (!next) {
+          this.lastAdmittedAt = null;
+          return;
+        }
+
+        if (!this.hasIdleContainer(next.request)) {
+          const resourceCheck = await this.resourceMonitor.canStartContainer();
+          if (!resourceCheck.allowed) return;
+        }
+        // Cancelled or expired while capacity was checked
+        if (next.status !== "waiting") continue;
+
+        await this.admit(next, this.admitHandler);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async admit(entry: AdmissionEntry, admitHandler: AdmitHandler): Promise<void> {
+    entry.status = "starting";
+    this.emitUpdate(entry);
+    this.emitWaitingUpdates();
+
+    try {
+      const container = await admitHandler(entry.request);
+      entry.container = container;
+      this.settle(entry, "admitted");
+      this.recordAdmission();
+      console.log(
+        `[AdmissionQueue] Admitted ${entry.id} as container ${container.id}`
+      );
+    } catch (error) {
+      entry.error =
+        error instanceof Error ? error.message : "Failed to start container";
+      this.settle(entry, "failed");
+      console.error(`[AdmissionQueue] Failed to admit ${entry.id}:`, error);
+    }
+    this.emitWaitingUpdates();
+  }
+
+  /**
+   * Expire waiting tickets nobody is asking about (the student left) and
+   * forget settled tickets after the retention period
+   */
+  private pruneEntries(): void {
+    const now = Date.now();
+    let expired = false;
+    for (const entry of this.entries.values()) {
+      if (
+        entry.status === "waiting" &&
+        now - entry.lastSeenAt.getTime() > this.options.ticketTimeoutMs
+      ) {
+        this.settle(entry, "expired");
+        expired = true;
+      } else if (
+        entry.settledAt &&
+        now - entry.settledAt.getTime() > this.options.retentionMs
+      ) {
+        this.entries.delete(entry.id);
+      }
+    }
+    if (expired) this.emitWaitingUpdates();
+  }
+
+  /**
+   * Update the moving average of time between admissions. Only intervals
+   * during which people were waiting count, so idle periods don't inflate ETAs.
+   */
+  private recordAdmission(): void {
+    const now = new Date();
+    if (this.lastAdmittedAt) {
+      const interval = now.getTime() - this.lastAdmittedAt.getTime();
+      this.admissionIntervalMs = Math.round(
+        0.7 * this.admissionIntervalMs + 0.3 * interval
+      );
+    }
+    this.lastAdmittedAt = this.hasWaiting() ? now : null;
+  }
+
+  private findEntry(ticketId: string, userId?: string): AdmissionEntry | null {
+    const entry = this.entries.get(ticketId);
+    if (!entry || (userId !== undefined && entry.request.userId !== userId)) {
+      return null;
+    }
+    return entry;
+  }
+
+  private settle(entry: AdmissionEntry, status: AdmissionStatus): void {
+    entry.status = status;
+    entry.settledAt = new Date();
+    this.emitUpdate(entry);
+  }
+
+  /**
+   * Waiting tickets in admission order
+   */
+  private getWaiting(): AdmissionEntry[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => entry.status === "waiting")
+      .sort(
+        (a, b) =>
+          PRIORITY_RANK[a.request.priority] -
+            PRIORITY_RANK[b.request.priority] ||
+          a.enqueuedAt.getTime() - b.enqueuedAt.getTime()
+      );
+  }
+
+  private toTicket(
+    entry: AdmissionEntry,
+    waiting: AdmissionEntry[] = this.getWaiting()
+  ): AdmissionTicket {
+    const position =
+      entry.status === "waiting"
+        ? waiting.findIndex((other) => other.id === entry.id) + 1
+        : null;
+    return {
+      id: entry.id,
+      status: entry.status,
+      priority: entry.request.priority,
+      position,
+      etaSeconds:
+        position !== null
+          ? Math.round((position * this.admissionIntervalMs) / 1000)
+          : null,
+      enqueuedAt: entry.enqueuedAt.toISOString(),
+      container: entry.container,
+      error: entry.error,
+    };
+  }
+
+  private emitUpdate(entry: AdmissionEntry): void {
+    this.emit("update", this.toTicket(entry));
+  }
+
+  private emitWaitingUpdates(): void {
+    const waiting = this.getWaiting();
+    for (const entry of waiting) {
+      this.emit("update", this.toTicket(entry, waiting));
+    }
+  }
+}
@@ -6,7 +6,7 @@ import { StateManager } from "./stateManager";
  * 
  * This service:
  * - Checks for containers marked as "stopped" in the database
- * - Removes their Docker Swarm services if they still exist
+ * - Removes their runtime services (Swarm services, containers) if they still exist
  * - Ensures stopped containers are fully cleaned up
  */
 export class ContainerCleanupService {
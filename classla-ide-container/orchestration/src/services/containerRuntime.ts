@@ -0,0 +1,150 @@
+import axios, { AxiosRequestConfig } from "axios";
+import https from "https";
+import { config } from "../config/index";
+
+export type ContainerRuntimeDriver = typeof config.containerRuntime;
+
+/**
+ * Everything a runtime needs to run one IDE container
+ */
+export interface RuntimeServiceSpec {
+  name: string; // ide-<containerId>, also the container's alias on the network
+  image: string;
+  env: string[];
+  labels: Record<string, string>; // Traefik routing labels
+  network: string;
+  cpuLimit: number; // Cores
+  memoryLimitBytes: number;
+  diskLimitBytes?: number; // Writable layer size; only the Docker driver can enforce it
+  capAdd?: string[]; // Linux capabilities without the CAP_ prefix, e.g. NET_ADMIN
+  restartMaxAttempts: number; // Restarts on failure before giving up
+}
+
+export interface RuntimeService {
+  name: string;
+  state: "starting" | "running" | "exited";
+  env: string[];
+  labels: Record<string, string>;
+  createdAt: Date;
+}
+
+export interface RuntimeLogOptions {
+  tail: number;
+  follow: boolean;
+  timestamps: boolean;
+}
+
+/**
+ * ContainerRuntime - Driver that actually runs IDE containers
+ *
+ * ContainerService and everything built on it (QueueMaintainer,
+ * HealthMonitor, ContainerCleanupService, ...) only talk to containers
+ * through this interface, so the orchestrator can run on Docker Swarm, on a
+ * single Docker host, or entirely in memory. Selected by CONTAINER_RUNTIME.
+ */
+export interface ContainerRuntime {
+  readonly driver: ContainerRuntimeDriver;
+
+  /**
+   * Check that the runtime is reachable
+   */
+  ping(): Promise<void>;
+
+  createService(spec: RuntimeServiceSpec): Promise<void>;
+
+  /**
+   * Stop and remove a service. Throws ServiceNotFoundError if it doesn't exist.
+   */
+  removeService(name: string): Promise<void>;
+
+  /**
+   * Returns null if the service doesn't exist
+   */
+  inspectService(name: string): Promise<RuntimeService | null>;
+
+  listServices(namePrefix: string): Promise<RuntimeService[]>;
+
+  getServiceLogs(
+    name: string,
+    options: RuntimeLogOptions
+  ): Promise<NodeJS.ReadableStream>;
+
+  /**
+   * GET a public (Traefik-routed) URL and return the HTTP status.
+   * Throws on network errors and timeouts.
+   */
+  probeUrl(url: string, timeoutMs: number): Promise<number>;
+
+  /**
+   * HTTP request to a port of a service over the internal network,
+   * bypassing Traefik
+   */
+  requestService(
+    name: string,
+    port: number,
+    path: string,
+    init?: RequestInit
+  ): Promise<Response>;
+}
+
+export class ServiceNotFoundError extends Error {
+  readonly statusCode = 404;
+
+  constructor(name: string) {
+    super(`Service ${name} not found`);
+    this.name = "ServiceNotFoundError";
+  }
+}
+
+/**
+ * Whether a Docker API error means the object doesn't exist
+ */
+export function isDockerNotFound(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    "statusCode" in error &&
+    error.statusCode === 404
+  );
+}
+
+/**
+ * probeUrl for runtimes whose containers are reachable over the network
+ */
+export async function probeUrlOverNetwork(
+  url: string,
+  timeoutMs: number
+): Promise<number> {
+  const axiosConfig: AxiosRequestConfig = {
+    timeout: timeoutMs,
+    validateStatus: () => true, // Accept all status codes so callers can check them
+    maxRedirects: 5,
+  };
+
+  // In local mode, disable SSL certificate validation to handle self-signed certs
+  if (
+    config.nodeEnv === "local" ||
+    url.includes("localhost") ||
+    url.includes("ide-local_traefik")
+  ) {
+    axiosConfig.httpsAgent = new https.Agent({
+      rejectUnauthorized: false,
+    });
+  }
+
+  const response = await axios.get(url, axiosConfig);
+  return response.status;
+}
+
+/**
+ * requestService for runtimes that attach containers to a shared network
+ * under their service name
+ */
+export function requestServiceOverNetwork(
+  name: string,
+  port: number,
+  path: string,
+  init?: RequestInit
+): Promise<Response> {
+  return fetch(`http://${name}:${port}${path}`, init);
+}
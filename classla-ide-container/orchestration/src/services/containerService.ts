@@ -1,8 +1,14 @@
-import Docker from "dockerode";
 import { config } from "../config/index";
 import { TraefikService } from "./traefikService";
 import { ContainerIdService } from "./containerIdService";
 import {
+  ContainerRuntime,
+  RuntimeService,
+  RuntimeServiceSpec,
+  ServiceNotFoundError,
+} from "./containerRuntime";
+import {
+  containerNotFound,
   containerStartFailed,
   containerStopFailed,
   dockerError,
@@ -17,6 +23,57 @@ export interface ContainerConfig {
   vncPassword?: string;
   domain: string;
   skipS3Bucket?: boolean; // If true, don't set S3_BUCKET env var (pre-warmed container)
+  resources?: ContainerResources; // Per-assignment profile; unset fields use the defaults
+  networkPolicy?: NetworkPolicy; // Applied at boot; pre-warmed containers get it at assignment
+}
+
+/**
+ * Outbound network access for a container, from the assignment's network
+ * policy (see the backend's ideNetworkPolicy service). "allowlist" allows
+ * HTTP(S) to the listed hostnames only; the backend is always reachable.
+ */
+export interface NetworkPolicy {
+  mode: "none" | "allowlist" | "full";
+  allowlist?: string[];
+}
+
+/**
+ * Resources requested for one container, from the assignment's resource
+ * profile (see the backend's ideResourceProfiles service)
+ */
+export interface ContainerResources {
+  cpuCores?: number;
+  memoryMb?: number;
+  diskMb?: number;
+  idleTimeoutSeconds?: number;
+  vncEnabled?: boolean;
+}
+
+export interface ContainerLimits {
+  cpuLimit: number; // Cores
+  memoryLimitBytes: number;
+  diskLimitBytes?: number;
+  idleTimeoutSeconds: number;
+  vncEnabled: boolean;
+}
+
+/**
+ * Fill in requested resources with the configured defaults
+ */
+export function getContainerLimits(resources: ContainerResources = {}): ContainerLimits {
+  return {
+    cpuLimit: resources.cpuCores ?? config.containerCpuLimit,
+    memoryLimitBytes:
+      resources.memoryMb !== undefined
+        ? resources.memoryMb * 1024 * 1024
+        : config.containerMemoryLimit,
+    diskLimitBytes:
+      resources.diskMb !== undefined ? resources.diskMb * 1024 * 1024 : undefined,
+    idleTimeoutSeconds:
+      resources.idleTimeoutSeconds ??
+      parseInt(process.env.INACTIVITY_TIMEOUT_SECONDS || "600", 10),
+    vncEnabled: resources.vncEnabled ?? true,
+  };
 }
 
 export interface ContainerInfo {
@@ -45,38 +102,36 @@ export interface ContainerFilter {
 }
 
 export class ContainerService {
-  private docker: Docker;
+  readonly runtime: ContainerRuntime;
   private traefikService: TraefikService;
   private containerIdService: ContainerIdService;
 
-  constructor() {
-    // Auto-detect Docker socket path (Mac vs Linux)
-    const socketPath =
-      process.env.DOCKER_SOCKET ||
-      (process.platform === "darwin"
-        ? `${process.env.HOME}/.docker/run/docker.sock`
-        : "/var/run/docker.sock");
-    this.docker = new Docker({ socketPath });
+  constructor(runtime: ContainerRuntime) {
+    this.runtime = runtime;
     this.traefikService = new TraefikService();
     this.containerIdService = new ContainerIdService();
   }
 
   /**
-   * Create a new Docker Swarm service for an IDE container
+   * Create a new IDE container on the configured runtime
    */
   async createContainer(
     containerConfig: ContainerConfig
   ): Promise<ContainerInfo> {
     const containerId = this.containerIdService.generateUniqueId();
     const serviceName = `ide-${containerId}`;
+    const limits = getContainerLimits(containerConfig.resources);
 
     // Generate environment variables for the container
     const env = [
       // Base paths for path-based routing
       `CODE_BASE_PATH=/code/${containerId}`,
       `VNC_BASE_PATH=/vnc/${containerId}`,
-      // Inactivity timeout (10 minutes default, configurable via INACTIVITY_TIMEOUT_SECONDS env var)
-      `INACTIVITY_TIMEOUT_SECONDS=${process.env.INACTIVITY_TIMEOUT_SECONDS || "600"}`,
+      // Inactivity timeout (10 minutes default, configurable via INACTIVITY_TIMEOUT_SECONDS env var
+      // or per container by the resource profile)
+      `INACTIVITY_TIMEOUT_SECONDS=${limits.idleTimeoutSeconds}`,
+      // Profiles without a desktop skip the VNC server and noVNC
+      `VNC_ENABLED=${limits.vncEnabled}`,
       // Management API URL for shutdown webhook
       `MANAGEMENT_API_URL=http://ide-local_management-api:3001`,
       `CONTAINER_ID=${containerId}`,
@@ -108,6 +163,18 @@ export class ContainerService {
     if (containerConfig.vncPassword) {
       env.push(`VNC_PASSWORD=${containerConfig.vncPassword}`);
     }
+    if (limits.diskLimitBytes) {
+      // Swarm can't limit disk, so the container is also told its budget
+      env.push(`WORKSPACE_DISK_LIMIT_MB=${Math.floor(limits.diskLimitBytes / (1024 * 1024))}`);
+    }
+    const networkPolicy = containerConfig.networkPolicy;
+    if (networkPolicy && networkPolicy.mode !== "full") {
+      // The entrypoint applies the policy before any services start
+      env.push(`NETWORK_POLICY=${networkPolicy.mode}`);
+      if (networkPolicy.allowlist?.length) {
+        env.push(`NETWORK_ALLOWLIST=${networkPolicy.allowlist.join(",")}`);
+      }
+    }
 
     // Generate Traefik labels for routing
     const labels = this.traefikService.generateTraefikLabels(
@@ -115,146 +182,34 @@ export class ContainerService {
       containerConfig.domain
     );
 
-    // Create service specification
-    // Note: In Docker Swarm mode, Traefik reads labels from service level, not container spec
-    const serviceSpec = {
-      Name: serviceName,
-      TaskTemplate: {
-        ContainerSpec: {
-          Image: config.ideContainerImage,
-          Env: env,
-          // Labels removed from ContainerSpec - Traefik reads from service level in Swarm mode
-        },
-        LogDriver: {
-          Name: "json-file",
-          Options: {
-            "max-size": "10m",      // Maximum size of log file before rotation
-            "max-file": "5",        // Maximum number of log files to keep
-            "labels": "container_id,service_name", // Add labels to logs for easier filtering
-          },
-        },
-        Resources: {
-          Limits: {
-            NanoCPUs: config.containerCpuLimit * 1000000000, // Convert cores to NanoCPUs
-            MemoryBytes: config.containerMemoryLimit, // 4GB default
-          },
-        },
-        RestartPolicy: {
-          Condition: "on-failure",
-          MaxAttempts: 3,
-        },
-        Placement: {
-          Constraints: [
-            // Can add node-specific constraints here if needed
-            // e.g., 'node.labels.type==ide-worker'
-          ],
-        },
-      },
-      Mode: {
-        Replicated: {
-          Replicas: 1,
-        },
-      },
-      Networks: [
-        {
-          Target: "ide-network",
-          Aliases: [serviceName], // Only allow access via service name, not container-to-container
-        },
-      ],
-      Labels: labels,
-      EndpointSpec: {
-        Mode: "vip", // Virtual IP mode for better isolation
-        Ports: [], // All access through Traefik (no direct port publishing)
-      },
+    const serviceSpec: RuntimeServiceSpec = {
+      name: serviceName,
+      image: config.ideContainerImage,
+      env,
+      labels,
+      network: "ide-network",
+      cpuLimit: limits.cpuLimit,
+      memoryLimitBytes: limits.memoryLimitBytes, // 4GB default
+      diskLimitBytes: limits.diskLimitBytes,
+      // Lets the container's root-owned policy script install egress rules;
+      // every container gets it since pre-warmed ones learn their policy late
+      capAdd: ["NET_ADMIN"],
+      restartMaxAttempts: 3,
     };
 
     try {
-      // Create service - use update mode to ensure network is attached immediately
-      const createStartTime = Date.now();
-      await this.docker.createService(serviceSpec);
-      const createDuration = Date.now() - createStartTime;
-      
-      console.log(
-        `[ContainerService] Service ${serviceName} created in ${createDuration}ms, ensuring network attachment...`
-      );
-
-      // Ensure the service is attached to the ide-network
-      // Dockerode sometimes doesn't apply Networks correctly during creation, so we update it
-      try {
-        // Reduced delay for faster startup - check immediately
-        await new Promise((resolve) => setTimeout(resolve, 100));
-        
-        const service = this.docker.getService(serviceName);
-        const inspect = await service.inspect();
-        const currentNetworks = inspect.Spec?.TaskTemplate?.Networks || [];
-        
-        // Check if ide-network is already attached
-        const hasIdeNetwork = currentNetworks.some(
-          (net: { Target?: string }) => net.Target === "ide-network"
-        );
-
-        if (!hasIdeNetwork) {
-          // Get the service version for the update
-          const version = inspect.Version?.Index;
-          if (version !== undefined) {
-            // Update the service to add the network
-            const updateSpec = {
-              ...inspect.Spec,
-              TaskTemplate: {
-                ...inspect.Spec.TaskTemplate,
-                Networks: [
-                  ...currentNetworks,
-                  {
-                    Target: "ide-network",
-                    Aliases: [serviceName],
-                  },
-                ],
-              },
-            };
-
-            try {
-              await service.update({
-                version: version,
-                ...updateSpec,
-              } as any);
-              console.log(
-                `Successfully attached network to service ${serviceName} using dockerode API`
-              );
-            } catch (updateErr) {
-              console.error(
-                `Dockerode API update failed for ${serviceName}:`,
-                updateErr instanceof Error ? updateErr.message : String(updateErr)
-              );
-              throw updateErr; // Re-throw to trigger outer catch
-            }
-          } else {
-            console.warn(
-              `Could not get service version for ${serviceName}, network attachment may fail`
-            );
-            throw new Error("Service version not available");
-          }
-        } else {
-          console.log(`Network already attached to service ${serviceName}`);
-        }
-      } catch (updateError) {
-        // Log but don't fail - network might already be attached or service might be starting
-        console.error(
-          `Failed to update network for service ${serviceName} using dockerode API:`,
-          updateError instanceof Error ? updateError.message : String(updateError)
-        );
-        console.error(
-          `Network attachment failed for ${serviceName}. The Networks field in serviceSpec should have attached it, but dockerode may not be applying it correctly. Manual attachment may be required.`
-        );
-      }
+      await this.runtime.createService(serviceSpec);
 
+      const urls = this.traefikService.generateServiceUrls(
+        containerId,
+        containerConfig.domain
+      );
       const containerInfo: ContainerInfo = {
         id: containerId,
         serviceName,
         status: "starting",
-        urls: this.traefikService.generateServiceUrls(
-          containerId,
-          containerConfig.domain
-        ),
+        // An empty VNC URL tells clients and the health monitor there's no desktop
+        urls: limits.vncEnabled ? urls : { ...urls, vnc: "" },
         s3Bucket: containerConfig.s3Bucket || "", // Empty string for pre-warmed containers
         createdAt: new Date(),
       };
@@ -268,18 +223,20 @@ export class ContainerService {
   }
 
   /**
-   * Stop and remove a Docker Swarm service
+   * Stop and remove a container's runtime service
    */
   async stopContainer(containerId: string): Promise<void> {
     const serviceName = `ide-${containerId}`;
 
     try {
-      const service = this.docker.getService(serviceName);
-      await service.remove();
+      await this.runtime.removeService(serviceName);
 
       // Release the container ID back to the pool
       this.containerIdService.releaseId(containerId);
     } catch (error) {
+      if (error instanceof ServiceNotFoundError) {
+        throw containerNotFound(containerId);
+      }
       throw containerStopFailed(
         error instanceof Error ? error : new Error(String(error))
       );
@@ -293,39 +250,9 @@ export class ContainerService {
     const serviceName = `ide-${containerId}`;
 
     try {
-      const service = this.docker.getService(serviceName);
-      const inspect = await service.inspect();
-
-      // Determine status based on service state
-      let status: ContainerInfo["status"] = "running";
-      if (inspect.UpdateStatus?.State === "updating") {
-        status = "starting";
-      }
-
-      // Extract domain from labels
-      const labels = inspect.Spec?.Labels || {};
-      const domain = this.traefikService.extractDomainFromLabels(labels);
-
-      const containerInfo: ContainerInfo = {
-        id: containerId,
-        serviceName,
-        status,
-        urls: this.traefikService.generateServiceUrls(containerId, domain),
-        s3Bucket: this.extractS3BucketFromService(inspect),
-        createdAt: new Date(inspect.CreatedAt || Date.now()),
-      };
-
-      return containerInfo;
+      const service = await this.runtime.inspectService(serviceName);
+      return service ? this.toContainerInfo(containerId, service) : null;
     } catch (error) {
-      // Service not found
-      if (
-        error &&
-        typeof error === "object" &&
-        "statusCode" in error &&
-        error.statusCode === 404
-      ) {
-        return null;
-      }
       throw dockerError(
         error instanceof Error ? error : new Error(String(error))
       );
@@ -337,38 +264,10 @@ export class ContainerService {
    */
   async listContainers(filter?: ContainerFilter): Promise<ContainerInfo[]> {
     try {
-      const services = await this.docker.listServices({
-        filters: {
-          name: ["ide-"],
-        },
-      });
-
-      const containers: ContainerInfo[] = [];
-
-      for (const service of services) {
-        const containerId = service.Spec?.Name?.replace("ide-", "") || "";
-        const labels = service.Spec?.Labels || {};
-        const domain = this.traefikService.extractDomainFromLabels(labels);
-
-        // Determine status
-        let status: ContainerInfo["status"] = "running";
-        if (service.UpdateStatus?.State === "updating") {
-          status = "starting";
-        }
-
-        const containerInfo: ContainerInfo = {
-          id: containerId,
-          serviceName: service.Spec?.Name || "",
-          status,
-          urls: this.traefikService.generateServiceUrls(containerId, domain),
-          s3Bucket: this.extractS3BucketFromService(
-            service as unknown as Record<string, unknown>
-          ),
-          createdAt: new Date(service.CreatedAt || Date.now()),
-        };
-
-        containers.push(containerInfo);
-      }
+      const services = await this.runtime.listServices("ide-");
+      const containers = services.map((service) =>
+        this.toContainerInfo(service.name.replace("ide-", ""), service)
+      );
 
       // Apply filtering
       let filtered = containers;
@@ -396,14 +295,10 @@ export class ContainerService {
    */
   async initializeExistingIds(): Promise<void> {
     try {
-      const services = await this.docker.listServices({
-        filters: {
-          name: ["ide-"],
-        },
-      });
+      const services = await this.runtime.listServices("ide-");
 
       for (const service of services) {
-        const containerId = service.Spec?.Name?.replace("ide-", "") || "";
+        const containerId = service.name.replace("ide-", "");
         if (containerId) {
           this.containerIdService.markIdAsUsed(containerId);
         }
@@ -429,48 +324,11 @@ export class ContainerService {
     const serviceName = `ide-${containerId}`;
 
     try {
-      // Get tasks for this service
-      const allTasks = await this.docker.listTasks({
-        filters: {
-          service: [serviceName],
-        },
+      return await this.runtime.getServiceLogs(serviceName, {
+        tail: options?.tail || 100,
+        follow: options?.follow === true,
+        timestamps: options?.timestamps !== false,
       });
-
-      if (allTasks.length === 0) {
-        throw new Error("No tasks found for service");
-      }
-
-      // Get the most recent task
-      const task = allTasks[0];
-      const taskContainerId = task.Status?.ContainerStatus?.ContainerID;
-
-      if (!taskContainerId) {
-        throw new Error("No container ID found for task");
-      }
-
-      const container = this.docker.getContainer(taskContainerId);
-
-      // Handle follow parameter properly for TypeScript
-      let logStream: unknown;
-      if (options?.follow === true) {
-        logStream = await container.logs({
-          stdout: true,
-          stderr: true,
-          follow: true,
-          tail: options?.tail || 100,
-          timestamps: options?.timestamps !== false,
-        });
-      } else {
-        logStream = await container.logs({
-          stdout: true,
-          stderr: true,
-          follow: false,
-          tail: options?.tail || 100,
-          timestamps: options?.timestamps !== false,
-        });
-      }
-
-      return logStream as NodeJS.ReadableStream;
     } catch (error) {
       throw dockerError(
         error instanceof Error ? error : new Error(String(error))
@@ -489,6 +347,7 @@ export class ContainerService {
       region?: string;
       accessKeyId?: string;
       secretAccessKey?: string;
+      networkPolicy?: NetworkPolicy;
     }
   ): Promise<void> {
     try {
@@ -498,14 +357,13 @@ export class ContainerService {
         throw new Error(`Container ${containerId} not found`);
       }
 
-      // Construct the web server URL (port 3000)
-      // For internal Docker network calls, use the container service name directly
-      // This avoids going through Traefik and is more reliable for internal API calls
+      // Call the web server (port 3000) over the internal network rather than
+      // through Traefik; this is more reliable for internal API calls
       const serviceName = `ide-${containerId}`;
-      const webServerUrl = `http://${serviceName}:3000`;
+      const webServerPort = 3000;
       
       console.log(
-        `[ContainerService] Assigning S3 bucket ${s3Config.bucket} to container ${containerId} via ${webServerUrl}/assign-s3-bucket`
+        `[ContainerService] Assigning S3 bucket ${s3Config.bucket} to container ${containerId} via ${serviceName}:${webServerPort}/assign-s3-bucket`
       );
       
       // Wait for web server to be ready (with retries)
@@ -525,7 +383,7 @@ export class ContainerService {
           const controller = new AbortController();
           timeoutId = setTimeout(() => controller.abort(), 2000);
           
-          const healthCheck = await fetch(`${webServerUrl}/health`, {
+          const healthCheck = await this.runtime.requestService(serviceName, webServerPort, "/health", {
             method: "GET",
             signal: controller.signal,
           });
@@ -578,7 +436,7 @@ export class ContainerService {
       }
 
       // Call the /assign-s3-bucket endpoint (even if health check failed)
-      const response = await fetch(`${webServerUrl}/assign-s3-bucket`, {
+      const response = await this.runtime.requestService(serviceName, webServerPort, "/assign-s3-bucket", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -589,6 +447,7 @@ export class ContainerService {
           region: s3Config.region || "us-east-1",
           accessKeyId: s3Config.accessKeyId,
           secretAccessKey: s3Config.secretAccessKey,
+          networkPolicy: s3Config.networkPolicy,
         }),
       });
 
@@ -602,6 +461,7 @@ export class ContainerService {
       const result = (await response.json()) as {
         status?: string;
         error?: string;
+        networkPolicy?: { status?: string; error?: string };
       };
       if (result.status !== "success" && result.status !== "already_assigned") {
         throw new Error(
@@ -609,6 +469,21 @@ export class ContainerService {
         );
       }
 
+      // A restricted container must never be handed out with open egress;
+      // the caller falls back to a container that applies the policy at boot
+      if (s3Config.networkPolicy && s3Config.networkPolicy.mode !== "full") {
+        if (result.networkPolicy?.status !== "applied") {
+          throw new Error(
+            `Network policy "${s3Config.networkPolicy.mode}" was not applied: ${
+              result.networkPolicy?.error || "container did not confirm the policy"
+            }`
+          );
+        }
+        console.log(
+          `[ContainerService] Applied network policy "${s3Config.networkPolicy.mode}" to container ${containerId}`
+        );
+      }
+
       console.log(
         `[ContainerService] Successfully assigned S3 bucket ${s3Config.bucket} to container ${containerId}`
       );
@@ -628,7 +503,7 @@ export class ContainerService {
           const controller = new AbortController();
           syncTimeoutId = setTimeout(() => controller.abort(), 2000);
 
-          const syncResponse = await fetch(`${webServerUrl}/sync-status`, {
+          const syncResponse = await this.runtime.requestService(serviceName, webServerPort, "/sync-status", {
             method: "GET",
             signal: controller.signal,
           });
@@ -678,18 +553,31 @@ export class ContainerService {
     }
   }
 
+  private toContainerInfo(
+    containerId: string,
+    service: RuntimeService
+  ): ContainerInfo {
+    // Extract domain from labels
+    const domain = this.traefikService.extractDomainFromLabels(service.labels);
+    const urls = this.traefikService.generateServiceUrls(containerId, domain);
+    const vncEnabled = !service.env.includes("VNC_ENABLED=false");
+
+    return {
+      id: containerId,
+      serviceName: service.name,
+      status: service.state === "exited" ? "failed" : service.state,
+      urls: vncEnabled ? urls : { ...urls, vnc: "" },
+      s3Bucket: this.extractS3Bucket(service.env),
+      createdAt: service.createdAt,
+    };
+  }
+
   /**
    * Extract S3 bucket from service environment variables
    */
-  private extractS3BucketFromService(service: Record<string, unknown>): string {
-    const spec = (
-      service as {
-        Spec?: { TaskTemplate?: { ContainerSpec?: { Env?: string[] } } };
-      }
-    ).Spec;
-    const env = spec?.TaskTemplate?.ContainerSpec?.Env || [];
+  private extractS3Bucket(env: string[]): string {
     for (const envVar of env) {
-      if (typeof envVar === "string" && envVar.startsWith("S3_BUCKET=")) {
+      if (envVar.startsWith("S3_BUCKET=")) {
         return envVar.replace("S3_BUCKET=", "");
       }
     }
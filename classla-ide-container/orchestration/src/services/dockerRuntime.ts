@@ -0,0 +1,183 @@
+import Docker from "dockerode";
+import {
+  ContainerRuntime,
+  RuntimeLogOptions,
+  RuntimeService,
+  RuntimeServiceSpec,
+  ServiceNotFoundError,
+  isDockerNotFound,
+  probeUrlOverNetwork,
+  requestServiceOverNetwork,
+} from "./containerRuntime";
+
+/**
+ * DockerContainerRuntime - Runs each IDE container as a plain Docker
+ * container on a single host
+ *
+ * For dev boxes without Swarm. Containers are named after the service and
+ * joined to the IDE network under that name, so Traefik's Docker provider
+ * and internal calls reach them the same way as Swarm services.
+ */
+export class DockerContainerRuntime implements ContainerRuntime {
+  readonly driver = "docker" as const;
+  private docker: Docker;
+  private diskQuotas: boolean; // Needs overlay2 on xfs with pquota, so it's opt-in
+
+  constructor(docker: Docker, diskQuotas = false) {
+    this.docker = docker;
+    this.diskQuotas = diskQuotas;
+  }
+
+  async ping(): Promise<void> {
+    await this.docker.ping();
+  }
+
+  async createService(spec: RuntimeServiceSpec): Promise<void> {
+    const container = await this.docker.createContainer({
+      name: spec.name,
+      Image: spec.image,
+      Env: spec.env,
+      Labels: spec.labels, // Traefik's Docker provider reads container labels
+      HostConfig: {
+        NanoCpus: spec.cpuLimit * 1000000000, // Convert cores to NanoCPUs
+        Memory: spec.memoryLimitBytes,
+        ...(spec.diskLimitBytes && this.diskQuotas
+          ? { StorageOpt: { size: `${spec.diskLimitBytes}` } }
+          : {}),
+        ...(spec.capAdd ? { CapAdd: spec.capAdd } : {}),
+        RestartPolicy: {
+          Name: "on-failure",
+          MaximumRetryCount: spec.restartMaxAttempts,
+        },
+        NetworkMode: spec.network,
+        LogConfig: {
+          Type: "json-file",
+          Config: {
+            "max-size": "10m",
+            "max-file": "5",
+          },
+        },
+      },
+      NetworkingConfig: {
+        EndpointsConfig: {
+          [spec.network]: {
+            Aliases: [spec.name],
+          },
+        },
+      },
+    });
+
+    try {
+      await container.start();
+    } catch (error) {
+      // Don't leave a created-but-never-started container behind
+      await container.remove({ force: true }).catch(() => {});
+      throw error;
+    }
+  }
+
+  async removeService(name: string): Promise<void> {
+    try {
+      await this.docker.getContainer(name).remove({ force: true });
+    } catch (error) {
+      if (isDockerNotFound(error)) {
+        throw new ServiceNotFoundError(name);
+      }
+      throw error;
+    }
+  }
+
+  async inspectService(name: string): Promise<RuntimeService | null> {
+    try {
+      const inspect = await this.docker.getContainer(name).inspect();
+      return this.toRuntimeService(inspect);
+    } catch (error) {
+      if (isDockerNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listServices(namePrefix: string): Promise<RuntimeService[]> {
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: {
+        name: [namePrefix],
+      },
+    });
+
+    // The name filter matches anywhere in the name; list output also lacks
+    // the environment, so inspect each matching container
+    const names = containers
+      .map((container) => (container.Names[0] || "").replace(/^\//, ""))
+      .filter((name) => name.startsWith(namePrefix));
+    const services = await Promise.all(
+      names.map((name) => this.inspectService(name))
+    );
+    return services.filter(
+      (service): service is RuntimeService => service !== null
+    );
+  }
+
+  async getServiceLogs(
+    name: string,
+    options: RuntimeLogOptions
+  ): Promise<NodeJS.ReadableStream> {
+    const container = this.docker.getContainer(name);
+
+    // Handle follow parameter properly for TypeScript
+    let logStream: unknown;
+    if (options.follow) {
+      logStream = await container.logs({
+        stdout: true,
+        stderr: true,
+        follow: true,
+        tail: options.tail,
+        timestamps: options.timestamps,
+      });
+    } else {
+      logStream = await container.logs({
+        stdout: true,
+        stderr: true,
+        follow: false,
+        tail: options.tail,
+        timestamps: options.timestamps,
+      });
+    }
+
+    return logStream as NodeJS.ReadableStream;
+  }
+
+  probeUrl(url: string, timeoutMs: number): Promise<number> {
+    return probeUrlOverNetwork(url, timeoutMs);
+  }
+
+  requestService(
+    name: string,
+    port: number,
+    path: string,
+    init?: RequestInit
+  ): Promise<Response> {
+    return requestServiceOverNetwork(name, port, path, init);
+  }
+
+  private toRuntimeService(
+    inspect: Docker.ContainerInspectInfo
+  ): RuntimeService {
+    let state: RuntimeService["state"] = "running";
+    if (inspect.State.Restarting || inspect.State.Status === "created") {
+      state = "starting";
+    } else if (!inspect.State.Running) {
+      state = "exited";
+    }
+
+    return {
+      name: inspect.Name.replace(/^\//, ""),
+      state,
+      env: inspect.Config.Env || [],
+      labels: inspect.Config.Labels || {},
+      createdAt: new Date(inspect.Created),
+    };
+  }
+}
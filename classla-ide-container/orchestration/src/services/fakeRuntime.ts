@@ -0,0 +1,223 @@
+import { Readable } from "stream";
+import { NetworkPolicy } from "./containerService";
+import {
+  ContainerRuntime,
+  RuntimeLogOptions,
+  RuntimeService,
+  RuntimeServiceSpec,
+  ServiceNotFoundError,
+} from "./containerRuntime";
+
+export interface FakeContainerRuntimeOptions {
+  startupDelayMs: number; // How long a new service stays "starting"
+}
+
+const DEFAULT_OPTIONS: FakeContainerRuntimeOptions = {
+  startupDelayMs: 2000,
+};
+
+// Port of the web server inside each IDE container
+const WEB_SERVER_PORT = 3000;
+
+interface FakeService extends RuntimeService {
+  spec: RuntimeServiceSpec;
+  assignedBucket?: string;
+  networkPolicy?: NetworkPolicy; // Policy the container applied, once per container
+}
+
+/**
+ * FakeContainerRuntime - In-memory runtime with no Docker at all
+ *
+ * Services become "running" after a short startup delay. probeUrl plays
+ * Traefik (routes answer once their container is running) and
+ * requestService plays the container's web server, so the full lifecycle -
+ * pre-warming, health checks, S3 assignment, cleanup - can run locally and
+ * in integration tests. Use simulateExit() to make a service crash.
+ */
+export class FakeContainerRuntime implements ContainerRuntime {
+  readonly driver = "fake" as const;
+  private options: FakeContainerRuntimeOptions;
+  private services = new Map<string, FakeService>();
+
+  constructor(options: Partial<FakeContainerRuntimeOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  async createService(spec: RuntimeServiceSpec): Promise<void> {
+    if (this.services.has(spec.name)) {
+      throw new Error(`Service ${spec.name} already exists`);
+    }
+    this.services.set(spec.name, {
+      spec,
+      name: spec.name,
+      state: "starting",
+      env: [...spec.env],
+      labels: { ...spec.labels },
+      createdAt: new Date(),
+      networkPolicy: this.getBootNetworkPolicy(spec.env),
+    });
+  }
+
+  async removeService(name: string): Promise<void> {
+    if (!this.services.delete(name)) {
+      throw new ServiceNotFoundError(name);
+    }
+  }
+
+  async inspectService(name: string): Promise<RuntimeService | null> {
+    const service = this.getService(name);
+    return service ? this.toRuntimeService(service) : null;
+  }
+
+  async listServices(namePrefix: string): Promise<RuntimeService[]> {
+    return Array.from(this.services.keys())
+      .filter((name) => name.startsWith(namePrefix))
+      .map((name) => this.toRuntimeService(this.getService(name)!));
+  }
+
+  async getServiceLogs(
+    name: string,
+    options: RuntimeLogOptions
+  ): Promise<NodeJS.ReadableStream> {
+    const service = this.getService(name);
+    if (!service) {
+      throw new ServiceNotFoundError(name);
+    }
+    const prefix = options.timestamps ? `${service.createdAt.toISOString()} ` : "";
+    return Readable.from([
+      `${prefix}[fake] ${name} created from ${service.spec.image}\n`,
+      `${prefix}[fake] ${name} is ${service.state}\n`,
+    ]);
+  }
+
+  async probeUrl(url: string): Promise<number> {
+    // Routes look like <origin>/<code|vnc|web|terminal>/<containerId>
+    const [, containerId] = new URL(url).pathname.split("/").filter(Boolean);
+    const service = Array.from(this.services.keys())
+      .map((name) => this.getService(name)!)
+      .find((candidate) => candidate.labels["ide.container.id"] === containerId);
+
+    // 404 is what Traefik answers until the route is active
+    return service?.state === "running" ? 200 : 404;
+  }
+
+  async requestService(
+    name: string,
+    port: number,
+    path: string,
+    init?: RequestInit
+  ): Promise<Response> {
+    const service = this.getService(name);
+    if (!service || service.state !== "running" || port !== WEB_SERVER_PORT) {
+      // Same failure fetch reports for a refused connection
+      throw new TypeError("fetch failed");
+    }
+
+    const method = (init?.method || "GET").toUpperCase();
+    if (method === "GET" && path === "/health") {
+      return this.json({ status: "ok" });
+    }
+    if (method === "GET" && path === "/sync-status") {
+      return this.json({ status: "ready" });
+    }
+    if (method === "POST" && path === "/assign-s3-bucket") {
+      const body = JSON.parse(String(init?.body || "{}")) as {
+        bucket?: string;
+        networkPolicy?: NetworkPolicy;
+      };
+      const networkPolicy = body.networkPolicy
+        ? this.applyNetworkPolicy(service, body.networkPolicy)
+        : null;
+      if (service.assignedBucket) {
+        return this.json({ status: "already_assigned", networkPolicy });
+      }
+      service.assignedBucket = body.bucket;
+      return this.json({ status: "success", networkPolicy });
+    }
+    if (method === "POST" && (path === "/write-file" || path === "/run")) {
+      return this.json({ status: "success" });
+    }
+    return this.json({ error: `Not found: ${method} ${path}` }, 404);
+  }
+
+  /**
+   * Make a service exit, as if the container crashed
+   */
+  simulateExit(name: string): void {
+    const service = this.services.get(name);
+    if (!service) {
+      throw new ServiceNotFoundError(name);
+    }
+    service.state = "exited";
+  }
+
+  /**
+   * Apply a policy the way the container's network-policy.sh does: the
+   * first policy sticks and any different one later is reported as failed
+   */
+  private applyNetworkPolicy(
+    service: FakeService,
+    policy: NetworkPolicy
+  ): { status: "applied" | "failed"; error?: string } {
+    if (!service.networkPolicy) {
+      service.networkPolicy = policy;
+    }
+    const applied = service.networkPolicy;
+    const sameAllowlist =
+      [...(applied.allowlist || [])].sort().join(",") ===
+      [...(policy.allowlist || [])].sort().join(",");
+    if (applied.mode !== policy.mode || !sameAllowlist) {
+      return {
+        status: "failed",
+        error: `container already has network policy ${applied.mode}`,
+      };
+    }
+    return { status: "applied" };
+  }
+
+  private getBootNetworkPolicy(env: string[]): NetworkPolicy | undefined {
+    const read = (key: string) =>
+      env.find((entry) => entry.startsWith(`${key}=`))?.slice(key.length + 1);
+    const mode = read("NETWORK_POLICY");
+    if (mode !== "none" && mode !== "allowlist") {
+      return undefined;
+    }
+    const allowlist = read("NETWORK_ALLOWLIST");
+    return allowlist ? { mode, allowlist: allowlist.split(",") } : { mode };
+  }
+
+  /**
+   * Look up a service, moving it to "running" once its startup delay passed
+   */
+  private getService(name: string): FakeService | undefined {
+    const service = this.services.get(name);
+    if (
+      service?.state === "starting" &&
+      Date.now() - service.createdAt.getTime() >= this.options.startupDelayMs
+    ) {
+      service.state = "running";
+    }
+    return service;
+  }
+
+  private toRuntimeService(service: FakeService): RuntimeService {
+    return {
+      name: service.name,
+      state: service.state,
+      env: [...service.env],
+      labels: { ...service.labels },
+      createdAt: service.createdAt,
+    };
+  }
+
+  private json(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -1,10 +1,8 @@
 import axios from "axios";
-import https from "https";
 import { ContainerService } from "./containerService";
 import { StateManager } from "./stateManager";
 import { ContainerStatsService } from "./containerStatsService";
 import { ResourceMonitor, SystemResources } from "./resourceMonitor";
-import { config } from "../config/index";
 
 export interface HealthCheckResult {
   status: "healthy" | "unhealthy" | "starting";
@@ -239,15 +237,20 @@ export class HealthMonitor {
     // Check code-server first and in parallel with others
     const codeServerCheck = this.checkServiceReachability(urls.codeServer, true, timeout);
     
+    // Containers whose resource profile has no desktop have an empty VNC URL
+    const vncCheck = urls.vnc
+      ? this.checkServiceReachability(urls.vnc, false, timeout)
+      : Promise.resolve(true);
+
     // For starting containers, we can be more lenient with VNC and web server
     // They can start a bit later, but code-server is critical
     const otherChecks = isStarting 
       ? Promise.all([
-          this.checkServiceReachability(urls.vnc, false, timeout).catch(() => false),
+          vncCheck.catch(() => false),
           this.checkServiceReachability(urls.webServer, false, timeout).catch(() => false),
         ])
       : Promise.all([
-          this.checkServiceReachability(urls.vnc, false, timeout),
+          vncCheck,
           this.checkServiceReachability(urls.webServer, false, timeout),
         ]);
     
@@ -461,41 +464,27 @@ export class HealthMonitor {
     }
     
     try {
-      // In local mode, disable SSL certificate validation to handle self-signed certs
-      const axiosConfig: any = {
-        timeout,
-        validateStatus: () => true, // Accept all status codes so we can check them
-        maxRedirects: 5, // Follow redirects (HTTP to HTTPS, etc.)
-      };
-      
-      // For local development, disable SSL verification if using HTTPS or localhost
-      if (config.nodeEnv === "local" || finalUrl.includes("localhost") || finalUrl.includes("ide-local_traefik")) {
-        axiosConfig.httpsAgent = new https.Agent({
-          rejectUnauthorized: false,
-        });
-      }
-      
-      const response = await axios.get(finalUrl, axiosConfig);
+      const status = await this.containerService.runtime.probeUrl(finalUrl, timeout);
       
       // For code-server root path, accept 200 (OK), 302 (redirect), or 401 (auth required)
       // 404 means Traefik routing isn't working yet - container not ready
       if (isCodeServer) {
-        const isHealthy = response.status === 200 || response.status === 302 || response.status === 401;
+        const isHealthy = status === 200 || status === 302 || status === 401;
         // Always log the check result for debugging
         if (isHealthy) {
           console.log(
-            `[HealthMonitor] ✅ Code-server route at ${finalUrl} is accessible (status: ${response.status})`
+            `[HealthMonitor] ✅ Code-server route at ${finalUrl} is accessible (status: ${status})`
           );
         } else {
           // Log 404 specifically as it means routing isn't ready
-          if (response.status === 404) {
+          if (status === 404) {
             console.log(
               `[HealthMonitor] ⏳ Code-server route at ${finalUrl} not ready yet (404 - Traefik routing not active)`
             );
-          } else if (response.status !== 301) {
+          } else if (status !== 301) {
             // Don't log 301 as it's just a redirect
             console.warn(
-              `[HealthMonitor] Code-server route at ${finalUrl} returned status ${response.status} (unhealthy - expected 200, 302, or 401)`
+              `[HealthMonitor] Code-server route at ${finalUrl} returned status ${status} (unhealthy - expected 200, 302, or 401)`
             );
           }
         }
@@ -504,14 +493,14 @@ export class HealthMonitor {
       
       // For other services (VNC, web server), accept 200-499
       // 5xx errors indicate service is not available
-      const isReachable = response.status >= 200 && response.status < 500;
+      const isReachable = status >= 200 && status < 500;
       if (!isReachable) {
         console.warn(
-          `[HealthMonitor] Service at ${url} returned status ${response.status} (not reachable - expected 200-499)`
+          `[HealthMonitor] Service at ${url} returned status ${status} (not reachable - expected 200-499)`
         );
       } else {
         console.log(
-          `[HealthMonitor] Service at ${url} is reachable (status: ${response.status})`
+          `[HealthMonitor] Service at ${url} is reachable (status: ${status})`
         );
       }
       return isReachable;
@@ -1,4 +1,8 @@
 export { ContainerService } from "./containerService";
+export { ServiceNotFoundError } from "./containerRuntime";
+export { SwarmContainerRuntime } from "./swarmRuntime";
+export { DockerContainerRuntime } from "./dockerRuntime";
+export { FakeContainerRuntime } from "./fakeRuntime";
 export { TraefikService } from "./traefikService";
 export { ContainerIdService } from "./containerIdService";
 export { StateManager } from "./stateManager";
@@ -10,6 +14,14 @@ export type {
   ContainerInfo,
   ContainerFilter,
 } from "./containerService";
+export type {
+  ContainerRuntime,
+  ContainerRuntimeDriver,
+  RuntimeService,
+  RuntimeServiceSpec,
+  RuntimeLogOptions,
+} from "./containerRuntime";
+export type { FakeContainerRuntimeOptions } from "./fakeRuntime";
 export type { TraefikLabels } from "./traefikService";
 export type {
   ContainerMetadata,
@@ -30,4 +42,12 @@ export type {
   ContainerQueueState,
 } from "./queueManager";
 export { QueueMaintainer } from "./queueMaintainer";
+export { PrewarmScheduler } from "./prewarmScheduler";
+export type {
+  DemandEvent,
+  ForecastPoint,
+  TargetSample,
+  PrewarmForecast,
+  PrewarmSchedulerOptions,
+} from "./prewarmScheduler";
 export { ContainerCleanupService } from "./containerCleanupService";
@@ -427,7 +427,6 @@ export class LoadTestService extends EventEmitter {
    */
   private async waitForContainerReady(containerId: string): Promise<number> {
     const serviceName = `ide-${containerId}`;
-    const webServerUrl = `http://${serviceName}:3000`;
     const maxRetries = 60; // 60 seconds max wait
     const retryDelay = 1000;
 
@@ -436,7 +435,7 @@ export class LoadTestService extends EventEmitter {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 2000);
 
-        const response = await fetch(`${webServerUrl}/health`, {
+        const response = await this.containerService.runtime.requestService(serviceName, 3000, "/health", {
           method: "GET",
           signal: controller.signal,
         });
@@ -466,10 +465,10 @@ export class LoadTestService extends EventEmitter {
     timeout: number
   ): Promise<void> {
     const serviceName = `ide-${containerId}`;
-    const webServerUrl = `http://${serviceName}:3000`;
+    const runtime = this.containerService.runtime;
 
     // First, write the test code file to the container's workspace
-    const writeResponse = await fetch(`${webServerUrl}/write-file`, {
+    const writeResponse = await runtime.requestService(serviceName, 3000, "/write-file", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -500,7 +499,7 @@ export class LoadTestService extends EventEmitter {
     const timeoutId = setTimeout(() => controller.abort(), timeout * 1000);
 
     try {
-      const runResponse = await fetch(`${webServerUrl}/run`, {
+      const runResponse = await runtime.requestService(serviceName, 3000, "/run", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
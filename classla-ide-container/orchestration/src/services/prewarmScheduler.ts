@@ -0,0 +1,306 @@
+import { StateManager } from "./stateManager";
+
+/**
+ * A predictable burst of IDE starts, as reported by the backend's
+ * /ide-demand/schedule endpoint
+ */
+export interface DemandEvent {
+  kind: "class_meeting" | "due_date";
+  course_id: string;
+  assignment_id?: string;
+  starts_at: string;
+  ends_at: string;
+  expected_users: number;
+}
+
+export interface ForecastPoint {
+  at: string;
+  scheduledStarts: number; // Expected starts in the replenish window from the schedule
+  historicalStarts: number; // Same, from the start rate in past weeks
+  target: number;
+}
+
+export interface TargetSample {
+  at: string;
+  target: number;
+  actual: number;
+}
+
+export interface PrewarmForecast {
+  minSize: number;
+  maxSize: number;
+  current: ForecastPoint;
+  hourly: ForecastPoint[]; // Next 24 hours
+  history: TargetSample[]; // Target vs actual pre-warmed, last 24 hours
+  upcomingEvents: DemandEvent[];
+  scheduleFetchedAt: string | null;
+  scheduleError: string | null;
+}
+
+export interface PrewarmSchedulerOptions {
+  minSize: number;
+  maxSize: number;
+  backendApiUrl?: string;
+  serviceToken?: string;
+  refreshIntervalMs: number; // How often the schedule is pulled from the backend
+  replenishWindowMs: number; // Roughly how long a new container takes to join the pool
+  meetingParticipation: number; // Share of enrolled students that open an IDE in class
+  meetingArrivalLeadMs: number; // Class arrivals start this long before the meeting...
+  meetingArrivalTrailMs: number; // ...and end this long after it starts
+  dueDateParticipation: number; // Share of students with a due date that work in the last hour
+  historyWeeks: number; // Weeks of start history used for the weekly pattern
+}
+
+const DEFAULT_OPTIONS: PrewarmSchedulerOptions = {
+  minSize: 10,
+  maxSize: 30,
+  refreshIntervalMs: 5 * 60 * 1000,
+  replenishWindowMs: 10 * 60 * 1000,
+  meetingParticipation: 0.6,
+  meetingArrivalLeadMs: 15 * 60 * 1000,
+  meetingArrivalTrailMs: 15 * 60 * 1000,
+  dueDateParticipation: 0.5,
+  historyWeeks: 4,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+const HOURS_PER_WEEK = 7 * 24;
+const FORECAST_HOURS = 24;
+const SCHEDULE_FETCH_TIMEOUT_MS = 15000;
+
+/**
+ * PrewarmScheduler - Decides how many pre-warmed containers to keep
+ *
+ * The pool should hold enough containers to cover the starts expected before
+ * new ones can be spawned. Expected starts come from two sources, and the
+ * larger one wins:
+ * - The schedule: class meetings and IDE assignment due dates, pulled from
+ *   the backend
+ * - History: the average start rate for the same hour of the week
+ *
+ * The target is kept between minSize and maxSize. QueueMaintainer applies it.
+ */
+export class PrewarmScheduler {
+  private stateManager: StateManager;
+  private options: PrewarmSchedulerOptions;
+  private refreshInterval: NodeJS.Timeout | null = null;
+  private events: DemandEvent[] = [];
+  private scheduleFetchedAt: Date | null = null;
+  private scheduleError: string | null = null;
+  private history: TargetSample[] = [];
+
+  constructor(
+    stateManager: StateManager,
+    options: Partial<PrewarmSchedulerOptions> = {}
+  ) {
+    this.stateManager = stateManager;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    if (this.options.maxSize < this.options.minSize) {
+      this.options.maxSize = this.options.minSize;
+    }
+  }
+
+  /**
+   * Start pulling the schedule from the backend
+   */
+  start(): void {
+    if (this.refreshInterval) {
+      return;
+    }
+
+    this.refreshSchedule().catch((error) => {
+      console.error("[PrewarmScheduler] Error in initial schedule refresh:", error);
+    });
+    this.refreshInterval = setInterval(() => {
+      this.refreshSchedule().catch((error) => {
+        console.error("[PrewarmScheduler] Error refreshing schedule:", error);
+      });
+    }, this.options.refreshIntervalMs);
+  }
+
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  /**
+   * Pull upcoming demand events from the backend. On failure the last
+   * known schedule is kept.
+   */
+  async refreshSchedule(): Promise<void> {
+    const { backendApiUrl, serviceToken } = this.options;
+    if (!backendApiUrl || !serviceToken) {
+      this.scheduleError =
+        "BACKEND_API_URL or CONTAINER_SERVICE_TOKEN not set; using start history only";
+      return;
+    }
+
+    const from = new Date();
+    const to = new Date(from.getTime() + (FORECAST_HOURS + 1) * HOUR_MS);
+    const url = `${backendApiUrl}/ide-demand/schedule?from=${encodeURIComponent(
+      from.toISOString()
+    )}&to=${encodeURIComponent(to.toISOString())}`;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), SCHEDULE_FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, {
+        headers: { "x-container-service-token": serviceToken },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Schedule request failed with status ${response.status}`);
+      }
+      const body = (await response.json()) as { events?: DemandEvent[] };
+      this.events = body.events || [];
+      this.scheduleFetchedAt = new Date();
+      this.scheduleError = null;
+      console.log(
+        `[PrewarmScheduler] Loaded ${this.events.length} demand event(s) for the next ${FORECAST_HOURS}h`
+      );
+    } catch (error) {
+      this.scheduleError = error instanceof Error ? error.message : String(error);
+      console.warn(`[PrewarmScheduler] Failed to refresh schedule: ${this.scheduleError}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    // Keep one extra week of start history beyond what the forecast reads
+    this.stateManager.pruneContainerStarts(
+      new Date(Date.now() - (this.options.historyWeeks + 1) * WEEK_MS)
+    );
+  }
+
+  /**
+   * Target number of pre-warmed containers right now
+   */
+  getTargetSize(now: Date = new Date()): number {
+    return this.forecastAt(now, this.getWeeklyStartRates(now)).target;
+  }
+
+  /**
+   * Remember the target and the actual pool size, for the dashboard
+   */
+  recordSample(target: number, actual: number, at: Date = new Date()): void {
+    this.history.push({ at: at.toISOString(), target, actual });
+    const cutoff = at.getTime() - FORECAST_HOURS * HOUR_MS;
+    while (this.history.length > 0 && new Date(this.history[0].at).getTime() < cutoff) {
+      this.history.shift();
+    }
+  }
+
+  getForecast(now: Date = new Date()): PrewarmForecast {
+    const weeklyRates = this.getWeeklyStartRates(now);
+    const firstHour = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS + HOUR_MS;
+    const hourly: ForecastPoint[] = [];
+    for (let i = 0; i < FORECAST_HOURS; i++) {
+      hourly.push(this.forecastAt(new Date(firstHour + i * HOUR_MS), weeklyRates));
+    }
+
+    return {
+      minSize: this.options.minSize,
+      maxSize: this.options.maxSize,
+      current: this.forecastAt(now, weeklyRates),
+      hourly,
+      history: [...this.history],
+      upcomingEvents: this.events.filter((event) => new Date(event.ends_at) > now),
+      scheduleFetchedAt: this.scheduleFetchedAt?.toISOString() ?? null,
+      scheduleError: this.scheduleError,
+    };
+  }
+
+  /**
+   * Expected starts in the replenish window beginning at `at`, and the
+   * resulting target
+   */
+  private forecastAt(at: Date, weeklyRates: number[]): ForecastPoint {
+    const windowStart = at.getTime();
+    const windowEnd = windowStart + this.options.replenishWindowMs;
+
+    let scheduledStarts = 0;
+    for (const event of this.events) {
+      const [arrivalStart, arrivalEnd, participation] = this.getArrivalWindow(event);
+      const overlap = Math.min(windowEnd, arrivalEnd) - Math.max(windowStart, arrivalStart);
+      if (overlap > 0) {
+        scheduledStarts +=
+          (event.expected_users * participation * overlap) / (arrivalEnd - arrivalStart);
+      }
+    }
+
+    let historicalStarts = 0;
+    for (let t = windowStart; t < windowEnd; ) {
+      const hourEnd = (Math.floor(t / HOUR_MS) + 1) * HOUR_MS;
+      const sliceEnd = Math.min(hourEnd, windowEnd);
+      historicalStarts += (weeklyRates[hourOfWeek(t)] * (sliceEnd - t)) / HOUR_MS;
+      t = sliceEnd;
+    }
+
+    const expected = Math.max(scheduledStarts, historicalStarts);
+    const target = Math.min(
+      this.options.maxSize,
+      Math.max(this.options.minSize, Math.ceil(expected))
+    );
+
+    return {
+      at: at.toISOString(),
+      scheduledStarts: round(scheduledStarts),
+      historicalStarts: round(historicalStarts),
+      target,
+    };
+  }
+
+  /**
+   * When the starts for an event arrive, and what share of users start
+   */
+  private getArrivalWindow(event: DemandEvent): [number, number, number] {
+    const startsAt = new Date(event.starts_at).getTime();
+    if (event.kind === "class_meeting") {
+      return [
+        startsAt - this.options.meetingArrivalLeadMs,
+        startsAt + this.options.meetingArrivalTrailMs,
+        this.options.meetingParticipation,
+      ];
+    }
+    // Due date events already cover the ramp-up before the deadline
+    return [
+      startsAt,
+      Math.max(new Date(event.ends_at).getTime(), startsAt + 1),
+      this.options.dueDateParticipation,
+    ];
+  }
+
+  /**
+   * Average starts per hour for each hour of the week (UTC), over the
+   * weeks of history available
+   */
+  private getWeeklyStartRates(now: Date): number[] {
+    const since = new Date(now.getTime() - this.options.historyWeeks * WEEK_MS);
+    const buckets = this.stateManager.getContainerStartsByHour(since);
+    const rates = new Array<number>(HOURS_PER_WEEK).fill(0);
+    if (buckets.length === 0) {
+      return rates;
+    }
+
+    // A young database shouldn't dilute its only week over historyWeeks
+    const weeks = Math.min(
+      this.options.historyWeeks,
+      Math.max(1, Math.ceil((now.getTime() - buckets[0].hourStart) / WEEK_MS))
+    );
+    for (const bucket of buckets) {
+      rates[hourOfWeek(bucket.hourStart)] += bucket.count / weeks;
+    }
+    return rates;
+  }
+}
+
+function hourOfWeek(timestamp: number): number {
+  const date = new Date(timestamp);
+  return date.getUTCDay() * 24 + date.getUTCHours();
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -3,9 +3,8 @@ import { ContainerService } from "./containerService";
 import { StateManager } from "./stateManager";
 import { ResourceMonitor } from "./resourceMonitor";
 import { HealthMonitor } from "./healthMonitor";
+import { PrewarmScheduler } from "./prewarmScheduler";
 import { config } from "../config/index";
-import axios from "axios";
-import https from "https";
 
 /**
  * QueueMaintainer - Background service that maintains the pre-warmed container queue
@@ -15,6 +14,8 @@ import https from "https";
  * - Spawns new pre-warmed containers when queue is below target
  * - Handles container failures (removes from queue, spawns replacement)
  * - Runs periodically to ensure queue stays at target size
+ * - Moves the target with PrewarmScheduler's forecast, stopping a few excess
+ *   pre-warmed containers per check when demand drops
  */
 export class QueueMaintainer {
   private queueManager: QueueManager;
@@ -26,19 +27,23 @@ export class QueueMaintainer {
   private isRunning = false;
   private checkIntervalMs: number = 30000; // Check every 30 seconds
   private isMaintaining = false; // Lock to prevent concurrent maintenance
+  private prewarmScheduler: PrewarmScheduler;
+  private maxScaleDownPerCheck = 3; // Shrink gradually in case demand comes back
 
   constructor(
     queueManager: QueueManager,
     containerService: ContainerService,
     stateManager: StateManager,
     resourceMonitor: ResourceMonitor,
-    healthMonitor: HealthMonitor
+    healthMonitor: HealthMonitor,
+    prewarmScheduler: PrewarmScheduler
   ) {
     this.queueManager = queueManager;
     this.containerService = containerService;
     this.stateManager = stateManager;
     this.resourceMonitor = resourceMonitor;
     this.healthMonitor = healthMonitor;
+    this.prewarmScheduler = prewarmScheduler;
   }
 
   /**
@@ -183,6 +188,21 @@ export class QueueMaintainer {
       console.log("[QueueMaintainer] Syncing with Docker...");
       await this.syncWithDocker();
 
+      // Follow the forecast
+      const targetSize = this.prewarmScheduler.getTargetSize();
+      if (targetSize !== this.queueManager.getStats().targetSize) {
+        console.log(
+          `[QueueMaintainer] Target queue size changed to ${targetSize} (forecast)`
+        );
+        this.queueManager.setTargetQueueSize(targetSize);
+      }
+      this.prewarmScheduler.recordSample(targetSize, this.queueManager.getQueueSize());
+
+      const excess = this.queueManager.getQueueSize() - targetSize;
+      if (excess > 0) {
+        await this.scaleDown(Math.min(excess, this.maxScaleDownPerCheck));
+      }
+
       const containersNeeded = this.queueManager.getContainersNeeded();
       const queueSize = this.queueManager.getQueueSize();
       const stats = this.queueManager.getStats();
@@ -243,6 +263,42 @@ export class QueueMaintainer {
     }
   }
 
+  /**
+   * Stop the oldest pre-warmed containers when the pool is above target
+   */
+  private async scaleDown(count: number): Promise<void> {
+    const oldest = this.queueManager
+      .getContainersByState("pre-warmed")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, count);
+
+    console.log(
+      `[QueueMaintainer] Queue is above target, stopping ${oldest.length} pre-warmed container(s)`
+    );
+
+    for (const container of oldest) {
+      // Take it out of the queue first so it can't be handed to a student
+      this.queueManager.removeFromQueue(container.containerId);
+      try {
+        await this.containerService.stopContainer(container.containerId);
+        this.stateManager.updateContainerLifecycle(container.containerId, {
+          status: "stopped",
+          stoppedAt: new Date(),
+          shutdownReason: "scale_down",
+        });
+        console.log(
+          `[QueueMaintainer] Stopped pre-warmed container ${container.containerId} (scale down)`
+        );
+      } catch (error) {
+        console.error(
+          `[QueueMaintainer] Failed to stop pre-warmed container ${container.containerId}:`,
+          error
+        );
+        // The next sync re-adds it if it's still alive
+      }
+    }
+  }
+
   /**
    * Spawn a single pre-warmed container (without S3 bucket)
    */
@@ -302,37 +358,23 @@ export class QueueMaintainer {
             );
           }
           
-          // In local mode, disable SSL certificate validation to handle self-signed certs
-          const axiosConfig: any = {
-            timeout: 3000,
-            validateStatus: () => true, // Accept all status codes
-            maxRedirects: 5,
-          };
-          
-          // For local development, disable SSL verification if using HTTPS
-          if (config.nodeEnv === "local" || checkUrl.includes("localhost") || checkUrl.includes("ide-local_traefik")) {
-            axiosConfig.httpsAgent = new https.Agent({
-              rejectUnauthorized: false,
-            });
-          }
-          
-          const response = await axios.get(checkUrl, axiosConfig);
+          const status = await this.containerService.runtime.probeUrl(checkUrl, 3000);
           
           // Accept 200, 302 (redirect), or 401 (auth required) - means route is working
           // 404 means Traefik routing isn't ready yet
           // Note: We only verify code-server here. Web server verification happens
           // when we actually assign S3 bucket (with retries), as web server can take
           // longer to start and we don't want to delay queue population unnecessarily.
-          if (response.status === 200 || response.status === 302 || response.status === 401) {
+          if (status === 200 || status === 302 || status === 401) {
             isReady = true;
             const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
             console.log(
-              `[QueueMaintainer] ✅ Pre-warmed container ${containerInfo.id} is ready after ${elapsed}s (code-server accessible via Traefik, status: ${response.status})`
+              `[QueueMaintainer] ✅ Pre-warmed container ${containerInfo.id} is ready after ${elapsed}s (code-server accessible via Traefik, status: ${status})`
             );
             console.log(
               `[QueueMaintainer] ℹ️  Web server will be verified when S3 bucket is assigned`
             );
-          } else if (response.status === 404) {
+          } else if (status === 404) {
             if (checkCount % 5 === 0 || checkCount === 1) {
               console.log(
                 `[QueueMaintainer] ⏳ Pre-warmed container ${containerInfo.id} not ready yet (404 - Traefik routing not active), waiting...`
@@ -342,7 +384,7 @@ export class QueueMaintainer {
           } else {
             if (checkCount % 5 === 0 || checkCount === 1) {
               console.log(
-                `[QueueMaintainer] ⏳ Pre-warmed container ${containerInfo.id} returned status ${response.status}, waiting...`
+                `[QueueMaintainer] ⏳ Pre-warmed container ${containerInfo.id} returned status ${status}, waiting...`
               );
             }
             await new Promise((resolve) => setTimeout(resolve, checkInterval));
@@ -20,7 +20,7 @@ export class QueueManager {
   private targetQueueSize: number;
 
   constructor() {
-    this.targetQueueSize = config.preWarmedQueueSize;
+    this.targetQueueSize = config.preWarmedQueueMin;
   }
 
   /**
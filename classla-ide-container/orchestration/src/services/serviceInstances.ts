@@ -17,12 +17,33 @@ import { QueueMaintainer } from "./queueMaintainer";
 import { ContainerCleanupService } from "./containerCleanupService";
 import { DiscordAlertService } from "./discordAlertService";
 import { LoadTestService } from "./loadTestService";
+import { AdmissionQueue } from "./admissionQueue";
+import { PrewarmScheduler } from "./prewarmScheduler";
+import { ContainerRuntime } from "./containerRuntime";
+import { SwarmContainerRuntime } from "./swarmRuntime";
+import { DockerContainerRuntime } from "./dockerRuntime";
+import { FakeContainerRuntime } from "./fakeRuntime";
 import { config } from "../config/index";
 import Docker from "dockerode";
 
+/**
+ * Pick the container runtime driver from CONTAINER_RUNTIME
+ */
+function createContainerRuntime(docker: Docker): ContainerRuntime {
+  switch (config.containerRuntime) {
+    case "docker":
+      return new DockerContainerRuntime(docker, config.containerDiskQuotas);
+    case "fake":
+      return new FakeContainerRuntime();
+    default:
+      return new SwarmContainerRuntime(docker);
+  }
+}
+
 // Create singleton instances
 const docker = new Docker({ socketPath: config.dockerSocket });
-export const containerService = new ContainerService();
+export const containerRuntime = createContainerRuntime(docker);
+export const containerService = new ContainerService(containerRuntime);
 export const stateManager = new StateManager();
 export const resourceMonitor = new ResourceMonitor(containerService, {
   memoryPercent: config.maxMemoryPercent,
@@ -38,12 +59,19 @@ export const healthMonitor = new HealthMonitor(
 export const nodeMonitor = new NodeMonitor(docker);
 export const s3ValidationService = new S3ValidationService();
 export const queueManager = new QueueManager();
+export const prewarmScheduler = new PrewarmScheduler(stateManager, {
+  minSize: config.preWarmedQueueMin,
+  maxSize: config.preWarmedQueueMax,
+  backendApiUrl: config.backendApiUrl,
+  serviceToken: config.containerServiceToken,
+});
 export const queueMaintainer = new QueueMaintainer(
   queueManager,
   containerService,
   stateManager,
   resourceMonitor,
-  healthMonitor
+  healthMonitor,
+  prewarmScheduler
 );
 export const containerCleanupService = new ContainerCleanupService(
   containerService,
@@ -53,6 +81,9 @@ export const discordAlertService = new DiscordAlertService(
   resourceMonitor,
   containerService
 );
+export const admissionQueue = new AdmissionQueue(resourceMonitor, {
+  maxLength: config.admissionQueueMaxLength,
+});
 export const loadTestService = new LoadTestService(
   containerService,
   stateManager,
@@ -1,6 +1,7 @@
 import Database from "better-sqlite3";
 import path from "path";
 import fs from "fs";
+import type { NetworkPolicy } from "./containerService";
 
 export type ContainerStatus =
   | "starting"
@@ -12,7 +13,8 @@ export type ShutdownReason =
   | "inactivity"
   | "manual"
   | "error"
-  | "resource_limit";
+  | "resource_limit"
+  | "scale_down";
 
 interface ContainerRow {
   id: string;
@@ -58,6 +60,36 @@ export interface ContainerMetadata {
   };
 }
 
+// Where a network policy was applied: when a pre-warmed container was
+// assigned, or from the environment of a container started for the student
+export type NetworkPolicySource = "assignment" | "boot";
+export type NetworkPolicyStatus = "applied" | "requested" | "failed";
+
+interface NetworkPolicyAuditRow {
+  id: number;
+  container_id: string;
+  s3_bucket: string;
+  user_id: string | null;
+  mode: string;
+  allowlist: string | null; // JSON array
+  source: string;
+  status: string;
+  error: string | null;
+  recorded_at: number;
+}
+
+export interface NetworkPolicyAuditEntry {
+  id: number;
+  containerId: string;
+  s3Bucket: string;
+  userId?: string;
+  policy: NetworkPolicy;
+  source: NetworkPolicySource;
+  status: NetworkPolicyStatus;
+  error?: string;
+  recordedAt: Date;
+}
+
 export interface ContainerFilter {
   status?: ContainerStatus;
   limit?: number;
@@ -129,6 +161,39 @@ export class StateManager {
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_containers_stopped_at ON containers(stopped_at)
     `);
+
+    // One row per container start, used to forecast demand for pre-warming
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS container_starts (
+        started_at INTEGER NOT NULL,
+        from_queue INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_container_starts_started_at ON container_starts(started_at)
+    `);
+
+    // Audit log of network policies applied to containers. Kept separately
+    // from containers so it survives container archiving.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS network_policy_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        container_id TEXT NOT NULL,
+        s3_bucket TEXT NOT NULL,
+        user_id TEXT,
+        mode TEXT NOT NULL,
+        allowlist TEXT,
+        source TEXT NOT NULL,
+        status TEXT NOT NULL,
+        error TEXT,
+        recorded_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_network_policy_audit_container ON network_policy_audit(container_id)
+    `);
   }
 
   /**
@@ -351,6 +416,96 @@ export class StateManager {
     return this.rowToContainer(row);
   }
 
+  /**
+   * Record that a student's container was started (from the pre-warmed queue or cold)
+   */
+  recordContainerStart(fromQueue: boolean, startedAt: Date = new Date()): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO container_starts (started_at, from_queue) VALUES (?, ?)
+    `);
+    stmt.run(startedAt.getTime(), fromQueue ? 1 : 0);
+  }
+
+  /**
+   * Count container starts per hour since a point in time.
+   * hourStart is the start of the hour in epoch milliseconds.
+   */
+  getContainerStartsByHour(since: Date): { hourStart: number; count: number }[] {
+    const stmt = this.db.prepare(`
+      SELECT (started_at / 3600000) * 3600000 AS hour_start, COUNT(*) AS count
+      FROM container_starts
+      WHERE started_at >= ?
+      GROUP BY hour_start
+      ORDER BY hour_start
+    `);
+
+    const rows = stmt.all(since.getTime()) as { hour_start: number; count: number }[];
+    return rows.map((row) => ({ hourStart: row.hour_start, count: row.count }));
+  }
+
+  /**
+   * Delete start records older than a point in time
+   */
+  pruneContainerStarts(before: Date): number {
+    const stmt = this.db.prepare(`DELETE FROM container_starts WHERE started_at < ?`);
+    return stmt.run(before.getTime()).changes;
+  }
+
+  /**
+   * Record a network policy applied to (or requested for) a container
+   */
+  recordNetworkPolicy(entry: {
+    containerId: string;
+    s3Bucket: string;
+    userId?: string;
+    policy: NetworkPolicy;
+    source: NetworkPolicySource;
+    status: NetworkPolicyStatus;
+    error?: string;
+  }): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO network_policy_audit (
+        container_id, s3_bucket, user_id, mode, allowlist, source, status, error, recorded_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      entry.containerId,
+      entry.s3Bucket,
+      entry.userId || null,
+      entry.policy.mode,
+      entry.policy.allowlist ? JSON.stringify(entry.policy.allowlist) : null,
+      entry.source,
+      entry.status,
+      entry.error || null,
+      Date.now()
+    );
+  }
+
+  /**
+   * Get the latest network policy recorded for a container that didn't fail
+   */
+  getNetworkPolicy(containerId: string): NetworkPolicyAuditEntry | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM network_policy_audit
+      WHERE container_id = ? AND status != 'failed'
+      ORDER BY id DESC
+      LIMIT 1
+    `);
+    const row = stmt.get(containerId) as NetworkPolicyAuditRow | undefined;
+    return row ? this.rowToNetworkPolicyAudit(row) : null;
+  }
+
+  /**
+   * List recent network policy audit entries, newest first
+   */
+  listNetworkPolicyAudit(limit: number = 100): NetworkPolicyAuditEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM network_policy_audit ORDER BY id DESC LIMIT ?
+    `);
+    const rows = stmt.all(limit) as NetworkPolicyAuditRow[];
+    return rows.map((row) => this.rowToNetworkPolicyAudit(row));
+  }
+
   /**
    * Get total count of containers by status
    */
@@ -398,6 +553,26 @@ export class StateManager {
     };
   }
 
+  /**
+   * Convert database row to NetworkPolicyAuditEntry
+   */
+  private rowToNetworkPolicyAudit(row: NetworkPolicyAuditRow): NetworkPolicyAuditEntry {
+    return {
+      id: row.id,
+      containerId: row.container_id,
+      s3Bucket: row.s3_bucket,
+      userId: row.user_id || undefined,
+      policy: {
+        mode: row.mode as NetworkPolicy["mode"],
+        allowlist: row.allowlist ? (JSON.parse(row.allowlist) as string[]) : undefined,
+      },
+      source: row.source as NetworkPolicySource,
+      status: row.status as NetworkPolicyStatus,
+      error: row.error || undefined,
+      recordedAt: new Date(row.recorded_at),
+    };
+  }
+
   /**
    * Close the database connection
    */
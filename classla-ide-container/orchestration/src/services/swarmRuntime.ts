@@ -0,0 +1,291 @@
+import Docker from "dockerode";
+import {
+  ContainerRuntime,
+  RuntimeLogOptions,
+  RuntimeService,
+  RuntimeServiceSpec,
+  ServiceNotFoundError,
+  isDockerNotFound,
+  probeUrlOverNetwork,
+  requestServiceOverNetwork,
+} from "./containerRuntime";
+
+/**
+ * SwarmContainerRuntime - Runs each IDE container as a Docker Swarm service
+ *
+ * This is the production driver: Swarm schedules services across nodes and
+ * restarts them on failure, and Traefik reads routing labels from the
+ * service.
+ */
+export class SwarmContainerRuntime implements ContainerRuntime {
+  readonly driver = "swarm" as const;
+  private docker: Docker;
+
+  constructor(docker: Docker) {
+    this.docker = docker;
+  }
+
+  async ping(): Promise<void> {
+    await this.docker.ping();
+  }
+
+  async createService(spec: RuntimeServiceSpec): Promise<void> {
+    // Note: In Docker Swarm mode, Traefik reads labels from service level, not container spec
+    const serviceSpec = {
+      Name: spec.name,
+      TaskTemplate: {
+        ContainerSpec: {
+          Image: spec.image,
+          Env: spec.env,
+          // Labels removed from ContainerSpec - Traefik reads from service level in Swarm mode
+          // Swarm wants the full capability names
+          ...(spec.capAdd
+            ? { CapabilityAdd: spec.capAdd.map((cap) => `CAP_${cap}`) }
+            : {}),
+        },
+        LogDriver: {
+          Name: "json-file",
+          Options: {
+            "max-size": "10m",      // Maximum size of log file before rotation
+            "max-file": "5",        // Maximum number of log files to keep
+            "labels": "container_id,service_name", // Add labels to logs for easier filtering
+          },
+        },
+        Resources: {
+          Limits: {
+            NanoCPUs: spec.cpuLimit * 1000000000, // Convert cores to NanoCPUs
+            MemoryBytes: spec.memoryLimitBytes,
+          },
+        },
+        RestartPolicy: {
+          Condition: "on-failure",
+          MaxAttempts: spec.restartMaxAttempts,
+        },
+        Placement: {
+          Constraints: [
+            // Can add node-specific constraints here if needed
+            // e.g., 'node.labels.type==ide-worker'
+          ],
+        },
+      },
+      Mode: {
+        Replicated: {
+          Replicas: 1,
+        },
+      },
+      Networks: [
+        {
+          Target: spec.network,
+          Aliases: [spec.name], // Only allow access via service name, not container-to-container
+        },
+      ],
+      Labels: spec.labels,
+      EndpointSpec: {
+        Mode: "vip", // Virtual IP mode for better isolation
+        Ports: [], // All access through Traefik (no direct port publishing)
+      },
+    };
+
+    const createStartTime = Date.now();
+    await this.docker.createService(serviceSpec);
+    const createDuration = Date.now() - createStartTime;
+
+    console.log(
+      `[SwarmRuntime] Service ${spec.name} created in ${createDuration}ms, ensuring network attachment...`
+    );
+
+    await this.ensureNetworkAttached(spec.name, spec.network);
+  }
+
+  async removeService(name: string): Promise<void> {
+    try {
+      await this.docker.getService(name).remove();
+    } catch (error) {
+      if (isDockerNotFound(error)) {
+        throw new ServiceNotFoundError(name);
+      }
+      throw error;
+    }
+  }
+
+  async inspectService(name: string): Promise<RuntimeService | null> {
+    try {
+      const inspect = await this.docker.getService(name).inspect();
+      return this.toRuntimeService(inspect);
+    } catch (error) {
+      if (isDockerNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listServices(namePrefix: string): Promise<RuntimeService[]> {
+    const services = await this.docker.listServices({
+      filters: {
+        name: [namePrefix],
+      },
+    });
+    return services.map((service) =>
+      this.toRuntimeService(service as unknown as SwarmServiceInspect)
+    );
+  }
+
+  async getServiceLogs(
+    name: string,
+    options: RuntimeLogOptions
+  ): Promise<NodeJS.ReadableStream> {
+    // Get tasks for this service
+    const allTasks = await this.docker.listTasks({
+      filters: {
+        service: [name],
+      },
+    });
+
+    if (allTasks.length === 0) {
+      throw new Error("No tasks found for service");
+    }
+
+    // Get the most recent task
+    const task = allTasks[0];
+    const taskContainerId = task.Status?.ContainerStatus?.ContainerID;
+
+    if (!taskContainerId) {
+      throw new Error("No container ID found for task");
+    }
+
+    const container = this.docker.getContainer(taskContainerId);
+
+    // Handle follow parameter properly for TypeScript
+    let logStream: unknown;
+    if (options.follow) {
+      logStream = await container.logs({
+        stdout: true,
+        stderr: true,
+        follow: true,
+        tail: options.tail,
+        timestamps: options.timestamps,
+      });
+    } else {
+      logStream = await container.logs({
+        stdout: true,
+        stderr: true,
+        follow: false,
+        tail: options.tail,
+        timestamps: options.timestamps,
+      });
+    }
+
+    return logStream as NodeJS.ReadableStream;
+  }
+
+  probeUrl(url: string, timeoutMs: number): Promise<number> {
+    return probeUrlOverNetwork(url, timeoutMs);
+  }
+
+  requestService(
+    name: string,
+    port: number,
+    path: string,
+    init?: RequestInit
+  ): Promise<Response> {
+    return requestServiceOverNetwork(name, port, path, init);
+  }
+
+  /**
+   * Dockerode sometimes doesn't apply Networks correctly during creation,
+   * so attach the network with a service update if it's missing
+   */
+  private async ensureNetworkAttached(
+    serviceName: string,
+    network: string
+  ): Promise<void> {
+    try {
+      // Reduced delay for faster startup - check immediately
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const service = this.docker.getService(serviceName);
+      const inspect = await service.inspect();
+      const currentNetworks = inspect.Spec?.TaskTemplate?.Networks || [];
+
+      // Check if the network is already attached
+      const hasNetwork = currentNetworks.some(
+        (net: { Target?: string }) => net.Target === network
+      );
+
+      if (!hasNetwork) {
+        // Get the service version for the update
+        const version = inspect.Version?.Index;
+        if (version !== undefined) {
+          // Update the service to add the network
+          const updateSpec = {
+            ...inspect.Spec,
+            TaskTemplate: {
+              ...inspect.Spec.TaskTemplate,
+              Networks: [
+                ...currentNetworks,
+                {
+                  Target: network,
+                  Aliases: [serviceName],
+                },
+              ],
+            },
+          };
+
+          try {
+            await service.update({
+              version: version,
+              ...updateSpec,
+            });
+            console.log(
+              `Successfully attached network to service ${serviceName} using dockerode API`
+            );
+          } catch (updateErr) {
+            console.error(
+              `Dockerode API update failed for ${serviceName}:`,
+              updateErr instanceof Error ? updateErr.message : String(updateErr)
+            );
+            throw updateErr; // Re-throw to trigger outer catch
+          }
+        } else {
+          console.warn(
+            `Could not get service version for ${serviceName}, network attachment may fail`
+          );
+          throw new Error("Service version not available");
+        }
+      } else {
+        console.log(`Network already attached to service ${serviceName}`);
+      }
+    } catch (updateError) {
+      // Log but don't fail - network might already be attached or service might be starting
+      console.error(
+        `Failed to update network for service ${serviceName} using dockerode API:`,
+        updateError instanceof Error ? updateError.message : String(updateError)
+      );
+      console.error(
+        `Network attachment failed for ${serviceName}. The Networks field in serviceSpec should have attached it, but dockerode may not be applying it correctly. Manual attachment may be required.`
+      );
+    }
+  }
+
+  private toRuntimeService(inspect: SwarmServiceInspect): RuntimeService {
+    return {
+      name: inspect.Spec?.Name || "",
+      state: inspect.UpdateStatus?.State === "updating" ? "starting" : "running",
+      env: inspect.Spec?.TaskTemplate?.ContainerSpec?.Env || [],
+      labels: inspect.Spec?.Labels || {},
+      createdAt: new Date(inspect.CreatedAt || Date.now()),
+    };
+  }
+}
+
+// The parts of a service inspect/list response we read
+interface SwarmServiceInspect {
+  CreatedAt?: string;
+  UpdateStatus?: { State?: string };
+  Spec?: {
+    Name?: string;
+    Labels?: Record<string, string>;
+    TaskTemplate?: { ContainerSpec?: { Env?: string[] } };
+  };
+}
@@ -133,11 +133,12 @@ interface Submission {
 }
 
 /**
- * Block Score - represents the score for a single MCQ block
+ * Block Score - represents the score for a single autograded block
  */
 interface BlockScore {
   awarded: number; // Points awarded for this block
   possible: number; // Total possible points for this block
+  needsReview?: boolean; // Auto-scored below full credit; a TA should confirm
 }
 
 // Grader entity (feedback and grading info)